@@ -7,6 +7,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
 import { 
   Select,
   SelectContent,
@@ -22,19 +23,41 @@ import {
   User,
   Building,
   AlertCircle,
-  CheckCircle
+  CheckCircle,
+  Plus,
+  Trash2,
+  Users
 } from 'lucide-react'
-import { AgreementTemplate, TemplateVariable } from '@/lib/db/models/agreement'
+import { AgreementLanguageType, AgreementTemplate, SigningOrderType, TemplateVariable } from '@/lib/db/models/agreement'
+import { AdditionalSignerInput, SIGNER_ROLE_LABELS } from '@/lib/agreements/signers'
+import { AGREEMENT_LANGUAGE_NAMES, getTemplateLanguages } from '@/lib/agreements/bilingual'
+
+interface AdditionalSignerForm {
+  role: AdditionalSignerInput['role']
+  name: string
+  email: string
+  phone: string
+  language: AgreementLanguageType
+}
+
+// The document in one language, or in every language of the template side by side
+type DocumentFormat = AgreementLanguageType | 'bilingual'
 
 interface SendAgreementForm {
   templateId: string
   prospectName: string
   prospectEmail: string
   prospectPhone: string
+  prospectLanguage: AgreementLanguageType
+  notificationChannels: ('whatsapp' | 'sms')[]
   customMessage: string
   expirationDays: number
   ownerName: string
   ownerEmail: string
+  additionalSigners: AdditionalSignerForm[]
+  signingOrder: SigningOrderType
+  confirmUnreviewedTemplate: boolean
+  documentFormat: DocumentFormat
   variableValues: Record<string, any>
 }
 
@@ -52,10 +75,16 @@ export default function SendAgreementPage() {
     prospectName: '',
     prospectEmail: '',
     prospectPhone: '',
+    prospectLanguage: 'en',
+    notificationChannels: [],
     customMessage: '',
     expirationDays: 7,
     ownerName: '',
     ownerEmail: '',
+    additionalSigners: [],
+    signingOrder: 'sequential',
+    confirmUnreviewedTemplate: false,
+    documentFormat: 'en',
     variableValues: {}
   })
 
@@ -71,10 +100,10 @@ export default function SendAgreementPage() {
       // Initialize variable values
       if (template) {
         const initialValues: Record<string, any> = {}
-        template.variables.forEach(variable => {
+        template.variables.filter(variable => variable.type !== 'computed').forEach(variable => {
           initialValues[variable.name] = variable.defaultValue || ''
         })
-        setForm(prev => ({ ...prev, variableValues: initialValues }))
+        setForm(prev => ({ ...prev, variableValues: initialValues, documentFormat: template.language }))
       }
     }
   }, [form.templateId, templates])
@@ -94,6 +123,10 @@ export default function SendAgreementPage() {
     }
   }
 
+  // Computed fields are worked out from the others when the agreement is rendered
+  const fillableVariables = selectedTemplate?.variables.filter(variable => variable.type !== 'computed') ?? []
+  const templateLanguages = selectedTemplate ? getTemplateLanguages(selectedTemplate) : []
+
   const validateForm = (): string[] => {
     const errors: string[] = []
     
@@ -103,13 +136,23 @@ export default function SendAgreementPage() {
     if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(form.prospectEmail)) {
       errors.push('Please enter a valid email address')
     }
+    form.additionalSigners.forEach((signer, index) => {
+      if (!signer.name.trim()) errors.push(`Signer ${index + 2} name is required`)
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(signer.email)) {
+        errors.push(`Please enter a valid email address for signer ${index + 2}`)
+      }
+    })
     if (form.expirationDays < 1 || form.expirationDays > 30) {
       errors.push('Expiration days must be between 1 and 30')
     }
 
+    if (selectedTemplate && !selectedTemplate.legalReviewDate && !form.confirmUnreviewedTemplate) {
+      errors.push(`Confirm sending version ${selectedTemplate.version} of the template, which has not been legally reviewed`)
+    }
+
     // Validate required template variables
     if (selectedTemplate) {
-      selectedTemplate.variables.forEach(variable => {
+      fillableVariables.forEach(variable => {
         if (variable.required && !form.variableValues[variable.name]?.toString().trim()) {
           errors.push(`${variable.label} is required`)
         }
@@ -148,10 +191,26 @@ export default function SendAgreementPage() {
           prospectName: form.prospectName,
           prospectEmail: form.prospectEmail,
           prospectPhone: form.prospectPhone || undefined,
+          prospectLanguage: form.prospectLanguage,
+          notificationChannels: form.prospectPhone && form.notificationChannels.length > 0
+            ? form.notificationChannels
+            : undefined,
           customMessage: form.customMessage || undefined,
           expirationDays: form.expirationDays,
           ownerName: form.ownerName || undefined,
           ownerEmail: form.ownerEmail || undefined,
+          additionalSigners: form.additionalSigners.length > 0
+            ? form.additionalSigners.map(signer => ({
+              role: signer.role,
+              name: signer.name.trim(),
+              email: signer.email.trim(),
+              phone: signer.phone.trim() || undefined,
+              language: signer.language
+            }))
+            : undefined,
+          signingOrder: form.signingOrder,
+          confirmUnreviewedTemplate: form.confirmUnreviewedTemplate || undefined,
+          documentLanguages: form.documentFormat === 'bilingual' ? templateLanguages : [form.documentFormat],
           variableValues
         })
       })
@@ -174,6 +233,13 @@ export default function SendAgreementPage() {
     }
   }
 
+  const updateAdditionalSigner = (index: number, changes: Partial<AdditionalSignerForm>) => {
+    setForm(prev => ({
+      ...prev,
+      additionalSigners: prev.additionalSigners.map((signer, i) => i === index ? { ...signer, ...changes } : signer)
+    }))
+  }
+
   const updateVariableValue = (variableName: string, value: any) => {
     setForm(prev => ({
       ...prev,
@@ -332,7 +398,7 @@ export default function SendAgreementPage() {
                   <Label htmlFor="template">Template</Label>
                   <Select
                     value={form.templateId}
-                    onValueChange={(value) => setForm(prev => ({ ...prev, templateId: value }))}
+                    onValueChange={(value) => setForm(prev => ({ ...prev, templateId: value, confirmUnreviewedTemplate: false }))}
                   >
                     <SelectTrigger>
                       <SelectValue placeholder="Select a template" />
@@ -353,10 +419,56 @@ export default function SendAgreementPage() {
                       <strong>Description:</strong> {selectedTemplate.description || 'No description'}
                     </p>
                     <p className="text-sm text-gray-600 mt-1">
-                      <strong>Variables:</strong> {selectedTemplate.variables.length} fields to fill
+                      <strong>Variables:</strong> {fillableVariables.length} fields to fill
+                    </p>
+                    <p className="text-sm text-gray-600 mt-1">
+                      <strong>Version:</strong> {selectedTemplate.version}
+                      {selectedTemplate.legalReviewDate &&
+                        ` (legally reviewed by ${selectedTemplate.legalReviewedBy} on ${new Date(selectedTemplate.legalReviewDate).toLocaleDateString()})`}
                     </p>
                   </div>
                 )}
+
+                {selectedTemplate && !selectedTemplate.legalReviewDate && (
+                  <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-2">
+                    <p className="text-sm text-amber-800 flex items-start gap-2">
+                      <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                      Version {selectedTemplate.version} of this template has not been legally reviewed.
+                    </p>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="confirmUnreviewedTemplate"
+                        checked={form.confirmUnreviewedTemplate}
+                        onCheckedChange={(checked) => setForm(prev => ({ ...prev, confirmUnreviewedTemplate: checked === true }))}
+                      />
+                      <Label htmlFor="confirmUnreviewedTemplate" className="text-sm font-normal">
+                        Send this unreviewed version anyway
+                      </Label>
+                    </div>
+                  </div>
+                )}
+
+                {templateLanguages.length > 1 && (
+                  <div>
+                    <Label htmlFor="documentFormat">Document Language</Label>
+                    <Select
+                      value={form.documentFormat}
+                      onValueChange={(value) => setForm(prev => ({ ...prev, documentFormat: value as DocumentFormat }))}
+                    >
+                      <SelectTrigger id="documentFormat">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="bilingual">
+                          {templateLanguages.map(language => AGREEMENT_LANGUAGE_NAMES[language]).join(' and ')}, side by side
+                        </SelectItem>
+                        {templateLanguages.map(language => (
+                          <SelectItem key={language} value={language}>{AGREEMENT_LANGUAGE_NAMES[language]} only</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -404,6 +516,164 @@ export default function SendAgreementPage() {
                   placeholder="Enter prospect's phone (optional)"
                 />
               </div>
+
+              <div>
+                <Label htmlFor="prospectLanguage">Preferred Language</Label>
+                <Select
+                  value={form.prospectLanguage}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, prospectLanguage: value as AgreementLanguageType }))}
+                >
+                  <SelectTrigger id="prospectLanguage">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(AGREEMENT_LANGUAGE_NAMES) as AgreementLanguageType[]).map(language => (
+                      <SelectItem key={language} value={language}>{AGREEMENT_LANGUAGE_NAMES[language]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500 mt-1">Emails and messages about the agreement are sent in this language</p>
+              </div>
+
+              {form.prospectPhone && (
+                <div className="flex items-center gap-6">
+                  <span className="text-sm text-gray-600">Also send the link by</span>
+                  {([['whatsapp', 'WhatsApp'], ['sms', 'SMS']] as const).map(([channel, label]) => (
+                    <div key={channel} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`notify-${channel}`}
+                        checked={form.notificationChannels.includes(channel)}
+                        onCheckedChange={(checked) => setForm(prev => ({
+                          ...prev,
+                          notificationChannels: checked
+                            ? [...prev.notificationChannels, channel]
+                            : prev.notificationChannels.filter(c => c !== channel)
+                        }))}
+                      />
+                      <Label htmlFor={`notify-${channel}`}>{label}</Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Additional Signers */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Additional Signers
+              </CardTitle>
+              <CardDescription>
+                Co-tenants, guarantors and the landlord who sign after the prospect
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {form.additionalSigners.map((signer, index) => (
+                <div key={index} className="grid grid-cols-2 gap-2 items-end border-b pb-4">
+                  <div>
+                    <Label>Role</Label>
+                    <Select
+                      value={signer.role}
+                      onValueChange={(role) => updateAdditionalSigner(index, { role: role as AdditionalSignerForm['role'] })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(['co-tenant', 'guarantor', 'landlord'] as const).map(role => (
+                          <SelectItem key={role} value={role}>{SIGNER_ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor={`signerName-${index}`}>Full Name</Label>
+                    <Input
+                      id={`signerName-${index}`}
+                      value={signer.name}
+                      onChange={(e) => updateAdditionalSigner(index, { name: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`signerEmail-${index}`}>Email</Label>
+                    <Input
+                      id={`signerEmail-${index}`}
+                      type="email"
+                      value={signer.email}
+                      onChange={(e) => updateAdditionalSigner(index, { email: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`signerPhone-${index}`}>Phone Number</Label>
+                    <Input
+                      id={`signerPhone-${index}`}
+                      type="tel"
+                      value={signer.phone}
+                      onChange={(e) => updateAdditionalSigner(index, { phone: e.target.value })}
+                      placeholder={signer.role === 'co-tenant' ? 'Needed for their tenant profile' : 'Optional'}
+                    />
+                  </div>
+                  <div>
+                    <Label>Preferred Language</Label>
+                    <Select
+                      value={signer.language}
+                      onValueChange={(language) => updateAdditionalSigner(index, { language: language as AgreementLanguageType })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(AGREEMENT_LANGUAGE_NAMES) as AgreementLanguageType[]).map(language => (
+                          <SelectItem key={language} value={language}>{AGREEMENT_LANGUAGE_NAMES[language]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setForm(prev => ({
+                      ...prev,
+                      additionalSigners: prev.additionalSigners.filter((_, i) => i !== index)
+                    }))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={form.additionalSigners.length >= 5}
+                onClick={() => setForm(prev => ({
+                  ...prev,
+                  additionalSigners: [...prev.additionalSigners, { role: 'co-tenant', name: '', email: '', phone: '', language: 'en' }]
+                }))}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Signer
+              </Button>
+
+              {form.additionalSigners.length > 0 && (
+                <div>
+                  <Label>Signing Order</Label>
+                  <Select
+                    value={form.signingOrder}
+                    onValueChange={(value) => setForm(prev => ({ ...prev, signingOrder: value as SigningOrderType }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="sequential">In turn, in the order listed</SelectItem>
+                      <SelectItem value="parallel">All at once, landlord last</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -468,7 +738,7 @@ export default function SendAgreementPage() {
 
         {/* Template Variables */}
         <div className="space-y-6">
-          {selectedTemplate && selectedTemplate.variables.length > 0 && (
+          {selectedTemplate && fillableVariables.length > 0 && (
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
@@ -480,7 +750,7 @@ export default function SendAgreementPage() {
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                {selectedTemplate.variables.map((variable) => (
+                {fillableVariables.map((variable) => (
                   <div key={variable.id}>
                     <Label htmlFor={variable.name}>
                       {variable.label}
@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect, useCallback } from 'react'
-import { useParams } from 'next/navigation'
+import { useParams, useSearchParams } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -16,43 +16,66 @@ import {
   DollarSign,
   CheckCircle,
   AlertCircle,
-  ExternalLink
+  ExternalLink,
+  Users,
+  Languages
 } from 'lucide-react'
-import { Agreement } from '@/lib/db/models/agreement'
+import { Agreement, AgreementLanguageType } from '@/lib/db/models/agreement'
+import { SignaturePad, SignaturePadResult } from '@/components/agreements/SignaturePad'
+import { PublicSigner, SIGNER_ROLE_LABELS } from '@/lib/agreements/signers'
+import { AGREEMENT_LANGUAGE_NATIVE_NAMES, pairClauses } from '@/lib/agreements/bilingual'
+import type { AgreementTranslation } from '@/lib/agreements/signing'
+
+// A single language, or every language side by side
+type ContentView = AgreementLanguageType | 'side-by-side'
 
 interface AgreementSigningData {
-  agreement: Agreement
+  agreement: Omit<Agreement, 'signers'>
+  signer: PublicSigner
+  signers: PublicSigner[]
+  canSign: boolean
+  waitingFor: string[]
   template: any
   property: any
   populatedContent: string
+  documentLanguages: AgreementLanguageType[]
+  translations: AgreementTranslation[]
+  consentText: string
+  docusignEnabled: boolean
   docusignUrl?: string
 }
 
 export default function AgreementSigningPage() {
   const params = useParams()
   const agreementId = params.id as string
+  const searchParams = useSearchParams()
+  const signerQuery = `?${new URLSearchParams({
+    signer: searchParams.get('signer') || '',
+    token: searchParams.get('token') || ''
+  })}`
   
   const [data, setData] = useState<AgreementSigningData | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [initiatingSign, setInitiatingSign] = useState(false)
+  const [signing, setSigning] = useState(false)
+  const [signError, setSignError] = useState<string | null>(null)
+  const [contentView, setContentView] = useState<ContentView | null>(null)
 
   const loadAgreementData = useCallback(async () => {
     if (!agreementId) return
     try {
       setLoading(true)
-      const response = await fetch(`/api/agreements/${agreementId}/sign`)
+      // Opening the agreement marks it viewed for this signer
+      const response = await fetch(`/api/agreements/${agreementId}/sign${signerQuery}`)
       
       if (response.ok) {
         const agreementData = await response.json()
         setData(agreementData)
-        
-        // Mark as viewed if not already
-        if (agreementData.agreement.status === 'Sent') {
-          await fetch(`/api/agreements/${agreementId}/viewed`, { method: 'POST' })
-        }
       } else if (response.status === 404) {
         setError('Agreement not found or has expired')
+      } else if (response.status === 400 || response.status === 403) {
+        setError('This signing link is not valid. Please use the link from your invitation email.')
       } else if (response.status === 410) {
         setError('This agreement has already been signed or is no longer available')
       } else {
@@ -64,7 +87,7 @@ export default function AgreementSigningPage() {
     } finally {
       setLoading(false)
     }
-  }, [agreementId])
+  }, [agreementId, signerQuery])
 
   useEffect(() => {
     loadAgreementData()
@@ -73,11 +96,39 @@ export default function AgreementSigningPage() {
   const oldLoad = async () => {
   }
 
+  const signAgreement = async (signature: SignaturePadResult) => {
+    try {
+      setSigning(true)
+      setSignError(null)
+
+      const response = await fetch(`/api/agreements/${agreementId}/sign${signerQuery}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(signature)
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to sign agreement')
+      }
+
+      const signingView = await response.json()
+      setData(current => current ? { ...current, ...signingView } : current)
+    } catch (error) {
+      console.error('Error signing agreement:', error)
+      setSignError(error instanceof Error ? error.message : 'Failed to sign agreement')
+    } finally {
+      setSigning(false)
+    }
+  }
+
   const initiateDocuSignSigning = async () => {
     try {
       setInitiatingSign(true)
       
-      const response = await fetch(`/api/agreements/${agreementId}/docusign`, {
+      const response = await fetch(`/api/agreements/${agreementId}/docusign${signerQuery}`, {
         method: 'POST'
       })
       
@@ -147,10 +198,21 @@ export default function AgreementSigningPage() {
     return null
   }
 
-  const { agreement, template, property, populatedContent } = data
+  const { agreement, signer, signers, waitingFor, template, property, populatedContent, documentLanguages, translations, consentText, docusignEnabled } = data
+
+  // Bilingual documents open side by side, others in the signer's language when there is a translation
+  const defaultView: ContentView = documentLanguages.length > 1
+    ? 'side-by-side'
+    : translations.some(translation => translation.language === signer.language)
+      ? signer.language!
+      : documentLanguages[0]
+  const view = contentView || defaultView
+  const shownTranslation = translations.find(translation => translation.language === view)
+  const isReferenceTranslation = view !== 'side-by-side' && !documentLanguages.includes(view)
   const isExpired = new Date() > new Date(agreement.expirationDate)
   const isAlreadySigned = ['Signed', 'Completed'].includes(agreement.status)
-  const canSign = !isExpired && !isAlreadySigned && ['Sent', 'Viewed'].includes(agreement.status)
+  const hasSigned = signer.status === 'Signed'
+  const canSign = !isExpired && data.canSign
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -196,6 +258,14 @@ export default function AgreementSigningPage() {
                 </p>
               </div>
             )}
+
+            {hasSigned && !isAlreadySigned && (
+              <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                <p className="text-blue-800 text-sm">
+                  ✅ You have signed. We will email you once every party has signed.
+                </p>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -270,12 +340,64 @@ export default function AgreementSigningPage() {
                 <CardDescription>
                   Please review the complete agreement below
                 </CardDescription>
+                {translations.length > 1 && (
+                  <div className="flex flex-wrap items-center gap-2 pt-2" data-testid="agreement-language-toggle">
+                    <Languages className="h-4 w-4 text-gray-500" />
+                    {translations.map(translation => (
+                      <Button
+                        key={translation.language}
+                        size="sm"
+                        variant={view === translation.language ? 'default' : 'outline'}
+                        onClick={() => setContentView(translation.language)}
+                      >
+                        {AGREEMENT_LANGUAGE_NATIVE_NAMES[translation.language]}
+                      </Button>
+                    ))}
+                    <Button
+                      size="sm"
+                      variant={view === 'side-by-side' ? 'default' : 'outline'}
+                      onClick={() => setContentView('side-by-side')}
+                    >
+                      Side by side
+                    </Button>
+                  </div>
+                )}
               </CardHeader>
-              <CardContent>
+              <CardContent className="space-y-3">
+                {isReferenceTranslation && (
+                  <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+                    This translation is for reference. You are signing the {documentLanguages.map(language => AGREEMENT_LANGUAGE_NATIVE_NAMES[language]).join(' / ')} version.
+                  </p>
+                )}
                 <div className="bg-white border rounded-lg p-6 max-h-96 overflow-y-auto">
-                  <pre className="whitespace-pre-wrap text-sm font-mono leading-relaxed">
-                    {populatedContent}
-                  </pre>
+                  {view === 'side-by-side' ? (
+                    <table className="w-full table-fixed text-sm leading-relaxed" data-testid="agreement-side-by-side">
+                      <thead>
+                        <tr>
+                          {translations.map(translation => (
+                            <th key={translation.language} className="text-left font-medium text-gray-500 pb-2 px-2">
+                              {AGREEMENT_LANGUAGE_NATIVE_NAMES[translation.language]}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {pairClauses(translations.map(translation => translation.content)).map((row, index) => (
+                          <tr key={index} className="border-t align-top">
+                            {row.map((clause, column) => (
+                              <td key={column} className="py-2 px-2">
+                                <pre className="whitespace-pre-wrap font-mono">{clause}</pre>
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <pre className="whitespace-pre-wrap text-sm font-mono leading-relaxed" lang={shownTranslation?.language}>
+                      {shownTranslation?.content ?? populatedContent}
+                    </pre>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -294,21 +416,60 @@ export default function AgreementSigningPage() {
               <CardContent className="space-y-3">
                 <div className="flex items-center gap-2">
                   <User className="h-4 w-4 text-gray-500" />
-                  <span>{agreement.prospectName}</span>
+                  <span>{signer.name}</span>
                 </div>
-                <div className="flex items-center gap-2">
-                  <Mail className="h-4 w-4 text-gray-500" />
-                  <span>{agreement.prospectEmail}</span>
+                <div className="text-sm text-gray-600">
+                  Signing as {SIGNER_ROLE_LABELS[signer.role].toLowerCase()}
                 </div>
-                {agreement.prospectPhone && (
-                  <div className="flex items-center gap-2">
-                    <Phone className="h-4 w-4 text-gray-500" />
-                    <span>{agreement.prospectPhone}</span>
-                  </div>
+                {signer.role === 'tenant' && (
+                  <>
+                    <div className="flex items-center gap-2">
+                      <Mail className="h-4 w-4 text-gray-500" />
+                      <span>{agreement.prospectEmail}</span>
+                    </div>
+                    {agreement.prospectPhone && (
+                      <div className="flex items-center gap-2">
+                        <Phone className="h-4 w-4 text-gray-500" />
+                        <span>{agreement.prospectPhone}</span>
+                      </div>
+                    )}
+                  </>
                 )}
               </CardContent>
             </Card>
 
+            {/* Signing Parties */}
+            {signers.length > 1 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Users className="h-5 w-5" />
+                    Signers
+                  </CardTitle>
+                  <CardDescription>
+                    {agreement.signingOrder === 'sequential'
+                      ? 'Each party signs in turn'
+                      : 'Parties sign in any order, the landlord last'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2" data-testid="agreement-signers">
+                  {signers.map((party, index) => (
+                    <div key={index} className="flex items-center justify-between text-sm">
+                      <div>
+                        <div className="font-medium">{party.name}</div>
+                        <div className="text-gray-500">
+                          {SIGNER_ROLE_LABELS[party.role]}{!party.required && ' (optional)'}
+                        </div>
+                      </div>
+                      <Badge className={getStatusColor(party.status === 'Pending' ? 'sent' : party.status)}>
+                        {party.status}
+                      </Badge>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Signing Action */}
             <Card>
               <CardHeader>
@@ -317,45 +478,53 @@ export default function AgreementSigningPage() {
                   Digital Signature
                 </CardTitle>
                 <CardDescription>
-                  Sign your agreement securely with DocuSign
+                  Draw or type your signature to sign the agreement
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
                 {canSign ? (
                   <>
-                    <div className="text-sm text-gray-600 space-y-2">
-                      <p>✓ Industry-standard security</p>
-                      <p>✓ Legally binding signature</p>
-                      <p>✓ Mobile-friendly signing</p>
-                      <p>✓ Instant completion</p>
-                    </div>
-                    
-                    <Button 
-                      onClick={initiateDocuSignSigning}
-                      disabled={initiatingSign}
-                      className="w-full"
-                      size="lg"
-                    >
-                      {initiatingSign ? (
-                        'Preparing Signature...'
-                      ) : (
-                        <>
-                          <ExternalLink className="h-4 w-4 mr-2" />
-                          Sign with DocuSign
-                        </>
-                      )}
-                    </Button>
-                    
+                    <SignaturePad
+                      signerName={signer.name}
+                      consentText={consentText}
+                      submitting={signing}
+                      onSubmit={signAgreement}
+                    />
+
+                    {signError && (
+                      <p className="text-sm text-red-600">{signError}</p>
+                    )}
+
                     <p className="text-xs text-gray-500 text-center">
-                      You&apos;ll be redirected to DocuSign&apos;s secure signing platform
+                      Your signature, the time, your IP address and browser are recorded on a certificate attached to the signed PDF
                     </p>
+
+                    {docusignEnabled && (
+                      <Button 
+                        onClick={initiateDocuSignSigning}
+                        disabled={initiatingSign || signing}
+                        variant="outline"
+                        className="w-full"
+                      >
+                        {initiatingSign ? (
+                          'Preparing Signature...'
+                        ) : (
+                          <>
+                            <ExternalLink className="h-4 w-4 mr-2" />
+                            Sign with DocuSign instead
+                          </>
+                        )}
+                      </Button>
+                    )}
                   </>
                 ) : (
                   <div className="text-center text-gray-500">
                     {isExpired ? (
                       <p>Agreement has expired</p>
-                    ) : isAlreadySigned ? (
+                    ) : isAlreadySigned || hasSigned ? (
                       <p>Agreement already signed</p>
+                    ) : waitingFor.length > 0 ? (
+                      <p>Waiting for {waitingFor.join(', ')} to sign first. We will email you when it is your turn.</p>
                     ) : (
                       <p>Agreement not available for signing</p>
                     )}
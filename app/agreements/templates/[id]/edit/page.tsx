@@ -1,16 +1,221 @@
 'use client'
 
-import { useState } from 'react'
-import { useRouter } from 'next/navigation'
+import { useEffect, useMemo, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { ArrowLeft } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { AlertCircle, ArrowLeft, History, Plus, RotateCcw, Save, ShieldCheck, Trash2 } from 'lucide-react'
+import { TemplateVersionDiff } from '@/components/agreements/TemplateVersionDiff'
+import { AgreementLanguageType, AgreementTemplate, AgreementTemplateVersion, TemplateVariable } from '@/lib/db/models/agreement'
+import { AgreementTemplateRenderer } from '@/lib/agreements/template-renderer'
+import { AGREEMENT_LANGUAGE_NAMES, getTemplateLanguages, splitClauses } from '@/lib/agreements/bilingual'
+import type { TemplateVersionComparison } from '@/lib/agreements/templates'
+
+const VARIABLE_TYPES: { value: TemplateVariable['type']; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'boolean', label: 'Yes / No' },
+  { value: 'select', label: 'Select' },
+  { value: 'computed', label: 'Computed' }
+]
 
 export default function TemplateEditPage() {
   const router = useRouter()
-  const [loading] = useState(false)
+  const params = useParams()
+  const templateId = params.id as string
+
+  const [template, setTemplate] = useState<AgreementTemplate | null>(null)
+  const [versions, setVersions] = useState<AgreementTemplateVersion[]>([])
+  const [form, setForm] = useState({ name: '', description: '', content: '', translation: '', changeNote: '' })
+  const [language, setLanguage] = useState<AgreementLanguageType>('en')
+  const [variables, setVariables] = useState<TemplateVariable[]>([])
+  const [reviewer, setReviewer] = useState('')
+  const [compare, setCompare] = useState<{ from: number; to: number; language?: AgreementLanguageType } | null>(null)
+  const [comparison, setComparison] = useState<TemplateVersionComparison | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [errors, setErrors] = useState<string[]>([])
+
+  useEffect(() => {
+    loadTemplate()
+  }, [templateId])
+
+  useEffect(() => {
+    if (compare && compare.from !== compare.to) {
+      loadComparison(compare.from, compare.to, compare.language)
+    } else {
+      setComparison(null)
+    }
+  }, [compare])
+
+  const loadTemplate = async () => {
+    try {
+      setLoading(true)
+      const [templateResponse, versionsResponse] = await Promise.all([
+        fetch(`/api/agreements/templates/${templateId}`),
+        fetch(`/api/agreements/templates/${templateId}/versions`)
+      ])
+
+      if (!templateResponse.ok) {
+        router.push('/agreements/templates')
+        return
+      }
+
+      const data: AgreementTemplate = await templateResponse.json()
+      setTemplate(data)
+      setForm({
+        name: data.name,
+        description: data.description || '',
+        content: data.content,
+        translation: data.translations[0]?.content || '',
+        changeNote: ''
+      })
+      setLanguage(data.language)
+      setVariables(data.variables)
+
+      if (versionsResponse.ok) {
+        const { versions } = await versionsResponse.json()
+        setVersions(versions)
+        // Start by comparing the current version with the one before it
+        if (versions.length > 1) {
+          setCompare({ from: versions[versions.length - 2].version, to: versions[versions.length - 1].version })
+        }
+      }
+    } catch (error) {
+      console.error('Error loading template:', error)
+      router.push('/agreements/templates')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadComparison = async (from: number, to: number, language?: AgreementLanguageType) => {
+    try {
+      const languageQuery = language ? `&language=${language}` : ''
+      const response = await fetch(`/api/agreements/templates/${templateId}/versions/compare?from=${from}&to=${to}${languageQuery}`)
+      if (response.ok) {
+        setComparison(await response.json())
+      }
+    } catch (error) {
+      console.error('Error comparing template versions:', error)
+    }
+  }
+
+  const runAction = async (request: () => Promise<Response>, fallbackError: string) => {
+    try {
+      setSaving(true)
+      setErrors([])
+      const response = await request()
+      if (response.ok) {
+        await loadTemplate()
+      } else {
+        const error = await response.json()
+        setErrors([error.error || fallbackError])
+      }
+    } catch (error) {
+      console.error(fallbackError, error)
+      setErrors([fallbackError])
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSave = () => runAction(() => fetch(`/api/agreements/templates/${templateId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      name: form.name,
+      description: form.description || undefined,
+      content: form.content,
+      language,
+      translations,
+      variables,
+      changeNote: form.changeNote || undefined
+    })
+  }), 'Failed to save template')
+
+  const handleReview = (version: number) => runAction(() => fetch(`/api/agreements/templates/${templateId}/versions/${version}/review`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ reviewedBy: reviewer.trim() })
+  }), 'Failed to record legal review')
+
+  const handleRollback = (version: number) => {
+    if (!confirm(`Make version ${version} the current wording? Agreements already sent keep their version.`)) {
+      return
+    }
 
-  if (loading) {
+    return runAction(() => fetch(`/api/agreements/templates/${templateId}/rollback`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ version })
+    }), 'Failed to roll back template')
+  }
+
+  // Templates hold English and Vietnamese; the translation is in whichever the content isn't
+  const translationLanguage: AgreementLanguageType = language === 'en' ? 'vi' : 'en'
+  const translations = form.translation.trim()
+    ? [{ language: translationLanguage, content: form.translation }]
+    : []
+
+  // Checked as the author types, with the same rules the server applies on save
+  const validationErrors = useMemo(() => {
+    const errors = AgreementTemplateRenderer.validate(form.content, variables)
+    if (form.translation.trim()) {
+      const name = AGREEMENT_LANGUAGE_NAMES[translationLanguage]
+      AgreementTemplateRenderer.validate(form.translation, variables).forEach(error => errors.push(`${name} wording: ${error}`))
+      const clauseCount = splitClauses(form.content).length
+      const translatedCount = splitClauses(form.translation).length
+      if (translatedCount !== clauseCount) {
+        errors.push(`${name} wording has ${translatedCount} clauses but the ${AGREEMENT_LANGUAGE_NAMES[language]} wording has ${clauseCount}`)
+      }
+    }
+    const names = variables.map(variable => variable.name)
+    variables.forEach((variable, index) => {
+      if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(variable.name)) {
+        errors.push(`Variable ${index + 1} needs a name made of letters, digits and underscores`)
+      } else if (names.indexOf(variable.name) !== index) {
+        errors.push(`Duplicate variable name: ${variable.name}`)
+      }
+      if (!variable.label.trim()) {
+        errors.push(`Variable ${variable.name || index + 1} needs a label`)
+      }
+      if (variable.type === 'select' && variable.selectOptions.length === 0) {
+        errors.push(`Select variable ${variable.name} needs options`)
+      }
+    })
+    return errors
+  }, [form.content, form.translation, language, translationLanguage, variables])
+
+  const updateVariable = (index: number, changes: Partial<TemplateVariable>) => {
+    setVariables(prev => prev.map((variable, i) => i === index ? { ...variable, ...changes } : variable))
+  }
+
+  const addVariable = () => {
+    setVariables(prev => [...prev, {
+      id: crypto.randomUUID(),
+      name: '',
+      label: '',
+      type: 'text',
+      required: true,
+      selectOptions: []
+    }])
+  }
+
+  if (loading || !template) {
     return (
       <div className="container mx-auto p-6">
         <div className="animate-pulse space-y-4">
@@ -21,13 +226,20 @@ export default function TemplateEditPage() {
     )
   }
 
+  const contentChanged = form.content !== template.content ||
+    language !== template.language ||
+    JSON.stringify(translations) !== JSON.stringify(template.translations) ||
+    JSON.stringify(variables) !== JSON.stringify(template.variables)
+
+  const versionLanguages = Array.from(new Set(versions.flatMap(version => getTemplateLanguages(version))))
+
   return (
     <div className="container mx-auto p-6 space-y-6">
       {/* Header */}
       <div className="flex items-center gap-4">
-        <Button 
-          variant="ghost" 
-          size="sm" 
+        <Button
+          variant="ghost"
+          size="sm"
           onClick={() => router.back()}
         >
           <ArrowLeft className="h-4 w-4 mr-2" />
@@ -35,24 +247,336 @@ export default function TemplateEditPage() {
         </Button>
         <div className="flex-1">
           <h1 className="text-3xl font-bold">
-            Template Editor
+            {template.name}
           </h1>
           <p className="text-muted-foreground">
-            Template editing functionality coming soon
+            Version {template.version} · {template.legalReviewDate
+              ? `Legally reviewed by ${template.legalReviewedBy} on ${new Date(template.legalReviewDate).toLocaleDateString()}`
+              : 'Not legally reviewed'}
           </p>
         </div>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Template Editor</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <p className="text-muted-foreground">
-            This feature is under development. Please check back later.
-          </p>
-        </CardContent>
-      </Card>
+      {errors.length > 0 && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="pt-6">
+            <div className="flex items-start gap-2">
+              <AlertCircle className="h-5 w-5 text-red-600 mt-0.5" />
+              <ul className="text-sm text-red-700 list-disc list-inside">
+                {errors.map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Editor */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Template</CardTitle>
+            <CardDescription>
+              Saving new wording creates version {template.version + 1}. Agreements already sent keep the version they were sent with.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="description">Description</Label>
+                <Input
+                  id="description"
+                  value={form.description}
+                  onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="md:w-1/2">
+              <Label htmlFor="language">Content language</Label>
+              <Select
+                value={language}
+                onValueChange={(value) => setLanguage(value as AgreementLanguageType)}
+              >
+                <SelectTrigger id="language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(AGREEMENT_LANGUAGE_NAMES) as AgreementLanguageType[]).map(option => (
+                    <SelectItem key={option} value={option}>{AGREEMENT_LANGUAGE_NAMES[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="content">Content</Label>
+              <Textarea
+                id="content"
+                value={form.content}
+                onChange={(e) => setForm(prev => ({ ...prev, content: e.target.value }))}
+                rows={20}
+                className="font-mono text-sm"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Use {'{{name}}'} for a variable, {'{{#if allow_pets}} ... {{else}} ... {{/if}}'} for a clause that depends on one,
+                {' {{#each house_rules}}{{@number}}. {{this}}{{/each}}'} to list the property&apos;s house rules, and
+                {' {{currency(monthly_rent)}}'} or {'{{date(lease_start_date)}}'} to format values.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="translation">{AGREEMENT_LANGUAGE_NAMES[translationLanguage]} translation</Label>
+              <Textarea
+                id="translation"
+                value={form.translation}
+                onChange={(e) => setForm(prev => ({ ...prev, translation: e.target.value }))}
+                rows={12}
+                className="font-mono text-sm"
+                placeholder="Optional"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Separate clauses with a blank line, in the same order as the content. Each clause is shown next to its
+                translation in bilingual agreements, so both need the same number of clauses.
+              </p>
+            </div>
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Variables and computed fields</Label>
+                <Button type="button" variant="outline" size="sm" onClick={addVariable}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Variable
+                </Button>
+              </div>
+              {variables.map((variable, index) => (
+                <div key={variable.id} className="border rounded-lg p-3 space-y-2" data-testid="template-variable">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                    <Input
+                      value={variable.name}
+                      onChange={(e) => updateVariable(index, { name: e.target.value })}
+                      placeholder="name, e.g. allow_pets"
+                      className="font-mono"
+                      aria-label="Variable name"
+                    />
+                    <Input
+                      value={variable.label}
+                      onChange={(e) => updateVariable(index, { label: e.target.value })}
+                      placeholder="Label shown when sending"
+                      aria-label="Variable label"
+                    />
+                    <div className="flex gap-2">
+                      <Select
+                        value={variable.type}
+                        onValueChange={(value) => updateVariable(index, { type: value as TemplateVariable['type'] })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {VARIABLE_TYPES.map(type => (
+                            <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setVariables(prev => prev.filter((_, i) => i !== index))}
+                        aria-label="Remove variable"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {variable.type === 'computed' ? (
+                    <Input
+                      value={variable.formula || ''}
+                      onChange={(e) => updateVariable(index, { formula: e.target.value })}
+                      placeholder="Formula, e.g. months_between(lease_start_date, lease_end_date)"
+                      className="font-mono text-sm"
+                      aria-label="Formula"
+                    />
+                  ) : (
+                    <div className="flex flex-wrap items-center gap-4">
+                      {variable.type === 'select' && (
+                        <Input
+                          value={variable.selectOptions.join(', ')}
+                          onChange={(e) => updateVariable(index, {
+                            selectOptions: e.target.value.split(',').map(option => option.trim()).filter(Boolean)
+                          })}
+                          placeholder="Options, separated by commas"
+                          className="flex-1"
+                          aria-label="Options"
+                        />
+                      )}
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id={`required-${variable.id}`}
+                          checked={variable.required}
+                          onCheckedChange={(checked) => updateVariable(index, { required: checked === true })}
+                        />
+                        <Label htmlFor={`required-${variable.id}`} className="text-sm font-normal">Required</Label>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+            {validationErrors.length > 0 && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg" data-testid="template-validation-errors">
+                <ul className="text-sm text-red-700 list-disc list-inside">
+                  {validationErrors.map((error, index) => (
+                    <li key={index}>{error}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {contentChanged && (
+              <div>
+                <Label htmlFor="changeNote">What changed</Label>
+                <Input
+                  id="changeNote"
+                  value={form.changeNote}
+                  onChange={(e) => setForm(prev => ({ ...prev, changeNote: e.target.value }))}
+                  placeholder="e.g. Updated the notice period clause"
+                  maxLength={500}
+                />
+              </div>
+            )}
+            <Button onClick={handleSave} disabled={saving || !form.name.trim() || !form.content.trim() || validationErrors.length > 0}>
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? 'Saving...' : contentChanged ? `Save as Version ${template.version + 1}` : 'Save'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Version history */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Versions
+            </CardTitle>
+            <CardDescription>
+              Legal review is recorded per version
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="reviewer">Reviewed by</Label>
+              <Input
+                id="reviewer"
+                value={reviewer}
+                onChange={(e) => setReviewer(e.target.value)}
+                placeholder="Name of the legal reviewer"
+              />
+            </div>
+            <div className="space-y-3" data-testid="template-versions">
+              {[...versions].reverse().map(version => (
+                <div key={version.version} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">Version {version.version}</span>
+                    {version.version === template.version && <Badge>Current</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(version.createdAt).toLocaleDateString()}
+                    {version.changeNote && ` · ${version.changeNote}`}
+                  </p>
+                  <p className="text-xs">
+                    {version.legalReviewDate
+                      ? `Reviewed by ${version.legalReviewedBy} on ${new Date(version.legalReviewDate).toLocaleDateString()}`
+                      : <span className="text-amber-700">Not legally reviewed</span>}
+                  </p>
+                  <div className="flex gap-2">
+                    {!version.legalReviewDate && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={saving || !reviewer.trim()}
+                        onClick={() => handleReview(version.version)}
+                      >
+                        <ShieldCheck className="h-4 w-4 mr-1" />
+                        Mark Reviewed
+                      </Button>
+                    )}
+                    {version.version !== template.version && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={saving}
+                        onClick={() => handleRollback(version.version)}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Roll Back
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Comparison */}
+      {versions.length > 1 && compare && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Compare Versions</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-4">
+              {versionLanguages.length > 1 && (
+                <Select
+                  value={compare.language || comparison?.language || template.language}
+                  onValueChange={(value) => setCompare(prev => prev && { ...prev, language: value as AgreementLanguageType })}
+                >
+                  <SelectTrigger className="w-40" aria-label="Compare language">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versionLanguages.map(option => (
+                      <SelectItem key={option} value={option}>{AGREEMENT_LANGUAGE_NAMES[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {(['from', 'to'] as const).map(side => (
+                <Select
+                  key={side}
+                  value={compare[side].toString()}
+                  onValueChange={(value) => setCompare(prev => prev && { ...prev, [side]: parseInt(value) })}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map(version => (
+                      <SelectItem key={version.version} value={version.version.toString()}>
+                        Version {version.version}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ))}
+            </div>
+            {comparison && (
+              <TemplateVersionDiff
+                fromVersion={comparison.from.version}
+                toVersion={comparison.to.version}
+                rows={comparison.rows}
+              />
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   )
 }
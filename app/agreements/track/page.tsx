@@ -422,6 +422,11 @@ export default function AgreementTrackingPage() {
                         <div>
                           <div className="font-medium">{agreement.prospectName}</div>
                           <div className="text-sm text-gray-500">{agreement.prospectEmail}</div>
+                          {agreement.signers?.length > 1 && (
+                            <div className="text-xs text-gray-500">
+                              {agreement.signers.filter(signer => signer.status === 'Signed').length} of {agreement.signers.length} signers signed
+                            </div>
+                          )}
                         </div>
                       </div>
                     </TableCell>
@@ -491,7 +496,7 @@ export default function AgreementTrackingPage() {
                             </DropdownMenuItem>
                           )}
                           
-                          <DropdownMenuItem onClick={() => window.open(`/agreements/sign/${agreement.id}`, '_blank')}>
+                          <DropdownMenuItem onClick={() => window.open(`/agreements/${agreement.id}/documents`, '_blank')}>
                             <Eye className="h-4 w-4 mr-2" />
                             View Agreement
                           </DropdownMenuItem>
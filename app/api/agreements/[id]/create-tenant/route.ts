@@ -51,6 +51,13 @@ export async function POST(
         lastName: result.tenant.lastName,
         status: result.tenant.status
       },
+      tenants: result.tenants.map(tenant => ({
+        id: tenant.id,
+        email: tenant.email,
+        firstName: tenant.firstName,
+        lastName: tenant.lastName,
+        status: tenant.status
+      })),
       warnings: result.errors.length > 0 ? result.errors : undefined,
       createdAt: new Date().toISOString()
     })
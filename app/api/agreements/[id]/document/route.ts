@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getAgreement } from '@/lib/db/operations/agreements'
 import { DocuSignService } from '@/lib/agreements/docusign'
+import { DocumentStorageService } from '@/lib/agreements/storage'
 import { requireAuth } from '@/lib/auth-config'
 
 // GET /api/agreements/[id]/document - Download signed agreement document
@@ -30,6 +31,22 @@ export async function GET(
       }, { status: 400 })
     }
 
+    // Agreements signed in the app are served from document storage
+    if (agreement.signedDocumentId) {
+      const { buffer } = await DocumentStorageService.retrieveDocument(agreement.signedDocumentId)
+
+      return new NextResponse(buffer, {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="lease-agreement-${agreement.id}.pdf"`,
+          'Cache-Control': 'private, no-cache, no-store, must-revalidate',
+          'Pragma': 'no-cache',
+          'Expires': '0'
+        }
+      })
+    }
+
     // Check if we have a DocuSign envelope ID
     if (!agreement.docusignEnvelopeId) {
       return NextResponse.json({ 
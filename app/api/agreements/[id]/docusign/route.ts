@@ -7,8 +7,9 @@ import {
 } from '@/lib/db/operations/agreements'
 import { getProperty } from '@/lib/db/operations/properties'
 import { createDocuSignEnvelope } from '@/lib/agreements/docusign'
+import { AgreementSignerService } from '@/lib/agreements/signers'
 
-// POST /api/agreements/[id]/docusign - Initiate DocuSign signing process
+// POST /api/agreements/[id]/docusign?signer=&token= - Initiate DocuSign signing process from a signing link
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -22,6 +23,20 @@ export async function POST(
       return NextResponse.json({ error: 'Agreement not found' }, { status: 404 })
     }
 
+    const signerId = request.nextUrl.searchParams.get('signer')
+    if (!signerId) {
+      return NextResponse.json({ error: 'Signer is required' }, { status: 400 })
+    }
+
+    const signer = AgreementSignerService.findSigner(agreement, signerId)
+    if (!signer) {
+      return NextResponse.json({ error: 'Signer not found' }, { status: 404 })
+    }
+
+    if (!AgreementSignerService.verifySigningToken(agreement.id, signer.id, request.nextUrl.searchParams.get('token') || undefined)) {
+      return NextResponse.json({ error: 'Invalid signing link' }, { status: 403 })
+    }
+
     // Validate agreement status
     if (!['Sent', 'Viewed'].includes(agreement.status)) {
       return NextResponse.json({ 
@@ -36,6 +51,20 @@ export async function POST(
       }, { status: 400 })
     }
 
+    // Envelopes carry a single signer, so co-signed agreements are signed in the app
+    if (agreement.signers.length > 1) {
+      return NextResponse.json({ 
+        error: 'Agreements with several signers must be signed in the app' 
+      }, { status: 400 })
+    }
+
+    // The envelope holds one document in one language
+    if ((agreement.documentLanguages?.length || 1) > 1) {
+      return NextResponse.json({ 
+        error: 'Bilingual agreements must be signed in the app' 
+      }, { status: 400 })
+    }
+
     // Get template and property
     const template = await getAgreementTemplate(agreement.templateId)
     const property = await getProperty(agreement.propertyId)
@@ -54,7 +83,12 @@ export async function POST(
     }))
 
     // Populate template content
-    const populatedContent = await populateTemplateContent(agreement.templateId, variableValues)
+    const populatedContent = await populateTemplateContent(
+      agreement.templateId,
+      variableValues,
+      agreement.templateVersion,
+      agreement.documentLanguages?.[0]
+    )
 
     // Create DocuSign envelope
     const envelopeResponse = await createDocuSignEnvelope(
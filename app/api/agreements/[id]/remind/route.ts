@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getAgreement, updateAgreement } from '@/lib/db/operations/agreements'
 import { AgreementNotificationService } from '@/lib/agreements/notifications'
+import { AgreementSignerService } from '@/lib/agreements/signers'
 import { requireAuth } from '@/lib/auth-config'
 
 // POST /api/agreements/[id]/remind - Send reminder for agreement
@@ -51,36 +52,45 @@ export async function POST(
       urgencyLevel = 'medium'
     }
 
-    // Construct reminder data
-    const reminderData = {
-      ...agreement,
-      prospectName: agreement.prospectName || '',
-      prospectEmail: agreement.prospectEmail || '',
-      propertyName: agreement.property?.name || '',
-      propertyAddress: agreement.property?.address ? 
-        `${agreement.property.address.street}, ${agreement.property.address.city}, ${agreement.property.address.state} ${agreement.property.address.postalCode}` : 
-        '',
-      agreementUrl: `${process.env.NEXT_PUBLIC_APP_URL}/agreements/sign/${agreement.id}`,
-      reminderNumber: (agreement.remindersSent || 0) + 1,
-      daysUntilExpiration: daysUntilExpiry,
-      ownerId: agreement.property?.ownerId,
-    }
+    // Remind every signer whose turn it is, each with their own link
+    const signers = AgreementSignerService.getAwaitingSigners(agreement)
+    for (const signer of signers) {
+      const reminderData = {
+        ...agreement,
+        prospectName: signer.name,
+        prospectEmail: signer.email,
+        propertyName: agreement.property?.name || '',
+        propertyAddress: agreement.property?.address ? 
+          `${agreement.property.address.street}, ${agreement.property.address.city}, ${agreement.property.address.state} ${agreement.property.address.postalCode}` : 
+          '',
+        agreementUrl: AgreementSignerService.getSigningUrl(agreement.id, signer),
+        reminderNumber: signer.remindersSent + 1,
+        daysUntilExpiration: daysUntilExpiry,
+        ownerId: agreement.property?.ownerId,
+        language: signer.language,
+      }
 
-    // Send reminder email
-    await AgreementNotificationService.sendReminderEmail(reminderData)
+      // Send reminder email
+      await AgreementNotificationService.sendReminderEmail(reminderData)
+    }
 
-    // Update agreement with last reminder date and increment count
+    // Update the reminded signers and the agreement's last reminder date and count
+    const remindedIds = signers.map(signer => signer.id)
     await updateAgreement({
       id: agreementId,
+      signers: AgreementSignerService.getSigners(agreement).map(signer => remindedIds.includes(signer.id)
+        ? { ...signer, remindersSent: signer.remindersSent + 1, lastReminderDate: now }
+        : signer),
       lastReminderDate: now,
-      remindersSent: (agreement.remindersSent || 0) + 1,
+      remindersSent: (agreement.remindersSent || 0) + signers.length,
     })
 
     return NextResponse.json({
       success: true,
       message: 'Reminder sent successfully',
       urgencyLevel,
-      daysUntilExpiry
+      daysUntilExpiry,
+      remindedSigners: signers.map(signer => AgreementSignerService.toPublicSigner(signer))
     })
   } catch (error) {
     console.error('Error sending reminder:', error)
@@ -1,10 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
 import { getAgreement } from '@/lib/db/operations/agreements'
+import { Agreement, AgreementSigner } from '@/lib/db/models/agreement'
 import { getAgreementTemplate } from '@/lib/db/operations/agreements'
 import { getProperty } from '@/lib/db/operations/properties'
-import { populateTemplateContent } from '@/lib/db/operations/agreements'
+import { AgreementSendingService } from '@/lib/agreements/sending'
+import { AgreementSigningService, ELECTRONIC_SIGNATURE_CONSENT } from '@/lib/agreements/signing'
+import { AgreementSignerService } from '@/lib/agreements/signers'
+import { AutomatedReminderService } from '@/lib/agreements/reminders'
+import { TenantProfileIntegrationService } from '@/lib/agreements/tenant-integration'
+import { getClientIP } from '@/lib/auth/session-security'
 
-// GET /api/agreements/[id]/sign - Get agreement data for signing
+const SignAgreementSchema = z.object({
+  method: z.enum(['drawn', 'typed']),
+  signatureImage: z.string().optional(),
+  typedName: z.string().max(100, 'Typed name is too long').optional(),
+  consent: z.literal(true, { errorMap: () => ({ message: 'Consent to sign electronically is required' }) })
+})
+
+// GET /api/agreements/[id]/sign?signer=&token= - Get agreement data for signing, as one of its signers
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -30,6 +44,21 @@ export async function GET(
       }, { status: 410 })
     }
 
+    const signerId = request.nextUrl.searchParams.get('signer')
+    if (!signerId) {
+      return NextResponse.json({ error: 'Signer is required' }, { status: 400 })
+    }
+
+    const signer = AgreementSignerService.findSigner(agreement, signerId)
+    if (!signer) {
+      return NextResponse.json({ error: 'Signer not found' }, { status: 404 })
+    }
+
+    // Signers don't log in, their signing link carries a token signed for them
+    if (!AgreementSignerService.verifySigningToken(agreement.id, signer.id, request.nextUrl.searchParams.get('token') || undefined)) {
+      return NextResponse.json({ error: 'Invalid signing link' }, { status: 403 })
+    }
+
     // Get template and property
     const template = await getAgreementTemplate(agreement.templateId)
     const property = await getProperty(agreement.propertyId)
@@ -40,21 +69,23 @@ export async function GET(
       }, { status: 500 })
     }
 
-    // Convert agreement data to variable values for population
-    const variableValues = Object.entries(agreement.agreementData || {}).map(([name, value]) => ({
-      variableId: template.variables.find(v => v.name === name)?.id || '',
-      name,
-      value
-    }))
+    // Populate template content, in every language the signer can read it in
+    const { documentLanguages, translations } = await AgreementSigningService.getTranslations(agreement)
+    const populatedContent = translations[0].content
 
-    // Populate template content
-    const populatedContent = await populateTemplateContent(agreement.templateId, variableValues)
+    if (signer.status === 'Pending') {
+      await AgreementSendingService.markAsViewed(agreement.id, signer.id)
+    }
 
     return NextResponse.json({
-      agreement,
+      ...getSigningView(agreement, signer),
       template,
       property,
-      populatedContent
+      populatedContent,
+      documentLanguages,
+      translations,
+      consentText: ELECTRONIC_SIGNATURE_CONSENT,
+      docusignEnabled: !!process.env.DOCUSIGN_INTEGRATION_KEY && agreement.signers.length <= 1 && documentLanguages.length === 1
     })
   } catch (error) {
     console.error('Error getting agreement for signing:', error)
@@ -64,3 +95,106 @@ export async function GET(
     )
   }
 }
+
+// POST /api/agreements/[id]/sign?signer=&token= - Sign the agreement with a drawn or typed signature
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const validatedInput = SignAgreementSchema.parse(body)
+
+    const signerId = request.nextUrl.searchParams.get('signer')
+    if (!signerId) {
+      return NextResponse.json({ error: 'Signer is required' }, { status: 400 })
+    }
+
+    const token = request.nextUrl.searchParams.get('token') || undefined
+    const agreement = await AgreementSigningService.signAgreement(params.id, { ...validatedInput, signerId, token }, {
+      ipAddress: getClientIP(request),
+      userAgent: request.headers.get('user-agent') || undefined
+    })
+
+    // Other parties still have to sign, so invite whoever is next
+    if (agreement.status !== 'Signed') {
+      try {
+        await AgreementSendingService.notifyNextSigners(agreement.id)
+      } catch (error) {
+        console.error('Failed to notify next signers:', error)
+      }
+      return NextResponse.json(getSigningView(agreement, AgreementSignerService.findSigner(agreement, signerId)!))
+    }
+
+    // Same follow-up as a completed DocuSign envelope
+    await AgreementSendingService.completeAgreement(agreement.id)
+    await AutomatedReminderService.cancelReminders(agreement.id, 'Agreement completed and signed')
+
+    try {
+      const result = await TenantProfileIntegrationService.processAgreementCompletion(agreement)
+      if (result.errors.length > 0) {
+        console.warn('Some tenant integration steps failed:', result.errors)
+      }
+    } catch (error) {
+      console.error('Failed to create tenant profile:', error)
+      // The agreement is signed either way
+    }
+
+    const completed = (await getAgreement(agreement.id)) || agreement
+    return NextResponse.json(getSigningView(completed, AgreementSignerService.findSigner(completed, signerId)!))
+  } catch (error) {
+    console.error('Error signing agreement:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Agreement not found' || error.message === 'Signer not found') {
+        return NextResponse.json({ error: error.message }, { status: 404 })
+      }
+      if (error.message === 'Invalid signing link') {
+        return NextResponse.json({ error: error.message }, { status: 403 })
+      }
+      if (
+        error.message === 'Agreement has expired' ||
+        error.message === 'Agreement is not available for signing' ||
+        error.message === 'Signer has already signed'
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 410 })
+      }
+      if (error.message.startsWith('Waiting for') || error.message.startsWith('Agreement is being signed')) {
+        return NextResponse.json({ error: error.message }, { status: 409 })
+      }
+      if (
+        error.message === 'Consent to sign electronically is required' ||
+        error.message === 'Typed signature name is required' ||
+        error.message.startsWith('Drawn signature')
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to sign agreement' },
+      { status: 500 }
+    )
+  }
+}
+
+// The agreement as one signer sees it. Signer IDs are signing links, so the
+// other parties only see each other's names and progress.
+function getSigningView(agreement: Agreement, signer: AgreementSigner) {
+  const { signers, ...agreementDetails } = agreement
+
+  return {
+    agreement: agreementDetails,
+    signer: AgreementSignerService.toPublicSigner(signer),
+    signers: AgreementSignerService.getSigners(agreement).map(other => AgreementSignerService.toPublicSigner(other)),
+    canSign: AgreementSignerService.canSign(agreement, signer),
+    waitingFor: AgreementSignerService.getBlockingSigners(agreement, signer).map(other => other.name)
+  }
+}
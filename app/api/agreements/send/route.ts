@@ -9,6 +9,8 @@ const SendAgreementSchema = z.object({
   prospectName: z.string().min(1, 'Prospect name is required'),
   prospectEmail: z.string().email('Invalid email address'),
   prospectPhone: z.string().optional(),
+  prospectLanguage: z.enum(['en', 'vi']).optional(),
+  notificationChannels: z.array(z.enum(['whatsapp', 'sms'])).optional(),
   customMessage: z.string().optional(),
   expirationDays: z.number().int().min(1).max(30).default(7),
   ownerName: z.string().optional(),
@@ -17,7 +19,22 @@ const SendAgreementSchema = z.object({
     variableId: z.string(),
     name: z.string(),
     value: z.any()
-  }))
+  })),
+  additionalSigners: z.array(z.object({
+    role: z.enum(['co-tenant', 'guarantor', 'landlord']),
+    name: z.string().min(1, 'Signer name is required'),
+    email: z.string().email('Invalid signer email'),
+    phone: z.string().optional(),
+    order: z.number().int().positive().optional(),
+    required: z.boolean().optional(),
+    language: z.enum(['en', 'vi']).optional()
+  })).max(5, 'At most 5 additional signers').optional(),
+  signingOrder: z.enum(['sequential', 'parallel']).optional(),
+  confirmUnreviewedTemplate: z.boolean().optional(),
+  documentLanguages: z.array(z.enum(['en', 'vi'])).min(1).max(2).optional()
+}).refine(data => !data.notificationChannels?.length || data.prospectPhone, {
+  message: 'A phone number is required to notify by WhatsApp or SMS',
+  path: ['prospectPhone']
 })
 
 // POST /api/agreements/send - Send new agreement to prospect
@@ -47,6 +64,14 @@ export async function POST(request: NextRequest) {
       )
     }
     
+    if (error instanceof Error && error.message === 'Template version has not been legally reviewed') {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    if (error instanceof Error && /^Template has no \w+ wording$/.test(error.message)) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to send agreement' },
       { status: 500 }
@@ -6,7 +6,8 @@ import { TemplateVariableValueSchema } from '@/lib/db/models/agreement'
 import { z } from 'zod'
 
 const PreviewRequestSchema = z.object({
-  variableValues: z.array(TemplateVariableValueSchema).optional().default([])
+  variableValues: z.array(TemplateVariableValueSchema).optional().default([]),
+  language: z.enum(['en', 'vi']).optional() // Defaults to the template's own language
 })
 
 // POST /api/agreements/templates/[id]/preview - Preview template with sample data
@@ -21,11 +22,12 @@ export async function POST(
     }
 
     const body = await request.json()
-    const { variableValues } = PreviewRequestSchema.parse(body)
+    const { variableValues, language } = PreviewRequestSchema.parse(body)
 
     const previewContent = await AgreementTemplateService.previewTemplate(
       params.id,
-      variableValues
+      variableValues,
+      language
     )
 
     return NextResponse.json({ content: previewContent })
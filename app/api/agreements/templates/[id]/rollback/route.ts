@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth-config'
+import { AgreementTemplateService } from '@/lib/agreements/templates'
+import { z } from 'zod'
+
+const RollbackTemplateSchema = z.object({
+  version: z.number().int().positive('Invalid version')
+})
+
+// POST /api/agreements/templates/[id]/rollback - Make an earlier version current again
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { version } = RollbackTemplateSchema.parse(body)
+
+    const template = await AgreementTemplateService.rollbackTemplate(params.id, version, session.user.id)
+
+    return NextResponse.json(template)
+  } catch (error) {
+    console.error('Error rolling back agreement template:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && (
+      error.message === 'Template not found' ||
+      error.message === 'Template version not found'
+    )) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    if (error instanceof Error && error.message === 'Template is already at this version') {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to roll back template' },
+      { status: 500 }
+    )
+  }
+}
@@ -52,8 +52,9 @@ export async function PUT(
 
     // Validate input
     const validatedInput = UpdateAgreementTemplateSchema.parse(updateInput)
+    const changeNote = z.string().max(500).optional().parse(body.changeNote)
 
-    const template = await AgreementTemplateService.updateTemplate(validatedInput)
+    const template = await AgreementTemplateService.updateTemplate(validatedInput, session.user.id, changeNote)
     
     if (!template) {
       return NextResponse.json({ error: 'Template not found' }, { status: 404 })
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth-config'
+import { AgreementTemplateService } from '@/lib/agreements/templates'
+import { z } from 'zod'
+
+const ReviewVersionSchema = z.object({
+  reviewedBy: z.string().min(1, 'Reviewer is required').max(200)
+})
+
+// POST /api/agreements/templates/[id]/versions/[version]/review - Record the legal review of a version
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; version: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const version = z.coerce.number().int().positive('Invalid version').parse(params.version)
+    const body = await request.json()
+    const { reviewedBy } = ReviewVersionSchema.parse(body)
+
+    const reviewed = await AgreementTemplateService.reviewTemplateVersion(params.id, version, reviewedBy)
+
+    return NextResponse.json(reviewed)
+  } catch (error) {
+    console.error('Error reviewing agreement template version:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && (
+      error.message === 'Template not found' ||
+      error.message === 'Template version not found'
+    )) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to review template version' },
+      { status: 500 }
+    )
+  }
+}
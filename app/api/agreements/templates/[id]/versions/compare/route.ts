@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth-config'
+import { AgreementTemplateService } from '@/lib/agreements/templates'
+import { z } from 'zod'
+
+const CompareVersionsSchema = z.object({
+  from: z.coerce.number().int().positive('Invalid version'),
+  to: z.coerce.number().int().positive('Invalid version'),
+  language: z.enum(['en', 'vi']).optional()
+})
+
+// GET /api/agreements/templates/[id]/versions/compare?from=1&to=2&language=vi - Side-by-side diff of two versions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { from, to, language } = CompareVersionsSchema.parse({
+      from: searchParams.get('from'),
+      to: searchParams.get('to'),
+      language: searchParams.get('language') || undefined
+    })
+
+    const comparison = await AgreementTemplateService.compareVersions(params.id, from, to, language)
+
+    return NextResponse.json(comparison)
+  } catch (error) {
+    console.error('Error comparing agreement template versions:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && (
+      error.message === 'Template not found' ||
+      error.message === 'Template version not found'
+    )) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to compare template versions' },
+      { status: 500 }
+    )
+  }
+}
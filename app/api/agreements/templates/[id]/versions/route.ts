@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth-config'
+import { AgreementTemplateService } from '@/lib/agreements/templates'
+
+// GET /api/agreements/templates/[id]/versions - List every version of a template
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const versions = await AgreementTemplateService.getTemplateVersions(params.id)
+
+    return NextResponse.json({ versions })
+  } catch (error) {
+    console.error('Error fetching agreement template versions:', error)
+
+    if (error instanceof Error && error.message === 'Template not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch template versions' },
+      { status: 500 }
+    )
+  }
+}
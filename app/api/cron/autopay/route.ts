@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runAutopay } from '@/lib/payments/autopay'
+import { isAuthorizedCronRequest, isVercelCronRequest } from '@/lib/cron'
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify the request is from Vercel Cron or authorized source
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    console.log('Starting autopay run...')
+
+    const results = await runAutopay()
+
+    const response = {
+      success: results.errors.length === 0,
+      timestamp: new Date().toISOString(),
+      results
+    }
+
+    console.log('Autopay run completed:', results)
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Failed to run autopay:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// GET endpoint for manual testing/monitoring
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authorization for manual testing
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Scheduled in vercel.json
+    if (isVercelCronRequest(request)) {
+      return POST(request)
+    }
+
+    return NextResponse.json({
+      message: 'Autopay cron job endpoint is active',
+      timestamp: new Date().toISOString(),
+      nextScheduledRun: 'Daily at 2:00 AM UTC'
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { applyLateFees } from '@/lib/payments/late-fees'
+import { isAuthorizedCronRequest, isVercelCronRequest } from '@/lib/cron'
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify the request is from Vercel Cron or authorized source
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+
+    console.log('Starting late fee processing...')
+
+    const results = await applyLateFees({
+      propertyId: searchParams.get('propertyId') || undefined
+    })
+
+    const response = {
+      success: results.errors.length === 0,
+      timestamp: new Date().toISOString(),
+      results
+    }
+
+    console.log('Late fee processing completed:', results)
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Failed to process late fees:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// GET endpoint for manual testing/monitoring
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authorization for manual testing
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Scheduled in vercel.json
+    if (isVercelCronRequest(request)) {
+      return POST(request)
+    }
+
+    return NextResponse.json({
+      message: 'Late fee cron job endpoint is active',
+      timestamp: new Date().toISOString(),
+      nextScheduledRun: 'Daily at 1:00 AM UTC'
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,14 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { processAutomatedReminders } from '@/lib/email/reminder-scheduler'
 import { cleanupOldReminderLogs } from '@/lib/db/operations/reminders'
+import { isAuthorizedCronRequest, isVercelCronRequest } from '@/lib/cron'
 
 export async function POST(request: NextRequest) {
   try {
     // Verify the request is from Vercel Cron or authorized source
-    const authHeader = request.headers.get('authorization')
-    const cronSecret = process.env.CRON_SECRET
-    
-    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    if (!isAuthorizedCronRequest(request)) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
@@ -17,7 +15,7 @@ export async function POST(request: NextRequest) {
 
     console.log('Starting automated payment reminder processing...')
     
-    // Process automated reminders
+    // Queue today's reminders per tenant and send those whose local time has come
     const results = await processAutomatedReminders()
     
     // Cleanup old reminder logs (keep last 90 days)
@@ -28,8 +26,10 @@ export async function POST(request: NextRequest) {
       timestamp: new Date().toISOString(),
       results: {
         processed: results.processed,
+        queued: results.queued,
         sent: results.sent,
         skipped: results.skipped,
+        escalated: results.escalated,
         errors: results.errors,
         cleanedUpLogs: cleanedUp
       }
@@ -56,20 +56,22 @@ export async function POST(request: NextRequest) {
 export async function GET(request: NextRequest) {
   try {
     // Verify authorization for manual testing
-    const authHeader = request.headers.get('authorization')
-    const cronSecret = process.env.CRON_SECRET
-    
-    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    if (!isAuthorizedCronRequest(request)) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
       )
     }
 
+    // Scheduled in vercel.json
+    if (isVercelCronRequest(request)) {
+      return POST(request)
+    }
+
     return NextResponse.json({
       message: 'Payment reminder cron job endpoint is active',
       timestamp: new Date().toISOString(),
-      nextScheduledRun: 'Daily at 9:00 AM UTC'
+      nextScheduledRun: 'Hourly, on the hour'
     })
   } catch (error) {
     return NextResponse.json(
@@ -1,14 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { AutomatedReminderService } from '@/lib/agreements/reminders'
+import { isAuthorizedCronRequest, isVercelCronRequest } from '@/lib/cron'
 
 // POST /api/cron/reminders - Process automated reminders (called by cron job)
 export async function POST(request: NextRequest) {
   try {
     // Verify this is a legitimate cron request
-    const authHeader = request.headers.get('authorization')
-    const cronSecret = process.env.CRON_SECRET
-    
-    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    if (!isAuthorizedCronRequest(request)) {
       console.error('Unauthorized cron request for reminders')
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
@@ -38,18 +36,20 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET /api/cron/reminders - Get reminder processing status and configuration
+// GET /api/cron/reminders - Get reminder processing status and configuration, or process reminders for Vercel Cron
 export async function GET(request: NextRequest) {
   try {
     // Verify this is a legitimate request (optional for status check)
-    const authHeader = request.headers.get('authorization')
-    const cronSecret = process.env.CRON_SECRET
-    
-    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    if (!isAuthorizedCronRequest(request)) {
       console.error('Unauthorized request for reminder status')
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    // Scheduled in vercel.json
+    if (isVercelCronRequest(request)) {
+      return POST(request)
+    }
+
     // Get current configuration and stats
     const config = AutomatedReminderService.getConfig()
     const stats = await AutomatedReminderService.getReminderStats(30)
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parse, isValid } from 'date-fns'
+import { generateRentRoll } from '@/lib/payments/rent-roll'
+import { isAuthorizedCronRequest, isVercelCronRequest } from '@/lib/cron'
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify the request is from Vercel Cron or authorized source
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const periodParam = searchParams.get('period') // YYYY-MM, defaults to next month
+    const periodStart = periodParam ? parse(periodParam, 'yyyy-MM', new Date()) : undefined
+
+    if (periodStart && !isValid(periodStart)) {
+      return NextResponse.json(
+        { error: 'Invalid period, expected YYYY-MM' },
+        { status: 400 }
+      )
+    }
+
+    console.log('Starting rent roll generation...')
+
+    const results = await generateRentRoll({
+      periodStart,
+      propertyId: searchParams.get('propertyId') || undefined,
+      dryRun: searchParams.get('dryRun') === 'true'
+    })
+
+    const response = {
+      success: results.errors.length === 0,
+      timestamp: new Date().toISOString(),
+      results: {
+        period: {
+          start: results.period.start.toISOString(),
+          end: results.period.end.toISOString()
+        },
+        dryRun: results.dryRun,
+        processed: results.processed,
+        generated: results.generated.length,
+        skipped: results.skipped.length,
+        totalsByCurrency: results.totalsByCurrency,
+        payments: results.generated,
+        skippedTenants: results.skipped,
+        errors: results.errors
+      }
+    }
+
+    console.log('Rent roll generation completed:', {
+      generated: response.results.generated,
+      skipped: response.results.skipped,
+      errors: results.errors.length
+    })
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Failed to generate rent roll:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// GET endpoint for manual testing/monitoring
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authorization for manual testing
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Scheduled in vercel.json
+    if (isVercelCronRequest(request)) {
+      return POST(request)
+    }
+
+    return NextResponse.json({
+      message: 'Rent roll cron job endpoint is active',
+      timestamp: new Date().toISOString(),
+      nextScheduledRun: 'Monthly on the 25th at 2:00 AM UTC'
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
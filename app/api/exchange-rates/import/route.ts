@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth-config'
+import { importExchangeRatesFromCSV } from '@/lib/currency/rates-import'
+
+// POST /api/exchange-rates/import - Import rates from a CSV file (date,from,to,rate)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File
+
+    if (!file) {
+      return NextResponse.json({ message: 'No file provided' }, { status: 400 })
+    }
+
+    if (!file.name.endsWith('.csv')) {
+      return NextResponse.json({ message: 'File must be a CSV' }, { status: 400 })
+    }
+
+    const csvText = await file.text()
+    let result
+    try {
+      result = await importExchangeRatesFromCSV(csvText, session.user.id)
+    } catch (error) {
+      return NextResponse.json(
+        { message: error instanceof Error ? error.message : 'Invalid CSV file' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: result.imported.length,
+      failed: result.failed,
+      errors: result.errors
+    })
+  } catch (error) {
+    console.error('Exchange rate import error:', error)
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 })
+  }
+}
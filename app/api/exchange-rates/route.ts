@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth-config'
+import {
+  createExchangeRate,
+  deleteExchangeRate,
+  getAllExchangeRates,
+  getExchangeRatesForPair
+} from '@/lib/db/operations/exchange-rates'
+import { ExchangeRateSource } from '@/lib/db/models/exchange-rate'
+
+const exchangeRateRequestSchema = z.object({
+  fromCurrency: z.enum(['USD', 'VND', 'EUR']),
+  toCurrency: z.enum(['USD', 'VND', 'EUR']),
+  rate: z.number().positive('Exchange rate must be positive'),
+  effectiveDate: z.string().min(1, 'Effective date is required')
+})
+
+// GET /api/exchange-rates - List stored rates, optionally for one pair (?from=USD&to=VND)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+
+    const rates = from && to
+      ? await getExchangeRatesForPair(from.toUpperCase(), to.toUpperCase())
+      : await getAllExchangeRates()
+
+    return NextResponse.json({ rates })
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error)
+    return NextResponse.json({ error: 'Failed to fetch exchange rates' }, { status: 500 })
+  }
+}
+
+// POST /api/exchange-rates - Enter a rate manually
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validated = exchangeRateRequestSchema.parse(body)
+
+    const effectiveDate = new Date(validated.effectiveDate)
+    if (isNaN(effectiveDate.getTime())) {
+      return NextResponse.json({ error: 'Invalid effective date' }, { status: 400 })
+    }
+
+    const rate = await createExchangeRate({
+      ...validated,
+      effectiveDate,
+      source: ExchangeRateSource.MANUAL,
+      createdBy: session.user.id
+    })
+
+    return NextResponse.json({ rate }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating exchange rate:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid exchange rate data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Exchange rate currencies must differ') {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Failed to create exchange rate' }, { status: 500 })
+  }
+}
+
+// DELETE /api/exchange-rates?id=... - Remove a rate entered by mistake
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const id = new URL(request.url).searchParams.get('id')
+    if (!id) {
+      return NextResponse.json({ error: 'Exchange rate ID is required' }, { status: 400 })
+    }
+
+    const deleted = await deleteExchangeRate(id)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Exchange rate not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting exchange rate:', error)
+    return NextResponse.json({ error: 'Failed to delete exchange rate' }, { status: 500 })
+  }
+}
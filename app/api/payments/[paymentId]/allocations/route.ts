@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth-config'
+import { getPaymentById } from '@/lib/db/operations/payment'
+import { recordPaymentAllocation } from '@/lib/payments/ledger'
+import { toMinorUnits } from '@/lib/utils'
+import { z } from 'zod'
+
+const AllocationRequestSchema = z.object({
+  amount: z.number().positive('Amount must be positive'),
+  paidDate: z.string().datetime().optional(),
+  paymentMethod: z.enum(['Stripe', 'PayPal', 'Venmo', 'Wise', 'Revolut', 'Wire', 'Cash']).optional(),
+  reference: z.string().optional(),
+  notes: z.string().optional()
+})
+
+// POST record a (partial) payment received against a payment
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { paymentId: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { amount, paidDate, ...rest } = AllocationRequestSchema.parse(body)
+
+    // The amount is entered in the payment's currency
+    const payment = await getPaymentById(params.paymentId)
+    if (!payment) {
+      return NextResponse.json(
+        { message: 'Payment not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await recordPaymentAllocation(payment.id, {
+      ...rest,
+      amountCents: toMinorUnits(amount, payment.currency),
+      paidDate: paidDate ? new Date(paidDate) : undefined
+    })
+
+    return NextResponse.json({
+      message: result.credit
+        ? 'Payment recorded; overpayment carried forward as credit'
+        : 'Payment recorded successfully',
+      payment: result.payment,
+      appliedCents: result.appliedCents,
+      credit: result.credit
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Error recording payment allocation:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { message: 'Invalid payment data', errors: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Payment not found') {
+      return NextResponse.json(
+        { message: 'Payment not found' },
+        { status: 404 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Payment has no outstanding balance') {
+      return NextResponse.json(
+        { message: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth-config'
 import { getPaymentById, createPayment } from '@/lib/db/operations/payment'
 import { PaymentStatus } from '@/lib/db/models/payment'
+import { toMinorUnits } from '@/lib/utils'
 import { z } from 'zod'
 
 const RefundRequestSchema = z.object({
@@ -47,7 +48,7 @@ export async function POST(
     const { amount, reason, notes } = RefundRequestSchema.parse(body)
 
     // Calculate refund amount (default to full amount)
-    const refundAmountCents = amount ? Math.round(amount * 100) : originalPayment.amountCents
+    const refundAmountCents = amount ? toMinorUnits(amount, originalPayment.currency) : originalPayment.amountCents
 
     // Validate refund amount doesn't exceed original payment
     if (refundAmountCents > originalPayment.amountCents) {
@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth-config'
 import { getPaymentsByTenant, sortPayments } from '@/lib/db/operations/payment'
 import { PaymentFiltersSchema } from '@/lib/db/models/payment'
+import { getTenantBalance, getTenantLedger } from '@/lib/payments/ledger'
+import { getTenantPaymentPlans } from '@/lib/payments/payment-plans'
 
 export async function GET(
   request: NextRequest,
@@ -73,17 +75,33 @@ export async function GET(
       pendingAmount: payments
         .filter(p => p.status === 'Pending')
         .reduce((sum, p) => sum + p.amountCents, 0),
+      partiallyPaidAmount: payments
+        .filter(p => p.status === 'PartiallyPaid')
+        .reduce((sum, p) => sum + p.amountCents, 0),
       overdueAmount: payments
         .filter(p => p.status === 'Overdue')
         .reduce((sum, p) => sum + p.amountCents, 0),
+      rescheduledAmount: payments
+        .filter(p => p.status === 'Rescheduled')
+        .reduce((sum, p) => sum + p.amountCents, 0),
       refundedAmount: payments
         .filter(p => p.status === 'Refunded' || p.amountCents < 0)
         .reduce((sum, p) => sum + Math.abs(p.amountCents), 0)
     }
 
+    // Ledger covers the tenant's full history regardless of filters
+    const [ledger, balances, paymentPlans] = await Promise.all([
+      getTenantLedger(params.tenantId),
+      getTenantBalance(params.tenantId),
+      getTenantPaymentPlans(params.tenantId)
+    ])
+
     return NextResponse.json({
       payments,
       summary,
+      ledger,
+      balances,
+      paymentPlans,
       pagination: {
         total,
         offset: filters.offset,
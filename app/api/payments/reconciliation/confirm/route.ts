@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth-config'
+import { confirmMatches } from '@/lib/payments/reconciliation'
+
+const confirmSchema = z.object({
+  matches: z.array(z.object({
+    transactionId: z.string().uuid(),
+    paymentId: z.string().uuid()
+  })).min(1, 'At least one match is required')
+})
+
+// POST /api/payments/reconciliation/confirm - Confirm matches in bulk
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { matches } = confirmSchema.parse(body)
+
+    const result = await confirmMatches(matches, session.user.id)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Reconciliation confirm error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { message: 'Invalid matches', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 })
+  }
+}
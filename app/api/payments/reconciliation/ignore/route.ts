@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth-config'
+import { ignoreBankTransaction } from '@/lib/payments/reconciliation'
+
+// POST /api/payments/reconciliation/ignore - Remove a non-rent credit from the queue
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { transactionId } = await request.json()
+    if (!transactionId) {
+      return NextResponse.json({ message: 'Transaction ID is required' }, { status: 400 })
+    }
+
+    const transaction = await ignoreBankTransaction(transactionId, session.user.id)
+
+    return NextResponse.json({ transaction })
+  } catch (error) {
+    console.error('Reconciliation ignore error:', error)
+
+    if (error instanceof Error && error.message === 'Bank transaction not found') {
+      return NextResponse.json({ message: error.message }, { status: 404 })
+    }
+
+    if (error instanceof Error && error.message === 'Bank transaction is already reconciled') {
+      return NextResponse.json({ message: error.message }, { status: 409 })
+    }
+
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 })
+  }
+}
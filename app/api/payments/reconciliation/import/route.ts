@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth-config'
+import { BankStatementFormat, BankStatementFormatType } from '@/lib/db/models/bank-transaction'
+import { detectStatementFormat } from '@/lib/payments/bank-statements'
+import { importBankStatement } from '@/lib/payments/reconciliation'
+
+const FORMATS = Object.values(BankStatementFormat) as string[]
+
+// POST /api/payments/reconciliation/import - Import a bank statement file
+// Form fields: file, optional format (csv, ofx, camt053) and mapping (JSON, required for CSV)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File
+
+    if (!file) {
+      return NextResponse.json({ message: 'No file provided' }, { status: 400 })
+    }
+
+    const content = await file.text()
+    const requestedFormat = formData.get('format') as string | null
+    if (requestedFormat && !FORMATS.includes(requestedFormat)) {
+      return NextResponse.json({ message: `Unsupported statement format: ${requestedFormat}` }, { status: 400 })
+    }
+    const format = (requestedFormat as BankStatementFormatType | null) || detectStatementFormat(file.name, content)
+
+    const mappingField = formData.get('mapping') as string | null
+    let mapping
+    if (mappingField) {
+      try {
+        mapping = JSON.parse(mappingField)
+      } catch {
+        return NextResponse.json({ message: 'Column mapping must be valid JSON' }, { status: 400 })
+      }
+    }
+
+    const result = await importBankStatement(content, { format, mapping })
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    console.error('Bank statement import error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { message: 'Invalid column mapping', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    // Parser errors describe what is wrong with the file
+    if (error instanceof Error) {
+      return NextResponse.json({ message: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth-config'
+import { getReconciliationQueue } from '@/lib/payments/reconciliation'
+
+// GET /api/payments/reconciliation - Unmatched bank credits with proposed matches
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    const items = await getReconciliationQueue()
+
+    return NextResponse.json({ items })
+  } catch (error) {
+    console.error('Error fetching reconciliation queue:', error)
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 })
+  }
+}
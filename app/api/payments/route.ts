@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth-config'
 import { getAllPayments, getPaymentsByProperty, updatePayment, createPayment } from '@/lib/db/operations/payment'
 import { PaymentStatus, CreatePaymentSchema } from '@/lib/db/models/payment'
+import { getActiveDunningProgress } from '@/lib/db/operations/dunning'
 
 export async function GET(request: NextRequest) {
   try {
@@ -54,9 +55,19 @@ export async function GET(request: NextRequest) {
       })
     )
 
+    // Show where each overdue payment is in its property's dunning workflow
+    const paymentsWithDunning = await Promise.all(
+      updatedPayments.map(async (payment) => {
+        const dunning = await getActiveDunningProgress(payment.id)
+        return dunning
+          ? { ...payment, dunningStage: { key: dunning.stageKey, name: dunning.stageName, enteredAt: dunning.enteredAt } }
+          : payment
+      })
+    )
+
     return NextResponse.json({
-      payments: updatedPayments,
-      total: updatedPayments.length
+      payments: paymentsWithDunning,
+      total: paymentsWithDunning.length
     })
 
   } catch (error) {
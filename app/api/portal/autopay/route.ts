@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth-config'
+import { cancelAutopay, enrollInAutopay } from '@/lib/payments/autopay'
+import { getTenantForUser } from '@/lib/payments/tenant-portal'
+
+// POST /api/portal/autopay - Turn autopay on (or resume it) or off
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenant = await getTenantForUser(session.user)
+    if (!tenant) {
+      return NextResponse.json({ message: 'Tenant account required' }, { status: 403 })
+    }
+
+    const { enabled } = await request.json()
+    if (typeof enabled !== 'boolean') {
+      return NextResponse.json({ message: 'enabled must be true or false' }, { status: 400 })
+    }
+
+    const autopay = enabled
+      ? await enrollInAutopay(tenant)
+      : await cancelAutopay(tenant.id)
+
+    return NextResponse.json({ autopay })
+  } catch (error) {
+    console.error('Tenant portal autopay error:', error)
+
+    if (error instanceof Error && error.message === 'A saved card is required for autopay') {
+      return NextResponse.json({ message: error.message }, { status: 409 })
+    }
+
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth-config'
+import { getTenantForUser, setTenantAutopayMethod } from '@/lib/payments/tenant-portal'
+
+// POST /api/portal/payment-methods/autopay - Choose the saved card used for autopay
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenant = await getTenantForUser(session.user)
+    if (!tenant) {
+      return NextResponse.json({ message: 'Tenant account required' }, { status: 403 })
+    }
+
+    const { paymentMethodId } = await request.json()
+    if (!paymentMethodId) {
+      return NextResponse.json({ message: 'Payment method ID is required' }, { status: 400 })
+    }
+
+    const updated = await setTenantAutopayMethod(tenant, paymentMethodId)
+
+    return NextResponse.json({ autopayPaymentMethodId: updated.autopayPaymentMethodId })
+  } catch (error) {
+    console.error('Tenant portal autopay error:', error)
+
+    if (error instanceof Error && error.message === 'Payment method not found') {
+      return NextResponse.json({ message: error.message }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth-config'
+import {
+  getTenantForUser,
+  listTenantPaymentMethods,
+  startTenantCardSetup
+} from '@/lib/payments/tenant-portal'
+
+// GET /api/portal/payment-methods - Cards saved on the tenant's Stripe customer
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenant = await getTenantForUser(session.user)
+    if (!tenant) {
+      return NextResponse.json({ message: 'Tenant account required' }, { status: 403 })
+    }
+
+    const paymentMethods = await listTenantPaymentMethods(tenant)
+
+    return NextResponse.json({ paymentMethods })
+  } catch (error) {
+    console.error('Tenant portal payment methods error:', error)
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/portal/payment-methods - Start saving a new card
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenant = await getTenantForUser(session.user)
+    if (!tenant) {
+      return NextResponse.json({ message: 'Tenant account required' }, { status: 403 })
+    }
+
+    const { clientSecret } = await startTenantCardSetup(tenant)
+
+    return NextResponse.json({
+      clientSecret,
+      publishableKey: process.env.STRIPE_PUBLISHABLE_KEY
+    })
+  } catch (error) {
+    console.error('Tenant portal card setup error:', error)
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth-config'
+import { getTenantForUser, startTenantCardPayment } from '@/lib/payments/tenant-portal'
+
+// POST /api/portal/payments/[paymentId]/pay - Start a card payment for the outstanding amount
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { paymentId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenant = await getTenantForUser(session.user)
+    if (!tenant) {
+      return NextResponse.json({ message: 'Tenant account required' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const paymentSession = await startTenantCardPayment(tenant, params.paymentId, {
+      saveCard: body.saveCard === true
+    })
+
+    return NextResponse.json({
+      ...paymentSession,
+      publishableKey: process.env.STRIPE_PUBLISHABLE_KEY
+    })
+  } catch (error) {
+    console.error('Tenant portal payment error:', error)
+
+    if (error instanceof Error && error.message === 'Payment not found') {
+      return NextResponse.json({ message: error.message }, { status: 404 })
+    }
+
+    if (error instanceof Error && error.message === 'Payment has no outstanding balance') {
+      return NextResponse.json({ message: error.message }, { status: 409 })
+    }
+
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 })
+  }
+}
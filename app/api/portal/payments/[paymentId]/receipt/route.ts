@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth-config'
+import { getTenantForUser, getTenantReceiptHTML } from '@/lib/payments/tenant-portal'
+
+// GET /api/portal/payments/[paymentId]/receipt - Printable receipt for a paid payment
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { paymentId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenant = await getTenantForUser(session.user)
+    if (!tenant) {
+      return NextResponse.json({ message: 'Tenant account required' }, { status: 403 })
+    }
+
+    const html = await getTenantReceiptHTML(tenant, params.paymentId)
+
+    return new NextResponse(html, {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Content-Disposition': `inline; filename="receipt-${params.paymentId.slice(0, 8)}.html"`
+      }
+    })
+  } catch (error) {
+    console.error('Tenant portal receipt error:', error)
+
+    if (error instanceof Error && error.message === 'Payment not found') {
+      return NextResponse.json({ message: error.message }, { status: 404 })
+    }
+
+    if (error instanceof Error && error.message === 'Receipts are only available for paid payments') {
+      return NextResponse.json({ message: error.message }, { status: 409 })
+    }
+
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 })
+  }
+}
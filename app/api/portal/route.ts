@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth-config'
+import { getTenantForUser, getTenantPortalOverview } from '@/lib/payments/tenant-portal'
+
+// GET /api/portal - Outstanding payments, history and balance for the signed-in tenant
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenant = await getTenantForUser(session.user)
+    if (!tenant) {
+      return NextResponse.json({ message: 'Tenant account required' }, { status: 403 })
+    }
+
+    const overview = await getTenantPortalOverview(tenant)
+
+    return NextResponse.json(overview)
+  } catch (error) {
+    console.error('Tenant portal error:', error)
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 })
+  }
+}
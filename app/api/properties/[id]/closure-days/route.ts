@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAuth } from '@/lib/auth-config'
+import { getVietnameseHolidays } from '@/lib/calendar/holidays'
+import { createClosureDay, deleteClosureDay, getClosureDaysByProperty } from '@/lib/db/operations/closure-days'
+
+const ClosureDayRequestSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD'),
+  name: z.string().min(1, 'Closure name is required').max(100, 'Closure name too long')
+})
+
+// GET /api/properties/[id]/closure-days - The property's closure days and the public holidays for a year
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requireAuth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const year = parseInt(searchParams.get('year') || '') || new Date().getFullYear()
+
+    const closureDays = await getClosureDaysByProperty(params.id)
+    return NextResponse.json({
+      closureDays: closureDays.filter(closure => closure.date.getFullYear() === year),
+      publicHolidays: getVietnameseHolidays(year)
+    })
+  } catch (error) {
+    console.error('Error fetching closure days:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch closure days' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/properties/[id]/closure-days - Close the property on a day
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requireAuth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { date, name } = ClosureDayRequestSchema.parse(body)
+
+    const closureDay = await createClosureDay({
+      propertyId: params.id,
+      // A calendar day, so read it in local time rather than as UTC midnight
+      date: new Date(`${date}T00:00:00`),
+      name,
+      createdBy: session.user.email || undefined
+    })
+
+    return NextResponse.json({ closureDay }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating closure day:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid closure day data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Property is already closed on this day') {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create closure day' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/properties/[id]/closure-days - Remove a closure day
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requireAuth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const closureDayId = searchParams.get('closureDayId')
+
+    if (!closureDayId) {
+      return NextResponse.json({ error: 'Closure day ID is required' }, { status: 400 })
+    }
+
+    const deleted = await deleteClosureDay(params.id, closureDayId)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Closure day not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing closure day:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove closure day' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAuth } from '@/lib/auth-config'
+import { DEFAULT_DUNNING_STAGES, DunningStageSchema } from '@/lib/db/models/dunning'
+import { deleteDunningWorkflow, getDunningProgressRecords, getDunningWorkflow, saveDunningWorkflow } from '@/lib/db/operations/dunning'
+
+const DunningWorkflowRequestSchema = z.object({
+  enabled: z.boolean().default(true),
+  managerId: z.string().min(1).optional(),
+  stages: z.array(DunningStageSchema).optional() // The default stages when omitted
+})
+
+// GET /api/properties/[id]/dunning - The property's dunning workflow and the payments in it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requireAuth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const workflow = await getDunningWorkflow(params.id)
+    const payments = await getDunningProgressRecords({ propertyId: params.id, activeOnly: true })
+
+    return NextResponse.json({
+      workflow,
+      // A starting point for properties without a workflow yet
+      defaultStages: DEFAULT_DUNNING_STAGES,
+      payments
+    })
+  } catch (error) {
+    console.error('Error fetching dunning workflow:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch dunning workflow' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/properties/[id]/dunning - Set up or replace the property's dunning workflow
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requireAuth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { enabled, managerId, stages } = DunningWorkflowRequestSchema.parse(body)
+
+    const workflow = await saveDunningWorkflow({
+      propertyId: params.id,
+      enabled,
+      managerId,
+      stages: stages || DEFAULT_DUNNING_STAGES
+    })
+
+    return NextResponse.json({ workflow })
+  } catch (error) {
+    console.error('Error saving dunning workflow:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid dunning workflow', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to save dunning workflow' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/properties/[id]/dunning - Go back to plain overdue reminders
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requireAuth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const deleted = await deleteDunningWorkflow(params.id)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Dunning workflow not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing dunning workflow:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove dunning workflow' },
+      { status: 500 }
+    )
+  }
+}
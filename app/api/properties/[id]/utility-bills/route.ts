@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAuth } from '@/lib/auth-config'
+import { MeterReadingSchema } from '@/lib/db/models/utility-bill'
+import { getUtilityBillsByProperty } from '@/lib/db/operations/utility-bills'
+import { createUtilityBillCharges, previewUtilityBill } from '@/lib/payments/utility-billing'
+
+const UtilityBillRequestSchema = z.object({
+  expenseId: z.string().uuid('Invalid expense ID format'),
+  periodStart: z.string().datetime(),
+  periodEnd: z.string().datetime(),
+  splitMethod: z.enum(['Meter', 'OccupancyDays']),
+  meterReadings: z.array(MeterReadingSchema).optional(),
+  meterUnit: z.string().min(1).optional(),
+  utilityType: z.string().min(1).optional(),
+  dueDate: z.string().datetime().optional(),
+  preview: z.boolean().optional()
+})
+
+// Request errors from the split itself, returned to the caller as 400s
+const SPLIT_ERRORS = [
+  'Billing period end must not be before its start',
+  'Expense does not belong to this property',
+  'Meter readings are required for a meter split',
+  'Meter readings show no usage',
+  'No tenants occupied the property during the billing period'
+]
+
+// GET /api/properties/[id]/utility-bills - Utility bills split for a property
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requireAuth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const bills = await getUtilityBillsByProperty(params.id)
+    return NextResponse.json({ bills })
+  } catch (error) {
+    console.error('Error fetching utility bills:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch utility bills' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/properties/[id]/utility-bills - Split a utility expense and charge the tenants
+// (pass preview: true to see the split without creating charges)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requireAuth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { preview, periodStart, periodEnd, dueDate, ...rest } = UtilityBillRequestSchema.parse(body)
+
+    const billRequest = {
+      ...rest,
+      propertyId: params.id,
+      periodStart: new Date(periodStart),
+      periodEnd: new Date(periodEnd),
+      dueDate: dueDate ? new Date(dueDate) : undefined,
+      createdBy: session.user.email || undefined
+    }
+
+    if (preview) {
+      const { shares, unallocatedCents } = await previewUtilityBill(billRequest)
+      return NextResponse.json({ shares, unallocatedCents })
+    }
+
+    const result = await createUtilityBillCharges(billRequest)
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    console.error('Error splitting utility bill:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid utility bill data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Expense not found') {
+        return NextResponse.json({ error: error.message }, { status: 404 })
+      }
+      if (error.message === 'Expense has already been billed to tenants') {
+        return NextResponse.json({ error: error.message }, { status: 409 })
+      }
+      if (SPLIT_ERRORS.includes(error.message) || error.message.endsWith('is not in this property')) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to split utility bill' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getProperty } from '@/lib/db/operations/properties'
+import { getVacancyForecast, VACANCY_FORECAST_DAYS } from '@/lib/rooms/availability'
+
+// GET /api/properties/[id]/vacancy-forecast - Vacancy for each of the next 90 days and the rooms coming free
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const propertyId = params.id
+
+    // Verify property exists
+    const property = await getProperty(propertyId)
+    if (!property) {
+      return NextResponse.json(
+        { error: 'Property not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const days = Math.min(parseInt(searchParams.get('days') || '') || VACANCY_FORECAST_DAYS, 365)
+
+    const forecast = await getVacancyForecast(propertyId, { days })
+
+    return NextResponse.json({ forecast })
+  } catch (error) {
+    console.error('Error forecasting vacancy:', error)
+    return NextResponse.json(
+      { error: 'Failed to forecast vacancy' },
+      { status: 500 }
+    )
+  }
+}
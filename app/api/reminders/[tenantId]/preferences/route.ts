@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  createTenantReminderPreferences,
+  getTenantReminderPreferences,
+  updateTenantReminderPreferences
+} from '@/lib/db/operations/reminders'
+import { getQueuedRemindersByTenant } from '@/lib/db/operations/scheduled-reminders'
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '@/lib/calendar/time-zones'
+import { getSession } from '@/lib/auth-config'
+import { z } from 'zod'
+
+const PreferencesSchema = z.object({
+  emailEnabled: z.boolean().optional(),
+  optOut: z.boolean().optional(),
+  channels: z.array(z.enum(['email', 'whatsapp', 'sms', 'zalo'])).min(1, 'Choose at least one channel').optional(),
+  phoneNumber: z.string().regex(/^\+[1-9]\d{6,14}$/, 'Phone number must be in international format').optional(),
+  zaloUserId: z.string().min(1).optional(),
+  preferredTime: z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Preferred time must be HH:MM').optional(),
+  timezone: z.string().refine(isValidTimeZone, 'Unknown time zone').optional()
+})
+
+// GET reminder preferences and the reminders queued for the tenant
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { tenantId: string } }
+) {
+  try {
+    // Verify user authentication
+    const session = await getSession()
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const preferences = await getTenantReminderPreferences(params.tenantId)
+    const queued = await getQueuedRemindersByTenant(params.tenantId)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        // Tenants without saved preferences get reminders at 9am Vietnam time
+        preferences: preferences || {
+          tenantId: params.tenantId,
+          emailEnabled: true,
+          optOut: false,
+          channels: ['email'],
+          preferredTime: '09:00',
+          timezone: DEFAULT_TIME_ZONE
+        },
+        queued
+      }
+    })
+  } catch (error) {
+    console.error('Failed to get reminder preferences:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT save reminder preferences
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { tenantId: string } }
+) {
+  try {
+    // Verify user authentication
+    const session = await getSession()
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = PreferencesSchema.parse(body)
+
+    const preferences = await updateTenantReminderPreferences(params.tenantId, validatedData)
+      || await createTenantReminderPreferences({
+        tenantId: params.tenantId,
+        emailEnabled: true,
+        optOut: false,
+        ...validatedData
+      })
+
+    return NextResponse.json({
+      success: true,
+      data: preferences,
+      message: 'Reminder preferences saved successfully'
+    })
+  } catch (error) {
+    console.error('Failed to save reminder preferences:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getLateFeePolicy,
+  createLateFeePolicy,
+  updateLateFeePolicy
+} from '@/lib/db/operations/reminders'
+import { CreateLateFeePolicySchema, UpdateLateFeePolicySchema } from '@/lib/db/models/reminder'
+import { getSession } from '@/lib/auth-config'
+import { z } from 'zod'
+
+// GET late fee policy
+export async function GET(request: NextRequest) {
+  try {
+    // Verify user authentication
+    const session = await getSession()
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const propertyId = searchParams.get('propertyId') || undefined
+
+    const policy = await getLateFeePolicy(propertyId)
+
+    return NextResponse.json({
+      success: true,
+      // No policy means no late fees are charged
+      data: policy
+    })
+  } catch (error) {
+    console.error('Failed to get late fee policy:', error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST create new late fee policy
+export async function POST(request: NextRequest) {
+  try {
+    // Verify user authentication
+    const session = await getSession()
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = CreateLateFeePolicySchema.parse(body)
+
+    const policy = await createLateFeePolicy(validatedData)
+
+    return NextResponse.json({
+      success: true,
+      data: policy,
+      message: 'Late fee policy created successfully'
+    })
+  } catch (error) {
+    console.error('Failed to create late fee policy:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH update late fee policy
+export async function PATCH(request: NextRequest) {
+  try {
+    // Verify user authentication
+    const session = await getSession()
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { propertyId, ...updateData } = body
+
+    const validatedData = UpdateLateFeePolicySchema.parse(updateData)
+
+    const policy = await updateLateFeePolicy(propertyId || null, validatedData)
+
+    if (!policy) {
+      return NextResponse.json(
+        { error: 'Late fee policy not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: policy,
+      message: 'Late fee policy updated successfully'
+    })
+  } catch (error) {
+    console.error('Failed to update late fee policy:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -14,6 +14,7 @@ const ReminderSettingsSchema = z.object({
   daysAfterDue: z.array(z.number().int().min(0)).default([0, 3]),
   sendOnWeekends: z.boolean().default(false),
   sendOnHolidays: z.boolean().default(false),
+  shiftDueDatesOnHolidays: z.boolean().default(false),
   maxRemindersPerPayment: z.number().int().min(1).max(10).default(5),
   customMessage: z.string().optional(),
   contactEmail: z.string().email().optional()
@@ -46,6 +47,7 @@ export async function GET(request: NextRequest) {
           daysAfterDue: [0, 3],
           sendOnWeekends: false,
           sendOnHolidays: false,
+          shiftDueDatesOnHolidays: false,
           maxRemindersPerPayment: 5,
           propertyId: propertyId || null
         }
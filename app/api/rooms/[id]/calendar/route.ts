@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { buildRoomCalendar, verifyCalendarFeedToken } from '@/lib/rooms/ical'
+
+// GET /api/rooms/[id]/calendar?token= - iCalendar feed of the room's occupancy and holds for booking sites
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Booking sites can't log in, the feed URL carries a token signed for the room
+    const token = request.nextUrl.searchParams.get('token')
+    if (!token || !verifyCalendarFeedToken(params.id, token)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const calendar = await buildRoomCalendar(params.id)
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="room-${params.id}.ics"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Error building room calendar:', error)
+
+    if (error instanceof Error && error.message === 'Room not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to build room calendar' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth-config'
+import { getRoom } from '@/lib/db/operations/rooms'
+import { getCalendarFeedUrl, importRoomCalendar } from '@/lib/rooms/ical'
+
+const ImportCalendarSchema = z.object({
+  calendar: z.string().min(1, 'Calendar name is required'),
+  url: z.string().url('Invalid calendar URL').refine(url => url.startsWith('https://'), 'Calendar URL must use https')
+})
+
+// Largest calendar file accepted, in bytes
+const MAX_CALENDAR_SIZE = 1024 * 1024
+
+// GET /api/rooms/[id]/calendar/sync - Get the feed URL to give booking sites
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const room = await getRoom(params.id)
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ feedUrl: getCalendarFeedUrl(room.id) })
+  } catch (error) {
+    console.error('Error fetching calendar feed URL:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch calendar feed URL' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/rooms/[id]/calendar/sync - Import an .ics file (multipart `file`) or calendar URL (JSON `url`) as blocked dates
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    let calendar: string
+    let ics: string
+
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const formData = await request.formData()
+      const file = formData.get('file') as File | null
+      calendar = (formData.get('calendar') as string | null) || ''
+
+      if (!file) {
+        return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+      }
+      if (file.size > MAX_CALENDAR_SIZE) {
+        return NextResponse.json({ error: 'Calendar file is too large' }, { status: 400 })
+      }
+      ics = await file.text()
+    } else {
+      const validatedInput = ImportCalendarSchema.parse(await request.json())
+      calendar = validatedInput.calendar
+
+      const response = await fetch(validatedInput.url, { headers: { Accept: 'text/calendar' } })
+      if (!response.ok) {
+        return NextResponse.json({ error: `Could not fetch calendar (${response.status})` }, { status: 502 })
+      }
+      ics = await response.text()
+      if (ics.length > MAX_CALENDAR_SIZE) {
+        return NextResponse.json({ error: 'Calendar file is too large' }, { status: 400 })
+      }
+    }
+
+    const result = await importRoomCalendar(params.id, { calendar, ics })
+
+    return NextResponse.json({ result })
+  } catch (error) {
+    console.error('Error importing room calendar:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Room not found') {
+        return NextResponse.json({ error: error.message }, { status: 404 })
+      }
+      if (
+        error.message === 'Not an iCalendar file' ||
+        error.message === 'Calendar name is required' ||
+        error.message.startsWith('Invalid iCalendar date')
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to import calendar' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { suggestRoomRent } from '@/lib/rooms/pricing'
+
+const PricingQuerySchema = z.object({
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD').optional(),
+  months: z.coerce.number().int().min(1).max(24).optional()
+})
+
+// GET /api/rooms/[id]/pricing - Suggested rent for a stay, with the reasoning behind it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const query = PricingQuerySchema.parse({
+      startDate: searchParams.get('startDate') || undefined,
+      months: searchParams.get('months') || undefined
+    })
+
+    const suggestion = await suggestRoomRent(params.id, {
+      startDate: query.startDate ? new Date(`${query.startDate}T00:00:00`) : undefined,
+      stayMonths: query.months
+    })
+
+    return NextResponse.json({ suggestion })
+  } catch (error) {
+    console.error('Error suggesting room rent:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid pricing query', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Room not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to suggest rent' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth-config'
+import { getReservation } from '@/lib/db/operations/reservations'
+import { convertReservationToAgreement } from '@/lib/rooms/reservations'
+
+const ConvertReservationSchema = z.object({
+  templateId: z.string().uuid('Invalid template ID'),
+  notificationChannels: z.array(z.enum(['whatsapp', 'sms'])).optional(),
+  customMessage: z.string().optional(),
+  expirationDays: z.number().int().min(1).max(30).default(7),
+  ownerName: z.string().optional(),
+  ownerEmail: z.string().email('Invalid owner email').optional(),
+  variableValues: z.array(z.object({
+    variableId: z.string(),
+    name: z.string(),
+    value: z.any()
+  })),
+  confirmUnreviewedTemplate: z.boolean().optional(),
+  documentLanguages: z.array(z.enum(['en', 'vi'])).min(1).max(2).optional(),
+  prospectLanguage: z.enum(['en', 'vi']).optional()
+})
+
+// POST /api/rooms/[id]/reservations/[reservationId]/convert - Send the prospect an agreement for the held room
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; reservationId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const existing = await getReservation(params.reservationId)
+    if (!existing || existing.roomId !== params.id) {
+      return NextResponse.json({ error: 'Reservation not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const validatedInput = ConvertReservationSchema.parse(body)
+
+    const reservation = await convertReservationToAgreement(existing.id, validatedInput, session.user.id)
+
+    return NextResponse.json({ reservation }, { status: 201 })
+  } catch (error) {
+    console.error('Error converting reservation:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && (
+      error.message === 'Only held reservations can be converted into an agreement' ||
+      error.message === 'Reservation hold has expired' ||
+      error.message === 'Template version has not been legally reviewed'
+    )) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    if (error instanceof Error && /^Template has no \w+ wording$/.test(error.message)) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to convert reservation' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getReservation } from '@/lib/db/operations/reservations'
+import { releaseReservation } from '@/lib/rooms/reservations'
+
+// GET /api/rooms/[id]/reservations/[reservationId] - A single hold
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; reservationId: string } }
+) {
+  try {
+    const reservation = await getReservation(params.reservationId)
+    if (!reservation || reservation.roomId !== params.id) {
+      return NextResponse.json({ error: 'Reservation not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ reservation })
+  } catch (error) {
+    console.error('Error fetching reservation:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch reservation' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/rooms/[id]/reservations/[reservationId] - Release the hold early
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; reservationId: string } }
+) {
+  try {
+    const existing = await getReservation(params.reservationId)
+    if (!existing || existing.roomId !== params.id) {
+      return NextResponse.json({ error: 'Reservation not found' }, { status: 404 })
+    }
+
+    const reason = request.nextUrl.searchParams.get('reason') || 'Released by manager'
+    const reservation = await releaseReservation(existing.id, reason)
+
+    return NextResponse.json({ reservation })
+  } catch (error) {
+    console.error('Error releasing reservation:', error)
+
+    if (error instanceof Error && error.message === 'Reservation is no longer holding the room') {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to release reservation' },
+      { status: 500 }
+    )
+  }
+}
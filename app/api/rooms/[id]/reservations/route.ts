@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRoom } from '@/lib/db/operations/rooms'
+import { getReservations } from '@/lib/db/operations/reservations'
+import { placeRoomHold } from '@/lib/rooms/reservations'
+
+const dateParam = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD')
+
+const PlaceHoldSchema = z.object({
+  prospectName: z.string().min(1, 'Prospect name is required'),
+  prospectEmail: z.string().email('Invalid email address'),
+  prospectPhone: z.string().optional(),
+  tenantId: z.string().uuid('Invalid tenant ID').optional(),
+  startDate: dateParam,
+  endDate: dateParam.optional(),
+  holdDays: z.number().int().min(1).max(30).optional(),
+  feeCents: z.number().int().positive('Reservation fee must be positive').optional(),
+  currency: z.string().length(3).optional(),
+  feePaymentMethod: z.enum(['Stripe', 'PayPal', 'Venmo', 'Wise', 'Revolut', 'Wire', 'Cash']).optional(),
+  notes: z.string().optional()
+})
+
+const parseDate = (value: string) => new Date(`${value}T00:00:00`)
+
+// GET /api/rooms/[id]/reservations - Holds placed on the room, past and present
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const room = await getRoom(params.id)
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 })
+    }
+
+    const reservations = await getReservations({ roomId: room.id })
+
+    return NextResponse.json({ reservations })
+  } catch (error) {
+    console.error('Error fetching room reservations:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch reservations' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/rooms/[id]/reservations - Hold the room for a prospect
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const { startDate, endDate, ...hold } = PlaceHoldSchema.parse(body)
+
+    const reservation = await placeRoomHold({
+      ...hold,
+      roomId: params.id,
+      startDate: parseDate(startDate),
+      endDate: endDate ? parseDate(endDate) : undefined
+    })
+
+    return NextResponse.json({ reservation }, { status: 201 })
+  } catch (error) {
+    console.error('Error placing room hold:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid reservation', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Room not found') {
+        return NextResponse.json({ error: error.message }, { status: 404 })
+      }
+      if (error.message.startsWith('Room is already')) {
+        return NextResponse.json({ error: error.message }, { status: 409 })
+      }
+      if (error.message.startsWith('End date')) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to place room hold' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getShortStay } from '@/lib/db/operations/short-stays'
+import { cancelShortStay, checkInShortStay, checkOutShortStay } from '@/lib/rooms/short-stays'
+
+const StayActionSchema = z.object({
+  action: z.enum(['check-in', 'check-out', 'cancel'])
+})
+
+// PATCH /api/rooms/[id]/stays/[stayId] - Check a guest in or out, or cancel the stay
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; stayId: string } }
+) {
+  try {
+    const existing = await getShortStay(params.stayId)
+    if (!existing || existing.roomId !== params.id) {
+      return NextResponse.json({ error: 'Stay not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const { action } = StayActionSchema.parse(body)
+
+    const stay = action === 'check-in'
+      ? await checkInShortStay(existing.id)
+      : action === 'check-out'
+        ? await checkOutShortStay(existing.id)
+        : await cancelShortStay(existing.id)
+
+    return NextResponse.json({ stay })
+  } catch (error) {
+    console.error('Error updating short stay:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid stay action', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message.startsWith('Only ')) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update stay' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRentCurrency } from '@/lib/currency/conversion'
+import { getRoom } from '@/lib/db/operations/rooms'
+import { quoteShortStay } from '@/lib/rooms/short-stays'
+
+const dateParam = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD')
+
+const QuoteQuerySchema = z.object({
+  checkIn: dateParam,
+  checkOut: dateParam,
+  pricing: z.enum(['nightly', 'weekly']).optional()
+})
+
+// GET /api/rooms/[id]/stays/quote - Price a stay before booking it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const room = await getRoom(params.id)
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const query = QuoteQuerySchema.parse({
+      checkIn: searchParams.get('checkIn'),
+      checkOut: searchParams.get('checkOut'),
+      pricing: searchParams.get('pricing') || undefined
+    })
+
+    const quote = quoteShortStay(
+      room,
+      new Date(`${query.checkIn}T00:00:00`),
+      new Date(`${query.checkOut}T00:00:00`),
+      query.pricing,
+      await getRentCurrency(room.propertyId)
+    )
+
+    return NextResponse.json({ quote })
+  } catch (error) {
+    console.error('Error quoting short stay:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid quote query', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message.startsWith('Check-out must')) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to quote stay' },
+      { status: 500 }
+    )
+  }
+}
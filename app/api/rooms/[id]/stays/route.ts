@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRoom } from '@/lib/db/operations/rooms'
+import { getShortStays } from '@/lib/db/operations/short-stays'
+import { bookShortStay } from '@/lib/rooms/short-stays'
+
+const dateParam = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD')
+
+const BookShortStaySchema = z.object({
+  tenantId: z.string().uuid('Invalid tenant ID'),
+  checkIn: dateParam,
+  checkOut: dateParam,
+  pricing: z.enum(['nightly', 'weekly']).optional(),
+  currency: z.string().length(3).optional(),
+  paymentMethod: z.enum(['Stripe', 'PayPal', 'Venmo', 'Wise', 'Revolut', 'Wire', 'Cash']).optional(),
+  notes: z.string().optional()
+})
+
+const parseDate = (value: string) => new Date(`${value}T00:00:00`)
+
+// GET /api/rooms/[id]/stays - Short stays booked in the room
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const room = await getRoom(params.id)
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 })
+    }
+
+    const includeCancelled = request.nextUrl.searchParams.get('includeCancelled') === 'true'
+    const stays = await getShortStays({ roomId: room.id, includeCancelled })
+
+    return NextResponse.json({ stays })
+  } catch (error) {
+    console.error('Error fetching short stays:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch stays' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/rooms/[id]/stays - Book a stay priced per night or per week
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const { checkIn, checkOut, ...booking } = BookShortStaySchema.parse(body)
+
+    const stay = await bookShortStay({
+      ...booking,
+      roomId: params.id,
+      checkIn: parseDate(checkIn),
+      checkOut: parseDate(checkOut)
+    })
+
+    return NextResponse.json({ stay }, { status: 201 })
+  } catch (error) {
+    console.error('Error booking short stay:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid stay', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Room not found' || error.message === 'Property not found') {
+        return NextResponse.json({ error: error.message }, { status: 404 })
+      }
+      if (error.message.startsWith('Room is already')) {
+        return NextResponse.json({ error: error.message }, { status: 409 })
+      }
+      if (error.message.startsWith('Check-out must')) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to book stay' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { RoomTypeSchema } from '@/lib/db/models/room'
+import { searchAvailableRooms } from '@/lib/rooms/availability'
+
+const listParam = z.string().optional().transform(value =>
+  value ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined
+)
+
+const dateParam = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD')
+
+const AvailabilityQuerySchema = z.object({
+  from: dateParam,
+  to: dateParam.optional(),
+  months: z.coerce.number().int().min(1).max(24).optional(),
+  propertyId: listParam,
+  type: listParam.pipe(z.array(RoomTypeSchema).optional()),
+  minRent: z.coerce.number().nonnegative().optional(),
+  maxRent: z.coerce.number().nonnegative().optional(),
+  features: listParam
+})
+
+// GET /api/rooms/availability - Rooms free for a whole date range, e.g. ?from=2025-03-01&months=3
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const query = AvailabilityQuerySchema.parse(
+      Object.fromEntries(Array.from(searchParams.entries()).filter(([, value]) => value !== ''))
+    )
+
+    const rooms = await searchAvailableRooms({
+      from: parseDate(query.from),
+      to: query.to ? parseDate(query.to) : undefined,
+      months: query.months,
+      propertyIds: query.propertyId,
+      roomTypes: query.type,
+      minRent: query.minRent,
+      maxRent: query.maxRent,
+      features: query.features
+    })
+
+    return NextResponse.json({ rooms, total: rooms.length })
+  } catch (error) {
+    console.error('Error searching room availability:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid availability search', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Search end date must not be before the start date') {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to search room availability' },
+      { status: 500 }
+    )
+  }
+}
+
+// Dates are days in the server's calendar, not UTC midnight
+function parseDate(value: string): Date {
+  return new Date(`${value}T00:00:00`)
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import {
+  addDepositDeduction,
+  addUnpaidPaymentDeductions,
+  getDepositSummary,
+  getTenantDeposit,
+  removeDepositDeduction
+} from '@/lib/payments/deposits'
+import { toMinorUnits } from '@/lib/utils'
+import { requireAuth } from '@/lib/auth-config';
+
+const DeductionRequestSchema = z.object({
+  type: z.enum(['Maintenance', 'Cleaning', 'Unpaid Payment', 'Other']),
+  description: z.string().min(1, 'Description is required'),
+  amount: z.number().positive('Amount must be positive').optional(),
+  maintenanceRecordId: z.string().uuid().optional(),
+  taskId: z.string().min(1).optional(),
+  paymentId: z.string().uuid().optional()
+})
+
+const CLIENT_ERRORS = [
+  'Deposit is already settled',
+  'Deductions exceed the deposit held',
+  'Payment has no outstanding balance',
+  'Unpaid payment deductions must reference a payment'
+]
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid deduction data', details: error.errors },
+      { status: 400 }
+    )
+  }
+
+  if (error instanceof Error && CLIENT_ERRORS.includes(error.message)) {
+    return NextResponse.json({ error: error.message }, { status: 400 })
+  }
+
+  if (error instanceof Error && error.message.endsWith('not found')) {
+    return NextResponse.json({ error: error.message }, { status: 404 })
+  }
+
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+// POST /api/tenants/[id]/deposit/deductions - Add an itemized deduction
+// Pass { unpaidPayments: true } to deduct all outstanding payments instead
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requireAuth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const deposit = await getTenantDeposit(params.id)
+    if (!deposit) {
+      return NextResponse.json({ error: 'Deposit not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+
+    if (body.unpaidPayments) {
+      const added = await addUnpaidPaymentDeductions(deposit.id)
+      const updated = await getTenantDeposit(params.id)
+      return NextResponse.json({ deposit: updated, summary: updated ? getDepositSummary(updated) : null, added })
+    }
+
+    const { amount, ...deduction } = DeductionRequestSchema.parse(body)
+    const updated = await addDepositDeduction(deposit.id, {
+      ...deduction,
+      amountCents: amount !== undefined ? toMinorUnits(amount, deposit.currency) : undefined
+    })
+
+    return NextResponse.json({ deposit: updated, summary: getDepositSummary(updated) }, { status: 201 })
+  } catch (error) {
+    console.error('Error adding deposit deduction:', error)
+    return errorResponse(error, 'Failed to add deduction')
+  }
+}
+
+// DELETE /api/tenants/[id]/deposit/deductions?deductionId=... - Remove a deduction
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requireAuth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const deductionId = request.nextUrl.searchParams.get('deductionId')
+    if (!deductionId) {
+      return NextResponse.json({ error: 'Deduction ID is required' }, { status: 400 })
+    }
+
+    const deposit = await getTenantDeposit(params.id)
+    if (!deposit) {
+      return NextResponse.json({ error: 'Deposit not found' }, { status: 404 })
+    }
+
+    const updated = await removeDepositDeduction(deposit.id, deductionId)
+
+    return NextResponse.json({ deposit: updated, summary: getDepositSummary(updated) })
+  } catch (error) {
+    console.error('Error removing deposit deduction:', error)
+    return errorResponse(error, 'Failed to remove deduction')
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { DepositStatus } from '@/lib/db/models/deposit'
+import { getTenant } from '@/lib/db/operations/tenants'
+import { collectDeposit, getDepositSummary, getTenantDeposit } from '@/lib/payments/deposits'
+import { toMinorUnits } from '@/lib/utils'
+import { requireAuth } from '@/lib/auth-config';
+
+const CollectDepositRequestSchema = z.object({
+  amount: z.number().positive('Amount must be positive'),
+  currency: z.string().length(3).optional(),
+  paymentMethod: z.enum(['Stripe', 'PayPal', 'Venmo', 'Wise', 'Revolut', 'Wire', 'Cash']),
+  collectedDate: z.string().datetime().optional(),
+  reference: z.string().optional(),
+  leaseId: z.string().uuid().optional(),
+  notes: z.string().optional()
+})
+
+// GET /api/tenants/[id]/deposit - Get the tenant's security deposit
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requireAuth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const deposit = await getTenantDeposit(params.id)
+
+    return NextResponse.json({
+      deposit,
+      summary: deposit ? getDepositSummary(deposit) : null
+    })
+  } catch (error) {
+    console.error('Error fetching deposit:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch deposit' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/tenants/[id]/deposit - Record a security deposit collected from the tenant
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requireAuth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenant = await getTenant(params.id)
+    if (!tenant) {
+      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
+    }
+
+    const existing = await getTenantDeposit(params.id)
+    if (existing?.status === DepositStatus.HELD) {
+      return NextResponse.json(
+        { error: 'Tenant already has a deposit held' },
+        { status: 409 }
+      )
+    }
+
+    const body = await request.json()
+    const { amount, collectedDate, ...rest } = CollectDepositRequestSchema.parse(body)
+
+    const deposit = await collectDeposit({
+      ...rest,
+      tenantId: tenant.id,
+      propertyId: tenant.propertyId,
+      roomId: tenant.roomAssignment?.roomId,
+      leaseId: rest.leaseId || tenant.currentLeaseId,
+      amountCents: toMinorUnits(amount, rest.currency),
+      collectedDate: collectedDate ? new Date(collectedDate) : undefined
+    })
+
+    return NextResponse.json({ deposit, summary: getDepositSummary(deposit) }, { status: 201 })
+  } catch (error) {
+    console.error('Error recording deposit:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid deposit data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to record deposit' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getDepositSummary, getTenantDeposit, settleDeposit } from '@/lib/payments/deposits'
+import { requireAuth } from '@/lib/auth-config';
+
+const SettleRequestSchema = z.object({
+  refundDate: z.string().datetime().optional(),
+  refundMethod: z.enum(['Stripe', 'PayPal', 'Venmo', 'Wise', 'Revolut', 'Wire', 'Cash']).optional(),
+  refundReference: z.string().optional()
+})
+
+// POST /api/tenants/[id]/deposit/settle - Settle the deposit and record the refund
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requireAuth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const deposit = await getTenantDeposit(params.id)
+    if (!deposit) {
+      return NextResponse.json({ error: 'Deposit not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const { refundDate, ...rest } = SettleRequestSchema.parse(body)
+
+    const settled = await settleDeposit(deposit.id, {
+      ...rest,
+      refundDate: refundDate ? new Date(refundDate) : undefined,
+      settledBy: session.user.email || undefined
+    })
+
+    return NextResponse.json({ deposit: settled, summary: getDepositSummary(settled) })
+  } catch (error) {
+    console.error('Error settling deposit:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid settlement data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error &&
+      (error.message === 'Deposit is already settled' || error.message === 'Refund method is required')) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to settle deposit' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTenant } from '@/lib/db/operations/tenants'
+import { getPropertyById } from '@/lib/db/operations/properties'
+import { generateDepositSettlementHTML, getTenantDeposit } from '@/lib/payments/deposits'
+import { requireAuth } from '@/lib/auth-config';
+
+// GET /api/tenants/[id]/deposit/statement - Printable move-out settlement statement
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requireAuth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [tenant, deposit] = await Promise.all([
+      getTenant(params.id),
+      getTenantDeposit(params.id)
+    ])
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
+    }
+
+    if (!deposit) {
+      return NextResponse.json({ error: 'Deposit not found' }, { status: 404 })
+    }
+
+    const property = await getPropertyById(deposit.propertyId)
+    const html = generateDepositSettlementHTML(deposit, tenant, property)
+
+    return new NextResponse(html, {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8'
+      }
+    })
+  } catch (error) {
+    console.error('Error generating settlement statement:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate settlement statement' },
+      { status: 500 }
+    )
+  }
+}
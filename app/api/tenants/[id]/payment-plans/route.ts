@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getTenant } from '@/lib/db/operations/tenants'
+import { createPaymentPlanForArrears, getTenantPaymentPlans } from '@/lib/payments/payment-plans'
+import { requireAuth } from '@/lib/auth-config';
+
+const CreatePaymentPlanRequestSchema = z.object({
+  paymentIds: z.array(z.string().uuid()).min(1, 'Select at least one overdue payment'),
+  installmentCount: z.number().int().min(1).max(24),
+  firstDueDate: z.string().datetime(),
+  intervalMonths: z.number().int().min(1).max(3).optional(),
+  gracePeriodDays: z.number().int().min(0).max(30).optional(),
+  notes: z.string().optional()
+})
+
+// Plan errors caused by the request, returned as 400s
+const PLAN_REQUEST_ERRORS = [
+  'Payment has no outstanding balance',
+  'Only overdue payments can be added to a payment plan',
+  'Payments in a plan must share a currency',
+  'Too many installments for the amount owed'
+]
+
+// GET /api/tenants/[id]/payment-plans - The tenant's payment plans with their installments
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requireAuth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const paymentPlans = await getTenantPaymentPlans(params.id)
+    return NextResponse.json({ paymentPlans })
+  } catch (error) {
+    console.error('Error fetching payment plans:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch payment plans' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/tenants/[id]/payment-plans - Reschedule overdue payments into installments
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requireAuth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenant = await getTenant(params.id)
+    if (!tenant) {
+      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const { firstDueDate, ...rest } = CreatePaymentPlanRequestSchema.parse(body)
+
+    const paymentPlan = await createPaymentPlanForArrears({
+      ...rest,
+      tenantId: tenant.id,
+      firstDueDate: new Date(firstDueDate),
+      createdBy: session.user.email || undefined
+    })
+
+    return NextResponse.json({ paymentPlan }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating payment plan:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid payment plan data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Payment not found') {
+        return NextResponse.json({ error: error.message }, { status: 404 })
+      }
+      if (PLAN_REQUEST_ERRORS.includes(error.message)) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create payment plan' },
+      { status: 500 }
+    )
+  }
+}
@@ -4,7 +4,8 @@ import {
   updateTenant, 
   deleteTenant 
 } from '@/lib/db/operations/tenants'
-import { UpdateTenantSchema } from '@/lib/db/models/tenant'
+import { TenantStatus, UpdateTenantSchema } from '@/lib/db/models/tenant'
+import { getMoveOutBlocker } from '@/lib/payments/deposits'
 import { requireAuth } from '@/lib/auth-config';
 
 // GET /api/tenants/[id] - Get tenant by ID
@@ -52,6 +53,14 @@ export async function PATCH(
       id: params.id,
       ...body
     })
+
+    // Moving out completes only once the security deposit has been settled
+    if (validatedInput.status === TenantStatus.MOVED_OUT) {
+      const blocker = await getMoveOutBlocker(params.id)
+      if (blocker) {
+        return NextResponse.json({ error: blocker }, { status: 409 })
+      }
+    }
     
     // Update tenant
     const tenant = await updateTenant(validatedInput)
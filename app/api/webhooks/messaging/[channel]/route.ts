@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import crypto from 'crypto'
+import { recordDeliveryStatus } from '@/lib/db/operations/reminders'
+import { getMessagingProvider, isMessageChannel } from '@/lib/messaging/channels'
+
+// Delivery status callbacks from the WhatsApp, SMS and Zalo providers.
+// Email delivery events come in on /api/webhooks/resend.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { channel: string } }
+) {
+  try {
+    if (!isMessageChannel(params.channel) || params.channel === 'email') {
+      return NextResponse.json({ error: 'Unknown channel' }, { status: 404 })
+    }
+
+    const body = await request.text()
+
+    if (!verifyCallback(request, params.channel, body)) {
+      console.error(`Invalid ${params.channel} webhook signature`)
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+    }
+
+    const provider = getMessagingProvider(params.channel)
+    const updates = provider.parseStatusCallback?.(JSON.parse(body)) || []
+
+    let recorded = 0
+    for (const update of updates) {
+      if (await recordDeliveryStatus(update)) {
+        recorded++
+      }
+    }
+
+    return NextResponse.json({ success: true, received: updates.length, recorded })
+  } catch (error) {
+    console.error(`Failed to process ${params.channel} webhook:`, error)
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// WhatsApp subscription handshake: echo the challenge when the verify token matches
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { channel: string } }
+) {
+  const { searchParams } = new URL(request.url)
+
+  if (
+    params.channel === 'whatsapp' &&
+    searchParams.get('hub.mode') === 'subscribe' &&
+    process.env.WHATSAPP_VERIFY_TOKEN &&
+    searchParams.get('hub.verify_token') === process.env.WHATSAPP_VERIFY_TOKEN
+  ) {
+    return new NextResponse(searchParams.get('hub.challenge') || '', { status: 200 })
+  }
+
+  return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+}
+
+// WhatsApp signs callbacks with the app secret; other gateways are given a shared token in the callback URL.
+// Callbacks are rejected until the secret is configured, since anyone can reach this route.
+function verifyCallback(request: NextRequest, channel: string, body: string): boolean {
+  if (channel === 'whatsapp') {
+    const appSecret = process.env.WHATSAPP_APP_SECRET
+    if (!appSecret) return false
+
+    const signature = request.headers.get('x-hub-signature-256') || ''
+    const expected = `sha256=${crypto.createHmac('sha256', appSecret).update(body).digest('hex')}`
+    return signature.length === expected.length && crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  }
+
+  const webhookToken = process.env.MESSAGING_WEBHOOK_TOKEN
+  const token = new URL(request.url).searchParams.get('token') || ''
+  return !!webhookToken && token.length === webhookToken.length &&
+    crypto.timingSafeEqual(Buffer.from(token), Buffer.from(webhookToken))
+}
@@ -36,6 +36,10 @@ export function PaymentTable({
         return 'bg-yellow-100 text-yellow-800'
       case PaymentStatus.OVERDUE:
         return 'bg-red-100 text-red-800'
+      case PaymentStatus.DISPUTED:
+        return 'bg-orange-100 text-orange-800'
+      case PaymentStatus.RESCHEDULED:
+        return 'bg-blue-100 text-blue-800'
       default:
         return 'bg-gray-100 text-gray-800'
     }
@@ -218,6 +222,16 @@ export function PaymentTable({
                     <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(payment.status)}`}>
                       {payment.status}
                     </span>
+                    {payment.dunningStage && payment.status !== PaymentStatus.PAID && (
+                      <div className="text-xs text-red-700 mt-1" title={`Since ${formatDate(payment.dunningStage.enteredAt)}`}>
+                        Dunning: {payment.dunningStage.name}
+                      </div>
+                    )}
+                    {payment.status === PaymentStatus.DISPUTED && payment.dispute?.evidenceDueBy && (
+                      <div className="text-xs text-orange-700 mt-1">
+                        Evidence due {formatDate(payment.dispute.evidenceDueBy)}
+                      </div>
+                    )}
                   </td>
                   
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
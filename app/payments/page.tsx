@@ -102,8 +102,12 @@ export default function Payments() {
     const variants = {
       'Paid': 'default',
       'Pending': 'secondary',
+      'PartiallyPaid': 'secondary',
       'Overdue': 'destructive',
-      'Refunded': 'outline'
+      'Refunded': 'outline',
+      'Waived': 'outline',
+      'Disputed': 'destructive',
+      'Rescheduled': 'outline'
     } as const
     
     return (
@@ -142,6 +146,10 @@ export default function Payments() {
             <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
             Refresh
           </Button>
+          <Button variant="outline" onClick={() => router.push('/payments/reconciliation')}>
+            <CheckCircle className="h-4 w-4 mr-2" />
+            Reconcile Bank Statement
+          </Button>
           <Button onClick={() => router.push('/admin/payments/record')}>
             <PlusCircle className="h-4 w-4 mr-2" />
             Record Payment
@@ -0,0 +1,119 @@
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { formatCents, formatDate } from '@/lib/utils'
+import type { ReconciliationItem } from '@/lib/payments/reconciliation'
+
+interface ReconciliationQueueProps {
+  items: ReconciliationItem[]
+  selections: Record<string, string> // transactionId -> chosen paymentId
+  checked: string[]
+  onSelectPayment: (transactionId: string, paymentId: string) => void
+  onCheckedChange: (transactionId: string, checked: boolean) => void
+  onIgnore: (transactionId: string) => void
+}
+
+const getConfidenceVariant = (confidence: number) => {
+  if (confidence >= 80) return 'default'
+  if (confidence >= 60) return 'secondary'
+  return 'outline'
+}
+
+export function ReconciliationQueue({
+  items,
+  selections,
+  checked,
+  onSelectPayment,
+  onCheckedChange,
+  onIgnore
+}: ReconciliationQueueProps) {
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No unmatched bank credits
+      </div>
+    )
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-10"></TableHead>
+          <TableHead>Date</TableHead>
+          <TableHead>Bank details</TableHead>
+          <TableHead className="text-right">Amount</TableHead>
+          <TableHead>Proposed match</TableHead>
+          <TableHead></TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.map(({ transaction, proposals }) => {
+          const selectedPaymentId = selections[transaction.id]
+          const selected = proposals.find(p => p.paymentId === selectedPaymentId)
+
+          return (
+            <TableRow key={transaction.id}>
+              <TableCell>
+                <Checkbox
+                  checked={checked.includes(transaction.id)}
+                  disabled={!selectedPaymentId}
+                  onCheckedChange={(value) => onCheckedChange(transaction.id, !!value)}
+                />
+              </TableCell>
+              <TableCell className="whitespace-nowrap">{formatDate(transaction.transactionDate)}</TableCell>
+              <TableCell>
+                <div className="font-medium">{transaction.counterpartyName || 'Unknown sender'}</div>
+                <div className="text-xs text-muted-foreground">{transaction.description}</div>
+                <div className="text-xs text-muted-foreground">Ref: {transaction.bankReference}</div>
+              </TableCell>
+              <TableCell className="text-right whitespace-nowrap">
+                {formatCents(transaction.amountCents, transaction.currency)}
+              </TableCell>
+              <TableCell className="min-w-[260px]">
+                {proposals.length === 0 ? (
+                  <span className="text-sm text-muted-foreground">No likely payment found</span>
+                ) : (
+                  <div className="space-y-1">
+                    <Select
+                      value={selectedPaymentId || ''}
+                      onValueChange={(paymentId) => onSelectPayment(transaction.id, paymentId)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a payment" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {proposals.map(proposal => (
+                          <SelectItem key={proposal.paymentId} value={proposal.paymentId}>
+                            {proposal.tenantName || proposal.tenantId.slice(0, 8)} · {proposal.description} · {formatCents(proposal.amountCents, proposal.currency)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {selected && (
+                      <div className="flex items-center gap-2">
+                        <Badge variant={getConfidenceVariant(selected.confidence)}>
+                          {selected.confidence}% match
+                        </Badge>
+                        <span className="text-xs text-muted-foreground">{selected.reasons.join(', ')}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </TableCell>
+              <TableCell>
+                <Button variant="ghost" size="sm" onClick={() => onIgnore(transaction.id)}>
+                  Ignore
+                </Button>
+              </TableCell>
+            </TableRow>
+          )
+        })}
+      </TableBody>
+    </Table>
+  )
+}
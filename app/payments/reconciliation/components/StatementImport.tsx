@@ -0,0 +1,206 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Loader2, Upload } from 'lucide-react'
+
+interface ImportSummary {
+  imported: number
+  duplicates: number
+  skipped: number
+  errors: Array<{
+    row: number
+    error: string
+  }>
+}
+
+interface StatementImportProps {
+  onImported: () => void
+}
+
+const DEFAULT_MAPPING = {
+  date: 'Date',
+  amount: 'Amount',
+  description: 'Description',
+  reference: 'Reference',
+  counterparty: '',
+  currency: '',
+  defaultCurrency: 'USD',
+  dateFormat: 'YYYY-MM-DD',
+  decimalSeparator: '.',
+  delimiter: ','
+}
+
+export function StatementImport({ onImported }: StatementImportProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [format, setFormat] = useState('auto')
+  const [mapping, setMapping] = useState(DEFAULT_MAPPING)
+  const [isImporting, setIsImporting] = useState(false)
+  const [summary, setSummary] = useState<ImportSummary | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const isCSV = format === 'csv' || (format === 'auto' && !!file?.name.toLowerCase().endsWith('.csv'))
+
+  const updateMapping = (field: keyof typeof DEFAULT_MAPPING, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value }))
+  }
+
+  const handleImport = async () => {
+    if (!file) return
+
+    setIsImporting(true)
+    setError(null)
+    setSummary(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      if (format !== 'auto') {
+        formData.append('format', format)
+      }
+      if (isCSV) {
+        // Blank optional columns are left out of the mapping
+        const csvMapping = Object.fromEntries(Object.entries(mapping).filter(([, value]) => value))
+        formData.append('mapping', JSON.stringify(csvMapping))
+      }
+
+      const response = await fetch('/api/payments/reconciliation/import', {
+        method: 'POST',
+        body: formData
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Import failed')
+      }
+
+      setSummary(data)
+      onImported()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="statement-file">Statement file</Label>
+          <Input
+            id="statement-file"
+            type="file"
+            accept=".csv,.ofx,.qfx,.xml"
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Format</Label>
+          <Select value={format} onValueChange={setFormat}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Detect from file</SelectItem>
+              <SelectItem value="csv">CSV</SelectItem>
+              <SelectItem value="ofx">OFX</SelectItem>
+              <SelectItem value="camt053">CAMT.053 (XML)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isCSV && (
+        <div className="rounded-lg border p-4 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Enter the column headers used in your bank&apos;s CSV export
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {(['date', 'amount', 'description', 'reference', 'counterparty', 'currency'] as const).map(field => (
+              <div key={field} className="space-y-1">
+                <Label htmlFor={`mapping-${field}`} className="capitalize">{field} column</Label>
+                <Input
+                  id={`mapping-${field}`}
+                  value={mapping[field]}
+                  onChange={(e) => updateMapping(field, e.target.value)}
+                  placeholder={['reference', 'counterparty', 'currency'].includes(field) ? 'Optional' : undefined}
+                />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <Label htmlFor="mapping-defaultCurrency">Default currency</Label>
+              <Input
+                id="mapping-defaultCurrency"
+                value={mapping.defaultCurrency}
+                maxLength={3}
+                onChange={(e) => updateMapping('defaultCurrency', e.target.value.toUpperCase())}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Date format</Label>
+              <Select value={mapping.dateFormat} onValueChange={(value) => updateMapping('dateFormat', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="YYYY-MM-DD">YYYY-MM-DD</SelectItem>
+                  <SelectItem value="DD/MM/YYYY">DD/MM/YYYY</SelectItem>
+                  <SelectItem value="MM/DD/YYYY">MM/DD/YYYY</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Decimal separator</Label>
+              <Select value={mapping.decimalSeparator} onValueChange={(value) => updateMapping('decimalSeparator', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value=".">Point (1,234.56)</SelectItem>
+                  <SelectItem value=",">Comma (1.234,56)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <Button onClick={handleImport} disabled={!file || isImporting}>
+        {isImporting ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <Upload className="h-4 w-4 mr-2" />
+        )}
+        Import Statement
+      </Button>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {summary && (
+        <Alert>
+          <AlertDescription>
+            Imported {summary.imported} credits
+            {summary.duplicates > 0 && `, ${summary.duplicates} already imported`}
+            {summary.skipped > 0 && `, ${summary.skipped} debits skipped`}
+            {summary.errors.length > 0 && (
+              <ul className="mt-2 text-sm list-disc list-inside">
+                {summary.errors.map(err => (
+                  <li key={err.row}>Row {err.row}: {err.error}</li>
+                ))}
+              </ul>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,169 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CheckCircle, Loader2, RefreshCw } from 'lucide-react'
+import { HIGH_MATCH_CONFIDENCE } from '@/lib/db/models/bank-transaction'
+import type { ReconciliationItem } from '@/lib/payments/reconciliation'
+import { StatementImport } from './components/StatementImport'
+import { ReconciliationQueue } from './components/ReconciliationQueue'
+
+export default function ReconciliationPage() {
+  const [items, setItems] = useState<ReconciliationItem[]>([])
+  const [selections, setSelections] = useState<Record<string, string>>({})
+  const [checked, setChecked] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isConfirming, setIsConfirming] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/payments/reconciliation')
+      if (!response.ok) {
+        throw new Error('Failed to load reconciliation queue')
+      }
+      const data = await response.json()
+      const queue: ReconciliationItem[] = data.items || []
+
+      // Preselect the best proposal, and check it when confidence is high
+      const bestMatches: Record<string, string> = {}
+      const confident: string[] = []
+      for (const { transaction, proposals } of queue) {
+        if (proposals.length === 0) continue
+        bestMatches[transaction.id] = proposals[0].paymentId
+        if (proposals[0].confidence >= HIGH_MATCH_CONFIDENCE) {
+          confident.push(transaction.id)
+        }
+      }
+
+      setItems(queue)
+      setSelections(bestMatches)
+      setChecked(confident)
+    } catch (error) {
+      console.error('Error loading reconciliation queue:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadQueue()
+  }, [loadQueue])
+
+  const handleCheckedChange = (transactionId: string, isChecked: boolean) => {
+    setChecked(prev => isChecked
+      ? [...prev, transactionId]
+      : prev.filter(id => id !== transactionId)
+    )
+  }
+
+  const handleConfirm = async () => {
+    const matches = checked
+      .filter(transactionId => selections[transactionId])
+      .map(transactionId => ({ transactionId, paymentId: selections[transactionId] }))
+    if (matches.length === 0) return
+
+    setIsConfirming(true)
+    setMessage(null)
+    try {
+      const response = await fetch('/api/payments/reconciliation/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ matches })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to confirm matches')
+      }
+
+      setMessage(
+        `Marked ${data.confirmed.length} payments as paid` +
+        (data.failed.length > 0 ? `, ${data.failed.length} failed: ${data.failed.map((f: { error: string }) => f.error).join('; ')}` : '')
+      )
+      await loadQueue()
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to confirm matches')
+    } finally {
+      setIsConfirming(false)
+    }
+  }
+
+  const handleIgnore = async (transactionId: string) => {
+    try {
+      const response = await fetch('/api/payments/reconciliation/ignore', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ transactionId })
+      })
+      if (response.ok) {
+        await loadQueue()
+      }
+    } catch (error) {
+      console.error('Error ignoring bank transaction:', error)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Bank Reconciliation</h1>
+          <p className="text-muted-foreground">
+            Match bank statement credits to pending and overdue payments
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadQueue} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Import Statement</CardTitle>
+          <CardDescription>CSV, OFX or CAMT.053 exports from Wise, Revolut or your bank</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <StatementImport onImported={loadQueue} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Reconciliation Queue</CardTitle>
+            <CardDescription>{items.length} unmatched credits</CardDescription>
+          </div>
+          <Button onClick={handleConfirm} disabled={checked.length === 0 || isConfirming}>
+            {isConfirming ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <CheckCircle className="h-4 w-4 mr-2" />
+            )}
+            Confirm {checked.length} Selected
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {message && (
+            <Alert>
+              <AlertDescription>{message}</AlertDescription>
+            </Alert>
+          )}
+          <ReconciliationQueue
+            items={items}
+            selections={selections}
+            checked={checked}
+            onSelectPayment={(transactionId, paymentId) =>
+              setSelections(prev => ({ ...prev, [transactionId]: paymentId }))
+            }
+            onCheckedChange={handleCheckedChange}
+            onIgnore={handleIgnore}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
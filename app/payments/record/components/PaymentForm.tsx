@@ -13,6 +13,7 @@ import { Card, CardContent } from '@/components/ui/card'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Loader2, CheckCircle, AlertCircle } from 'lucide-react'
 import { PaymentMethod, PaymentStatus } from '@/lib/db/models/payment'
+import { toMinorUnits } from '@/lib/utils'
 import { MethodSelector } from './MethodSelector'
 
 // Form validation schema
@@ -105,8 +106,8 @@ export function PaymentForm() {
     setSubmitStatus('idle')
 
     try {
-      // Convert amount from dollars to cents
-      const amountInCents = Math.round(data.amountCents * 100)
+      // Convert the amount to the currency's minor unit
+      const amountInCents = toMinorUnits(data.amountCents, data.currency)
       
       // Prepare payload
       const payload = {
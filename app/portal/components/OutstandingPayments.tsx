@@ -0,0 +1,129 @@
+'use client'
+
+import { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { CreditCard, Loader2 } from 'lucide-react'
+import StripePaymentElement from '@/components/payments/StripePaymentElement'
+import type { OutstandingPayment, PortalPaymentSession } from '@/lib/payments/tenant-portal'
+import { formatCents, formatDate } from '@/lib/utils'
+
+interface OutstandingPaymentsProps {
+  payments: OutstandingPayment[]
+  onPaid: () => void
+}
+
+type CheckoutSession = PortalPaymentSession & { publishableKey: string }
+
+export function OutstandingPayments({ payments, onPaid }: OutstandingPaymentsProps) {
+  const [saveCard, setSaveCard] = useState(false)
+  const [startingId, setStartingId] = useState<string | null>(null)
+  const [checkout, setCheckout] = useState<CheckoutSession | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handlePay = async (paymentId: string) => {
+    setStartingId(paymentId)
+    setError(null)
+    try {
+      const response = await fetch(`/api/portal/payments/${paymentId}/pay`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ saveCard })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to start payment')
+      }
+      setCheckout(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start payment')
+    } finally {
+      setStartingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Outstanding Payments</CardTitle>
+        <CardDescription>
+          {payments.length === 0 ? 'You are all paid up' : `${payments.length} payments awaiting payment`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {checkout ? (
+          <div className="space-y-2">
+            <p className="font-medium">
+              Pay {formatCents(checkout.amountCents, checkout.currency)}
+            </p>
+            <StripePaymentElement
+              publishableKey={checkout.publishableKey}
+              clientSecret={checkout.clientSecret}
+              mode="payment"
+              submitLabel="Pay now"
+              onSuccess={() => {
+                setCheckout(null)
+                onPaid()
+              }}
+              onCancel={() => setCheckout(null)}
+            />
+          </div>
+        ) : payments.length > 0 && (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Amount Due</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payments.map(payment => (
+                  <TableRow key={payment.id}>
+                    <TableCell>{payment.description}</TableCell>
+                    <TableCell>{formatDate(payment.dueDate)}</TableCell>
+                    <TableCell>
+                      <Badge variant={payment.status === 'Overdue' ? 'destructive' : 'secondary'}>
+                        {payment.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCents(payment.outstandingCents, payment.currency)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" onClick={() => handlePay(payment.id)} disabled={startingId !== null}>
+                        {startingId === payment.id ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <CreditCard className="h-4 w-4 mr-2" />
+                        )}
+                        Pay by card
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="save-card"
+                checked={saveCard}
+                onCheckedChange={checked => setSaveCard(checked === true)}
+              />
+              <Label htmlFor="save-card">Save my card for future payments</Label>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
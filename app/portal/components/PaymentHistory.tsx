@@ -0,0 +1,66 @@
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Download } from 'lucide-react'
+import type { Payment } from '@/lib/db/models/payment'
+import { formatCents, formatDate } from '@/lib/utils'
+
+interface PaymentHistoryProps {
+  payments: Payment[]
+}
+
+export function PaymentHistory({ payments }: PaymentHistoryProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Payment History</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {payments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No payments yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Description</TableHead>
+                <TableHead>Paid</TableHead>
+                <TableHead>Method</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {payments.map(payment => (
+                <TableRow key={payment.id}>
+                  <TableCell>{payment.description}</TableCell>
+                  <TableCell>{payment.paidDate ? formatDate(payment.paidDate) : '—'}</TableCell>
+                  <TableCell>{payment.paymentMethod}</TableCell>
+                  <TableCell>
+                    <Badge variant={payment.status === 'Paid' ? 'default' : 'secondary'}>
+                      {payment.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{formatCents(payment.amountCents, payment.currency)}</TableCell>
+                  <TableCell className="text-right">
+                    {payment.status === 'Paid' && (
+                      <Button variant="ghost" size="sm" asChild>
+                        <a href={`/api/portal/payments/${payment.id}/receipt`} target="_blank" rel="noopener noreferrer">
+                          <Download className="h-4 w-4 mr-2" />
+                          Receipt
+                        </a>
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
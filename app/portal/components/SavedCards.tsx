@@ -0,0 +1,174 @@
+'use client'
+
+import { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Loader2, Plus } from 'lucide-react'
+import StripePaymentElement from '@/components/payments/StripePaymentElement'
+import type { AutopayEnrollment } from '@/lib/db/models/autopay'
+import type { SavedPaymentMethod } from '@/lib/payments/tenant-portal'
+
+interface SavedCardsProps {
+  paymentMethods: SavedPaymentMethod[]
+  autopay: AutopayEnrollment | null
+  onChanged: () => void
+}
+
+export function SavedCards({ paymentMethods, autopay, onChanged }: SavedCardsProps) {
+  const [setup, setSetup] = useState<{ clientSecret: string; publishableKey: string } | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const setAutopay = async (paymentMethodId: string) => {
+    const response = await fetch('/api/portal/payment-methods/autopay', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ paymentMethodId })
+    })
+    if (!response.ok) {
+      const data = await response.json()
+      throw new Error(data.message || 'Failed to update autopay')
+    }
+  }
+
+  const handleAddCard = async () => {
+    setBusy(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/portal/payment-methods', { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to add card')
+      }
+      setSetup(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add card')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleCardSaved = async ({ paymentMethodId }: { paymentMethodId?: string }) => {
+    setSetup(null)
+    try {
+      // A newly saved card becomes the autopay card
+      if (paymentMethodId) {
+        await setAutopay(paymentMethodId)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update autopay')
+    }
+    onChanged()
+  }
+
+  const handleUseForAutopay = async (paymentMethodId: string) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await setAutopay(paymentMethodId)
+      onChanged()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update autopay')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleAutopayToggle = async (enabled: boolean) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/portal/autopay', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled })
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.message || 'Failed to update autopay')
+      }
+      onChanged()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update autopay')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const hasAutopayCard = paymentMethods.some(method => method.isAutopay)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Saved Cards</CardTitle>
+          <CardDescription>The autopay card is charged automatically when rent is due</CardDescription>
+        </div>
+        {!setup && (
+          <Button variant="outline" onClick={handleAddCard} disabled={busy}>
+            {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Add Card
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex items-center justify-between rounded-md border p-3">
+          <div>
+            <Label htmlFor="autopay">Autopay</Label>
+            <p className="text-sm text-muted-foreground">
+              {autopay?.status === 'Paused'
+                ? `Paused: ${autopay.pauseReason}. Turn it back on once your card is updated.`
+                : 'We email you a few days before each charge'}
+            </p>
+          </div>
+          <Switch
+            id="autopay"
+            checked={autopay?.status === 'Active'}
+            onCheckedChange={handleAutopayToggle}
+            disabled={busy || (!hasAutopayCard && autopay?.status !== 'Active')}
+          />
+        </div>
+
+        {setup && (
+          <StripePaymentElement
+            publishableKey={setup.publishableKey}
+            clientSecret={setup.clientSecret}
+            mode="setup"
+            submitLabel="Save card"
+            onSuccess={handleCardSaved}
+            onCancel={() => setSetup(null)}
+          />
+        )}
+
+        {paymentMethods.length === 0 && !setup ? (
+          <p className="text-sm text-muted-foreground">No saved cards</p>
+        ) : (
+          <div className="space-y-2">
+            {paymentMethods.map(method => (
+              <div key={method.id} className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <span className="font-medium capitalize">{method.brand}</span> •••• {method.last4}
+                  <span className="ml-2 text-sm text-muted-foreground">
+                    Expires {String(method.expMonth).padStart(2, '0')}/{method.expYear}
+                  </span>
+                </div>
+                {method.isAutopay ? (
+                  <Badge>Autopay</Badge>
+                ) : (
+                  <Button variant="ghost" size="sm" onClick={() => handleUseForAutopay(method.id)} disabled={busy}>
+                    Use for autopay
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,119 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Card, CardContent } from '@/components/ui/card'
+import { Loader2 } from 'lucide-react'
+import type { SavedPaymentMethod, TenantPortalOverview } from '@/lib/payments/tenant-portal'
+import { formatCents } from '@/lib/utils'
+import { OutstandingPayments } from './components/OutstandingPayments'
+import { PaymentHistory } from './components/PaymentHistory'
+import { SavedCards } from './components/SavedCards'
+
+export default function TenantPortalPage() {
+  const [overview, setOverview] = useState<TenantPortalOverview | null>(null)
+  const [paymentMethods, setPaymentMethods] = useState<SavedPaymentMethod[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const loadPortal = useCallback(async () => {
+    try {
+      setLoading(true)
+      const [overviewResponse, methodsResponse] = await Promise.all([
+        fetch('/api/portal'),
+        fetch('/api/portal/payment-methods')
+      ])
+      if (!overviewResponse.ok) {
+        const data = await overviewResponse.json()
+        throw new Error(data.message || 'Failed to load your payments')
+      }
+
+      setOverview(await overviewResponse.json())
+      if (methodsResponse.ok) {
+        const data = await methodsResponse.json()
+        setPaymentMethods(data.paymentMethods || [])
+      }
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load your payments')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadPortal()
+  }, [loadPortal])
+
+  const handlePaid = async () => {
+    // The webhook settles the payment; reload once it has had a moment to arrive
+    setMessage('Payment received. It may take a few seconds to show as paid.')
+    await new Promise(resolve => setTimeout(resolve, 2000))
+    await loadPortal()
+  }
+
+  if (loading && !overview) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (error || !overview) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{error || 'Failed to load your payments'}</AlertDescription>
+      </Alert>
+    )
+  }
+
+  const currency = overview.outstanding[0]?.currency || overview.history[0]?.currency || 'USD'
+  // One line per currency the tenant owes or holds credit in
+  const balances = overview.balances.length > 0
+    ? overview.balances
+    : [{ currency, balanceCents: 0, outstandingCents: 0, availableCreditCents: 0 }]
+
+  return (
+    <div className="container mx-auto max-w-5xl py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">
+          Hi {overview.tenant.firstName}
+        </h1>
+        <p className="text-muted-foreground">Pay rent, manage your cards and download receipts</p>
+      </div>
+
+      {message && (
+        <Alert>
+          <AlertDescription>{message}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Amount Due</p>
+            {balances.map(balance => (
+              <p key={balance.currency} className={`text-2xl font-bold ${balance.outstandingCents > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {formatCents(balance.outstandingCents, balance.currency)}
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Available Credit</p>
+            {balances.map(balance => (
+              <p key={balance.currency} className="text-2xl font-bold">{formatCents(balance.availableCreditCents, balance.currency)}</p>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      <OutstandingPayments payments={overview.outstanding} onPaid={handlePaid} />
+      <SavedCards paymentMethods={paymentMethods} autopay={overview.autopay} onChanged={loadPortal} />
+      <PaymentHistory payments={overview.history} />
+    </div>
+  )
+}
@@ -178,7 +178,7 @@ export default function PropertyDetailPage() {
               {Math.round(analytics.occupancyRate * 100)}%
             </div>
             <div className="text-xs text-gray-500">
-              {analytics.occupiedRooms} of {analytics.totalRooms} rooms
+              {analytics.occupiedNights} of {analytics.totalNights} room-nights, last 30 days
             </div>
           </div>
 
@@ -350,6 +350,10 @@ export default function PropertyDetailPage() {
                     <span className="text-gray-600">Occupancy Rate</span>
                     <span className="font-semibold">{Math.round(analytics.occupancyRate * 100)}%</span>
                   </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Occupied Nights (30 days)</span>
+                    <span className="font-semibold">{analytics.occupiedNights} / {analytics.totalNights}</span>
+                  </div>
                 </div>
               </div>
 
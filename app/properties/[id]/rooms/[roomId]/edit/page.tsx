@@ -10,6 +10,7 @@ import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Switch } from '@/components/ui/switch'
 import { Badge } from '@/components/ui/badge'
+import { RentSuggestion } from '@/components/properties/RentSuggestion'
 import { 
   ArrowLeft,
   Bed,
@@ -30,6 +31,8 @@ interface RoomFormData {
   size: number
   features: string[]
   monthlyRent: number
+  nightlyRate?: number
+  weeklyRate?: number
   deposit: number
   isAvailable: boolean
   condition: RoomCondition
@@ -69,6 +72,8 @@ export default function EditRoomPage() {
       setValue('size', roomData.size)
       setValue('features', roomData.features)
       setValue('monthlyRent', roomData.monthlyRent)
+      setValue('nightlyRate', roomData.nightlyRate)
+      setValue('weeklyRate', roomData.weeklyRate)
       setValue('deposit', roomData.deposit)
       setValue('isAvailable', roomData.isAvailable)
       setValue('condition', roomData.condition)
@@ -325,6 +330,47 @@ export default function EditRoomPage() {
                 )}
               </div>
             </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="nightlyRate">Nightly Rate ($)</Label>
+                <Input
+                  id="nightlyRate"
+                  type="number"
+                  step="0.01"
+                  {...register('nightlyRate', {
+                    setValueAs: (value) => value === '' || value === undefined ? undefined : Number(value),
+                    min: { value: 0.01, message: 'Nightly rate must be positive' }
+                  })}
+                  placeholder="Pro-rated from monthly rent"
+                />
+                {errors.nightlyRate && (
+                  <p className="text-sm text-red-600 mt-1">{errors.nightlyRate.message}</p>
+                )}
+              </div>
+
+              <div>
+                <Label htmlFor="weeklyRate">Weekly Rate ($)</Label>
+                <Input
+                  id="weeklyRate"
+                  type="number"
+                  step="0.01"
+                  {...register('weeklyRate', {
+                    setValueAs: (value) => value === '' || value === undefined ? undefined : Number(value),
+                    min: { value: 0.01, message: 'Weekly rate must be positive' }
+                  })}
+                  placeholder="Pro-rated from monthly rent"
+                />
+                {errors.weeklyRate && (
+                  <p className="text-sm text-red-600 mt-1">{errors.weeklyRate.message}</p>
+                )}
+              </div>
+            </div>
+
+            <RentSuggestion
+              roomId={roomId}
+              onApply={(rent) => setValue('monthlyRent', rent, { shouldDirty: true })}
+            />
           </CardContent>
         </Card>
 
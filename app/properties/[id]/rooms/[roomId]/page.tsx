@@ -4,11 +4,13 @@ import { useState, useEffect, useCallback } from 'react'
 import { useParams } from 'next/navigation'
 import { Room } from '@/lib/db/models/room'
 import { OccupancyRecord } from '@/lib/db/models/room'
+import { RoomReservation } from '@/lib/db/models/reservation'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { OccupancyCalendar } from '@/components/properties/OccupancyCalendar'
+import { CalendarSync } from '@/components/properties/CalendarSync'
 import { MaintenanceTracker } from '@/components/properties/MaintenanceTracker'
 import { 
   ArrowLeft,
@@ -32,6 +34,7 @@ export default function RoomDetailPage() {
 
   const [room, setRoom] = useState<Room | null>(null)
   const [occupancyHistory, setOccupancyHistory] = useState<OccupancyRecord[]>([])
+  const [reservations, setReservations] = useState<RoomReservation[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -40,10 +43,11 @@ export default function RoomDetailPage() {
     try {
       setLoading(true)
       
-      // Fetch room and occupancy history in parallel
-      const [roomRes, occupancyRes] = await Promise.all([
+      // Fetch room, occupancy history and holds in parallel
+      const [roomRes, occupancyRes, reservationsRes] = await Promise.all([
         fetch(`/api/rooms/${roomId}`),
-        fetch(`/api/rooms/${roomId}/occupancy`)
+        fetch(`/api/rooms/${roomId}/occupancy`),
+        fetch(`/api/rooms/${roomId}/reservations`)
       ])
 
       if (!roomRes.ok) {
@@ -58,6 +62,11 @@ export default function RoomDetailPage() {
         setOccupancyHistory(occupancyData.occupancyHistory || [])
       }
 
+      if (reservationsRes.ok) {
+        const reservationsData = await reservationsRes.json()
+        setReservations(reservationsData.reservations || [])
+      }
+
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load room data')
     } finally {
@@ -351,9 +360,12 @@ export default function RoomDetailPage() {
           <OccupancyCalendar 
             roomId={roomId}
             occupancyHistory={occupancyHistory}
+            reservations={reservations}
             onUpdate={fetchRoomData}
           />
 
+          <CalendarSync roomId={roomId} onImported={fetchRoomData} />
+
           {/* Occupancy History */}
           <Card>
             <CardHeader>
@@ -369,7 +381,9 @@ export default function RoomDetailPage() {
                     <div key={record.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
                       <div>
                         <p className="font-medium text-gray-900">
-                          Tenant ID: {record.tenantId}
+                          {record.kind === 'Block'
+                            ? `Blocked by ${record.externalCalendar || 'external calendar'}${record.summary ? `: ${record.summary}` : ''}`
+                            : `Tenant ID: ${record.tenantId}`}
                         </p>
                         <p className="text-sm text-gray-600">
                           {new Date(record.startDate).toLocaleDateString()} - {
@@ -380,9 +394,11 @@ export default function RoomDetailPage() {
                         </p>
                       </div>
                       <div className="text-right">
-                        <p className="font-semibold text-gray-900">
-                          ${record.monthlyRent.toLocaleString()}/month
-                        </p>
+                        {record.monthlyRent !== undefined && (
+                          <p className="font-semibold text-gray-900">
+                            ${record.monthlyRent.toLocaleString()}/month
+                          </p>
+                        )}
                         <Badge variant={
                           record.status === 'Current' ? 'default' : 
                           record.status === 'Past' ? 'secondary' : 'outline'
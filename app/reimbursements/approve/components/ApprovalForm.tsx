@@ -12,6 +12,7 @@ import { Label } from '@/components/ui/label'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { CheckCircle, XCircle, AlertTriangle } from 'lucide-react'
 import { ReimbursementStatusBadge } from '../../components/ReimbursementStatusBadge'
+import { fromMinorUnits } from '@/lib/utils'
 
 const approvalFormSchema = z.object({
   action: z.enum(['approve', 'deny']),
@@ -70,7 +71,7 @@ export function ApprovalForm({
       currency: currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 2
-    }).format(amountCents / 100)
+    }).format(fromMinorUnits(amountCents, currency))
   }
 
   // Don't show form if already processed
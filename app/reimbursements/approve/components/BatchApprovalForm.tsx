@@ -14,6 +14,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Badge } from '@/components/ui/badge'
 import { CheckCircle, XCircle, AlertTriangle, Users } from 'lucide-react'
 import { ReimbursementStatusBadge } from '../../components/ReimbursementStatusBadge'
+import { fromMinorUnits } from '@/lib/utils'
 
 const batchApprovalFormSchema = z.object({
   action: z.enum(['approve', 'deny']),
@@ -100,7 +101,7 @@ export function BatchApprovalForm({
       currency: currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 2
-    }).format(amountCents / 100)
+    }).format(fromMinorUnits(amountCents, currency))
   }
 
   const selectedReimbursements = pendingReimbursements.filter(r => selectedIds.includes(r.id))
@@ -12,6 +12,7 @@ import { ApprovalForm } from './components/ApprovalForm'
 import { BatchApprovalForm } from './components/BatchApprovalForm'
 import { ReimbursementList } from '../components/ReimbursementList'
 import { toast } from 'sonner'
+import { fromMinorUnits } from '@/lib/utils'
 
 export default function ReimbursementApprovalPage() {
   const [reimbursements, setReimbursements] = useState<ReimbursementRequest[]>([])
@@ -117,7 +118,7 @@ export default function ReimbursementApprovalPage() {
       currency: currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 2
-    }).format(amountCents / 100)
+    }).format(fromMinorUnits(amountCents, currency))
   }
 
   if (loading) {
@@ -10,6 +10,7 @@ import { Badge } from '@/components/ui/badge'
 import { Search, Filter, RefreshCw } from 'lucide-react'
 import { ReimbursementStatusBadge } from './ReimbursementStatusBadge'
 import { formatDistanceToNow } from 'date-fns'
+import { fromMinorUnits } from '@/lib/utils'
 
 interface ReimbursementListProps {
   propertyId?: string
@@ -90,7 +91,7 @@ export function ReimbursementList({
       currency: currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 2
-    }).format(amountCents / 100)
+    }).format(fromMinorUnits(amountCents, currency))
   }
 
   if (loading) {
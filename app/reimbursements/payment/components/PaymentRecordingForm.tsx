@@ -17,6 +17,7 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { CalendarIcon, DollarSign, AlertTriangle, CheckCircle } from 'lucide-react'
 import { ReimbursementStatusBadge } from '../../components/ReimbursementStatusBadge'
 import { format } from 'date-fns'
+import { fromMinorUnits } from '@/lib/utils'
 
 const paymentFormSchema = z.object({
   paymentMethod: z.enum(['Stripe', 'PayPal', 'Venmo', 'Wise', 'Revolut', 'Wire', 'Cash']),
@@ -76,7 +77,7 @@ export function PaymentRecordingForm({
       currency: currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 2
-    }).format(amountCents / 100)
+    }).format(fromMinorUnits(amountCents, currency))
   }
 
   // Don't show form if not approved
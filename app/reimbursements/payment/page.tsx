@@ -10,6 +10,7 @@ import { RefreshCw, DollarSign, CheckCircle, AlertTriangle } from 'lucide-react'
 import { PaymentRecordingForm } from './components/PaymentRecordingForm'
 import { ReimbursementList } from '../components/ReimbursementList'
 import { toast } from 'sonner'
+import { fromMinorUnits } from '@/lib/utils'
 
 export default function ReimbursementPaymentPage() {
   const [reimbursements, setReimbursements] = useState<ReimbursementRequest[]>([])
@@ -86,7 +87,7 @@ export default function ReimbursementPaymentPage() {
       currency: currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 2
-    }).format(amountCents / 100)
+    }).format(fromMinorUnits(amountCents, currency))
   }
 
   if (loading) {
@@ -12,6 +12,7 @@ import { ReimbursementStatusBadge } from '../../components/ReimbursementStatusBa
 import { ReimbursementStatusHistory } from '../../components/ReimbursementStatusHistory'
 import { formatDistanceToNow, format } from 'date-fns'
 import Link from 'next/link'
+import { fromMinorUnits } from '@/lib/utils'
 
 export default function ReimbursementRequestDetailPage() {
   const params = useParams()
@@ -59,7 +60,7 @@ export default function ReimbursementRequestDetailPage() {
       currency: currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 2
-    }).format(amountCents / 100)
+    }).format(fromMinorUnits(amountCents, currency))
   }
 
   if (loading) {
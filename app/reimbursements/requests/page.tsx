@@ -4,6 +4,7 @@ import { ReimbursementList } from '../components/ReimbursementList'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { DollarSign, Clock, CheckCircle, XCircle } from 'lucide-react'
+import { fromMinorUnits } from '@/lib/utils'
 
 export default function ReimbursementRequestsPage() {
   // TODO: Get these stats from API
@@ -22,7 +23,7 @@ export default function ReimbursementRequestsPage() {
       currency: currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 2
-    }).format(amountCents / 100)
+    }).format(fromMinorUnits(amountCents, currency))
   }
 
   return (
@@ -25,6 +25,13 @@ import { Separator } from '@/components/ui/separator'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import Link from 'next/link'
 import { Tenant } from '@/lib/db/models/tenant'
+import TenantLedger from '@/components/payments/TenantLedger'
+import type { LedgerEntry, TenantBalance } from '@/lib/payments/ledger'
+import DepositSettlement from '@/components/payments/DepositSettlement'
+import type { SecurityDeposit } from '@/lib/db/models/deposit'
+import type { DepositSummary } from '@/lib/payments/deposits'
+import PaymentPlans from '@/components/payments/PaymentPlans'
+import type { PaymentPlanSummary } from '@/lib/payments/payment-plans'
 
 interface TenantProfileState {
   tenant: Tenant | null
@@ -42,6 +49,11 @@ export default function TenantProfile() {
     loading: true,
     error: null
   })
+  const [ledger, setLedger] = useState<LedgerEntry[]>([])
+  const [balances, setBalances] = useState<TenantBalance[]>([])
+  const [paymentPlans, setPaymentPlans] = useState<PaymentPlanSummary[]>([])
+  const [deposit, setDeposit] = useState<SecurityDeposit | null>(null)
+  const [depositSummary, setDepositSummary] = useState<DepositSummary | null>(null)
 
   const fetchTenant = async () => {
     try {
@@ -66,9 +78,38 @@ export default function TenantProfile() {
     }
   }
 
+  const fetchLedger = async () => {
+    try {
+      const response = await fetch(`/api/payments/history/${tenantId}`)
+      if (!response.ok) return
+
+      const data = await response.json()
+      setLedger(data.ledger || [])
+      setBalances(data.balances || [])
+      setPaymentPlans(data.paymentPlans || [])
+    } catch (error) {
+      console.error('Failed to fetch tenant ledger:', error)
+    }
+  }
+
+  const fetchDeposit = async () => {
+    try {
+      const response = await fetch(`/api/tenants/${tenantId}/deposit`)
+      if (!response.ok) return
+
+      const data = await response.json()
+      setDeposit(data.deposit || null)
+      setDepositSummary(data.summary || null)
+    } catch (error) {
+      console.error('Failed to fetch security deposit:', error)
+    }
+  }
+
   useEffect(() => {
     if (tenantId) {
       fetchTenant()
+      fetchLedger()
+      fetchDeposit()
     }
   }, [tenantId])
 
@@ -237,6 +278,7 @@ export default function TenantProfile() {
         <TabsList>
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="lease">Lease & Room</TabsTrigger>
+          <TabsTrigger value="payments">Payments</TabsTrigger>
           <TabsTrigger value="contacts">Emergency Contacts</TabsTrigger>
           <TabsTrigger value="documents">Documents</TabsTrigger>
           <TabsTrigger value="communications">Communications</TabsTrigger>
@@ -345,6 +387,12 @@ export default function TenantProfile() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="payments" className="space-y-4">
+          <TenantLedger ledger={ledger} balances={balances} />
+          <PaymentPlans paymentPlans={paymentPlans} />
+          <DepositSettlement tenantId={tenantId} deposit={deposit} summary={depositSummary} />
+        </TabsContent>
+
         <TabsContent value="contacts" className="space-y-4">
           <Card>
             <CardHeader>
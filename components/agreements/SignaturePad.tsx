@@ -0,0 +1,162 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Eraser, PenLine, Type } from 'lucide-react'
+import { PointerEvent, useRef, useState } from 'react'
+
+export interface SignaturePadResult {
+  method: 'drawn' | 'typed'
+  signatureImage?: string
+  typedName?: string
+  consent: true
+}
+
+interface SignaturePadProps {
+  signerName: string
+  consentText: string
+  submitting: boolean
+  onSubmit: (signature: SignaturePadResult) => void
+}
+
+export function SignaturePad({ signerName, consentText, submitting, onSubmit }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const drawingRef = useRef(false)
+  const [method, setMethod] = useState<'drawn' | 'typed'>('drawn')
+  const [hasDrawing, setHasDrawing] = useState(false)
+  const [typedName, setTypedName] = useState(signerName)
+  const [consent, setConsent] = useState(false)
+
+  const getPoint = (event: PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current!
+    const rect = canvas.getBoundingClientRect()
+    return {
+      x: (event.clientX - rect.left) * (canvas.width / rect.width),
+      y: (event.clientY - rect.top) * (canvas.height / rect.height)
+    }
+  }
+
+  const startStroke = (event: PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext('2d')
+    if (!context) return
+
+    event.currentTarget.setPointerCapture(event.pointerId)
+    drawingRef.current = true
+    const { x, y } = getPoint(event)
+    context.lineWidth = 2.5
+    context.lineCap = 'round'
+    context.lineJoin = 'round'
+    context.strokeStyle = '#0f2a6b'
+    context.beginPath()
+    context.moveTo(x, y)
+  }
+
+  const continueStroke = (event: PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext('2d')
+    if (!context || !drawingRef.current) return
+
+    const { x, y } = getPoint(event)
+    context.lineTo(x, y)
+    context.stroke()
+    setHasDrawing(true)
+  }
+
+  const endStroke = () => {
+    drawingRef.current = false
+  }
+
+  const clearDrawing = () => {
+    const canvas = canvasRef.current
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height)
+    setHasDrawing(false)
+  }
+
+  const canSubmit = consent && !submitting && (method === 'drawn' ? hasDrawing : typedName.trim().length > 0)
+
+  const handleSubmit = () => {
+    if (!canSubmit) return
+
+    if (method === 'drawn') {
+      onSubmit({ method, signatureImage: canvasRef.current!.toDataURL('image/png'), consent: true })
+    } else {
+      onSubmit({ method, typedName: typedName.trim(), consent: true })
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant={method === 'drawn' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setMethod('drawn')}
+        >
+          <PenLine className="h-4 w-4 mr-1" />
+          Draw
+        </Button>
+        <Button
+          type="button"
+          variant={method === 'typed' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setMethod('typed')}
+        >
+          <Type className="h-4 w-4 mr-1" />
+          Type
+        </Button>
+      </div>
+
+      {method === 'drawn' ? (
+        <div className="space-y-2">
+          <canvas
+            ref={canvasRef}
+            width={600}
+            height={200}
+            className="w-full h-32 border border-gray-300 rounded-lg bg-white touch-none cursor-crosshair"
+            onPointerDown={startStroke}
+            onPointerMove={continueStroke}
+            onPointerUp={endStroke}
+            onPointerLeave={endStroke}
+            data-testid="signature-canvas"
+          />
+          <Button type="button" variant="ghost" size="sm" onClick={clearDrawing} disabled={!hasDrawing}>
+            <Eraser className="h-4 w-4 mr-1" />
+            Clear
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor="typedSignature">Full name</Label>
+          <Input
+            id="typedSignature"
+            value={typedName}
+            onChange={(e) => setTypedName(e.target.value)}
+            maxLength={100}
+          />
+          {typedName.trim() && (
+            <p className="text-3xl italic font-serif text-blue-900 border-b border-gray-300 pb-1">
+              {typedName}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-start gap-2">
+        <Checkbox
+          id="signatureConsent"
+          checked={consent}
+          onCheckedChange={(checked) => setConsent(checked === true)}
+        />
+        <Label htmlFor="signatureConsent" className="text-xs text-gray-600 leading-relaxed font-normal">
+          {consentText}
+        </Label>
+      </div>
+
+      <Button onClick={handleSubmit} disabled={!canSubmit} className="w-full" size="lg">
+        {submitting ? 'Signing...' : 'Sign Agreement'}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+'use client'
+
+import type { TemplateDiffRow } from '@/lib/agreements/templates'
+
+interface TemplateVersionDiffProps {
+  fromVersion: number
+  toVersion: number
+  rows: TemplateDiffRow[]
+}
+
+const BEFORE_STYLES: Record<TemplateDiffRow['type'], string> = {
+  unchanged: '',
+  changed: 'bg-red-50',
+  removed: 'bg-red-50',
+  added: 'bg-gray-50'
+}
+
+const AFTER_STYLES: Record<TemplateDiffRow['type'], string> = {
+  unchanged: '',
+  changed: 'bg-green-50',
+  added: 'bg-green-50',
+  removed: 'bg-gray-50'
+}
+
+export function TemplateVersionDiff({ fromVersion, toVersion, rows }: TemplateVersionDiffProps) {
+  const changes = rows.filter(row => row.type !== 'unchanged').length
+
+  if (changes === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Versions {fromVersion} and {toVersion} have the same wording.
+      </p>
+    )
+  }
+
+  return (
+    <div className="border rounded-lg overflow-x-auto" data-testid="template-version-diff">
+      <table className="w-full text-xs font-mono table-fixed">
+        <thead className="bg-gray-100 text-gray-600">
+          <tr>
+            <th className="w-10 px-2 py-1" />
+            <th className="px-2 py-1 text-left font-medium">Version {fromVersion}</th>
+            <th className="w-10 px-2 py-1" />
+            <th className="px-2 py-1 text-left font-medium">Version {toVersion}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={index} data-diff-type={row.type}>
+              <td className="px-2 align-top text-right text-gray-400 select-none">{row.before?.lineNumber}</td>
+              <td className={`px-2 align-top whitespace-pre-wrap break-words ${BEFORE_STYLES[row.type]}`}>
+                {row.before?.text}
+              </td>
+              <td className="px-2 align-top text-right text-gray-400 select-none border-l">{row.after?.lineNumber}</td>
+              <td className={`px-2 align-top whitespace-pre-wrap break-words ${AFTER_STYLES[row.type]}`}>
+                {row.after?.text}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
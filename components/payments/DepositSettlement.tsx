@@ -0,0 +1,105 @@
+'use client';
+
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileText, Shield } from 'lucide-react';
+import type { SecurityDeposit } from '@/lib/db/models/deposit';
+import type { DepositSummary } from '@/lib/payments/deposits';
+import { formatCents as formatCurrency } from '@/lib/utils';
+
+interface DepositSettlementProps {
+  tenantId: string;
+  deposit: SecurityDeposit | null;
+  summary: DepositSummary | null;
+}
+
+export default function DepositSettlement({ tenantId, deposit, summary }: DepositSettlementProps) {
+  if (!deposit || !summary) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Security Deposit</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-center py-8 text-muted-foreground">
+            <Shield className="h-8 w-8 mx-auto mb-2" />
+            <p>No security deposit on record</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          Security Deposit
+          <Badge variant={deposit.status === 'Settled' ? 'outline' : 'default'}>
+            {deposit.status}
+          </Badge>
+        </CardTitle>
+        <a href={`/api/tenants/${tenantId}/deposit/statement`} target="_blank" rel="noopener noreferrer">
+          <Button variant="outline" size="sm">
+            <FileText className="mr-2 h-4 w-4" />
+            Settlement Statement
+          </Button>
+        </a>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Held</p>
+            <p className="text-xl font-bold">{formatCurrency(summary.heldCents, deposit.currency)}</p>
+            <p className="text-xs text-muted-foreground">
+              Collected {format(new Date(deposit.collectedDate), 'MMM d, yyyy')} via {deposit.paymentMethod}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Deductions</p>
+            <p className="text-xl font-bold text-red-600">{formatCurrency(summary.deductionsCents, deposit.currency)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">
+              {deposit.status === 'Settled' ? 'Refunded' : 'Refund Due'}
+            </p>
+            <p className="text-xl font-bold text-green-600">{formatCurrency(summary.refundCents, deposit.currency)}</p>
+            {deposit.refundDate && (
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(deposit.refundDate), 'MMM d, yyyy')} via {deposit.refundMethod}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {deposit.deductions.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deposit.deductions.map((deduction) => (
+                <TableRow key={deduction.id}>
+                  <TableCell>
+                    <Badge variant="secondary">{deduction.type}</Badge>
+                  </TableCell>
+                  <TableCell>{deduction.description}</TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(deduction.amountCents, deposit.currency)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { PaymentPlanSummary } from '@/lib/payments/payment-plans';
+import { formatCents as formatCurrency } from '@/lib/utils';
+
+interface PaymentPlansProps {
+  paymentPlans: PaymentPlanSummary[];
+}
+
+const getPlanBadgeVariant = (status: string) => {
+  switch (status) {
+    case 'Active': return 'default';
+    case 'Completed': return 'outline';
+    case 'Defaulted': return 'destructive';
+    default: return 'outline';
+  }
+};
+
+export default function PaymentPlans({ paymentPlans }: PaymentPlansProps) {
+  if (paymentPlans.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      {paymentPlans.map(({ plan, installments, paidCents, remainingCents, nextInstallment }) => (
+        <Card key={plan.id}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              Payment Plan
+              <Badge variant={getPlanBadgeVariant(plan.status)}>
+                {plan.status === 'Active' ? 'On track' : plan.status}
+              </Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Arrears</p>
+                <p className="text-xl font-bold">{formatCurrency(plan.totalCents, plan.currency)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {plan.installmentCount} installments agreed {format(new Date(plan.createdAt), 'MMM d, yyyy')}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Paid</p>
+                <p className="text-xl font-bold text-green-600">{formatCurrency(paidCents, plan.currency)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Remaining</p>
+                <p className="text-xl font-bold text-red-600">{formatCurrency(remainingCents, plan.currency)}</p>
+                {plan.status === 'Active' && nextInstallment && (
+                  <p className="text-xs text-muted-foreground">
+                    Next due {format(new Date(nextInstallment.dueDate), 'MMM d, yyyy')}
+                  </p>
+                )}
+                {plan.defaultedAt && (
+                  <p className="text-xs text-red-600">
+                    Installment missed, balance overdue since {format(new Date(plan.defaultedAt), 'MMM d, yyyy')}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Installment</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {installments.map((installment, index) => (
+                  <TableRow key={installment.id}>
+                    <TableCell>{index + 1} of {plan.installmentCount}</TableCell>
+                    <TableCell>{format(new Date(installment.dueDate), 'MMM d, yyyy')}</TableCell>
+                    <TableCell>
+                      <Badge variant={installment.status === 'Overdue' ? 'destructive' : 'secondary'}>
+                        {installment.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(installment.amountCents, installment.currency)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
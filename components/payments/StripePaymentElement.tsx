@@ -0,0 +1,151 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2 } from 'lucide-react';
+
+// Minimal surface of Stripe.js used here; the library is loaded from js.stripe.com
+interface StripeElement {
+  mount: (domElement: HTMLElement) => void;
+  destroy: () => void;
+}
+
+interface StripeElements {
+  create: (type: 'payment') => StripeElement;
+}
+
+interface StripeConfirmResult {
+  error?: { message?: string };
+  paymentIntent?: { id: string; status: string };
+  setupIntent?: { id: string; status: string; payment_method: string | null };
+}
+
+interface StripeJs {
+  elements: (options: { clientSecret: string }) => StripeElements;
+  confirmPayment: (options: { elements: StripeElements; redirect: 'if_required'; confirmParams: { return_url: string } }) => Promise<StripeConfirmResult>;
+  confirmSetup: (options: { elements: StripeElements; redirect: 'if_required'; confirmParams: { return_url: string } }) => Promise<StripeConfirmResult>;
+}
+
+declare global {
+  interface Window {
+    Stripe?: (publishableKey: string) => StripeJs;
+  }
+}
+
+const STRIPE_JS_URL = 'https://js.stripe.com/v3';
+
+let stripeJsPromise: Promise<void> | null = null;
+
+function loadStripeJs(): Promise<void> {
+  if (window.Stripe) return Promise.resolve();
+  if (!stripeJsPromise) {
+    stripeJsPromise = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = STRIPE_JS_URL;
+      script.onload = () => resolve();
+      script.onerror = () => {
+        stripeJsPromise = null;
+        reject(new Error('Failed to load Stripe'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return stripeJsPromise;
+}
+
+interface StripePaymentElementProps {
+  publishableKey: string;
+  clientSecret: string;
+  mode: 'payment' | 'setup';
+  submitLabel: string;
+  onSuccess: (result: { paymentMethodId?: string }) => void;
+  onCancel: () => void;
+}
+
+export default function StripePaymentElement({
+  publishableKey,
+  clientSecret,
+  mode,
+  submitLabel,
+  onSuccess,
+  onCancel
+}: StripePaymentElementProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const stripeRef = useRef<StripeJs | null>(null);
+  const elementsRef = useRef<StripeElements | null>(null);
+  const [ready, setReady] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let element: StripeElement | null = null;
+    let cancelled = false;
+
+    loadStripeJs()
+      .then(() => {
+        if (cancelled || !window.Stripe || !containerRef.current) return;
+        const stripe = window.Stripe(publishableKey);
+        const elements = stripe.elements({ clientSecret });
+        element = elements.create('payment');
+        element.mount(containerRef.current);
+        stripeRef.current = stripe;
+        elementsRef.current = elements;
+        setReady(true);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load Stripe'));
+
+    return () => {
+      cancelled = true;
+      element?.destroy();
+    };
+  }, [publishableKey, clientSecret]);
+
+  const handleSubmit = async () => {
+    const stripe = stripeRef.current;
+    const elements = elementsRef.current;
+    if (!stripe || !elements) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const options = {
+        elements,
+        redirect: 'if_required' as const,
+        confirmParams: { return_url: window.location.href }
+      };
+      const result = mode === 'payment'
+        ? await stripe.confirmPayment(options)
+        : await stripe.confirmSetup(options);
+
+      if (result.error) {
+        setError(result.error.message || 'Card was declined');
+        return;
+      }
+
+      onSuccess({ paymentMethodId: result.setupIntent?.payment_method || undefined });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div ref={containerRef} />
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} disabled={!ready || submitting}>
+          {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
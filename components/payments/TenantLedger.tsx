@@ -0,0 +1,105 @@
+'use client';
+
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Receipt } from 'lucide-react';
+import { formatCents } from '@/lib/utils';
+import type { LedgerEntry, TenantBalance } from '@/lib/payments/ledger';
+
+interface TenantLedgerProps {
+  ledger: LedgerEntry[];
+  balances: TenantBalance[];
+}
+
+const getEntryBadgeVariant = (type: LedgerEntry['type']) => {
+  switch (type) {
+    case 'charge': return 'secondary';
+    case 'payment': return 'default';
+    case 'credit': return 'outline';
+    case 'refund': return 'destructive';
+    default: return 'outline';
+  }
+};
+
+export default function TenantLedger({ ledger, balances }: TenantLedgerProps) {
+  return (
+    <div className="space-y-4">
+      {balances.map((balance) => (
+        <div key={balance.currency} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">Balance ({balance.currency})</p>
+              <p className={`text-2xl font-bold ${balance.balanceCents > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {formatCents(Math.abs(balance.balanceCents), balance.currency)}
+                {balance.balanceCents < 0 && <span className="ml-1 text-sm font-normal">in credit</span>}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">Outstanding</p>
+              <p className="text-2xl font-bold">{formatCents(balance.outstandingCents, balance.currency)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">Available Credit</p>
+              <p className="text-2xl font-bold">{formatCents(balance.availableCreditCents, balance.currency)}</p>
+            </CardContent>
+          </Card>
+        </div>
+      ))}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Ledger</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {ledger.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Charges</TableHead>
+                  <TableHead className="text-right">Payments</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ledger.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell>{format(new Date(entry.date), 'MMM d, yyyy')}</TableCell>
+                    <TableCell>
+                      <Badge variant={getEntryBadgeVariant(entry.type)} className="capitalize">
+                        {entry.type}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{entry.description}</TableCell>
+                    <TableCell className="text-right">
+                      {entry.debitCents > 0 ? formatCents(entry.debitCents, entry.currency) : ''}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {entry.creditCents > 0 ? formatCents(entry.creditCents, entry.currency) : ''}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {formatCents(entry.balanceCents, entry.currency)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <Receipt className="h-8 w-8 mx-auto mb-2" />
+              <p>No payment activity yet</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
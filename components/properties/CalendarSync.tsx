@@ -0,0 +1,161 @@
+'use client'
+
+import type { CalendarImportResult } from '@/lib/rooms/ical'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { AlertTriangle, Copy, RefreshCw, Upload } from 'lucide-react'
+import { useEffect, useState } from 'react'
+
+interface CalendarSyncProps {
+  roomId: string
+  onImported: () => void
+}
+
+export function CalendarSync({ roomId, onImported }: CalendarSyncProps) {
+  const [feedUrl, setFeedUrl] = useState<string | null>(null)
+  const [calendar, setCalendar] = useState('')
+  const [url, setUrl] = useState('')
+  const [file, setFile] = useState<File | null>(null)
+  const [result, setResult] = useState<CalendarImportResult | null>(null)
+  const [importing, setImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchFeedUrl = async () => {
+      const response = await fetch(`/api/rooms/${roomId}/calendar/sync`)
+      if (response.ok) {
+        const data = await response.json()
+        setFeedUrl(data.feedUrl)
+      }
+    }
+
+    fetchFeedUrl()
+  }, [roomId])
+
+  const handleImport = async () => {
+    try {
+      setImporting(true)
+      setError(null)
+
+      let response: Response
+      if (file) {
+        const formData = new FormData()
+        formData.append('file', file)
+        formData.append('calendar', calendar)
+        response = await fetch(`/api/rooms/${roomId}/calendar/sync`, { method: 'POST', body: formData })
+      } else {
+        response = await fetch(`/api/rooms/${roomId}/calendar/sync`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ calendar, url })
+        })
+      }
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to import calendar')
+      }
+
+      const data = await response.json()
+      setResult(data.result)
+      onImported()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import calendar')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RefreshCw className="h-5 w-5" />
+          Calendar Sync
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <Label htmlFor="calendarFeedUrl">Export feed for booking sites</Label>
+          <div className="flex gap-2 mt-1">
+            <Input id="calendarFeedUrl" value={feedUrl || ''} readOnly placeholder="Loading..." />
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!feedUrl}
+              onClick={() => feedUrl && navigator.clipboard.writeText(feedUrl)}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Anyone with this link can see which dates the room is taken, but not who by.
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="importCalendarName">Calendar name</Label>
+              <Input
+                id="importCalendarName"
+                value={calendar}
+                onChange={(e) => setCalendar(e.target.value)}
+                placeholder="e.g. Airbnb"
+              />
+            </div>
+            <div>
+              <Label htmlFor="importCalendarUrl">Calendar URL</Label>
+              <Input
+                id="importCalendarUrl"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://..."
+                disabled={!!file}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="importCalendarFile">Or upload an .ics file</Label>
+            <Input
+              id="importCalendarFile"
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+            />
+          </div>
+
+          <Button
+            onClick={handleImport}
+            disabled={importing || !calendar || (!file && !url)}
+            className="flex items-center gap-2"
+          >
+            <Upload className="h-4 w-4" />
+            {importing ? 'Importing...' : 'Import Bookings'}
+          </Button>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {result && (
+            <div className="text-sm text-gray-600 space-y-2">
+              <p>
+                {result.created} added, {result.updated} updated, {result.removed} removed, {result.skipped} skipped
+              </p>
+              {result.conflicts.length > 0 && (
+                <p className="flex items-center gap-2 text-red-600">
+                  <AlertTriangle className="h-4 w-4" />
+                  {result.conflicts.length} imported booking{result.conflicts.length === 1 ? '' : 's'} overlap a tenant&apos;s stay
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
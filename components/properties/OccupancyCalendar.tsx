@@ -1,13 +1,16 @@
 'use client'
 
 import { OccupancyRecord } from '@/lib/db/models/room'
+import { RoomReservation } from '@/lib/db/models/reservation'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { 
+  AlertTriangle,
   Calendar,
   ChevronLeft,
   ChevronRight,
+  Clock,
   Plus,
   Users
 } from 'lucide-react'
@@ -16,10 +19,11 @@ import { useState } from 'react'
 interface OccupancyCalendarProps {
   roomId: string
   occupancyHistory: OccupancyRecord[]
+  reservations?: RoomReservation[]
   onUpdate: () => void
 }
 
-export function OccupancyCalendar({ roomId, occupancyHistory, onUpdate }: OccupancyCalendarProps) {
+export function OccupancyCalendar({ roomId, occupancyHistory, reservations = [], onUpdate }: OccupancyCalendarProps) {
   const [currentDate, setCurrentDate] = useState(new Date())
 
   // Get the first day of the current month
@@ -43,13 +47,50 @@ export function OccupancyCalendar({ roomId, occupancyHistory, onUpdate }: Occupa
     current.setDate(current.getDate() + 1)
   }
 
+  // Tenants' stays, and dates blocked by bookings imported from other calendars
+  const tenancies = occupancyHistory.filter(record => record.kind !== 'Block')
+  const blocks = occupancyHistory.filter(record => record.kind === 'Block')
+
+  const coversDate = (record: OccupancyRecord, date: Date) => {
+    const startDate = new Date(record.startDate)
+    const endDate = record.endDate ? new Date(record.endDate) : new Date()
+
+    return date >= startDate && date <= endDate
+  }
+
   // Check if a date has occupancy
   const getOccupancyForDate = (date: Date) => {
-    return occupancyHistory.find(record => {
-      const startDate = new Date(record.startDate)
-      const endDate = record.endDate ? new Date(record.endDate) : new Date()
-      
-      return date >= startDate && date <= endDate
+    return tenancies.find(record => coversDate(record, date))
+  }
+
+  // Check if a date is blocked by an outside booking
+  const getBlockForDate = (date: Date) => {
+    return blocks.find(record => coversDate(record, date))
+  }
+
+  // Imported blocks that overlap a tenant's stay
+  const conflicts = blocks.flatMap(block => tenancies
+    .filter(record => {
+      const blockEnd = new Date(block.endDate ?? block.startDate)
+      const recordEnd = record.endDate ? new Date(record.endDate) : undefined
+
+      return new Date(record.startDate) <= blockEnd && (!recordEnd || recordEnd >= new Date(block.startDate))
+    })
+    .map(record => ({ block, record }))
+  )
+
+  // Holds that still keep the room for a prospect
+  const activeHolds = reservations.filter(reservation =>
+    reservation.status === 'Held' || reservation.status === 'AgreementSent'
+  )
+
+  // Check if a date is held for a prospect
+  const getHoldForDate = (date: Date) => {
+    return activeHolds.find(reservation => {
+      const startDate = new Date(reservation.startDate)
+      const endDate = reservation.endDate ? new Date(reservation.endDate) : undefined
+
+      return date >= startDate && (!endDate || date <= endDate)
     })
   }
 
@@ -119,6 +160,9 @@ export function OccupancyCalendar({ roomId, occupancyHistory, onUpdate }: Occupa
           <div className="grid grid-cols-7 gap-1">
             {calendarDays.map((date, index) => {
               const occupancy = getOccupancyForDate(date)
+              const block = getBlockForDate(date)
+              const isConflict = !!occupancy && !!block
+              const hold = occupancy || block ? undefined : getHoldForDate(date)
               const isCurrentMonth = date.getMonth() === currentDate.getMonth()
               const isToday = date.toDateString() === new Date().toDateString()
 
@@ -129,7 +173,10 @@ export function OccupancyCalendar({ roomId, occupancyHistory, onUpdate }: Occupa
                     aspect-square p-1 border border-gray-200 rounded-lg text-center text-sm
                     ${!isCurrentMonth ? 'text-gray-300 bg-gray-50' : ''}
                     ${isToday ? 'ring-2 ring-blue-500' : ''}
-                    ${occupancy ? 'bg-blue-100' : ''}
+                    ${occupancy && !isConflict ? 'bg-blue-100' : ''}
+                    ${block && !isConflict ? 'bg-purple-100' : ''}
+                    ${isConflict ? 'bg-red-100' : ''}
+                    ${hold ? 'bg-amber-100' : ''}
                     hover:bg-gray-50 cursor-pointer transition-colors
                   `}
                 >
@@ -138,8 +185,16 @@ export function OccupancyCalendar({ roomId, occupancyHistory, onUpdate }: Occupa
                       {date.getDate()}
                     </span>
                     
-                    {occupancy && (
+                    {isConflict ? (
+                      <div className="w-2 h-2 bg-red-600 rounded-full mx-auto" data-testid="occupancy-conflict-day"></div>
+                    ) : occupancy ? (
                       <div className="w-2 h-2 bg-blue-600 rounded-full mx-auto"></div>
+                    ) : block && (
+                      <div className="w-2 h-2 bg-purple-600 rounded-full mx-auto" data-testid="occupancy-block-day"></div>
+                    )}
+
+                    {hold && (
+                      <div className="w-2 h-2 bg-amber-500 rounded-full mx-auto" data-testid="occupancy-hold-day"></div>
                     )}
                   </div>
                 </div>
@@ -155,6 +210,20 @@ export function OccupancyCalendar({ roomId, occupancyHistory, onUpdate }: Occupa
               <div className="w-3 h-3 bg-blue-100 border border-gray-200 rounded"></div>
               <span className="text-gray-600">Occupied</span>
             </div>
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 bg-amber-100 border border-gray-200 rounded"></div>
+              <span className="text-gray-600">On hold</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 bg-purple-100 border border-gray-200 rounded"></div>
+              <span className="text-gray-600">Booked elsewhere</span>
+            </div>
+            {conflicts.length > 0 && (
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 bg-red-100 border border-gray-200 rounded"></div>
+                <span className="text-gray-600">Conflict</span>
+              </div>
+            )}
             <div className="flex items-center gap-2">
               <div className="w-3 h-3 bg-white border border-gray-200 rounded"></div>
               <span className="text-gray-600">Available</span>
@@ -167,14 +236,35 @@ export function OccupancyCalendar({ roomId, occupancyHistory, onUpdate }: Occupa
           </Button>
         </div>
 
+        {/* Imported bookings clashing with tenants */}
+        {conflicts.length > 0 && (
+          <div className="mt-6 p-4 bg-red-50 border border-red-200 rounded-lg" data-testid="occupancy-conflicts">
+            <h4 className="font-medium text-red-800 mb-2 flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4" />
+              Calendar Conflicts
+            </h4>
+            {conflicts.map(({ block, record }) => (
+              <div key={`${block.id}-${record.id}`} className="flex items-center justify-between text-sm">
+                <span className="text-red-700">
+                  {block.externalCalendar || 'External'} booking{block.summary ? ` "${block.summary}"` : ''} overlaps Tenant {record.tenantId}
+                </span>
+                <span className="text-red-700">
+                  {new Date(block.startDate).toLocaleDateString()} - {new Date(block.endDate ?? block.startDate).toLocaleDateString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Current Occupancy Status */}
         <div className="mt-6 p-4 bg-gray-50 rounded-lg">
           <h4 className="font-medium text-gray-900 mb-2">Current Status</h4>
           
           {(() => {
-            const currentOccupancy = occupancyHistory.find(record => 
+            const currentOccupancy = tenancies.find(record => 
               record.status === 'Current'
             )
+            const currentHold = activeHolds[0]
             
             if (currentOccupancy) {
               return (
@@ -185,8 +275,24 @@ export function OccupancyCalendar({ roomId, occupancyHistory, onUpdate }: Occupa
                       Occupied by Tenant {currentOccupancy.tenantId}
                     </span>
                   </div>
-                  <Badge variant="default">
-                    ${currentOccupancy.monthlyRent.toLocaleString()}/month
+                  {currentOccupancy.monthlyRent !== undefined && (
+                    <Badge variant="default">
+                      ${currentOccupancy.monthlyRent.toLocaleString()}/month
+                    </Badge>
+                  )}
+                </div>
+              )
+            } else if (currentHold) {
+              return (
+                <div className="flex items-center justify-between" data-testid="occupancy-hold">
+                  <div className="flex items-center gap-2">
+                    <Clock className="h-4 w-4 text-amber-600" />
+                    <span className="text-sm text-gray-600">
+                      On hold for {currentHold.prospectName} until {new Date(currentHold.holdExpiresAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <Badge variant="secondary">
+                    {currentHold.status === 'AgreementSent' ? 'Agreement sent' : 'On hold'}
                   </Badge>
                 </div>
               )
@@ -210,7 +316,7 @@ export function OccupancyCalendar({ roomId, occupancyHistory, onUpdate }: Occupa
 
         {/* Upcoming Move-outs */}
         {(() => {
-          const upcomingMoveOuts = occupancyHistory.filter(record => {
+          const upcomingMoveOuts = tenancies.filter(record => {
             if (!record.endDate || record.status !== 'Current') return false
             
             const endDate = new Date(record.endDate)
@@ -0,0 +1,124 @@
+'use client'
+
+import type { RentSuggestion as RentSuggestionResult } from '@/lib/rooms/pricing'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Lightbulb, TrendingDown, TrendingUp } from 'lucide-react'
+import { useState } from 'react'
+
+interface RentSuggestionProps {
+  roomId: string
+  onApply: (rent: number) => void
+}
+
+export function RentSuggestion({ roomId, onApply }: RentSuggestionProps) {
+  const [startDate, setStartDate] = useState(new Date().toISOString().split('T')[0])
+  const [stayMonths, setStayMonths] = useState(12)
+  const [suggestion, setSuggestion] = useState<RentSuggestionResult | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSuggestion = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/rooms/${roomId}/pricing?startDate=${startDate}&months=${stayMonths}`)
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to suggest rent')
+      }
+
+      const data = await response.json()
+      setSuggestion(data.suggestion)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to suggest rent')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const formatAdjustment = (adjustment: number) => {
+    const percent = Math.round(adjustment * 100)
+    return `${percent > 0 ? '+' : ''}${percent}%`
+  }
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg space-y-4">
+      <h4 className="font-medium text-gray-900 flex items-center gap-2">
+        <Lightbulb className="h-4 w-4 text-amber-500" />
+        Suggested Rent
+      </h4>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div>
+          <Label htmlFor="pricingStartDate">Stay starts</Label>
+          <Input
+            id="pricingStartDate"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="pricingStayMonths">Stay length (months)</Label>
+          <Input
+            id="pricingStayMonths"
+            type="number"
+            min={1}
+            max={24}
+            value={stayMonths}
+            onChange={(e) => setStayMonths(Number(e.target.value))}
+          />
+        </div>
+        <Button type="button" variant="outline" onClick={fetchSuggestion} disabled={loading}>
+          {loading ? 'Calculating...' : 'Suggest Rent'}
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      {suggestion && (
+        <div className="space-y-3" data-testid="rent-suggestion">
+          <div className="flex items-center justify-between">
+            <div>
+              <span className="text-2xl font-bold text-gray-900">
+                ${suggestion.suggestedRent.toLocaleString()}
+              </span>
+              <span className="text-sm text-gray-600">/month</span>
+              <p className="text-sm text-gray-600">
+                Currently ${suggestion.currentRent.toLocaleString()}/month
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">{suggestion.confidence} confidence</Badge>
+              <Button type="button" size="sm" onClick={() => onApply(suggestion.suggestedRent)}>
+                Use Suggested Rent
+              </Button>
+            </div>
+          </div>
+
+          <ul className="space-y-1">
+            {suggestion.factors.map(factor => (
+              <li key={factor.factor} className="flex items-start gap-2 text-sm">
+                {factor.adjustment > 0 ? (
+                  <TrendingUp className="h-4 w-4 text-green-600 mt-0.5" />
+                ) : factor.adjustment < 0 ? (
+                  <TrendingDown className="h-4 w-4 text-red-600 mt-0.5" />
+                ) : (
+                  <span className="w-4" />
+                )}
+                <span className="w-12 font-medium text-gray-900">{formatAdjustment(factor.adjustment)}</span>
+                <span className="text-gray-600">{factor.reason}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
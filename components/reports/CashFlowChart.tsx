@@ -57,7 +57,7 @@ export default function CashFlowChart({ propertyId }: CashFlowChartProps) {
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency: analysis?.currency || 'USD',
     }).format(amount);
   };
 
@@ -58,7 +58,7 @@ export default function FinancialDashboard({ propertyId }: FinancialDashboardPro
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency: report?.currency || 'USD',
     }).format(amount);
   };
 
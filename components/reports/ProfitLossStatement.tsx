@@ -57,7 +57,7 @@ export default function ProfitLossStatement({ propertyId }: ProfitLossStatementP
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency: statement?.currency || 'USD',
     }).format(amount);
   };
 
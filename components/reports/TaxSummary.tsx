@@ -50,7 +50,7 @@ export default function TaxSummary({ propertyId }: TaxSummaryProps) {
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency: summary?.currency || 'USD',
     }).format(amount);
   };
 
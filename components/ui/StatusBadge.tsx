@@ -21,6 +21,12 @@ export function StatusBadge({ status, size = 'md', showIcon = true }: StatusBadg
           icon: '⏳',
           label: 'Pending'
         }
+      case 'PARTIALLY_PAID':
+        return {
+          color: 'bg-blue-100 text-blue-800 border-blue-200',
+          icon: '◐',
+          label: 'Partially Paid'
+        }
       case 'OVERDUE':
         return {
           color: 'bg-red-100 text-red-800 border-red-200',
@@ -33,6 +39,24 @@ export function StatusBadge({ status, size = 'md', showIcon = true }: StatusBadg
           icon: '↩️',
           label: 'Refunded'
         }
+      case 'WAIVED':
+        return {
+          color: 'bg-gray-100 text-gray-500 border-gray-200',
+          icon: '⊘',
+          label: 'Waived'
+        }
+      case 'DISPUTED':
+        return {
+          color: 'bg-orange-100 text-orange-800 border-orange-200',
+          icon: '⚑',
+          label: 'Disputed'
+        }
+      case 'RESCHEDULED':
+        return {
+          color: 'bg-blue-100 text-blue-800 border-blue-200',
+          icon: '↻',
+          label: 'Payment Plan'
+        }
       default:
         return {
           color: 'bg-gray-100 text-gray-800 border-gray-200',
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { formatCurrency, formatDate, validateEmail, slugify, generateId } from '../utils'
+import { formatCurrency, formatCents, fromMinorUnits, toMinorUnits, formatDate, validateEmail, slugify, generateId } from '../utils'
 
 describe('utils', () => {
   describe('formatCurrency', () => {
@@ -13,6 +13,21 @@ describe('utils', () => {
     })
   })
 
+  describe('minor units', () => {
+    it('uses cents for USD', () => {
+      expect(fromMinorUnits(60050, 'USD')).toBe(600.5)
+      expect(toMinorUnits(600.5, 'USD')).toBe(60050)
+      expect(formatCents(60050)).toBe('$600.50')
+    })
+
+    it('treats VND amounts as whole dong', () => {
+      expect(fromMinorUnits(15000000, 'VND')).toBe(15000000)
+      expect(toMinorUnits(15000000.4, 'VND')).toBe(15000000)
+      expect(formatCents(15000000, 'VND')).toContain('15,000,000')
+      expect(formatCents(15000000, 'VND')).not.toContain('.')
+    })
+  })
+
   describe('formatDate', () => {
     it('formats date objects correctly', () => {
       const date = new Date('2023-12-25')
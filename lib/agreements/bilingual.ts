@@ -0,0 +1,57 @@
+import { AgreementLanguageType, AgreementTemplate } from '@/lib/db/models/agreement'
+
+// The parts of a template, or of one of its versions, that hold its wording
+export type TemplateWording = Pick<AgreementTemplate, 'content' | 'language' | 'translations'>
+
+// Language names as staff see them
+export const AGREEMENT_LANGUAGE_NAMES: Record<AgreementLanguageType, string> = {
+  en: 'English',
+  vi: 'Vietnamese'
+}
+
+// Language names as readers of that language know them, for signers choosing a language
+export const AGREEMENT_LANGUAGE_NATIVE_NAMES: Record<AgreementLanguageType, string> = {
+  en: 'English',
+  vi: 'Tiếng Việt'
+}
+
+/**
+ * Every language the template is written in, its own language first
+ */
+export function getTemplateLanguages(template: TemplateWording): AgreementLanguageType[] {
+  return [template.language, ...template.translations.map(translation => translation.language)]
+}
+
+/**
+ * The template's wording in a language, if it has one
+ */
+export function getTemplateContent(template: TemplateWording, language: AgreementLanguageType): string | undefined {
+  return language === template.language
+    ? template.content
+    : template.translations.find(translation => translation.language === language)?.content
+}
+
+/**
+ * Split agreement content into clauses. Clauses are separated by a blank
+ * line, so the nth paragraph of a template is translated by the nth
+ * paragraph of each of its translations.
+ */
+export function splitClauses(content: string): string[] {
+  return content
+    .replace(/\r/g, '')
+    .split(/\n[ \t]*\n/)
+    .map(clause => clause.trim())
+    .filter(clause => clause.length > 0)
+}
+
+/**
+ * Line up the clauses of the same agreement in several languages, one row
+ * per clause with a column per language. A clause one language lacks
+ * leaves its cell empty rather than shifting the rows after it.
+ */
+export function pairClauses(contents: string[]): string[][] {
+  const columns = contents.map(splitClauses)
+  const rowCount = Math.max(0, ...columns.map(clauses => clauses.length))
+
+  return Array.from({ length: rowCount }, (_, index) => columns.map(clauses => clauses[index] ?? ''))
+}
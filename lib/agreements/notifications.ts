@@ -1,6 +1,14 @@
 import nodemailer from 'nodemailer'
-import { Agreement, AgreementTemplate } from '@/lib/db/models/agreement'
+import { Agreement, AgreementLanguageType, AgreementTemplate } from '@/lib/db/models/agreement'
 import { Property } from '@/lib/db/models/property'
+import {
+  CommunicationDirection,
+  CommunicationPriority,
+  CommunicationSource,
+  CommunicationStatus
+} from '@/lib/db/models/communication'
+import { CommunicationOperations } from '@/lib/db/operations/communications'
+import { COMMUNICATION_TYPE_BY_CHANNEL, sendMessage } from '@/lib/messaging/channels'
 
 // Email configuration (reuse existing transporter setup)
 const transporter = nodemailer.createTransport({
@@ -26,6 +34,7 @@ export interface AgreementEmailData {
   ownerName?: string
   ownerEmail?: string
   customMessage?: string
+  language?: AgreementLanguageType // The recipient's preferred language; English when not set
 }
 
 export interface ReminderEmailData extends AgreementEmailData {
@@ -33,6 +42,217 @@ export interface ReminderEmailData extends AgreementEmailData {
   daysUntilExpiration: number
 }
 
+type UrgencyLevel = 'normal' | 'important' | 'urgent'
+
+// Everything the agreement emails and texts say, in one language
+interface AgreementEmailCopy {
+  locale: string
+  greeting: (name: string) => string
+  signOff: string
+  defaultOwnerName: string
+  expiresAt: (date: string, time: string) => string
+  propertyLabel: string
+  addressLabel: string
+  expiresLabel: string
+  questionsReply: string
+  agreement: {
+    subject: (propertyName: string) => string
+    title: string
+    thanks: (propertyName: string) => string
+    intro: string
+    linkIntro: string
+    propertyDetails: string
+    button: string
+    messageLabel: string
+    importantInfo: string
+    secureSigning: [string, string]
+    mobileFriendly: [string, string]
+    questions: [string, string]
+    linkFallback: string
+    closing: string
+    footer: string
+  }
+  reminder: {
+    subject: (propertyName: string, urgencyLevel: UrgencyLevel) => string
+    title: string
+    pending: (propertyName: string, final: boolean) => string
+    urgency: (daysUntilExpiration: number, urgencyLevel: UrgencyLevel) => string
+    details: string
+    button: string
+    linkIntro: string
+    actionRequired: string
+    expiryWarning: (daysUntilExpiration: number) => string
+    help: string
+    footer: (reminderNumber: number) => string
+  }
+  completed: {
+    subject: (propertyName: string) => string
+    title: string
+    congratulations: string
+    signed: (propertyName: string) => string
+    nextSteps: string
+    steps: [string, string, string]
+    button: string
+    welcome: (propertyName: string) => string
+    footer: string
+  }
+  text: {
+    agreement: (name: string, propertyName: string, url: string, expires: string) => string
+    reminder: (name: string, propertyName: string, url: string, daysUntilExpiration: number) => string
+  }
+}
+
+const AGREEMENT_EMAIL_COPY: Record<AgreementLanguageType, AgreementEmailCopy> = {
+  en: {
+    locale: 'en-US',
+    greeting: name => `Hello ${name},`,
+    signOff: 'Best regards,',
+    defaultOwnerName: 'Property Management Team',
+    expiresAt: (date, time) => `${date} at ${time}`,
+    propertyLabel: 'Property:',
+    addressLabel: 'Address:',
+    expiresLabel: 'Expires:',
+    questionsReply: 'Questions? Simply reply to this email',
+    agreement: {
+      subject: propertyName => `Digital Lease Agreement - ${propertyName}`,
+      title: 'Digital Lease Agreement',
+      thanks: propertyName => `Thank you for your interest in ${propertyName}!`,
+      intro: "We're excited to move forward with your lease application. Please review and sign your digital lease agreement using the secure link below.",
+      linkIntro: 'Sign your agreement using this secure link:',
+      propertyDetails: 'Property Details:',
+      button: 'Review & Sign Agreement',
+      messageLabel: 'Message:',
+      importantInfo: 'Important Information:',
+      secureSigning: ['Secure signing:', 'Your agreement is protected with industry-standard security'],
+      mobileFriendly: ['Mobile friendly:', 'You can sign on any device'],
+      questions: ['Questions?', 'Simply reply to this email'],
+      linkFallback: "If the button doesn't work, copy and paste this link:",
+      closing: 'We look forward to welcoming you to our community!',
+      footer: 'This is a secure document delivery. Do not share this link with others.'
+    },
+    reminder: {
+      subject: (propertyName, urgencyLevel) => {
+        const prefixes = { normal: 'Reminder', important: 'Important Reminder', urgent: 'URGENT: Final Reminder' }
+        return `${prefixes[urgencyLevel]}: Sign Your Agreement - ${propertyName}`
+      },
+      title: 'Agreement Reminder',
+      pending: (propertyName, final) => `This is a ${final ? 'final ' : ''}reminder that your lease agreement for ${propertyName} is still pending your signature.`,
+      urgency: (days, urgencyLevel) => {
+        if (urgencyLevel === 'urgent') {
+          return days <= 1
+            ? 'Your agreement expires today! Please sign immediately.'
+            : `Your agreement expires in ${days} days. Please sign as soon as possible.`
+        }
+        return urgencyLevel === 'important'
+          ? `Your agreement expires in ${days} days. Please review and sign at your earliest convenience.`
+          : `Your agreement is ready for signature and expires in ${days} days.`
+      },
+      details: 'Agreement Details:',
+      button: 'Sign Agreement Now',
+      linkIntro: 'Sign your agreement here:',
+      actionRequired: 'Action Required:',
+      expiryWarning: days => `Your agreement will expire in ${days} day${days !== 1 ? 's' : ''}. After expiration, you will need to request a new agreement.`,
+      help: 'If you have any questions or need assistance, please reply to this email.',
+      footer: reminderNumber => `This is reminder #${reminderNumber}. You can unsubscribe by replying to this email.`
+    },
+    completed: {
+      subject: propertyName => `Agreement Signed - ${propertyName}`,
+      title: 'Agreement Completed!',
+      congratulations: 'Congratulations!',
+      signed: propertyName => `Your lease agreement for ${propertyName} has been successfully signed and completed.`,
+      nextSteps: "What's next?",
+      steps: [
+        'You will receive your tenant profile access within 24 hours',
+        'Move-in instructions will be sent separately',
+        'Your signed agreement is available for download'
+      ],
+      button: 'Download Signed Agreement',
+      welcome: propertyName => `Welcome to the ${propertyName} community!`,
+      footer: 'Questions? Reply to this email or contact us directly.'
+    },
+    text: {
+      agreement: (name, propertyName, url, expires) =>
+        `Hi ${name}, your lease agreement for ${propertyName} is ready to sign: ${url} (expires ${expires})`,
+      reminder: (name, propertyName, url, days) =>
+        `Hi ${name}, a reminder that your lease agreement for ${propertyName} is waiting for your signature and expires in ${days} day(s): ${url}`
+    }
+  },
+  vi: {
+    locale: 'vi-VN',
+    greeting: name => `Xin chào ${name},`,
+    signOff: 'Trân trọng,',
+    defaultOwnerName: 'Ban quản lý nhà',
+    expiresAt: (date, time) => `${date} lúc ${time}`,
+    propertyLabel: 'Nhà:',
+    addressLabel: 'Địa chỉ:',
+    expiresLabel: 'Hết hạn:',
+    questionsReply: 'Có câu hỏi? Chỉ cần trả lời email này',
+    agreement: {
+      subject: propertyName => `Hợp đồng thuê nhà điện tử - ${propertyName}`,
+      title: 'Hợp đồng thuê nhà điện tử',
+      thanks: propertyName => `Cảm ơn bạn đã quan tâm đến ${propertyName}!`,
+      intro: 'Chúng tôi rất vui được tiếp tục với đơn thuê nhà của bạn. Vui lòng xem và ký hợp đồng thuê nhà điện tử qua liên kết bảo mật bên dưới.',
+      linkIntro: 'Ký hợp đồng của bạn qua liên kết bảo mật này:',
+      propertyDetails: 'Thông tin nhà:',
+      button: 'Xem và ký hợp đồng',
+      messageLabel: 'Lời nhắn:',
+      importantInfo: 'Thông tin quan trọng:',
+      secureSigning: ['Ký an toàn:', 'Hợp đồng của bạn được bảo vệ theo tiêu chuẩn bảo mật của ngành'],
+      mobileFriendly: ['Dùng được trên di động:', 'Bạn có thể ký trên mọi thiết bị'],
+      questions: ['Có câu hỏi?', 'Chỉ cần trả lời email này'],
+      linkFallback: 'Nếu nút không hoạt động, hãy sao chép và dán liên kết này:',
+      closing: 'Chúng tôi mong được chào đón bạn đến với cộng đồng của chúng tôi!',
+      footer: 'Đây là tài liệu được gửi bảo mật. Vui lòng không chia sẻ liên kết này với người khác.'
+    },
+    reminder: {
+      subject: (propertyName, urgencyLevel) => {
+        const prefixes = { normal: 'Nhắc nhở', important: 'Nhắc nhở quan trọng', urgent: 'KHẨN: Nhắc nhở cuối cùng' }
+        return `${prefixes[urgencyLevel]}: Ký hợp đồng của bạn - ${propertyName}`
+      },
+      title: 'Nhắc nhở ký hợp đồng',
+      pending: (propertyName, final) => `Đây là lời nhắc${final ? ' cuối cùng' : ''} rằng hợp đồng thuê nhà của bạn tại ${propertyName} vẫn đang chờ bạn ký.`,
+      urgency: (days, urgencyLevel) => {
+        if (urgencyLevel === 'urgent') {
+          return days <= 1
+            ? 'Hợp đồng của bạn hết hạn hôm nay! Vui lòng ký ngay.'
+            : `Hợp đồng của bạn sẽ hết hạn sau ${days} ngày. Vui lòng ký sớm nhất có thể.`
+        }
+        return urgencyLevel === 'important'
+          ? `Hợp đồng của bạn sẽ hết hạn sau ${days} ngày. Vui lòng xem và ký khi thuận tiện.`
+          : `Hợp đồng của bạn đã sẵn sàng để ký và sẽ hết hạn sau ${days} ngày.`
+      },
+      details: 'Thông tin hợp đồng:',
+      button: 'Ký hợp đồng ngay',
+      linkIntro: 'Ký hợp đồng của bạn tại đây:',
+      actionRequired: 'Cần hành động:',
+      expiryWarning: days => `Hợp đồng của bạn sẽ hết hạn sau ${days} ngày. Sau khi hết hạn, bạn sẽ cần yêu cầu một hợp đồng mới.`,
+      help: 'Nếu bạn có câu hỏi hoặc cần hỗ trợ, vui lòng trả lời email này.',
+      footer: reminderNumber => `Đây là lời nhắc thứ ${reminderNumber}. Bạn có thể hủy đăng ký bằng cách trả lời email này.`
+    },
+    completed: {
+      subject: propertyName => `Hợp đồng đã được ký - ${propertyName}`,
+      title: 'Hợp đồng đã hoàn tất!',
+      congratulations: 'Xin chúc mừng!',
+      signed: propertyName => `Hợp đồng thuê nhà của bạn tại ${propertyName} đã được ký và hoàn tất.`,
+      nextSteps: 'Bước tiếp theo',
+      steps: [
+        'Bạn sẽ nhận được quyền truy cập hồ sơ người thuê trong vòng 24 giờ',
+        'Hướng dẫn dọn vào sẽ được gửi riêng',
+        'Bạn có thể tải xuống hợp đồng đã ký'
+      ],
+      button: 'Tải xuống hợp đồng đã ký',
+      welcome: propertyName => `Chào mừng bạn đến với cộng đồng ${propertyName}!`,
+      footer: 'Có câu hỏi? Hãy trả lời email này hoặc liên hệ trực tiếp với chúng tôi.'
+    },
+    text: {
+      agreement: (name, propertyName, url, expires) =>
+        `Chào ${name}, hợp đồng thuê nhà của bạn tại ${propertyName} đã sẵn sàng để ký: ${url} (hết hạn ${expires})`,
+      reminder: (name, propertyName, url, days) =>
+        `Chào ${name}, nhắc bạn rằng hợp đồng thuê nhà tại ${propertyName} đang chờ bạn ký và sẽ hết hạn sau ${days} ngày: ${url}`
+    }
+  }
+}
+
 // Agreement notification service class
 export class AgreementNotificationService {
   static async sendAgreementEmail(data: AgreementEmailData): Promise<void> {
@@ -46,10 +266,11 @@ export class AgreementNotificationService {
 
 // Send initial agreement email to prospect
 export async function sendAgreementEmail(data: AgreementEmailData): Promise<void> {
-  const subject = `Digital Lease Agreement - ${data.propertyName}`
-  
-  const html = generateAgreementEmailHTML(data)
-  const text = generateAgreementEmailText(data)
+  const copy = getEmailCopy(data.language)
+  const subject = copy.agreement.subject(data.propertyName)
+
+  const html = generateAgreementEmailHTML(data, copy)
+  const text = generateAgreementEmailText(data, copy)
 
   if (isDevelopment && !isSmtpConfigured) {
     console.log('=== AGREEMENT EMAIL ===')
@@ -70,7 +291,7 @@ export async function sendAgreementEmail(data: AgreementEmailData): Promise<void
       html,
       replyTo: data.ownerEmail || process.env.SMTP_FROM
     })
-    
+
     console.log(`Agreement email sent to: ${data.prospectEmail}`)
   } catch (error) {
     console.error('Failed to send agreement email:', error)
@@ -80,11 +301,12 @@ export async function sendAgreementEmail(data: AgreementEmailData): Promise<void
 
 // Send reminder email for unsigned agreement
 export async function sendAgreementReminderEmail(data: ReminderEmailData): Promise<void> {
-  const urgencyLevel = data.reminderNumber >= 3 ? 'urgent' : data.reminderNumber >= 2 ? 'important' : 'normal'
-  const subject = generateReminderSubject(data, urgencyLevel)
-  
-  const html = generateReminderEmailHTML(data, urgencyLevel)
-  const text = generateReminderEmailText(data, urgencyLevel)
+  const copy = getEmailCopy(data.language)
+  const urgencyLevel: UrgencyLevel = data.reminderNumber >= 3 ? 'urgent' : data.reminderNumber >= 2 ? 'important' : 'normal'
+  const subject = copy.reminder.subject(data.propertyName, urgencyLevel)
+
+  const html = generateReminderEmailHTML(data, urgencyLevel, copy)
+  const text = generateReminderEmailText(data, urgencyLevel, copy)
 
   if (isDevelopment && !isSmtpConfigured) {
     console.log('=== AGREEMENT REMINDER EMAIL ===')
@@ -106,7 +328,7 @@ export async function sendAgreementReminderEmail(data: ReminderEmailData): Promi
       replyTo: data.ownerEmail || process.env.SMTP_FROM,
       priority: urgencyLevel === 'urgent' ? 'high' : 'normal'
     })
-    
+
     console.log(`Agreement reminder email sent to: ${data.prospectEmail} (reminder #${data.reminderNumber})`)
   } catch (error) {
     console.error('Failed to send agreement reminder email:', error)
@@ -116,14 +338,16 @@ export async function sendAgreementReminderEmail(data: ReminderEmailData): Promi
 
 // Send agreement completion notification
 export async function sendAgreementCompletedEmail(data: AgreementEmailData): Promise<void> {
-  const subject = `Agreement Signed - ${data.propertyName}`
-  
+  const copy = getEmailCopy(data.language)
+  const subject = copy.completed.subject(data.propertyName)
+  const ownerName = data.ownerName || copy.defaultOwnerName
+
   const html = `
     <!DOCTYPE html>
-    <html>
+    <html lang="${data.language || 'en'}">
     <head>
       <meta charset="utf-8">
-      <title>Agreement Completed</title>
+      <title>${copy.completed.title}</title>
       <style>
         ${getEmailStyles()}
         .success { background-color: #10b981; }
@@ -133,25 +357,23 @@ export async function sendAgreementCompletedEmail(data: AgreementEmailData): Pro
     <body>
       <div class="container">
         <div class="header success">
-          <h1>🎉 Agreement Completed!</h1>
+          <h1>🎉 ${copy.completed.title}</h1>
         </div>
         <div class="content success-content">
-          <p>Hello ${data.prospectName},</p>
-          <p><strong>Congratulations!</strong> Your lease agreement for <strong>${data.propertyName}</strong> has been successfully signed and completed.</p>
-          <p><strong>What's next?</strong></p>
+          <p>${copy.greeting(data.prospectName)}</p>
+          <p><strong>${copy.completed.congratulations}</strong> ${copy.completed.signed(`<strong>${data.propertyName}</strong>`)}</p>
+          <p><strong>${copy.completed.nextSteps}</strong></p>
           <ul>
-            <li>You will receive your tenant profile access within 24 hours</li>
-            <li>Move-in instructions will be sent separately</li>
-            <li>Your signed agreement is available for download</li>
+            ${copy.completed.steps.map(step => `<li>${step}</li>`).join('\n            ')}
           </ul>
           <p style="text-align: center;">
-            <a href="${data.agreementUrl}" class="button">Download Signed Agreement</a>
+            <a href="${data.agreementUrl}" class="button">${copy.completed.button}</a>
           </p>
-          <p>Welcome to the ${data.propertyName} community!</p>
-          <p>Best regards,<br>${data.ownerName || 'Property Management Team'}</p>
+          <p>${copy.completed.welcome(data.propertyName)}</p>
+          <p>${copy.signOff}<br>${ownerName}</p>
         </div>
         <div class="footer">
-          <p>Questions? Reply to this email or contact us directly.</p>
+          <p>${copy.completed.footer}</p>
         </div>
       </div>
     </body>
@@ -159,21 +381,21 @@ export async function sendAgreementCompletedEmail(data: AgreementEmailData): Pro
   `
 
   const text = `
-    Agreement Completed!
-    
-    Hello ${data.prospectName},
-    
-    Congratulations! Your lease agreement for ${data.propertyName} has been successfully signed and completed.
-    
-    What's next?
-    - You will receive your tenant profile access within 24 hours
-    - Move-in instructions will be sent separately
-    - Your signed agreement is available for download: ${data.agreementUrl}
-    
-    Welcome to the ${data.propertyName} community!
-    
-    Best regards,
-    ${data.ownerName || 'Property Management Team'}
+    ${copy.completed.title}
+
+    ${copy.greeting(data.prospectName)}
+
+    ${copy.completed.congratulations} ${copy.completed.signed(data.propertyName)}
+
+    ${copy.completed.nextSteps}
+    - ${copy.completed.steps[0]}
+    - ${copy.completed.steps[1]}
+    - ${copy.completed.steps[2]}: ${data.agreementUrl}
+
+    ${copy.completed.welcome(data.propertyName)}
+
+    ${copy.signOff}
+    ${ownerName}
   `
 
   if (isDevelopment && !isSmtpConfigured) {
@@ -193,7 +415,7 @@ export async function sendAgreementCompletedEmail(data: AgreementEmailData): Pro
       html,
       replyTo: data.ownerEmail || process.env.SMTP_FROM
     })
-    
+
     console.log(`Agreement completed email sent to: ${data.prospectEmail}`)
   } catch (error) {
     console.error('Failed to send agreement completed email:', error)
@@ -202,13 +424,15 @@ export async function sendAgreementCompletedEmail(data: AgreementEmailData): Pro
 }
 
 // Generate initial agreement email HTML
-function generateAgreementEmailHTML(data: AgreementEmailData): string {
+function generateAgreementEmailHTML(data: AgreementEmailData, copy: AgreementEmailCopy): string {
+  const { agreement } = copy
+
   return `
     <!DOCTYPE html>
-    <html>
+    <html lang="${data.language || 'en'}">
     <head>
       <meta charset="utf-8">
-      <title>Digital Lease Agreement</title>
+      <title>${agreement.title}</title>
       <style>
         ${getEmailStyles()}
       </style>
@@ -216,43 +440,43 @@ function generateAgreementEmailHTML(data: AgreementEmailData): string {
     <body>
       <div class="container">
         <div class="header">
-          <h1>📋 Digital Lease Agreement</h1>
+          <h1>📋 ${agreement.title}</h1>
         </div>
         <div class="content">
-          <p>Hello ${data.prospectName},</p>
-          <p>Thank you for your interest in <strong>${data.propertyName}</strong>!</p>
-          <p>We're excited to move forward with your lease application. Please review and sign your digital lease agreement using the secure link below.</p>
-          
+          <p>${copy.greeting(data.prospectName)}</p>
+          <p>${agreement.thanks(`<strong>${data.propertyName}</strong>`)}</p>
+          <p>${agreement.intro}</p>
+
           <div class="property-info">
-            <h3>Property Details:</h3>
-            <p><strong>Property:</strong> ${data.propertyName}<br>
-            <strong>Address:</strong> ${data.propertyAddress}</p>
+            <h3>${agreement.propertyDetails}</h3>
+            <p><strong>${copy.propertyLabel}</strong> ${data.propertyName}<br>
+            <strong>${copy.addressLabel}</strong> ${data.propertyAddress}</p>
           </div>
-          
+
           ${data.customMessage ? `<div class="custom-message"><p><em>${data.customMessage}</em></p></div>` : ''}
-          
+
           <p style="text-align: center;">
-            <a href="${data.agreementUrl}" class="button">Review & Sign Agreement</a>
+            <a href="${data.agreementUrl}" class="button">${agreement.button}</a>
           </p>
-          
+
           <div class="important-info">
-            <h4>⏰ Important Information:</h4>
+            <h4>⏰ ${agreement.importantInfo}</h4>
             <ul>
-              <li><strong>Secure signing:</strong> Your agreement is protected with industry-standard security</li>
-              <li><strong>Mobile friendly:</strong> You can sign on any device</li>
-              <li><strong>Expires:</strong> ${data.expirationDate.toLocaleDateString()} at ${data.expirationDate.toLocaleTimeString()}</li>
-              <li><strong>Questions?</strong> Simply reply to this email</li>
+              <li><strong>${agreement.secureSigning[0]}</strong> ${agreement.secureSigning[1]}</li>
+              <li><strong>${agreement.mobileFriendly[0]}</strong> ${agreement.mobileFriendly[1]}</li>
+              <li><strong>${copy.expiresLabel}</strong> ${formatExpiration(data.expirationDate, copy)}</li>
+              <li><strong>${agreement.questions[0]}</strong> ${agreement.questions[1]}</li>
             </ul>
           </div>
-          
-          <p>If the button doesn't work, copy and paste this link:</p>
+
+          <p>${agreement.linkFallback}</p>
           <p class="url-fallback">${data.agreementUrl}</p>
-          
-          <p>We look forward to welcoming you to our community!</p>
-          <p>Best regards,<br>${data.ownerName || 'Property Management Team'}</p>
+
+          <p>${agreement.closing}</p>
+          <p>${copy.signOff}<br>${data.ownerName || copy.defaultOwnerName}</p>
         </div>
         <div class="footer">
-          <p>This is a secure document delivery. Do not share this link with others.</p>
+          <p>${agreement.footer}</p>
         </div>
       </div>
     </body>
@@ -261,45 +485,48 @@ function generateAgreementEmailHTML(data: AgreementEmailData): string {
 }
 
 // Generate initial agreement email text
-function generateAgreementEmailText(data: AgreementEmailData): string {
+function generateAgreementEmailText(data: AgreementEmailData, copy: AgreementEmailCopy): string {
+  const { agreement } = copy
+
   return `
-    Digital Lease Agreement
-    
-    Hello ${data.prospectName},
-    
-    Thank you for your interest in ${data.propertyName}!
-    
-    We're excited to move forward with your lease application. Please review and sign your digital lease agreement using this secure link:
-    
+    ${agreement.title}
+
+    ${copy.greeting(data.prospectName)}
+
+    ${agreement.thanks(data.propertyName)}
+
+    ${agreement.linkIntro}
+
     ${data.agreementUrl}
-    
-    Property Details:
-    - Property: ${data.propertyName}
-    - Address: ${data.propertyAddress}
-    
-    ${data.customMessage ? `Message: ${data.customMessage}\n` : ''}
-    
-    Important Information:
-    - Secure signing with industry-standard security
-    - Mobile friendly - sign on any device
-    - Expires: ${data.expirationDate.toLocaleDateString()} at ${data.expirationDate.toLocaleTimeString()}
-    - Questions? Simply reply to this email
-    
-    We look forward to welcoming you to our community!
-    
-    Best regards,
-    ${data.ownerName || 'Property Management Team'}
+
+    ${agreement.propertyDetails}
+    - ${copy.propertyLabel} ${data.propertyName}
+    - ${copy.addressLabel} ${data.propertyAddress}
+
+    ${data.customMessage ? `${agreement.messageLabel} ${data.customMessage}\n` : ''}
+
+    ${agreement.importantInfo}
+    - ${agreement.secureSigning[0]} ${agreement.secureSigning[1]}
+    - ${agreement.mobileFriendly[0]} ${agreement.mobileFriendly[1]}
+    - ${copy.expiresLabel} ${formatExpiration(data.expirationDate, copy)}
+    - ${copy.questionsReply}
+
+    ${agreement.closing}
+
+    ${copy.signOff}
+    ${data.ownerName || copy.defaultOwnerName}
   `
 }
 
 // Generate reminder email HTML
-function generateReminderEmailHTML(data: ReminderEmailData, urgencyLevel: string): string {
+function generateReminderEmailHTML(data: ReminderEmailData, urgencyLevel: UrgencyLevel, copy: AgreementEmailCopy): string {
+  const { reminder } = copy
   const urgencyColors = {
     normal: '#4f46e5',
     important: '#f59e0b',
     urgent: '#ef4444'
   }
-  
+
   const urgencyEmojis = {
     normal: '📋',
     important: '⚠️',
@@ -308,16 +535,16 @@ function generateReminderEmailHTML(data: ReminderEmailData, urgencyLevel: string
 
   return `
     <!DOCTYPE html>
-    <html>
+    <html lang="${data.language || 'en'}">
     <head>
       <meta charset="utf-8">
-      <title>Agreement Reminder</title>
+      <title>${reminder.title}</title>
       <style>
         ${getEmailStyles()}
-        .header-${urgencyLevel} { background-color: ${urgencyColors[urgencyLevel as keyof typeof urgencyColors]}; }
-        .urgency-banner { 
-          background-color: ${urgencyLevel === 'urgent' ? '#fef2f2' : urgencyLevel === 'important' ? '#fffbeb' : '#f8fafc'}; 
-          border-left: 4px solid ${urgencyColors[urgencyLevel as keyof typeof urgencyColors]};
+        .header-${urgencyLevel} { background-color: ${urgencyColors[urgencyLevel]}; }
+        .urgency-banner {
+          background-color: ${urgencyLevel === 'urgent' ? '#fef2f2' : urgencyLevel === 'important' ? '#fffbeb' : '#f8fafc'};
+          border-left: 4px solid ${urgencyColors[urgencyLevel]};
           padding: 15px;
           margin: 20px 0;
         }
@@ -326,40 +553,40 @@ function generateReminderEmailHTML(data: ReminderEmailData, urgencyLevel: string
     <body>
       <div class="container">
         <div class="header header-${urgencyLevel}">
-          <h1>${urgencyEmojis[urgencyLevel as keyof typeof urgencyEmojis]} Agreement Reminder</h1>
+          <h1>${urgencyEmojis[urgencyLevel]} ${reminder.title}</h1>
         </div>
         <div class="content">
-          <p>Hello ${data.prospectName},</p>
-          
+          <p>${copy.greeting(data.prospectName)}</p>
+
           <div class="urgency-banner">
-            <p><strong>${getUrgencyMessage(data.daysUntilExpiration, urgencyLevel)}</strong></p>
+            <p><strong>${reminder.urgency(data.daysUntilExpiration, urgencyLevel)}</strong></p>
           </div>
-          
-          <p>This is a ${urgencyLevel === 'urgent' ? 'final' : ''} reminder that your lease agreement for <strong>${data.propertyName}</strong> is still pending your signature.</p>
-          
+
+          <p>${reminder.pending(`<strong>${data.propertyName}</strong>`, urgencyLevel === 'urgent')}</p>
+
           <div class="property-info">
-            <h3>Agreement Details:</h3>
-            <p><strong>Property:</strong> ${data.propertyName}<br>
-            <strong>Address:</strong> ${data.propertyAddress}<br>
-            <strong>Expires:</strong> ${data.expirationDate.toLocaleDateString()} at ${data.expirationDate.toLocaleTimeString()}</p>
+            <h3>${reminder.details}</h3>
+            <p><strong>${copy.propertyLabel}</strong> ${data.propertyName}<br>
+            <strong>${copy.addressLabel}</strong> ${data.propertyAddress}<br>
+            <strong>${copy.expiresLabel}</strong> ${formatExpiration(data.expirationDate, copy)}</p>
           </div>
-          
+
           <p style="text-align: center;">
-            <a href="${data.agreementUrl}" class="button">Sign Agreement Now</a>
+            <a href="${data.agreementUrl}" class="button">${reminder.button}</a>
           </p>
-          
+
           ${urgencyLevel === 'urgent' ? `
             <div class="important-info">
-              <h4>⚠️ Action Required:</h4>
-              <p>Your agreement will expire in ${data.daysUntilExpiration} day${data.daysUntilExpiration !== 1 ? 's' : ''}. After expiration, you will need to request a new agreement.</p>
+              <h4>⚠️ ${reminder.actionRequired}</h4>
+              <p>${reminder.expiryWarning(data.daysUntilExpiration)}</p>
             </div>
           ` : ''}
-          
-          <p>If you have any questions or need assistance, please reply to this email.</p>
-          <p>Best regards,<br>${data.ownerName || 'Property Management Team'}</p>
+
+          <p>${reminder.help}</p>
+          <p>${copy.signOff}<br>${data.ownerName || copy.defaultOwnerName}</p>
         </div>
         <div class="footer">
-          <p>This is reminder #${data.reminderNumber}. You can unsubscribe by replying to this email.</p>
+          <p>${reminder.footer(data.reminderNumber)}</p>
         </div>
       </div>
     </body>
@@ -368,59 +595,47 @@ function generateReminderEmailHTML(data: ReminderEmailData, urgencyLevel: string
 }
 
 // Generate reminder email text
-function generateReminderEmailText(data: ReminderEmailData, urgencyLevel: string): string {
+function generateReminderEmailText(data: ReminderEmailData, urgencyLevel: UrgencyLevel, copy: AgreementEmailCopy): string {
+  const { reminder } = copy
+
   return `
-    Agreement Reminder
-    
-    Hello ${data.prospectName},
-    
-    ${getUrgencyMessage(data.daysUntilExpiration, urgencyLevel)}
-    
-    This is a ${urgencyLevel === 'urgent' ? 'final' : ''} reminder that your lease agreement for ${data.propertyName} is still pending your signature.
-    
-    Agreement Details:
-    - Property: ${data.propertyName}
-    - Address: ${data.propertyAddress}
-    - Expires: ${data.expirationDate.toLocaleDateString()} at ${data.expirationDate.toLocaleTimeString()}
-    
-    Sign your agreement here: ${data.agreementUrl}
-    
+    ${reminder.title}
+
+    ${copy.greeting(data.prospectName)}
+
+    ${reminder.urgency(data.daysUntilExpiration, urgencyLevel)}
+
+    ${reminder.pending(data.propertyName, urgencyLevel === 'urgent')}
+
+    ${reminder.details}
+    - ${copy.propertyLabel} ${data.propertyName}
+    - ${copy.addressLabel} ${data.propertyAddress}
+    - ${copy.expiresLabel} ${formatExpiration(data.expirationDate, copy)}
+
+    ${reminder.linkIntro} ${data.agreementUrl}
+
     ${urgencyLevel === 'urgent' ? `
-    ⚠️ ACTION REQUIRED:
-    Your agreement will expire in ${data.daysUntilExpiration} day${data.daysUntilExpiration !== 1 ? 's' : ''}. After expiration, you will need to request a new agreement.
+    ⚠️ ${reminder.actionRequired.toUpperCase()}
+    ${reminder.expiryWarning(data.daysUntilExpiration)}
     ` : ''}
-    
-    If you have any questions or need assistance, please reply to this email.
-    
-    Best regards,
-    ${data.ownerName || 'Property Management Team'}
-    
+
+    ${reminder.help}
+
+    ${copy.signOff}
+    ${data.ownerName || copy.defaultOwnerName}
+
     ---
-    This is reminder #${data.reminderNumber}. You can unsubscribe by replying to this email.
+    ${reminder.footer(data.reminderNumber)}
   `
 }
 
 // Helper functions
-function generateReminderSubject(data: ReminderEmailData, urgencyLevel: string): string {
-  const prefixes = {
-    normal: 'Reminder',
-    important: 'Important Reminder',
-    urgent: 'URGENT: Final Reminder'
-  }
-  
-  return `${prefixes[urgencyLevel as keyof typeof prefixes]}: Sign Your Agreement - ${data.propertyName}`
+function getEmailCopy(language?: AgreementLanguageType): AgreementEmailCopy {
+  return AGREEMENT_EMAIL_COPY[language || 'en']
 }
 
-function getUrgencyMessage(daysUntilExpiration: number, urgencyLevel: string): string {
-  if (urgencyLevel === 'urgent') {
-    return daysUntilExpiration <= 1 
-      ? 'Your agreement expires today! Please sign immediately.'
-      : `Your agreement expires in ${daysUntilExpiration} days. Please sign as soon as possible.`
-  } else if (urgencyLevel === 'important') {
-    return `Your agreement expires in ${daysUntilExpiration} days. Please review and sign at your earliest convenience.`
-  } else {
-    return `Your agreement is ready for signature and expires in ${daysUntilExpiration} days.`
-  }
+function formatExpiration(date: Date, copy: AgreementEmailCopy): string {
+  return copy.expiresAt(date.toLocaleDateString(copy.locale), date.toLocaleTimeString(copy.locale))
 }
 
 function getEmailStyles(): string {
@@ -522,6 +737,51 @@ function getEmailStyles(): string {
   `
 }
 
+// Send the agreement link, or a reminder about it, on the prospect's chosen text channels.
+// Failures are logged rather than thrown so the email notification still counts as sent.
+export async function sendAgreementTextNotifications(
+  agreement: Pick<Agreement, 'id' | 'propertyId' | 'prospectPhone' | 'notificationChannels' | 'tenantId'>,
+  data: AgreementEmailData | ReminderEmailData
+): Promise<void> {
+  if (!agreement.prospectPhone) return
+
+  const copy = getEmailCopy(data.language)
+  const isReminder = 'reminderNumber' in data
+  const text = isReminder
+    ? copy.text.reminder(data.prospectName, data.propertyName, data.agreementUrl, data.daysUntilExpiration)
+    : copy.text.agreement(data.prospectName, data.propertyName, data.agreementUrl, data.expirationDate.toLocaleDateString(copy.locale))
+
+  for (const channel of agreement.notificationChannels || []) {
+    const result = await sendMessage(channel, { to: agreement.prospectPhone, text })
+    if (!result.success) {
+      console.error(`Failed to send agreement ${channel} message for ${agreement.id}: ${result.error}`)
+      continue
+    }
+
+    // Prospects have no communication history until they become tenants
+    if (!agreement.tenantId) continue
+    try {
+      await CommunicationOperations.create({
+        tenantId: agreement.tenantId,
+        propertyId: agreement.propertyId,
+        type: COMMUNICATION_TYPE_BY_CHANNEL[channel],
+        direction: CommunicationDirection.OUTGOING,
+        source: CommunicationSource.AGREEMENT_REMINDER,
+        subject: isReminder ? 'Agreement Reminder' : 'Agreement Sent',
+        content: text,
+        status: CommunicationStatus.CLOSED,
+        priority: CommunicationPriority.MEDIUM,
+        attachments: [],
+        tags: ['agreement', channel],
+        createdBy: 'system',
+        timestamp: new Date()
+      })
+    } catch (error) {
+      console.error(`Failed to record agreement communication for ${agreement.id}:`, error)
+    }
+  }
+}
+
 // Email delivery tracking and validation
 export async function validateEmailDelivery(email: string): Promise<boolean> {
   // Basic email validation
@@ -0,0 +1,389 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { PDFDocument, PDFFont, PageSizes, rgb } from 'pdf-lib'
+import fontkit from '@pdf-lib/fontkit'
+import { pairClauses } from './bilingual'
+
+// Where a signature goes, reserved at the end of the agreement text
+export interface SignatureBox {
+  pageIndex: number
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface RenderedAgreementPdf {
+  bytes: Uint8Array
+  pageCount: number
+  signatureBoxes: SignatureBox[] // One per signature label, in the same order
+}
+
+export interface AgreementPdfSignature {
+  method: 'drawn' | 'typed'
+  image?: Uint8Array // PNG of a drawn signature
+  typedName?: string
+  signerName: string
+  signedAt: Date
+}
+
+export interface CertificateSignature {
+  role: string
+  signerName: string
+  signerEmail: string
+  method: 'drawn' | 'typed'
+  viewedDate?: Date
+  signedAt: Date
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface SigningCertificate {
+  agreementId: string
+  documentHash: string
+  consentText: string
+  sentDate: Date
+  signatures: CertificateSignature[]
+}
+
+const MARGIN = 56
+const FONT_SIZE = 10.5
+const LINE_HEIGHT = 15
+const HEADING_SIZE = 13
+const SIGNATURE_BOX_HEIGHT = 70
+const COLUMN_GAP = 18
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1)
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4)
+
+// Unicode fonts, so Vietnamese is printed with its diacritics. The standard
+// PDF fonts only cover Windows-1252.
+const FONT_DIRECTORY = path.join(process.cwd(), 'node_modules', 'dejavu-fonts-ttf', 'ttf')
+const FONT_FILES = {
+  regular: 'DejaVuSans.ttf',
+  bold: 'DejaVuSans-Bold.ttf',
+  script: 'DejaVuSerif-Italic.ttf'
+}
+
+type FontStyle = keyof typeof FONT_FILES
+
+const fontBytes = new Map<FontStyle, Promise<Uint8Array>>()
+
+interface Line {
+  text: string
+  heading: boolean
+}
+
+export class AgreementPdfService {
+  /**
+   * Render populated agreement content, plain text or HTML, to a PDF with a
+   * signature block per label after the last paragraph. Content in more than
+   * one language is laid out in columns, each clause level with its translation.
+   */
+  static async renderAgreement(
+    title: string,
+    content: string | string[],
+    generatedAt: Date,
+    signatureLabels: string[] = ['Tenant signature']
+  ): Promise<RenderedAgreementPdf> {
+    const doc = await PDFDocument.create()
+    doc.setTitle(title)
+    doc.setCreationDate(generatedAt)
+    doc.setModificationDate(generatedAt)
+
+    const font = await embedFont(doc, 'regular')
+    const bold = await embedFont(doc, 'bold')
+
+    let page = doc.addPage(PageSizes.A4)
+    const [pageWidth, pageHeight] = PageSizes.A4
+    const textWidth = pageWidth - MARGIN * 2
+    let y = pageHeight - MARGIN
+
+    const nextLine = (height: number) => {
+      if (y - height < MARGIN) {
+        page = doc.addPage(PageSizes.A4)
+        y = pageHeight - MARGIN
+      }
+      y -= height
+    }
+
+    nextLine(HEADING_SIZE + 4)
+    page.drawText(toPrintable(title), { x: MARGIN, y, size: HEADING_SIZE + 4, font: bold, color: TEXT_COLOR })
+    y -= LINE_HEIGHT
+
+    const columns = typeof content === 'string' ? [content] : content
+
+    if (columns.length === 1) {
+      for (const line of toLines(columns[0])) {
+        const lineFont = line.heading ? bold : font
+        const size = line.heading ? HEADING_SIZE : FONT_SIZE
+
+        if (!line.text) {
+          nextLine(LINE_HEIGHT / 2)
+          continue
+        }
+
+        for (const wrapped of wrapText(toPrintable(line.text), lineFont, size, textWidth)) {
+          nextLine(line.heading ? LINE_HEIGHT + 4 : LINE_HEIGHT)
+          page.drawText(wrapped, { x: MARGIN, y, size, font: lineFont, color: TEXT_COLOR })
+        }
+      }
+    } else {
+      const columnWidth = (textWidth - COLUMN_GAP * (columns.length - 1)) / columns.length
+
+      // Each row starts level, so a clause never drifts away from its translation
+      for (const row of pairClauses(columns)) {
+        const cells = row.map(clause => toLines(clause).flatMap(line => line.text
+          ? wrapText(toPrintable(line.text), line.heading ? bold : font, line.heading ? HEADING_SIZE : FONT_SIZE, columnWidth)
+            .map(text => ({ text, heading: line.heading }))
+          : [line]))
+        const rowLines = Math.max(...cells.map(cell => cell.length))
+
+        for (let index = 0; index < rowLines; index++) {
+          nextLine(cells.some(cell => cell[index]?.heading) ? LINE_HEIGHT + 4 : LINE_HEIGHT)
+          cells.forEach((cell, column) => {
+            const line = cell[index]
+            if (!line?.text) return
+            page.drawText(line.text, {
+              x: MARGIN + column * (columnWidth + COLUMN_GAP),
+              y,
+              size: line.heading ? HEADING_SIZE : FONT_SIZE,
+              font: line.heading ? bold : font,
+              color: TEXT_COLOR
+            })
+          })
+        }
+        nextLine(LINE_HEIGHT / 2)
+      }
+    }
+
+    // Signature blocks, each kept on one page
+    const signatureBoxes: SignatureBox[] = []
+    for (const label of signatureLabels) {
+      nextLine(LINE_HEIGHT * 2 + SIGNATURE_BOX_HEIGHT + LINE_HEIGHT)
+      const boxY = y + LINE_HEIGHT
+      page.drawText(toPrintable(label), { x: MARGIN, y: boxY + SIGNATURE_BOX_HEIGHT + 6, size: FONT_SIZE, font: bold, color: TEXT_COLOR })
+      page.drawLine({
+        start: { x: MARGIN, y: boxY },
+        end: { x: MARGIN + textWidth / 2, y: boxY },
+        thickness: 0.75,
+        color: MUTED_COLOR
+      })
+
+      signatureBoxes.push({
+        pageIndex: doc.getPageCount() - 1,
+        x: MARGIN,
+        y: boxY,
+        width: textWidth / 2,
+        height: SIGNATURE_BOX_HEIGHT
+      })
+    }
+
+    return {
+      bytes: await doc.save(),
+      pageCount: doc.getPageCount(),
+      signatureBoxes
+    }
+  }
+
+  /**
+   * Drop everything after the agreement pages, i.e. the certificate of an
+   * earlier signing, so the next signature can be added to the same copy
+   */
+  static async removeCertificate(pdfBytes: Uint8Array, agreementPageCount: number): Promise<Uint8Array> {
+    const doc = await PDFDocument.load(pdfBytes)
+    while (doc.getPageCount() > agreementPageCount) {
+      doc.removePage(doc.getPageCount() - 1)
+    }
+    return doc.save()
+  }
+
+  /**
+   * Draw the signature in the reserved box, with the signer's name and time under it
+   */
+  static async stampSignature(pdfBytes: Uint8Array, box: SignatureBox, signature: AgreementPdfSignature): Promise<Uint8Array> {
+    const doc = await PDFDocument.load(pdfBytes)
+    doc.setModificationDate(signature.signedAt)
+    const page = doc.getPage(box.pageIndex)
+    const font = await embedFont(doc, 'regular')
+
+    if (signature.method === 'drawn') {
+      if (!signature.image) {
+        throw new Error('Drawn signature image is required')
+      }
+      const image = await doc.embedPng(signature.image)
+      const size = image.scaleToFit(box.width, box.height - 6)
+      page.drawImage(image, { x: box.x, y: box.y + 3, width: size.width, height: size.height })
+    } else {
+      const script = await embedFont(doc, 'script')
+      const name = toPrintable(signature.typedName || signature.signerName)
+      const size = Math.min(28, (box.width / Math.max(script.widthOfTextAtSize(name, 28), 1)) * 28)
+      page.drawText(name, { x: box.x, y: box.y + 8, size, font: script, color: rgb(0.05, 0.15, 0.45) })
+    }
+
+    page.drawText(
+      toPrintable(`${signature.signerName}, signed electronically ${formatTimestamp(signature.signedAt)}`),
+      { x: box.x, y: box.y - 12, size: 8, font, color: MUTED_COLOR }
+    )
+
+    return doc.save()
+  }
+
+  /**
+   * Add pages recording who signed, when, from where and what they consented to
+   */
+  static async appendCertificate(pdfBytes: Uint8Array, certificate: SigningCertificate): Promise<Uint8Array> {
+    const doc = await PDFDocument.load(pdfBytes)
+    const lastSignedAt = Math.max(...certificate.signatures.map(signature => signature.signedAt.getTime()))
+    doc.setModificationDate(new Date(lastSignedAt))
+    const font = await embedFont(doc, 'regular')
+    const bold = await embedFont(doc, 'bold')
+
+    let page = doc.addPage(PageSizes.A4)
+    const [pageWidth, pageHeight] = PageSizes.A4
+    const labelWidth = 130
+    const valueWidth = pageWidth - MARGIN * 2 - labelWidth
+    let y = pageHeight - MARGIN - HEADING_SIZE
+
+    const makeRoom = (height: number) => {
+      if (y - height < MARGIN) {
+        page = doc.addPage(PageSizes.A4)
+        y = pageHeight - MARGIN - HEADING_SIZE
+      }
+    }
+
+    const drawRows = (rows: [string, string][]) => {
+      for (const [label, value] of rows) {
+        const lines = wrapText(toPrintable(value), font, FONT_SIZE, valueWidth, true)
+        makeRoom(LINE_HEIGHT * lines.length)
+        page.drawText(label, { x: MARGIN, y, size: FONT_SIZE, font: bold, color: TEXT_COLOR })
+        lines.forEach((line, index) => {
+          page.drawText(line, { x: MARGIN + labelWidth, y: y - index * LINE_HEIGHT, size: FONT_SIZE, font, color: TEXT_COLOR })
+        })
+        y -= LINE_HEIGHT * lines.length + 6
+      }
+    }
+
+    page.drawText('Signing Certificate', { x: MARGIN, y, size: HEADING_SIZE + 4, font: bold, color: TEXT_COLOR })
+    y -= LINE_HEIGHT * 2
+
+    drawRows([
+      ['Agreement ID', certificate.agreementId],
+      ['Document SHA-256', certificate.documentHash],
+      ['Sent', formatTimestamp(certificate.sentDate)],
+      ['Consent', certificate.consentText]
+    ])
+
+    for (const signature of certificate.signatures) {
+      y -= LINE_HEIGHT / 2
+      makeRoom(LINE_HEIGHT * 8)
+      page.drawText(toPrintable(`${signature.role}: ${signature.signerName}`), { x: MARGIN, y, size: HEADING_SIZE, font: bold, color: TEXT_COLOR })
+      y -= LINE_HEIGHT + 4
+
+      drawRows([
+        ['Signer email', signature.signerEmail],
+        ['Signature', signature.method === 'drawn' ? 'Drawn by hand' : 'Typed name'],
+        ['Viewed', signature.viewedDate ? formatTimestamp(signature.viewedDate) : 'Not recorded'],
+        ['Signed', formatTimestamp(signature.signedAt)],
+        ['IP address', signature.ipAddress || 'Not recorded'],
+        ['User agent', signature.userAgent || 'Not recorded']
+      ])
+    }
+
+    y -= LINE_HEIGHT
+    makeRoom(LINE_HEIGHT * 2)
+    for (const line of wrapText(
+      'The document hash covers the agreement as presented to the signers, before any signature and these pages were added.',
+      font, 8, pageWidth - MARGIN * 2
+    )) {
+      page.drawText(line, { x: MARGIN, y, size: 8, font, color: MUTED_COLOR })
+      y -= 11
+    }
+
+    return doc.save()
+  }
+}
+
+// Block-level HTML becomes line breaks, headings stay bold, every other tag is dropped
+function toLines(content: string): Line[] {
+  const text = /<[a-z][\s\S]*>/i.test(content)
+    ? content
+      .replace(/\r/g, '')
+      .replace(/\n/g, ' ')
+      .replace(/<h[1-6][^>]*>([\s\S]*?)<\/h[1-6]>/gi, '\n\u0001$1\n')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<li[^>]*>/gi, '\n• ')
+      .replace(/<\/(p|div|li|ul|ol|tr|table|section)>/gi, '\n')
+      .replace(/<p[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+    : content.replace(/\r/g, '')
+
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .filter((line, index, lines) => line || (index > 0 && lines[index - 1]))
+    .map(line => line.startsWith('\u0001')
+      ? { text: line.slice(1).trim(), heading: true }
+      : { text: line, heading: false })
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&')
+}
+
+// Break text into lines that fit the width, splitting long words like hashes when asked
+function wrapText(text: string, font: PDFFont, size: number, width: number, breakWords: boolean = false): string[] {
+  const lines: string[] = []
+  let current = ''
+
+  for (const word of text.split(' ')) {
+    const candidate = current ? `${current} ${word}` : word
+    if (font.widthOfTextAtSize(candidate, size) <= width) {
+      current = candidate
+      continue
+    }
+
+    if (current) lines.push(current)
+    current = word
+
+    while (breakWords && font.widthOfTextAtSize(current, size) > width) {
+      let cut = current.length - 1
+      while (cut > 1 && font.widthOfTextAtSize(current.slice(0, cut), size) > width) cut--
+      lines.push(current.slice(0, cut))
+      current = current.slice(cut)
+    }
+  }
+
+  if (current) lines.push(current)
+  return lines.length > 0 ? lines : ['']
+}
+
+// Embed a font, subset to the characters used. The name is fixed rather than
+// given a random suffix, so the same agreement always renders to the same bytes
+// and its hash can be checked again.
+async function embedFont(doc: PDFDocument, style: FontStyle): Promise<PDFFont> {
+  if (!fontBytes.has(style)) {
+    fontBytes.set(style, fs.readFile(path.join(FONT_DIRECTORY, FONT_FILES[style])).then(bytes => new Uint8Array(bytes)))
+  }
+
+  doc.registerFontkit(fontkit)
+  return doc.embedFont(await fontBytes.get(style)!, { subset: true, customName: FONT_FILES[style].replace('.ttf', '') })
+}
+
+// Composed characters, so Vietnamese letters use the font's own accented glyphs, without control characters
+function toPrintable(text: string): string {
+  return text
+    .normalize('NFC')
+    .replace(/\t/g, '    ')
+    .replace(/[\u0000-\u001f\u007f-\u009f]/g, '')
+}
+
+function formatTimestamp(date: Date): string {
+  return `${date.toISOString().replace('T', ' ').replace(/\.\d{3}Z$/, '')} UTC`
+}
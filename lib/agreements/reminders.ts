@@ -1,6 +1,7 @@
 import { getAllAgreements, updateAgreement } from '@/lib/db/operations/agreements'
-import { AgreementNotificationService } from './notifications'
-import { Agreement } from '@/lib/db/models/agreement'
+import { AgreementNotificationService, ReminderEmailData, sendAgreementTextNotifications } from './notifications'
+import { Agreement, AgreementSigner } from '@/lib/db/models/agreement'
+import { AgreementSignerService } from './signers'
 
 export interface ReminderSchedule {
   id: string
@@ -100,7 +101,8 @@ export class AutomatedReminderService {
   }
 
   /**
-   * Process reminders for a specific agreement
+   * Process reminders for a specific agreement. Each signer whose turn it is
+   * gets their own reminders, counted from when they were asked to sign.
    */
   static async processAgreementReminders(agreement: Agreement): Promise<boolean> {
     try {
@@ -115,42 +117,50 @@ export class AutomatedReminderService {
         return false
       }
 
-      // Calculate days since sent and days until expiry
-      const daysSinceSent = Math.floor((now.getTime() - agreement.sentDate.getTime()) / (1000 * 60 * 60 * 24))
-      const daysUntilExpiry = Math.ceil((agreement.expirationDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24))
-
-      // Check if we should send a reminder
-      const reminderType = this.determineReminderType(agreement, daysSinceSent, daysUntilExpiry)
-      
-      if (!reminderType) {
-        return false
-      }
-
-      // Check if we've already sent this type of reminder recently
-      if (await this.hasRecentReminder(agreement, reminderType)) {
-        return false
-      }
-
       // Check business hours and weekend restrictions
       if (!this.isValidReminderTime(now)) {
         console.log(`Skipping reminder for agreement ${agreement.id} - outside business hours`)
         return false
       }
 
-      // Determine urgency level
+      const daysUntilExpiry = Math.ceil((agreement.expirationDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24))
       const urgencyLevel = this.determineUrgencyLevel(daysUntilExpiry)
+      const remindedIds: string[] = []
+
+      for (const signer of AgreementSignerService.getAwaitingSigners(agreement)) {
+        const invitedDate = signer.notifiedDate || agreement.sentDate
+        const daysSinceSent = Math.floor((now.getTime() - invitedDate.getTime()) / (1000 * 60 * 60 * 24))
+
+        // Check if we should send a reminder
+        const reminderType = this.determineReminderType(signer, daysSinceSent, daysUntilExpiry)
+        if (!reminderType) {
+          continue
+        }
+
+        // Check if we've already sent this signer a reminder recently
+        if (await this.hasRecentReminder(signer, reminderType)) {
+          continue
+        }
 
-      // Send reminder
-      await this.sendReminder(agreement, reminderType, urgencyLevel)
+        await this.sendReminder(agreement, reminderType, urgencyLevel, signer)
+        remindedIds.push(signer.id)
+        console.log(`Sent ${reminderType} reminder to ${signer.role} ${signer.id} for agreement ${agreement.id}`)
+      }
+
+      if (remindedIds.length === 0) {
+        return false
+      }
 
-      // Update agreement with reminder info
+      // Update the reminded signers, and the agreement totals
       await updateAgreement({
         id: agreement.id,
+        signers: AgreementSignerService.getSigners(agreement).map(signer => remindedIds.includes(signer.id)
+          ? { ...signer, remindersSent: signer.remindersSent + 1, lastReminderDate: now }
+          : signer),
         lastReminderDate: now,
-        remindersSent: (agreement.remindersSent || 0) + 1
+        remindersSent: (agreement.remindersSent || 0) + remindedIds.length
       })
 
-      console.log(`Sent ${reminderType} reminder for agreement ${agreement.id}`)
       return true
     } catch (error) {
       console.error(`Error processing reminders for agreement ${agreement.id}:`, error)
@@ -159,30 +169,37 @@ export class AutomatedReminderService {
   }
 
   /**
-   * Send a specific reminder
+   * Send a specific reminder, to the prospect unless a signer is given
    */
   static async sendReminder(
     agreement: Agreement,
     reminderType: string,
-    urgencyLevel: 'low' | 'medium' | 'high'
+    urgencyLevel: 'low' | 'medium' | 'high',
+    signer: AgreementSigner = AgreementSignerService.getProspectSigner(agreement)
   ): Promise<void> {
     try {
-      const signingUrl = `${process.env.NEXT_PUBLIC_APP_URL}/agreements/sign/${agreement.id}`
-      
-      await AgreementNotificationService.sendReminderEmail({
-        prospectName: agreement.prospectName,
-        prospectEmail: agreement.prospectEmail,
+      const reminderData: ReminderEmailData = {
+        prospectName: signer.name,
+        prospectEmail: signer.email,
         propertyName: agreement.property?.name || 'Property',
         propertyAddress: typeof agreement.property?.address === 'string' 
           ? agreement.property.address 
           : agreement.property?.address 
             ? `${agreement.property.address.street}, ${agreement.property.address.city}, ${agreement.property.address.state} ${agreement.property.address.postalCode}`
             : '',
-        agreementUrl: signingUrl,
+        agreementUrl: AgreementSignerService.getSigningUrl(agreement.id, signer),
         expirationDate: agreement.expirationDate,
-        reminderNumber: 1,
-        daysUntilExpiration: Math.ceil((agreement.expirationDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24))
-      })
+        reminderNumber: signer.remindersSent + 1,
+        daysUntilExpiration: Math.ceil((agreement.expirationDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24)),
+        language: signer.language
+      }
+
+      await AgreementNotificationService.sendReminderEmail(reminderData)
+
+      // Texts go to the prospect's phone, so other signers only get the email
+      if (AgreementSignerService.isProspect(agreement, signer)) {
+        await sendAgreementTextNotifications(agreement, reminderData)
+      }
     } catch (error) {
       console.error('Error sending reminder email:', error)
       throw error
@@ -208,13 +225,9 @@ export class AutomatedReminderService {
           return false
         }
 
-        // Skip if we've hit max attempts
-        const reminderCount = agreement.remindersSent || 0
-        if (reminderCount >= this.config.maxAttempts) {
-          return false
-        }
-
-        return true
+        // Skip if every signer it's waiting on has had the maximum reminders
+        return AgreementSignerService.getAwaitingSigners(agreement)
+          .some(signer => signer.remindersSent < this.config.maxAttempts)
       })
     } catch (error) {
       console.error('Error getting agreements needing reminders:', error)
@@ -226,11 +239,11 @@ export class AutomatedReminderService {
    * Determine what type of reminder to send
    */
   private static determineReminderType(
-    agreement: Agreement,
+    signer: AgreementSigner,
     daysSinceSent: number,
     daysUntilExpiry: number
   ): string | null {
-    const reminderCount = agreement.remindersSent || 0
+    const reminderCount = signer.remindersSent || 0
 
     // Final reminder (1 day before expiry)
     if (daysUntilExpiry <= this.config.schedules.final && reminderCount < this.config.maxAttempts) {
@@ -260,10 +273,10 @@ export class AutomatedReminderService {
   /**
    * Check if we've sent a reminder recently
    */
-  private static async hasRecentReminder(agreement: Agreement, reminderType: string): Promise<boolean> {
+  private static async hasRecentReminder(signer: AgreementSigner, reminderType: string): Promise<boolean> {
     // If we have a last reminder date, check if it was recent
-    if (agreement.lastReminderDate) {
-      const hoursSinceLastReminder = (Date.now() - agreement.lastReminderDate.getTime()) / (1000 * 60 * 60)
+    if (signer.lastReminderDate) {
+      const hoursSinceLastReminder = (Date.now() - signer.lastReminderDate.getTime()) / (1000 * 60 * 60)
       
       // Don't send reminders more than once per day
       if (hoursSinceLastReminder < 24) {
@@ -10,6 +10,7 @@ import {
   sendAgreementEmail,
   sendAgreementReminderEmail,
   sendAgreementCompletedEmail,
+  sendAgreementTextNotifications,
   validateEmailDelivery,
   trackEmailDelivery,
   AgreementEmailData,
@@ -17,10 +18,16 @@ import {
 } from './notifications'
 import {
   Agreement,
+  AgreementLanguageType,
+  AgreementSigner,
   CreateAgreementInput,
   TemplateVariableValue,
-  AgreementStatusType
+  AgreementStatusType,
+  SigningOrderType
 } from '@/lib/db/models/agreement'
+import { AdditionalSignerInput, AgreementSignerService } from './signers'
+import { AgreementTemplateService } from './templates'
+import { AGREEMENT_LANGUAGE_NAMES, getTemplateLanguages } from './bilingual'
 import { v4 as uuidv4 } from 'uuid'
 
 export interface SendAgreementRequest {
@@ -28,11 +35,27 @@ export interface SendAgreementRequest {
   prospectName: string
   prospectEmail: string
   prospectPhone?: string
+  prospectLanguage?: AgreementLanguageType // Language of the prospect's emails and signing page
+  notificationChannels?: ('whatsapp' | 'sms')[]
   variableValues: TemplateVariableValue[]
   customMessage?: string
   expirationDays?: number
   ownerName?: string
   ownerEmail?: string
+  roomNumber?: string // Set when the agreement is for a room already held for the prospect
+  leaseStartDate?: Date
+  leaseEndDate?: Date
+  additionalSigners?: AdditionalSignerInput[] // Co-tenants, guarantors and the landlord, who sign besides the prospect
+  signingOrder?: SigningOrderType
+  confirmUnreviewedTemplate?: boolean // Needed to send a template version without a legal review
+  documentLanguages?: AgreementLanguageType[] // Two languages render side by side; defaults to the template's own language
+}
+
+// What the invitation email to each signer carries besides the agreement itself
+interface SigningInvitationOptions {
+  ownerName?: string
+  ownerEmail?: string
+  customMessage?: string
 }
 
 export interface SendAgreementResponse {
@@ -50,9 +73,15 @@ export class AgreementSendingService {
     createdBy: string
   ): Promise<SendAgreementResponse> {
     try {
-      // Validate email
-      if (!await validateEmailDelivery(request.prospectEmail)) {
-        throw new Error('Invalid email address')
+      // Validate emails
+      const signers = AgreementSignerService.buildSigners(
+        { name: request.prospectName, email: request.prospectEmail, phone: request.prospectPhone, language: request.prospectLanguage },
+        request.additionalSigners
+      )
+      for (const signer of signers) {
+        if (!await validateEmailDelivery(signer.email)) {
+          throw new Error('Invalid email address')
+        }
       }
 
       // Get template and property information
@@ -66,6 +95,21 @@ export class AgreementSendingService {
         throw new Error('Property not found')
       }
 
+      // The agreement keeps the wording of the version it is sent with
+      const templateVersion = await AgreementTemplateService.getCurrentVersion(template)
+      if (!templateVersion.legalReviewDate && !request.confirmUnreviewedTemplate) {
+        throw new Error('Template version has not been legally reviewed')
+      }
+
+      // The document can only be in languages the version has wording for
+      const documentLanguages = request.documentLanguages?.length
+        ? Array.from(new Set(request.documentLanguages))
+        : [templateVersion.language]
+      const missingLanguage = documentLanguages.find(language => !getTemplateLanguages(templateVersion).includes(language))
+      if (missingLanguage) {
+        throw new Error(`Template has no ${AGREEMENT_LANGUAGE_NAMES[missingLanguage]} wording`)
+      }
+
       // Calculate expiration date
       const expirationDays = request.expirationDays || 7
       const expirationDate = new Date()
@@ -74,42 +118,39 @@ export class AgreementSendingService {
       // Create agreement record
       const agreementInput: CreateAgreementInput = {
         templateId: request.templateId,
+        templateVersion: templateVersion.version,
+        documentLanguages,
         propertyId: template.propertyId,
         prospectEmail: request.prospectEmail,
         prospectName: request.prospectName,
         prospectPhone: request.prospectPhone,
+        notificationChannels: request.notificationChannels,
+        roomNumber: request.roomNumber,
+        leaseStartDate: request.leaseStartDate,
+        leaseEndDate: request.leaseEndDate,
         status: 'Sent',
         sentDate: new Date(),
         expirationDate,
-        agreementData: {},
+        // Kept so the signed document renders the clauses and computed fields these values select
+        agreementData: Object.fromEntries(request.variableValues.map(variable => [variable.name, variable.value])),
+        signers,
+        signingOrder: request.signingOrder || 'sequential',
         remindersSent: 0,
         tenantCreated: false,
+        tenantIds: [],
         createdBy: 'system'
       }
 
       const agreement = await createAgreement(agreementInput)
 
-      // Generate secure agreement URL
-      const agreementUrl = this.generateSecureAgreementUrl(agreement.id)
-
-      // Prepare email data
-      const emailData: AgreementEmailData = {
-        prospectName: request.prospectName,
-        prospectEmail: request.prospectEmail,
-        propertyName: property.name,
-        propertyAddress: this.formatPropertyAddress(property),
-        agreementUrl,
-        expirationDate,
+      // Invite whoever signs first; the others are invited when their turn comes
+      await this.notifyNextSigners(agreement.id, {
         ownerName: request.ownerName,
         ownerEmail: request.ownerEmail,
         customMessage: request.customMessage
-      }
+      })
 
-      // Send email
-      await sendAgreementEmail(emailData)
-      
-      // Track email delivery
-      await trackEmailDelivery(agreement.id, 'initial')
+      const agreementUrl = AgreementSignerService.getSigningUrl(agreement.id, signers[0])
 
       // Schedule first reminder
       await this.scheduleNextReminder(agreement.id, expirationDate)
@@ -145,20 +186,13 @@ export class AgreementSendingService {
         throw new Error('Template or property not found')
       }
 
-      const agreementUrl = this.generateSecureAgreementUrl(agreement.id)
-
-      const emailData: AgreementEmailData = {
-        prospectName: agreement.prospectName,
-        prospectEmail: agreement.prospectEmail,
-        propertyName: property.name,
-        propertyAddress: this.formatPropertyAddress(property),
-        agreementUrl,
-        expirationDate: agreement.expirationDate,
-        customMessage: 'This is a resent copy of your agreement.'
-      }
-
-      await sendAgreementEmail(emailData)
-      await trackEmailDelivery(agreement.id, 'initial')
+      // Only signers who can sign now get a copy
+      await this.sendSigningInvitations(
+        agreement,
+        property,
+        AgreementSignerService.getAwaitingSigners(agreement),
+        { customMessage: 'This is a resent copy of your agreement.' }
+      )
 
       return true
     } catch (error) {
@@ -201,11 +235,13 @@ export class AgreementSendingService {
       }
 
       const reminderNumber = agreement.remindersSent + 1
-      const agreementUrl = this.generateSecureAgreementUrl(agreement.id)
+      const prospect = AgreementSignerService.getProspectSigner(agreement)
+      const agreementUrl = AgreementSignerService.getSigningUrl(agreement.id, prospect)
 
       const reminderData: ReminderEmailData = {
         prospectName: agreement.prospectName,
         prospectEmail: agreement.prospectEmail,
+        language: prospect.language,
         propertyName: property.name,
         propertyAddress: this.formatPropertyAddress(property),
         agreementUrl,
@@ -215,6 +251,7 @@ export class AgreementSendingService {
       }
 
       await sendAgreementReminderEmail(reminderData)
+      await sendAgreementTextNotifications(agreement, reminderData)
       
       // Update agreement with reminder info
       await updateAgreement({
@@ -233,18 +270,31 @@ export class AgreementSendingService {
     }
   }
 
-  // Mark agreement as viewed (webhook from DocuSign or direct access)
-  static async markAsViewed(agreementId: string): Promise<void> {
+  // Mark agreement as viewed (webhook from DocuSign or direct access), by the prospect unless a signer is given
+  static async markAsViewed(agreementId: string, signerId?: string): Promise<void> {
     try {
       const agreement = await getAgreement(agreementId)
-      if (!agreement || agreement.status !== 'Sent') {
+      if (!agreement || !['Sent', 'Viewed'].includes(agreement.status)) {
+        return
+      }
+
+      const signer = signerId
+        ? AgreementSignerService.findSigner(agreement, signerId)
+        : AgreementSignerService.getProspectSigner(agreement)
+      if (agreement.status === 'Viewed' && signer?.status !== 'Pending') {
         return
       }
 
+      const now = new Date()
       await updateAgreement({
         id: agreementId,
         status: 'Viewed',
-        viewedDate: new Date()
+        viewedDate: agreement.viewedDate || now,
+        ...(signer?.status === 'Pending' && {
+          signers: AgreementSignerService.getSigners(agreement).map(other => other.id === signer.id
+            ? { ...other, status: 'Viewed' as const, viewedDate: now }
+            : other)
+        })
       })
     } catch (error) {
       console.error('Error marking agreement as viewed:', error)
@@ -292,23 +342,27 @@ export class AgreementSendingService {
         completedDate: new Date()
       })
 
-      // Send completion email
+      // Send completion email to every party that signed
       const template = await getAgreementTemplate(agreement.templateId)
       const property = await getProperty(agreement.propertyId)
 
       if (template && property) {
-        const agreementUrl = this.generateSecureAgreementUrl(agreement.id)
-
-        const emailData: AgreementEmailData = {
-          prospectName: agreement.prospectName,
-          prospectEmail: agreement.prospectEmail,
-          propertyName: property.name,
-          propertyAddress: this.formatPropertyAddress(property),
-          agreementUrl,
-          expirationDate: agreement.expirationDate
+        const signers = AgreementSignerService.getSigners(agreement)
+          .filter(signer => signer.status === 'Signed')
+
+        for (const signer of signers) {
+          const emailData: AgreementEmailData = {
+            prospectName: signer.name,
+            prospectEmail: signer.email,
+            propertyName: property.name,
+            propertyAddress: this.formatPropertyAddress(property),
+            agreementUrl: AgreementSignerService.getSigningUrl(agreement.id, signer),
+            expirationDate: agreement.expirationDate,
+            language: signer.language
+          }
+
+          await sendAgreementCompletedEmail(emailData)
         }
-
-        await sendAgreementCompletedEmail(emailData)
         await trackEmailDelivery(agreement.id, 'completed')
       }
     } catch (error) {
@@ -317,6 +371,43 @@ export class AgreementSendingService {
     }
   }
 
+  // Invite signers whose turn has come and who haven't been asked to sign yet
+  static async notifyNextSigners(agreementId: string, options: SigningInvitationOptions = {}): Promise<AgreementSigner[]> {
+    try {
+      const agreement = await getAgreement(agreementId)
+      if (!agreement) {
+        throw new Error('Agreement not found')
+      }
+
+      const signers = AgreementSignerService.getAwaitingSigners(agreement)
+        .filter(signer => !signer.notifiedDate)
+      if (signers.length === 0) {
+        return []
+      }
+
+      const property = await getProperty(agreement.propertyId)
+      if (!property) {
+        throw new Error('Property not found')
+      }
+
+      await this.sendSigningInvitations(agreement, property, signers, options)
+
+      const now = new Date()
+      const invitedIds = signers.map(signer => signer.id)
+      await updateAgreement({
+        id: agreementId,
+        signers: AgreementSignerService.getSigners(agreement).map(signer => invitedIds.includes(signer.id)
+          ? { ...signer, notifiedDate: now }
+          : signer)
+      })
+
+      return signers
+    } catch (error) {
+      console.error('Error notifying next signers:', error)
+      throw error
+    }
+  }
+
   // Get agreements requiring reminders
   static async getAgreementsRequiringReminders(): Promise<Agreement[]> {
     try {
@@ -356,11 +447,34 @@ export class AgreementSendingService {
     return record
   }
 
-  private static generateSecureAgreementUrl(agreementId: string): string {
-    // In production, this would generate a secure, time-limited URL
-    // For now, return a basic URL structure
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
-    return `${baseUrl}/agreements/sign/${agreementId}`
+  // Email each signer their own signing link, and text the prospect if they asked for it
+  private static async sendSigningInvitations(
+    agreement: Agreement,
+    property: any,
+    signers: AgreementSigner[],
+    options: SigningInvitationOptions
+  ): Promise<void> {
+    for (const signer of signers) {
+      const emailData: AgreementEmailData = {
+        prospectName: signer.name,
+        prospectEmail: signer.email,
+        propertyName: property.name,
+        propertyAddress: this.formatPropertyAddress(property),
+        agreementUrl: AgreementSignerService.getSigningUrl(agreement.id, signer),
+        expirationDate: agreement.expirationDate,
+        ownerName: options.ownerName,
+        ownerEmail: options.ownerEmail,
+        customMessage: options.customMessage,
+        language: signer.language
+      }
+
+      await sendAgreementEmail(emailData)
+      if (AgreementSignerService.isProspect(agreement, signer)) {
+        await sendAgreementTextNotifications(agreement, emailData)
+      }
+    }
+
+    await trackEmailDelivery(agreement.id, 'initial')
   }
 
   private static formatPropertyAddress(property: any): string {
@@ -0,0 +1,221 @@
+import crypto from 'crypto'
+import {
+  Agreement,
+  AgreementLanguageType,
+  AgreementSigner,
+  SignerRoleType
+} from '@/lib/db/models/agreement'
+
+export interface AdditionalSignerInput {
+  role: Exclude<SignerRoleType, 'tenant'>
+  name: string
+  email: string
+  phone?: string
+  order?: number // Defaults to after the signers listed before it
+  required?: boolean
+  language?: AgreementLanguageType
+}
+
+// Signer details that are safe to show to the other parties
+export interface PublicSigner {
+  role: SignerRoleType
+  name: string
+  order: number
+  required: boolean
+  status: AgreementSigner['status']
+  signedDate?: Date
+  language?: AgreementLanguageType
+}
+
+export const SIGNER_ROLE_LABELS: Record<SignerRoleType, string> = {
+  tenant: 'Tenant',
+  'co-tenant': 'Co-tenant',
+  guarantor: 'Guarantor',
+  landlord: 'Landlord'
+}
+
+export class AgreementSignerService {
+  /**
+   * Build the signer list for a new agreement, with the prospect signing first
+   * as the tenant and every other party after them unless given an order
+   */
+  static buildSigners(
+    prospect: { name: string; email: string; phone?: string; language?: AgreementLanguageType },
+    additionalSigners: AdditionalSignerInput[] = []
+  ): AgreementSigner[] {
+    const signers: AgreementSigner[] = [
+      {
+        id: crypto.randomUUID(),
+        role: 'tenant',
+        name: prospect.name,
+        email: prospect.email,
+        phone: prospect.phone,
+        order: 1,
+        required: true,
+        status: 'Pending',
+        remindersSent: 0,
+        language: prospect.language
+      },
+      ...additionalSigners.map((signer, index) => ({
+        id: crypto.randomUUID(),
+        role: signer.role,
+        name: signer.name,
+        email: signer.email,
+        phone: signer.phone,
+        order: signer.order ?? index + 2,
+        required: signer.required ?? true,
+        status: 'Pending' as const,
+        remindersSent: 0,
+        language: signer.language
+      }))
+    ]
+
+    const emails = new Set(signers.map(signer => signer.email.toLowerCase()))
+    if (emails.size !== signers.length) {
+      throw new Error('Each signer needs a different email address')
+    }
+
+    return signers.sort((a, b) => a.order - b.order)
+  }
+
+  /**
+   * The agreement's signers. Agreements sent before multi-party signing have
+   * the prospect as their only signer, identified by the agreement ID.
+   */
+  static getSigners(agreement: Agreement): AgreementSigner[] {
+    if (agreement.signers.length > 0) {
+      return agreement.signers
+    }
+
+    const signed = ['Signed', 'Completed'].includes(agreement.status)
+    return [{
+      id: agreement.id,
+      role: 'tenant',
+      name: agreement.prospectName,
+      email: agreement.prospectEmail,
+      phone: agreement.prospectPhone,
+      order: 1,
+      required: true,
+      status: signed ? 'Signed' : agreement.viewedDate ? 'Viewed' : 'Pending',
+      notifiedDate: agreement.sentDate,
+      viewedDate: agreement.viewedDate,
+      signedDate: agreement.signedDate,
+      remindersSent: agreement.remindersSent,
+      lastReminderDate: agreement.lastReminderDate
+    }]
+  }
+
+  /**
+   * Find a signer by the ID in their signing link
+   */
+  static findSigner(agreement: Agreement, signerId: string): AgreementSigner | undefined {
+    return this.getSigners(agreement).find(signer => signer.id === signerId)
+  }
+
+  /**
+   * The tenant signer, i.e. the prospect the agreement was sent to
+   */
+  static getProspectSigner(agreement: Agreement): AgreementSigner {
+    return this.getSigners(agreement).find(signer => signer.role === 'tenant')!
+  }
+
+  /**
+   * Required signers who have to sign before this one can. In sequential
+   * order that is everyone earlier in the order; the landlord always
+   * countersigns after the other parties, whatever the order.
+   */
+  static getBlockingSigners(agreement: Agreement, signer: AgreementSigner): AgreementSigner[] {
+    return this.getSigners(agreement).filter(other =>
+      other.id !== signer.id &&
+      other.required &&
+      other.status !== 'Signed' &&
+      (
+        (agreement.signingOrder === 'sequential' && other.order < signer.order) ||
+        (signer.role === 'landlord' && other.role !== 'landlord')
+      )
+    )
+  }
+
+  /**
+   * Whether the signer can sign the agreement now
+   */
+  static canSign(agreement: Agreement, signer: AgreementSigner): boolean {
+    return ['Sent', 'Viewed'].includes(agreement.status) &&
+      signer.status !== 'Signed' &&
+      this.getBlockingSigners(agreement, signer).length === 0
+  }
+
+  /**
+   * Signers whose turn it is and who haven't signed yet
+   */
+  static getAwaitingSigners(agreement: Agreement): AgreementSigner[] {
+    return this.getSigners(agreement).filter(signer => this.canSign(agreement, signer))
+  }
+
+  /**
+   * Whether every required party has signed
+   */
+  static isFullySigned(signers: AgreementSigner[]): boolean {
+    return signers.every(signer => !signer.required || signer.status === 'Signed')
+  }
+
+  /**
+   * The signer's personal signing link. Signers don't log in, so the link
+   * carries a token signed for them.
+   */
+  static getSigningUrl(agreementId: string, signer: AgreementSigner): string {
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+    return `${baseUrl}/agreements/sign/${agreementId}?signer=${signer.id}&token=${this.getSigningToken(agreementId, signer.id)}`
+  }
+
+  static getSigningToken(agreementId: string, signerId: string): string {
+    const secret = this.getSigningSecret()
+    if (!secret) {
+      throw new Error('AGREEMENT_SIGNING_SECRET must be set to send signing links')
+    }
+    return crypto.createHmac('sha256', secret).update(`agreement-signer:${agreementId}:${signerId}`).digest('hex')
+  }
+
+  static verifySigningToken(agreementId: string, signerId: string, token?: string): boolean {
+    if (!this.getSigningSecret()) {
+      return false
+    }
+    const expected = Buffer.from(this.getSigningToken(agreementId, signerId))
+    const given = Buffer.from(token || '')
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected)
+  }
+
+  /**
+   * Links signed with the development fallback could be forged by anyone, so
+   * in production there is no secret until one is configured
+   */
+  private static getSigningSecret(): string | null {
+    const secret = process.env.AGREEMENT_SIGNING_SECRET
+    if (!secret) {
+      return process.env.NODE_ENV === 'production' ? null : 'default-secret-change-in-production'
+    }
+    return secret
+  }
+
+  /**
+   * Whether the signer is the prospect the agreement was sent to
+   */
+  static isProspect(agreement: Agreement, signer: AgreementSigner): boolean {
+    return signer.role === 'tenant' && signer.email === agreement.prospectEmail
+  }
+
+  /**
+   * Signer IDs double as signing links, so only these details are shared
+   */
+  static toPublicSigner(signer: AgreementSigner): PublicSigner {
+    return {
+      role: signer.role,
+      name: signer.name,
+      order: signer.order,
+      required: signer.required,
+      status: signer.status,
+      signedDate: signer.signedDate,
+      language: signer.language
+    }
+  }
+}
@@ -0,0 +1,349 @@
+import crypto from 'crypto'
+import {
+  Agreement,
+  AgreementLanguageType,
+  AgreementTemplate,
+  AgreementTemplateVersion,
+  SignatureAudit,
+  SignerRoleType
+} from '@/lib/db/models/agreement'
+import {
+  acquireAgreementSigningLock,
+  getAgreement,
+  getAgreementTemplate,
+  getAgreementTemplateVersion,
+  populateTemplateContent,
+  releaseAgreementSigningLock,
+  updateAgreement
+} from '@/lib/db/operations/agreements'
+import { AgreementPdfService, CertificateSignature } from './pdf'
+import { AgreementSignerService, SIGNER_ROLE_LABELS } from './signers'
+import { DocumentStorageService } from './storage'
+import { TemplateWording, getTemplateLanguages } from './bilingual'
+
+export interface NativeSignatureRequest {
+  method: 'drawn' | 'typed'
+  signatureImage?: string // PNG data URL of a drawn signature
+  typedName?: string
+  consent: boolean
+  signerId: string
+  token?: string // From the signer's signing link
+}
+
+export interface SigningContext {
+  ipAddress?: string
+  userAgent?: string
+}
+
+// The agreement in one language, for reading on the signing page
+export interface AgreementTranslation {
+  language: AgreementLanguageType
+  content: string
+}
+
+// Shown next to the consent checkbox and recorded on the certificate
+export const ELECTRONIC_SIGNATURE_CONSENT =
+  'I agree to sign this agreement electronically and that my electronic signature is the legal equivalent of my handwritten signature.'
+
+// Largest drawn signature accepted, in bytes of PNG
+const MAX_SIGNATURE_IMAGE_SIZE = 512 * 1024
+
+// Signing an agreement holds its lock for at most this long, and waits this long for another signing to finish
+const SIGNING_LOCK_TTL_MS = 60 * 1000
+const SIGNING_LOCK_WAIT_MS = 10 * 1000
+const SIGNING_LOCK_RETRY_MS = 100
+
+// Document title and signature labels in each language the document can be in
+const DOCUMENT_TITLES: Record<AgreementLanguageType, string> = {
+  en: 'Lease Agreement',
+  vi: 'Hợp đồng thuê nhà'
+}
+
+const SIGNATURE_LABELS: Record<AgreementLanguageType, Record<SignerRoleType, string>> = {
+  en: {
+    tenant: 'Tenant signature',
+    'co-tenant': 'Co-tenant signature',
+    guarantor: 'Guarantor signature',
+    landlord: 'Landlord signature'
+  },
+  vi: {
+    tenant: 'Chữ ký bên thuê',
+    'co-tenant': 'Chữ ký bên cùng thuê',
+    guarantor: 'Chữ ký người bảo lãnh',
+    landlord: 'Chữ ký bên cho thuê'
+  }
+}
+
+export class AgreementSigningService {
+  /**
+   * The agreement text with the values it was sent with filled in, in the
+   * wording of the template version it was sent with. Bilingual agreements
+   * give their first language unless another is asked for.
+   */
+  static async getPopulatedContent(agreement: Agreement, language?: AgreementLanguageType): Promise<string> {
+    const template = await this.getTemplateWording(agreement)
+    return this.populate(agreement, template, language || this.getDocumentLanguages(agreement, template)[0])
+  }
+
+  /**
+   * The languages of the agreement document, side by side when there are
+   * two. Agreements sent before bilingual templates are in the template's
+   * own language.
+   */
+  static getDocumentLanguages(agreement: Agreement, template: TemplateWording): AgreementLanguageType[] {
+    return agreement.documentLanguages?.length ? agreement.documentLanguages : [template.language]
+  }
+
+  /**
+   * The agreement in every language its template version is written in, the
+   * document's languages first. Signers can read it in the language they
+   * prefer, while only the document languages are signed.
+   */
+  static async getTranslations(agreement: Agreement): Promise<{
+    documentLanguages: AgreementLanguageType[]
+    translations: AgreementTranslation[]
+  }> {
+    const template = await this.getTemplateWording(agreement)
+    const documentLanguages = this.getDocumentLanguages(agreement, template)
+    const languages = Array.from(new Set([...documentLanguages, ...getTemplateLanguages(template)]))
+
+    const translations = await Promise.all(languages.map(async language => ({
+      language,
+      content: await this.populate(agreement, template, language)
+    })))
+
+    return { documentLanguages, translations }
+  }
+
+  /**
+   * Sign an agreement without DocuSign, as one of its signers. The agreement
+   * is rendered to a PDF and hashed as the signers saw it, then the signature
+   * is stamped onto the copy holding the earlier signatures and a certificate
+   * records each signer's consent, time, IP address and browser. The result
+   * is stored as the signed document, and the agreement is marked signed once
+   * every required party has signed. Signers of the same agreement sign one
+   * at a time, so each stamps the copy holding every earlier signature.
+   */
+  static async signAgreement(
+    agreementId: string,
+    request: NativeSignatureRequest,
+    context: SigningContext = {},
+    now: Date = new Date()
+  ): Promise<Agreement> {
+    const owner = await this.acquireSigningLock(agreementId)
+    try {
+      return await this.sign(agreementId, request, context, now)
+    } finally {
+      await releaseAgreementSigningLock(agreementId, owner)
+    }
+  }
+
+  private static async acquireSigningLock(agreementId: string): Promise<string> {
+    const deadline = Date.now() + SIGNING_LOCK_WAIT_MS
+
+    for (;;) {
+      const owner = await acquireAgreementSigningLock(agreementId, SIGNING_LOCK_TTL_MS)
+      if (owner) {
+        return owner
+      }
+      if (Date.now() >= deadline) {
+        throw new Error('Agreement is being signed by another signer, please try again')
+      }
+      await new Promise(resolve => setTimeout(resolve, SIGNING_LOCK_RETRY_MS))
+    }
+  }
+
+  // Read the agreement only once holding its lock, so the signers and signed copy are current
+  private static async sign(
+    agreementId: string,
+    request: NativeSignatureRequest,
+    context: SigningContext,
+    now: Date
+  ): Promise<Agreement> {
+    const agreement = await getAgreement(agreementId)
+    if (!agreement) {
+      throw new Error('Agreement not found')
+    }
+
+    if (now > agreement.expirationDate) {
+      throw new Error('Agreement has expired')
+    }
+
+    if (!['Sent', 'Viewed'].includes(agreement.status)) {
+      throw new Error('Agreement is not available for signing')
+    }
+
+    const signer = AgreementSignerService.findSigner(agreement, request.signerId)
+    if (!signer) {
+      throw new Error('Signer not found')
+    }
+
+    if (!AgreementSignerService.verifySigningToken(agreement.id, signer.id, request.token)) {
+      throw new Error('Invalid signing link')
+    }
+
+    if (signer.status === 'Signed') {
+      throw new Error('Signer has already signed')
+    }
+
+    const blocking = AgreementSignerService.getBlockingSigners(agreement, signer)
+    if (blocking.length > 0) {
+      throw new Error(`Waiting for ${blocking.map(other => other.name).join(', ')} to sign first`)
+    }
+
+    if (!request.consent) {
+      throw new Error('Consent to sign electronically is required')
+    }
+
+    const image = request.method === 'drawn' ? this.decodeSignatureImage(request.signatureImage) : undefined
+    const typedName = request.typedName?.trim()
+    if (request.method === 'typed' && !typedName) {
+      throw new Error('Typed signature name is required')
+    }
+
+    const signers = AgreementSignerService.getSigners(agreement)
+    const template = await this.getTemplateWording(agreement)
+    const languages = this.getDocumentLanguages(agreement, template)
+    const documentTitle = languages.map(language => DOCUMENT_TITLES[language]).join(' / ')
+    const title = agreement.property
+      ? `${documentTitle} - ${agreement.property.name}`
+      : documentTitle
+    const contents = await Promise.all(languages.map(language => this.populate(agreement, template, language)))
+
+    const rendered = await AgreementPdfService.renderAgreement(
+      title,
+      contents.length === 1 ? contents[0] : contents,
+      agreement.sentDate,
+      signers.map(other => `${languages.map(language => SIGNATURE_LABELS[language][other.role]).join(' / ')}: ${other.name}`)
+    )
+    const documentHash = sha256(rendered.bytes)
+
+    // Later signers sign the copy that already carries the earlier signatures
+    const base = agreement.signedDocumentId
+      ? await AgreementPdfService.removeCertificate(
+        new Uint8Array((await DocumentStorageService.retrieveDocument(agreement.signedDocumentId)).buffer),
+        rendered.pageCount
+      )
+      : rendered.bytes
+
+    const stamped = await AgreementPdfService.stampSignature(
+      base,
+      rendered.signatureBoxes[signers.findIndex(other => other.id === signer.id)],
+      {
+        method: request.method,
+        image,
+        typedName,
+        signerName: signer.name,
+        signedAt: now
+      }
+    )
+
+    const signatures: CertificateSignature[] = signers
+      .filter(other => other.signatureAudit)
+      .map(other => ({
+        role: SIGNER_ROLE_LABELS[other.role],
+        signerName: other.name,
+        signerEmail: other.email,
+        method: other.signatureAudit!.method,
+        viewedDate: other.viewedDate,
+        signedAt: other.signatureAudit!.signedAt,
+        ipAddress: other.signatureAudit!.ipAddress,
+        userAgent: other.signatureAudit!.userAgent
+      }))
+
+    const signed = await AgreementPdfService.appendCertificate(stamped, {
+      agreementId: agreement.id,
+      documentHash,
+      consentText: ELECTRONIC_SIGNATURE_CONSENT,
+      sentDate: agreement.sentDate,
+      signatures: [...signatures, {
+        role: SIGNER_ROLE_LABELS[signer.role],
+        signerName: signer.name,
+        signerEmail: signer.email,
+        method: request.method,
+        viewedDate: signer.viewedDate,
+        signedAt: now,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      }]
+    })
+
+    const documentBuffer = Buffer.from(signed)
+    const storedDocument = await DocumentStorageService.storeSignedDocument(agreement.id, {
+      documentBuffer,
+      signedBy: signer.email,
+      documentHash
+    })
+
+    const signatureAudit: SignatureAudit = {
+      method: request.method,
+      signerName: signer.name,
+      signerEmail: signer.email,
+      signedAt: now,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      consentText: ELECTRONIC_SIGNATURE_CONSENT,
+      documentHash,
+      signedDocumentHash: storedDocument.checksum,
+      signedDocumentId: storedDocument.id
+    }
+
+    const updatedSigners = signers.map(other => other.id === signer.id
+      ? { ...other, status: 'Signed' as const, signedDate: now, signatureAudit }
+      : other)
+
+    const updated = await updateAgreement({
+      id: agreement.id,
+      signers: updatedSigners,
+      signedDocumentId: storedDocument.id,
+      ...(AgreementSignerService.isFullySigned(updatedSigners) && {
+        status: 'Signed' as const,
+        signedDate: now
+      })
+    })
+
+    return updated!
+  }
+
+  private static async getTemplateWording(agreement: Agreement): Promise<AgreementTemplate | AgreementTemplateVersion> {
+    const template = agreement.templateVersion
+      ? await getAgreementTemplateVersion(agreement.templateId, agreement.templateVersion)
+      : await getAgreementTemplate(agreement.templateId)
+    if (!template) {
+      throw new Error('Template not found')
+    }
+    return template
+  }
+
+  private static async populate(
+    agreement: Agreement,
+    template: AgreementTemplate | AgreementTemplateVersion,
+    language: AgreementLanguageType
+  ): Promise<string> {
+    const variableValues = Object.entries(agreement.agreementData || {}).map(([name, value]) => ({
+      variableId: template.variables.find(v => v.name === name)?.id || '',
+      name,
+      value
+    }))
+
+    return populateTemplateContent(agreement.templateId, variableValues, agreement.templateVersion, language)
+  }
+
+  private static decodeSignatureImage(dataUrl?: string): Uint8Array {
+    const match = dataUrl?.match(/^data:image\/png;base64,([A-Za-z0-9+/=]+)$/)
+    if (!match) {
+      throw new Error('Drawn signature must be a PNG image')
+    }
+
+    const image = Buffer.from(match[1], 'base64')
+    if (image.length > MAX_SIGNATURE_IMAGE_SIZE) {
+      throw new Error('Drawn signature image is too large')
+    }
+
+    return new Uint8Array(image)
+  }
+}
+
+function sha256(bytes: Uint8Array): string {
+  return crypto.createHash('sha256').update(bytes).digest('hex')
+}
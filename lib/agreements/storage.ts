@@ -25,45 +25,65 @@ export interface StoredDocument {
     docusignDocumentId?: string
     originalFileName?: string
     uploadedBy?: string
+    signedBy?: string
+    documentHash?: string // SHA-256 of the document as it was before signing
   }
 }
 
+// Where a signed document comes from: a DocuSign envelope, or a PDF signed in the app
+export type SignedDocumentSource =
+  | { docusignEnvelopeId: string; docusignDocumentId?: string }
+  | { documentBuffer: Buffer; signedBy: string; documentHash: string }
+
 export class DocumentStorageService {
   /**
-   * Store a signed document from DocuSign
+   * Store a signed document from DocuSign or the built-in signing flow
    */
   static async storeSignedDocument(
     agreementId: string,
-    docusignEnvelopeId: string,
-    docusignDocumentId: string = '1'
+    source: SignedDocumentSource
   ): Promise<StoredDocument> {
     try {
-      // Download document from DocuSign
-      // TODO: Implement downloadSignedDocument method in DocuSignService
-      const documentBuffer = Buffer.from('placeholder document content')
-
-      // Generate file metadata
       const fileName = `agreement-${agreementId}-signed.pdf`
-      const checksum = crypto.createHash('sha256').update(documentBuffer).digest('hex')
-      
-      // Store document
-      const storedDoc = await this.storeDocument(
-        agreementId,
-        fileName,
-        documentBuffer,
-        'application/pdf',
-        {
-          docusignEnvelopeId,
-          docusignDocumentId,
-          originalFileName: fileName
-        },
-        'docusign'
-      )
+      let storedDoc: StoredDocument
+
+      if ('documentBuffer' in source) {
+        storedDoc = await this.storeDocument(
+          agreementId,
+          fileName,
+          source.documentBuffer,
+          'application/pdf',
+          {
+            originalFileName: fileName,
+            signedBy: source.signedBy,
+            documentHash: source.documentHash
+          },
+          'generated'
+        )
+      } else {
+        // Download document from DocuSign
+        // TODO: Implement downloadSignedDocument method in DocuSignService
+        const documentBuffer = Buffer.from('placeholder document content')
+
+        storedDoc = await this.storeDocument(
+          agreementId,
+          fileName,
+          documentBuffer,
+          'application/pdf',
+          {
+            docusignEnvelopeId: source.docusignEnvelopeId,
+            docusignDocumentId: source.docusignDocumentId || '1',
+            originalFileName: fileName
+          },
+          'docusign'
+        )
+      }
 
       // Update agreement with stored document reference
+      const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
       await updateAgreement({
         id: agreementId,
-        signedDocumentUrl: storedDoc.filePath
+        signedDocumentUrl: `${baseUrl}/api/agreements/${agreementId}/document`
       })
 
       return storedDoc
@@ -0,0 +1,630 @@
+import { escapeHtml, formatCurrency, formatDate } from '@/lib/utils'
+import { TemplateVariable, TemplateVariableValue } from '@/lib/db/models/agreement'
+
+/*
+ * The agreement template language. Besides {{variable}} substitution,
+ * templates can hold:
+ *
+ *   {{#if allow_pets}} ... {{else}} ... {{/if}}   (and {{#unless ...}})
+ *   {{#each house_rules}}{{@number}}. {{this}}{{/each}}
+ *   {{currency(monthly_rent * lease_months, 'VND')}}
+ *   {{raw(clause_html)}}
+ *
+ * Output is HTML-escaped, since the sign page renders agreements as HTML;
+ * raw() is the only way to insert a value as markup.
+ *
+ * Expressions support numbers, 'strings', true/false, + - * /, comparisons
+ * (== != > >= < <=), and/or/not, and the helper functions below. Computed
+ * fields are template variables of type 'computed' whose formula is such an
+ * expression, e.g. months_between(lease_start_date, lease_end_date).
+ */
+
+// Values available to every template, filled in from the property
+export const BUILT_IN_TEMPLATE_VARIABLES = ['house_rules'] as const
+
+export type TemplateValue = string | number | boolean | Date | TemplateValue[] | undefined | null
+
+export interface TemplateRenderOptions {
+  currency?: string // Used by currency() when the template doesn't name one, normally the property's
+}
+
+type Expression =
+  | { type: 'literal'; value: TemplateValue }
+  | { type: 'identifier'; name: string }
+  | { type: 'call'; name: string; args: Expression[] }
+  | { type: 'unary'; operator: '-' | 'not'; operand: Expression }
+  | { type: 'binary'; operator: string; left: Expression; right: Expression }
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'output'; expression: Expression; source: string }
+  | { type: 'if'; expression: Expression; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; expression: Expression; body: TemplateNode[] }
+
+// Names bound inside {{#each}} blocks
+const LOOP_VARIABLES = ['this', '@index', '@number']
+
+type Lookup = (name: string) => TemplateValue
+
+const HELPERS: Record<string, {
+  args: [number, number]
+  apply: (args: TemplateValue[], options: TemplateRenderOptions) => TemplateValue
+}> = {
+  currency: {
+    args: [1, 2],
+    apply: ([amount, currency], options) => {
+      const value = toNumber(amount)
+      return value === undefined ? undefined : formatCurrency(value, currency ? String(currency).toUpperCase() : options.currency)
+    }
+  },
+  number: {
+    args: [1, 2],
+    apply: ([amount, digits]) => {
+      const value = toNumber(amount)
+      return value === undefined ? undefined : value.toLocaleString('en-US', { maximumFractionDigits: toNumber(digits) ?? 2 })
+    }
+  },
+  date: {
+    args: [1, 1],
+    apply: ([value]) => {
+      const date = toDate(value)
+      return date ? formatDate(date) : undefined
+    }
+  },
+  months_between: {
+    args: [2, 2],
+    apply: ([start, end]) => {
+      const from = toDate(start)
+      const to = toDate(end)
+      return from && to ? monthsBetween(from, to) : undefined
+    }
+  },
+  days_between: {
+    args: [2, 2],
+    apply: ([start, end]) => {
+      const from = toDate(start)
+      const to = toDate(end)
+      return from && to ? Math.round((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000)) : undefined
+    }
+  },
+  round: {
+    args: [1, 2],
+    apply: ([amount, digits]) => {
+      const value = toNumber(amount)
+      const factor = Math.pow(10, toNumber(digits) ?? 0)
+      return value === undefined ? undefined : Math.round(value * factor) / factor
+    }
+  },
+  min: {
+    args: [2, 2],
+    apply: ([a, b]) => numeric(a, b, Math.min)
+  },
+  max: {
+    args: [2, 2],
+    apply: ([a, b]) => numeric(a, b, Math.max)
+  },
+  upper: {
+    args: [1, 1],
+    apply: ([value]) => isBlank(value) ? undefined : toText(value).toUpperCase()
+  },
+  lower: {
+    args: [1, 1],
+    apply: ([value]) => isBlank(value) ? undefined : toText(value).toLowerCase()
+  },
+  // Inserts the value as markup rather than text, for template authors who need it
+  raw: {
+    args: [1, 1],
+    apply: ([value]) => value
+  }
+}
+
+export class AgreementTemplateRenderer {
+  /**
+   * Render template content with the values an agreement was sent with.
+   * Variables without a value are left as {{placeholders}}, as they always were.
+   * Number variables must hold plain numbers such as 5000000 or 1200.50.
+   */
+  static render(
+    content: string,
+    variables: TemplateVariable[],
+    variableValues: TemplateVariableValue[],
+    builtIns: Partial<Record<typeof BUILT_IN_TEMPLATE_VARIABLES[number], TemplateValue>> = {},
+    options: TemplateRenderOptions = {}
+  ): string {
+    const nodes = parseTemplate(content)
+    const values = new Map<string, TemplateValue>(Object.entries(builtIns))
+    variableValues.forEach(variable => values.set(variable.name, variable.value))
+
+    // Separators mean different things in different locales, so "5.000.000" isn't guessed at
+    const numberNames = new Set(variables.filter(variable => variable.type === 'number').map(variable => variable.name))
+    variableValues.forEach(variable => {
+      if (numberNames.has(variable.name) && !isBlank(variable.value) && toNumber(variable.value) === undefined) {
+        throw new Error(`${variable.name} must be a plain number without separators, e.g. 5000000, not "${variable.value}"`)
+      }
+    })
+
+    const computed = new Map(
+      variables
+        .filter(variable => variable.type === 'computed' && variable.formula)
+        .map(variable => [variable.name, parseExpression(variable.formula!)])
+    )
+
+    // Computed fields are worked out when first used, so they can build on each other
+    const evaluating = new Set<string>()
+    const lookup: Lookup = name => {
+      if (values.has(name) || !computed.has(name)) {
+        return values.get(name)
+      }
+      if (evaluating.has(name)) {
+        throw new Error(`Computed field ${name} refers to itself`)
+      }
+
+      evaluating.add(name)
+      const value = evaluate(computed.get(name)!, lookup, options)
+      evaluating.delete(name)
+      values.set(name, value)
+      return value
+    }
+
+    return renderNodes(nodes, lookup, options)
+  }
+
+  /**
+   * Everything wrong with a template, for its author: syntax errors, unknown
+   * functions, variables that aren't defined and computed fields that can't be
+   * worked out. Empty when the template is valid.
+   */
+  static validate(content: string, variables: TemplateVariable[]): string[] {
+    const errors: string[] = []
+    const defined = new Set<string>([...variables.map(v => v.name), ...BUILT_IN_TEMPLATE_VARIABLES])
+
+    let nodes: TemplateNode[]
+    try {
+      nodes = parseTemplate(content)
+    } catch (error) {
+      return [error instanceof Error ? error.message : 'Invalid template']
+    }
+
+    const contentReferences = collectNodeReferences(nodes, false)
+    const undefinedInContent = contentReferences.identifiers.filter(name => !defined.has(name))
+    if (undefinedInContent.length > 0) {
+      errors.push(`Template content references undefined variables: ${undefinedInContent.join(', ')}`)
+    }
+    errors.push(...contentReferences.errors)
+
+    const formulas = new Map<string, Expression>()
+    variables.filter(variable => variable.type === 'computed').forEach(variable => {
+      if (!variable.formula?.trim()) {
+        errors.push(`Computed field ${variable.name} needs a formula`)
+        return
+      }
+
+      try {
+        const expression = parseExpression(variable.formula)
+        const references = collectExpressionReferences(expression)
+        const undefinedInFormula = references.identifiers.filter(name => !defined.has(name))
+        if (undefinedInFormula.length > 0) {
+          errors.push(`Computed field ${variable.name} references undefined variables: ${undefinedInFormula.join(', ')}`)
+        }
+        errors.push(...references.errors.map(error => `Computed field ${variable.name}: ${error}`))
+        formulas.set(variable.name, expression)
+      } catch (error) {
+        errors.push(`Computed field ${variable.name}: ${error instanceof Error ? error.message : 'invalid formula'}`)
+      }
+    })
+
+    // A computed field can't depend on itself, directly or through others
+    const visit = (name: string, path: string[]): string | undefined => {
+      if (path.includes(name)) {
+        return [...path.slice(path.indexOf(name)), name].join(' → ')
+      }
+      const expression = formulas.get(name)
+      if (!expression) {
+        return undefined
+      }
+      for (const reference of collectExpressionReferences(expression).identifiers) {
+        const cycle = visit(reference, [...path, name])
+        if (cycle) {
+          return cycle
+        }
+      }
+      return undefined
+    }
+    for (const name of Array.from(formulas.keys())) {
+      const cycle = visit(name, [])
+      if (cycle) {
+        errors.push(`Computed fields refer to each other in a loop: ${cycle}`)
+        break
+      }
+    }
+
+    return errors
+  }
+
+  /**
+   * Names of the variables, computed fields and built-ins a template uses
+   */
+  static getReferencedVariables(content: string): string[] {
+    return collectNodeReferences(parseTemplate(content), false).identifiers
+  }
+}
+
+// ===== PARSING =====
+
+const TAG_PATTERN = /\{\{\s*([\s\S]*?)\s*\}\}/g
+
+function parseTemplate(content: string): TemplateNode[] {
+  const root: TemplateNode[] = []
+  // Open blocks, innermost last, with the list new nodes currently go into
+  const stack: { node: Extract<TemplateNode, { type: 'if' | 'each' }>; keyword: string; target: TemplateNode[] }[] = []
+  const current = () => stack.length > 0 ? stack[stack.length - 1].target : root
+
+  let position = 0
+  let match: RegExpExecArray | null
+  TAG_PATTERN.lastIndex = 0
+  while ((match = TAG_PATTERN.exec(content)) !== null) {
+    if (match.index > position) {
+      current().push({ type: 'text', text: content.slice(position, match.index) })
+    }
+    position = match.index + match[0].length
+
+    const tag = match[1]
+    const block = /^#(if|unless|each)\s+([\s\S]+)$/.exec(tag)
+    if (block) {
+      const [, keyword, source] = block
+      const node: Extract<TemplateNode, { type: 'if' | 'each' }> = keyword === 'each'
+        ? { type: 'each', expression: parseExpression(source), body: [] }
+        : { type: 'if', expression: parseExpression(source), negate: keyword === 'unless', then: [], otherwise: [] }
+      current().push(node)
+      stack.push({ node, keyword, target: node.type === 'each' ? node.body : node.then })
+    } else if (/^#(if|unless|each)$/.test(tag)) {
+      throw new Error(`{{${tag}}} needs a condition or list`)
+    } else if (tag === 'else') {
+      const open = stack[stack.length - 1]
+      if (!open || open.node.type !== 'if' || open.target === open.node.otherwise) {
+        throw new Error('{{else}} outside an {{#if}} or {{#unless}} block')
+      }
+      open.target = open.node.otherwise
+    } else if (tag.startsWith('/')) {
+      const keyword = tag.slice(1).trim()
+      const open = stack.pop()
+      if (!open) {
+        throw new Error(`{{/${keyword}}} without a matching {{#${keyword}}}`)
+      }
+      if (open.keyword !== keyword) {
+        throw new Error(`{{#${open.keyword}}} is closed by {{/${keyword}}}`)
+      }
+    } else {
+      current().push({ type: 'output', expression: parseExpression(tag), source: match[0] })
+    }
+  }
+
+  if (position < content.length) {
+    current().push({ type: 'text', text: content.slice(position) })
+  }
+  if (stack.length > 0) {
+    throw new Error(`{{#${stack[stack.length - 1].keyword}}} is never closed`)
+  }
+
+  return root
+}
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'name'; value: string }
+  | { type: 'operator'; value: string }
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  const pattern = /\s*(?:(\d+(?:\.\d+)?)|'([^']*)'|"([^"]*)"|(@?[a-zA-Z_][a-zA-Z0-9_]*)|(==|!=|>=|<=|[-+*/()<>,]))/y
+
+  let position = 0
+  while (position < source.length) {
+    if (/^\s*$/.test(source.slice(position))) {
+      break
+    }
+
+    pattern.lastIndex = position
+    const match = pattern.exec(source)
+    if (!match) {
+      throw new Error(`Can't read "${source.slice(position).trim()}" in "${source}"`)
+    }
+    position = pattern.lastIndex
+
+    if (match[1] !== undefined) tokens.push({ type: 'number', value: parseFloat(match[1]) })
+    else if (match[2] !== undefined) tokens.push({ type: 'string', value: match[2] })
+    else if (match[3] !== undefined) tokens.push({ type: 'string', value: match[3] })
+    else if (match[4] !== undefined) tokens.push({ type: 'name', value: match[4] })
+    else tokens.push({ type: 'operator', value: match[5] })
+  }
+
+  return tokens
+}
+
+// Recursive descent, loosest binding first: or, and, comparison, + -, * /, unary
+function parseExpression(source: string): Expression {
+  const tokens = tokenize(source)
+  let index = 0
+
+  const peek = () => tokens[index]
+  const isOperator = (...values: string[]) => {
+    const token = peek()
+    return token !== undefined && (token.type === 'operator' || token.type === 'name') && values.includes(token.value)
+  }
+  const expect = (value: string) => {
+    if (!isOperator(value)) {
+      throw new Error(`Expected "${value}" in "${source}"`)
+    }
+    index++
+  }
+
+  const binary = (operators: string[], next: () => Expression) => (): Expression => {
+    let left = next()
+    while (isOperator(...operators)) {
+      const operator = tokens[index++].value as string
+      left = { type: 'binary', operator, left, right: next() }
+    }
+    return left
+  }
+
+  const primary = (): Expression => {
+    const token = tokens[index++]
+    if (!token) {
+      throw new Error(`Unexpected end of "${source}"`)
+    }
+
+    if (token.type === 'number' || token.type === 'string') {
+      return { type: 'literal', value: token.value }
+    }
+    if (token.type === 'operator' && token.value === '(') {
+      const inner = or()
+      expect(')')
+      return inner
+    }
+    if (token.type === 'operator' && token.value === '-') {
+      return { type: 'unary', operator: '-', operand: primary() }
+    }
+    if (token.type === 'name') {
+      if (token.value === 'true' || token.value === 'false') {
+        return { type: 'literal', value: token.value === 'true' }
+      }
+      if (token.value === 'not') {
+        return { type: 'unary', operator: 'not', operand: comparison() }
+      }
+      if (isOperator('(')) {
+        index++
+        const args: Expression[] = []
+        if (!isOperator(')')) {
+          args.push(or())
+          while (isOperator(',')) {
+            index++
+            args.push(or())
+          }
+        }
+        expect(')')
+        return { type: 'call', name: token.value, args }
+      }
+      return { type: 'identifier', name: token.value }
+    }
+
+    throw new Error(`Unexpected "${token.value}" in "${source}"`)
+  }
+
+  const multiplicative = binary(['*', '/'], primary)
+  const additive = binary(['+', '-'], multiplicative)
+  const comparison = binary(['==', '!=', '>', '>=', '<', '<='], additive)
+  const and = binary(['and'], comparison)
+  const or = binary(['or'], and)
+
+  const expression = or()
+  if (index < tokens.length) {
+    throw new Error(`Unexpected "${tokens[index].value}" in "${source}"`)
+  }
+  return expression
+}
+
+// ===== EVALUATION =====
+
+function renderNodes(nodes: TemplateNode[], lookup: Lookup, options: TemplateRenderOptions): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.text
+      case 'output': {
+        // A plain variable with no value keeps its placeholder
+        if (node.expression.type === 'identifier' && isBlank(lookup(node.expression.name))) {
+          return node.source
+        }
+        const value = evaluate(node.expression, lookup, options)
+        const text = isBlank(value) ? '' : toText(value)
+        return node.expression.type === 'call' && node.expression.name === 'raw' ? text : escapeHtml(text)
+      }
+      case 'if':
+        return isTruthy(evaluate(node.expression, lookup, options)) !== node.negate
+          ? renderNodes(node.then, lookup, options)
+          : renderNodes(node.otherwise, lookup, options)
+      case 'each': {
+        const items = evaluate(node.expression, lookup, options)
+        const list = Array.isArray(items) ? items : isBlank(items) ? [] : [items]
+        return list.map((item, itemIndex) => renderNodes(node.body, name => {
+          if (name === 'this') return item
+          if (name === '@index') return itemIndex
+          if (name === '@number') return itemIndex + 1
+          return lookup(name)
+        }, options)).join('')
+      }
+    }
+  }).join('')
+}
+
+function evaluate(expression: Expression, lookup: Lookup, options: TemplateRenderOptions): TemplateValue {
+  switch (expression.type) {
+    case 'literal':
+      return expression.value
+    case 'identifier':
+      return lookup(expression.name)
+    case 'call': {
+      const helper = HELPERS[expression.name]
+      if (!helper) {
+        throw new Error(`Unknown function ${expression.name}()`)
+      }
+      return helper.apply(expression.args.map(arg => evaluate(arg, lookup, options)), options)
+    }
+    case 'unary': {
+      const operand = evaluate(expression.operand, lookup, options)
+      if (expression.operator === 'not') {
+        return !isTruthy(operand)
+      }
+      const value = toNumber(operand)
+      return value === undefined ? undefined : -value
+    }
+    case 'binary': {
+      const left = evaluate(expression.left, lookup, options)
+      if (expression.operator === 'and') return isTruthy(left) && isTruthy(evaluate(expression.right, lookup, options))
+      if (expression.operator === 'or') return isTruthy(left) || isTruthy(evaluate(expression.right, lookup, options))
+
+      const right = evaluate(expression.right, lookup, options)
+      switch (expression.operator) {
+        case '+': return numeric(left, right, (a, b) => a + b)
+        case '-': return numeric(left, right, (a, b) => a - b)
+        case '*': return numeric(left, right, (a, b) => a * b)
+        case '/': return numeric(left, right, (a, b) => b === 0 ? NaN : a / b)
+        default: return compare(expression.operator, left, right)
+      }
+    }
+  }
+}
+
+function collectNodeReferences(nodes: TemplateNode[], inLoop: boolean): { identifiers: string[]; errors: string[] } {
+  const identifiers = new Set<string>()
+  const errors = new Set<string>()
+  const add = (references: { identifiers: string[]; errors: string[] }, allowLoopVariables: boolean) => {
+    references.identifiers
+      .filter(name => !(allowLoopVariables && LOOP_VARIABLES.includes(name)))
+      .forEach(name => identifiers.add(name))
+    references.errors.forEach(error => errors.add(error))
+  }
+
+  nodes.forEach(node => {
+    if (node.type === 'output') {
+      add(collectExpressionReferences(node.expression), inLoop)
+    } else if (node.type === 'if') {
+      add(collectExpressionReferences(node.expression), inLoop)
+      add(collectNodeReferences(node.then, inLoop), inLoop)
+      add(collectNodeReferences(node.otherwise, inLoop), inLoop)
+    } else if (node.type === 'each') {
+      add(collectExpressionReferences(node.expression), inLoop)
+      add(collectNodeReferences(node.body, true), true)
+    }
+  })
+
+  return { identifiers: Array.from(identifiers), errors: Array.from(errors) }
+}
+
+function collectExpressionReferences(expression: Expression): { identifiers: string[]; errors: string[] } {
+  const identifiers: string[] = []
+  const errors: string[] = []
+
+  const walk = (node: Expression) => {
+    if (node.type === 'identifier') {
+      identifiers.push(node.name)
+    } else if (node.type === 'call') {
+      const helper = HELPERS[node.name]
+      if (!helper) {
+        errors.push(`Unknown function ${node.name}()`)
+      } else if (node.args.length < helper.args[0] || node.args.length > helper.args[1]) {
+        const [fewest, most] = helper.args
+        errors.push(`${node.name}() takes ${fewest === most ? fewest : `${fewest} to ${most}`} argument${most === 1 ? '' : 's'}`)
+      }
+      node.args.forEach(walk)
+    } else if (node.type === 'unary') {
+      walk(node.operand)
+    } else if (node.type === 'binary') {
+      walk(node.left)
+      walk(node.right)
+    }
+  }
+  walk(expression)
+
+  return { identifiers: Array.from(new Set(identifiers)), errors }
+}
+
+// ===== VALUE HELPERS =====
+
+function isBlank(value: TemplateValue): boolean {
+  return value === undefined || value === null || value === '' || (typeof value === 'number' && !Number.isFinite(value))
+}
+
+// Form values arrive as strings, so 'false', 'no' and '0' are false too
+function isTruthy(value: TemplateValue): boolean {
+  if (Array.isArray(value)) return value.length > 0
+  if (typeof value === 'string') return !['', 'false', 'no', '0'].includes(value.trim().toLowerCase())
+  return Boolean(value) && !(typeof value === 'number' && Number.isNaN(value))
+}
+
+// Only plain numbers count: "1,200" or "5.000.000" could each mean two different amounts
+function toNumber(value: TemplateValue): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined
+  if (typeof value === 'boolean') return value ? 1 : 0
+  if (typeof value !== 'string' || !/^\s*-?\d+(\.\d+)?\s*$/.test(value)) return undefined
+
+  return parseFloat(value)
+}
+
+function toDate(value: TemplateValue): Date | undefined {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? undefined : value
+  if (typeof value !== 'string' || !value.trim()) return undefined
+
+  // Date inputs give yyyy-mm-dd, which is read as a local date rather than UTC midnight
+  const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim())
+  const date = dateOnly
+    ? new Date(parseInt(dateOnly[1]), parseInt(dateOnly[2]) - 1, parseInt(dateOnly[3]))
+    : new Date(value)
+  return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+function toText(value: TemplateValue): string {
+  if (value instanceof Date) return formatDate(value)
+  if (Array.isArray(value)) return value.map(toText).join(', ')
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  return String(value)
+}
+
+function numeric(a: TemplateValue, b: TemplateValue, combine: (a: number, b: number) => number): number | undefined {
+  const left = toNumber(a)
+  const right = toNumber(b)
+  if (left === undefined || right === undefined) return undefined
+
+  const result = combine(left, right)
+  return Number.isFinite(result) ? result : undefined
+}
+
+function compare(operator: string, a: TemplateValue, b: TemplateValue): boolean {
+  const left = toNumber(a)
+  const right = toNumber(b)
+  const bothNumbers = left !== undefined && right !== undefined
+  const order = bothNumbers
+    ? left - right
+    : (isBlank(a) ? '' : toText(a)).localeCompare(isBlank(b) ? '' : toText(b))
+
+  switch (operator) {
+    case '==': return order === 0
+    case '!=': return order !== 0
+    case '>': return order > 0
+    case '>=': return order >= 0
+    case '<': return order < 0
+    default: return order <= 0
+  }
+}
+
+// Whole months from the start of a lease to the end of its last day, so
+// 1 February to 31 July is six months
+function monthsBetween(start: Date, end: Date): number {
+  const dayAfterEnd = new Date(end.getFullYear(), end.getMonth(), end.getDate() + 1)
+  let months = (dayAfterEnd.getFullYear() - start.getFullYear()) * 12 + (dayAfterEnd.getMonth() - start.getMonth())
+  if (dayAfterEnd.getDate() < start.getDate()) {
+    months--
+  }
+  return Math.max(months, 0)
+}
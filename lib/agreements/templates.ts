@@ -5,17 +5,39 @@ import {
   getPropertyAgreementTemplates,
   getActivePropertyAgreementTemplates,
   deleteAgreementTemplate,
-  populateTemplateContent
+  populateTemplateContent,
+  createAgreementTemplateVersion,
+  getAgreementTemplateVersion,
+  getAgreementTemplateVersions,
+  updateAgreementTemplateVersionReview
 } from '../db/operations/agreements'
 import {
+  AgreementLanguageType,
   AgreementTemplate,
+  AgreementTemplateVersion,
   CreateAgreementTemplateInput,
   UpdateAgreementTemplateInput,
   TemplateVariable,
   TemplateVariableValue
 } from '../db/models/agreement'
+import { AgreementTemplateRenderer } from './template-renderer'
+import { AGREEMENT_LANGUAGE_NAMES, TemplateWording, getTemplateContent, getTemplateLanguages, splitClauses } from './bilingual'
 import { v4 as uuidv4 } from 'uuid'
 
+// One row of a side-by-side comparison of two template versions
+export interface TemplateDiffRow {
+  type: 'unchanged' | 'changed' | 'added' | 'removed'
+  before?: { lineNumber: number; text: string }
+  after?: { lineNumber: number; text: string }
+}
+
+export interface TemplateVersionComparison {
+  from: AgreementTemplateVersion
+  to: AgreementTemplateVersion
+  language: AgreementLanguageType
+  rows: TemplateDiffRow[]
+}
+
 // Template validation and business logic
 export class AgreementTemplateService {
   
@@ -25,6 +47,13 @@ export class AgreementTemplateService {
       // Validate template content has required structure
       this.validateTemplateContent(input.content, input.variables || [])
       
+      // Each translation has to pair clause for clause with the content
+      this.validateTranslations({
+        content: input.content,
+        language: input.language || 'en',
+        translations: input.translations || []
+      }, input.variables || [])
+      
       // Ensure template variables have unique names
       this.validateTemplateVariables(input.variables || [])
       
@@ -46,43 +75,192 @@ export class AgreementTemplateService {
     }
   }
   
-  // Update template with version control
-  static async updateTemplate(input: UpdateAgreementTemplateInput): Promise<AgreementTemplate | null> {
+  // Update template. Changing the wording or variables stores a new version
+  // and leaves the earlier ones untouched; a new version starts unreviewed
+  // unless the update records its legal review.
+  static async updateTemplate(
+    input: UpdateAgreementTemplateInput,
+    updatedBy: string = 'system',
+    changeNote?: string
+  ): Promise<AgreementTemplate | null> {
     try {
       const existing = await getAgreementTemplate(input.id)
       if (!existing) {
         throw new Error('Template not found')
       }
       
-      // If content or variables changed, increment version
-      let newVersion = existing.version
-      if (input.content && input.content !== existing.content) {
-        newVersion = existing.version + 1
-      }
-      if (input.variables && JSON.stringify(input.variables) !== JSON.stringify(existing.variables)) {
-        newVersion = existing.version + 1
-      }
+      // Versions are numbered here, never by the caller
+      const { version: _version, ...changes } = input
+      
+      const contentChanged = (changes.content !== undefined && changes.content !== existing.content) ||
+        (changes.language !== undefined && changes.language !== existing.language) ||
+        (changes.translations !== undefined && JSON.stringify(changes.translations) !== JSON.stringify(existing.translations)) ||
+        (changes.variables !== undefined && JSON.stringify(changes.variables) !== JSON.stringify(existing.variables))
       
-      // Validate if content or variables are being updated
-      if (input.content || input.variables) {
-        const content = input.content || existing.content
-        const variables = input.variables || existing.variables
+      // Validate if the wording or variables are being updated
+      if (changes.content || changes.variables || changes.language || changes.translations) {
+        const content = changes.content || existing.content
+        const variables = changes.variables || existing.variables
         this.validateTemplateContent(content, variables)
         this.validateTemplateVariables(variables)
+        this.validateTranslations({
+          content,
+          language: changes.language || existing.language,
+          translations: changes.translations || existing.translations
+        }, variables)
       }
       
-      const updateInput = {
-        ...input,
-        version: newVersion
+      const current = await this.ensureVersionSnapshot(existing)
+      
+      if (!contentChanged) {
+        if (changes.legalReviewedBy) {
+          await this.reviewTemplateVersion(existing.id, current.version, changes.legalReviewedBy, changes.legalReviewDate)
+        }
+        return await updateAgreementTemplate(changes)
       }
       
-      return await updateAgreementTemplate(updateInput)
+      const version = await createAgreementTemplateVersion({
+        templateId: existing.id,
+        version: existing.version + 1,
+        content: changes.content ?? existing.content,
+        language: changes.language ?? existing.language,
+        translations: changes.translations ?? existing.translations,
+        variables: changes.variables ?? existing.variables,
+        legalReviewDate: changes.legalReviewedBy ? changes.legalReviewDate || new Date() : undefined,
+        legalReviewedBy: changes.legalReviewedBy,
+        changeNote,
+        createdAt: new Date(),
+        createdBy: updatedBy
+      })
+      
+      return await updateAgreementTemplate({
+        ...changes,
+        ...this.toTemplateFields(version)
+      })
     } catch (error) {
       console.error('Error in updateTemplate service:', error)
       throw error
     }
   }
   
+  // Get every version of a template, oldest first
+  static async getTemplateVersions(templateId: string): Promise<AgreementTemplateVersion[]> {
+    const template = await getAgreementTemplate(templateId)
+    if (!template) {
+      throw new Error('Template not found')
+    }
+    
+    await this.ensureVersionSnapshot(template)
+    return await getAgreementTemplateVersions(templateId)
+  }
+  
+  // Get the version of a template currently used for new agreements
+  static async getCurrentVersion(template: AgreementTemplate): Promise<AgreementTemplateVersion> {
+    return await this.ensureVersionSnapshot(template)
+  }
+  
+  // Compare two versions of a template line by line, in the newer version's
+  // own language unless another is given. A version without wording in that
+  // language compares as empty.
+  static async compareVersions(
+    templateId: string,
+    fromVersion: number,
+    toVersion: number,
+    language?: AgreementLanguageType
+  ): Promise<TemplateVersionComparison> {
+    const versions = await this.getTemplateVersions(templateId)
+    const from = versions.find(version => version.version === fromVersion)
+    const to = versions.find(version => version.version === toVersion)
+    
+    if (!from || !to) {
+      throw new Error('Template version not found')
+    }
+    
+    const comparedLanguage = language || to.language
+    return {
+      from,
+      to,
+      language: comparedLanguage,
+      rows: diffTemplateContent(getTemplateContent(from, comparedLanguage) ?? '', getTemplateContent(to, comparedLanguage) ?? '')
+    }
+  }
+  
+  // Roll back to an earlier version. History is kept: the earlier wording
+  // becomes a new version, carrying over its legal review.
+  static async rollbackTemplate(templateId: string, toVersion: number, rolledBackBy: string = 'system'): Promise<AgreementTemplate | null> {
+    try {
+      const template = await getAgreementTemplate(templateId)
+      if (!template) {
+        throw new Error('Template not found')
+      }
+      
+      await this.ensureVersionSnapshot(template)
+      
+      const target = await getAgreementTemplateVersion(templateId, toVersion)
+      if (!target) {
+        throw new Error('Template version not found')
+      }
+      if (target.version === template.version) {
+        throw new Error('Template is already at this version')
+      }
+      
+      const version = await createAgreementTemplateVersion({
+        templateId,
+        version: template.version + 1,
+        content: target.content,
+        language: target.language,
+        translations: target.translations,
+        variables: target.variables,
+        legalReviewDate: target.legalReviewDate,
+        legalReviewedBy: target.legalReviewedBy,
+        changeNote: `Rolled back to version ${target.version}`,
+        restoredFromVersion: target.version,
+        createdAt: new Date(),
+        createdBy: rolledBackBy
+      })
+      
+      return await updateAgreementTemplate({
+        id: templateId,
+        ...this.toTemplateFields(version)
+      })
+    } catch (error) {
+      console.error('Error in rollbackTemplate service:', error)
+      throw error
+    }
+  }
+  
+  // Record the legal review of one version of a template
+  static async reviewTemplateVersion(
+    templateId: string,
+    version: number,
+    reviewedBy: string,
+    reviewDate: Date = new Date()
+  ): Promise<AgreementTemplateVersion> {
+    try {
+      const template = await getAgreementTemplate(templateId)
+      if (!template) {
+        throw new Error('Template not found')
+      }
+      
+      await this.ensureVersionSnapshot(template)
+      
+      const reviewed = await updateAgreementTemplateVersionReview(templateId, version, reviewedBy, reviewDate)
+      if (!reviewed) {
+        throw new Error('Template version not found')
+      }
+      
+      // The template shows the review of its current version
+      if (version === template.version) {
+        await updateAgreementTemplate({ id: templateId, legalReviewedBy: reviewedBy, legalReviewDate: reviewDate })
+      }
+      
+      return reviewed
+    } catch (error) {
+      console.error('Error in reviewTemplateVersion service:', error)
+      throw error
+    }
+  }
+  
   // Get template with enhanced data
   static async getTemplate(id: string): Promise<AgreementTemplate | null> {
     try {
@@ -118,6 +296,8 @@ export class AgreementTemplateService {
         name: newName,
         propertyId: propertyId || original.propertyId,
         content: original.content,
+        language: original.language,
+        translations: original.translations,
         variables: original.variables,
         description: original.description,
         category: original.category,
@@ -133,10 +313,14 @@ export class AgreementTemplateService {
     }
   }
   
-  // Preview template with sample data
-  static async previewTemplate(templateId: string, sampleValues: TemplateVariableValue[]): Promise<string> {
+  // Preview template with sample data, in the template's own language unless another is given
+  static async previewTemplate(
+    templateId: string,
+    sampleValues: TemplateVariableValue[],
+    language?: AgreementLanguageType
+  ): Promise<string> {
     try {
-      return await populateTemplateContent(templateId, sampleValues)
+      return await populateTemplateContent(templateId, sampleValues, undefined, language)
     } catch (error) {
       console.error('Error in previewTemplate service:', error)
       throw error
@@ -194,16 +378,51 @@ export class AgreementTemplateService {
     }
   }
   
+  // ===== PRIVATE VERSION METHODS =====
+  
+  // Templates created before versioning have no stored versions; their
+  // current wording becomes the first one kept
+  private static async ensureVersionSnapshot(template: AgreementTemplate): Promise<AgreementTemplateVersion> {
+    const existing = await getAgreementTemplateVersion(template.id, template.version)
+    if (existing) {
+      return existing
+    }
+    
+    return await createAgreementTemplateVersion({
+      templateId: template.id,
+      version: template.version,
+      content: template.content,
+      language: template.language,
+      translations: template.translations,
+      variables: template.variables,
+      legalReviewDate: template.legalReviewDate,
+      legalReviewedBy: template.legalReviewedBy,
+      createdAt: template.updatedAt,
+      createdBy: template.createdBy
+    })
+  }
+  
+  // The template fields that mirror its current version
+  private static toTemplateFields(version: AgreementTemplateVersion) {
+    return {
+      content: version.content,
+      language: version.language,
+      translations: version.translations,
+      variables: version.variables,
+      version: version.version,
+      legalReviewDate: version.legalReviewDate,
+      legalReviewedBy: version.legalReviewedBy
+    }
+  }
+  
   // ===== PRIVATE VALIDATION METHODS =====
   
   private static validateTemplateContent(content: string, variables: TemplateVariable[]): void {
-    // Check that all variables referenced in content exist in variables array
-    const variableNames = variables.map(v => v.name)
-    const contentVariables = this.extractVariablesFromContent(content)
-    
-    const missingVariables = contentVariables.filter(name => !variableNames.includes(name))
-    if (missingVariables.length > 0) {
-      throw new Error(`Template content references undefined variables: ${missingVariables.join(', ')}`)
+    // Check the template language: blocks are closed, every variable used is
+    // defined and computed fields can be worked out
+    const errors = AgreementTemplateRenderer.validate(content, variables)
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '))
     }
     
     // Check for basic template structure
@@ -221,6 +440,33 @@ export class AgreementTemplateService {
     }
   }
   
+  private static validateTranslations(wording: TemplateWording, variables: TemplateVariable[]): void {
+    const languages = getTemplateLanguages(wording)
+    const repeated = languages.filter((language, index) => languages.indexOf(language) !== index)
+    if (repeated.length > 0) {
+      throw new Error(`Template has more than one ${AGREEMENT_LANGUAGE_NAMES[repeated[0]]} wording`)
+    }
+    
+    // Clauses pair up by position, so every translation needs as many as the content
+    const clauseCount = splitClauses(wording.content).length
+    wording.translations.forEach(translation => {
+      const name = AGREEMENT_LANGUAGE_NAMES[translation.language]
+      
+      const errors = AgreementTemplateRenderer.validate(translation.content, variables)
+      if (errors.length > 0) {
+        throw new Error(errors.map(error => `${name} wording: ${error}`).join('; '))
+      }
+      
+      const translatedCount = splitClauses(translation.content).length
+      if (translatedCount !== clauseCount) {
+        throw new Error(
+          `${name} wording has ${translatedCount} clauses but the ${AGREEMENT_LANGUAGE_NAMES[wording.language]} wording has ${clauseCount}; ` +
+          'separate clauses with a blank line and translate each one'
+        )
+      }
+    })
+  }
+  
   private static validateTemplateVariables(variables: TemplateVariable[]): void {
     // Check for duplicate variable names
     const names = variables.map(v => v.name)
@@ -236,6 +482,12 @@ export class AgreementTemplateService {
       throw new Error(`Invalid variable names (use alphanumeric and underscore only): ${invalidNames.map(v => v.name).join(', ')}`)
     }
     
+    // Words of the template language can't be variable names
+    const reservedNames = variables.filter(v => ['this', 'true', 'false', 'and', 'or', 'not', 'else'].includes(v.name))
+    if (reservedNames.length > 0) {
+      throw new Error(`Reserved variable names: ${reservedNames.map(v => v.name).join(', ')}`)
+    }
+    
     // Validate select type variables have options
     const selectVariablesWithoutOptions = variables.filter(v => 
       v.type === 'select' && (!v.selectOptions || v.selectOptions.length === 0)
@@ -244,20 +496,61 @@ export class AgreementTemplateService {
       throw new Error(`Select variables must have options: ${selectVariablesWithoutOptions.map(v => v.name).join(', ')}`)
     }
   }
+}
+
+// Line-by-line diff of two versions of a template, as rows for a
+// side-by-side view. Removed lines followed by added ones are paired up as
+// changed lines.
+export function diffTemplateContent(before: string, after: string): TemplateDiffRow[] {
+  const beforeLines = before.split('\n')
+  const afterLines = after.split('\n')
   
-  private static extractVariablesFromContent(content: string): string[] {
-    // Extract variables in {{variable_name}} format
-    const variableRegex = /\{\{([a-zA-Z_][a-zA-Z0-9_]*)\}\}/g
-    const matches = []
-    let match
-    
-    while ((match = variableRegex.exec(content)) !== null) {
-      matches.push(match[1])
+  // Longest common subsequence lengths of every pair of suffixes
+  const common: number[][] = Array.from({ length: beforeLines.length + 1 }, () => new Array(afterLines.length + 1).fill(0))
+  for (let i = beforeLines.length - 1; i >= 0; i--) {
+    for (let j = afterLines.length - 1; j >= 0; j--) {
+      common[i][j] = beforeLines[i] === afterLines[j]
+        ? common[i + 1][j + 1] + 1
+        : Math.max(common[i + 1][j], common[i][j + 1])
     }
-    
-    // Return unique variable names
-    return Array.from(new Set(matches))
   }
+  
+  const rows: TemplateDiffRow[] = []
+  let removed: TemplateDiffRow['before'][] = []
+  let added: TemplateDiffRow['after'][] = []
+  
+  const flushChanges = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const type = k >= added.length ? 'removed' : k >= removed.length ? 'added' : 'changed'
+      rows.push({ type, before: removed[k], after: added[k] })
+    }
+    removed = []
+    added = []
+  }
+  
+  let i = 0
+  let j = 0
+  while (i < beforeLines.length || j < afterLines.length) {
+    if (i < beforeLines.length && j < afterLines.length && beforeLines[i] === afterLines[j]) {
+      flushChanges()
+      rows.push({
+        type: 'unchanged',
+        before: { lineNumber: i + 1, text: beforeLines[i] },
+        after: { lineNumber: j + 1, text: afterLines[j] }
+      })
+      i++
+      j++
+    } else if (j < afterLines.length && (i >= beforeLines.length || common[i][j + 1] >= common[i + 1][j])) {
+      added.push({ lineNumber: j + 1, text: afterLines[j] })
+      j++
+    } else {
+      removed.push({ lineNumber: i + 1, text: beforeLines[i] })
+      i++
+    }
+  }
+  flushChanges()
+  
+  return rows
 }
 
 // Default template content for common lease types
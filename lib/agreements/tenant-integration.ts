@@ -1,8 +1,10 @@
-import { Agreement } from '@/lib/db/models/agreement'
+import { Agreement, AgreementSigner } from '@/lib/db/models/agreement'
 import { Tenant, TenantSchema } from '@/lib/db/models/tenant'
 import { createTenant, getTenantByEmail } from '@/lib/db/operations/tenants'
 import { getProperty } from '@/lib/db/operations/properties'
 import { updateAgreement } from '@/lib/db/operations/agreements'
+import { DEFAULT_RENT_CURRENCY } from '@/lib/currency/conversion'
+import { AgreementSignerService } from './signers'
 import { DocumentStorageService } from './storage'
 
 export interface TenantProfileData {
@@ -39,55 +41,75 @@ export interface TenantProfileData {
 
 export class TenantProfileIntegrationService {
   /**
-   * Create tenant profile from signed agreement
+   * Create tenant profile from signed agreement, for the prospect
    */
   static async createTenantFromAgreement(agreement: Agreement): Promise<Tenant> {
+    const [tenant] = await this.createTenantsFromAgreement(agreement)
+    return tenant
+  }
+
+  /**
+   * Create a tenant profile for the prospect and each co-tenant on a signed
+   * agreement. Guarantors and the landlord sign without moving in.
+   */
+  static async createTenantsFromAgreement(agreement: Agreement): Promise<Tenant[]> {
     try {
-      console.log(`Creating tenant profile from agreement ${agreement.id}`)
+      console.log(`Creating tenant profiles from agreement ${agreement.id}`)
       
       // Validate agreement is signed
       if (!['Signed', 'Completed'].includes(agreement.status)) {
         throw new Error('Agreement must be signed to create tenant profile')
       }
 
-      // Check if tenant already exists
-      const existingTenant = await getTenantByEmail(agreement.prospectEmail)
-      if (existingTenant) {
-        console.log(`Tenant already exists for email ${agreement.prospectEmail}`)
-        return existingTenant
+      const occupants = AgreementSignerService.getSigners(agreement)
+        .filter(signer => signer.role === 'tenant' || signer.role === 'co-tenant')
+      const tenants: Tenant[] = []
+
+      for (const [index, occupant] of occupants.entries()) {
+        // Check if tenant already exists
+        const existingTenant = await getTenantByEmail(occupant.email)
+        if (existingTenant) {
+          console.log(`Tenant already exists for email ${occupant.email}`)
+          tenants.push(existingTenant)
+          continue
+        }
+
+        // Extract tenant data from agreement
+        const tenantData = await this.extractTenantDataFromAgreement(agreement, occupant, index, occupants.length)
+        
+        // Validate tenant data
+        const validatedData = TenantSchema.parse(tenantData)
+        
+        // Create tenant profile
+        tenants.push(await createTenant(validatedData))
       }
 
-      // Extract tenant data from agreement
-      const tenantData = await this.extractTenantDataFromAgreement(agreement)
-      
-      // Validate tenant data
-      const validatedData = TenantSchema.parse(tenantData)
-      
-      // Create tenant profile
-      const tenant = await createTenant(validatedData)
+      if (tenants.length === 0) {
+        throw new Error('Agreement has no tenant signers')
+      }
       
-      // Update agreement with tenant reference
+      // Update agreement with tenant references
       await updateAgreement({
         id: agreement.id,
-        tenantId: tenant.id,
+        tenantId: tenants[0].id,
+        tenantIds: tenants.map(tenant => tenant.id),
         tenantCreated: true
       })
 
       // Store signed document if available
       if (agreement.docusignEnvelopeId) {
         try {
-          await DocumentStorageService.storeSignedDocument(
-            agreement.id,
-            agreement.docusignEnvelopeId
-          )
+          await DocumentStorageService.storeSignedDocument(agreement.id, {
+            docusignEnvelopeId: agreement.docusignEnvelopeId
+          })
         } catch (error) {
           console.error('Failed to store signed document:', error)
           // Don't fail tenant creation if document storage fails
         }
       }
 
-      console.log(`Successfully created tenant profile ${tenant.id} from agreement ${agreement.id}`)
-      return tenant
+      console.log(`Successfully created ${tenants.length} tenant profile(s) from agreement ${agreement.id}`)
+      return tenants
     } catch (error) {
       console.error('Error creating tenant from agreement:', error)
       throw new Error(`Failed to create tenant profile: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -95,9 +117,15 @@ export class TenantProfileIntegrationService {
   }
 
   /**
-   * Extract tenant data from agreement
+   * Extract tenant data from agreement for one of its occupants. Co-tenants
+   * share the rent and deposit evenly, the first tenant taking any odd cents.
    */
-  private static async extractTenantDataFromAgreement(agreement: Agreement): Promise<Partial<Tenant>> {
+  private static async extractTenantDataFromAgreement(
+    agreement: Agreement,
+    occupant: AgreementSigner,
+    occupantIndex: number,
+    occupantCount: number
+  ): Promise<Partial<Tenant>> {
     try {
       // Get property information
       const property = await getProperty(agreement.propertyId)
@@ -105,8 +133,8 @@ export class TenantProfileIntegrationService {
         throw new Error('Property not found for agreement')
       }
 
-      // Parse prospect name
-      const nameParts = agreement.prospectName.trim().split(' ')
+      // Parse occupant name
+      const nameParts = occupant.name.trim().split(' ')
       const firstName = nameParts[0] || ''
       const lastName = nameParts.slice(1).join(' ') || ''
 
@@ -126,8 +154,12 @@ export class TenantProfileIntegrationService {
       )
 
       // Parse monetary amounts
-      const monthlyRentCents = this.parseMonetaryAmount(agreementData.monthlyRent || '0')
-      const depositCents = this.parseMonetaryAmount(agreementData.securityDeposit || agreementData.deposit || '0')
+      const monthlyRentCents = this.splitAmount(
+        this.parseMonetaryAmount(agreementData.monthlyRent || '0'), occupantIndex, occupantCount
+      )
+      const depositCents = this.splitAmount(
+        this.parseMonetaryAmount(agreementData.securityDeposit || agreementData.deposit || '0'), occupantIndex, occupantCount
+      )
 
       // Extract emergency contact if available
       let emergencyContact
@@ -143,10 +175,10 @@ export class TenantProfileIntegrationService {
       // Create tenant data
       const tenantData: Partial<Tenant> = {
         id: crypto.randomUUID(),
-        email: agreement.prospectEmail,
+        email: occupant.email,
         firstName,
         lastName,
-        phone: agreement.prospectPhone || '',
+        phone: occupant.phone || '',
         status: 'Active',
         propertyId: agreement.propertyId,
         
@@ -156,6 +188,7 @@ export class TenantProfileIntegrationService {
           startDate: leaseStartDate,
           endDate: leaseEndDate,
           monthlyRentCents,
+          currency: property.rentCurrency || DEFAULT_RENT_CURRENCY,
           depositCents,
           isActive: true,
           renewalNotificationSent: false,
@@ -329,6 +362,11 @@ export class TenantProfileIntegrationService {
     return endDate.toISOString()
   }
 
+  private static splitAmount(totalCents: number, index: number, count: number): number {
+    const share = Math.floor(totalCents / count)
+    return index === 0 ? totalCents - share * (count - 1) : share
+  }
+
   private static parseMonetaryAmount(amountString: string): number {
     try {
       // Remove currency symbols and convert to cents
@@ -345,6 +383,7 @@ export class TenantProfileIntegrationService {
    */
   static async processAgreementCompletion(agreement: Agreement): Promise<{
     tenant: Tenant
+    tenants: Tenant[]
     success: boolean
     errors: string[]
   }> {
@@ -353,34 +392,37 @@ export class TenantProfileIntegrationService {
     try {
       console.log(`Processing agreement completion for ${agreement.id}`)
       
-      // 1. Create tenant profile
-      const tenant = await this.createTenantFromAgreement(agreement)
+      // 1. Create tenant profiles, one per tenant and co-tenant
+      const tenants = await this.createTenantsFromAgreement(agreement)
       
-      // 2. Assign room (if specified)
-      try {
-        await this.assignRoomToTenant(tenant.id, agreement)
-      } catch (error) {
-        errors.push(`Room assignment failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
-      }
-      
-      // 3. Setup calendar integration
-      try {
-        await this.setupTenantCalendarIntegration(tenant)
-      } catch (error) {
-        errors.push(`Calendar integration failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
-      }
-      
-      // 4. Send welcome email
-      try {
-        await this.sendWelcomeEmail(tenant, agreement)
-      } catch (error) {
-        errors.push(`Welcome email failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      for (const tenant of tenants) {
+        // 2. Assign room (if specified)
+        try {
+          await this.assignRoomToTenant(tenant.id, agreement)
+        } catch (error) {
+          errors.push(`Room assignment failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        }
+        
+        // 3. Setup calendar integration
+        try {
+          await this.setupTenantCalendarIntegration(tenant)
+        } catch (error) {
+          errors.push(`Calendar integration failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        }
+        
+        // 4. Send welcome email
+        try {
+          await this.sendWelcomeEmail(tenant, agreement)
+        } catch (error) {
+          errors.push(`Welcome email failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        }
       }
       
       console.log(`Agreement completion processed successfully for ${agreement.id}`)
       
       return {
-        tenant,
+        tenant: tenants[0],
+        tenants,
         success: true,
         errors
       }
@@ -618,3 +618,54 @@ export function allocateToCostCenters(
   
   return allocations
 }
+
+// Tenant-level allocation (splitting a property's shared bill between its tenants)
+export interface TenantUsage {
+  tenantId: string
+  roomId: string
+  usage: number
+  justification?: string
+}
+
+export interface TenantAllocation extends TenantUsage {
+  percentage: number
+  amount: number
+  allocationMethod: 'usage-based' | 'occupancy-days'
+}
+
+// Split an amount in proportion to usage. Percentages are of totalUsage, which can be
+// larger than the usage listed (a vacant room's meter); that share stays unallocated.
+// Whole cents go to the largest remainders so the tenant amounts add up exactly.
+export function allocateByUsage(
+  amountCents: number,
+  usages: TenantUsage[],
+  allocationMethod: TenantAllocation['allocationMethod'],
+  totalUsage: number = usages.reduce((sum, u) => sum + u.usage, 0)
+): TenantAllocation[] {
+  if (totalUsage <= 0) {
+    throw new Error('Total usage must be positive')
+  }
+
+  const allocatedUsage = usages.reduce((sum, u) => sum + u.usage, 0)
+  const targetAmount = Math.round(amountCents * (allocatedUsage / totalUsage))
+
+  const exactAmounts = usages.map(u => amountCents * (u.usage / totalUsage))
+  const amounts = exactAmounts.map(Math.floor)
+  let remainingCents = targetAmount - amounts.reduce((sum, a) => sum + a, 0)
+
+  const byRemainder = exactAmounts
+    .map((exact, index) => ({ index, remainder: exact - amounts[index] }))
+    .sort((a, b) => b.remainder - a.remainder)
+  for (const { index } of byRemainder) {
+    if (remainingCents <= 0) break
+    amounts[index]++
+    remainingCents--
+  }
+
+  return usages.map((usage, index) => ({
+    ...usage,
+    percentage: (usage.usage / totalUsage) * 100,
+    amount: amounts[index],
+    allocationMethod
+  }))
+}
@@ -252,7 +252,7 @@ function calculateTrend(values: number[]): SpendingPattern['trend'] {
 }
 
 // Detect seasonal patterns
-function detectSeasonality(data: { month: string; amount: number }[]): { detected: boolean; period: 'monthly' | 'quarterly' | 'yearly'; peaks: string[]; valleys: string[]; seasonalityStrength: number } {
+export function detectSeasonality(data: { month: string; amount: number }[]): { detected: boolean; period: 'monthly' | 'quarterly' | 'yearly'; peaks: string[]; valleys: string[]; seasonalityStrength: number } {
   if (data.length < 12) {
     return { detected: false, period: 'monthly', peaks: [], valleys: [], seasonalityStrength: 0 }
   }
@@ -0,0 +1,118 @@
+import { addDays, format, isWeekend, startOfDay, subDays } from 'date-fns'
+import { getClosureDaysByProperty } from '@/lib/db/operations/closure-days'
+import { lunarToSolar } from './lunar'
+
+export interface Holiday {
+  date: Date
+  name: string
+  // Set for days off given in lieu of a holiday that fell on a weekend
+  observedFor?: string
+  // Set for closure days configured on a property rather than public holidays
+  propertyId?: string
+}
+
+export interface NextBusinessDayOptions {
+  skipWeekends?: boolean
+  skipHolidays?: boolean
+}
+
+export interface HolidayCalendar {
+  getHoliday(date: Date): Holiday | null
+  isHoliday(date: Date): boolean
+  isBusinessDay(date: Date): boolean
+  nextBusinessDay(date: Date, options?: NextBusinessDayOptions): Date
+}
+
+// Longest run of days off we expect (Tết plus weekends and a closure); guards against misconfiguration
+const MAX_DEFERRAL_DAYS = 31
+
+const holidaysByYear = new Map<number, Holiday[]>()
+
+function dayKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd')
+}
+
+/**
+ * Vietnamese public holidays for a year under the 2019 Labour Code: New
+ * Year, five days of Tết from lunar New Year's Eve, Hùng Kings'
+ * Commemoration, Reunification Day, Labour Day and two days for National
+ * Day. A holiday on a weekend gives the next working day off in lieu.
+ */
+export function getVietnameseHolidays(year: number): Holiday[] {
+  const cached = holidaysByYear.get(year)
+  if (cached) {
+    return cached
+  }
+
+  const tet = lunarToSolar(1, 1, year)!
+  const holidays: Holiday[] = [
+    { date: new Date(year, 0, 1), name: "New Year's Day" },
+    { date: subDays(tet, 1), name: "Lunar New Year's Eve" },
+    { date: tet, name: 'Tết Nguyên Đán' },
+    { date: addDays(tet, 1), name: 'Tết Nguyên Đán (day 2)' },
+    { date: addDays(tet, 2), name: 'Tết Nguyên Đán (day 3)' },
+    { date: addDays(tet, 3), name: 'Tết Nguyên Đán (day 4)' },
+    { date: lunarToSolar(10, 3, year)!, name: "Hùng Kings' Commemoration Day" },
+    { date: new Date(year, 3, 30), name: 'Reunification Day' },
+    { date: new Date(year, 4, 1), name: 'International Labour Day' },
+    { date: new Date(year, 8, 1), name: 'National Day (day 1)' },
+    { date: new Date(year, 8, 2), name: 'National Day' }
+  ]
+
+  const taken = new Set(holidays.map(holiday => dayKey(holiday.date)))
+  const observed: Holiday[] = []
+  for (const holiday of holidays) {
+    if (!isWeekend(holiday.date)) continue
+
+    let inLieu = addDays(holiday.date, 1)
+    while (isWeekend(inLieu) || taken.has(dayKey(inLieu))) {
+      inLieu = addDays(inLieu, 1)
+    }
+    taken.add(dayKey(inLieu))
+    observed.push({ date: inLieu, name: `${holiday.name} (observed)`, observedFor: holiday.name })
+  }
+
+  const all = [...holidays, ...observed].sort((a, b) => a.date.getTime() - b.date.getTime())
+  holidaysByYear.set(year, all)
+  return all
+}
+
+/**
+ * Holiday calendar for reminder scheduling: Vietnamese public holidays plus,
+ * when a property is given, that property's own closure days. Lookups are
+ * synchronous once loaded so callers can walk forward day by day.
+ */
+export async function loadHolidayCalendar(propertyId?: string): Promise<HolidayCalendar> {
+  const closures = new Map<string, Holiday>()
+  if (propertyId) {
+    for (const closure of await getClosureDaysByProperty(propertyId)) {
+      closures.set(dayKey(closure.date), { date: startOfDay(closure.date), name: closure.name, propertyId })
+    }
+  }
+
+  const getHoliday = (date: Date): Holiday | null => {
+    const key = dayKey(date)
+    const holiday = getVietnameseHolidays(date.getFullYear()).find(h => dayKey(h.date) === key)
+    return holiday || closures.get(key) || null
+  }
+
+  const isHoliday = (date: Date) => getHoliday(date) !== null
+
+  return {
+    getHoliday,
+    isHoliday,
+    isBusinessDay: date => !isWeekend(date) && !isHoliday(date),
+    // The given day if it is allowed, otherwise the first allowed day after it
+    nextBusinessDay: (date, options = {}) => {
+      const { skipWeekends = true, skipHolidays = true } = options
+      let day = startOfDay(date)
+      for (let i = 0; i < MAX_DEFERRAL_DAYS; i++) {
+        if (!(skipWeekends && isWeekend(day)) && !(skipHolidays && isHoliday(day))) {
+          return day
+        }
+        day = addDays(day, 1)
+      }
+      return day
+    }
+  }
+}
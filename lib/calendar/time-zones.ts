@@ -0,0 +1,75 @@
+// Wall-clock conversions for IANA time zones using the platform's Intl data
+
+export const DEFAULT_TIME_ZONE = 'Asia/Ho_Chi_Minh'
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function getWallClock(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(instant)
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)!.value)
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second')
+  }
+}
+
+// Milliseconds the zone is ahead of UTC at an instant
+function getOffset(instant: Date, timeZone: string): number {
+  const clock = getWallClock(instant, timeZone)
+  const asUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second)
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000
+}
+
+/**
+ * The calendar day an instant falls on in a time zone, as a local midnight
+ * Date so it can be compared with other day values.
+ */
+export function getDateInTimeZone(instant: Date, timeZone: string): Date {
+  const { year, month, day } = getWallClock(instant, timeZone)
+  return new Date(year, month - 1, day)
+}
+
+/**
+ * The instant at which clocks in a time zone read `time` (HH:MM) on a day.
+ * Times skipped by a DST change resolve to the first valid instant after.
+ */
+export function zonedTimeToUtc(day: Date, time: string, timeZone: string): Date {
+  const [hours, minutes] = time.split(':').map(Number)
+  const wallClock = Date.UTC(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes)
+
+  const firstOffset = getOffset(new Date(wallClock), timeZone)
+  const firstGuess = wallClock - firstOffset
+  const offset = getOffset(new Date(firstGuess), timeZone)
+  if (offset === firstOffset) {
+    return new Date(firstGuess)
+  }
+
+  const secondGuess = wallClock - offset
+  if (getOffset(new Date(secondGuess), timeZone) === offset) {
+    return new Date(secondGuess)
+  }
+
+  // In the gap clocks skip over; reading it with the earlier offset lands just after
+  return new Date(wallClock - Math.min(firstOffset, offset))
+}
@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server'
+
+/**
+ * Whether a request may run a cron job. Vercel Cron sends CRON_SECRET as a
+ * bearer token. Cron routes are reachable without a session, so in production
+ * they refuse every caller until a secret is configured.
+ */
+export function isAuthorizedCronRequest(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) {
+    return process.env.NODE_ENV !== 'production'
+  }
+  return request.headers.get('authorization') === `Bearer ${cronSecret}`
+}
+
+/**
+ * Vercel Cron runs jobs with a GET request, which for anyone else only
+ * reports the job's status
+ */
+export function isVercelCronRequest(request: NextRequest): boolean {
+  return request.headers.get('user-agent')?.startsWith('vercel-cron/') ?? false
+}
@@ -0,0 +1,226 @@
+import { startOfDay } from 'date-fns'
+import { ExchangeRate } from '@/lib/db/models/exchange-rate'
+import { getExchangeRatesForPair } from '@/lib/db/operations/exchange-rates'
+import { getPropertyById } from '@/lib/db/operations/properties'
+import { fromMinorUnits, getCurrencyMinorUnits, toMinorUnits } from '@/lib/utils'
+
+export const DEFAULT_REPORTING_CURRENCY = 'USD'
+
+export const DEFAULT_RENT_CURRENCY = 'USD'
+
+export interface ConvertedAmount {
+  amount: number // In the reporting currency
+  currency: string
+  originalAmount: number
+  originalCurrency: string
+  rate: number
+  rateDate?: Date // Effective date of the rate used, unset when no conversion was needed
+}
+
+// An amount left out of a report because no rate was in effect on its date
+export interface UnconvertedAmount {
+  amount: number // In the original currency, in the unit it was given
+  currency: string
+  date: Date
+}
+
+export interface CurrencyTotal {
+  currency: string
+  originalAmount: number
+  convertedAmount: number
+  count: number
+}
+
+export interface ConvertOptions {
+  // Amounts are in the currency's minor unit (amountCents) rather than the major unit
+  minorUnits?: boolean
+}
+
+export interface CurrencyConverter {
+  reportingCurrency: string
+  unconverted: UnconvertedAmount[] // Amounts tryConvert could not convert, in the order met
+  convert(amount: number, currency: string | undefined, date: Date | string, options?: ConvertOptions): Promise<ConvertedAmount>
+  // Like convert, but records the amount as unconverted and resolves null when no rate is in effect
+  tryConvert(amount: number, currency: string | undefined, date: Date | string, options?: ConvertOptions): Promise<ConvertedAmount | null>
+}
+
+/**
+ * Property's reporting currency, USD when it has none set.
+ */
+export async function getReportingCurrency(propertyId?: string): Promise<string> {
+  if (!propertyId) return DEFAULT_REPORTING_CURRENCY
+
+  const property = await getPropertyById(propertyId)
+  return property?.reportingCurrency || DEFAULT_REPORTING_CURRENCY
+}
+
+/**
+ * Currency a property's rooms are priced and rented in, USD when it has none
+ * set. Independent of the reporting currency, which only applies to reports.
+ */
+export async function getRentCurrency(propertyId?: string): Promise<string> {
+  if (!propertyId) return DEFAULT_RENT_CURRENCY
+
+  const property = await getPropertyById(propertyId)
+  return property?.rentCurrency || DEFAULT_RENT_CURRENCY
+}
+
+/**
+ * Pick the rate in effect on a date: the latest one effective on or before it.
+ */
+export function selectRateForDate(rates: ExchangeRate[], date: Date): ExchangeRate | null {
+  const day = startOfDay(date).getTime()
+  let selected: ExchangeRate | null = null
+
+  for (const rate of rates) {
+    if (startOfDay(rate.effectiveDate).getTime() > day) continue
+    if (!selected || rate.effectiveDate > selected.effectiveDate) {
+      selected = rate
+    }
+  }
+
+  return selected
+}
+
+/**
+ * Create a converter into a reporting currency. Each amount is converted at
+ * the rate in effect on its transaction date, using the inverse pair when
+ * only that one is stored. Rates are loaded once per pair.
+ */
+export function createCurrencyConverter(reportingCurrency: string = DEFAULT_REPORTING_CURRENCY): CurrencyConverter {
+  const pairRates = new Map<string, Promise<ExchangeRate[]>>()
+  const loadRates = (fromCurrency: string, toCurrency: string) => {
+    const key = `${fromCurrency}:${toCurrency}`
+    if (!pairRates.has(key)) {
+      pairRates.set(key, getExchangeRatesForPair(fromCurrency, toCurrency))
+    }
+    return pairRates.get(key)!
+  }
+
+  const findRate = async (fromCurrency: string, date: Date) => {
+    const direct = selectRateForDate(await loadRates(fromCurrency, reportingCurrency), date)
+    if (direct) {
+      return { rate: direct.rate, rateDate: direct.effectiveDate }
+    }
+
+    const inverse = selectRateForDate(await loadRates(reportingCurrency, fromCurrency), date)
+    if (inverse) {
+      return { rate: 1 / inverse.rate, rateDate: inverse.effectiveDate }
+    }
+
+    return null
+  }
+
+  // Resolves null when the amount needs a rate and none is in effect on its date
+  const convertAt = async (amount: number, currency: string | undefined, date: Date, options: ConvertOptions): Promise<ConvertedAmount | null> => {
+    // Records without a currency predate multi-currency support
+    const originalCurrency = (currency || reportingCurrency).toUpperCase()
+    const base = { currency: reportingCurrency, originalAmount: amount, originalCurrency }
+
+    if (originalCurrency === reportingCurrency) {
+      return { ...base, amount, rate: 1 }
+    }
+
+    const found = await findRate(originalCurrency, date)
+    if (!found) {
+      return null
+    }
+
+    const majorAmount = options.minorUnits ? fromMinorUnits(amount, originalCurrency) : amount
+    const converted = majorAmount * found.rate
+    const digits = getCurrencyMinorUnits(reportingCurrency)
+
+    return {
+      ...base,
+      amount: options.minorUnits
+        ? toMinorUnits(converted, reportingCurrency)
+        : Math.round(converted * Math.pow(10, digits)) / Math.pow(10, digits),
+      rate: found.rate,
+      rateDate: found.rateDate
+    }
+  }
+
+  const unconverted: UnconvertedAmount[] = []
+
+  return {
+    reportingCurrency,
+    unconverted,
+    async convert(amount, currency, date, options = {}) {
+      const transactionDate = new Date(date)
+      const converted = await convertAt(amount, currency, transactionDate, options)
+      if (!converted) {
+        throw new Error(
+          `No ${(currency || reportingCurrency).toUpperCase()}/${reportingCurrency} exchange rate on or before ${transactionDate.toISOString().split('T')[0]}`
+        )
+      }
+      return converted
+    },
+    async tryConvert(amount, currency, date, options = {}) {
+      const transactionDate = new Date(date)
+      const converted = await convertAt(amount, currency, transactionDate, options)
+      if (!converted) {
+        unconverted.push({ amount, currency: (currency || reportingCurrency).toUpperCase(), date: transactionDate })
+      }
+      return converted
+    }
+  }
+}
+
+/**
+ * Totals per original currency, shown alongside converted report figures.
+ */
+export function summarizeByCurrency(
+  conversions: Array<Pick<ConvertedAmount, 'amount' | 'originalAmount' | 'originalCurrency'>>
+): CurrencyTotal[] {
+  const totals = new Map<string, CurrencyTotal>()
+
+  for (const conversion of conversions) {
+    const total = totals.get(conversion.originalCurrency) || {
+      currency: conversion.originalCurrency,
+      originalAmount: 0,
+      convertedAmount: 0,
+      count: 0
+    }
+    total.originalAmount += conversion.originalAmount
+    total.convertedAmount += conversion.amount
+    total.count += 1
+    totals.set(conversion.originalCurrency, total)
+  }
+
+  return Array.from(totals.values())
+}
+
+export interface ReportRecord {
+  amount: number
+  currency?: string
+  date: string | Date
+}
+
+export type ConvertedRecord<T extends ReportRecord> = T & {
+  originalAmount: number
+  originalCurrency: string
+  exchangeRate: number
+}
+
+/**
+ * Convert report records (amounts in major units) into the converter's
+ * reporting currency, keeping the original amount and currency alongside.
+ * Records with no rate in effect are left out and listed in the converter's
+ * unconverted amounts instead, so one missing rate does not sink a report.
+ */
+export async function convertRecordAmounts<T extends ReportRecord>(
+  records: T[],
+  converter: CurrencyConverter
+): Promise<ConvertedRecord<T>[]> {
+  const converted = await Promise.all(records.map(async (record): Promise<ConvertedRecord<T> | null> => {
+    const conversion = await converter.tryConvert(record.amount, record.currency, record.date)
+    return conversion && {
+      ...record,
+      amount: conversion.amount,
+      originalAmount: conversion.originalAmount,
+      originalCurrency: conversion.originalCurrency,
+      exchangeRate: conversion.rate
+    }
+  }))
+  return converted.filter((record): record is Awaited<ConvertedRecord<T>> => record !== null)
+}
@@ -0,0 +1,78 @@
+import { z } from 'zod'
+import { ExchangeRate, ExchangeRateSource } from '@/lib/db/models/exchange-rate'
+import { createExchangeRate } from '@/lib/db/operations/exchange-rates'
+
+export interface RateImportResult {
+  imported: ExchangeRate[]
+  failed: number
+  errors: Array<{
+    row: number
+    error: string
+  }>
+}
+
+// Accepted header names for each column, compared case-insensitively
+const COLUMN_ALIASES: Record<'date' | 'from' | 'to' | 'rate', string[]> = {
+  date: ['date', 'effectivedate', 'effective_date'],
+  from: ['from', 'fromcurrency', 'from_currency', 'base'],
+  to: ['to', 'tocurrency', 'to_currency', 'quote'],
+  rate: ['rate', 'exchangerate', 'exchange_rate']
+}
+
+/**
+ * Import exchange rates from CSV text with date, from, to and rate columns,
+ * e.g. "2025-03-01,USD,VND,25450". Valid rows are stored even when others fail.
+ */
+export async function importExchangeRatesFromCSV(csvText: string, createdBy?: string): Promise<RateImportResult> {
+  const lines = csvText.split(/\r?\n/).filter(line => line.trim())
+  if (lines.length < 2) {
+    throw new Error('CSV must contain header and at least one data row')
+  }
+
+  const header = lines[0].split(',').map(col => col.trim().replace(/"/g, '').toLowerCase())
+  const columnIndex = {} as Record<keyof typeof COLUMN_ALIASES, number>
+
+  for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as Array<[keyof typeof COLUMN_ALIASES, string[]]>) {
+    columnIndex[column] = header.findIndex(name => aliases.includes(name))
+  }
+
+  const missingColumns = Object.entries(columnIndex)
+    .filter(([, index]) => index === -1)
+    .map(([column]) => column)
+  if (missingColumns.length > 0) {
+    throw new Error(`Missing required columns: ${missingColumns.join(', ')}`)
+  }
+
+  const result: RateImportResult = { imported: [], failed: 0, errors: [] }
+
+  for (let i = 1; i < lines.length; i++) {
+    const values = lines[i].split(',').map(val => val.trim().replace(/"/g, ''))
+
+    try {
+      const effectiveDate = new Date(values[columnIndex.date])
+      if (isNaN(effectiveDate.getTime())) {
+        throw new Error(`Invalid date: ${values[columnIndex.date]}`)
+      }
+
+      const rate = await createExchangeRate({
+        fromCurrency: values[columnIndex.from].toUpperCase() as ExchangeRate['fromCurrency'],
+        toCurrency: values[columnIndex.to].toUpperCase() as ExchangeRate['toCurrency'],
+        rate: parseFloat(values[columnIndex.rate]),
+        effectiveDate,
+        source: ExchangeRateSource.CSV,
+        createdBy
+      })
+      result.imported.push(rate)
+    } catch (error) {
+      result.failed++
+      result.errors.push({
+        row: i + 1,
+        error: error instanceof z.ZodError
+          ? error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join('; ')
+          : error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
+  return result
+}
@@ -13,18 +13,36 @@ export const AgreementStatus = {
 
 export type AgreementStatusType = typeof AgreementStatus[keyof typeof AgreementStatus]
 
+// Languages agreements are written in
+export const AgreementLanguage = {
+  ENGLISH: 'en',
+  VIETNAMESE: 'vi'
+} as const
+
+export type AgreementLanguageType = typeof AgreementLanguage[keyof typeof AgreementLanguage]
+
+// A template's wording in another language. Its clauses pair up one for one
+// with the clauses of the template content.
+export const TemplateTranslationSchema = z.object({
+  language: z.enum(['en', 'vi']),
+  content: z.string().min(1, 'Translation content is required')
+})
+
+export type TemplateTranslation = z.infer<typeof TemplateTranslationSchema>
+
 // Template variable schema for dynamic content replacement
 export const TemplateVariableSchema = z.object({
   id: z.string().uuid('Invalid template variable ID format'),
   name: z.string().min(1, 'Variable name is required'),
   label: z.string().min(1, 'Variable label is required'),
-  type: z.enum(['text', 'number', 'date', 'boolean', 'select']),
+  type: z.enum(['text', 'number', 'date', 'boolean', 'select', 'computed']), // Computed fields are worked out from their formula
   required: z.boolean().default(true),
   defaultValue: z.string().optional(),
   selectOptions: z.array(z.string()).default([]), // For select type variables
   placeholder: z.string().optional(),
   validation: z.string().optional(), // Regex pattern for validation
-  description: z.string().optional()
+  description: z.string().optional(),
+  formula: z.string().optional() // Expression for computed fields, e.g. monthly_rent * lease_months
 })
 
 export type TemplateVariable = z.infer<typeof TemplateVariableSchema>
@@ -35,6 +53,8 @@ export const AgreementTemplateSchema = z.object({
   name: z.string().min(1, 'Template name is required'),
   propertyId: z.string().uuid('Invalid property ID format'),
   content: z.string().min(1, 'Template content is required'),
+  language: z.enum(['en', 'vi']).default('en'), // Language of the content
+  translations: z.array(TemplateTranslationSchema).default([]),
   variables: z.array(TemplateVariableSchema).default([]),
   version: z.number().int().positive('Version must be positive').default(1),
   isActive: z.boolean().default(true),
@@ -52,14 +72,91 @@ export const AgreementTemplateSchema = z.object({
 
 export type AgreementTemplate = z.infer<typeof AgreementTemplateSchema>
 
+// Immutable snapshot of a template's wording. The template itself holds the
+// current version; agreements keep rendering with the version they were sent with.
+export const AgreementTemplateVersionSchema = z.object({
+  templateId: z.string().uuid('Invalid agreement template ID format'),
+  version: z.number().int().positive('Version must be positive'),
+  content: z.string().min(1, 'Template content is required'),
+  language: z.enum(['en', 'vi']).default('en'),
+  translations: z.array(TemplateTranslationSchema).default([]),
+  variables: z.array(TemplateVariableSchema).default([]),
+  legalReviewDate: z.date().optional(),
+  legalReviewedBy: z.string().optional(),
+  changeNote: z.string().optional(),
+  restoredFromVersion: z.number().int().positive().optional(), // Set when the version rolls back to an earlier one
+  createdAt: z.date(),
+  createdBy: z.string().min(1, 'Created by is required')
+})
+
+export type AgreementTemplateVersion = z.infer<typeof AgreementTemplateVersionSchema>
+
+// Audit trail of a signature captured by the built-in signing flow
+export const SignatureAuditSchema = z.object({
+  method: z.enum(['drawn', 'typed']),
+  signerName: z.string().min(1, 'Signer name is required'),
+  signerEmail: z.string().email('Invalid signer email format'),
+  signedAt: z.date(),
+  ipAddress: z.string().optional(),
+  userAgent: z.string().optional(),
+  consentText: z.string().min(1, 'Consent text is required'), // What the signer agreed to when signing electronically
+  documentHash: z.string(), // SHA-256 of the agreement PDF before it was signed
+  signedDocumentHash: z.string(), // SHA-256 of the stored PDF, with signature and certificate
+  signedDocumentId: z.string() // Stored document ID in DocumentStorageService
+})
+
+export type SignatureAudit = z.infer<typeof SignatureAuditSchema>
+
+// Parties who can sign an agreement
+export const SignerRole = {
+  TENANT: 'tenant',
+  CO_TENANT: 'co-tenant',
+  GUARANTOR: 'guarantor',
+  LANDLORD: 'landlord'
+} as const
+
+export type SignerRoleType = typeof SignerRole[keyof typeof SignerRole]
+
+// Whether signers sign one after another or all at once
+export const SigningOrder = {
+  SEQUENTIAL: 'sequential',
+  PARALLEL: 'parallel'
+} as const
+
+export type SigningOrderType = typeof SigningOrder[keyof typeof SigningOrder]
+
+// One party signing an agreement, with their own progress and reminders
+export const AgreementSignerSchema = z.object({
+  id: z.string().uuid('Invalid signer ID format'), // Also identifies the signer's signing link
+  role: z.enum(['tenant', 'co-tenant', 'guarantor', 'landlord']),
+  name: z.string().min(1, 'Signer name is required'),
+  email: z.string().email('Invalid signer email format'),
+  phone: z.string().optional(),
+  order: z.number().int().positive('Signing order must be positive'), // Signers sharing an order sign at the same time
+  required: z.boolean().default(true),
+  status: z.enum(['Pending', 'Viewed', 'Signed']).default('Pending'),
+  notifiedDate: z.date().optional(), // When the signer was asked to sign
+  viewedDate: z.date().optional(),
+  signedDate: z.date().optional(),
+  signatureAudit: SignatureAuditSchema.optional(), // Set when signed without DocuSign
+  remindersSent: z.number().int().nonnegative('Reminders sent must be non-negative').default(0),
+  lastReminderDate: z.date().optional(),
+  language: z.enum(['en', 'vi']).optional() // Language of the signer's emails and signing page; English when not set
+})
+
+export type AgreementSigner = z.infer<typeof AgreementSignerSchema>
+
 // Agreement schema for tracking sent agreements
 export const AgreementSchema = z.object({
   id: z.string().uuid('Invalid agreement ID format'),
   templateId: z.string().uuid('Invalid template ID format'),
+  templateVersion: z.number().int().positive().optional(), // Version the agreement was sent with; older agreements use the current one
+  documentLanguages: z.array(z.enum(['en', 'vi'])).min(1).max(2).optional(), // Two languages render side by side; older agreements use the template's language
   propertyId: z.string().uuid('Invalid property ID format'),
   prospectEmail: z.string().email('Invalid prospect email format'),
   prospectName: z.string().min(1, 'Prospect name is required'),
   prospectPhone: z.string().optional(),
+  notificationChannels: z.array(z.enum(['whatsapp', 'sms'])).optional(), // Text channels to notify the prospect on besides email
   
   // Status tracking
   status: z.enum(['Sent', 'Viewed', 'Signed', 'Completed', 'Expired', 'Cancelled']),
@@ -73,6 +170,11 @@ export const AgreementSchema = z.object({
   docusignEnvelopeId: z.string().optional(),
   documentUrl: z.string().url('Invalid document URL').optional(),
   signedDocumentUrl: z.string().url('Invalid signed document URL').optional(),
+  signedDocumentId: z.string().optional(), // Stored PDF with every signature captured in the app so far
+
+  // Signing parties, the first tenant being the prospect
+  signers: z.array(AgreementSignerSchema).default([]),
+  signingOrder: z.enum(['sequential', 'parallel']).default('sequential'),
   
   // Reminder tracking
   remindersSent: z.number().int().nonnegative('Reminders sent must be non-negative').default(0),
@@ -92,6 +194,7 @@ export const AgreementSchema = z.object({
   // Tenant creation tracking
   tenantCreated: z.boolean().default(false),
   tenantId: z.string().uuid('Invalid tenant ID format').optional(),
+  tenantIds: z.array(z.string().uuid('Invalid tenant ID format')).default([]), // One per tenant and co-tenant
   
   // Relational data
   property: PropertySchema.optional(),
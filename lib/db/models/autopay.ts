@@ -0,0 +1,98 @@
+import { z } from 'zod'
+
+// Autopay enrollment status enum
+export const AutopayStatus = {
+  ACTIVE: 'Active',
+  PAUSED: 'Paused', // Paused automatically after repeated failures, until the tenant resumes it
+  CANCELLED: 'Cancelled'
+} as const
+
+export type AutopayStatusType = typeof AutopayStatus[keyof typeof AutopayStatus]
+
+// Autopay charge attempt status enum
+export const AutopayAttemptStatus = {
+  SCHEDULED: 'Scheduled', // Tenant notified, charge runs on scheduledFor
+  SUCCEEDED: 'Succeeded',
+  FAILED: 'Failed',
+  CANCELLED: 'Cancelled' // Payment settled or autopay stopped before the charge ran
+} as const
+
+export type AutopayAttemptStatusType = typeof AutopayAttemptStatus[keyof typeof AutopayAttemptStatus]
+
+// A tenant's opt-in to have rent charged off-session to their autopay card
+export const AutopayEnrollmentSchema = z.object({
+  id: z.string().uuid('Invalid autopay enrollment ID format'),
+  tenantId: z.string().uuid('Invalid tenant ID format'),
+  status: z.enum(['Active', 'Paused', 'Cancelled']).default('Active'),
+  noticeDaysBefore: z.number().int().nonnegative().default(3), // Days before each charge the tenant is notified
+  retryDelaysDays: z.array(z.number().int().positive()).default([2, 4]), // Days after each failed charge to retry
+  maxConsecutiveFailures: z.number().int().positive().default(3),
+  consecutiveFailures: z.number().int().nonnegative().default(0),
+  activatedAt: z.date(), // Last enrolled or resumed; earlier failed attempts don't count towards retries
+  pausedAt: z.date().optional(),
+  pauseReason: z.string().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date()
+})
+
+export type AutopayEnrollment = z.infer<typeof AutopayEnrollmentSchema>
+
+export const CreateAutopayEnrollmentSchema = AutopayEnrollmentSchema.omit({
+  id: true,
+  status: true,
+  consecutiveFailures: true,
+  pausedAt: true,
+  pauseReason: true,
+  createdAt: true,
+  updatedAt: true
+})
+
+export type CreateAutopayEnrollmentInput = z.input<typeof CreateAutopayEnrollmentSchema>
+
+export const UpdateAutopayEnrollmentSchema = AutopayEnrollmentSchema.omit({
+  id: true,
+  tenantId: true,
+  createdAt: true
+}).partial()
+
+export type UpdateAutopayEnrollmentInput = z.infer<typeof UpdateAutopayEnrollmentSchema>
+
+// One scheduled off-session charge of a payment
+export const AutopayAttemptSchema = z.object({
+  id: z.string().uuid('Invalid autopay attempt ID format'),
+  enrollmentId: z.string().uuid('Invalid autopay enrollment ID format'),
+  tenantId: z.string().uuid('Invalid tenant ID format'),
+  paymentId: z.string().uuid('Invalid payment ID format'),
+  attemptNumber: z.number().int().positive(), // 1 for the due date charge, then each retry
+  scheduledFor: z.date(),
+  amountCents: z.number().int().positive('Amount must be positive (in cents)'),
+  currency: z.string().length(3, 'Currency must be 3-letter code').default('USD'),
+  status: z.enum(['Scheduled', 'Succeeded', 'Failed', 'Cancelled']).default('Scheduled'),
+  noticeSentAt: z.date().optional(),
+  stripePaymentIntentId: z.string().optional(),
+  failureReason: z.string().optional(),
+  attemptedAt: z.date().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date()
+})
+
+export type AutopayAttempt = z.infer<typeof AutopayAttemptSchema>
+
+export const CreateAutopayAttemptSchema = AutopayAttemptSchema.omit({
+  id: true,
+  status: true,
+  createdAt: true,
+  updatedAt: true
+})
+
+export type CreateAutopayAttemptInput = z.input<typeof CreateAutopayAttemptSchema>
+
+export const UpdateAutopayAttemptSchema = AutopayAttemptSchema.omit({
+  id: true,
+  enrollmentId: true,
+  tenantId: true,
+  paymentId: true,
+  createdAt: true
+}).partial()
+
+export type UpdateAutopayAttemptInput = z.infer<typeof UpdateAutopayAttemptSchema>
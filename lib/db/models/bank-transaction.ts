@@ -0,0 +1,78 @@
+import { z } from 'zod'
+
+// Bank statement file format enum
+export const BankStatementFormat = {
+  CSV: 'csv',
+  OFX: 'ofx',
+  CAMT053: 'camt053'
+} as const
+
+export type BankStatementFormatType = typeof BankStatementFormat[keyof typeof BankStatementFormat]
+
+// Bank transaction reconciliation status enum
+export const BankTransactionStatus = {
+  UNMATCHED: 'Unmatched',
+  MATCHED: 'Matched',
+  IGNORED: 'Ignored'
+} as const
+
+export type BankTransactionStatusType = typeof BankTransactionStatus[keyof typeof BankTransactionStatus]
+
+// Match proposals at or above this confidence are preselected for bulk confirmation
+export const HIGH_MATCH_CONFIDENCE = 80
+
+// Maps a bank's CSV export onto statement fields. Column values are header names.
+export const CSVColumnMappingSchema = z.object({
+  date: z.string().min(1, 'Date column is required'),
+  amount: z.string().min(1, 'Amount column is required'),
+  description: z.string().min(1, 'Description column is required'),
+  reference: z.string().optional(),
+  counterparty: z.string().optional(),
+  currency: z.string().optional(), // Column holding the currency, when the export has one
+  defaultCurrency: z.string().length(3, 'Currency must be 3-letter code').default('USD'),
+  dateFormat: z.enum(['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY']).default('YYYY-MM-DD'),
+  decimalSeparator: z.enum(['.', ',']).default('.'),
+  delimiter: z.enum([',', ';', '\t']).default(',')
+})
+
+export type CSVColumnMapping = z.infer<typeof CSVColumnMappingSchema>
+export type CSVColumnMappingInput = z.input<typeof CSVColumnMappingSchema>
+
+// An incoming credit from an imported bank statement
+export const BankTransactionSchema = z.object({
+  id: z.string().uuid('Invalid bank transaction ID format'),
+  importBatchId: z.string().uuid('Invalid import batch ID format'),
+  format: z.enum(['csv', 'ofx', 'camt053']),
+  bankAccount: z.string().optional(),
+  transactionDate: z.date(),
+  amountCents: z.number().int().positive('Amount must be positive (in cents)'),
+  currency: z.string().length(3, 'Currency must be 3-letter code').default('USD'),
+  description: z.string().default(''),
+  counterpartyName: z.string().optional(),
+  bankReference: z.string().min(1, 'Bank reference is required'),
+  status: z.enum(['Unmatched', 'Matched', 'Ignored']).default('Unmatched'),
+  matchedPaymentId: z.string().uuid('Invalid payment ID format').optional(),
+  matchConfidence: z.number().min(0).max(100).optional(), // Score of the confirmed match
+  reconciledAt: z.date().optional(),
+  reconciledBy: z.string().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date()
+})
+
+export type BankTransaction = z.infer<typeof BankTransactionSchema>
+
+export const CreateBankTransactionSchema = BankTransactionSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+})
+
+export type CreateBankTransactionInput = z.input<typeof CreateBankTransactionSchema>
+
+export const UpdateBankTransactionSchema = BankTransactionSchema.omit({
+  id: true,
+  importBatchId: true,
+  createdAt: true
+}).partial()
+
+export type UpdateBankTransactionInput = z.infer<typeof UpdateBankTransactionSchema>
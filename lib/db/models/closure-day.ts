@@ -0,0 +1,23 @@
+import { z } from 'zod'
+
+// Closure day schema - a day a property's office is closed, on top of public holidays
+export const ClosureDaySchema = z.object({
+  id: z.string().uuid('Invalid closure day ID format'),
+  propertyId: z.string().uuid('Invalid property ID format'),
+  date: z.date(),
+  name: z.string().min(1, 'Closure name is required').max(100, 'Closure name too long'),
+  createdBy: z.string().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date()
+})
+
+export type ClosureDay = z.infer<typeof ClosureDaySchema>
+
+// Create closure day input schema
+export const CreateClosureDaySchema = ClosureDaySchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+})
+
+export type CreateClosureDayInput = z.infer<typeof CreateClosureDaySchema>
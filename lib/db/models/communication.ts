@@ -8,6 +8,7 @@ export enum CommunicationType {
   IN_PERSON = 'In Person',
   WHATSAPP = 'WhatsApp',
   TEXT = 'Text',
+  ZALO = 'Zalo',
   MAINTENANCE_REQUEST = 'Maintenance Request',
   COMPLAINT = 'Complaint',
   GENERAL = 'General'
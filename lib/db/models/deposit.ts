@@ -0,0 +1,96 @@
+import { z } from 'zod'
+
+// Security deposit status enum
+export const DepositStatus = {
+  HELD: 'Held',
+  SETTLED: 'Settled'
+} as const
+
+export type DepositStatusType = typeof DepositStatus[keyof typeof DepositStatus]
+
+// Deposit deduction type enum
+export const DepositDeductionType = {
+  MAINTENANCE: 'Maintenance',
+  CLEANING: 'Cleaning',
+  UNPAID_PAYMENT: 'Unpaid Payment',
+  OTHER: 'Other'
+} as const
+
+export type DepositDeductionTypeType = typeof DepositDeductionType[keyof typeof DepositDeductionType]
+
+// Itemized deduction taken from a deposit at move-out
+export const DepositDeductionSchema = z.object({
+  id: z.string().uuid('Invalid deduction ID format'),
+  type: z.enum(['Maintenance', 'Cleaning', 'Unpaid Payment', 'Other']),
+  description: z.string().min(1, 'Deduction description is required'),
+  amountCents: z.number().int().positive('Deduction amount must be positive (in cents)'),
+  maintenanceRecordId: z.string().uuid('Invalid maintenance record ID format').optional(),
+  taskId: z.string().min(1, 'Task ID is required').optional(),
+  paymentId: z.string().uuid('Invalid payment ID format').optional(),
+  createdAt: z.date()
+})
+
+export type DepositDeduction = z.infer<typeof DepositDeductionSchema>
+
+export const CreateDepositDeductionSchema = DepositDeductionSchema.omit({
+  id: true,
+  createdAt: true
+})
+
+export type CreateDepositDeductionInput = z.infer<typeof CreateDepositDeductionSchema>
+
+// Security deposit schema
+export const SecurityDepositSchema = z.object({
+  id: z.string().uuid('Invalid deposit ID format'),
+  tenantId: z.string().uuid('Invalid tenant ID format'),
+  propertyId: z.string().uuid('Invalid property ID format'),
+  roomId: z.string().uuid('Invalid room ID format').optional(),
+  leaseId: z.string().uuid('Invalid lease ID format').optional(),
+  amountCents: z.number().int().positive('Deposit amount must be positive (in cents)'),
+  currency: z.string().length(3, 'Currency must be 3-letter code').default('USD'),
+  status: z.enum(['Held', 'Settled']).default('Held'),
+
+  // Collection
+  collectedDate: z.date(),
+  paymentMethod: z.enum(['Stripe', 'PayPal', 'Venmo', 'Wise', 'Revolut', 'Wire', 'Cash']),
+  reference: z.string().optional(),
+
+  // Move-out settlement
+  deductions: z.array(DepositDeductionSchema).default([]),
+  refundCents: z.number().int().nonnegative('Refund must be non-negative').optional(),
+  refundDate: z.date().optional(),
+  refundMethod: z.enum(['Stripe', 'PayPal', 'Venmo', 'Wise', 'Revolut', 'Wire', 'Cash']).optional(),
+  refundReference: z.string().optional(),
+  settledAt: z.date().optional(),
+  settledBy: z.string().optional(),
+
+  notes: z.string().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date()
+})
+
+export type SecurityDeposit = z.infer<typeof SecurityDepositSchema>
+
+export const CreateSecurityDepositSchema = SecurityDepositSchema.omit({
+  id: true,
+  status: true,
+  deductions: true,
+  refundCents: true,
+  refundDate: true,
+  refundMethod: true,
+  refundReference: true,
+  settledAt: true,
+  settledBy: true,
+  createdAt: true,
+  updatedAt: true
+})
+
+export type CreateSecurityDepositInput = z.infer<typeof CreateSecurityDepositSchema>
+
+export const UpdateSecurityDepositSchema = SecurityDepositSchema.partial().omit({
+  id: true,
+  tenantId: true,
+  createdAt: true
+})
+
+export type UpdateSecurityDepositInput = z.infer<typeof UpdateSecurityDepositSchema>
@@ -0,0 +1,118 @@
+import { z } from 'zod'
+
+// Dunning notice enum - the wording of the message sent at a stage
+export const DunningNotice = {
+  FRIENDLY: 'friendly',
+  FIRM: 'firm',
+  FORMAL: 'formal'
+} as const
+
+export type DunningNoticeType = typeof DunningNotice[keyof typeof DunningNotice]
+
+// Dunning action enum - what else happens when a payment reaches a stage
+export const DunningAction = {
+  CREATE_TASK: 'create_task', // Task for the manager to call the tenant
+  ESCALATE_TO_MANAGER: 'escalate_to_manager', // HIGH priority communication assigned to the manager
+  HAND_OFF_TO_OWNER: 'hand_off_to_owner' // URGENT communication assigned to the property owner
+} as const
+
+export type DunningActionType = typeof DunningAction[keyof typeof DunningAction]
+
+// One step of a dunning workflow, entered once a payment is this many days overdue
+export const DunningStageSchema = z.object({
+  key: z.string().regex(/^[a-z0-9-]+$/, 'Stage key must be lowercase letters, numbers and dashes'),
+  name: z.string().min(1, 'Stage name is required').max(100, 'Stage name too long'),
+  daysAfterDue: z.number().int().min(1, 'Stages start once a payment is at least a day overdue'),
+  notice: z.enum(['friendly', 'firm', 'formal']).optional(), // No message to the tenant when unset
+  channels: z.array(z.enum(['email', 'whatsapp', 'sms', 'zalo'])).optional(), // The tenant's own channels when unset
+  actions: z.array(z.enum(['create_task', 'escalate_to_manager', 'hand_off_to_owner'])).default([])
+})
+
+export type DunningStage = z.infer<typeof DunningStageSchema>
+
+const DunningStagesSchema = z.array(DunningStageSchema)
+  .min(1, 'A dunning workflow needs at least one stage')
+  .refine(
+    stages => stages.every((stage, index) => index === 0 || stage.daysAfterDue > stages[index - 1].daysAfterDue),
+    'Stages must be in order of days overdue'
+  )
+  .refine(
+    stages => new Set(stages.map(stage => stage.key)).size === stages.length,
+    'Stage keys must be unique'
+  )
+
+// Dunning workflow validation schema
+export const DunningWorkflowSchema = z.object({
+  id: z.string().uuid('Invalid dunning workflow ID format'),
+  propertyId: z.string().uuid('Invalid property ID format').optional(), // null for the global workflow
+  enabled: z.boolean().default(true),
+  managerId: z.string().optional(), // Assignee for call tasks and escalations
+  stages: DunningStagesSchema,
+  createdAt: z.date(),
+  updatedAt: z.date()
+})
+
+export type DunningWorkflow = z.infer<typeof DunningWorkflowSchema>
+
+// Create dunning workflow input schema
+export const CreateDunningWorkflowSchema = DunningWorkflowSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+})
+
+export type CreateDunningWorkflowInput = z.input<typeof CreateDunningWorkflowSchema>
+
+// The stages a new workflow starts from
+export const DEFAULT_DUNNING_STAGES: DunningStage[] = [
+  { key: 'friendly-reminder', name: 'Friendly reminder', daysAfterDue: 1, notice: 'friendly', actions: [] },
+  { key: 'firm-notice', name: 'Firm notice', daysAfterDue: 5, notice: 'firm', actions: [] },
+  { key: 'manager-call', name: 'Manager call', daysAfterDue: 10, actions: ['create_task'] },
+  { key: 'formal-notice', name: 'Formal notice', daysAfterDue: 15, notice: 'formal', actions: ['escalate_to_manager'] },
+  { key: 'owner-hand-off', name: 'Hand-off to owner', daysAfterDue: 30, actions: ['hand_off_to_owner'] }
+]
+
+// Dunning progress schema - the stage an overdue payment has reached
+export const DunningProgressSchema = z.object({
+  id: z.string().uuid('Invalid dunning progress ID format'),
+  paymentId: z.string().uuid('Invalid payment ID format'),
+  tenantId: z.string().uuid('Invalid tenant ID format'),
+  propertyId: z.string().uuid('Invalid property ID format'),
+  stageKey: z.string(),
+  stageName: z.string(),
+  stageIndex: z.number().int().min(0),
+  enteredAt: z.date(),
+  history: z.array(z.object({
+    stageKey: z.string(),
+    enteredAt: z.date(),
+    taskId: z.string().optional(),
+    communicationIds: z.array(z.string()).default([])
+  })).default([]),
+  resolvedAt: z.date().optional(), // Set once the payment is paid or rescheduled
+  createdAt: z.date(),
+  updatedAt: z.date()
+})
+
+export type DunningProgress = z.infer<typeof DunningProgressSchema>
+export type DunningStageEntry = DunningProgress['history'][number]
+
+// Create dunning progress input schema
+export const CreateDunningProgressSchema = DunningProgressSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+})
+
+export type CreateDunningProgressInput = z.input<typeof CreateDunningProgressSchema>
+
+// Update dunning progress input schema
+export const UpdateDunningProgressSchema = DunningProgressSchema.pick({
+  stageKey: true,
+  stageName: true,
+  stageIndex: true,
+  enteredAt: true,
+  history: true,
+  resolvedAt: true
+}).partial()
+
+export type UpdateDunningProgressInput = z.input<typeof UpdateDunningProgressSchema>
@@ -0,0 +1,41 @@
+import { z } from 'zod'
+
+// Currencies used for rent, payments and expenses
+export const SupportedCurrency = {
+  USD: 'USD',
+  VND: 'VND',
+  EUR: 'EUR'
+} as const
+
+export type SupportedCurrencyType = typeof SupportedCurrency[keyof typeof SupportedCurrency]
+
+// Exchange rate source enum
+export const ExchangeRateSource = {
+  MANUAL: 'manual',
+  CSV: 'csv'
+} as const
+
+export type ExchangeRateSourceType = typeof ExchangeRateSource[keyof typeof ExchangeRateSource]
+
+// One unit of fromCurrency is worth `rate` units of toCurrency from effectiveDate on
+export const ExchangeRateSchema = z.object({
+  id: z.string().uuid('Invalid exchange rate ID format'),
+  fromCurrency: z.enum(['USD', 'VND', 'EUR']),
+  toCurrency: z.enum(['USD', 'VND', 'EUR']),
+  rate: z.number().positive('Exchange rate must be positive'),
+  effectiveDate: z.date(),
+  source: z.enum(['manual', 'csv']).default('manual'),
+  createdBy: z.string().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date()
+})
+
+export type ExchangeRate = z.infer<typeof ExchangeRateSchema>
+
+export const CreateExchangeRateSchema = ExchangeRateSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+})
+
+export type CreateExchangeRateInput = z.infer<typeof CreateExchangeRateSchema>
@@ -0,0 +1,54 @@
+import { z } from 'zod'
+
+// Payment plan status enum
+export const PaymentPlanStatus = {
+  ACTIVE: 'Active',
+  COMPLETED: 'Completed',
+  DEFAULTED: 'Defaulted' // An installment was missed; the remaining balance is overdue again
+} as const
+
+export type PaymentPlanStatusType = typeof PaymentPlanStatus[keyof typeof PaymentPlanStatus]
+
+// Payment plan schema - overdue payments rescheduled into installments
+export const PaymentPlanSchema = z.object({
+  id: z.string().uuid('Invalid payment plan ID format'),
+  tenantId: z.string().uuid('Invalid tenant ID format'),
+  propertyId: z.string().uuid('Invalid property ID format'),
+  coveredPaymentIds: z.array(z.string().uuid()).min(1, 'A payment plan must cover at least one payment'),
+  installmentPaymentIds: z.array(z.string().uuid()).default([]),
+  totalCents: z.number().int().positive('Amount must be positive (in cents)'),
+  currency: z.string().length(3, 'Currency must be 3-letter code').default('USD'),
+  installmentCount: z.number().int().min(1, 'A payment plan needs at least one installment'),
+  firstDueDate: z.date(),
+  intervalMonths: z.number().int().positive().default(1),
+  gracePeriodDays: z.number().int().nonnegative().default(3), // Days an installment may be late before the plan defaults
+  status: z.enum(['Active', 'Completed', 'Defaulted']).default('Active'),
+  missedInstallmentId: z.string().uuid().optional(),
+  defaultedAt: z.date().optional(),
+  completedAt: z.date().optional(),
+  notes: z.string().optional(),
+  createdBy: z.string().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date()
+})
+
+export type PaymentPlan = z.infer<typeof PaymentPlanSchema>
+
+// Create payment plan input schema
+export const CreatePaymentPlanSchema = PaymentPlanSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+})
+
+export type CreatePaymentPlanInput = z.input<typeof CreatePaymentPlanSchema>
+
+// Update payment plan input schema
+export const UpdatePaymentPlanSchema = PaymentPlanSchema.omit({
+  id: true,
+  tenantId: true,
+  createdAt: true,
+  updatedAt: true
+}).partial()
+
+export type UpdatePaymentPlanInput = z.infer<typeof UpdatePaymentPlanSchema>
@@ -17,12 +17,64 @@ export type PaymentMethodType = typeof PaymentMethod[keyof typeof PaymentMethod]
 export const PaymentStatus = {
   PENDING: 'Pending',
   PAID: 'Paid',
+  PARTIALLY_PAID: 'PartiallyPaid',
   OVERDUE: 'Overdue',
-  REFUNDED: 'Refunded'
+  REFUNDED: 'Refunded',
+  WAIVED: 'Waived',
+  DISPUTED: 'Disputed',
+  RESCHEDULED: 'Rescheduled' // Arrears replaced by payment plan installments
 } as const
 
 export type PaymentStatusType = typeof PaymentStatus[keyof typeof PaymentStatus]
 
+// Payment allocation source enum
+export const PaymentAllocationSource = {
+  PAYMENT: 'payment',
+  CREDIT: 'credit'
+} as const
+
+export type PaymentAllocationSourceType = typeof PaymentAllocationSource[keyof typeof PaymentAllocationSource]
+
+// Money applied against a payment, either received from the tenant or drawn from a credit
+export const PaymentAllocationSchema = z.object({
+  id: z.string().uuid('Invalid allocation ID format'),
+  amountCents: z.number().int().positive('Allocation amount must be positive (in cents)'),
+  source: z.enum(['payment', 'credit']).default('payment'),
+  paymentMethod: z.enum(['Stripe', 'PayPal', 'Venmo', 'Wise', 'Revolut', 'Wire', 'Cash']).optional(),
+  paidDate: z.date(),
+  reference: z.string().optional(),
+  creditId: z.string().uuid('Invalid credit ID format').optional(),
+  notes: z.string().optional(),
+  createdAt: z.date()
+})
+
+export type PaymentAllocation = z.infer<typeof PaymentAllocationSchema>
+
+// Stripe dispute (chargeback) raised against a payment
+export const PaymentDisputeSchema = z.object({
+  stripeDisputeId: z.string().min(1),
+  reason: z.string(),
+  status: z.string(), // Stripe dispute status, e.g. needs_response, under_review, won, lost
+  amountCents: z.number().int().nonnegative(),
+  evidenceDueBy: z.date().optional(), // Deadline for submitting evidence in Stripe
+  statusBeforeDispute: z.enum(['Pending', 'Paid', 'PartiallyPaid', 'Overdue', 'Refunded', 'Waived', 'Disputed', 'Rescheduled']),
+  openedAt: z.date(),
+  closedAt: z.date().optional()
+})
+
+export type PaymentDispute = z.infer<typeof PaymentDisputeSchema>
+
+// Stripe refund against a payment, updated as its asynchronous outcome arrives
+export const PaymentRefundSchema = z.object({
+  stripeRefundId: z.string().min(1),
+  amountCents: z.number().int().positive(),
+  status: z.enum(['pending', 'requires_action', 'succeeded', 'failed', 'canceled']),
+  failureReason: z.string().optional(),
+  updatedAt: z.date()
+})
+
+export type PaymentRefund = z.infer<typeof PaymentRefundSchema>
+
 // Payment validation schema
 export const PaymentSchema = z.object({
   id: z.string().uuid('Invalid payment ID format'),
@@ -31,7 +83,7 @@ export const PaymentSchema = z.object({
   amountCents: z.number().int().positive('Amount must be positive (in cents)'),
   currency: z.string().length(3, 'Currency must be 3-letter code').default('USD'),
   paymentMethod: z.enum(['Stripe', 'PayPal', 'Venmo', 'Wise', 'Revolut', 'Wire', 'Cash']),
-  status: z.enum(['Pending', 'Paid', 'Overdue', 'Refunded']),
+  status: z.enum(['Pending', 'Paid', 'PartiallyPaid', 'Overdue', 'Refunded', 'Waived', 'Disputed', 'Rescheduled']),
   dueDate: z.date(),
   paidDate: z.date().optional(),
   reference: z.string().optional(),
@@ -39,6 +91,17 @@ export const PaymentSchema = z.object({
   description: z.string().min(1, 'Payment description is required'),
   stripePaymentIntentId: z.string().optional(),
   remindersPaused: z.boolean().default(false).optional(),
+  billingPeriodStart: z.date().optional(), // Rent period covered by this payment
+  billingPeriodEnd: z.date().optional(),
+  lateFeeForPaymentId: z.string().uuid().optional(), // Set on late fee charges, links to the overdue payment
+  utilityBillId: z.string().uuid().optional(), // Set on utility charges, links to the split utility bill
+  paymentPlanId: z.string().uuid().optional(), // Set on rescheduled arrears and on the plan's installments
+  reservationId: z.string().uuid().optional(), // Set on reservation fees, links to the room hold
+  shortStayId: z.string().uuid().optional(), // Set on short-stay charges, links to the stay
+  allocations: z.array(PaymentAllocationSchema).optional(), // Partial payments received against this payment
+  dispute: PaymentDisputeSchema.optional(),
+  refundedCents: z.number().int().nonnegative().optional(), // Total refunded through Stripe
+  refunds: z.array(PaymentRefundSchema).optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
   deletedAt: z.date().optional() // For soft deletes
@@ -71,7 +134,7 @@ export type CreatePayment = z.infer<typeof CreatePaymentSchema>
 export const PaymentFiltersSchema = z.object({
   propertyId: z.string().uuid().optional(),
   tenantId: z.string().uuid().optional(),
-  status: z.enum(['Pending', 'Paid', 'Overdue', 'Refunded']).optional(),
+  status: z.enum(['Pending', 'Paid', 'PartiallyPaid', 'Overdue', 'Refunded', 'Waived', 'Disputed', 'Rescheduled']).optional(),
   paymentMethod: z.enum(['Stripe', 'PayPal', 'Venmo', 'Wise', 'Revolut', 'Wire', 'Cash']).optional(),
   dueDateFrom: z.date().optional(),
   dueDateTo: z.date().optional(),
@@ -80,3 +143,28 @@ export const PaymentFiltersSchema = z.object({
 })
 
 export type PaymentFilters = z.infer<typeof PaymentFiltersSchema>
+
+// Tenant credit schema (overpayments carried forward to future charges)
+export const TenantCreditSchema = z.object({
+  id: z.string().uuid('Invalid credit ID format'),
+  tenantId: z.string().uuid('Invalid tenant ID format'),
+  propertyId: z.string().uuid('Invalid property ID format'),
+  amountCents: z.number().int().positive('Credit amount must be positive (in cents)'),
+  remainingCents: z.number().int().nonnegative('Remaining credit must be non-negative'),
+  currency: z.string().length(3, 'Currency must be 3-letter code').default('USD'),
+  sourcePaymentId: z.string().uuid('Invalid payment ID format').optional(),
+  reason: z.string().min(1, 'Credit reason is required'),
+  createdAt: z.date(),
+  updatedAt: z.date()
+})
+
+export type TenantCredit = z.infer<typeof TenantCreditSchema>
+
+export const CreateTenantCreditSchema = TenantCreditSchema.omit({
+  id: true,
+  remainingCents: true,
+  createdAt: true,
+  updatedAt: true
+})
+
+export type CreateTenantCreditInput = z.infer<typeof CreateTenantCreditSchema>
@@ -34,6 +34,8 @@ export const PropertySchema = z.object({
   houseRules: z.array(z.string()).optional(),
   ownerId: z.string().uuid('Invalid owner ID format'),
   isActive: z.boolean().default(true),
+  reportingCurrency: z.enum(['USD', 'VND', 'EUR']).optional(), // Currency reports are converted into, USD when unset
+  rentCurrency: z.enum(['USD', 'VND', 'EUR']).optional(), // Currency rooms are priced and rent is charged in, USD when unset
   createdAt: z.date(),
   updatedAt: z.date(),
   deletedAt: z.date().optional(), // For soft deletes
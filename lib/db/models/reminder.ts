@@ -27,8 +27,10 @@ export const ReminderLogSchema = z.object({
   tenantId: z.string().uuid('Invalid tenant ID format'),
   propertyId: z.string().uuid('Invalid property ID format'),
   reminderType: z.enum(['upcoming', 'due', 'overdue']),
+  channel: z.enum(['email', 'whatsapp', 'sms', 'zalo']).default('email'),
   emailAddress: z.string().email('Invalid email address'),
-  messageId: z.string().optional(), // Resend message ID
+  recipient: z.string().optional(), // Phone number or Zalo user ID for non-email channels
+  messageId: z.string().optional(), // Provider message ID (Resend, WhatsApp, SMS gateway or Zalo)
   status: z.enum(['sent', 'delivered', 'opened', 'bounced', 'failed']),
   error: z.string().optional(),
   sentAt: z.string().datetime('Invalid datetime format'),
@@ -49,7 +51,7 @@ export const CreateReminderLogSchema = ReminderLogSchema.omit({
   openedAt: true
 })
 
-export type CreateReminderLogInput = z.infer<typeof CreateReminderLogSchema>
+export type CreateReminderLogInput = z.input<typeof CreateReminderLogSchema>
 
 // Update reminder log schema (for delivery status updates)
 export const UpdateReminderLogSchema = z.object({
@@ -70,6 +72,7 @@ export const ReminderSettingsSchema = z.object({
   daysAfterDue: z.array(z.number().int().min(0)).default([0, 3]),
   sendOnWeekends: z.boolean().default(false),
   sendOnHolidays: z.boolean().default(false),
+  shiftDueDatesOnHolidays: z.boolean().default(false), // Move due dates on a holiday or closure to the next business day
   maxRemindersPerPayment: z.number().int().min(1).max(10).default(5),
   customMessage: z.string().optional(),
   contactEmail: z.string().email().optional(),
@@ -97,11 +100,66 @@ export const UpdateReminderSettingsSchema = ReminderSettingsSchema.omit({
 
 export type UpdateReminderSettingsInput = z.infer<typeof UpdateReminderSettingsSchema>
 
+// Late fee type enum
+export const LateFeeType = {
+  FLAT: 'flat',
+  PERCENTAGE: 'percentage',
+  DAILY: 'daily'
+} as const
+
+export type LateFeeTypeType = typeof LateFeeType[keyof typeof LateFeeType]
+
+// Late fee policy validation schema (per property, stored alongside reminder settings)
+export const LateFeePolicySchema = z.object({
+  id: z.string().uuid('Invalid late fee policy ID format'),
+  propertyId: z.string().uuid('Invalid property ID format').optional(), // null for global policy
+  enabled: z.boolean().default(true),
+  feeType: z.enum(['flat', 'percentage', 'daily']),
+  flatAmountCents: z.number().int().positive('Flat fee must be positive').optional(),
+  percentage: z.number().positive('Percentage must be positive').max(100, 'Percentage cannot exceed 100').optional(),
+  dailyAmountCents: z.number().int().positive('Daily fee must be positive').optional(),
+  maxFeeCents: z.number().int().positive('Fee cap must be positive').optional(),
+  gracePeriodDays: z.number().int().min(0).default(3),
+  createdAt: z.date(),
+  updatedAt: z.date()
+})
+
+export type LateFeePolicy = z.infer<typeof LateFeePolicySchema>
+
+// Create late fee policy input schema
+export const CreateLateFeePolicySchema = LateFeePolicySchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+}).refine(
+  policy => ({
+    flat: policy.flatAmountCents,
+    percentage: policy.percentage,
+    daily: policy.dailyAmountCents
+  })[policy.feeType] !== undefined,
+  { message: 'The amount for the fee type is required', path: ['feeType'] }
+)
+
+export type CreateLateFeePolicyInput = z.infer<typeof CreateLateFeePolicySchema>
+
+// Update late fee policy schema
+export const UpdateLateFeePolicySchema = LateFeePolicySchema.omit({
+  id: true,
+  propertyId: true,
+  createdAt: true,
+  updatedAt: true
+}).partial()
+
+export type UpdateLateFeePolicyInput = z.infer<typeof UpdateLateFeePolicySchema>
+
 // Tenant reminder preferences validation schema
 export const TenantReminderPreferencesSchema = z.object({
   id: z.string().uuid('Invalid preferences ID format'),
   tenantId: z.string().uuid('Invalid tenant ID format'),
   emailEnabled: z.boolean().default(true),
+  channels: z.array(z.enum(['email', 'whatsapp', 'sms', 'zalo'])).optional(), // Channels to remind on; email only when unset
+  phoneNumber: z.string().regex(/^\+[1-9]\d{6,14}$/, 'Phone number must be in international format').optional(), // For WhatsApp and SMS, instead of the tenant's phone
+  zaloUserId: z.string().optional(), // The tenant's ID as a follower of our Zalo OA
   customSchedule: z.array(z.number().int()).optional(),
   optOut: z.boolean().default(false),
   preferredTime: z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/).optional(), // HH:MM format
@@ -142,6 +200,12 @@ export const ReminderAnalyticsSchema = z.object({
   openRate: z.number().min(0).max(1),
   bounceRate: z.number().min(0).max(1),
   effectivenessRate: z.number().min(0).max(1), // payments made after reminder
+  dunningStages: z.array(z.object({
+    stageKey: z.string(),
+    stageName: z.string(),
+    activePayments: z.number().int().min(0), // Overdue payments currently at this stage
+    resolvedPayments: z.number().int().min(0) // Payments settled during the period while at this stage
+  })),
   period: z.object({
     from: z.string().datetime(),
     to: z.string().datetime()
@@ -156,6 +220,7 @@ export const ReminderLogFiltersSchema = z.object({
   tenantId: z.string().uuid().optional(),
   propertyId: z.string().uuid().optional(),
   reminderType: z.enum(['upcoming', 'due', 'overdue']).optional(),
+  channel: z.enum(['email', 'whatsapp', 'sms', 'zalo']).optional(),
   status: z.enum(['sent', 'delivered', 'opened', 'bounced', 'failed']).optional(),
   sentFrom: z.string().datetime().optional(),
   sentTo: z.string().datetime().optional()
@@ -0,0 +1,70 @@
+import { z } from 'zod'
+
+// Reservation status enum
+export const ReservationStatus = {
+  HELD: 'Held',
+  AGREEMENT_SENT: 'AgreementSent', // Converted into an agreement that is still awaiting signature
+  CONVERTED: 'Converted', // Agreement signed, the lease now holds the room
+  RELEASED: 'Released',
+  EXPIRED: 'Expired' // Hold lapsed before an agreement was sent
+} as const
+
+export type ReservationStatusType = typeof ReservationStatus[keyof typeof ReservationStatus]
+
+// Statuses in which the reservation keeps the room off the market
+export const HOLDING_RESERVATION_STATUSES: ReservationStatusType[] = [
+  ReservationStatus.HELD,
+  ReservationStatus.AGREEMENT_SENT
+]
+
+// Room reservation schema - a room held for a prospect between viewing and signing
+export const RoomReservationSchema = z.object({
+  id: z.string().uuid('Invalid reservation ID format'),
+  roomId: z.string().uuid('Invalid room ID format'),
+  propertyId: z.string().uuid('Invalid property ID format'),
+  prospectName: z.string().min(1, 'Prospect name is required'),
+  prospectEmail: z.string().email('Invalid prospect email format'),
+  prospectPhone: z.string().optional(),
+  // Stands in for the tenant on the reservation fee until the prospect signs and becomes a tenant
+  prospectId: z.string().uuid('Invalid prospect ID format'),
+  tenantId: z.string().uuid('Invalid tenant ID format').optional(),
+  startDate: z.date(), // Intended move-in
+  endDate: z.date().optional(), // Intended move-out, open-ended when unset
+  holdExpiresAt: z.date(),
+  status: z.enum(['Held', 'AgreementSent', 'Converted', 'Released', 'Expired']).default('Held'),
+  feeCents: z.number().int().positive('Reservation fee must be positive (in cents)').optional(),
+  currency: z.string().length(3, 'Currency must be 3-letter code').default('USD'),
+  feePaymentId: z.string().uuid('Invalid payment ID format').optional(),
+  agreementId: z.string().uuid('Invalid agreement ID format').optional(),
+  releasedAt: z.date().optional(),
+  releaseReason: z.string().optional(),
+  notes: z.string().optional(),
+  createdBy: z.string().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date()
+})
+
+export type RoomReservation = z.infer<typeof RoomReservationSchema>
+
+// Create reservation input schema
+export const CreateRoomReservationSchema = RoomReservationSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+})
+
+export type CreateRoomReservationInput = z.input<typeof CreateRoomReservationSchema>
+
+// Update reservation input schema
+export const UpdateRoomReservationSchema = RoomReservationSchema.pick({
+  status: true,
+  tenantId: true,
+  holdExpiresAt: true,
+  feePaymentId: true,
+  agreementId: true,
+  releasedAt: true,
+  releaseReason: true,
+  notes: true
+}).partial()
+
+export type UpdateRoomReservationInput = z.infer<typeof UpdateRoomReservationSchema>
@@ -17,6 +17,8 @@ export const RoomSchema = z.object({
   size: z.number().positive('Room size must be positive'),
   features: z.array(z.string()).optional(),
   monthlyRent: z.number().nonnegative('Monthly rent must be non-negative'),
+  nightlyRate: z.number().positive('Nightly rate must be positive').optional(), // Short-stay rates, derived from the monthly rent when unset
+  weeklyRate: z.number().positive('Weekly rate must be positive').optional(),
   deposit: z.number().nonnegative('Deposit must be non-negative'),
   isAvailable: z.boolean().optional(),
   condition: RoomConditionSchema.optional(),
@@ -48,15 +50,23 @@ export type UpdateRoomInput = z.infer<typeof UpdateRoomSchema>
 export const OccupancyStatusSchema = z.enum(['Current', 'Past', 'Future'])
 export type OccupancyStatus = z.infer<typeof OccupancyStatusSchema>
 
+// Occupancy kind enumeration - a tenant's stay, or dates blocked by a booking made elsewhere
+export const OccupancyKindSchema = z.enum(['Tenancy', 'Block'])
+export type OccupancyKind = z.infer<typeof OccupancyKindSchema>
+
 // Occupancy record schema
 export const OccupancyRecordSchema = z.object({
   id: z.string().uuid('Invalid occupancy record ID format'),
   roomId: z.string().uuid('Invalid room ID format'),
-  tenantId: z.string().uuid('Invalid tenant ID format'),
+  kind: OccupancyKindSchema.optional(), // Tenancy when unset
+  tenantId: z.string().uuid('Invalid tenant ID format').optional(), // Blocks have no tenant here
   startDate: z.date(),
   endDate: z.date().optional().nullable(),
-  monthlyRent: z.number().positive('Monthly rent must be positive'),
+  monthlyRent: z.number().positive('Monthly rent must be positive').optional(),
   status: OccupancyStatusSchema,
+  externalCalendar: z.string().optional(), // Name of the imported calendar a block came from
+  externalUid: z.string().optional(), // iCalendar UID of the booking, so re-imports update it
+  summary: z.string().optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
   deletedAt: z.date().optional() // For soft deletes
@@ -121,7 +131,11 @@ export const PropertyAnalyticsSchema = z.object({
   totalRooms: z.number().int().nonnegative(),
   occupiedRooms: z.number().int().nonnegative(),
   availableRooms: z.number().int().nonnegative(),
-  occupancyRate: z.number().min(0).max(1), // 0-1 percentage
+  occupancyRate: z.number().min(0).max(1), // 0-1 percentage, occupied nights over room-nights in the period
+  occupiedNights: z.number().int().nonnegative(),
+  totalNights: z.number().int().nonnegative(), // Rooms times nights in the period
+  periodStart: z.date(),
+  periodEnd: z.date(),
   averageMonthlyRent: z.number().nonnegative(),
   totalMonthlyRevenue: z.number().nonnegative(),
   averageOccupancyDuration: z.number().nonnegative(), // in days
@@ -0,0 +1,49 @@
+import { z } from 'zod'
+
+// Scheduled reminder status enum
+export const ScheduledReminderStatus = {
+  QUEUED: 'Queued',
+  SENT: 'Sent',
+  SKIPPED: 'Skipped', // Payment was settled before the send time
+  FAILED: 'Failed'
+} as const
+
+export type ScheduledReminderStatusType = typeof ScheduledReminderStatus[keyof typeof ScheduledReminderStatus]
+
+// Scheduled reminder schema - a reminder queued for the tenant's preferred local time
+export const ScheduledReminderSchema = z.object({
+  id: z.string().uuid('Invalid scheduled reminder ID format'),
+  paymentId: z.string().uuid('Invalid payment ID format'),
+  tenantId: z.string().uuid('Invalid tenant ID format'),
+  propertyId: z.string().uuid('Invalid property ID format'),
+  reminderType: z.enum(['upcoming', 'due', 'overdue']),
+  dunningStage: z.string().optional(), // Key of the dunning stage the payment enters when this goes out
+  localDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Local date must be YYYY-MM-DD'), // The tenant's calendar day the reminder is for
+  timeZone: z.string().min(1),
+  sendAt: z.date(),
+  status: z.enum(['Queued', 'Sent', 'Skipped', 'Failed']).default('Queued'),
+  sentAt: z.date().optional(),
+  error: z.string().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date()
+})
+
+export type ScheduledReminder = z.infer<typeof ScheduledReminderSchema>
+
+// Create scheduled reminder input schema
+export const CreateScheduledReminderSchema = ScheduledReminderSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+})
+
+export type CreateScheduledReminderInput = z.input<typeof CreateScheduledReminderSchema>
+
+// Update scheduled reminder input schema
+export const UpdateScheduledReminderSchema = ScheduledReminderSchema.pick({
+  status: true,
+  sentAt: true,
+  error: true
+}).partial()
+
+export type UpdateScheduledReminderInput = z.infer<typeof UpdateScheduledReminderSchema>
@@ -0,0 +1,69 @@
+import { z } from 'zod'
+
+// Short stay status enum
+export const ShortStayStatus = {
+  BOOKED: 'Booked',
+  CHECKED_IN: 'CheckedIn',
+  CHECKED_OUT: 'CheckedOut',
+  CANCELLED: 'Cancelled'
+} as const
+
+export type ShortStayStatusType = typeof ShortStayStatus[keyof typeof ShortStayStatus]
+
+// How a short stay is priced
+export const ShortStayPricing = {
+  NIGHTLY: 'nightly',
+  WEEKLY: 'weekly' // Whole weeks at the weekly rate, leftover nights at the nightly rate
+} as const
+
+export type ShortStayPricingType = typeof ShortStayPricing[keyof typeof ShortStayPricing]
+
+// Short stay schema - a stay of days or weeks in a room, alongside monthly leases
+export const ShortStaySchema = z.object({
+  id: z.string().uuid('Invalid short stay ID format'),
+  roomId: z.string().uuid('Invalid room ID format'),
+  propertyId: z.string().uuid('Invalid property ID format'),
+  tenantId: z.string().uuid('Invalid tenant ID format'),
+  checkInAt: z.date(), // Check-in day at the property's check-in time
+  checkOutAt: z.date(), // Check-out day at the property's check-out time
+  nights: z.number().int().positive('A stay must be at least one night'),
+  pricing: z.enum(['nightly', 'weekly']),
+  nightlyRateCents: z.number().int().positive('Nightly rate must be positive (in cents)'),
+  weeklyRateCents: z.number().int().positive('Weekly rate must be positive (in cents)').optional(),
+  totalCents: z.number().int().positive('Stay total must be positive (in cents)'),
+  currency: z.string().length(3, 'Currency must be 3-letter code').default('USD'),
+  status: z.enum(['Booked', 'CheckedIn', 'CheckedOut', 'Cancelled']).default('Booked'),
+  paymentId: z.string().uuid('Invalid payment ID format').optional(),
+  turnoverTaskId: z.string().optional(), // Cleaning task between this stay and the next
+  checkedInAt: z.date().optional(),
+  checkedOutAt: z.date().optional(),
+  cancelledAt: z.date().optional(),
+  notes: z.string().optional(),
+  createdBy: z.string().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date()
+})
+
+export type ShortStay = z.infer<typeof ShortStaySchema>
+
+// Create short stay input schema
+export const CreateShortStaySchema = ShortStaySchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+})
+
+export type CreateShortStayInput = z.input<typeof CreateShortStaySchema>
+
+// Update short stay input schema
+export const UpdateShortStaySchema = ShortStaySchema.pick({
+  status: true,
+  paymentId: true,
+  turnoverTaskId: true,
+  checkedInAt: true,
+  checkedOutAt: true,
+  cancelledAt: true,
+  notes: true
+}).partial()
+
+export type UpdateShortStayInput = z.infer<typeof UpdateShortStaySchema>
@@ -0,0 +1,45 @@
+import { z } from 'zod'
+
+// Stripe webhook event processing status enum
+export const StripeEventStatus = {
+  PROCESSING: 'processing',
+  PROCESSED: 'processed',
+  FAILED: 'failed'
+} as const
+
+export type StripeEventStatusType = typeof StripeEventStatus[keyof typeof StripeEventStatus]
+
+// A received Stripe webhook event, keyed by Stripe's event ID so redeliveries are processed once
+export const StripeEventSchema = z.object({
+  id: z.string().min(1, 'Stripe event ID is required'),
+  type: z.string().min(1, 'Event type is required'),
+  status: z.enum(['processing', 'processed', 'failed']),
+  paymentId: z.string().uuid().optional(), // Payment changed by the event, if any
+  attempts: z.number().int().positive().default(1),
+  error: z.string().optional(),
+  payload: z.record(z.unknown()), // The event as received, for replay and auditing
+  receivedAt: z.date(),
+  lastAttemptAt: z.date().optional(), // When processing last started, to spot attempts that never finished
+  processedAt: z.date().optional()
+})
+
+export type StripeEvent = z.infer<typeof StripeEventSchema>
+
+export const CreateStripeEventSchema = StripeEventSchema.omit({
+  status: true,
+  attempts: true,
+  receivedAt: true,
+  lastAttemptAt: true,
+  processedAt: true
+})
+
+export type CreateStripeEventInput = z.infer<typeof CreateStripeEventSchema>
+
+export const UpdateStripeEventSchema = StripeEventSchema.omit({
+  id: true,
+  type: true,
+  payload: true,
+  receivedAt: true
+}).partial()
+
+export type UpdateStripeEventInput = z.infer<typeof UpdateStripeEventSchema>
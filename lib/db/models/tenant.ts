@@ -69,6 +69,7 @@ export const LeaseRecordSchema = z.object({
   startDate: z.date(),
   endDate: z.date(),
   monthlyRentCents: z.number().int().positive('Monthly rent must be positive'),
+  currency: z.string().length(3, 'Currency must be 3-letter code').optional(), // Rent currency, the property's when unset
   depositCents: z.number().int().nonnegative('Deposit must be non-negative'),
   documentUrl: z.string().url('Invalid document URL').optional(),
   isActive: z.boolean().default(false),
@@ -104,6 +105,10 @@ export const TenantSchema = z.object({
   // Lease history and management
   leaseHistory: z.array(LeaseRecordSchema).default([]),
   currentLeaseId: z.string().uuid('Invalid lease ID format').optional(),
+
+  // Stripe customer and the saved card used for autopay
+  stripeCustomerId: z.string().optional(),
+  autopayPaymentMethodId: z.string().optional(),
   
   // Legacy fields for backward compatibility
   roomNumber: z.string().min(1, 'Room number is required').optional(),
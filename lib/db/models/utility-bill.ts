@@ -0,0 +1,65 @@
+import { z } from 'zod'
+
+// How a utility bill is divided between the tenants of a property
+export const UtilitySplitMethod = {
+  METER: 'Meter',
+  OCCUPANCY_DAYS: 'OccupancyDays'
+} as const
+
+export type UtilitySplitMethodType = typeof UtilitySplitMethod[keyof typeof UtilitySplitMethod]
+
+// Sub-meter reading for one room over the billing cycle
+export const MeterReadingSchema = z.object({
+  roomId: z.string().uuid('Invalid room ID format'),
+  startReading: z.number().nonnegative('Meter reading must be non-negative'),
+  endReading: z.number().nonnegative('Meter reading must be non-negative')
+}).refine(reading => reading.endReading >= reading.startReading, {
+  message: 'End reading must not be lower than start reading'
+})
+
+export type MeterReading = z.infer<typeof MeterReadingSchema>
+
+// One tenant's part of the bill for one room
+export const UtilityBillShareSchema = z.object({
+  tenantId: z.string().uuid('Invalid tenant ID format'),
+  roomId: z.string().uuid('Invalid room ID format'),
+  usage: z.number().nonnegative(), // kWh (or meter units) for meter splits, days for occupancy splits
+  percentage: z.number().min(0).max(100),
+  amountCents: z.number().int().nonnegative(),
+  justification: z.string()
+})
+
+export type UtilityBillShare = z.infer<typeof UtilityBillShareSchema>
+
+// Utility bill schema - a utility expense split into tenant charges
+export const UtilityBillSchema = z.object({
+  id: z.string().uuid('Invalid utility bill ID format'),
+  propertyId: z.string().uuid('Invalid property ID format'),
+  expenseId: z.string().uuid('Invalid expense ID format'),
+  utilityType: z.string().min(1, 'Utility type is required').default('Electricity'),
+  periodStart: z.date(),
+  periodEnd: z.date(),
+  splitMethod: z.enum(['Meter', 'OccupancyDays']),
+  meterUnit: z.string().min(1).default('kWh'),
+  meterReadings: z.array(MeterReadingSchema).optional(),
+  amountCents: z.number().int().positive('Amount must be positive (in cents)'),
+  currency: z.string().length(3, 'Currency must be 3-letter code').default('USD'),
+  shares: z.array(UtilityBillShareSchema),
+  unallocatedCents: z.number().int().nonnegative().default(0), // Vacant rooms' usage, absorbed by the property
+  paymentIds: z.array(z.string().uuid()).default([]),
+  dueDate: z.date(),
+  createdBy: z.string().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date()
+})
+
+export type UtilityBill = z.infer<typeof UtilityBillSchema>
+
+// Create utility bill input schema
+export const CreateUtilityBillSchema = UtilityBillSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+})
+
+export type CreateUtilityBillInput = z.input<typeof CreateUtilityBillSchema>
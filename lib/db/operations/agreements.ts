@@ -1,8 +1,10 @@
+import { z } from 'zod'
 import { db } from '../../db'
 import { getProperty } from './properties'
 import { 
   Agreement,
   AgreementTemplate,
+  AgreementTemplateVersion,
   AgreementStatusHistory,
   CreateAgreementInput,
   CreateAgreementTemplateInput,
@@ -10,24 +12,35 @@ import {
   UpdateAgreementTemplateInput,
   AgreementSchema,
   AgreementTemplateSchema,
+  AgreementTemplateVersionSchema,
   CreateAgreementSchema,
   CreateAgreementTemplateSchema,
   UpdateAgreementSchema,
   UpdateAgreementTemplateSchema,
   AgreementStatusHistorySchema,
   AgreementStatusType,
-  TemplateVariableValue
+  AgreementSigner,
+  AgreementSignerSchema,
+  AgreementLanguageType,
+  TemplateVariableValue,
+  SignatureAuditSchema
 } from '../models/agreement'
+import { AgreementTemplateRenderer } from '../../agreements/template-renderer'
+import { DEFAULT_RENT_CURRENCY } from '../../currency/conversion'
+import { AGREEMENT_LANGUAGE_NAMES, getTemplateContent } from '../../agreements/bilingual'
 import { v4 as uuidv4 } from 'uuid'
 
 // Generate Redis keys for agreement data
 const getAgreementTemplateKey = (id: string) => `agreement_template:${id}`
+const getAgreementTemplateVersionKey = (templateId: string, version: number) => `agreement_template:${templateId}:version:${version}`
+const getAgreementTemplateVersionsKey = (templateId: string) => `agreement_template:${templateId}:versions`
 const getAgreementKey = (id: string) => `agreement:${id}`
 const getPropertyTemplatesKey = (propertyId: string) => `property:${propertyId}:agreement_templates`
 const getPropertyAgreementsKey = (propertyId: string) => `property:${propertyId}:agreements`
 const getAllTemplatesKey = () => 'agreement_templates:all'
 const getAllAgreementsKey = () => 'agreements:all'
 const getAgreementStatusHistoryKey = (agreementId: string) => `agreement:${agreementId}:status_history`
+const getAgreementSigningLockKey = (agreementId: string) => `agreement:${agreementId}:signing_lock`
 
 // ===== AGREEMENT TEMPLATE OPERATIONS =====
 
@@ -64,6 +77,8 @@ export async function createAgreementTemplate(input: CreateAgreementTemplateInpu
       id: validatedTemplate.id,
       name: validatedTemplate.name,
       content: validatedTemplate.content,
+      language: validatedTemplate.language,
+      translations: JSON.stringify(validatedTemplate.translations),
       propertyId: validatedTemplate.propertyId,
       createdBy: validatedTemplate.createdBy,
       category: validatedTemplate.category,
@@ -88,6 +103,24 @@ export async function createAgreementTemplate(input: CreateAgreementTemplateInpu
     pipeline.hset(templateKey, templateData)
     pipeline.sadd(propertyTemplatesKey, id)
     pipeline.sadd(allTemplatesKey, id)
+
+    // The first version's wording is kept like every later one
+    pipeline.hset(
+      getAgreementTemplateVersionKey(id, validatedTemplate.version),
+      serializeTemplateVersion({
+        templateId: id,
+        version: validatedTemplate.version,
+        content: validatedTemplate.content,
+        language: validatedTemplate.language,
+        translations: validatedTemplate.translations,
+        variables: validatedTemplate.variables,
+        legalReviewDate: validatedTemplate.legalReviewDate,
+        legalReviewedBy: validatedTemplate.legalReviewedBy,
+        createdAt: now,
+        createdBy: validatedTemplate.createdBy
+      })
+    )
+    pipeline.sadd(getAgreementTemplateVersionsKey(id), validatedTemplate.version.toString())
     
     await pipeline.exec()
 
@@ -119,6 +152,7 @@ export async function getAgreementTemplate(id: string): Promise<AgreementTemplat
       createdAt: new Date(data.createdAt as string),
       updatedAt: new Date(data.updatedAt as string),
       legalReviewDate: data.legalReviewDate ? new Date(data.legalReviewDate as string) : undefined,
+      translations: data.translations ? JSON.parse(data.translations as string) : [],
       variables: data.variables ? JSON.parse(data.variables as string) : [],
       version: parseInt(data.version as string),
       isActive: (data.isActive as string) === 'true'
@@ -155,6 +189,8 @@ export async function updateAgreementTemplate(input: UpdateAgreementTemplateInpu
       id: validatedTemplate.id,
       name: validatedTemplate.name,
       content: validatedTemplate.content,
+      language: validatedTemplate.language,
+      translations: JSON.stringify(validatedTemplate.translations),
       propertyId: validatedTemplate.propertyId,
       createdBy: validatedTemplate.createdBy,
       category: validatedTemplate.category,
@@ -169,13 +205,16 @@ export async function updateAgreementTemplate(input: UpdateAgreementTemplateInpu
       isActive: validatedTemplate.isActive.toString()
     }
 
-    Object.keys(templateData).forEach(key => {
-      if (templateData[key] === '') {
-        delete templateData[key]
-      }
+    // Fields that were cleared, such as the legal review of a new version, are removed
+    const clearedFields = Object.keys(templateData).filter(key => templateData[key] === '')
+    clearedFields.forEach(key => {
+      delete templateData[key]
     })
 
     await db.hset(templateKey, templateData)
+    if (clearedFields.length > 0) {
+      await db.hdel(templateKey, ...clearedFields)
+    }
     return validatedTemplate
   } catch (error) {
     console.error('Error updating agreement template:', error)
@@ -236,6 +275,129 @@ export async function deleteAgreementTemplate(id: string): Promise<boolean> {
   }
 }
 
+// ===== AGREEMENT TEMPLATE VERSION OPERATIONS =====
+
+// Store a new template version. Versions never change once stored, apart from their legal review.
+export async function createAgreementTemplateVersion(input: AgreementTemplateVersion): Promise<AgreementTemplateVersion> {
+  try {
+    const validatedVersion = AgreementTemplateVersionSchema.parse(input)
+    const versionKey = getAgreementTemplateVersionKey(validatedVersion.templateId, validatedVersion.version)
+
+    const existing = await db.hgetall(versionKey)
+    if (existing && Object.keys(existing).length > 0) {
+      throw new Error('Template version already exists')
+    }
+
+    const pipeline = db.pipeline()
+    pipeline.hset(versionKey, serializeTemplateVersion(validatedVersion))
+    pipeline.sadd(getAgreementTemplateVersionsKey(validatedVersion.templateId), validatedVersion.version.toString())
+    await pipeline.exec()
+
+    return validatedVersion
+  } catch (error) {
+    console.error('Error creating agreement template version:', error)
+    throw error
+  }
+}
+
+// Get one version of a template
+export async function getAgreementTemplateVersion(templateId: string, version: number): Promise<AgreementTemplateVersion | null> {
+  try {
+    const data = await db.hgetall(getAgreementTemplateVersionKey(templateId, version))
+
+    if (!data || Object.keys(data).length === 0) {
+      return null
+    }
+
+    return AgreementTemplateVersionSchema.parse({
+      ...data,
+      version: parseInt(data.version as string),
+      translations: data.translations ? JSON.parse(data.translations as string) : [],
+      variables: data.variables ? JSON.parse(data.variables as string) : [],
+      legalReviewDate: data.legalReviewDate ? new Date(data.legalReviewDate as string) : undefined,
+      restoredFromVersion: data.restoredFromVersion ? parseInt(data.restoredFromVersion as string) : undefined,
+      createdAt: new Date(data.createdAt as string)
+    })
+  } catch (error) {
+    console.error('Error getting agreement template version:', error)
+    return null
+  }
+}
+
+// Get every stored version of a template, oldest first
+export async function getAgreementTemplateVersions(templateId: string): Promise<AgreementTemplateVersion[]> {
+  try {
+    const versionNumbers = await db.smembers(getAgreementTemplateVersionsKey(templateId))
+
+    if (!versionNumbers || versionNumbers.length === 0) {
+      return []
+    }
+
+    const versions = await Promise.all(
+      versionNumbers
+        .map(version => parseInt(version))
+        .sort((a, b) => a - b)
+        .map(version => getAgreementTemplateVersion(templateId, version))
+    )
+
+    return versions.filter((version): version is AgreementTemplateVersion => version !== null)
+  } catch (error) {
+    console.error('Error getting agreement template versions:', error)
+    return []
+  }
+}
+
+// Record the legal review of a template version
+export async function updateAgreementTemplateVersionReview(
+  templateId: string,
+  version: number,
+  legalReviewedBy: string,
+  legalReviewDate: Date
+): Promise<AgreementTemplateVersion | null> {
+  try {
+    const existing = await getAgreementTemplateVersion(templateId, version)
+    if (!existing) {
+      return null
+    }
+
+    await db.hset(getAgreementTemplateVersionKey(templateId, version), {
+      legalReviewedBy,
+      legalReviewDate: legalReviewDate.toISOString()
+    })
+
+    return { ...existing, legalReviewedBy, legalReviewDate }
+  } catch (error) {
+    console.error('Error updating agreement template version review:', error)
+    throw error
+  }
+}
+
+// Template versions are stored as hashes like the template itself
+function serializeTemplateVersion(version: AgreementTemplateVersion): Record<string, string> {
+  const versionData: Record<string, string> = {
+    templateId: version.templateId,
+    version: version.version.toString(),
+    content: version.content,
+    language: version.language,
+    translations: JSON.stringify(version.translations),
+    variables: JSON.stringify(version.variables),
+    legalReviewDate: version.legalReviewDate?.toISOString() || '',
+    legalReviewedBy: version.legalReviewedBy || '',
+    changeNote: version.changeNote || '',
+    restoredFromVersion: version.restoredFromVersion?.toString() || '',
+    createdAt: version.createdAt.toISOString(),
+    createdBy: version.createdBy
+  }
+
+  Object.keys(versionData).forEach(key => {
+    if (versionData[key] === '') {
+      delete versionData[key]
+    }
+  })
+
+  return versionData
+}
+
 // ===== AGREEMENT OPERATIONS =====
 
 // Create a new agreement
@@ -265,6 +427,8 @@ export async function createAgreement(input: CreateAgreementInput): Promise<Agre
     const agreementData: Record<string, string> = {
       id: validatedAgreement.id,
       templateId: validatedAgreement.templateId,
+      templateVersion: validatedAgreement.templateVersion?.toString() || '',
+      documentLanguages: validatedAgreement.documentLanguages ? JSON.stringify(validatedAgreement.documentLanguages) : '',
       tenantId: validatedAgreement.tenantId || '',
       propertyId: validatedAgreement.propertyId,
       prospectEmail: validatedAgreement.prospectEmail,
@@ -287,6 +451,10 @@ export async function createAgreement(input: CreateAgreementInput): Promise<Agre
       leaseStartDate: validatedAgreement.leaseStartDate?.toISOString() || '',
       leaseEndDate: validatedAgreement.leaseEndDate?.toISOString() || '',
       agreementData: JSON.stringify(validatedAgreement.agreementData || {}),
+      signedDocumentId: validatedAgreement.signedDocumentId || '',
+      signers: JSON.stringify(validatedAgreement.signers),
+      signingOrder: validatedAgreement.signingOrder,
+      tenantIds: JSON.stringify(validatedAgreement.tenantIds),
       remindersSent: validatedAgreement.remindersSent.toString(),
       monthlyRentCents: validatedAgreement.monthlyRentCents?.toString() || '',
       depositCents: validatedAgreement.depositCents?.toString() || '',
@@ -349,6 +517,11 @@ export async function getAgreement(id: string): Promise<Agreement | null> {
       leaseStartDate: data.leaseStartDate ? new Date(data.leaseStartDate as string) : undefined,
       leaseEndDate: data.leaseEndDate ? new Date(data.leaseEndDate as string) : undefined,
       agreementData: data.agreementData ? JSON.parse(data.agreementData as string) : {},
+      signers: data.signers ? parseSigners(data.signers as string) : [],
+      templateVersion: data.templateVersion ? parseInt(data.templateVersion as string) : undefined,
+      documentLanguages: data.documentLanguages ? JSON.parse(data.documentLanguages as string) : undefined,
+      signingOrder: data.signingOrder || 'sequential',
+      tenantIds: data.tenantIds ? JSON.parse(data.tenantIds as string) : [],
       remindersSent: parseInt((data.remindersSent as string) || '0'),
       monthlyRentCents: data.monthlyRentCents ? parseInt(data.monthlyRentCents as string) : undefined,
       depositCents: data.depositCents ? parseInt(data.depositCents as string) : undefined,
@@ -394,6 +567,8 @@ export async function updateAgreement(input: UpdateAgreementInput): Promise<Agre
     const agreementData: Record<string, string> = {
       id: validatedAgreement.id,
       templateId: validatedAgreement.templateId,
+      templateVersion: validatedAgreement.templateVersion?.toString() || '',
+      documentLanguages: validatedAgreement.documentLanguages ? JSON.stringify(validatedAgreement.documentLanguages) : '',
       tenantId: validatedAgreement.tenantId || '',
       propertyId: validatedAgreement.propertyId,
       prospectEmail: validatedAgreement.prospectEmail,
@@ -416,6 +591,10 @@ export async function updateAgreement(input: UpdateAgreementInput): Promise<Agre
       leaseStartDate: validatedAgreement.leaseStartDate?.toISOString() || '',
       leaseEndDate: validatedAgreement.leaseEndDate?.toISOString() || '',
       agreementData: JSON.stringify(validatedAgreement.agreementData || {}),
+      signedDocumentId: validatedAgreement.signedDocumentId || '',
+      signers: JSON.stringify(validatedAgreement.signers),
+      signingOrder: validatedAgreement.signingOrder,
+      tenantIds: JSON.stringify(validatedAgreement.tenantIds),
       remindersSent: validatedAgreement.remindersSent.toString(),
       monthlyRentCents: validatedAgreement.monthlyRentCents?.toString() || '',
       depositCents: validatedAgreement.depositCents?.toString() || '',
@@ -505,6 +684,36 @@ export async function getAllAgreements(): Promise<Agreement[]> {
   }
 }
 
+// Signers are stored as JSON, with their dates as ISO strings
+const StoredSignersSchema = z.array(AgreementSignerSchema.extend({
+  notifiedDate: z.coerce.date().optional(),
+  viewedDate: z.coerce.date().optional(),
+  signedDate: z.coerce.date().optional(),
+  lastReminderDate: z.coerce.date().optional(),
+  signatureAudit: SignatureAuditSchema.extend({ signedAt: z.coerce.date() }).optional()
+}))
+
+function parseSigners(data: string): AgreementSigner[] {
+  return StoredSignersSchema.parse(JSON.parse(data))
+}
+
+// ===== SIGNING LOCK OPERATIONS =====
+
+// Take the agreement's signing lock, returning the owner ID to release it with, or null if another signing holds it
+export async function acquireAgreementSigningLock(agreementId: string, ttlMs: number): Promise<string | null> {
+  const owner = uuidv4()
+  const acquired = await db.set(getAgreementSigningLockKey(agreementId), owner, { nx: true, px: ttlMs })
+  return acquired ? owner : null
+}
+
+// Release the signing lock, unless it expired and was taken by another signing since
+export async function releaseAgreementSigningLock(agreementId: string, owner: string): Promise<void> {
+  const key = getAgreementSigningLockKey(agreementId)
+  if (await db.get<string>(key) === owner) {
+    await db.del(key)
+  }
+}
+
 // ===== STATUS HISTORY OPERATIONS =====
 
 // Add status history entry
@@ -570,23 +779,32 @@ export async function getAgreementStatusHistory(agreementId: string): Promise<Ag
 // Process template variables and populate agreement content
 export async function populateTemplateContent(
   templateId: string, 
-  variableValues: TemplateVariableValue[]
+  variableValues: TemplateVariableValue[],
+  version?: number, // Defaults to the current version
+  language?: AgreementLanguageType // Defaults to the template's own language
 ): Promise<string> {
   try {
     const template = await getAgreementTemplate(templateId)
-    if (!template) {
-      throw new Error('Template not found')
+    const source = version
+      ? await getAgreementTemplateVersion(templateId, version)
+      : template
+    if (!source) {
+      throw new Error(version ? 'Template version not found' : 'Template not found')
     }
 
-    let content = template.content
-    
-    // Replace template variables with actual values
-    variableValues.forEach(variable => {
-      const placeholder = `{{${variable.name}}}`
-      content = content.replace(new RegExp(placeholder, 'g'), String(variable.value))
-    })
+    const content = getTemplateContent(source, language || source.language)
+    if (content === undefined) {
+      throw new Error(`Template has no ${AGREEMENT_LANGUAGE_NAMES[language || source.language]} wording`)
+    }
 
-    return content
+    // House rules come from the property the template belongs to
+    const property = template ? await getProperty(template.propertyId) : null
+
+    return AgreementTemplateRenderer.render(content, source.variables, variableValues, {
+      house_rules: property?.houseRules || []
+    }, {
+      currency: property?.rentCurrency || DEFAULT_RENT_CURRENCY
+    })
   } catch (error) {
     console.error('Error populating template content:', error)
     throw error
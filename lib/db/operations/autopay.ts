@@ -0,0 +1,113 @@
+import { v4 as uuidv4 } from 'uuid'
+import {
+  AutopayAttempt,
+  AutopayAttemptStatusType,
+  AutopayEnrollment,
+  AutopayStatusType,
+  CreateAutopayAttemptInput,
+  CreateAutopayEnrollmentInput,
+  UpdateAutopayAttemptInput,
+  UpdateAutopayEnrollmentInput,
+  AutopayAttemptSchema,
+  AutopayEnrollmentSchema,
+  CreateAutopayAttemptSchema,
+  CreateAutopayEnrollmentSchema,
+  UpdateAutopayAttemptSchema,
+  UpdateAutopayEnrollmentSchema
+} from '../models/autopay'
+
+// In-memory storage for development (replace with actual database in production)
+const enrollments: AutopayEnrollment[] = []
+const attempts: AutopayAttempt[] = []
+
+export async function createAutopayEnrollment(enrollmentData: CreateAutopayEnrollmentInput): Promise<AutopayEnrollment> {
+  const validatedData = CreateAutopayEnrollmentSchema.parse(enrollmentData)
+
+  const now = new Date()
+  const enrollment = AutopayEnrollmentSchema.parse({
+    id: uuidv4(),
+    ...validatedData,
+    createdAt: now,
+    updatedAt: now
+  })
+
+  enrollments.push(enrollment)
+  return enrollment
+}
+
+// A tenant has at most one enrollment; cancelling keeps it for history
+export async function getAutopayEnrollmentByTenant(tenantId: string): Promise<AutopayEnrollment | null> {
+  return enrollments.find(e => e.tenantId === tenantId) || null
+}
+
+export async function getAutopayEnrollmentsByStatus(status: AutopayStatusType): Promise<AutopayEnrollment[]> {
+  return enrollments.filter(e => e.status === status)
+}
+
+export async function updateAutopayEnrollment(id: string, updates: UpdateAutopayEnrollmentInput): Promise<AutopayEnrollment | null> {
+  const enrollmentIndex = enrollments.findIndex(e => e.id === id)
+  if (enrollmentIndex === -1) {
+    return null
+  }
+
+  const validatedUpdates = UpdateAutopayEnrollmentSchema.parse(updates)
+  const updatedEnrollment = AutopayEnrollmentSchema.parse({
+    ...enrollments[enrollmentIndex],
+    ...validatedUpdates,
+    updatedAt: new Date()
+  })
+
+  enrollments[enrollmentIndex] = updatedEnrollment
+  return updatedEnrollment
+}
+
+export async function createAutopayAttempt(attemptData: CreateAutopayAttemptInput): Promise<AutopayAttempt> {
+  const validatedData = CreateAutopayAttemptSchema.parse(attemptData)
+
+  const now = new Date()
+  const attempt = AutopayAttemptSchema.parse({
+    id: uuidv4(),
+    ...validatedData,
+    createdAt: now,
+    updatedAt: now
+  })
+
+  attempts.push(attempt)
+  return attempt
+}
+
+// Attempts for a payment, in the order they were scheduled
+export async function getAutopayAttemptsByPayment(paymentId: string): Promise<AutopayAttempt[]> {
+  return attempts
+    .filter(a => a.paymentId === paymentId)
+    .sort((a, b) => a.attemptNumber - b.attemptNumber)
+}
+
+export async function getAutopayAttemptsByTenant(tenantId: string): Promise<AutopayAttempt[]> {
+  return attempts
+    .filter(a => a.tenantId === tenantId)
+    .sort((a, b) => b.scheduledFor.getTime() - a.scheduledFor.getTime())
+}
+
+export async function getAutopayAttemptsByStatus(status: AutopayAttemptStatusType): Promise<AutopayAttempt[]> {
+  return attempts
+    .filter(a => a.status === status)
+    .sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime())
+}
+
+export async function updateAutopayAttempt(id: string, updates: UpdateAutopayAttemptInput): Promise<AutopayAttempt | null> {
+  const attemptIndex = attempts.findIndex(a => a.id === id)
+  if (attemptIndex === -1) {
+    return null
+  }
+
+  const validatedUpdates = UpdateAutopayAttemptSchema.parse(updates)
+  const updatedAttempt = AutopayAttemptSchema.parse({
+    ...attempts[attemptIndex],
+    ...validatedUpdates,
+    updatedAt: new Date()
+  })
+
+  attempts[attemptIndex] = updatedAttempt
+  return updatedAttempt
+}
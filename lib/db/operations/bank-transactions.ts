@@ -0,0 +1,69 @@
+import { v4 as uuidv4 } from 'uuid'
+import {
+  BankTransaction,
+  BankTransactionStatusType,
+  CreateBankTransactionInput,
+  UpdateBankTransactionInput,
+  BankTransactionSchema,
+  CreateBankTransactionSchema,
+  UpdateBankTransactionSchema
+} from '../models/bank-transaction'
+
+// In-memory storage for development (replace with actual database in production)
+const bankTransactions: BankTransaction[] = []
+
+export async function createBankTransaction(transactionData: CreateBankTransactionInput): Promise<BankTransaction> {
+  const validatedData = CreateBankTransactionSchema.parse(transactionData)
+
+  const now = new Date()
+  const transaction = BankTransactionSchema.parse({
+    id: uuidv4(),
+    ...validatedData,
+    createdAt: now,
+    updatedAt: now
+  })
+
+  bankTransactions.push(transaction)
+  return transaction
+}
+
+export async function getBankTransactionById(id: string): Promise<BankTransaction | null> {
+  return bankTransactions.find(t => t.id === id) || null
+}
+
+// Transactions with a status, oldest first
+export async function getBankTransactionsByStatus(status: BankTransactionStatusType): Promise<BankTransaction[]> {
+  return bankTransactions
+    .filter(t => t.status === status)
+    .sort((a, b) => a.transactionDate.getTime() - b.transactionDate.getTime())
+}
+
+// Used to skip lines already imported from an overlapping statement
+export async function findBankTransactionByReference(
+  bankReference: string,
+  amountCents: number,
+  currency: string
+): Promise<BankTransaction | null> {
+  return bankTransactions.find(t =>
+    t.bankReference === bankReference &&
+    t.amountCents === amountCents &&
+    t.currency === currency
+  ) || null
+}
+
+export async function updateBankTransaction(id: string, updates: UpdateBankTransactionInput): Promise<BankTransaction | null> {
+  const transactionIndex = bankTransactions.findIndex(t => t.id === id)
+  if (transactionIndex === -1) {
+    return null
+  }
+
+  const validatedUpdates = UpdateBankTransactionSchema.parse(updates)
+  const updatedTransaction = BankTransactionSchema.parse({
+    ...bankTransactions[transactionIndex],
+    ...validatedUpdates,
+    updatedAt: new Date()
+  })
+
+  bankTransactions[transactionIndex] = updatedTransaction
+  return updatedTransaction
+}
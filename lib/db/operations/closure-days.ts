@@ -0,0 +1,52 @@
+import { startOfDay } from 'date-fns'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  ClosureDay,
+  CreateClosureDayInput,
+  ClosureDaySchema,
+  CreateClosureDaySchema
+} from '../models/closure-day'
+
+// In-memory storage for development (replace with actual database in production)
+const closureDays: ClosureDay[] = []
+
+export async function createClosureDay(closureData: CreateClosureDayInput): Promise<ClosureDay> {
+  const validatedData = CreateClosureDaySchema.parse(closureData)
+  const date = startOfDay(validatedData.date)
+
+  const existing = closureDays.find(c =>
+    c.propertyId === validatedData.propertyId && c.date.getTime() === date.getTime()
+  )
+  if (existing) {
+    throw new Error('Property is already closed on this day')
+  }
+
+  const now = new Date()
+  const closure = ClosureDaySchema.parse({
+    id: uuidv4(),
+    ...validatedData,
+    date,
+    createdAt: now,
+    updatedAt: now
+  })
+
+  closureDays.push(closure)
+  return closure
+}
+
+// Closure days for a property in date order
+export async function getClosureDaysByProperty(propertyId: string): Promise<ClosureDay[]> {
+  return closureDays
+    .filter(c => c.propertyId === propertyId)
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+}
+
+export async function deleteClosureDay(propertyId: string, id: string): Promise<boolean> {
+  const closureIndex = closureDays.findIndex(c => c.id === id && c.propertyId === propertyId)
+  if (closureIndex === -1) {
+    return false
+  }
+
+  closureDays.splice(closureIndex, 1)
+  return true
+}
@@ -0,0 +1,57 @@
+import { v4 as uuidv4 } from 'uuid'
+import {
+  SecurityDeposit,
+  CreateSecurityDepositInput,
+  UpdateSecurityDepositInput,
+  SecurityDepositSchema,
+  CreateSecurityDepositSchema
+} from '../models/deposit'
+
+// In-memory storage for development (replace with actual database in production)
+const deposits: SecurityDeposit[] = []
+
+export async function createSecurityDeposit(depositData: CreateSecurityDepositInput): Promise<SecurityDeposit> {
+  const validatedData = CreateSecurityDepositSchema.parse(depositData)
+
+  const now = new Date()
+  const deposit: SecurityDeposit = {
+    id: uuidv4(),
+    ...validatedData,
+    status: 'Held',
+    deductions: [],
+    createdAt: now,
+    updatedAt: now
+  }
+
+  const validatedDeposit = SecurityDepositSchema.parse(deposit)
+  deposits.push(validatedDeposit)
+
+  return validatedDeposit
+}
+
+export async function getSecurityDepositById(id: string): Promise<SecurityDeposit | null> {
+  return deposits.find(d => d.id === id) || null
+}
+
+// Deposits for a tenant, most recently collected first
+export async function getDepositsByTenant(tenantId: string): Promise<SecurityDeposit[]> {
+  return deposits
+    .filter(d => d.tenantId === tenantId)
+    .sort((a, b) => b.collectedDate.getTime() - a.collectedDate.getTime())
+}
+
+export async function updateSecurityDeposit(id: string, updates: UpdateSecurityDepositInput): Promise<SecurityDeposit | null> {
+  const depositIndex = deposits.findIndex(d => d.id === id)
+  if (depositIndex === -1) {
+    return null
+  }
+
+  const updatedDeposit = SecurityDepositSchema.parse({
+    ...deposits[depositIndex],
+    ...updates,
+    updatedAt: new Date()
+  })
+
+  deposits[depositIndex] = updatedDeposit
+  return updatedDeposit
+}
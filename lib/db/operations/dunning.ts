@@ -0,0 +1,103 @@
+import { v4 as uuidv4 } from 'uuid'
+import {
+  DunningWorkflow,
+  DunningProgress,
+  CreateDunningWorkflowInput,
+  CreateDunningProgressInput,
+  UpdateDunningProgressInput,
+  DunningWorkflowSchema,
+  DunningProgressSchema,
+  CreateDunningWorkflowSchema,
+  CreateDunningProgressSchema
+} from '../models/dunning'
+
+// In-memory storage for development (replace with actual database in production)
+const workflows: DunningWorkflow[] = []
+const progressRecords: DunningProgress[] = []
+
+// Create or replace the workflow for a property, or the global one when no property is given
+export async function saveDunningWorkflow(workflowData: CreateDunningWorkflowInput): Promise<DunningWorkflow> {
+  const validatedData = CreateDunningWorkflowSchema.parse(workflowData)
+
+  const now = new Date()
+  const existingIndex = workflows.findIndex(w => w.propertyId === validatedData.propertyId)
+  const workflow = DunningWorkflowSchema.parse({
+    id: existingIndex === -1 ? uuidv4() : workflows[existingIndex].id,
+    ...validatedData,
+    createdAt: existingIndex === -1 ? now : workflows[existingIndex].createdAt,
+    updatedAt: now
+  })
+
+  if (existingIndex === -1) {
+    workflows.push(workflow)
+  } else {
+    workflows[existingIndex] = workflow
+  }
+  return workflow
+}
+
+// The property's own workflow, falling back to the global one
+export async function getDunningWorkflow(propertyId?: string): Promise<DunningWorkflow | null> {
+  return workflows.find(w => w.propertyId === propertyId)
+    || workflows.find(w => w.propertyId === undefined)
+    || null
+}
+
+export async function deleteDunningWorkflow(propertyId?: string): Promise<boolean> {
+  const workflowIndex = workflows.findIndex(w => w.propertyId === propertyId)
+  if (workflowIndex === -1) {
+    return false
+  }
+
+  workflows.splice(workflowIndex, 1)
+  return true
+}
+
+export async function createDunningProgress(progressData: CreateDunningProgressInput): Promise<DunningProgress> {
+  const validatedData = CreateDunningProgressSchema.parse(progressData)
+
+  const now = new Date()
+  const progress = DunningProgressSchema.parse({
+    id: uuidv4(),
+    ...validatedData,
+    createdAt: now,
+    updatedAt: now
+  })
+
+  progressRecords.push(progress)
+  return progress
+}
+
+// The unresolved dunning progress for a payment, if it is in dunning
+export async function getActiveDunningProgress(paymentId: string): Promise<DunningProgress | null> {
+  return progressRecords.find(p => p.paymentId === paymentId && !p.resolvedAt) || null
+}
+
+// Every payment's dunning progress, optionally for one property and only those still in dunning
+export async function getDunningProgressRecords(
+  filters: { propertyId?: string; activeOnly?: boolean } = {}
+): Promise<DunningProgress[]> {
+  return progressRecords.filter(p =>
+    (!filters.propertyId || p.propertyId === filters.propertyId) &&
+    (!filters.activeOnly || !p.resolvedAt)
+  )
+}
+
+export async function updateDunningProgress(
+  id: string,
+  updates: UpdateDunningProgressInput
+): Promise<DunningProgress | null> {
+  const progressIndex = progressRecords.findIndex(p => p.id === id)
+  if (progressIndex === -1) {
+    return null
+  }
+
+  const updatedProgress = DunningProgressSchema.parse({
+    ...progressRecords[progressIndex],
+    ...updates,
+    updatedAt: new Date()
+  })
+
+  progressRecords[progressIndex] = updatedProgress
+  return updatedProgress
+}
@@ -0,0 +1,87 @@
+import { kv } from '@vercel/kv'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  ExchangeRate,
+  CreateExchangeRateInput,
+  ExchangeRateSchema,
+  CreateExchangeRateSchema
+} from '../models/exchange-rate'
+
+const getExchangeRateKey = (id: string) => `exchange_rate:${id}`
+const getPairKey = (fromCurrency: string, toCurrency: string) => `exchange_rates:${fromCurrency}:${toCurrency}`
+const getAllRatesKey = () => 'exchange_rates:all'
+
+export async function createExchangeRate(input: CreateExchangeRateInput): Promise<ExchangeRate> {
+  const validatedInput = CreateExchangeRateSchema.parse(input)
+
+  if (validatedInput.fromCurrency === validatedInput.toCurrency) {
+    throw new Error('Exchange rate currencies must differ')
+  }
+
+  const now = new Date()
+  const exchangeRate = ExchangeRateSchema.parse({
+    id: uuidv4(),
+    ...validatedInput,
+    createdAt: now,
+    updatedAt: now
+  })
+
+  await Promise.all([
+    kv.hset(getExchangeRateKey(exchangeRate.id), {
+      ...exchangeRate,
+      effectiveDate: exchangeRate.effectiveDate.toISOString(),
+      createdAt: exchangeRate.createdAt.toISOString(),
+      updatedAt: exchangeRate.updatedAt.toISOString()
+    }),
+    kv.zadd(getPairKey(exchangeRate.fromCurrency, exchangeRate.toCurrency), {
+      score: exchangeRate.effectiveDate.getTime(),
+      member: exchangeRate.id
+    }),
+    kv.sadd(getAllRatesKey(), exchangeRate.id)
+  ])
+
+  return exchangeRate
+}
+
+export async function getExchangeRate(id: string): Promise<ExchangeRate | null> {
+  const data = await kv.hgetall(getExchangeRateKey(id)) as Record<string, unknown> | null
+  if (!data || Object.keys(data).length === 0) return null
+
+  return ExchangeRateSchema.parse({
+    ...data,
+    rate: Number(data.rate),
+    effectiveDate: new Date(data.effectiveDate as string),
+    createdAt: new Date(data.createdAt as string),
+    updatedAt: new Date(data.updatedAt as string)
+  })
+}
+
+// Rates for a currency pair, oldest effective date first
+export async function getExchangeRatesForPair(fromCurrency: string, toCurrency: string): Promise<ExchangeRate[]> {
+  const ids = await kv.zrange(getPairKey(fromCurrency, toCurrency), 0, -1) as string[]
+  const rates = await Promise.all(ids.map(id => getExchangeRate(id)))
+
+  return rates.filter((rate): rate is ExchangeRate => rate !== null)
+}
+
+export async function getAllExchangeRates(): Promise<ExchangeRate[]> {
+  const ids = await kv.smembers(getAllRatesKey())
+  const rates = await Promise.all(ids.map(id => getExchangeRate(id as string)))
+
+  return rates
+    .filter((rate): rate is ExchangeRate => rate !== null)
+    .sort((a, b) => b.effectiveDate.getTime() - a.effectiveDate.getTime())
+}
+
+export async function deleteExchangeRate(id: string): Promise<boolean> {
+  const existing = await getExchangeRate(id)
+  if (!existing) return false
+
+  await Promise.all([
+    kv.del(getExchangeRateKey(id)),
+    kv.zrem(getPairKey(existing.fromCurrency, existing.toCurrency), id),
+    kv.srem(getAllRatesKey(), id)
+  ])
+
+  return true
+}
@@ -0,0 +1,58 @@
+import { v4 as uuidv4 } from 'uuid'
+import {
+  PaymentPlan,
+  CreatePaymentPlanInput,
+  UpdatePaymentPlanInput,
+  PaymentPlanSchema,
+  CreatePaymentPlanSchema,
+  PaymentPlanStatusType
+} from '../models/payment-plan'
+
+// In-memory storage for development (replace with actual database in production)
+const paymentPlans: PaymentPlan[] = []
+
+export async function createPaymentPlan(planData: CreatePaymentPlanInput): Promise<PaymentPlan> {
+  const validatedData = CreatePaymentPlanSchema.parse(planData)
+
+  const now = new Date()
+  const plan = PaymentPlanSchema.parse({
+    id: uuidv4(),
+    ...validatedData,
+    createdAt: now,
+    updatedAt: now
+  })
+
+  paymentPlans.push(plan)
+  return plan
+}
+
+export async function getPaymentPlanById(id: string): Promise<PaymentPlan | null> {
+  return paymentPlans.find(p => p.id === id) || null
+}
+
+// Payment plans for a tenant, most recently agreed first
+export async function getPaymentPlansByTenant(tenantId: string): Promise<PaymentPlan[]> {
+  return paymentPlans
+    .filter(p => p.tenantId === tenantId)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+}
+
+export async function getPaymentPlansByStatus(status: PaymentPlanStatusType): Promise<PaymentPlan[]> {
+  return paymentPlans.filter(p => p.status === status)
+}
+
+export async function updatePaymentPlan(id: string, updates: UpdatePaymentPlanInput): Promise<PaymentPlan | null> {
+  const planIndex = paymentPlans.findIndex(p => p.id === id)
+  if (planIndex === -1) {
+    return null
+  }
+
+  const updatedPlan = PaymentPlanSchema.parse({
+    ...paymentPlans[planIndex],
+    ...updates,
+    updatedAt: new Date()
+  })
+
+  paymentPlans[planIndex] = updatedPlan
+  return updatedPlan
+}
@@ -54,6 +54,10 @@ export async function getPaymentsByTenant(tenantId: string): Promise<Payment[]>
   return payments.filter(p => p.tenantId === tenantId && !p.deletedAt)
 }
 
+export async function getPaymentByStripePaymentIntentId(paymentIntentId: string): Promise<Payment | null> {
+  return payments.find(p => p.stripePaymentIntentId === paymentIntentId && !p.deletedAt) || null
+}
+
 export async function getPaymentsByStatus(status: PaymentStatusType): Promise<Payment[]> {
   return payments.filter(p => p.status === status && !p.deletedAt)
 }
@@ -1,3 +1,4 @@
+import { z } from 'zod'
 import { db } from '../../db'
 import { 
   Payment, 
@@ -7,10 +8,17 @@ import {
   PaymentSchema,
   CreatePaymentSchema,
   UpdatePaymentSchema,
-  PaymentFiltersSchema
+  PaymentFiltersSchema,
+  PaymentAllocationSchema
 } from '../models/payment'
 import { v4 as uuidv4 } from 'uuid'
 
+// Allocations are stored as JSON, with their dates as ISO strings
+const StoredAllocationsSchema = z.array(PaymentAllocationSchema.extend({
+  paidDate: z.coerce.date(),
+  createdAt: z.coerce.date()
+}))
+
 // Generate Redis keys for payment data
 const getPaymentKey = (id: string) => `payment:${id}`
 const getTenantPaymentsKey = (tenantId: string) => `tenant:${tenantId}:payments`
@@ -54,7 +62,10 @@ export async function createPayment(input: CreatePaymentInput): Promise<Payment>
       createdAt: validatedPayment.createdAt.toISOString(),
       updatedAt: validatedPayment.updatedAt.toISOString(),
       dueDate: validatedPayment.dueDate.toISOString(),
-      paidDate: validatedPayment.paidDate?.toISOString() || ''
+      paidDate: validatedPayment.paidDate?.toISOString() || '',
+      billingPeriodStart: validatedPayment.billingPeriodStart?.toISOString() || '',
+      billingPeriodEnd: validatedPayment.billingPeriodEnd?.toISOString() || '',
+      allocations: JSON.stringify(validatedPayment.allocations || [])
     })
     
     // Add to various indexes
@@ -94,7 +105,10 @@ export async function getPayment(id: string): Promise<Payment | null> {
       createdAt: new Date(data.createdAt),
       updatedAt: new Date(data.updatedAt),
       dueDate: new Date(data.dueDate),
-      paidDate: data.paidDate ? new Date(data.paidDate) : undefined
+      paidDate: data.paidDate ? new Date(data.paidDate) : undefined,
+      billingPeriodStart: data.billingPeriodStart ? new Date(data.billingPeriodStart) : undefined,
+      billingPeriodEnd: data.billingPeriodEnd ? new Date(data.billingPeriodEnd) : undefined,
+      allocations: data.allocations ? StoredAllocationsSchema.parse(JSON.parse(data.allocations)) : undefined
     }
 
     return PaymentSchema.parse(payment)
@@ -145,7 +159,10 @@ export async function updatePayment(input: UpdatePaymentInput): Promise<Payment
       createdAt: validatedPayment.createdAt.toISOString(),
       updatedAt: validatedPayment.updatedAt.toISOString(),
       dueDate: validatedPayment.dueDate.toISOString(),
-      paidDate: validatedPayment.paidDate?.toISOString() || ''
+      paidDate: validatedPayment.paidDate?.toISOString() || '',
+      billingPeriodStart: validatedPayment.billingPeriodStart?.toISOString() || '',
+      billingPeriodEnd: validatedPayment.billingPeriodEnd?.toISOString() || '',
+      allocations: JSON.stringify(validatedPayment.allocations || [])
     })
 
     return validatedPayment
@@ -7,12 +7,20 @@ import {
   ReminderSettings,
   CreateReminderSettingsInput,
   UpdateReminderSettingsInput,
+  LateFeePolicy,
+  LateFeePolicySchema,
+  CreateLateFeePolicyInput,
+  CreateLateFeePolicySchema,
+  UpdateLateFeePolicyInput,
+  UpdateLateFeePolicySchema,
   TenantReminderPreferences,
   CreateTenantReminderPreferencesInput,
   UpdateTenantReminderPreferencesInput,
   ReminderLogFilters,
   ReminderAnalytics
 } from '../models/reminder'
+import type { DeliveryStatusUpdate } from '../../messaging/types'
+import { getDunningProgressRecords } from './dunning'
 
 // Reminder Log Operations
 export async function createReminderLog(input: CreateReminderLogInput): Promise<ReminderLog> {
@@ -22,6 +30,7 @@ export async function createReminderLog(input: CreateReminderLogInput): Promise<
   const reminderLog: ReminderLog = {
     id,
     ...input,
+    channel: input.channel || 'email',
     createdAt: now,
     updatedAt: now
   }
@@ -29,6 +38,7 @@ export async function createReminderLog(input: CreateReminderLogInput): Promise<
   // Store in KV with multiple indexes for efficient querying
   await Promise.all([
     kv.hset(`reminder_log:${id}`, reminderLog),
+    ...(input.messageId ? [kv.set(`reminder_log:message:${input.messageId}`, id)] : []),
     kv.sadd(`reminder_logs:payment:${input.paymentId}`, id),
     kv.sadd(`reminder_logs:tenant:${input.tenantId}`, id),
     kv.sadd(`reminder_logs:property:${input.propertyId}`, id),
@@ -110,6 +120,11 @@ export async function getReminderLogs(filters: ReminderLogFilters = {}): Promise
     .filter((reminder): reminder is ReminderLog => reminder !== null)
 
   // Apply additional filters
+  if (filters.channel) {
+    // Logs from before channels were recorded are all email
+    filteredReminders = filteredReminders.filter(r => (r.channel || 'email') === filters.channel)
+  }
+
   if (filters.sentFrom) {
     const fromDate = new Date(filters.sentFrom)
     filteredReminders = filteredReminders.filter(r => new Date(r.sentAt) >= fromDate)
@@ -182,6 +197,65 @@ export async function deleteReminderSettings(propertyId: string | null): Promise
   return result > 0
 }
 
+// Late Fee Policy Operations
+export async function createLateFeePolicy(input: CreateLateFeePolicyInput): Promise<LateFeePolicy> {
+  const validatedData = CreateLateFeePolicySchema.parse(input)
+  const now = new Date()
+
+  const policy = LateFeePolicySchema.parse({
+    id: uuidv4(),
+    ...validatedData,
+    createdAt: now,
+    updatedAt: now
+  })
+
+  const key = policy.propertyId ? `late_fee_policy:property:${policy.propertyId}` : 'late_fee_policy:global'
+  await kv.hset(key, policy)
+
+  return policy
+}
+
+export async function updateLateFeePolicy(
+  propertyId: string | null,
+  input: UpdateLateFeePolicyInput
+): Promise<LateFeePolicy | null> {
+  const key = propertyId ? `late_fee_policy:property:${propertyId}` : 'late_fee_policy:global'
+  const existing = await kv.hgetall(key) as LateFeePolicy | null
+
+  if (!existing) return null
+
+  const updated: LateFeePolicy = {
+    ...existing,
+    ...UpdateLateFeePolicySchema.parse(input),
+    updatedAt: new Date()
+  }
+
+  await kv.hset(key, updated)
+  return updated
+}
+
+export async function getLateFeePolicy(propertyId?: string): Promise<LateFeePolicy | null> {
+  let policy: LateFeePolicy | null = null
+
+  // Try property-specific policy first
+  if (propertyId) {
+    policy = await kv.hgetall(`late_fee_policy:property:${propertyId}`) as LateFeePolicy | null
+  }
+
+  // Fall back to global policy if no property-specific policy
+  if (!policy) {
+    policy = await kv.hgetall('late_fee_policy:global') as LateFeePolicy | null
+  }
+
+  return policy
+}
+
+export async function deleteLateFeePolicy(propertyId: string | null): Promise<boolean> {
+  const key = propertyId ? `late_fee_policy:property:${propertyId}` : 'late_fee_policy:global'
+  const result = await kv.del(key)
+  return result > 0
+}
+
 // Tenant Reminder Preferences Operations
 export async function createTenantReminderPreferences(
   input: CreateTenantReminderPreferencesInput
@@ -256,6 +330,9 @@ export async function getReminderAnalytics(
   // For now, using open rate as a proxy
   const effectivenessRate = openRate
 
+  const periodFrom = from || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString()
+  const periodTo = to || new Date().toISOString()
+
   return {
     totalSent,
     totalDelivered,
@@ -266,13 +343,75 @@ export async function getReminderAnalytics(
     openRate,
     bounceRate,
     effectivenessRate,
+    dunningStages: await getDunningStageCounts(propertyId, periodFrom, periodTo),
     period: {
-      from: from || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-      to: to || new Date().toISOString()
+      from: periodFrom,
+      to: periodTo
     }
   }
 }
 
+// How many overdue payments sit at each dunning stage, and how many were settled at each
+async function getDunningStageCounts(
+  propertyId: string | undefined,
+  from: string,
+  to: string
+): Promise<ReminderAnalytics['dunningStages']> {
+  const records = await getDunningProgressRecords({ propertyId })
+  const stages = new Map<string, ReminderAnalytics['dunningStages'][number] & { stageIndex: number }>()
+
+  for (const record of records) {
+    const stage = stages.get(record.stageKey) || {
+      stageKey: record.stageKey,
+      stageName: record.stageName,
+      stageIndex: record.stageIndex,
+      activePayments: 0,
+      resolvedPayments: 0
+    }
+
+    if (!record.resolvedAt) {
+      stage.activePayments++
+    } else if (record.resolvedAt >= new Date(from) && record.resolvedAt <= new Date(to)) {
+      stage.resolvedPayments++
+    }
+    stages.set(record.stageKey, stage)
+  }
+
+  return Array.from(stages.values())
+    .sort((a, b) => a.stageIndex - b.stageIndex)
+    .map(({ stageIndex, ...stage }) => stage)
+}
+
+export async function getReminderLogByMessageId(messageId: string): Promise<ReminderLog | null> {
+  const id = await kv.get<string>(`reminder_log:message:${messageId}`)
+  return id ? getReminderLog(id) : null
+}
+
+// Record a delivery status callback from a messaging provider against its reminder log
+export async function recordDeliveryStatus(update: DeliveryStatusUpdate): Promise<ReminderLog | null> {
+  const reminderLog = await getReminderLogByMessageId(update.messageId)
+  if (!reminderLog) return null
+
+  // Callbacks can arrive out of order; never move an opened message back to delivered
+  if (update.status === 'delivered' && reminderLog.status === 'opened') {
+    return reminderLog
+  }
+
+  const at = update.occurredAt.toISOString()
+  switch (update.status) {
+    case 'delivered':
+      return updateReminderLog(reminderLog.id, { status: 'delivered', deliveredAt: at })
+    case 'opened':
+      return updateReminderLog(reminderLog.id, {
+        status: 'opened',
+        deliveredAt: reminderLog.deliveredAt || at,
+        openedAt: at
+      })
+    case 'failed':
+      return updateReminderLog(reminderLog.id, { status: 'failed', error: update.error || 'Delivery failed' })
+  }
+}
+
 // Utility functions for webhook handling
 export async function handleResendWebhook(event: any): Promise<void> {
   const { type, data } = event
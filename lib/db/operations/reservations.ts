@@ -0,0 +1,65 @@
+import { v4 as uuidv4 } from 'uuid'
+import {
+  RoomReservation,
+  CreateRoomReservationInput,
+  UpdateRoomReservationInput,
+  RoomReservationSchema,
+  CreateRoomReservationSchema,
+  HOLDING_RESERVATION_STATUSES,
+  ReservationStatusType
+} from '../models/reservation'
+
+// In-memory storage for development (replace with actual database in production)
+const reservations: RoomReservation[] = []
+
+export async function createReservation(reservationData: CreateRoomReservationInput): Promise<RoomReservation> {
+  const validatedData = CreateRoomReservationSchema.parse(reservationData)
+
+  const now = new Date()
+  const reservation = RoomReservationSchema.parse({
+    id: uuidv4(),
+    ...validatedData,
+    createdAt: now,
+    updatedAt: now
+  })
+
+  reservations.push(reservation)
+  return reservation
+}
+
+export async function getReservation(id: string): Promise<RoomReservation | null> {
+  return reservations.find(r => r.id === id) || null
+}
+
+// Reservations by room, property or status, soonest move-in first
+export async function getReservations(
+  filters: { roomId?: string; propertyId?: string; statuses?: ReservationStatusType[]; holdingOnly?: boolean } = {}
+): Promise<RoomReservation[]> {
+  return reservations
+    .filter(r =>
+      (!filters.roomId || r.roomId === filters.roomId) &&
+      (!filters.propertyId || r.propertyId === filters.propertyId) &&
+      (!filters.statuses || filters.statuses.includes(r.status)) &&
+      (!filters.holdingOnly || HOLDING_RESERVATION_STATUSES.includes(r.status))
+    )
+    .sort((a, b) => a.startDate.getTime() - b.startDate.getTime())
+}
+
+export async function updateReservation(
+  id: string,
+  updates: UpdateRoomReservationInput
+): Promise<RoomReservation | null> {
+  const reservationIndex = reservations.findIndex(r => r.id === id)
+  if (reservationIndex === -1) {
+    return null
+  }
+
+  const updatedReservation = RoomReservationSchema.parse({
+    ...reservations[reservationIndex],
+    ...updates,
+    updatedAt: new Date()
+  })
+
+  reservations[reservationIndex] = updatedReservation
+  return updatedReservation
+}
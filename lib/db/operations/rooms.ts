@@ -22,6 +22,8 @@ import {
   PropertyAnalyticsSchema
 } from '../models/room'
 import { v4 as uuidv4 } from 'uuid'
+import { addDays, max, min, startOfDay, subDays } from 'date-fns'
+import { getShortStays } from './short-stays'
 
 // Generate Redis keys for room data
 const getRoomKey = (id: string) => `room:${id}`
@@ -78,6 +80,8 @@ export async function createRoom(input: CreateRoomInput): Promise<Room> {
       createdAt: validatedRoom.createdAt.toISOString(),
       updatedAt: validatedRoom.updatedAt.toISOString(),
       lastInspection: validatedRoom.lastInspection?.toISOString() || '',
+      nightlyRate: validatedRoom.nightlyRate?.toString() || '',
+      weeklyRate: validatedRoom.weeklyRate?.toString() || '',
       features: JSON.stringify(validatedRoom.features),
       photos: JSON.stringify(validatedRoom.photos),
       isAvailable: (validatedRoom.isAvailable ?? false).toString()
@@ -120,6 +124,8 @@ export async function getRoom(id: string): Promise<Room | null> {
       ...data,
       size: parseFloat(data.size),
       monthlyRent: parseFloat(data.monthlyRent),
+      nightlyRate: data.nightlyRate ? parseFloat(data.nightlyRate) : undefined,
+      weeklyRate: data.weeklyRate ? parseFloat(data.weeklyRate) : undefined,
       deposit: parseFloat(data.deposit),
       isAvailable: data.isAvailable === 'true',
       createdAt: new Date(data.createdAt),
@@ -178,6 +184,8 @@ export async function updateRoom(input: UpdateRoomInput): Promise<Room | null> {
       createdAt: validatedRoom.createdAt.toISOString(),
       updatedAt: validatedRoom.updatedAt.toISOString(),
       lastInspection: validatedRoom.lastInspection?.toISOString() || '',
+      nightlyRate: validatedRoom.nightlyRate?.toString() || '',
+      weeklyRate: validatedRoom.weeklyRate?.toString() || '',
       features: JSON.stringify(validatedRoom.features),
       photos: JSON.stringify(validatedRoom.photos),
       isAvailable: (validatedRoom.isAvailable ?? false).toString()
@@ -260,21 +268,17 @@ export async function createOccupancyRecord(input: CreateOccupancyRecordInput):
     // Store in Redis
     const recordKey = getOccupancyRecordKey(id)
     const roomOccupancyKey = getRoomOccupancyKey(occupancyRecord.roomId)
-    const tenantOccupancyKey = getTenantOccupancyKey(occupancyRecord.tenantId)
+    const tenantOccupancyKey = occupancyRecord.tenantId ? getTenantOccupancyKey(occupancyRecord.tenantId) : null
     const allOccupancyKey = getAllOccupancyKey()
 
     const pipeline = db.pipeline()
     
-    pipeline.hset(recordKey, {
-      ...validatedRecord,
-      startDate: validatedRecord.startDate.toISOString(),
-      endDate: validatedRecord.endDate?.toISOString() || '',
-      createdAt: validatedRecord.createdAt.toISOString(),
-      updatedAt: validatedRecord.updatedAt.toISOString()
-    })
+    pipeline.hset(recordKey, serializeOccupancyRecord(validatedRecord))
     
     pipeline.sadd(roomOccupancyKey, id)
-    pipeline.sadd(tenantOccupancyKey, id)
+    if (tenantOccupancyKey) {
+      pipeline.sadd(tenantOccupancyKey, id)
+    }
     pipeline.sadd(allOccupancyKey, id)
     
     await pipeline.exec()
@@ -305,16 +309,7 @@ export async function getRoomOccupancyHistory(roomId: string): Promise<Occupancy
           return null
         }
 
-        const record = {
-          ...data,
-          monthlyRent: parseFloat(data.monthlyRent),
-          startDate: new Date(data.startDate),
-          endDate: data.endDate ? new Date(data.endDate) : undefined,
-          createdAt: new Date(data.createdAt),
-          updatedAt: new Date(data.updatedAt)
-        }
-
-        return OccupancyRecordSchema.parse(record)
+        return parseOccupancyRecord(data)
       })
     )
 
@@ -326,6 +321,70 @@ export async function getRoomOccupancyHistory(roomId: string): Promise<Occupancy
   }
 }
 
+// Update occupancy record, setting deletedAt removes it from the room's history
+export async function updateOccupancyRecord(input: UpdateOccupancyRecordInput): Promise<OccupancyRecord | null> {
+  try {
+    const validatedInput = UpdateOccupancyRecordSchema.parse(input)
+    const { id, ...updates } = validatedInput
+
+    const recordKey = getOccupancyRecordKey(id)
+    const data = await db.hgetall(recordKey) as Record<string, string>
+    if (!data || Object.keys(data).length === 0 || data.deletedAt) {
+      throw new Error('Occupancy record not found')
+    }
+
+    const updatedRecord: OccupancyRecord = OccupancyRecordSchema.parse({
+      ...parseOccupancyRecord(data),
+      ...updates,
+      updatedAt: new Date()
+    })
+
+    await db.hset(recordKey, serializeOccupancyRecord(updatedRecord))
+
+    return updatedRecord
+  } catch (error) {
+    console.error('Error updating occupancy record:', error)
+    throw error
+  }
+}
+
+// Optional fields are stored as empty strings
+function serializeOccupancyRecord(record: OccupancyRecord): Record<string, string> {
+  return {
+    id: record.id,
+    roomId: record.roomId,
+    kind: record.kind || '',
+    tenantId: record.tenantId || '',
+    startDate: record.startDate.toISOString(),
+    endDate: record.endDate?.toISOString() || '',
+    monthlyRent: record.monthlyRent?.toString() || '',
+    status: record.status,
+    externalCalendar: record.externalCalendar || '',
+    externalUid: record.externalUid || '',
+    summary: record.summary || '',
+    createdAt: record.createdAt.toISOString(),
+    updatedAt: record.updatedAt.toISOString(),
+    deletedAt: record.deletedAt?.toISOString() || ''
+  }
+}
+
+function parseOccupancyRecord(data: Record<string, string>): OccupancyRecord {
+  return OccupancyRecordSchema.parse({
+    ...data,
+    kind: data.kind || undefined,
+    tenantId: data.tenantId || undefined,
+    monthlyRent: data.monthlyRent ? parseFloat(data.monthlyRent) : undefined,
+    externalCalendar: data.externalCalendar || undefined,
+    externalUid: data.externalUid || undefined,
+    summary: data.summary || undefined,
+    startDate: new Date(data.startDate),
+    endDate: data.endDate ? new Date(data.endDate) : undefined,
+    createdAt: new Date(data.createdAt),
+    updatedAt: new Date(data.updatedAt),
+    deletedAt: data.deletedAt ? new Date(data.deletedAt) : undefined
+  })
+}
+
 // MAINTENANCE OPERATIONS
 
 // Create maintenance record
@@ -419,16 +478,25 @@ export async function getPropertyMaintenanceRecords(propertyId: string): Promise
 
 // ANALYTICS OPERATIONS
 
+// Nights looked back over when measuring occupancy
+const ANALYTICS_PERIOD_NIGHTS = 30
+
 // Calculate property analytics
-export async function calculatePropertyAnalytics(propertyId: string): Promise<PropertyAnalytics> {
+export async function calculatePropertyAnalytics(propertyId: string, asOf: Date = new Date()): Promise<PropertyAnalytics> {
   try {
     const rooms = await getPropertyRooms(propertyId)
     const maintenanceRecords = await getPropertyMaintenanceRecords(propertyId)
+    const shortStays = await getShortStays({ propertyId })
     
     const totalRooms = rooms.length
     const occupiedRooms = rooms.filter(room => !room.isAvailable).length
     const availableRooms = rooms.filter(room => room.isAvailable).length
-    const occupancyRate = totalRooms > 0 ? occupiedRooms / totalRooms : 0
+
+    // Occupancy is measured in nights over the last 30, so short stays count as much as leases
+    const periodEnd = startOfDay(asOf)
+    const periodStart = subDays(periodEnd, ANALYTICS_PERIOD_NIGHTS)
+    const totalNights = totalRooms * ANALYTICS_PERIOD_NIGHTS
+    let occupiedNights = 0
     
     const totalMonthlyRent = rooms.reduce((sum, room) => sum + room.monthlyRent, 0)
     const averageMonthlyRent = totalRooms > 0 ? totalMonthlyRent / totalRooms : 0
@@ -441,6 +509,25 @@ export async function calculatePropertyAnalytics(propertyId: string): Promise<Pr
     
     for (const room of rooms) {
       const occupancyHistory = await getRoomOccupancyHistory(room.id)
+      const roomStays = shortStays.filter(stay => stay.roomId === room.id)
+
+      // Nights as day timestamps, so overlapping records aren't counted twice
+      const nights = new Set<number>()
+      for (const record of occupancyHistory) {
+        // Records run to their last night, open ones are still occupied
+        const end = record.endDate ? addDays(startOfDay(record.endDate), 1) : periodEnd
+        addNights(nights, record.startDate, end, periodStart, periodEnd)
+      }
+      for (const stay of roomStays) {
+        addNights(nights, stay.checkInAt, stay.checkOutAt, periodStart, periodEnd)
+      }
+      occupiedNights += nights.size
+
+      for (const stay of roomStays.filter(stay => stay.status === 'CheckedOut')) {
+        totalOccupancyDays += stay.nights
+        completedOccupancies++
+      }
+
       const completedOccupancyRecords = occupancyHistory.filter(record => 
         record.status === 'Past' && record.endDate
       )
@@ -465,7 +552,11 @@ export async function calculatePropertyAnalytics(propertyId: string): Promise<Pr
       totalRooms,
       occupiedRooms,
       availableRooms,
-      occupancyRate,
+      occupancyRate: totalNights > 0 ? occupiedNights / totalNights : 0,
+      occupiedNights,
+      totalNights,
+      periodStart,
+      periodEnd: subDays(periodEnd, 1),
       averageMonthlyRent,
       totalMonthlyRevenue,
       averageOccupancyDuration,
@@ -480,6 +571,16 @@ export async function calculatePropertyAnalytics(propertyId: string): Promise<Pr
   }
 }
 
+// Add the nights from start up to end that fall within the period
+function addNights(nights: Set<number>, start: Date, end: Date, periodStart: Date, periodEnd: Date): void {
+  let night = max([startOfDay(start), periodStart])
+  const last = min([startOfDay(end), periodEnd])
+  while (night < last) {
+    nights.add(night.getTime())
+    night = addDays(night, 1)
+  }
+}
+
 // Soft delete room
 export async function deleteRoom(id: string): Promise<boolean> {
   try {
@@ -0,0 +1,65 @@
+import { v4 as uuidv4 } from 'uuid'
+import {
+  ScheduledReminder,
+  CreateScheduledReminderInput,
+  UpdateScheduledReminderInput,
+  ScheduledReminderSchema,
+  CreateScheduledReminderSchema,
+  ScheduledReminderStatus
+} from '../models/scheduled-reminder'
+
+// In-memory storage for development (replace with actual database in production)
+const scheduledReminders: ScheduledReminder[] = []
+
+export async function createScheduledReminder(reminderData: CreateScheduledReminderInput): Promise<ScheduledReminder> {
+  const validatedData = CreateScheduledReminderSchema.parse(reminderData)
+
+  const now = new Date()
+  const reminder = ScheduledReminderSchema.parse({
+    id: uuidv4(),
+    ...validatedData,
+    createdAt: now,
+    updatedAt: now
+  })
+
+  scheduledReminders.push(reminder)
+  return reminder
+}
+
+// The reminder already scheduled for a payment on the tenant's local day, if any
+export async function getScheduledReminder(paymentId: string, localDate: string): Promise<ScheduledReminder | null> {
+  return scheduledReminders.find(r => r.paymentId === paymentId && r.localDate === localDate) || null
+}
+
+// Queued reminders whose send time has arrived, earliest first
+export async function getDueScheduledReminders(asOf: Date): Promise<ScheduledReminder[]> {
+  return scheduledReminders
+    .filter(r => r.status === ScheduledReminderStatus.QUEUED && r.sendAt.getTime() <= asOf.getTime())
+    .sort((a, b) => a.sendAt.getTime() - b.sendAt.getTime())
+}
+
+// Reminders waiting to go out to a tenant, next first
+export async function getQueuedRemindersByTenant(tenantId: string): Promise<ScheduledReminder[]> {
+  return scheduledReminders
+    .filter(r => r.tenantId === tenantId && r.status === ScheduledReminderStatus.QUEUED)
+    .sort((a, b) => a.sendAt.getTime() - b.sendAt.getTime())
+}
+
+export async function updateScheduledReminder(
+  id: string,
+  updates: UpdateScheduledReminderInput
+): Promise<ScheduledReminder | null> {
+  const reminderIndex = scheduledReminders.findIndex(r => r.id === id)
+  if (reminderIndex === -1) {
+    return null
+  }
+
+  const updatedReminder = ScheduledReminderSchema.parse({
+    ...scheduledReminders[reminderIndex],
+    ...updates,
+    updatedAt: new Date()
+  })
+
+  scheduledReminders[reminderIndex] = updatedReminder
+  return updatedReminder
+}
@@ -0,0 +1,60 @@
+import { v4 as uuidv4 } from 'uuid'
+import {
+  ShortStay,
+  CreateShortStayInput,
+  UpdateShortStayInput,
+  ShortStaySchema,
+  CreateShortStaySchema,
+  ShortStayStatus
+} from '../models/short-stay'
+
+// In-memory storage for development (replace with actual database in production)
+const shortStays: ShortStay[] = []
+
+export async function createShortStay(stayData: CreateShortStayInput): Promise<ShortStay> {
+  const validatedData = CreateShortStaySchema.parse(stayData)
+
+  const now = new Date()
+  const stay = ShortStaySchema.parse({
+    id: uuidv4(),
+    ...validatedData,
+    createdAt: now,
+    updatedAt: now
+  })
+
+  shortStays.push(stay)
+  return stay
+}
+
+export async function getShortStay(id: string): Promise<ShortStay | null> {
+  return shortStays.find(s => s.id === id) || null
+}
+
+// Short stays by room or property in check-in order, cancelled ones left out unless asked for
+export async function getShortStays(
+  filters: { roomId?: string; propertyId?: string; includeCancelled?: boolean } = {}
+): Promise<ShortStay[]> {
+  return shortStays
+    .filter(s =>
+      (!filters.roomId || s.roomId === filters.roomId) &&
+      (!filters.propertyId || s.propertyId === filters.propertyId) &&
+      (filters.includeCancelled || s.status !== ShortStayStatus.CANCELLED)
+    )
+    .sort((a, b) => a.checkInAt.getTime() - b.checkInAt.getTime())
+}
+
+export async function updateShortStay(id: string, updates: UpdateShortStayInput): Promise<ShortStay | null> {
+  const stayIndex = shortStays.findIndex(s => s.id === id)
+  if (stayIndex === -1) {
+    return null
+  }
+
+  const updatedStay = ShortStaySchema.parse({
+    ...shortStays[stayIndex],
+    ...updates,
+    updatedAt: new Date()
+  })
+
+  shortStays[stayIndex] = updatedStay
+  return updatedStay
+}
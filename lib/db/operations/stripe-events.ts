@@ -0,0 +1,50 @@
+import {
+  StripeEvent,
+  CreateStripeEventInput,
+  UpdateStripeEventInput,
+  StripeEventSchema,
+  CreateStripeEventSchema,
+  UpdateStripeEventSchema
+} from '../models/stripe-event'
+
+// In-memory storage for development (replace with actual database in production)
+const stripeEvents: StripeEvent[] = []
+
+export async function createStripeEvent(eventData: CreateStripeEventInput): Promise<StripeEvent> {
+  const validatedData = CreateStripeEventSchema.parse(eventData)
+
+  if (stripeEvents.some(e => e.id === validatedData.id)) {
+    throw new Error(`Stripe event ${validatedData.id} already recorded`)
+  }
+
+  const event = StripeEventSchema.parse({
+    ...validatedData,
+    status: 'processing',
+    attempts: 1,
+    receivedAt: new Date(),
+    lastAttemptAt: new Date()
+  })
+
+  stripeEvents.push(event)
+  return event
+}
+
+export async function getStripeEvent(id: string): Promise<StripeEvent | null> {
+  return stripeEvents.find(e => e.id === id) || null
+}
+
+export async function updateStripeEvent(id: string, updates: UpdateStripeEventInput): Promise<StripeEvent | null> {
+  const eventIndex = stripeEvents.findIndex(e => e.id === id)
+  if (eventIndex === -1) {
+    return null
+  }
+
+  const validatedUpdates = UpdateStripeEventSchema.parse(updates)
+  const updatedEvent = StripeEventSchema.parse({
+    ...stripeEvents[eventIndex],
+    ...validatedUpdates
+  })
+
+  stripeEvents[eventIndex] = updatedEvent
+  return updatedEvent
+}
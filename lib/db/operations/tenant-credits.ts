@@ -0,0 +1,65 @@
+import { v4 as uuidv4 } from 'uuid'
+import {
+  TenantCredit,
+  CreateTenantCreditInput,
+  TenantCreditSchema,
+  CreateTenantCreditSchema
+} from '../models/payment'
+
+// In-memory storage for development (replace with actual database in production)
+const credits: TenantCredit[] = []
+
+export async function createTenantCredit(creditData: CreateTenantCreditInput): Promise<TenantCredit> {
+  const validatedData = CreateTenantCreditSchema.parse(creditData)
+
+  const now = new Date()
+  const credit: TenantCredit = {
+    id: uuidv4(),
+    ...validatedData,
+    remainingCents: validatedData.amountCents,
+    createdAt: now,
+    updatedAt: now
+  }
+
+  const validatedCredit = TenantCreditSchema.parse(credit)
+  credits.push(validatedCredit)
+
+  return validatedCredit
+}
+
+export async function getTenantCreditById(id: string): Promise<TenantCredit | null> {
+  return credits.find(c => c.id === id) || null
+}
+
+export async function getCreditsByTenant(tenantId: string): Promise<TenantCredit[]> {
+  return credits
+    .filter(c => c.tenantId === tenantId)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+}
+
+// Credits that still have an unused balance, oldest first
+export async function getAvailableCredits(tenantId: string): Promise<TenantCredit[]> {
+  const tenantCredits = await getCreditsByTenant(tenantId)
+  return tenantCredits.filter(c => c.remainingCents > 0)
+}
+
+export async function consumeTenantCredit(id: string, amountCents: number): Promise<TenantCredit | null> {
+  const creditIndex = credits.findIndex(c => c.id === id)
+  if (creditIndex === -1) {
+    return null
+  }
+
+  const credit = credits[creditIndex]
+  if (amountCents > credit.remainingCents) {
+    throw new Error('Cannot consume more than the remaining credit')
+  }
+
+  const updatedCredit = TenantCreditSchema.parse({
+    ...credit,
+    remainingCents: credit.remainingCents - amountCents,
+    updatedAt: new Date()
+  })
+
+  credits[creditIndex] = updatedCredit
+  return updatedCredit
+}
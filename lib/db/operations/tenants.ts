@@ -73,6 +73,8 @@ export async function createTenant(input: CreateTenantInput): Promise<Tenant> {
       communicationHistory: JSON.stringify(validatedTenant.communicationHistory || []),
       leaseHistory: JSON.stringify(validatedTenant.leaseHistory || []),
       ...(validatedTenant.roomAssignment ? { roomAssignment: JSON.stringify(validatedTenant.roomAssignment) } : {}),
+      ...(validatedTenant.stripeCustomerId ? { stripeCustomerId: validatedTenant.stripeCustomerId } : {}),
+      ...(validatedTenant.autopayPaymentMethodId ? { autopayPaymentMethodId: validatedTenant.autopayPaymentMethodId } : {}),
       ...(validatedTenant.deletedAt ? { deletedAt: validatedTenant.deletedAt.toISOString() } : {})
     }
     
@@ -189,6 +191,8 @@ export async function updateTenant(input: UpdateTenantInput): Promise<Tenant | n
       communicationHistory: JSON.stringify(validatedTenant.communicationHistory || []),
       leaseHistory: JSON.stringify(validatedTenant.leaseHistory || []),
       ...(validatedTenant.roomAssignment ? { roomAssignment: JSON.stringify(validatedTenant.roomAssignment) } : {}),
+      ...(validatedTenant.stripeCustomerId ? { stripeCustomerId: validatedTenant.stripeCustomerId } : {}),
+      ...(validatedTenant.autopayPaymentMethodId ? { autopayPaymentMethodId: validatedTenant.autopayPaymentMethodId } : {}),
       ...(validatedTenant.deletedAt ? { deletedAt: validatedTenant.deletedAt.toISOString() } : {})
     }
     
@@ -0,0 +1,56 @@
+import { v4 as uuidv4 } from 'uuid'
+import {
+  UtilityBill,
+  CreateUtilityBillInput,
+  UtilityBillSchema,
+  CreateUtilityBillSchema
+} from '../models/utility-bill'
+
+// In-memory storage for development (replace with actual database in production)
+const utilityBills: UtilityBill[] = []
+
+export async function createUtilityBill(billData: CreateUtilityBillInput): Promise<UtilityBill> {
+  const validatedData = CreateUtilityBillSchema.parse(billData)
+
+  const now = new Date()
+  const bill = UtilityBillSchema.parse({
+    id: uuidv4(),
+    ...validatedData,
+    createdAt: now,
+    updatedAt: now
+  })
+
+  utilityBills.push(bill)
+  return bill
+}
+
+export async function getUtilityBillById(id: string): Promise<UtilityBill | null> {
+  return utilityBills.find(b => b.id === id) || null
+}
+
+export async function getUtilityBillByExpense(expenseId: string): Promise<UtilityBill | null> {
+  return utilityBills.find(b => b.expenseId === expenseId) || null
+}
+
+// Utility bills for a property, most recent billing cycle first
+export async function getUtilityBillsByProperty(propertyId: string): Promise<UtilityBill[]> {
+  return utilityBills
+    .filter(b => b.propertyId === propertyId)
+    .sort((a, b) => b.periodStart.getTime() - a.periodStart.getTime())
+}
+
+export async function updateUtilityBill(id: string, updates: Partial<CreateUtilityBillInput>): Promise<UtilityBill | null> {
+  const billIndex = utilityBills.findIndex(b => b.id === id)
+  if (billIndex === -1) {
+    return null
+  }
+
+  const updatedBill = UtilityBillSchema.parse({
+    ...utilityBills[billIndex],
+    ...updates,
+    updatedAt: new Date()
+  })
+
+  utilityBills[billIndex] = updatedBill
+  return updatedBill
+}
@@ -0,0 +1,187 @@
+import { addDays } from 'date-fns'
+import { kv } from '@vercel/kv'
+import { DunningAction, DunningActionType, DunningStage, DunningStageEntry, DunningWorkflow } from '../db/models/dunning'
+import {
+  createDunningProgress,
+  getActiveDunningProgress,
+  getDunningProgressRecords,
+  getDunningWorkflow,
+  updateDunningProgress
+} from '../db/operations/dunning'
+import { getPaymentById } from '../db/operations/payments'
+import { getPropertyById } from '../db/operations/properties'
+import { getTenantById } from '../db/operations/tenants'
+import { CommunicationOperations } from '../db/operations/communications'
+import {
+  CommunicationDirection,
+  CommunicationPriority,
+  CommunicationSource,
+  CommunicationStatus,
+  CommunicationType
+} from '../db/models/communication'
+import { Payment, PaymentStatus } from '../db/models/payment'
+import { Task, TaskCategory, TaskPriority, TaskStatus } from '../../types'
+import { formatCents } from '../utils'
+
+// The legacy payment store records paid payments as 'paid'
+const SETTLED_STATUSES: string[] = ['paid', PaymentStatus.PAID, PaymentStatus.WAIVED, PaymentStatus.RESCHEDULED]
+
+/**
+ * The stage an overdue payment should move into, or null when it has already
+ * reached the furthest stage due. A payment that was missed for a few days
+ * jumps straight to the latest stage rather than getting every notice at once.
+ */
+export async function getDueDunningStage(
+  workflow: DunningWorkflow,
+  paymentId: string,
+  daysOverdue: number
+): Promise<DunningStage | null> {
+  const stageIndex = findStageIndex(workflow, daysOverdue)
+  if (stageIndex === -1) {
+    return null
+  }
+
+  const progress = await getActiveDunningProgress(paymentId)
+  if (progress && progress.stageIndex >= stageIndex) {
+    return null
+  }
+
+  return workflow.stages[stageIndex]
+}
+
+/**
+ * Move a payment into a dunning stage and run the stage's actions. Returns
+ * null if the workflow no longer has the stage or the payment is already past it.
+ */
+export async function enterDunningStage(payment: Payment, stageKey: string, now: Date = new Date()): Promise<DunningStage | null> {
+  const workflow = await getDunningWorkflow(payment.propertyId)
+  const stageIndex = workflow?.enabled ? workflow.stages.findIndex(stage => stage.key === stageKey) : -1
+  if (!workflow || stageIndex === -1) {
+    return null
+  }
+
+  const progress = await getActiveDunningProgress(payment.id)
+  if (progress && progress.stageIndex >= stageIndex) {
+    return null
+  }
+
+  const stage = workflow.stages[stageIndex]
+  const entry: DunningStageEntry = { stageKey: stage.key, enteredAt: now, communicationIds: [] }
+
+  for (const action of stage.actions) {
+    try {
+      const createdId = await runDunningAction(action, payment, workflow, stage, now)
+      if (action === DunningAction.CREATE_TASK) {
+        entry.taskId = createdId
+      } else {
+        entry.communicationIds.push(createdId)
+      }
+    } catch (error) {
+      console.error(`Dunning action ${action} failed for payment ${payment.id}:`, error)
+    }
+  }
+
+  const stageFields = { stageKey: stage.key, stageName: stage.name, stageIndex, enteredAt: now }
+  if (progress) {
+    await updateDunningProgress(progress.id, { ...stageFields, history: [...progress.history, entry] })
+  } else {
+    await createDunningProgress({
+      paymentId: payment.id,
+      tenantId: payment.tenantId,
+      propertyId: payment.propertyId,
+      ...stageFields,
+      history: [entry]
+    })
+  }
+
+  console.log(`Payment ${payment.id} entered dunning stage ${stage.key}`)
+  return stage
+}
+
+// Close the dunning of payments that have since been paid or moved into a payment plan
+export async function resolveSettledDunning(now: Date = new Date()): Promise<number> {
+  let resolved = 0
+
+  for (const progress of await getDunningProgressRecords({ activeOnly: true })) {
+    const payment = await getPaymentById(progress.paymentId)
+    if (!payment || SETTLED_STATUSES.includes(payment.status)) {
+      await updateDunningProgress(progress.id, { resolvedAt: now })
+      resolved++
+    }
+  }
+
+  return resolved
+}
+
+function findStageIndex(workflow: DunningWorkflow, daysOverdue: number): number {
+  let stageIndex = -1
+  workflow.stages.forEach((stage, index) => {
+    if (stage.daysAfterDue <= daysOverdue) {
+      stageIndex = index
+    }
+  })
+  return stageIndex
+}
+
+// Run one stage action, returning the ID of the task or communication it created
+async function runDunningAction(
+  action: DunningActionType,
+  payment: Payment,
+  workflow: DunningWorkflow,
+  stage: DunningStage,
+  now: Date
+): Promise<string> {
+  const tenant = await getTenantById(payment.tenantId)
+  const tenantName = tenant ? `${tenant.firstName} ${tenant.lastName}` : 'tenant'
+  const summary = `${payment.description || 'Payment'} of ${formatCents(payment.amountCents, payment.currency)} `
+    + `(ref ${payment.reference || payment.id}) is overdue and has reached the "${stage.name}" dunning stage.`
+
+  if (action === DunningAction.CREATE_TASK) {
+    const taskId = `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    const task: Task = {
+      id: taskId,
+      propertyId: payment.propertyId,
+      title: `Call ${tenantName} about overdue rent`,
+      description: summary,
+      instructions: tenant?.phone ? `Phone: ${tenant.phone}` : undefined,
+      category: TaskCategory.ADMINISTRATIVE,
+      priority: TaskPriority.HIGH,
+      assignedTo: workflow.managerId ? [workflow.managerId] : [],
+      createdBy: 'system',
+      dueDate: addDays(now, 1),
+      status: TaskStatus.PENDING,
+      completionPhotos: [],
+      createdAt: now,
+      updatedAt: now
+    }
+
+    await kv.set(`task:${payment.propertyId}:${taskId}`, task)
+    return taskId
+  }
+
+  // Escalations land in the tenant's communication history, assigned to whoever picks them up
+  const handOff = action === DunningAction.HAND_OFF_TO_OWNER
+  const assignedTo = handOff
+    ? (await getPropertyById(payment.propertyId))?.ownerId
+    : workflow.managerId
+
+  const communication = await CommunicationOperations.create({
+    tenantId: payment.tenantId,
+    propertyId: payment.propertyId,
+    paymentId: payment.id,
+    type: CommunicationType.GENERAL,
+    direction: CommunicationDirection.OUTGOING,
+    source: CommunicationSource.PAYMENT_REMINDER,
+    subject: handOff ? `Overdue rent handed off to owner: ${tenantName}` : `Overdue rent escalated: ${tenantName}`,
+    content: summary,
+    status: CommunicationStatus.OPEN,
+    priority: handOff ? CommunicationPriority.URGENT : CommunicationPriority.HIGH,
+    assignedTo,
+    attachments: [],
+    tags: ['dunning', stage.key],
+    createdBy: 'system',
+    timestamp: now
+  })
+
+  return communication.id
+}
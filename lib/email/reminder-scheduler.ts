@@ -1,9 +1,38 @@
-import { addDays, isAfter, isBefore, isToday, parseISO, startOfDay } from 'date-fns'
+import { addDays, differenceInCalendarDays, format, isAfter, isBefore, parseISO, startOfDay, subDays } from 'date-fns'
 import { sendPaymentReminder, checkRateLimit } from './reminder-sender'
 import { getPaymentsByStatus, getPaymentById } from '../db/operations/payments'
 import { getTenantById } from '../db/operations/tenants'
-import { createReminderLog, getReminderHistory } from '../db/operations/reminders'
+import {
+  createReminderLog,
+  getReminderHistory,
+  getReminderSettings as getStoredReminderSettings,
+  getTenantReminderPreferences as getStoredReminderPreferences
+} from '../db/operations/reminders'
+import { getAutopayEnrollmentByTenant } from '../db/operations/autopay'
+import { AutopayStatus } from '../db/models/autopay'
+import { PaymentStatus } from '../db/models/payment'
 import type { ReminderLog } from '../db/models/reminder'
+import { ScheduledReminderStatus } from '../db/models/scheduled-reminder'
+import {
+  createScheduledReminder,
+  getDueScheduledReminders,
+  getScheduledReminder,
+  updateScheduledReminder
+} from '../db/operations/scheduled-reminders'
+import { CommunicationOperations } from '../db/operations/communications'
+import {
+  CommunicationDirection,
+  CommunicationPriority,
+  CommunicationSource,
+  CommunicationStatus
+} from '../db/models/communication'
+import { COMMUNICATION_TYPE_BY_CHANNEL } from '../messaging/channels'
+import { MessageChannel, MessageChannelType } from '../messaging/types'
+import type { DunningStage } from '../db/models/dunning'
+import { getDunningWorkflow } from '../db/operations/dunning'
+import { enterDunningStage, getDueDunningStage, resolveSettledDunning } from './dunning'
+import { loadHolidayCalendar } from '../calendar/holidays'
+import { DEFAULT_TIME_ZONE, getDateInTimeZone, isValidTimeZone, zonedTimeToUtc } from '../calendar/time-zones'
 
 export interface ReminderSettings {
   enabled: boolean
@@ -11,6 +40,7 @@ export interface ReminderSettings {
   daysAfterDue: number[]
   sendOnWeekends: boolean
   sendOnHolidays: boolean
+  shiftDueDatesOnHolidays: boolean
   maxRemindersPerPayment: number
 }
 
@@ -23,8 +53,13 @@ export interface PropertyReminderSettings extends ReminderSettings {
 export interface TenantReminderPreferences {
   tenantId: string
   emailEnabled: boolean
+  channels?: MessageChannelType[]
+  phoneNumber?: string
+  zaloUserId?: string
   customSchedule?: number[]
   optOut: boolean
+  preferredTime?: string // HH:MM in the tenant's time zone
+  timezone?: string
 }
 
 // Default reminder settings
@@ -34,23 +69,45 @@ const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
   daysAfterDue: [0, 3], // due date and 3 days after
   sendOnWeekends: false,
   sendOnHolidays: false,
+  shiftDueDatesOnHolidays: false,
   maxRemindersPerPayment: 5,
 }
 
-export async function processAutomatedReminders(): Promise<{
+// Local time reminders go out when the tenant hasn't chosen one
+const DEFAULT_REMINDER_TIME = '09:00'
+
+// Queued reminders for payments in these states are dropped at their send time
+const SETTLED_STATUSES: string[] = [PaymentStatus.PAID, PaymentStatus.WAIVED, PaymentStatus.RESCHEDULED]
+
+type ReminderType = 'upcoming' | 'due' | 'overdue'
+
+/**
+ * Queue each payment's reminder for the tenant's preferred hour in their own
+ * time zone, then send the queued reminders whose time has arrived. Meant to
+ * run hourly so every tenant's local send time is reached. Overdue payments at
+ * properties with a dunning workflow move through its stages instead.
+ */
+export async function processAutomatedReminders(options: { asOf?: Date } = {}): Promise<{
   processed: number
+  queued: number
   sent: number
   skipped: number
+  escalated: number
   errors: string[]
 }> {
+  const now = options.asOf || new Date()
   const results = {
     processed: 0,
+    queued: 0,
     sent: 0,
     skipped: 0,
+    escalated: 0,
     errors: [] as string[],
   }
 
   try {
+    await resolveSettledDunning(now)
+
     // Get all pending and overdue payments
     const pendingPayments = await getPaymentsByStatus(['pending', 'overdue'])
     
@@ -58,7 +115,7 @@ export async function processAutomatedReminders(): Promise<{
       results.processed++
       
       try {
-        const shouldSend = await shouldSendReminder(payment)
+        const shouldSend = await shouldSendReminder(payment, now)
         
         if (!shouldSend.send) {
           results.skipped++
@@ -66,15 +123,70 @@ export async function processAutomatedReminders(): Promise<{
           continue
         }
 
-        const reminderSent = await sendReminderForPayment(payment, shouldSend.reminderType!)
+        // Queued on an earlier run today and still waiting for its send time
+        if (await getScheduledReminder(payment.id, shouldSend.localDate!)) {
+          continue
+        }
+
+        await createScheduledReminder({
+          paymentId: payment.id,
+          tenantId: payment.tenantId,
+          propertyId: payment.propertyId,
+          reminderType: shouldSend.reminderType!,
+          dunningStage: shouldSend.dunningStage,
+          localDate: shouldSend.localDate!,
+          timeZone: shouldSend.timeZone!,
+          sendAt: shouldSend.sendAt!
+        })
+        results.queued++
+      } catch (error) {
+        const errorMsg = `Failed to process payment ${payment.id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        results.errors.push(errorMsg)
+        console.error(errorMsg)
+      }
+    }
+
+    for (const scheduled of await getDueScheduledReminders(now)) {
+      try {
+        // The payment may have been settled between queueing and the send time
+        const payment = await getPaymentByIdForReminder(scheduled.paymentId)
+        if (!payment || SETTLED_STATUSES.includes(payment.status)) {
+          await updateScheduledReminder(scheduled.id, { status: ScheduledReminderStatus.SKIPPED })
+          results.skipped++
+          continue
+        }
+
+        let stage: DunningStage | undefined
+        if (scheduled.dunningStage) {
+          const entered = await enterDunningStage(payment, scheduled.dunningStage, now)
+          if (!entered) {
+            // The workflow changed, or the payment moved past this stage since it was queued
+            await updateScheduledReminder(scheduled.id, { status: ScheduledReminderStatus.SKIPPED })
+            results.skipped++
+            continue
+          }
+          results.escalated++
+          stage = entered
+
+          // Stages such as a manager call only act internally
+          if (!stage.notice) {
+            await updateScheduledReminder(scheduled.id, { status: ScheduledReminderStatus.SENT, sentAt: new Date() })
+            continue
+          }
+        }
+
+        const reminderSent = await sendReminderForPayment(payment, scheduled.reminderType, stage)
         
         if (reminderSent) {
+          await updateScheduledReminder(scheduled.id, { status: ScheduledReminderStatus.SENT, sentAt: new Date() })
           results.sent++
         } else {
+          await updateScheduledReminder(scheduled.id, { status: ScheduledReminderStatus.FAILED, error: 'Reminder was not sent' })
           results.skipped++
         }
       } catch (error) {
-        const errorMsg = `Failed to process payment ${payment.id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        const errorMsg = `Failed to send scheduled reminder ${scheduled.id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        await updateScheduledReminder(scheduled.id, { status: ScheduledReminderStatus.FAILED, error: errorMsg })
         results.errors.push(errorMsg)
         console.error(errorMsg)
       }
@@ -85,23 +197,28 @@ export async function processAutomatedReminders(): Promise<{
     console.error(errorMsg)
   }
 
-  console.log(`Reminder processing complete: ${results.sent} sent, ${results.skipped} skipped, ${results.errors.length} errors`)
+  console.log(`Reminder processing complete: ${results.queued} queued, ${results.sent} sent, ${results.skipped} skipped, ${results.escalated} escalated, ${results.errors.length} errors`)
   return results
 }
 
-async function shouldSendReminder(payment: any): Promise<{
+async function shouldSendReminder(payment: any, now: Date): Promise<{
   send: boolean
   reason?: string
-  reminderType?: 'upcoming' | 'due' | 'overdue'
+  reminderType?: ReminderType
+  dunningStage?: string
+  localDate?: string
+  timeZone?: string
+  sendAt?: Date
 }> {
   // Skip if payment is already paid
   if (payment.status === 'paid') {
     return { send: false, reason: 'Payment already paid' }
   }
 
-  const dueDate = parseISO(payment.dueDate)
-  const today = startOfDay(new Date())
-  const dueDateStart = startOfDay(dueDate)
+  // Arrears rescheduled into a payment plan are collected through its installments
+  if (payment.status === PaymentStatus.RESCHEDULED) {
+    return { send: false, reason: 'Payment is covered by a payment plan' }
+  }
 
   // Get reminder settings for this property
   const settings = await getReminderSettings(payment.propertyId)
@@ -110,68 +227,93 @@ async function shouldSendReminder(payment: any): Promise<{
     return { send: false, reason: 'Reminders disabled for property' }
   }
 
-  // Check tenant preferences
+  // Tenants on autopay get a notice before each charge instead
+  const autopay = await getAutopayEnrollmentByTenant(payment.tenantId)
+  if (autopay?.status === AutopayStatus.ACTIVE) {
+    return { send: false, reason: 'Tenant is on autopay' }
+  }
+
+  // Which day it is, and so which reminder is due, depends on where the tenant is
   const tenantPrefs = await getTenantReminderPreferences(payment.tenantId)
-  if (tenantPrefs?.optOut || !tenantPrefs?.emailEnabled) {
+  const timeZone = tenantPrefs?.timezone && isValidTimeZone(tenantPrefs.timezone) ? tenantPrefs.timezone : DEFAULT_TIME_ZONE
+  const today = getDateInTimeZone(now, timeZone)
+  const queueFor = {
+    localDate: format(today, 'yyyy-MM-dd'),
+    timeZone,
+    sendAt: zonedTimeToUtc(today, tenantPrefs?.preferredTime || DEFAULT_REMINDER_TIME, timeZone)
+  }
+
+  // A due date on a public holiday or property closure can move to the next business day
+  const calendar = await loadHolidayCalendar(payment.propertyId)
+  const dueDateStart = settings.shiftDueDatesOnHolidays
+    ? calendar.nextBusinessDay(parseISO(payment.dueDate), { skipWeekends: false })
+    : startOfDay(parseISO(payment.dueDate))
+
+  // Reminders scheduled for a weekend or holiday we don't send on go out on the next day we do
+  const sendOptions = { skipWeekends: !settings.sendOnWeekends, skipHolidays: !settings.sendOnHolidays }
+
+  // Once a payment is overdue the property's dunning workflow takes over from daysAfterDue.
+  // Its stages still advance for tenants who opted out, so managers hear about the arrears.
+  const workflow = await getDunningWorkflow(payment.propertyId)
+  if (workflow?.enabled && isAfter(today, dueDateStart)) {
+    const stage = await getDueDunningStage(workflow, payment.id, differenceInCalendarDays(today, dueDateStart))
+    if (!stage) {
+      return { send: false, reason: 'No dunning stage due' }
+    }
+    if (calendar.nextBusinessDay(today, sendOptions).getTime() !== today.getTime()) {
+      return { send: false, reason: 'Deferred to the next business day' }
+    }
+    return { send: true, reminderType: 'overdue', dunningStage: stage.key, ...queueFor }
+  }
+
+  // Check tenant preferences
+  if (tenantPrefs?.optOut || getReminderChannels(tenantPrefs).length === 0) {
     return { send: false, reason: 'Tenant opted out of reminders' }
   }
 
-  // Check if we've already sent too many reminders
+  // Check if we've already sent too many reminders (one reminder may go out on several channels)
   const reminderHistory = await getReminderHistory(payment.id)
-  if (reminderHistory.length >= settings.maxRemindersPerPayment) {
+  const remindersSent = new Set(reminderHistory.map(r => format(parseISO(r.sentAt), 'yyyy-MM-dd'))).size
+  if (remindersSent >= settings.maxRemindersPerPayment) {
     return { send: false, reason: 'Maximum reminders reached' }
   }
 
-  // Determine reminder type and check if we should send
-  let reminderType: 'upcoming' | 'due' | 'overdue'
-  let shouldSend = false
-
-  if (isAfter(today, dueDateStart)) {
-    // Payment is overdue
-    reminderType = 'overdue'
-    const daysOverdue = Math.floor((today.getTime() - dueDateStart.getTime()) / (1000 * 60 * 60 * 24))
-    shouldSend = settings.daysAfterDue.includes(daysOverdue)
-  } else if (isToday(dueDate)) {
-    // Payment is due today
-    reminderType = 'due'
-    shouldSend = settings.daysAfterDue.includes(0)
-  } else {
-    // Payment is upcoming
-    reminderType = 'upcoming'
-    const daysUntilDue = Math.floor((dueDateStart.getTime() - today.getTime()) / (1000 * 60 * 60 * 24))
-    shouldSend = settings.daysBeforeDue.includes(daysUntilDue)
-  }
+  const scheduledDays = [
+    ...settings.daysBeforeDue.map(days => subDays(dueDateStart, days)),
+    ...settings.daysAfterDue.map(days => addDays(dueDateStart, days))
+  ]
+  const shouldSend = scheduledDays.some(day =>
+    calendar.nextBusinessDay(day, sendOptions).getTime() === today.getTime()
+  )
 
   if (!shouldSend) {
-    return { send: false, reason: 'Not scheduled for today' }
+    const deferred = scheduledDays.some(day => day.getTime() === today.getTime())
+    return { send: false, reason: deferred ? 'Deferred to the next business day' : 'Not scheduled for today' }
   }
 
   // Check if we already sent a reminder today for this payment
   const todayReminders = reminderHistory.filter(r => 
-    startOfDay(parseISO(r.sentAt)).getTime() === today.getTime()
+    getDateInTimeZone(parseISO(r.sentAt), timeZone).getTime() === today.getTime()
   )
   
   if (todayReminders.length > 0) {
     return { send: false, reason: 'Already sent reminder today' }
   }
 
-  // Check weekend/holiday restrictions
-  const dayOfWeek = today.getDay()
-  const isWeekend = dayOfWeek === 0 || dayOfWeek === 6
-  
-  if (isWeekend && !settings.sendOnWeekends) {
-    return { send: false, reason: 'Weekend sending disabled' }
+  // Determine reminder type from where today falls relative to the due date
+  let reminderType: ReminderType
+  if (isAfter(today, dueDateStart)) {
+    reminderType = 'overdue'
+  } else if (today.getTime() === dueDateStart.getTime()) {
+    reminderType = 'due'
+  } else {
+    reminderType = 'upcoming'
   }
 
-  // TODO: Add holiday checking if needed
-  // if (isHoliday(today) && !settings.sendOnHolidays) {
-  //   return { send: false, reason: 'Holiday sending disabled' }
-  // }
-
-  return { send: true, reminderType }
+  return { send: true, reminderType, ...queueFor }
 }
 
-async function sendReminderForPayment(payment: any, reminderType: 'upcoming' | 'due' | 'overdue'): Promise<boolean> {
+async function sendReminderForPayment(payment: any, reminderType: ReminderType, stage?: DunningStage): Promise<boolean> {
   try {
     // Get tenant and property details
     const tenant = await getTenantById(payment.tenantId)
@@ -187,45 +329,97 @@ async function sendReminderForPayment(payment: any, reminderType: 'upcoming' | '
       return false
     }
 
-    const result = await sendPaymentReminder(payment, tenant)
-    
-    if (result.success) {
-      // Log the reminder
-      await createReminderLog({
-        paymentId: payment.id,
-        tenantId: payment.tenantId,
-        propertyId: payment.propertyId,
-        reminderType,
-        emailAddress: tenant.email,
-        messageId: result.messageId,
-        status: 'sent',
-        sentAt: new Date().toISOString(),
-      })
-      
-      console.log(`Reminder sent successfully for payment ${payment.id}`)
-      return true
-    } else {
-      // Log the failure
+    const tenantPrefs = await getTenantReminderPreferences(payment.tenantId)
+    let anySent = false
+
+    // A dunning stage can name its own channels, but never reaches a tenant who opted out
+    const channels = tenantPrefs?.optOut ? []
+      : stage?.channels?.length ? stage.channels
+      : getReminderChannels(tenantPrefs)
+
+    for (const channel of channels) {
+      const recipient = getChannelRecipient(channel, tenant, tenantPrefs)
+      const result = recipient
+        ? await sendPaymentReminder(payment, tenant, { channel, recipient, notice: stage?.notice })
+        : { success: false, error: `No ${channel} contact for tenant` }
+
+      // Log the reminder, or the failure
       await createReminderLog({
         paymentId: payment.id,
         tenantId: payment.tenantId,
         propertyId: payment.propertyId,
         reminderType,
+        channel,
         emailAddress: tenant.email,
-        status: 'failed',
-        error: result.error,
+        recipient: channel === MessageChannel.EMAIL ? undefined : recipient,
+        ...(result.success
+          ? { messageId: result.messageId, status: 'sent' as const }
+          : { status: 'failed' as const, error: result.error }),
         sentAt: new Date().toISOString(),
       })
-      
-      console.error(`Failed to send reminder for payment ${payment.id}: ${result.error}`)
-      return false
+
+      if (result.success) {
+        await logReminderCommunication(payment, channel, reminderType)
+        console.log(`Reminder sent successfully by ${channel} for payment ${payment.id}`)
+        anySent = true
+      } else {
+        console.error(`Failed to send ${channel} reminder for payment ${payment.id}: ${result.error}`)
+      }
     }
+
+    return anySent
   } catch (error) {
     console.error(`Error sending reminder for payment ${payment.id}:`, error)
     return false
   }
 }
 
+// Channels a tenant wants reminders on; email alone unless they chose otherwise
+function getReminderChannels(prefs: TenantReminderPreferences | null): MessageChannelType[] {
+  const channels = prefs?.channels?.length ? prefs.channels : [MessageChannel.EMAIL]
+  return channels.filter(channel => channel !== MessageChannel.EMAIL || prefs?.emailEnabled !== false)
+}
+
+function getChannelRecipient(
+  channel: MessageChannelType,
+  tenant: { email: string; phone?: string },
+  prefs: TenantReminderPreferences | null
+): string | undefined {
+  switch (channel) {
+    case MessageChannel.EMAIL:
+      return tenant.email
+    case MessageChannel.WHATSAPP:
+    case MessageChannel.SMS:
+      return prefs?.phoneNumber || tenant.phone
+    case MessageChannel.ZALO:
+      return prefs?.zaloUserId
+  }
+}
+
+// Each reminder also shows in the tenant's communication history
+async function logReminderCommunication(payment: any, channel: MessageChannelType, reminderType: ReminderType): Promise<void> {
+  try {
+    await CommunicationOperations.create({
+      tenantId: payment.tenantId,
+      propertyId: payment.propertyId,
+      paymentId: payment.id,
+      type: COMMUNICATION_TYPE_BY_CHANNEL[channel],
+      direction: CommunicationDirection.OUTGOING,
+      source: CommunicationSource.PAYMENT_REMINDER,
+      subject: 'Payment Reminder',
+      content: `Automated ${reminderType} payment reminder sent by ${channel} for ${payment.description || 'payment'}`,
+      status: CommunicationStatus.CLOSED,
+      priority: CommunicationPriority.MEDIUM,
+      attachments: [],
+      tags: ['payment-reminder', channel],
+      createdBy: 'system',
+      timestamp: new Date(),
+    })
+  } catch (error) {
+    console.error(`Failed to record reminder communication for payment ${payment.id}:`, error)
+  }
+}
+
 export async function sendManualReminder(
   paymentId: string,
   reminderType: 'upcoming' | 'due' | 'overdue',
@@ -255,19 +449,26 @@ export async function sendManualReminder(
 
 // Settings management functions
 async function getReminderSettings(propertyId: string): Promise<ReminderSettings> {
-  // TODO: Implement database lookup for property-specific settings
-  // For now, return default settings
-  return DEFAULT_REMINDER_SETTINGS
+  return (await getPropertyReminderSettings(propertyId)) ?? DEFAULT_REMINDER_SETTINGS
 }
 
+// The property's stored settings, or the global ones when it has none
 async function getPropertyReminderSettings(propertyId: string): Promise<PropertyReminderSettings | null> {
-  // TODO: Implement database lookup for property-specific reminder settings
-  return null
+  const stored = await getStoredReminderSettings(propertyId)
+  if (!stored) {
+    return null
+  }
+
+  return { ...DEFAULT_REMINDER_SETTINGS, ...stored, propertyId }
 }
 
 async function getTenantReminderPreferences(tenantId: string): Promise<TenantReminderPreferences | null> {
-  // TODO: Implement database lookup for tenant preferences
-  // For now, assume all tenants want email reminders
+  const stored = await getStoredReminderPreferences(tenantId)
+  if (stored) {
+    return stored
+  }
+
+  // Tenants who haven't set preferences get email reminders at the default time
   return {
     tenantId,
     emailEnabled: true,
@@ -275,8 +476,6 @@ async function getTenantReminderPreferences(tenantId: string): Promise<TenantRem
   }
 }
 
-// Placeholder for payment lookup - this would need to be implemented
 async function getPaymentByIdForReminder(paymentId: string): Promise<any> {
-  // TODO: Implement payment lookup by ID
-  return null
+  return getPaymentById(paymentId)
 }
@@ -1,15 +1,18 @@
-import { Resend } from 'resend';
 import { format, isToday, isFuture, isPast } from 'date-fns';
 import { Payment } from '../db/models/payment';
 import { Tenant } from '../db/models/tenant';
 import { getPropertyById } from '../db/operations/properties';
-
-// Lazy instantiate Resend within functions to avoid build-time API key checks
+import { getAccruedLateFeeCents } from '../payments/late-fees';
+import { sendMessage } from '../messaging/channels';
+import { MessageChannel, MessageChannelType } from '../messaging/types';
+import type { DunningNoticeType } from '../db/models/dunning';
+import { formatCurrency, fromMinorUnits } from '../utils';
 
 export interface ReminderEmailProps {
   tenantName: string
   tenantEmail: string
   paymentAmount: number
+  currency: string
   dueDate: string
   propertyName: string
   paymentMethods: string[]
@@ -17,6 +20,8 @@ export interface ReminderEmailProps {
   paymentReference: string
   propertyLogo?: string
   reminderType: 'upcoming' | 'due' | 'overdue'
+  lateFeeAmount?: number
+  notice?: DunningNoticeType // Dunning stage wording for overdue payments
 }
 
 export interface EmailDeliveryResult {
@@ -25,61 +30,70 @@ export interface EmailDeliveryResult {
   error?: string
 }
 
+export interface ReminderDelivery {
+  channel?: MessageChannelType
+  // Phone number or Zalo user ID; email goes to the tenant's address unless given
+  recipient?: string
+  notice?: DunningNoticeType
+}
+
 export async function sendPaymentReminder(
   payment: Payment,
-  tenant: Tenant
+  tenant: Tenant,
+  delivery: ReminderDelivery = {}
 ): Promise<EmailDeliveryResult> {
   const property = await getPropertyById(payment.propertyId);
   if (!property) {
     throw new Error(`Property with ID ${payment.propertyId} not found`);
   }
 
-  const reminderType = getReminderType(payment.dueDate, payment.status);
+  // Payments read back from the store may carry the due date as an ISO string
+  const dueDate = new Date(payment.dueDate);
+  const reminderType = getReminderType(dueDate, payment.status);
+  const lateFeeCents = await getAccruedLateFeeCents(payment.id);
 
   const props: ReminderEmailProps = {
     tenantName: `${tenant.firstName} ${tenant.lastName}`,
     tenantEmail: tenant.email,
-    paymentAmount: payment.amountCents / 100,
-    dueDate: payment.dueDate.toISOString(),
+    paymentAmount: fromMinorUnits(payment.amountCents, payment.currency),
+    currency: payment.currency,
+    dueDate: dueDate.toISOString(),
     propertyName: property.name,
     paymentMethods: [],
     contactEmail: process.env.SUPPORT_EMAIL || 'support@coliving-danang.com',
     paymentReference: payment.reference || payment.id,
     propertyLogo: undefined,
     reminderType: reminderType,
+    lateFeeAmount: lateFeeCents > 0 ? fromMinorUnits(lateFeeCents, payment.currency) : undefined,
+    notice: delivery.notice,
   };
+  const channel = delivery.channel || MessageChannel.EMAIL;
   try {
-    const apiKey = process.env.RESEND_API_KEY
-    if (!apiKey) {
-      // Don't throw at build-time; fail gracefully at runtime
-      return { success: false, error: 'Email service not configured (missing RESEND_API_KEY)' }
-    }
-    const resend = new Resend(apiKey)
-    const subject = getSubjectLine(props.reminderType, props.propertyName)
-    const { html, text } = generateEmailContent(props)
-
-    const { data, error } = await resend.emails.send({
-      from: process.env.RESEND_FROM_EMAIL || 'noreply@coliving-danang.com',
-      to: props.tenantEmail,
-      subject,
-      html,
-      text,
-      tags: [
-        { name: 'type', value: 'payment-reminder' },
-        { name: 'reminder-type', value: props.reminderType },
-        { name: 'property', value: props.propertyName },
-      ],
-    })
+    const result = channel === MessageChannel.EMAIL
+      ? await sendMessage(channel, {
+          to: delivery.recipient || props.tenantEmail,
+          subject: getSubjectLine(props.reminderType, props.propertyName, props.notice),
+          ...generateEmailContent(props),
+          tags: [
+            { name: 'type', value: 'payment-reminder' },
+            { name: 'reminder-type', value: props.reminderType },
+            { name: 'property', value: props.propertyName },
+          ],
+        })
+      : await sendMessage(channel, {
+          to: delivery.recipient || '',
+          text: generateTextMessage(props),
+        })
 
-    if (error) {
-      throw new Error(error.message || 'Resend send error')
+    if (!result.success) {
+      throw new Error(result.error || `Failed to send ${channel} reminder`)
     }
 
-    console.log(`Payment reminder sent to ${props.tenantEmail}: ${data?.id}`)
+    console.log(`Payment reminder sent by ${channel} to ${delivery.recipient || props.tenantEmail}: ${result.messageId}`)
     
     return {
       success: true,
-      messageId: data?.id,
+      messageId: result.messageId,
     }
   } catch (error) {
     console.error('Failed to send payment reminder:', error)
@@ -106,7 +120,10 @@ function getReminderType(dueDate: Date, status: string): 'upcoming' | 'due' | 'o
   return 'upcoming';
 }
 
-function getSubjectLine(reminderType: string, propertyName: string): string {
+function getSubjectLine(reminderType: string, propertyName: string, notice?: DunningNoticeType): string {
+  if (notice) {
+    return `${DUNNING_NOTICE_COPY[notice].title}: ${propertyName}`
+  }
   switch (reminderType) {
     case 'upcoming':
       return `Payment Reminder: ${propertyName} - Due Soon`
@@ -120,10 +137,14 @@ function getSubjectLine(reminderType: string, propertyName: string): string {
 }
 
 function generateEmailContent(props: ReminderEmailProps): { html: string; text: string } {
-  const formattedAmount = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-  }).format(props.paymentAmount)
+  const formattedAmount = formatCurrency(props.paymentAmount, props.currency)
+
+  const formattedLateFee = props.lateFeeAmount
+    ? formatCurrency(props.lateFeeAmount, props.currency)
+    : undefined
+  const formattedTotal = props.lateFeeAmount
+    ? formatCurrency(props.paymentAmount + props.lateFeeAmount, props.currency)
+    : undefined
 
   const formattedDate = format(new Date(props.dueDate), 'MMMM d, yyyy')
   
@@ -231,18 +252,18 @@ function generateEmailContent(props: ReminderEmailProps): { html: string; text:
       <div class="container">
         <div class="header">
           ${props.propertyLogo ? `<img src="${props.propertyLogo}" alt="${props.propertyName}" style="max-height: 40px; margin-bottom: 10px;">` : ''}
-          <h1>${getEmailTitle(props.reminderType)}</h1>
+          <h1>${getEmailTitle(props.reminderType, props.notice)}</h1>
         </div>
         <div class="content">
           <p>Dear ${props.tenantName},</p>
           
-          ${props.reminderType === 'overdue' ? `
+          ${props.reminderType === 'overdue' && props.notice !== 'friendly' ? `
             <div class="urgent-notice">
               <strong>⚠️ Urgent Notice:</strong> Your payment is now overdue. Please make payment immediately to avoid any late fees or service interruption.
             </div>
           ` : ''}
           
-          <p>${getEmailMessage(props.reminderType, formattedDate)}</p>
+          <p>${getEmailMessage(props.reminderType, formattedDate, props.notice)}</p>
           
           <div class="payment-details">
             <div class="payment-row">
@@ -253,6 +274,16 @@ function generateEmailContent(props: ReminderEmailProps): { html: string; text:
               <span>Amount Due:</span>
               <span class="amount">${formattedAmount}</span>
             </div>
+            ${formattedLateFee ? `
+            <div class="payment-row">
+              <span>Late Fee:</span>
+              <strong>${formattedLateFee}</strong>
+            </div>
+            <div class="payment-row">
+              <span>Total Due:</span>
+              <strong>${formattedTotal}</strong>
+            </div>
+            ` : ''}
             <div class="payment-row">
               <span>Due Date:</span>
               <strong>${formattedDate}</strong>
@@ -287,17 +318,17 @@ function generateEmailContent(props: ReminderEmailProps): { html: string; text:
   `
 
   const text = `
-    ${getEmailTitle(props.reminderType)} - ${props.propertyName}
+    ${getEmailTitle(props.reminderType, props.notice)} - ${props.propertyName}
     
     Dear ${props.tenantName},
     
-    ${props.reminderType === 'overdue' ? 'URGENT NOTICE: Your payment is now overdue. Please make payment immediately to avoid any late fees or service interruption.\n\n' : ''}
+    ${props.reminderType === 'overdue' && props.notice !== 'friendly' ? 'URGENT NOTICE: Your payment is now overdue. Please make payment immediately to avoid any late fees or service interruption.\n\n' : ''}
     
-    ${getEmailMessage(props.reminderType, formattedDate)}
+    ${getEmailMessage(props.reminderType, formattedDate, props.notice)}
     
     Payment Details:
     - Property: ${props.propertyName}
-    - Amount Due: ${formattedAmount}
+    - Amount Due: ${formattedAmount}${formattedLateFee ? `\n    - Late Fee: ${formattedLateFee}\n    - Total Due: ${formattedTotal}` : ''}
     - Due Date: ${formattedDate}
     - Reference: ${props.paymentReference}
     
@@ -319,7 +350,27 @@ function generateEmailContent(props: ReminderEmailProps): { html: string; text:
   return { html, text }
 }
 
-function getEmailTitle(reminderType: string): string {
+// Short plain-text reminder for WhatsApp, SMS and Zalo
+function generateTextMessage(props: ReminderEmailProps): string {
+  const formatAmount = (amount: number) => formatCurrency(amount, props.currency)
+  const formattedDate = format(new Date(props.dueDate), 'MMMM d, yyyy')
+  const amountLine = props.lateFeeAmount
+    ? `Amount due: ${formatAmount(props.paymentAmount + props.lateFeeAmount)} (incl. ${formatAmount(props.lateFeeAmount)} late fee)`
+    : `Amount due: ${formatAmount(props.paymentAmount)}`
+
+  return [
+    `${getEmailTitle(props.reminderType, props.notice)} - ${props.propertyName}`,
+    `Hi ${props.tenantName}, ${getEmailMessage(props.reminderType, formattedDate, props.notice)}`,
+    amountLine,
+    `Reference: ${props.paymentReference}`,
+    `Questions? ${props.contactEmail}`
+  ].join('\n')
+}
+
+function getEmailTitle(reminderType: string, notice?: DunningNoticeType): string {
+  if (notice) {
+    return DUNNING_NOTICE_COPY[notice].title
+  }
   switch (reminderType) {
     case 'upcoming':
       return 'Payment Reminder'
@@ -332,7 +383,10 @@ function getEmailTitle(reminderType: string): string {
   }
 }
 
-function getEmailMessage(reminderType: string, formattedDate: string): string {
+function getEmailMessage(reminderType: string, formattedDate: string, notice?: DunningNoticeType): string {
+  if (notice) {
+    return DUNNING_NOTICE_COPY[notice].message(formattedDate)
+  }
   switch (reminderType) {
     case 'upcoming':
       return `This is a friendly reminder that your rent payment is due on ${formattedDate}. Please ensure payment is made by the due date to avoid any late fees.`
@@ -345,6 +399,22 @@ function getEmailMessage(reminderType: string, formattedDate: string): string {
   }
 }
 
+// Wording for each dunning stage notice, from a nudge to a formal notice
+const DUNNING_NOTICE_COPY: Record<DunningNoticeType, { title: string; message: (formattedDate: string) => string }> = {
+  friendly: {
+    title: 'Friendly Payment Reminder',
+    message: formattedDate => `We haven't yet received your rent payment that was due on ${formattedDate}. If you've already paid, please ignore this message; otherwise we'd appreciate payment at your earliest convenience.`
+  },
+  firm: {
+    title: 'Overdue Payment Notice',
+    message: formattedDate => `Your rent payment due on ${formattedDate} is still outstanding. Please pay the full amount within 3 days to avoid further late fees, or contact us to discuss your situation.`
+  },
+  formal: {
+    title: 'Formal Notice of Unpaid Rent',
+    message: formattedDate => `This is a formal notice that your rent payment due on ${formattedDate} remains unpaid despite earlier reminders. If payment is not received within 7 days, the matter will be referred to the property owner and may lead to action under the terms of your agreement.`
+  }
+}
+
 // Rate limiting helper
 const emailRateLimit = new Map<string, number>()
 const RATE_LIMIT_WINDOW = 60 * 60 * 1000 // 1 hour
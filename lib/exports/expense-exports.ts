@@ -1,5 +1,7 @@
 import { Expense } from '../db/models/expense'
-import { ExpenseReport, CategoryTotal } from '../reporting/expense-reports'
+import { ExpenseReport, CategoryTotal, ConvertedExpense, convertExpenses } from '../reporting/expense-reports'
+import { createCurrencyConverter } from '../currency/conversion'
+import { formatCents, fromMinorUnits, getCurrencyMinorUnits } from '../utils'
 import { TrendSummary } from '../analytics/trend-analysis'
 
 // Export formats and interfaces
@@ -29,7 +31,7 @@ export interface ExportResult {
 
 // CSV Export Functions
 export function exportExpensesToCSV(
-  expenses: Expense[],
+  expenses: Array<Expense | ConvertedExpense>,
   options: ExportOptions = { format: 'csv' }
 ): string {
   const headers = [
@@ -39,6 +41,9 @@ export function exportExpensesToCSV(
     'Subcategory',
     'Amount',
     'Currency',
+    'Converted Amount',
+    'Reporting Currency',
+    'Exchange Rate',
     'Merchant',
     'Tax Deductible',
     'Tax Category',
@@ -53,14 +58,18 @@ export function exportExpensesToCSV(
   const rows = expenses.map(expense => {
     const categorySelection = expense.categorySelection
     const location = expense.location
+    const original = getOriginalAmount(expense)
     
     return [
       formatDate(expense.expenseDate, options.dateFormat),
       `"${expense.description.replace(/"/g, '""')}"`, // Escape quotes
       categorySelection?.categoryId || expense.category || '',
       categorySelection?.subcategoryId || '',
-      formatAmount(expense.amountCents, options.currency),
+      formatAmount(original.amountCents, original.currency),
+      original.currency,
+      formatAmount(expense.amountCents, expense.currency),
       expense.currency,
+      original.exchangeRate,
       extractMerchantFromDescription(expense.description),
       expense.isTaxDeductible ? 'Yes' : 'No',
       expense.taxCategory || '',
@@ -85,9 +94,25 @@ export function exportReportToCSV(
   // Report Summary
   sections.push('EXPENSE REPORT SUMMARY')
   sections.push(`Period,${report.period.label}`)
-  sections.push(`Total Amount,${formatAmount(report.totalAmount, options.currency)}`)
+  sections.push(`Reporting Currency,${report.currency}`)
+  sections.push(`Total Amount,${formatAmount(report.totalAmount, report.currency)}`)
   sections.push(`Total Expenses,${report.totalExpenses}`)
-  sections.push(`Average Expense,${formatAmount(report.averageExpense, options.currency)}`)
+  sections.push(`Average Expense,${formatAmount(report.averageExpense, report.currency)}`)
+  sections.push('')
+
+  // Original Currencies
+  sections.push('ORIGINAL CURRENCIES')
+  sections.push('Currency,Original Amount,Converted Amount,Count')
+
+  for (const total of report.currencyBreakdown) {
+    sections.push([
+      total.currency,
+      formatAmount(total.originalAmount, total.currency),
+      formatAmount(total.convertedAmount, report.currency),
+      total.count.toString()
+    ].join(','))
+  }
+
   sections.push('')
 
   // Category Breakdown
@@ -127,7 +152,7 @@ export function exportReportToCSV(
 
 // Excel Export Functions (simplified - would use a library like ExcelJS in production)
 export function generateExcelData(
-  expenses: Expense[],
+  expenses: Array<Expense | ConvertedExpense>,
   report?: ExpenseReport,
   options: ExportOptions = { format: 'excel' }
 ): any {
@@ -139,17 +164,23 @@ export function generateExcelData(
   const expenseSheet = {
     name: 'Expenses',
     data: [
-      ['Date', 'Description', 'Category', 'Subcategory', 'Amount', 'Currency', 'Tax Deductible', 'Tax Category'],
-      ...expenses.map(expense => [
-        formatDate(expense.expenseDate, options.dateFormat),
-        expense.description,
-        expense.categorySelection?.categoryId || expense.category || '',
-        expense.categorySelection?.subcategoryId || '',
-        expense.amountCents / 100,
-        expense.currency,
-        expense.isTaxDeductible,
-        expense.taxCategory || ''
-      ])
+      ['Date', 'Description', 'Category', 'Subcategory', 'Amount', 'Currency', 'Converted Amount', 'Reporting Currency', 'Exchange Rate', 'Tax Deductible', 'Tax Category'],
+      ...expenses.map(expense => {
+        const original = getOriginalAmount(expense)
+        return [
+          formatDate(expense.expenseDate, options.dateFormat),
+          expense.description,
+          expense.categorySelection?.categoryId || expense.category || '',
+          expense.categorySelection?.subcategoryId || '',
+          fromMinorUnits(original.amountCents, original.currency),
+          original.currency,
+          fromMinorUnits(expense.amountCents, expense.currency),
+          expense.currency,
+          original.exchangeRate,
+          expense.isTaxDeductible,
+          expense.taxCategory || ''
+        ]
+      })
     ]
   }
   workbook.sheets.push(expenseSheet)
@@ -161,14 +192,15 @@ export function generateExcelData(
       data: [
         ['Metric', 'Value'],
         ['Period', report.period.label],
-        ['Total Amount', report.totalAmount / 100],
+        ['Reporting Currency', report.currency],
+        ['Total Amount', fromMinorUnits(report.totalAmount, report.currency)],
         ['Total Expenses', report.totalExpenses],
-        ['Average Expense', report.averageExpense / 100],
+        ['Average Expense', fromMinorUnits(report.averageExpense, report.currency)],
         [''],
         ['Category', 'Amount', 'Count', 'Percentage'],
         ...report.categoryBreakdown.map(cat => [
           cat.categoryName,
-          cat.totalAmount / 100,
+          fromMinorUnits(cat.totalAmount, report.currency),
           cat.expenseCount,
           `${cat.percentage.toFixed(2)}%`
         ])
@@ -183,7 +215,7 @@ export function generateExcelData(
         ['Tax Category', 'Amount'],
         ...Object.entries(report.taxSummary.categoryBreakdown).map(([category, amount]) => [
           category,
-          amount / 100
+          fromMinorUnits(amount, report.currency)
         ])
       ]
     }
@@ -217,9 +249,10 @@ export function generatePDFData(
   pdfData.sections.push({
     type: 'summary',
     content: {
-      totalAmount: formatAmount(report.totalAmount, options.currency),
+      currency: report.currency,
+      totalAmount: formatAmount(report.totalAmount, report.currency),
       totalExpenses: report.totalExpenses,
-      averageExpense: formatAmount(report.averageExpense, options.currency),
+      averageExpense: formatAmount(report.averageExpense, report.currency),
       comparison: report.comparisons
     }
   })
@@ -245,9 +278,9 @@ export function generatePDFData(
     headers: ['Category', 'Amount', 'Count', 'Average', 'Percentage'],
     rows: report.categoryBreakdown.map(cat => [
       cat.categoryName,
-      formatAmount(cat.totalAmount, options.currency),
+      formatAmount(cat.totalAmount, report.currency),
       cat.expenseCount.toString(),
-      formatAmount(cat.averageAmount, options.currency),
+      formatAmount(cat.averageAmount, report.currency),
       `${cat.percentage.toFixed(2)}%`
     ])
   })
@@ -256,12 +289,12 @@ export function generatePDFData(
   pdfData.sections.push({
     type: 'tax-summary',
     content: {
-      totalDeductible: formatAmount(report.taxSummary.totalDeductible, options.currency),
-      totalNonDeductible: formatAmount(report.taxSummary.totalNonDeductible, options.currency),
+      totalDeductible: formatAmount(report.taxSummary.totalDeductible, report.currency),
+      totalNonDeductible: formatAmount(report.taxSummary.totalNonDeductible, report.currency),
       deductiblePercentage: `${report.taxSummary.deductiblePercentage.toFixed(2)}%`,
       categoryBreakdown: Object.entries(report.taxSummary.categoryBreakdown).map(([category, amount]) => ({
         category,
-        amount: formatAmount(amount, options.currency)
+        amount: formatAmount(amount, report.currency)
       }))
     }
   })
@@ -271,12 +304,13 @@ export function generatePDFData(
     pdfData.sections.push({
       type: 'table',
       title: 'Top Expenses',
-      headers: ['Date', 'Description', 'Category', 'Amount'],
+      headers: ['Date', 'Description', 'Category', 'Amount', 'Original Amount'],
       rows: report.topExpenses.slice(0, 10).map(expense => [
         formatDate(expense.expenseDate, options.dateFormat),
         expense.description,
         expense.categorySelection?.categoryId || expense.category || '',
-        formatAmount(expense.amountCents, options.currency)
+        formatAmount(expense.amountCents, report.currency),
+        formatAmount(expense.originalAmountCents, expense.originalCurrency)
       ])
     })
   }
@@ -305,7 +339,7 @@ export function exportForQuickBooks(
     formatDate(expense.expenseDate, 'US'), // QuickBooks prefers US format
     mapCategoryToQuickBooksAccount(expense.categorySelection?.categoryId || expense.category || ''),
     extractMerchantFromDescription(expense.description),
-    (expense.amountCents / 100).toFixed(2),
+    fromMinorUnits(expense.amountCents, expense.currency).toFixed(getCurrencyMinorUnits(expense.currency)),
     `"${expense.description.replace(/"/g, '""')}"`,
     expense.propertyId, // Use property as class
     '', // Customer (empty for property expenses)
@@ -329,11 +363,14 @@ function formatDate(date: Date, format: string = 'US'): string {
 }
 
 function formatAmount(amountCents: number, currency: string = 'USD'): string {
-  const amount = amountCents / 100
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: currency
-  }).format(amount)
+  return formatCents(amountCents, currency)
+}
+
+// Amount and currency the expense was recorded in, before any conversion
+function getOriginalAmount(expense: Expense | ConvertedExpense) {
+  return 'originalCurrency' in expense
+    ? { amountCents: expense.originalAmountCents, currency: expense.originalCurrency, exchangeRate: expense.exchangeRate }
+    : { amountCents: expense.amountCents, currency: expense.currency, exchangeRate: 1 }
 }
 
 function extractMerchantFromDescription(description: string): string {
@@ -369,6 +406,14 @@ export async function exportExpenseData(
     let fileName: string
     const timestamp = new Date().toISOString().split('T')[0]
 
+    // Show expenses in the requested currency, with the original amounts alongside
+    if (data.expenses && options.currency) {
+      data = {
+        ...data,
+        expenses: await convertExpenses(data.expenses, createCurrencyConverter(options.currency))
+      }
+    }
+
     switch (options.format) {
       case 'csv':
         if (data.expenses) {
@@ -0,0 +1,69 @@
+import { CommunicationType } from '../db/models/communication'
+import { resendEmailProvider } from './providers/email'
+import { FakeMessagingProvider } from './providers/fake'
+import { smsGatewayProvider } from './providers/sms'
+import { whatsAppProvider } from './providers/whatsapp'
+import { zaloOaProvider } from './providers/zalo'
+import {
+  MESSAGE_CHANNELS,
+  MessageChannelType,
+  MessageDeliveryResult,
+  MessagingProvider,
+  OutboundMessage
+} from './types'
+
+// How a message on each channel is recorded in a tenant's communication history
+export const COMMUNICATION_TYPE_BY_CHANNEL: Record<MessageChannelType, CommunicationType> = {
+  email: CommunicationType.EMAIL,
+  whatsapp: CommunicationType.WHATSAPP,
+  sms: CommunicationType.TEXT,
+  zalo: CommunicationType.ZALO
+}
+
+const liveProviders: Record<MessageChannelType, MessagingProvider> = {
+  email: resendEmailProvider,
+  whatsapp: whatsAppProvider,
+  sms: smsGatewayProvider,
+  zalo: zaloOaProvider
+}
+
+const fakeProviders = new Map<MessageChannelType, FakeMessagingProvider>()
+const overrides = new Map<MessageChannelType, MessagingProvider>()
+
+export function isMessageChannel(value: string): value is MessageChannelType {
+  return (MESSAGE_CHANNELS as readonly string[]).includes(value)
+}
+
+// The shared fake provider for a channel, used everywhere when MESSAGING_PROVIDER=fake
+export function getFakeProvider(channel: MessageChannelType): FakeMessagingProvider {
+  let provider = fakeProviders.get(channel)
+  if (!provider) {
+    provider = new FakeMessagingProvider(channel)
+    fakeProviders.set(channel, provider)
+  }
+  return provider
+}
+
+export function getMessagingProvider(channel: MessageChannelType): MessagingProvider {
+  const override = overrides.get(channel)
+  if (override) {
+    return override
+  }
+  return process.env.MESSAGING_PROVIDER === 'fake' ? getFakeProvider(channel) : liveProviders[channel]
+}
+
+// Swap the provider for a channel, e.g. a different SMS gateway; pass null to restore the default
+export function setMessagingProvider(channel: MessageChannelType, provider: MessagingProvider | null): void {
+  if (provider) {
+    overrides.set(channel, provider)
+  } else {
+    overrides.delete(channel)
+  }
+}
+
+export async function sendMessage(channel: MessageChannelType, message: OutboundMessage): Promise<MessageDeliveryResult> {
+  if (!message.to) {
+    return { success: false, error: `No ${channel} recipient` }
+  }
+  return getMessagingProvider(channel).send(message)
+}
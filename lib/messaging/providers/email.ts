@@ -0,0 +1,36 @@
+import { Resend } from 'resend'
+import type { MessageDeliveryResult, MessagingProvider, OutboundMessage } from '../types'
+
+// Email through Resend. Delivery events arrive on the existing /api/webhooks/resend route.
+export const resendEmailProvider: MessagingProvider = {
+  channel: 'email',
+  name: 'resend',
+
+  async send(message: OutboundMessage): Promise<MessageDeliveryResult> {
+    // Lazy instantiate Resend to avoid build-time API key checks
+    const apiKey = process.env.RESEND_API_KEY
+    if (!apiKey) {
+      return { success: false, error: 'Email service not configured (missing RESEND_API_KEY)' }
+    }
+
+    try {
+      const resend = new Resend(apiKey)
+      const { data, error } = await resend.emails.send({
+        from: process.env.RESEND_FROM_EMAIL || 'noreply@coliving-danang.com',
+        to: message.to,
+        subject: message.subject || '',
+        html: message.html,
+        text: message.text,
+        tags: message.tags
+      })
+
+      if (error) {
+        throw new Error(error.message || 'Resend send error')
+      }
+
+      return { success: true, messageId: data?.id }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { v4 as uuidv4 } from 'uuid'
+import type {
+  DeliveryStatusUpdate,
+  MessageChannelType,
+  MessageDeliveryResult,
+  MessagingProvider,
+  OutboundMessage
+} from '../types'
+
+export interface FakeSentMessage extends OutboundMessage {
+  channel: MessageChannelType
+  messageId: string
+  sentAt: Date
+}
+
+// Local provider for development and tests: records messages instead of sending them
+export class FakeMessagingProvider implements MessagingProvider {
+  readonly name = 'fake'
+  readonly sent: FakeSentMessage[] = []
+  private failures: string[] = []
+
+  constructor(readonly channel: MessageChannelType) {}
+
+  // Make the next send fail with this error
+  failNext(error: string): void {
+    this.failures.push(error)
+  }
+
+  async send(message: OutboundMessage): Promise<MessageDeliveryResult> {
+    const failure = this.failures.shift()
+    if (failure) {
+      return { success: false, error: failure }
+    }
+
+    const messageId = `fake_${this.channel}_${uuidv4()}`
+    this.sent.push({ ...message, channel: this.channel, messageId, sentAt: new Date() })
+    console.log(`[fake ${this.channel}] to ${message.to}: ${message.subject || message.text.slice(0, 60)}`)
+    return { success: true, messageId }
+  }
+
+  // Accepts { messageId, status } bodies, e.g. posted by hand to the status webhook
+  parseStatusCallback(payload: any): DeliveryStatusUpdate[] {
+    if (!payload?.messageId || !['delivered', 'opened', 'failed'].includes(payload.status)) {
+      return []
+    }
+    return [{ messageId: payload.messageId, status: payload.status, occurredAt: new Date(), error: payload.error }]
+  }
+}
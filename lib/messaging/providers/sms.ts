@@ -0,0 +1,54 @@
+import type { DeliveryStatusUpdate, MessageDeliveryResult, MessagingProvider, OutboundMessage } from '../types'
+
+// Generic HTTP SMS gateway: POSTs { to, from, text } as JSON with a bearer key and
+// expects the gateway's message ID back as `id` or `messageId`.
+export const smsGatewayProvider: MessagingProvider = {
+  channel: 'sms',
+  name: 'sms-gateway',
+
+  async send(message: OutboundMessage): Promise<MessageDeliveryResult> {
+    const gatewayUrl = process.env.SMS_GATEWAY_URL
+    const apiKey = process.env.SMS_GATEWAY_API_KEY
+    if (!gatewayUrl || !apiKey) {
+      return { success: false, error: 'SMS gateway not configured (missing SMS_GATEWAY_URL or SMS_GATEWAY_API_KEY)' }
+    }
+
+    try {
+      const response = await fetch(gatewayUrl, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          to: message.to,
+          from: process.env.SMS_SENDER_ID,
+          text: message.text
+        })
+      })
+      const result = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        return { success: false, error: result?.error || `SMS gateway error ${response.status}` }
+      }
+
+      return { success: true, messageId: result?.id || result?.messageId }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  },
+
+  parseStatusCallback(payload: any): DeliveryStatusUpdate[] {
+    const messageId = payload?.messageId || payload?.id
+    if (!messageId) return []
+
+    const status = String(payload.status || '').toLowerCase()
+    if (status === 'delivered') {
+      return [{ messageId, status: 'delivered', occurredAt: new Date() }]
+    }
+    if (status === 'failed' || status === 'undelivered' || status === 'rejected') {
+      return [{ messageId, status: 'failed', occurredAt: new Date(), error: payload.error || `SMS ${status}` }]
+    }
+    return []
+  }
+}
@@ -0,0 +1,82 @@
+import type { DeliveryStatusUpdate, MessageDeliveryResult, MessagingProvider, OutboundMessage } from '../types'
+
+const GRAPH_API_URL = 'https://graph.facebook.com/v19.0'
+
+// WhatsApp Business Cloud API. Messages outside a customer service window must use an
+// approved template, so when WHATSAPP_TEMPLATE_NAME is set the text is sent as its single body parameter.
+export const whatsAppProvider: MessagingProvider = {
+  channel: 'whatsapp',
+  name: 'whatsapp-cloud',
+
+  async send(message: OutboundMessage): Promise<MessageDeliveryResult> {
+    const accessToken = process.env.WHATSAPP_ACCESS_TOKEN
+    const phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID
+    if (!accessToken || !phoneNumberId) {
+      return { success: false, error: 'WhatsApp not configured (missing WHATSAPP_ACCESS_TOKEN or WHATSAPP_PHONE_NUMBER_ID)' }
+    }
+
+    const templateName = process.env.WHATSAPP_TEMPLATE_NAME
+    const body = templateName
+      ? {
+          messaging_product: 'whatsapp',
+          to: message.to,
+          type: 'template',
+          template: {
+            name: templateName,
+            language: { code: process.env.WHATSAPP_TEMPLATE_LANGUAGE || 'en' },
+            components: [{ type: 'body', parameters: [{ type: 'text', text: message.text }] }]
+          }
+        }
+      : {
+          messaging_product: 'whatsapp',
+          to: message.to,
+          type: 'text',
+          text: { body: message.text }
+        }
+
+    try {
+      const response = await fetch(`${GRAPH_API_URL}/${phoneNumberId}/messages`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        return { success: false, error: result?.error?.message || `WhatsApp API error ${response.status}` }
+      }
+
+      return { success: true, messageId: result?.messages?.[0]?.id }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  },
+
+  parseStatusCallback(payload: any): DeliveryStatusUpdate[] {
+    const updates: DeliveryStatusUpdate[] = []
+
+    for (const entry of payload?.entry || []) {
+      for (const change of entry.changes || []) {
+        for (const status of change.value?.statuses || []) {
+          const mapped = status.status === 'delivered' ? 'delivered'
+            : status.status === 'read' ? 'opened'
+            : status.status === 'failed' ? 'failed'
+            : null
+          if (!mapped) continue
+
+          updates.push({
+            messageId: status.id,
+            status: mapped,
+            occurredAt: new Date(Number(status.timestamp) * 1000),
+            error: status.errors?.[0]?.title
+          })
+        }
+      }
+    }
+
+    return updates
+  }
+}
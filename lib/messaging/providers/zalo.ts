@@ -0,0 +1,60 @@
+import type { DeliveryStatusUpdate, MessageDeliveryResult, MessagingProvider, OutboundMessage } from '../types'
+
+const ZALO_OA_API_URL = 'https://openapi.zalo.me/v3.0/oa/message/cs'
+
+// Zalo Official Account messages. Recipients are addressed by the user ID they
+// have as a follower of the OA, not by phone number.
+export const zaloOaProvider: MessagingProvider = {
+  channel: 'zalo',
+  name: 'zalo-oa',
+
+  async send(message: OutboundMessage): Promise<MessageDeliveryResult> {
+    const accessToken = process.env.ZALO_OA_ACCESS_TOKEN
+    if (!accessToken) {
+      return { success: false, error: 'Zalo OA not configured (missing ZALO_OA_ACCESS_TOKEN)' }
+    }
+
+    try {
+      const response = await fetch(ZALO_OA_API_URL, {
+        method: 'POST',
+        headers: {
+          access_token: accessToken,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          recipient: { user_id: message.to },
+          message: { text: message.text }
+        })
+      })
+      const result = await response.json()
+
+      // Zalo reports errors in the body with a non-zero code
+      if (!response.ok || result?.error !== 0) {
+        return { success: false, error: result?.message || `Zalo OA error ${response.status}` }
+      }
+
+      return { success: true, messageId: result?.data?.message_id }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  },
+
+  parseStatusCallback(payload: any): DeliveryStatusUpdate[] {
+    const occurredAt = payload?.timestamp ? new Date(Number(payload.timestamp)) : new Date()
+
+    switch (payload?.event_name) {
+      case 'user_received_message':
+        return payload.message?.msg_id
+          ? [{ messageId: payload.message.msg_id, status: 'delivered', occurredAt }]
+          : []
+      case 'user_seen_message':
+        return (payload.message?.msg_ids || []).map((messageId: string) => ({
+          messageId,
+          status: 'opened' as const,
+          occurredAt
+        }))
+      default:
+        return []
+    }
+  }
+}
@@ -0,0 +1,42 @@
+// Channels tenants and prospects can be messaged on
+export const MessageChannel = {
+  EMAIL: 'email',
+  WHATSAPP: 'whatsapp',
+  SMS: 'sms',
+  ZALO: 'zalo'
+} as const
+
+export type MessageChannelType = typeof MessageChannel[keyof typeof MessageChannel]
+
+export const MESSAGE_CHANNELS = ['email', 'whatsapp', 'sms', 'zalo'] as const
+
+export interface OutboundMessage {
+  // Email address, phone number in E.164 format, or Zalo follower ID depending on the channel
+  to: string
+  text: string
+  // Email only
+  subject?: string
+  html?: string
+  tags?: { name: string; value: string }[]
+}
+
+export interface MessageDeliveryResult {
+  success: boolean
+  messageId?: string
+  error?: string
+}
+
+export interface DeliveryStatusUpdate {
+  messageId: string
+  status: 'delivered' | 'opened' | 'failed'
+  occurredAt: Date
+  error?: string
+}
+
+export interface MessagingProvider {
+  readonly channel: MessageChannelType
+  readonly name: string
+  send(message: OutboundMessage): Promise<MessageDeliveryResult>
+  // Turns a provider's delivery webhook body into status updates; unknown events are ignored
+  parseStatusCallback?(payload: any): DeliveryStatusUpdate[]
+}
@@ -0,0 +1,339 @@
+import { addDays, max, startOfDay } from 'date-fns'
+import { createAuditLog } from '@/lib/admin/audit'
+import {
+  AutopayAttempt,
+  AutopayAttemptStatus,
+  AutopayEnrollment,
+  AutopayStatus
+} from '@/lib/db/models/autopay'
+import { Payment, PaymentMethod } from '@/lib/db/models/payment'
+import { Tenant } from '@/lib/db/models/tenant'
+import {
+  createAutopayAttempt,
+  createAutopayEnrollment,
+  getAutopayAttemptsByPayment,
+  getAutopayAttemptsByStatus,
+  getAutopayEnrollmentByTenant,
+  getAutopayEnrollmentsByStatus,
+  updateAutopayAttempt,
+  updateAutopayEnrollment
+} from '@/lib/db/operations/autopay'
+import { getPaymentById, getPaymentsByTenant } from '@/lib/db/operations/payment'
+import { getTenantById } from '@/lib/db/operations/tenants'
+import {
+  sendAutopayChargeNotice,
+  sendAutopayPausedNotification,
+  sendPaymentFailureNotification
+} from './confirmations'
+import { getOutstandingCents } from './ledger'
+import { processPayment } from './processor'
+
+export interface AutopayRunOptions {
+  asOf?: Date
+}
+
+export interface AutopayRunResult {
+  noticesSent: number
+  charged: number
+  failed: number
+  paused: number
+  errors: string[]
+}
+
+// Autopay runs unattended, so audit entries are attributed to the system
+const AUTOPAY_AUDIT_USER = 'system'
+
+/**
+ * Opt a tenant into autopay, or resume a paused or cancelled enrollment.
+ * Needs the saved card chosen for autopay in the tenant portal.
+ */
+export async function enrollInAutopay(tenant: Tenant): Promise<AutopayEnrollment> {
+  if (!tenant.stripeCustomerId || !tenant.autopayPaymentMethodId) {
+    throw new Error('A saved card is required for autopay')
+  }
+
+  const now = new Date()
+  const existing = await getAutopayEnrollmentByTenant(tenant.id)
+  const enrollment = existing
+    ? await updateAutopayEnrollment(existing.id, {
+      status: AutopayStatus.ACTIVE,
+      consecutiveFailures: 0,
+      activatedAt: now,
+      pausedAt: undefined,
+      pauseReason: undefined
+    })
+    : await createAutopayEnrollment({ tenantId: tenant.id, activatedAt: now })
+
+  if (!enrollment) {
+    throw new Error('Autopay enrollment not found')
+  }
+
+  await createAuditLog({
+    userId: AUTOPAY_AUDIT_USER,
+    action: existing ? 'RESUME_AUTOPAY' : 'ENROLL_AUTOPAY',
+    resource: 'tenant',
+    resourceId: tenant.id,
+    changes: { enrollmentId: enrollment.id, paymentMethodId: tenant.autopayPaymentMethodId }
+  })
+
+  return enrollment
+}
+
+/**
+ * Turn autopay off. Charges already announced to the tenant are called off.
+ */
+export async function cancelAutopay(tenantId: string): Promise<AutopayEnrollment | null> {
+  const enrollment = await getAutopayEnrollmentByTenant(tenantId)
+  if (!enrollment || enrollment.status === AutopayStatus.CANCELLED) {
+    return enrollment
+  }
+
+  await cancelScheduledAttempts(tenantId)
+  const updated = await updateAutopayEnrollment(enrollment.id, { status: AutopayStatus.CANCELLED })
+
+  await createAuditLog({
+    userId: AUTOPAY_AUDIT_USER,
+    action: 'CANCEL_AUTOPAY',
+    resource: 'tenant',
+    resourceId: tenantId,
+    changes: { enrollmentId: enrollment.id }
+  })
+
+  return updated
+}
+
+export async function isOnActiveAutopay(tenantId: string): Promise<boolean> {
+  const enrollment = await getAutopayEnrollmentByTenant(tenantId)
+  return enrollment?.status === AutopayStatus.ACTIVE
+}
+
+/**
+ * Daily autopay run. Charges whose date has arrived are made off-session first,
+ * then the next charge of every outstanding payment is scheduled and announced
+ * to the tenant once it falls within the notice period.
+ */
+export async function runAutopay(options: AutopayRunOptions = {}): Promise<AutopayRunResult> {
+  const asOf = options.asOf || new Date()
+  const result: AutopayRunResult = { noticesSent: 0, charged: 0, failed: 0, paused: 0, errors: [] }
+
+  for (const attempt of await getAutopayAttemptsByStatus(AutopayAttemptStatus.SCHEDULED)) {
+    if (attempt.scheduledFor > asOf) continue
+
+    try {
+      await executeAttempt(attempt, asOf, result)
+    } catch (error) {
+      result.errors.push(`Autopay charge ${attempt.id} failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  for (const enrollment of await getAutopayEnrollmentsByStatus(AutopayStatus.ACTIVE)) {
+    try {
+      const tenant = await getTenantById(enrollment.tenantId)
+      if (!tenant) continue
+
+      const payments = await getPaymentsByTenant(tenant.id)
+      for (const payment of payments) {
+        if (getOutstandingCents(payment) === 0) continue
+        if (await scheduleNextCharge(enrollment, tenant, payment, asOf)) {
+          result.noticesSent++
+        }
+      }
+    } catch (error) {
+      result.errors.push(`Autopay scheduling for tenant ${enrollment.tenantId} failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Schedule the next charge of a payment: on its due date, or after the retry
+ * delay following a failed charge. Returns true when a notice was sent.
+ */
+async function scheduleNextCharge(
+  enrollment: AutopayEnrollment,
+  tenant: Tenant,
+  payment: Payment,
+  asOf: Date
+): Promise<boolean> {
+  const attempts = await getAutopayAttemptsByPayment(payment.id)
+  const last = attempts[attempts.length - 1]
+
+  // Already announced, or charged and waiting for the webhook to settle it
+  if (last && (last.status === AutopayAttemptStatus.SCHEDULED || last.status === AutopayAttemptStatus.SUCCEEDED)) {
+    return false
+  }
+
+  const failures = attempts.filter(a =>
+    a.status === AutopayAttemptStatus.FAILED &&
+    a.attemptedAt &&
+    a.attemptedAt >= enrollment.activatedAt
+  )
+
+  let chargeDate = startOfDay(payment.dueDate)
+  if (failures.length > 0) {
+    const retryDelay = enrollment.retryDelaysDays[failures.length - 1]
+    if (retryDelay === undefined) return false // Out of retries for this payment
+
+    chargeDate = addDays(startOfDay(failures[failures.length - 1].attemptedAt!), retryDelay)
+  }
+
+  const today = startOfDay(asOf)
+  if (addDays(chargeDate, -enrollment.noticeDaysBefore) > today) {
+    return false
+  }
+
+  // The tenant always hears about a charge at least a day before it runs
+  const scheduledFor = max([chargeDate, enrollment.noticeDaysBefore > 0 ? addDays(today, 1) : today])
+  const amountCents = getOutstandingCents(payment)
+  const attemptNumber = attempts.length + 1
+
+  const noticeSent = await sendAutopayChargeNotice(payment, tenant, { amountCents, scheduledFor, attemptNumber })
+
+  await createAutopayAttempt({
+    enrollmentId: enrollment.id,
+    tenantId: tenant.id,
+    paymentId: payment.id,
+    attemptNumber,
+    scheduledFor,
+    amountCents,
+    currency: payment.currency,
+    noticeSentAt: noticeSent ? new Date() : undefined
+  })
+
+  return noticeSent
+}
+
+async function executeAttempt(attempt: AutopayAttempt, asOf: Date, result: AutopayRunResult): Promise<void> {
+  const [enrollment, payment, tenant] = await Promise.all([
+    getAutopayEnrollmentByTenant(attempt.tenantId),
+    getPaymentById(attempt.paymentId),
+    getTenantById(attempt.tenantId)
+  ])
+
+  const amountCents = payment ? getOutstandingCents(payment) : 0
+  if (!enrollment || enrollment.status !== AutopayStatus.ACTIVE || !payment || !tenant || amountCents === 0) {
+    await updateAutopayAttempt(attempt.id, { status: AutopayAttemptStatus.CANCELLED })
+    return
+  }
+
+  // Never charge without notice; try the notice again and charge a day later
+  if (!attempt.noticeSentAt) {
+    const scheduledFor = addDays(startOfDay(asOf), 1)
+    const noticeSent = await sendAutopayChargeNotice(payment, tenant, {
+      amountCents,
+      scheduledFor,
+      attemptNumber: attempt.attemptNumber
+    })
+    await updateAutopayAttempt(attempt.id, {
+      scheduledFor,
+      noticeSentAt: noticeSent ? new Date() : undefined
+    })
+    if (noticeSent) result.noticesSent++
+    return
+  }
+
+  const charge = tenant.stripeCustomerId && tenant.autopayPaymentMethodId
+    ? await processPayment({
+      ...payment,
+      paymentId: payment.id,
+      amountCents,
+      paymentMethod: PaymentMethod.STRIPE,
+      stripeCustomerId: tenant.stripeCustomerId,
+      stripePaymentMethodId: tenant.autopayPaymentMethodId,
+      offSession: true
+    })
+    : { success: false, error: 'No saved card for autopay', stripePaymentIntent: undefined }
+
+  const updated = await updateAutopayAttempt(attempt.id, {
+    amountCents,
+    status: charge.success ? AutopayAttemptStatus.SUCCEEDED : AutopayAttemptStatus.FAILED,
+    stripePaymentIntentId: charge.stripePaymentIntent?.id,
+    failureReason: charge.success ? undefined : charge.error,
+    attemptedAt: asOf
+  })
+
+  await createAuditLog({
+    userId: AUTOPAY_AUDIT_USER,
+    action: 'AUTOPAY_CHARGE',
+    resource: 'payment',
+    resourceId: payment.id,
+    changes: {
+      attemptId: attempt.id,
+      attemptNumber: attempt.attemptNumber,
+      amountCents,
+      currency: payment.currency,
+      status: updated?.status,
+      stripePaymentIntentId: updated?.stripePaymentIntentId,
+      failureReason: updated?.failureReason
+    }
+  })
+
+  if (charge.success) {
+    result.charged++
+    await updateAutopayEnrollment(enrollment.id, { consecutiveFailures: 0 })
+    return
+  }
+
+  result.failed++
+  await sendPaymentFailureNotification(payment, charge.error)
+
+  if (await countChargeFailure(enrollment, tenant)) {
+    result.paused++
+  }
+}
+
+/**
+ * A charge Stripe accepted can still fail afterwards, e.g. a bank debit that
+ * bounces. Record the failure on its attempt so the payment goes back on the
+ * retry schedule, and count it towards pausing autopay.
+ */
+export async function recordFailedAutopayCharge(payment: Payment, paymentIntentId: string, reason: string): Promise<void> {
+  const attempt = (await getAutopayAttemptsByPayment(payment.id))
+    .find(a => a.stripePaymentIntentId === paymentIntentId && a.status === AutopayAttemptStatus.SUCCEEDED)
+  if (!attempt) return
+
+  await updateAutopayAttempt(attempt.id, { status: AutopayAttemptStatus.FAILED, failureReason: reason })
+
+  const [enrollment, tenant] = await Promise.all([
+    getAutopayEnrollmentByTenant(attempt.tenantId),
+    getTenantById(attempt.tenantId)
+  ])
+  if (enrollment?.status === AutopayStatus.ACTIVE && tenant) {
+    await countChargeFailure(enrollment, tenant)
+  }
+}
+
+// Returns true when this failure paused autopay
+async function countChargeFailure(enrollment: AutopayEnrollment, tenant: Tenant): Promise<boolean> {
+  const consecutiveFailures = enrollment.consecutiveFailures + 1
+  if (consecutiveFailures < enrollment.maxConsecutiveFailures) {
+    await updateAutopayEnrollment(enrollment.id, { consecutiveFailures })
+    return false
+  }
+
+  const pauseReason = `${consecutiveFailures} autopay charges failed in a row`
+  await cancelScheduledAttempts(enrollment.tenantId)
+  await updateAutopayEnrollment(enrollment.id, {
+    status: AutopayStatus.PAUSED,
+    consecutiveFailures,
+    pausedAt: new Date(),
+    pauseReason
+  })
+  await createAuditLog({
+    userId: AUTOPAY_AUDIT_USER,
+    action: 'PAUSE_AUTOPAY',
+    resource: 'tenant',
+    resourceId: enrollment.tenantId,
+    changes: { enrollmentId: enrollment.id, pauseReason }
+  })
+  await sendAutopayPausedNotification(tenant, pauseReason)
+  return true
+}
+
+async function cancelScheduledAttempts(tenantId: string): Promise<void> {
+  const scheduled = await getAutopayAttemptsByStatus(AutopayAttemptStatus.SCHEDULED)
+  for (const attempt of scheduled.filter(a => a.tenantId === tenantId)) {
+    await updateAutopayAttempt(attempt.id, { status: AutopayAttemptStatus.CANCELLED })
+  }
+}
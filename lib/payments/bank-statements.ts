@@ -0,0 +1,347 @@
+import {
+  BankStatementFormat,
+  BankStatementFormatType,
+  CSVColumnMapping,
+  CSVColumnMappingInput,
+  CSVColumnMappingSchema
+} from '@/lib/db/models/bank-transaction'
+import { toMinorUnits } from '@/lib/utils'
+
+export interface ParsedStatementLine {
+  transactionDate: Date
+  amountCents: number
+  currency: string
+  description: string
+  counterpartyName?: string
+  bankReference: string
+  bankAccount?: string
+}
+
+export interface ParsedStatement {
+  lines: ParsedStatementLine[]
+  skipped: number // Debits and zero-amount lines, which are never matched to rent
+  errors: Array<{
+    row: number
+    error: string
+  }>
+}
+
+/**
+ * Guess a statement's format from its file name, falling back to its content.
+ */
+export function detectStatementFormat(fileName: string, content: string): BankStatementFormatType {
+  const name = fileName.toLowerCase()
+  if (name.endsWith('.ofx') || name.endsWith('.qfx')) return BankStatementFormat.OFX
+  if (name.endsWith('.xml') || name.endsWith('.053')) return BankStatementFormat.CAMT053
+
+  const head = content.slice(0, 500)
+  if (/OFXHEADER|<OFX>/i.test(head)) return BankStatementFormat.OFX
+  if (/camt\.053|<\?xml/i.test(head)) return BankStatementFormat.CAMT053
+
+  return BankStatementFormat.CSV
+}
+
+/**
+ * Parse a bank statement into incoming credits. CSV files need a column
+ * mapping since every bank lays out its export differently.
+ */
+export function parseBankStatement(
+  content: string,
+  format: BankStatementFormatType,
+  mapping?: CSVColumnMappingInput
+): ParsedStatement {
+  switch (format) {
+    case BankStatementFormat.OFX:
+      return parseOFXStatement(content)
+    case BankStatementFormat.CAMT053:
+      return parseCAMT053Statement(content)
+    case BankStatementFormat.CSV:
+      if (!mapping) {
+        throw new Error('CSV statements require a column mapping')
+      }
+      return parseCSVStatement(content, mapping)
+    default:
+      throw new Error(`Unsupported statement format: ${format}`)
+  }
+}
+
+export function parseCSVStatement(content: string, mappingInput: CSVColumnMappingInput): ParsedStatement {
+  const mapping = CSVColumnMappingSchema.parse(mappingInput)
+  const rows = content.split(/\r?\n/).filter(line => line.trim())
+  if (rows.length < 2) {
+    throw new Error('CSV must contain header and at least one data row')
+  }
+
+  const header = splitCSVLine(rows[0], mapping.delimiter).map(col => col.trim())
+  const columnIndex = (column?: string) => column ? header.indexOf(column) : -1
+
+  const missingColumns = [mapping.date, mapping.amount, mapping.description, mapping.reference, mapping.counterparty, mapping.currency]
+    .filter((column): column is string => !!column && !header.includes(column))
+  if (missingColumns.length > 0) {
+    throw new Error(`Missing mapped columns: ${missingColumns.join(', ')}`)
+  }
+
+  const result: ParsedStatement = { lines: [], skipped: 0, errors: [] }
+
+  for (let i = 1; i < rows.length; i++) {
+    const values = splitCSVLine(rows[i], mapping.delimiter).map(val => val.trim())
+    const valueOf = (column?: string) => {
+      const index = columnIndex(column)
+      return index === -1 ? undefined : values[index]
+    }
+
+    try {
+      const transactionDate = parseStatementDate(valueOf(mapping.date) || '', mapping.dateFormat)
+      const amount = parseStatementAmount(valueOf(mapping.amount) || '', mapping.decimalSeparator)
+      if (amount <= 0) {
+        result.skipped++
+        continue
+      }
+
+      const currency = (valueOf(mapping.currency) || mapping.defaultCurrency).toUpperCase()
+      const description = valueOf(mapping.description) || ''
+      const amountCents = toMinorUnits(amount, currency)
+
+      result.lines.push({
+        transactionDate,
+        amountCents,
+        currency,
+        description,
+        counterpartyName: valueOf(mapping.counterparty) || undefined,
+        bankReference: valueOf(mapping.reference) || buildFallbackReference(transactionDate, amountCents, description)
+      })
+    } catch (error) {
+      result.errors.push({
+        row: i + 1,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
+  return result
+}
+
+export function parseOFXStatement(content: string): ParsedStatement {
+  if (!/<OFX>/i.test(content)) {
+    throw new Error('Not an OFX statement')
+  }
+
+  const currency = (ofxValue(content, 'CURDEF') || 'USD').toUpperCase()
+  const bankAccount = ofxValue(content, 'ACCTID')
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || []
+
+  const result: ParsedStatement = { lines: [], skipped: 0, errors: [] }
+
+  blocks.forEach((block, index) => {
+    try {
+      const amount = parseStatementAmount(ofxValue(block, 'TRNAMT') || '', '.')
+      if (amount <= 0) {
+        result.skipped++
+        return
+      }
+
+      const posted = ofxValue(block, 'DTPOSTED') || ''
+      const transactionDate = parseStatementDate(posted.slice(0, 8), 'YYYYMMDD')
+      const name = ofxValue(block, 'NAME')
+      const memo = ofxValue(block, 'MEMO')
+      const amountCents = toMinorUnits(amount, currency)
+
+      result.lines.push({
+        transactionDate,
+        amountCents,
+        currency,
+        description: [memo, name].filter(Boolean).join(' ') || '',
+        counterpartyName: name,
+        bankReference: ofxValue(block, 'FITID') || buildFallbackReference(transactionDate, amountCents, memo || ''),
+        bankAccount
+      })
+    } catch (error) {
+      result.errors.push({
+        row: index + 1,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  return result
+}
+
+export function parseCAMT053Statement(content: string): ParsedStatement {
+  if (!/camt\.053|BkToCstmrStmt/.test(content)) {
+    throw new Error('Not a CAMT.053 statement')
+  }
+
+  const result: ParsedStatement = { lines: [], skipped: 0, errors: [] }
+
+  for (const statement of xmlBlocks(content, 'Stmt')) {
+    const account = xmlBlocks(statement, 'Acct')[0] || ''
+    const bankAccount = xmlValue(account, 'IBAN') || xmlValue(xmlBlocks(account, 'Othr')[0] || '', 'Id')
+
+    xmlBlocks(statement, 'Ntry').forEach((entry, index) => {
+      try {
+        if (xmlValue(entry, 'CdtDbtInd') !== 'CRDT' || xmlValue(entry, 'RvslInd') === 'true') {
+          result.skipped++
+          return
+        }
+
+        const amountMatch = entry.match(/<(?:[\w-]+:)?Amt\s+Ccy="([A-Z]{3})"[^>]*>([^<]+)</)
+        if (!amountMatch) {
+          throw new Error('Entry has no amount')
+        }
+
+        const currency = amountMatch[1]
+        const amount = parseStatementAmount(amountMatch[2], '.')
+        if (amount <= 0) {
+          result.skipped++
+          return
+        }
+
+        const bookingDate = xmlBlocks(entry, 'BookgDt')[0] || xmlBlocks(entry, 'ValDt')[0] || ''
+        const dateText = xmlValue(bookingDate, 'Dt') || xmlValue(bookingDate, 'DtTm') || ''
+        const transactionDate = parseStatementDate(dateText.slice(0, 10), 'YYYY-MM-DD')
+
+        const debtor = xmlBlocks(entry, 'Dbtr')[0]
+        const remittance = xmlBlocks(entry, 'Ustrd')
+        const description = remittance.length > 0
+          ? remittance.map(decodeXml).join(' ')
+          : xmlValue(entry, 'AddtlNtryInf') || ''
+        const endToEndId = xmlValue(entry, 'EndToEndId')
+        const amountCents = toMinorUnits(amount, currency)
+
+        result.lines.push({
+          transactionDate,
+          amountCents,
+          currency,
+          description,
+          counterpartyName: debtor ? xmlValue(debtor, 'Nm') : undefined,
+          bankReference: xmlValue(entry, 'AcctSvcrRef') ||
+            (endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : undefined) ||
+            xmlValue(entry, 'TxId') ||
+            buildFallbackReference(transactionDate, amountCents, description),
+          bankAccount
+        })
+      } catch (error) {
+        result.errors.push({
+          row: index + 1,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+    })
+  }
+
+  return result
+}
+
+// Split a CSV line, keeping delimiters inside quoted values
+function splitCSVLine(line: string, delimiter: string): string[] {
+  const values: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else {
+        inQuotes = !inQuotes
+      }
+    } else if (char === delimiter && !inQuotes) {
+      values.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  values.push(current)
+
+  return values
+}
+
+function parseStatementDate(value: string, format: CSVColumnMapping['dateFormat'] | 'YYYYMMDD'): Date {
+  const trimmed = value.trim()
+  let parts: RegExpMatchArray | null = null
+  let year = 0, month = 0, day = 0
+
+  switch (format) {
+    case 'YYYY-MM-DD':
+      parts = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+      if (parts) [year, month, day] = [Number(parts[1]), Number(parts[2]), Number(parts[3])]
+      break
+    case 'YYYYMMDD':
+      parts = trimmed.match(/^(\d{4})(\d{2})(\d{2})$/)
+      if (parts) [year, month, day] = [Number(parts[1]), Number(parts[2]), Number(parts[3])]
+      break
+    case 'DD/MM/YYYY':
+      parts = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})/)
+      if (parts) [day, month, year] = [Number(parts[1]), Number(parts[2]), Number(parts[3])]
+      break
+    case 'MM/DD/YYYY':
+      parts = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})/)
+      if (parts) [month, day, year] = [Number(parts[1]), Number(parts[2]), Number(parts[3])]
+      break
+  }
+
+  const date = new Date(year, month - 1, day)
+  if (!parts || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    throw new Error(`Invalid date: ${value}`)
+  }
+
+  return date
+}
+
+// Parse "1,234.56", "1.234,56", "+5,000,000" or "(120.00)" into a number
+function parseStatementAmount(value: string, decimalSeparator: '.' | ','): number {
+  let cleaned = value.trim().replace(/[^\d.,()+-]/g, '')
+  const negative = cleaned.startsWith('-') || (cleaned.startsWith('(') && cleaned.endsWith(')'))
+  cleaned = cleaned.replace(/[()+-]/g, '')
+
+  cleaned = decimalSeparator === ','
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '')
+
+  const amount = parseFloat(cleaned)
+  if (isNaN(amount)) {
+    throw new Error(`Invalid amount: ${value}`)
+  }
+
+  return negative ? -amount : amount
+}
+
+// Stable reference for lines without one, so re-imports are still detected
+function buildFallbackReference(date: Date, amountCents: number, description: string): string {
+  let hash = 5381
+  for (const char of description) {
+    hash = ((hash << 5) + hash + char.charCodeAt(0)) >>> 0
+  }
+
+  const day = `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`
+  return `STMT-${day}-${amountCents}-${hash.toString(36)}`
+}
+
+// OFX is SGML: leaf elements are usually left unclosed
+function ofxValue(content: string, tag: string): string | undefined {
+  const match = content.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))
+  const value = match?.[1].trim()
+  return value ? decodeXml(value) : undefined
+}
+
+function xmlBlocks(content: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, 'g')
+  return Array.from(content.matchAll(pattern), match => match[1])
+}
+
+function xmlValue(content: string, tag: string): string | undefined {
+  const value = xmlBlocks(content, tag)[0]?.trim()
+  return value && !value.includes('<') ? decodeXml(value) : undefined
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
@@ -1,5 +1,6 @@
 import { sendEmail } from '@/lib/email'
 import { Payment } from '@/lib/db/models/payment'
+import { formatCents } from '@/lib/utils'
 
 export interface PaymentConfirmationData {
   payment: Payment
@@ -85,6 +86,67 @@ export async function sendPaymentFailureNotification(payment: Payment, reason?:
   }
 }
 
+/**
+ * Tell an autopay tenant when their card will be charged, ahead of each charge
+ */
+export async function sendAutopayChargeNotice(
+  payment: Payment,
+  tenant: { firstName: string; lastName: string; email: string },
+  charge: { amountCents: number; scheduledFor: Date; attemptNumber: number }
+): Promise<boolean> {
+  try {
+    const amount = formatCents(charge.amountCents, payment.currency)
+    const chargeDate = charge.scheduledFor.toLocaleDateString()
+    const retry = charge.attemptNumber > 1
+
+    await sendEmail({
+      to: tenant.email,
+      subject: retry ? `Autopay retry scheduled - ${payment.description}` : `Upcoming autopay charge - ${payment.description}`,
+      text: [
+        `Hi ${tenant.firstName},`,
+        '',
+        retry
+          ? `We will try charging your saved card ${amount} again on ${chargeDate} for ${payment.description}.`
+          : `Your saved card will be charged ${amount} on ${chargeDate} for ${payment.description}.`,
+        'No action is needed. To change your card or turn off autopay, visit the tenant portal.'
+      ].join('\n')
+    })
+    console.log(`Autopay charge notice sent to ${tenant.email} for payment ${payment.id}`)
+    return true
+
+  } catch (error) {
+    console.error('Error sending autopay charge notice:', error)
+    return false
+  }
+}
+
+/**
+ * Tell a tenant their autopay was paused after repeated failed charges
+ */
+export async function sendAutopayPausedNotification(
+  tenant: { firstName: string; email: string },
+  reason: string
+): Promise<boolean> {
+  try {
+    await sendEmail({
+      to: tenant.email,
+      subject: 'Autopay paused',
+      text: [
+        `Hi ${tenant.firstName},`,
+        '',
+        `We have paused autopay on your account: ${reason}.`,
+        'Please update your card in the tenant portal and turn autopay back on, or pay your outstanding rent there.'
+      ].join('\n')
+    })
+    console.log(`Autopay paused notification sent to ${tenant.email}`)
+    return true
+
+  } catch (error) {
+    console.error('Error sending autopay paused notification:', error)
+    return false
+  }
+}
+
 /**
  * Send refund confirmation email
  */
@@ -305,7 +367,7 @@ export function generatePaymentReceiptHTML(payment: Payment, tenant: any, proper
         
         <div class="row" style="border-top: 2px solid #333; padding-top: 20px; margin-top: 20px;">
           <span class="label">Total Amount:</span>
-          <span class="amount">${payment.currency} ${(payment.amountCents / 100).toFixed(2)}</span>
+          <span class="amount">${formatCents(payment.amountCents, payment.currency)}</span>
         </div>
         
         <div class="footer">
@@ -0,0 +1,344 @@
+import { v4 as uuidv4 } from 'uuid'
+import {
+  CreateDepositDeductionInput,
+  CreateDepositDeductionSchema,
+  DepositDeduction,
+  DepositDeductionType,
+  DepositStatus,
+  SecurityDeposit
+} from '@/lib/db/models/deposit'
+import { PaymentMethodType } from '@/lib/db/models/payment'
+import { Property } from '@/lib/db/models/property'
+import { Tenant } from '@/lib/db/models/tenant'
+import {
+  createSecurityDeposit,
+  getDepositsByTenant,
+  getSecurityDepositById,
+  updateSecurityDeposit
+} from '@/lib/db/operations/deposits'
+import { getPaymentById, getPaymentsByTenant } from '@/lib/db/operations/payment'
+import { escapeHtml, formatCents } from '@/lib/utils'
+import { getOutstandingCents, recordPaymentAllocation } from './ledger'
+
+export interface CollectDepositInput {
+  tenantId: string
+  propertyId: string
+  amountCents: number
+  currency?: string
+  paymentMethod: PaymentMethodType
+  collectedDate?: Date
+  reference?: string
+  roomId?: string
+  leaseId?: string
+  notes?: string
+}
+
+export interface SettleDepositInput {
+  refundDate?: Date
+  refundMethod?: PaymentMethodType
+  refundReference?: string
+  settledBy?: string
+}
+
+export interface DepositSummary {
+  heldCents: number
+  deductionsCents: number
+  refundCents: number
+}
+
+/**
+ * Record a security deposit collected from a tenant. The deposit is held
+ * until it is settled at move-out.
+ */
+export async function collectDeposit(input: CollectDepositInput): Promise<SecurityDeposit> {
+  return createSecurityDeposit({
+    ...input,
+    currency: input.currency || 'USD',
+    collectedDate: input.collectedDate || new Date()
+  })
+}
+
+/**
+ * The tenant's current deposit: the open one if there is one, otherwise the
+ * most recently collected.
+ */
+export async function getTenantDeposit(tenantId: string): Promise<SecurityDeposit | null> {
+  const deposits = await getDepositsByTenant(tenantId)
+  return deposits.find(d => d.status === DepositStatus.HELD) || deposits[0] || null
+}
+
+export function getDepositSummary(deposit: SecurityDeposit): DepositSummary {
+  const deductionsCents = deposit.deductions.reduce((sum, d) => sum + d.amountCents, 0)
+
+  return {
+    heldCents: deposit.amountCents,
+    deductionsCents,
+    refundCents: deposit.refundCents ?? Math.max(0, deposit.amountCents - deductionsCents)
+  }
+}
+
+/**
+ * Add an itemized deduction to a held deposit. Deductions for unpaid payments
+ * default to, and may not exceed, the amount still outstanding.
+ */
+export async function addDepositDeduction(
+  depositId: string,
+  input: Omit<CreateDepositDeductionInput, 'amountCents'> & { amountCents?: number }
+): Promise<SecurityDeposit> {
+  const deposit = await getOpenDeposit(depositId)
+
+  let amountCents = input.amountCents
+  if (input.type === DepositDeductionType.UNPAID_PAYMENT) {
+    if (!input.paymentId) {
+      throw new Error('Unpaid payment deductions must reference a payment')
+    }
+
+    const payment = await getPaymentById(input.paymentId)
+    if (!payment || payment.tenantId !== deposit.tenantId) {
+      throw new Error('Payment not found')
+    }
+
+    const alreadyDeductedCents = deposit.deductions
+      .filter(d => d.paymentId === payment.id)
+      .reduce((sum, d) => sum + d.amountCents, 0)
+    const outstandingCents = getOutstandingCents(payment) - alreadyDeductedCents
+    if (outstandingCents <= 0) {
+      throw new Error('Payment has no outstanding balance')
+    }
+
+    amountCents = Math.min(amountCents ?? outstandingCents, outstandingCents)
+  }
+
+  const deduction: DepositDeduction = {
+    id: uuidv4(),
+    ...CreateDepositDeductionSchema.parse({ ...input, amountCents }),
+    createdAt: new Date()
+  }
+
+  const deductions = [...deposit.deductions, deduction]
+  if (deductions.reduce((sum, d) => sum + d.amountCents, 0) > deposit.amountCents) {
+    throw new Error('Deductions exceed the deposit held')
+  }
+
+  return saveDeposit(depositId, { deductions })
+}
+
+export async function removeDepositDeduction(depositId: string, deductionId: string): Promise<SecurityDeposit> {
+  const deposit = await getOpenDeposit(depositId)
+
+  if (!deposit.deductions.some(d => d.id === deductionId)) {
+    throw new Error('Deduction not found')
+  }
+
+  return saveDeposit(depositId, {
+    deductions: deposit.deductions.filter(d => d.id !== deductionId)
+  })
+}
+
+/**
+ * Add a deduction for each of the tenant's outstanding payments, oldest due
+ * first, until the deposit is used up. Returns the number added.
+ */
+export async function addUnpaidPaymentDeductions(depositId: string): Promise<number> {
+  const deposit = await getOpenDeposit(depositId)
+  let availableCents = getDepositSummary(deposit).refundCents
+
+  const outstandingPayments = (await getPaymentsByTenant(deposit.tenantId))
+    .filter(p => getOutstandingCents(p) > 0 && !deposit.deductions.some(d => d.paymentId === p.id))
+    .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime())
+
+  let added = 0
+  for (const payment of outstandingPayments) {
+    if (availableCents <= 0) break
+
+    const amountCents = Math.min(getOutstandingCents(payment), availableCents)
+    await addDepositDeduction(depositId, {
+      type: DepositDeductionType.UNPAID_PAYMENT,
+      description: payment.description,
+      paymentId: payment.id,
+      amountCents
+    })
+
+    availableCents -= amountCents
+    added++
+  }
+
+  return added
+}
+
+/**
+ * Settle a deposit at move-out. Unpaid payment deductions are recorded as
+ * paid from the deposit and the remainder is refunded to the tenant.
+ */
+export async function settleDeposit(depositId: string, input: SettleDepositInput = {}): Promise<SecurityDeposit> {
+  const deposit = await getOpenDeposit(depositId)
+  const summary = getDepositSummary(deposit)
+  const settledAt = new Date()
+
+  if (summary.refundCents > 0 && !input.refundMethod) {
+    throw new Error('Refund method is required')
+  }
+
+  for (const deduction of deposit.deductions) {
+    if (deduction.type !== DepositDeductionType.UNPAID_PAYMENT || !deduction.paymentId) continue
+
+    const payment = await getPaymentById(deduction.paymentId)
+    if (!payment || getOutstandingCents(payment) === 0) continue
+
+    await recordPaymentAllocation(payment.id, {
+      amountCents: Math.min(deduction.amountCents, getOutstandingCents(payment)),
+      paidDate: settledAt,
+      reference: `DEP-${deposit.id.slice(0, 8).toUpperCase()}`,
+      notes: 'Deducted from security deposit'
+    })
+  }
+
+  return saveDeposit(depositId, {
+    status: DepositStatus.SETTLED,
+    refundCents: summary.refundCents,
+    refundDate: summary.refundCents > 0 ? input.refundDate || settledAt : undefined,
+    refundMethod: summary.refundCents > 0 ? input.refundMethod : undefined,
+    refundReference: input.refundReference,
+    settledAt,
+    settledBy: input.settledBy
+  })
+}
+
+/**
+ * Reason a tenant cannot be moved out yet, or null when their deposit is
+ * settled (or they never had one on record).
+ */
+export async function getMoveOutBlocker(tenantId: string): Promise<string | null> {
+  const deposits = await getDepositsByTenant(tenantId)
+  const openDeposit = deposits.find(d => d.status === DepositStatus.HELD)
+
+  return openDeposit
+    ? 'Security deposit must be settled before the tenant can be moved out'
+    : null
+}
+
+/**
+ * Generate the printable move-out settlement statement HTML
+ */
+export function generateDepositSettlementHTML(
+  deposit: SecurityDeposit,
+  tenant: Tenant,
+  property: Property | null
+): string {
+  const summary = getDepositSummary(deposit)
+  const formatAmount = (cents: number) => formatCents(cents, deposit.currency)
+  const address = property
+    ? escapeHtml(`${property.address.street}, ${property.address.city}, ${property.address.country}`)
+    : 'N/A'
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>Move-out Settlement Statement</title>
+      <style>
+        body { font-family: Arial, sans-serif; margin: 0; padding: 20px; }
+        .statement { max-width: 700px; margin: 0 auto; border: 1px solid #ddd; padding: 20px; }
+        .header { text-align: center; border-bottom: 2px solid #333; padding-bottom: 20px; margin-bottom: 20px; }
+        .details { margin: 20px 0; }
+        .row { display: flex; justify-content: space-between; margin: 10px 0; }
+        .label { font-weight: bold; }
+        table { width: 100%; border-collapse: collapse; margin: 20px 0; }
+        th, td { padding: 8px; border-bottom: 1px solid #ddd; text-align: left; }
+        th:last-child, td:last-child { text-align: right; }
+        .amount { font-size: 24px; font-weight: bold; color: #2563eb; }
+        .footer { margin-top: 30px; padding-top: 20px; border-top: 1px solid #ddd; text-align: center; color: #666; }
+        @media print { .statement { border: none; } }
+      </style>
+    </head>
+    <body>
+      <div class="statement">
+        <div class="header">
+          <h1>Move-out Settlement Statement</h1>
+          <p>Statement #: DEP-${deposit.id.slice(0, 8).toUpperCase()}</p>
+          ${deposit.status === DepositStatus.SETTLED ? '' : '<p><strong>DRAFT - deposit not yet settled</strong></p>'}
+        </div>
+
+        <div class="details">
+          <div class="row">
+            <span class="label">Tenant:</span>
+            <span>${escapeHtml(`${tenant.firstName} ${tenant.lastName}`)}</span>
+          </div>
+          <div class="row">
+            <span class="label">Property:</span>
+            <span>${property ? escapeHtml(property.name) : 'N/A'}</span>
+          </div>
+          <div class="row">
+            <span class="label">Address:</span>
+            <span>${address}</span>
+          </div>
+          <div class="row">
+            <span class="label">Deposit Collected:</span>
+            <span>${deposit.collectedDate.toLocaleDateString()} via ${deposit.paymentMethod}</span>
+          </div>
+          ${deposit.settledAt ? `
+          <div class="row">
+            <span class="label">Settled On:</span>
+            <span>${deposit.settledAt.toLocaleDateString()}</span>
+          </div>
+          ` : ''}
+        </div>
+
+        <table>
+          <thead>
+            <tr><th>Item</th><th>Type</th><th>Amount</th></tr>
+          </thead>
+          <tbody>
+            <tr><td>Security deposit held</td><td></td><td>${formatAmount(summary.heldCents)}</td></tr>
+            ${deposit.deductions.map(d => `
+            <tr><td>${escapeHtml(d.description)}</td><td>${d.type}</td><td>-${formatAmount(d.amountCents)}</td></tr>
+            `).join('')}
+          </tbody>
+        </table>
+
+        <div class="row">
+          <span class="label">Total Deductions:</span>
+          <span>${formatAmount(summary.deductionsCents)}</span>
+        </div>
+        <div class="row" style="border-top: 2px solid #333; padding-top: 20px; margin-top: 20px;">
+          <span class="label">Refund Due to Tenant:</span>
+          <span class="amount">${formatAmount(summary.refundCents)}</span>
+        </div>
+        ${deposit.refundMethod ? `
+        <div class="row">
+          <span class="label">Refunded:</span>
+          <span>${deposit.refundDate?.toLocaleDateString() || 'N/A'} via ${deposit.refundMethod}${deposit.refundReference ? ` (${escapeHtml(deposit.refundReference)})` : ''}</span>
+        </div>
+        ` : ''}
+
+        <div class="footer">
+          <p>If you have any questions about this statement, please contact us at ${process.env.SUPPORT_EMAIL || 'support@example.com'}</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `
+}
+
+async function getOpenDeposit(depositId: string): Promise<SecurityDeposit> {
+  const deposit = await getSecurityDepositById(depositId)
+  if (!deposit) {
+    throw new Error('Deposit not found')
+  }
+
+  if (deposit.status === DepositStatus.SETTLED) {
+    throw new Error('Deposit is already settled')
+  }
+
+  return deposit
+}
+
+async function saveDeposit(depositId: string, updates: Partial<SecurityDeposit>): Promise<SecurityDeposit> {
+  const updatedDeposit = await updateSecurityDeposit(depositId, updates)
+  if (!updatedDeposit) {
+    throw new Error('Deposit not found')
+  }
+
+  return updatedDeposit
+}
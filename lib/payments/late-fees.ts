@@ -0,0 +1,237 @@
+import { addDays, differenceInCalendarDays, endOfDay, startOfDay } from 'date-fns'
+import { Payment, PaymentStatus } from '@/lib/db/models/payment'
+import { LateFeePolicy, LateFeeType } from '@/lib/db/models/reminder'
+import { loadHolidayCalendar } from '@/lib/calendar/holidays'
+import { createPayment, getAllPayments, markPaymentAsOverdue, updatePayment } from '@/lib/db/operations/payment'
+import { getLateFeePolicy, getReminderSettings } from '@/lib/db/operations/reminders'
+
+export interface LateFeeRunOptions {
+  asOf?: Date
+  propertyId?: string
+}
+
+export interface LateFeeRunResult {
+  processed: number
+  charged: number
+  updated: number
+  waived: number
+  skipped: number
+  totalChargedCents: number
+  errors: string[]
+}
+
+/**
+ * The day a payment falls due for overdue status and late fees. When the
+ * property shifts due dates off holidays, a due date on a public holiday or
+ * closure moves to the next day that is neither, as it does for reminders.
+ */
+export async function getEffectiveDueDate(payment: Payment, shiftOnHolidays?: boolean): Promise<Date> {
+  const dueDate = startOfDay(new Date(payment.dueDate))
+  const shift = shiftOnHolidays ?? (await getReminderSettings(payment.propertyId))?.shiftDueDatesOnHolidays
+  if (!shift) return dueDate
+
+  const calendar = await loadHolidayCalendar(payment.propertyId)
+  return calendar.nextBusinessDay(dueDate, { skipWeekends: false })
+}
+
+/**
+ * Calculate the late fee owed on a payment under a policy. Nothing is owed
+ * until the grace period has passed; daily fees accrue for each day after it.
+ */
+export function calculateLateFee(
+  policy: LateFeePolicy,
+  payment: Payment,
+  asOf: Date = new Date(),
+  dueDate: Date = new Date(payment.dueDate)
+): number {
+  if (!policy.enabled) return 0
+
+  const daysLate = differenceInCalendarDays(startOfDay(asOf), startOfDay(dueDate))
+  const daysPastGrace = daysLate - policy.gracePeriodDays
+  if (daysPastGrace <= 0) return 0
+
+  let feeCents = 0
+  switch (policy.feeType) {
+    case LateFeeType.FLAT:
+      feeCents = policy.flatAmountCents ?? 0
+      break
+    case LateFeeType.PERCENTAGE:
+      feeCents = Math.round(payment.amountCents * (policy.percentage ?? 0) / 100)
+      break
+    case LateFeeType.DAILY:
+      feeCents = (policy.dailyAmountCents ?? 0) * daysPastGrace
+      break
+  }
+
+  return policy.maxFeeCents ? Math.min(feeCents, policy.maxFeeCents) : feeCents
+}
+
+/**
+ * Get the late fee charges linked to a payment, excluding waived ones.
+ */
+export async function getLateFeesForPayment(paymentId: string): Promise<Payment[]> {
+  const payments = await getAllPayments()
+  return payments.filter(p => p.lateFeeForPaymentId === paymentId && p.status !== PaymentStatus.WAIVED)
+}
+
+/**
+ * Total outstanding late fees on a payment, used by reminder emails.
+ */
+export async function getAccruedLateFeeCents(paymentId: string): Promise<number> {
+  const fees = await getLateFeesForPayment(paymentId)
+  return fees
+    .filter(fee => fee.status === PaymentStatus.PENDING ||
+      fee.status === PaymentStatus.OVERDUE ||
+      fee.status === PaymentStatus.PARTIALLY_PAID)
+    .reduce((sum, fee) => {
+      const allocatedCents = (fee.allocations || []).reduce((total, a) => total + a.amountCents, 0)
+      return sum + Math.max(0, fee.amountCents - allocatedCents)
+    }, 0)
+}
+
+/**
+ * Waive the late fees on a payment that was paid within its grace period.
+ * Returns the number of fees waived.
+ */
+export async function waiveLateFeesIfPaidWithinGrace(
+  payment: Payment,
+  policy?: LateFeePolicy | null,
+  shiftOnHolidays?: boolean
+): Promise<number> {
+  if (payment.status !== PaymentStatus.PAID || !payment.paidDate) return 0
+
+  const resolvedPolicy = policy === undefined ? await getLateFeePolicy(payment.propertyId) : policy
+  const gracePeriodDays = resolvedPolicy?.gracePeriodDays ?? 0
+  const paidDate = new Date(payment.paidDate)
+
+  // Shifting only ever moves a due date later, so the calendar is only needed for later payments
+  if (paidDate > endOfDay(addDays(new Date(payment.dueDate), gracePeriodDays))) {
+    const dueDate = await getEffectiveDueDate(payment, shiftOnHolidays)
+    if (paidDate > endOfDay(addDays(dueDate, gracePeriodDays))) return 0
+  }
+
+  const fees = await getLateFeesForPayment(payment.id)
+  let waived = 0
+
+  for (const fee of fees) {
+    if (fee.status === PaymentStatus.PAID || fee.status === PaymentStatus.REFUNDED) continue
+
+    await updatePayment(fee.id, {
+      status: PaymentStatus.WAIVED,
+      notes: `Waived: base payment ${payment.id} was paid within the ${gracePeriodDays} day grace period`
+    })
+    waived++
+  }
+
+  return waived
+}
+
+/**
+ * Apply late fee policies to overdue payments. Creates one linked late fee
+ * charge per overdue payment, grows it while a daily fee accrues, and waives
+ * fees on payments that turn out to have been paid within grace.
+ */
+export async function applyLateFees(options: LateFeeRunOptions = {}): Promise<LateFeeRunResult> {
+  const asOf = options.asOf ?? new Date()
+  const result: LateFeeRunResult = {
+    processed: 0,
+    charged: 0,
+    updated: 0,
+    waived: 0,
+    skipped: 0,
+    totalChargedCents: 0,
+    errors: []
+  }
+
+  try {
+    // Reservation fees are due when their hold lapses, and are waived rather than charged late
+    let payments = (await getAllPayments()).filter(p => !p.lateFeeForPaymentId && !p.reservationId)
+    if (options.propertyId) {
+      payments = payments.filter(p => p.propertyId === options.propertyId)
+    }
+
+    const policies = new Map<string, LateFeePolicy | null>()
+    const getPolicy = async (propertyId: string) => {
+      if (!policies.has(propertyId)) {
+        policies.set(propertyId, await getLateFeePolicy(propertyId))
+      }
+      return policies.get(propertyId) ?? null
+    }
+
+    const shifts = new Map<string, boolean>()
+    const getShift = async (propertyId: string) => {
+      if (!shifts.has(propertyId)) {
+        shifts.set(propertyId, (await getReminderSettings(propertyId))?.shiftDueDatesOnHolidays ?? false)
+      }
+      return shifts.get(propertyId)!
+    }
+
+    for (const payment of payments) {
+      try {
+        if (payment.status === PaymentStatus.PAID) {
+          result.waived += await waiveLateFeesIfPaidWithinGrace(
+            payment,
+            await getPolicy(payment.propertyId),
+            await getShift(payment.propertyId)
+          )
+          continue
+        }
+
+        if (payment.status !== PaymentStatus.PENDING &&
+          payment.status !== PaymentStatus.OVERDUE &&
+          payment.status !== PaymentStatus.PARTIALLY_PAID) continue
+        const dueDate = await getEffectiveDueDate(payment, await getShift(payment.propertyId))
+        if (dueDate >= startOfDay(asOf)) continue
+
+        result.processed++
+
+        if (payment.status === PaymentStatus.PENDING) {
+          await markPaymentAsOverdue(payment.id)
+        }
+
+        const policy = await getPolicy(payment.propertyId)
+        const feeCents = policy ? calculateLateFee(policy, payment, asOf, dueDate) : 0
+        if (feeCents <= 0) {
+          result.skipped++
+          continue
+        }
+
+        const [existingFee] = await getLateFeesForPayment(payment.id)
+
+        if (!existingFee) {
+          await createPayment({
+            tenantId: payment.tenantId,
+            propertyId: payment.propertyId,
+            amountCents: feeCents,
+            currency: payment.currency,
+            paymentMethod: payment.paymentMethod,
+            status: PaymentStatus.PENDING,
+            dueDate: asOf,
+            description: `Late fee - ${payment.description}`,
+            lateFeeForPaymentId: payment.id,
+            notes: `Late fee (${policy!.feeType}) charged on overdue payment ${payment.id}`
+          })
+          result.charged++
+          result.totalChargedCents += feeCents
+        } else if (existingFee.status === PaymentStatus.PENDING && existingFee.amountCents < feeCents) {
+          // Daily fees keep accruing until the cap is reached
+          await updatePayment(existingFee.id, { amountCents: feeCents })
+          result.updated++
+          result.totalChargedCents += feeCents - existingFee.amountCents
+        } else {
+          result.skipped++
+        }
+      } catch (error) {
+        const errorMsg = `Failed to apply late fee to payment ${payment.id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        result.errors.push(errorMsg)
+        console.error(errorMsg)
+      }
+    }
+  } catch (error) {
+    const errorMsg = `Failed to apply late fees: ${error instanceof Error ? error.message : 'Unknown error'}`
+    result.errors.push(errorMsg)
+    console.error(errorMsg)
+  }
+
+  return result
+}
@@ -0,0 +1,344 @@
+import { v4 as uuidv4 } from 'uuid'
+import {
+  Payment,
+  PaymentAllocation,
+  PaymentAllocationSource,
+  PaymentMethodType,
+  PaymentStatus,
+  TenantCredit
+} from '@/lib/db/models/payment'
+import { getPaymentById, getPaymentsByTenant, updatePayment } from '@/lib/db/operations/payment'
+import {
+  consumeTenantCredit,
+  createTenantCredit,
+  getAvailableCredits,
+  getCreditsByTenant
+} from '@/lib/db/operations/tenant-credits'
+import { waiveLateFeesIfPaidWithinGrace } from './late-fees'
+
+export const LedgerEntryType = {
+  CHARGE: 'charge',
+  PAYMENT: 'payment',
+  CREDIT: 'credit',
+  REFUND: 'refund',
+  RESCHEDULED: 'rescheduled'
+} as const
+
+export type LedgerEntryTypeType = typeof LedgerEntryType[keyof typeof LedgerEntryType]
+
+export interface LedgerEntry {
+  id: string
+  date: Date
+  type: LedgerEntryTypeType
+  description: string
+  paymentId?: string
+  creditId?: string
+  currency: string
+  debitCents: number // Increases what the tenant owes
+  creditCents: number // Decreases what the tenant owes
+  balanceCents: number // Running balance in the entry's currency, positive when the tenant owes money
+}
+
+// Amounts in different currencies are never netted, so a tenant has a balance per currency
+export interface TenantBalance {
+  currency: string
+  balanceCents: number
+  outstandingCents: number
+  availableCreditCents: number
+}
+
+export interface RecordAllocationInput {
+  amountCents: number
+  paidDate?: Date
+  paymentMethod?: PaymentMethodType
+  reference?: string
+  notes?: string
+}
+
+export interface RecordAllocationResult {
+  payment: Payment
+  appliedCents: number
+  credit?: TenantCredit
+}
+
+const OUTSTANDING_STATUSES: string[] = [
+  PaymentStatus.PENDING,
+  PaymentStatus.OVERDUE,
+  PaymentStatus.PARTIALLY_PAID
+]
+
+/**
+ * Amount still owed on a payment after its allocations.
+ */
+export function getOutstandingCents(payment: Payment): number {
+  if (!OUTSTANDING_STATUSES.includes(payment.status)) return 0
+
+  const allocatedCents = (payment.allocations || []).reduce((sum, a) => sum + a.amountCents, 0)
+  return Math.max(0, payment.amountCents - allocatedCents)
+}
+
+/**
+ * Record money received against a payment. Partial amounts leave the payment
+ * PartiallyPaid; anything above what is owed becomes a tenant credit.
+ */
+export async function recordPaymentAllocation(
+  paymentId: string,
+  input: RecordAllocationInput
+): Promise<RecordAllocationResult> {
+  const payment = await getPaymentById(paymentId)
+  if (!payment) {
+    throw new Error('Payment not found')
+  }
+
+  const outstandingCents = getOutstandingCents(payment)
+  if (outstandingCents === 0) {
+    throw new Error('Payment has no outstanding balance')
+  }
+
+  const paidDate = input.paidDate || new Date()
+  const appliedCents = Math.min(input.amountCents, outstandingCents)
+  const excessCents = input.amountCents - appliedCents
+
+  const allocation: PaymentAllocation = {
+    id: uuidv4(),
+    amountCents: appliedCents,
+    source: PaymentAllocationSource.PAYMENT,
+    paymentMethod: input.paymentMethod || payment.paymentMethod,
+    paidDate,
+    reference: input.reference,
+    notes: input.notes,
+    createdAt: new Date()
+  }
+
+  const updatedPayment = await settleAllocation(payment, allocation, input.reference)
+
+  let credit: TenantCredit | undefined
+  if (excessCents > 0) {
+    credit = await createTenantCredit({
+      tenantId: payment.tenantId,
+      propertyId: payment.propertyId,
+      amountCents: excessCents,
+      currency: payment.currency,
+      sourcePaymentId: payment.id,
+      reason: `Overpayment on ${payment.description}`
+    })
+  }
+
+  return { payment: updatedPayment, appliedCents, credit }
+}
+
+/**
+ * Apply a tenant's available credits to their outstanding payments in the
+ * same currency, oldest due first. Returns the total amount applied.
+ */
+export async function applyTenantCredits(tenantId: string): Promise<number> {
+  const credits = await getAvailableCredits(tenantId)
+  if (credits.length === 0) return 0
+
+  const outstandingPayments = (await getPaymentsByTenant(tenantId))
+    .filter(p => getOutstandingCents(p) > 0)
+    .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime())
+
+  let appliedTotal = 0
+
+  for (const credit of credits) {
+    let remainingCents = credit.remainingCents
+
+    for (let i = 0; i < outstandingPayments.length && remainingCents > 0; i++) {
+      const payment = outstandingPayments[i]
+      if (payment.currency !== credit.currency) continue
+
+      const amountCents = Math.min(remainingCents, getOutstandingCents(payment))
+      if (amountCents === 0) continue
+
+      await consumeTenantCredit(credit.id, amountCents)
+      outstandingPayments[i] = await settleAllocation(payment, {
+        id: uuidv4(),
+        amountCents,
+        source: PaymentAllocationSource.CREDIT,
+        paidDate: new Date(),
+        creditId: credit.id,
+        notes: credit.reason,
+        createdAt: new Date()
+      })
+
+      remainingCents -= amountCents
+      appliedTotal += amountCents
+    }
+  }
+
+  return appliedTotal
+}
+
+/**
+ * Build a tenant's ledger of charges, payments, credits and refunds with a
+ * running balance per currency, oldest first.
+ */
+export async function getTenantLedger(tenantId: string): Promise<LedgerEntry[]> {
+  const [payments, credits] = await Promise.all([
+    getPaymentsByTenant(tenantId),
+    getCreditsByTenant(tenantId)
+  ])
+
+  const entries: Omit<LedgerEntry, 'balanceCents'>[] = []
+
+  for (const payment of payments) {
+    if (payment.status === PaymentStatus.WAIVED) continue
+
+    if (payment.status === PaymentStatus.REFUNDED) {
+      entries.push({
+        id: `${payment.id}:refund`,
+        date: new Date(payment.paidDate || payment.dueDate),
+        type: LedgerEntryType.REFUND,
+        description: payment.description,
+        paymentId: payment.id,
+        currency: payment.currency,
+        debitCents: Math.abs(payment.amountCents),
+        creditCents: 0
+      })
+      continue
+    }
+
+    entries.push({
+      id: `${payment.id}:charge`,
+      date: new Date(payment.dueDate),
+      type: LedgerEntryType.CHARGE,
+      description: payment.description,
+      paymentId: payment.id,
+      currency: payment.currency,
+      debitCents: payment.amountCents,
+      creditCents: 0
+    })
+
+    const allocations = payment.allocations || []
+    for (const allocation of allocations) {
+      // Credits are counted once, when the overpayment that created them is received
+      if (allocation.source !== PaymentAllocationSource.PAYMENT) continue
+
+      entries.push({
+        id: allocation.id,
+        date: new Date(allocation.paidDate),
+        type: LedgerEntryType.PAYMENT,
+        description: `Payment received${allocation.paymentMethod ? ` via ${allocation.paymentMethod}` : ''}${allocation.reference ? ` (${allocation.reference})` : ''}`,
+        paymentId: payment.id,
+        currency: payment.currency,
+        debitCents: 0,
+        creditCents: allocation.amountCents
+      })
+    }
+
+    // Payments marked paid without itemized allocations settle the remainder in one go
+    const allocatedCents = allocations.reduce((sum, a) => sum + a.amountCents, 0)
+    // What was still owed on rescheduled arrears is charged again through the plan's installments
+    if (payment.status === PaymentStatus.RESCHEDULED && payment.amountCents > allocatedCents) {
+      entries.push({
+        id: `${payment.id}:rescheduled`,
+        date: new Date(payment.updatedAt),
+        type: LedgerEntryType.RESCHEDULED,
+        description: 'Moved to payment plan',
+        paymentId: payment.id,
+        currency: payment.currency,
+        debitCents: 0,
+        creditCents: payment.amountCents - allocatedCents
+      })
+    }
+
+    if (payment.status === PaymentStatus.PAID && payment.amountCents > allocatedCents) {
+      entries.push({
+        id: `${payment.id}:payment`,
+        date: new Date(payment.paidDate || payment.updatedAt),
+        type: LedgerEntryType.PAYMENT,
+        description: `Payment received via ${payment.paymentMethod}${payment.reference ? ` (${payment.reference})` : ''}`,
+        paymentId: payment.id,
+        currency: payment.currency,
+        debitCents: 0,
+        creditCents: payment.amountCents - allocatedCents
+      })
+    }
+  }
+
+  for (const credit of credits) {
+    entries.push({
+      id: credit.id,
+      date: credit.createdAt,
+      type: LedgerEntryType.CREDIT,
+      description: credit.reason,
+      creditId: credit.id,
+      paymentId: credit.sourcePaymentId,
+      currency: credit.currency,
+      debitCents: 0,
+      creditCents: credit.amountCents
+    })
+  }
+
+  // Charges come before money received on the same day
+  entries.sort((a, b) =>
+    a.date.getTime() - b.date.getTime() ||
+    Number(b.type === LedgerEntryType.CHARGE) - Number(a.type === LedgerEntryType.CHARGE)
+  )
+
+  const balances = new Map<string, number>()
+  return entries.map(entry => {
+    const balanceCents = (balances.get(entry.currency) ?? 0) + entry.debitCents - entry.creditCents
+    balances.set(entry.currency, balanceCents)
+    return { ...entry, balanceCents }
+  })
+}
+
+/**
+ * A tenant's balance, outstanding charges and available credit in each
+ * currency they have been charged or credited in.
+ */
+export async function getTenantBalance(tenantId: string): Promise<TenantBalance[]> {
+  const [ledger, payments, credits] = await Promise.all([
+    getTenantLedger(tenantId),
+    getPaymentsByTenant(tenantId),
+    getAvailableCredits(tenantId)
+  ])
+
+  const balances = new Map<string, TenantBalance>()
+  const balanceFor = (currency: string) => {
+    const balance = balances.get(currency) || { currency, balanceCents: 0, outstandingCents: 0, availableCreditCents: 0 }
+    balances.set(currency, balance)
+    return balance
+  }
+
+  // Entries are oldest first, so the last one in a currency holds its balance
+  for (const entry of ledger) {
+    balanceFor(entry.currency).balanceCents = entry.balanceCents
+  }
+  for (const payment of payments) {
+    const outstandingCents = getOutstandingCents(payment)
+    if (outstandingCents > 0) {
+      balanceFor(payment.currency).outstandingCents += outstandingCents
+    }
+  }
+  for (const credit of credits) {
+    balanceFor(credit.currency).availableCreditCents += credit.remainingCents
+  }
+
+  return Array.from(balances.values())
+}
+
+async function settleAllocation(payment: Payment, allocation: PaymentAllocation, reference?: string): Promise<Payment> {
+  const allocations = [...(payment.allocations || []), allocation]
+  const allocatedCents = allocations.reduce((sum, a) => sum + a.amountCents, 0)
+  const fullyPaid = allocatedCents >= payment.amountCents
+
+  const updatedPayment = await updatePayment(payment.id, {
+    allocations,
+    status: fullyPaid ? PaymentStatus.PAID : PaymentStatus.PARTIALLY_PAID,
+    ...(fullyPaid ? { paidDate: allocation.paidDate } : {}),
+    ...(fullyPaid && reference ? { reference } : {})
+  })
+
+  if (!updatedPayment) {
+    throw new Error('Payment not found')
+  }
+
+  if (fullyPaid) {
+    await waiveLateFeesIfPaidWithinGrace(updatedPayment)
+  }
+
+  return updatedPayment
+}
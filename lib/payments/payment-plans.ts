@@ -0,0 +1,205 @@
+import { addDays, addMonths, min, startOfDay } from 'date-fns'
+import { Payment, PaymentStatus } from '@/lib/db/models/payment'
+import { PaymentPlan, PaymentPlanStatus } from '@/lib/db/models/payment-plan'
+import { createPayment, getPaymentById, updatePayment } from '@/lib/db/operations/payment'
+import {
+  createPaymentPlan,
+  getPaymentPlanById,
+  getPaymentPlansByStatus,
+  getPaymentPlansByTenant,
+  updatePaymentPlan
+} from '@/lib/db/operations/payment-plans'
+import { formatCents } from '@/lib/utils'
+import { getOutstandingCents } from './ledger'
+
+export interface CreatePaymentPlanRequest {
+  tenantId: string
+  paymentIds: string[]
+  installmentCount: number
+  firstDueDate: Date
+  intervalMonths?: number
+  gracePeriodDays?: number
+  notes?: string
+  createdBy?: string
+}
+
+export interface PaymentPlanSummary {
+  plan: PaymentPlan
+  installments: Payment[]
+  paidCents: number
+  remainingCents: number
+  nextInstallment: Payment | null
+}
+
+export interface PaymentPlanCheckOptions {
+  asOf?: Date
+}
+
+export interface PaymentPlanCheckResult {
+  completed: number
+  defaulted: number
+  errors: string[]
+}
+
+/**
+ * Reschedule a tenant's overdue payments into a plan of installments. The
+ * outstanding amounts move onto the installments and the original payments
+ * become Rescheduled, so they are no longer chased as overdue.
+ */
+export async function createPaymentPlanForArrears(request: CreatePaymentPlanRequest): Promise<PaymentPlanSummary> {
+  if (request.paymentIds.length === 0) {
+    throw new Error('A payment plan must cover at least one payment')
+  }
+
+  const today = startOfDay(new Date())
+  const covered: Payment[] = []
+  for (const paymentId of Array.from(new Set(request.paymentIds))) {
+    const payment = await getPaymentById(paymentId)
+    if (!payment || payment.tenantId !== request.tenantId) {
+      throw new Error('Payment not found')
+    }
+    if (getOutstandingCents(payment) === 0) {
+      throw new Error('Payment has no outstanding balance')
+    }
+    if (payment.status !== PaymentStatus.OVERDUE && startOfDay(payment.dueDate) >= today) {
+      throw new Error('Only overdue payments can be added to a payment plan')
+    }
+    covered.push(payment)
+  }
+
+  const currency = covered[0].currency
+  if (covered.some(payment => payment.currency !== currency)) {
+    throw new Error('Payments in a plan must share a currency')
+  }
+
+  const totalCents = covered.reduce((sum, payment) => sum + getOutstandingCents(payment), 0)
+  if (request.installmentCount > totalCents) {
+    throw new Error('Too many installments for the amount owed')
+  }
+
+  const plan = await createPaymentPlan({
+    tenantId: request.tenantId,
+    propertyId: covered[0].propertyId,
+    coveredPaymentIds: covered.map(payment => payment.id),
+    totalCents,
+    currency,
+    installmentCount: request.installmentCount,
+    firstDueDate: startOfDay(request.firstDueDate),
+    intervalMonths: request.intervalMonths,
+    gracePeriodDays: request.gracePeriodDays,
+    notes: request.notes,
+    createdBy: request.createdBy
+  })
+
+  // Leftover cents go on the earliest installments
+  const baseCents = Math.floor(totalCents / plan.installmentCount)
+  const installments: Payment[] = []
+  for (let i = 0; i < plan.installmentCount; i++) {
+    installments.push(await createPayment({
+      tenantId: plan.tenantId,
+      propertyId: plan.propertyId,
+      amountCents: baseCents + (i < totalCents % plan.installmentCount ? 1 : 0),
+      currency,
+      paymentMethod: covered[0].paymentMethod,
+      status: PaymentStatus.PENDING,
+      dueDate: addMonths(plan.firstDueDate, i * plan.intervalMonths),
+      description: `Payment plan installment ${i + 1} of ${plan.installmentCount} (${formatCents(totalCents, currency)} arrears)`,
+      paymentPlanId: plan.id,
+      notes: `Covers ${covered.map(payment => payment.description).join(', ')}`
+    }))
+  }
+
+  for (const payment of covered) {
+    await updatePayment(payment.id, {
+      status: PaymentStatus.RESCHEDULED,
+      paymentPlanId: plan.id
+    })
+  }
+
+  const updated = await updatePaymentPlan(plan.id, {
+    installmentPaymentIds: installments.map(payment => payment.id)
+  })
+
+  return summarizePlan(updated || plan, installments)
+}
+
+export async function getPaymentPlanSummary(planId: string): Promise<PaymentPlanSummary | null> {
+  const plan = await getPaymentPlanById(planId)
+  return plan ? summarizePlan(plan, await getInstallments(plan)) : null
+}
+
+export async function getTenantPaymentPlans(tenantId: string): Promise<PaymentPlanSummary[]> {
+  const plans = await getPaymentPlansByTenant(tenantId)
+  return Promise.all(plans.map(async plan => summarizePlan(plan, await getInstallments(plan))))
+}
+
+/**
+ * Daily check of active plans. A plan whose installments are all paid is
+ * completed; one with an installment unpaid past the grace period defaults,
+ * and its remaining installments fall due at once so they are chased as
+ * overdue again.
+ */
+export async function checkPaymentPlans(options: PaymentPlanCheckOptions = {}): Promise<PaymentPlanCheckResult> {
+  const asOf = options.asOf || new Date()
+  const result: PaymentPlanCheckResult = { completed: 0, defaulted: 0, errors: [] }
+
+  for (const plan of await getPaymentPlansByStatus(PaymentPlanStatus.ACTIVE)) {
+    try {
+      const installments = await getInstallments(plan)
+      const unpaid = installments.filter(payment => getOutstandingCents(payment) > 0)
+
+      if (unpaid.length === 0) {
+        await updatePaymentPlan(plan.id, { status: PaymentPlanStatus.COMPLETED, completedAt: asOf })
+        result.completed++
+        continue
+      }
+
+      const missed = unpaid.find(payment =>
+        addDays(startOfDay(payment.dueDate), plan.gracePeriodDays) < startOfDay(asOf)
+      )
+      if (missed) {
+        await defaultPaymentPlan(plan, missed, unpaid, asOf)
+        result.defaulted++
+      }
+    } catch (error) {
+      result.errors.push(`Payment plan ${plan.id} check failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  return result
+}
+
+async function defaultPaymentPlan(plan: PaymentPlan, missed: Payment, unpaid: Payment[], asOf: Date): Promise<void> {
+  for (const installment of unpaid) {
+    await updatePayment(installment.id, {
+      status: installment.status === PaymentStatus.PARTIALLY_PAID ? PaymentStatus.PARTIALLY_PAID : PaymentStatus.OVERDUE,
+      dueDate: min([installment.dueDate, asOf]),
+      remindersPaused: false
+    })
+  }
+
+  await updatePaymentPlan(plan.id, {
+    status: PaymentPlanStatus.DEFAULTED,
+    missedInstallmentId: missed.id,
+    defaultedAt: asOf
+  })
+}
+
+async function getInstallments(plan: PaymentPlan): Promise<Payment[]> {
+  const installments = await Promise.all(plan.installmentPaymentIds.map(id => getPaymentById(id)))
+  return installments
+    .filter((payment): payment is Payment => payment !== null)
+    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime())
+}
+
+function summarizePlan(plan: PaymentPlan, installments: Payment[]): PaymentPlanSummary {
+  const remainingCents = installments.reduce((sum, payment) => sum + getOutstandingCents(payment), 0)
+
+  return {
+    plan,
+    installments,
+    paidCents: plan.totalCents - remainingCents,
+    remainingCents,
+    nextInstallment: installments.find(payment => getOutstandingCents(payment) > 0) || null
+  }
+}
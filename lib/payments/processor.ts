@@ -1,11 +1,15 @@
 import { CreatePaymentInput, PaymentMethod, PaymentStatus } from '@/lib/db/models/payment'
-import { createPayment, updatePayment } from '@/lib/db/operations/payment'
+import { createPayment, getPaymentById, updatePayment } from '@/lib/db/operations/payment'
 import { createPaymentIntent, processRefund } from './stripe'
 import { sendPaymentConfirmation, sendPaymentFailureNotification } from './confirmations'
+import { waiveLateFeesIfPaidWithinGrace } from './late-fees'
 
 export interface ProcessPaymentRequest extends CreatePaymentInput {
   sendConfirmation?: boolean
   stripePaymentMethodId?: string
+  paymentId?: string // Charge an existing payment instead of recording a new one
+  stripeCustomerId?: string
+  offSession?: boolean // Charge the saved payment method without the tenant present, e.g. autopay
 }
 
 export interface ProcessPaymentResult {
@@ -20,11 +24,17 @@ export interface ProcessPaymentResult {
  */
 export async function processPayment(request: ProcessPaymentRequest): Promise<ProcessPaymentResult> {
   try {
-    // Create initial payment record
-    const payment = await createPayment({
-      ...request,
-      status: PaymentStatus.PENDING // Start as pending until confirmed
-    })
+    // Create initial payment record, unless charging one that already exists
+    const payment = request.paymentId
+      ? await getPaymentById(request.paymentId)
+      : await createPayment({
+        ...request,
+        status: PaymentStatus.PENDING // Start as pending until confirmed
+      })
+
+    if (!payment) {
+      throw new Error('Payment not found')
+    }
 
     // Process based on payment method
     switch (request.paymentMethod) {
@@ -58,10 +68,14 @@ export async function processPayment(request: ProcessPaymentRequest): Promise<Pr
  */
 async function processStripePayment(payment: any, request: ProcessPaymentRequest): Promise<ProcessPaymentResult> {
   try {
-    // Create Stripe payment intent
+    // Create Stripe payment intent; off-session charges are confirmed straight away
     const paymentIntent = await createPaymentIntent({
       amount: request.amountCents,
       currency: request.currency,
+      customerId: request.stripeCustomerId,
+      paymentMethodId: request.offSession ? request.stripePaymentMethodId : undefined,
+      confirm: request.offSession,
+      offSession: request.offSession,
       description: request.description,
       metadata: {
         paymentId: payment.id,
@@ -76,6 +90,17 @@ async function processStripePayment(payment: any, request: ProcessPaymentRequest
       reference: paymentIntent.id
     })
 
+    // The payment_intent.succeeded webhook marks the payment paid
+    if (request.offSession) {
+      const charged = paymentIntent.status === 'succeeded' || paymentIntent.status === 'processing'
+      return {
+        success: charged,
+        payment: updatedPayment,
+        stripePaymentIntent: paymentIntent,
+        error: charged ? undefined : `Payment requires further action: ${paymentIntent.status}`
+      }
+    }
+
     // If payment method is provided, confirm immediately
     if (request.stripePaymentMethodId) {
       // This would typically be handled by the frontend or webhook
@@ -94,11 +119,12 @@ async function processStripePayment(payment: any, request: ProcessPaymentRequest
   } catch (error) {
     console.error('Error processing Stripe payment:', error)
     
-    // Update payment status to failed
-    await updatePayment(payment.id, {
-      status: PaymentStatus.PENDING,
-      notes: `Stripe payment failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-    })
+    // Update payment status to failed; existing payments keep their status and notes
+    const failureNote = `Stripe payment failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    await updatePayment(payment.id, request.paymentId
+      ? { notes: payment.notes ? `${payment.notes}\n${failureNote}` : failureNote }
+      : { status: PaymentStatus.PENDING, notes: failureNote }
+    )
 
     return {
       success: false,
@@ -155,6 +181,10 @@ async function processCashPayment(payment: any, request: ProcessPaymentRequest):
       notes: 'Cash payment received and recorded'
     })
 
+    if (updatedPayment) {
+      await waiveLateFeesIfPaidWithinGrace(updatedPayment)
+    }
+
     // Send confirmation
     if (request.sendConfirmation && updatedPayment) {
       await sendPaymentConfirmation(updatedPayment)
@@ -0,0 +1,315 @@
+import { v4 as uuidv4 } from 'uuid'
+import {
+  BankTransaction,
+  BankTransactionStatus,
+  BankStatementFormatType,
+  CSVColumnMappingInput
+} from '@/lib/db/models/bank-transaction'
+import { Payment, PaymentStatus } from '@/lib/db/models/payment'
+import { Tenant } from '@/lib/db/models/tenant'
+import {
+  createBankTransaction,
+  findBankTransactionByReference,
+  getBankTransactionById,
+  getBankTransactionsByStatus,
+  updateBankTransaction
+} from '@/lib/db/operations/bank-transactions'
+import { getPaymentById, getPaymentsByStatus } from '@/lib/db/operations/payment'
+import { getTenantById } from '@/lib/db/operations/tenants'
+import { parseBankStatement } from './bank-statements'
+import { getOutstandingCents, recordPaymentAllocation } from './ledger'
+
+// Proposals below this score are not shown
+export const MIN_MATCH_CONFIDENCE = 40
+
+const MAX_PROPOSALS = 3
+
+// Bank fees (e.g. Wise, SWIFT intermediaries) often shave a little off transfers
+const AMOUNT_TOLERANCE = 0.02
+
+export interface MatchProposal {
+  paymentId: string
+  tenantId: string
+  tenantName?: string
+  description: string
+  amountCents: number
+  currency: string
+  dueDate: Date
+  confidence: number // 0-100
+  reasons: string[]
+}
+
+export interface ReconciliationItem {
+  transaction: BankTransaction
+  proposals: MatchProposal[]
+}
+
+export interface ImportStatementOptions {
+  format: BankStatementFormatType
+  mapping?: CSVColumnMappingInput
+}
+
+export interface ImportStatementResult {
+  importBatchId: string
+  imported: number
+  duplicates: number
+  skipped: number
+  errors: Array<{
+    row: number
+    error: string
+  }>
+  items: ReconciliationItem[]
+}
+
+export interface ConfirmMatchInput {
+  transactionId: string
+  paymentId: string
+}
+
+export interface ConfirmMatchesResult {
+  confirmed: Array<{
+    transactionId: string
+    payment: Payment
+  }>
+  failed: Array<{
+    transactionId: string
+    error: string
+  }>
+}
+
+/**
+ * Score how likely a bank credit pays a payment, from its amount, the
+ * payment reference and the tenant's name appearing in the bank details.
+ */
+export function scorePaymentMatch(
+  transaction: BankTransaction,
+  payment: Payment,
+  tenant: Tenant | null
+): { confidence: number, reasons: string[] } {
+  const reasons: string[] = []
+  let confidence = 0
+
+  const outstandingCents = getOutstandingCents(payment)
+  if (transaction.currency === payment.currency && outstandingCents > 0) {
+    if (transaction.amountCents === outstandingCents) {
+      confidence += 50
+      reasons.push('Exact amount')
+    } else if (Math.abs(transaction.amountCents - outstandingCents) <= outstandingCents * AMOUNT_TOLERANCE) {
+      confidence += 25
+      reasons.push('Amount within bank fee tolerance')
+    }
+  }
+
+  const bankText = normalizeText(`${transaction.description} ${transaction.counterpartyName || ''} ${transaction.bankReference}`)
+  const compactBankText = bankText.replace(/ /g, '')
+
+  const references = [payment.reference, payment.id.slice(0, 8)]
+    .filter((ref): ref is string => !!ref)
+    .map(ref => normalizeText(ref).replace(/ /g, ''))
+    .filter(ref => ref.length >= 4)
+  if (references.some(ref => compactBankText.includes(ref))) {
+    confidence += 35
+    reasons.push('Payment reference')
+  }
+
+  if (tenant) {
+    const nameTokens = normalizeText(`${tenant.firstName} ${tenant.lastName}`).split(' ').filter(Boolean)
+    const bankTokens = new Set(bankText.split(' '))
+    const matchedTokens = nameTokens.filter(token => bankTokens.has(token))
+
+    if (nameTokens.length > 0 && matchedTokens.length === nameTokens.length) {
+      confidence += 25
+      reasons.push('Tenant name')
+    } else if (matchedTokens.some(token => token.length >= 3)) {
+      confidence += 10
+      reasons.push('Partial tenant name')
+    }
+  }
+
+  return { confidence: Math.min(confidence, 100), reasons }
+}
+
+/**
+ * Import a bank statement, skipping lines imported before, and propose
+ * matches for each new credit.
+ */
+export async function importBankStatement(
+  content: string,
+  options: ImportStatementOptions
+): Promise<ImportStatementResult> {
+  const parsed = parseBankStatement(content, options.format, options.mapping)
+  const importBatchId = uuidv4()
+  const transactions: BankTransaction[] = []
+  let duplicates = 0
+
+  for (const line of parsed.lines) {
+    const existing = await findBankTransactionByReference(line.bankReference, line.amountCents, line.currency)
+    if (existing) {
+      duplicates++
+      continue
+    }
+
+    transactions.push(await createBankTransaction({
+      ...line,
+      importBatchId,
+      format: options.format,
+      status: BankTransactionStatus.UNMATCHED
+    }))
+  }
+
+  return {
+    importBatchId,
+    imported: transactions.length,
+    duplicates,
+    skipped: parsed.skipped,
+    errors: parsed.errors,
+    items: await proposeMatches(transactions)
+  }
+}
+
+/**
+ * Unmatched bank credits with their proposed matches, oldest first.
+ */
+export async function getReconciliationQueue(): Promise<ReconciliationItem[]> {
+  const unmatched = await getBankTransactionsByStatus(BankTransactionStatus.UNMATCHED)
+  return proposeMatches(unmatched)
+}
+
+/**
+ * Confirm manager-reviewed matches, recording each credit against its payment
+ * with the bank reference. A short transfer leaves the payment PartiallyPaid
+ * and an overpayment becomes tenant credit. Matches are applied independently
+ * so one bad pair doesn't block the rest of the batch.
+ */
+export async function confirmMatches(
+  matches: ConfirmMatchInput[],
+  confirmedBy?: string
+): Promise<ConfirmMatchesResult> {
+  const result: ConfirmMatchesResult = { confirmed: [], failed: [] }
+
+  for (const match of matches) {
+    try {
+      const transaction = await getBankTransactionById(match.transactionId)
+      if (!transaction) {
+        throw new Error('Bank transaction not found')
+      }
+      if (transaction.status !== BankTransactionStatus.UNMATCHED) {
+        throw new Error('Bank transaction is already reconciled')
+      }
+
+      const payment = await getPaymentById(match.paymentId)
+      if (!payment) {
+        throw new Error('Payment not found')
+      }
+      if (!isAwaitingPayment(payment)) {
+        throw new Error('Payment is not awaiting payment')
+      }
+      if (transaction.currency !== payment.currency) {
+        throw new Error('Bank transaction currency does not match the payment')
+      }
+
+      const tenant = await getTenantById(payment.tenantId)
+      const { confidence } = scorePaymentMatch(transaction, payment, tenant)
+
+      const { payment: paid } = await recordPaymentAllocation(payment.id, {
+        amountCents: transaction.amountCents,
+        paidDate: transaction.transactionDate,
+        reference: transaction.bankReference
+      })
+
+      await updateBankTransaction(transaction.id, {
+        status: BankTransactionStatus.MATCHED,
+        matchedPaymentId: payment.id,
+        matchConfidence: confidence,
+        reconciledAt: new Date(),
+        reconciledBy: confirmedBy
+      })
+
+      result.confirmed.push({ transactionId: transaction.id, payment: paid })
+    } catch (error) {
+      result.failed.push({
+        transactionId: match.transactionId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
+  return result
+}
+
+/**
+ * Take a credit that isn't rent (e.g. a refund or owner transfer) out of the queue.
+ */
+export async function ignoreBankTransaction(transactionId: string, ignoredBy?: string): Promise<BankTransaction> {
+  const transaction = await getBankTransactionById(transactionId)
+  if (!transaction) {
+    throw new Error('Bank transaction not found')
+  }
+  if (transaction.status !== BankTransactionStatus.UNMATCHED) {
+    throw new Error('Bank transaction is already reconciled')
+  }
+
+  const updated = await updateBankTransaction(transactionId, {
+    status: BankTransactionStatus.IGNORED,
+    reconciledAt: new Date(),
+    reconciledBy: ignoredBy
+  })
+
+  return updated!
+}
+
+async function proposeMatches(transactions: BankTransaction[]): Promise<ReconciliationItem[]> {
+  if (transactions.length === 0) return []
+
+  const candidates = [
+    ...await getPaymentsByStatus(PaymentStatus.PENDING),
+    ...await getPaymentsByStatus(PaymentStatus.OVERDUE),
+    ...await getPaymentsByStatus(PaymentStatus.PARTIALLY_PAID)
+  ]
+
+  const tenants = new Map<string, Tenant | null>()
+  for (const tenantId of new Set(candidates.map(p => p.tenantId))) {
+    tenants.set(tenantId, await getTenantById(tenantId))
+  }
+
+  return transactions.map(transaction => {
+    const proposals = candidates
+      .map(payment => {
+        const tenant = tenants.get(payment.tenantId) || null
+        const { confidence, reasons } = scorePaymentMatch(transaction, payment, tenant)
+
+        return {
+          paymentId: payment.id,
+          tenantId: payment.tenantId,
+          tenantName: tenant ? `${tenant.firstName} ${tenant.lastName}` : undefined,
+          description: payment.description,
+          amountCents: payment.amountCents,
+          currency: payment.currency,
+          dueDate: payment.dueDate,
+          confidence,
+          reasons
+        }
+      })
+      .filter(proposal => proposal.confidence >= MIN_MATCH_CONFIDENCE)
+      .sort((a, b) => b.confidence - a.confidence || a.dueDate.getTime() - b.dueDate.getTime())
+      .slice(0, MAX_PROPOSALS)
+
+    return { transaction, proposals }
+  })
+}
+
+function isAwaitingPayment(payment: Payment): boolean {
+  return getOutstandingCents(payment) > 0
+}
+
+// Lowercase, strip Vietnamese diacritics and punctuation so names and
+// references compare the way banks print them
+function normalizeText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/gi, 'd')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
@@ -0,0 +1,300 @@
+import {
+  addMonths,
+  differenceInCalendarDays,
+  endOfDay,
+  endOfMonth,
+  format,
+  isAfter,
+  isBefore,
+  max as maxDate,
+  min as minDate,
+  startOfDay,
+  startOfMonth
+} from 'date-fns'
+import { getRentCurrency } from '@/lib/currency/conversion'
+import { Payment, PaymentMethod, PaymentMethodType, PaymentStatus } from '@/lib/db/models/payment'
+import { Tenant, TenantStatus } from '@/lib/db/models/tenant'
+import { createPayment, getPaymentsByTenant } from '@/lib/db/operations/payment'
+import { getActiveProperties } from '@/lib/db/operations/properties'
+import { getPropertyTenants } from '@/lib/db/operations/tenants'
+import { applyTenantCredits } from './ledger'
+
+export interface RentPeriod {
+  start: Date
+  end: Date
+}
+
+export interface RentTerms {
+  monthlyRentCents: number
+  leaseStart: Date
+  leaseEnd?: Date
+  leaseId?: string
+  currency?: string // Set when the lease records one, otherwise the property's rent currency applies
+}
+
+export interface RentRollOptions {
+  periodStart?: Date // Any date inside the period to bill; defaults to next month
+  propertyId?: string
+  dryRun?: boolean
+  defaultPaymentMethod?: PaymentMethodType
+}
+
+export interface RentRollEntry {
+  tenantId: string
+  propertyId: string
+  tenantName: string
+  amountCents: number
+  currency: string
+  monthlyRentCents: number
+  prorated: boolean
+  daysBilled: number
+  daysInPeriod: number
+  dueDate: Date
+  paymentId?: string
+}
+
+export interface RentRollResult {
+  period: RentPeriod
+  dryRun: boolean
+  processed: number
+  generated: RentRollEntry[]
+  skipped: Array<{ tenantId: string; reason: string }>
+  errors: string[]
+  totalsByCurrency: Record<string, number> // Amount billed per currency, in its minor unit
+}
+
+/**
+ * Get the calendar month billed by the rent roll. Without a reference date
+ * this is the month after the current one.
+ */
+export function getRentPeriod(referenceDate?: Date): RentPeriod {
+  const base = referenceDate ?? addMonths(new Date(), 1)
+  return {
+    start: startOfMonth(base),
+    end: endOfMonth(base)
+  }
+}
+
+/**
+ * Resolve the rent terms that apply to a tenant during a period. Lease history
+ * takes precedence over the legacy lease fields on the tenant.
+ */
+export function resolveRentTerms(tenant: Tenant, period: RentPeriod): RentTerms | null {
+  const overlappingLeases = tenant.leaseHistory
+    .filter(lease => overlapsPeriod(lease.startDate, lease.endDate, period))
+    .sort((a, b) => {
+      // Prefer the tenant's current lease, then the most recent one
+      if (a.id === tenant.currentLeaseId || a.isActive) return -1
+      if (b.id === tenant.currentLeaseId || b.isActive) return 1
+      return b.startDate.getTime() - a.startDate.getTime()
+    })
+
+  if (overlappingLeases.length > 0) {
+    const lease = overlappingLeases[0]
+    return {
+      monthlyRentCents: lease.monthlyRentCents,
+      leaseStart: lease.startDate,
+      leaseEnd: lease.endDate,
+      leaseId: lease.id,
+      currency: lease.currency
+    }
+  }
+
+  if (tenant.monthlyRentCents && tenant.leaseStart && overlapsPeriod(tenant.leaseStart, tenant.leaseEnd, period)) {
+    return {
+      monthlyRentCents: tenant.monthlyRentCents,
+      leaseStart: tenant.leaseStart,
+      leaseEnd: tenant.leaseEnd
+    }
+  }
+
+  return null
+}
+
+/**
+ * Calculate the rent owed for a period, pro-rating by day when the lease
+ * starts or ends inside it.
+ */
+export function calculateProratedRent(terms: RentTerms, period: RentPeriod): {
+  amountCents: number
+  daysBilled: number
+  daysInPeriod: number
+  prorated: boolean
+  billedFrom: Date
+  billedTo: Date
+} {
+  const daysInPeriod = differenceInCalendarDays(period.end, period.start) + 1
+  const billedFrom = maxDate([startOfDay(terms.leaseStart), period.start])
+  const billedTo = terms.leaseEnd ? minDate([endOfDay(terms.leaseEnd), period.end]) : period.end
+  const daysBilled = Math.max(0, differenceInCalendarDays(billedTo, billedFrom) + 1)
+  const prorated = daysBilled < daysInPeriod
+
+  return {
+    amountCents: prorated
+      ? Math.round((terms.monthlyRentCents * daysBilled) / daysInPeriod)
+      : terms.monthlyRentCents,
+    daysBilled,
+    daysInPeriod,
+    prorated,
+    billedFrom,
+    billedTo
+  }
+}
+
+/**
+ * Generate the Pending rent payments for a period across all active
+ * properties (or a single one). Tenants that already have a payment for the
+ * period are skipped, so the job is safe to run more than once.
+ */
+export async function generateRentRoll(options: RentRollOptions = {}): Promise<RentRollResult> {
+  const period = getRentPeriod(options.periodStart)
+  const dryRun = options.dryRun ?? false
+
+  const result: RentRollResult = {
+    period,
+    dryRun,
+    processed: 0,
+    generated: [],
+    skipped: [],
+    errors: [],
+    totalsByCurrency: {}
+  }
+
+  try {
+    const propertyIds = options.propertyId
+      ? [options.propertyId]
+      : (await getActiveProperties()).map(property => property.id)
+
+    for (const propertyId of propertyIds) {
+      const currency = await getRentCurrency(propertyId)
+      const tenants = await getPropertyTenants(propertyId)
+
+      for (const tenant of tenants) {
+        result.processed++
+
+        try {
+          const entry = await billTenant(tenant, period, currency, dryRun, options.defaultPaymentMethod)
+
+          if ('reason' in entry) {
+            result.skipped.push({ tenantId: tenant.id, reason: entry.reason })
+            continue
+          }
+
+          result.generated.push(entry)
+          result.totalsByCurrency[entry.currency] = (result.totalsByCurrency[entry.currency] ?? 0) + entry.amountCents
+        } catch (error) {
+          const errorMsg = `Failed to generate rent for tenant ${tenant.id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+          result.errors.push(errorMsg)
+          console.error(errorMsg)
+        }
+      }
+    }
+  } catch (error) {
+    const errorMsg = `Failed to generate rent roll: ${error instanceof Error ? error.message : 'Unknown error'}`
+    result.errors.push(errorMsg)
+    console.error(errorMsg)
+  }
+
+  return result
+}
+
+async function billTenant(
+  tenant: Tenant,
+  period: RentPeriod,
+  rentCurrency: string,
+  dryRun: boolean,
+  defaultPaymentMethod?: PaymentMethodType
+): Promise<RentRollEntry | { reason: string }> {
+  if (tenant.status === TenantStatus.MOVED_OUT) {
+    return { reason: 'Tenant has moved out' }
+  }
+
+  const terms = resolveRentTerms(tenant, period)
+  if (!terms) {
+    return { reason: 'No lease covering period' }
+  }
+
+  const existingPayments = await getPaymentsByTenant(tenant.id)
+  if (existingPayments.some(payment => isRentForPeriod(payment, period))) {
+    return { reason: 'Rent already billed for period' }
+  }
+
+  const rent = calculateProratedRent(terms, period)
+  if (rent.amountCents <= 0) {
+    return { reason: 'Nothing to bill for period' }
+  }
+
+  const currency = terms.currency ?? rentCurrency
+  const periodLabel = format(period.start, 'MMMM yyyy')
+  const description = rent.prorated
+    ? `Monthly Rent - ${periodLabel} (prorated ${rent.daysBilled}/${rent.daysInPeriod} days)`
+    : `Monthly Rent - ${periodLabel}`
+
+  const entry: RentRollEntry = {
+    tenantId: tenant.id,
+    propertyId: tenant.propertyId,
+    tenantName: `${tenant.firstName} ${tenant.lastName}`,
+    amountCents: rent.amountCents,
+    currency,
+    monthlyRentCents: terms.monthlyRentCents,
+    prorated: rent.prorated,
+    daysBilled: rent.daysBilled,
+    daysInPeriod: rent.daysInPeriod,
+    dueDate: rent.billedFrom
+  }
+
+  if (dryRun) {
+    return entry
+  }
+
+  const payment = await createPayment({
+    tenantId: tenant.id,
+    propertyId: tenant.propertyId,
+    amountCents: rent.amountCents,
+    currency,
+    paymentMethod: getPreferredPaymentMethod(existingPayments, defaultPaymentMethod),
+    status: PaymentStatus.PENDING,
+    dueDate: rent.billedFrom,
+    description,
+    billingPeriodStart: rent.billedFrom,
+    billingPeriodEnd: rent.billedTo,
+    notes: terms.leaseId ? `Generated by rent roll from lease ${terms.leaseId}` : 'Generated by rent roll'
+  })
+
+  // Carry forward any overpayment credit onto the new charge
+  await applyTenantCredits(tenant.id)
+
+  return { ...entry, paymentId: payment.id }
+}
+
+// A payment counts as this period's rent if it was generated for the period,
+// or if it is a manually entered rent payment due inside the period. Other
+// charges (late fees, utilities, holds, short stays) never do, even when they
+// carry a billing period
+function isRentForPeriod(payment: Payment, period: RentPeriod): boolean {
+  if (payment.lateFeeForPaymentId || payment.utilityBillId || payment.reservationId || payment.shortStayId) return false
+
+  if (payment.billingPeriodStart) {
+    return !isBefore(payment.billingPeriodStart, period.start) && !isAfter(payment.billingPeriodStart, period.end)
+  }
+
+  const dueDate = new Date(payment.dueDate)
+  return /rent/i.test(payment.description) &&
+    !isBefore(dueDate, period.start) &&
+    !isAfter(dueDate, period.end)
+}
+
+function overlapsPeriod(start: Date, end: Date | undefined, period: RentPeriod): boolean {
+  if (isAfter(startOfDay(start), period.end)) return false
+  if (end && isBefore(endOfDay(end), period.start)) return false
+  return true
+}
+
+// Bill with the method the tenant used most recently
+export function getPreferredPaymentMethod(payments: Payment[], fallback?: PaymentMethodType): PaymentMethodType {
+  const latest = [...payments]
+    .filter(payment => payment.amountCents > 0)
+    .sort((a, b) => new Date(b.dueDate).getTime() - new Date(a.dueDate).getTime())[0]
+
+  return latest?.paymentMethod ?? fallback ?? PaymentMethod.WIRE
+}
@@ -0,0 +1,261 @@
+import type Stripe from 'stripe'
+import { startOfDay } from 'date-fns'
+import { Payment, PaymentMethod, PaymentRefund, PaymentStatus, PaymentStatusType } from '@/lib/db/models/payment'
+import {
+  getPaymentByStripePaymentIntentId,
+  getAllPayments,
+  updatePayment
+} from '@/lib/db/operations/payment'
+import { fromMinorUnits, getCurrencyMinorUnits } from '@/lib/utils'
+import { recordFailedAutopayCharge } from './autopay'
+import { sendPaymentFailureNotification } from './confirmations'
+import { getEffectiveDueDate, waiveLateFeesIfPaidWithinGrace } from './late-fees'
+import { recordPaymentAllocation } from './ledger'
+
+// Dispute outcomes where the funds stay with us
+const DISPUTE_WON_STATUSES = ['won', 'warning_closed']
+
+const REFUND_REVERSED_STATUSES = ['failed', 'canceled']
+
+/**
+ * Mark the payment behind a succeeded payment intent as paid, dated when the
+ * charge went through rather than when the intent was created.
+ */
+export async function handlePaymentIntentSucceeded(
+  paymentIntent: Stripe.PaymentIntent,
+  succeededAt: Date = new Date()
+): Promise<Payment | null> {
+  const payment = await getPaymentByStripePaymentIntentId(paymentIntent.id)
+  if (!payment) {
+    console.warn(`No payment found for Stripe payment intent: ${paymentIntent.id}`)
+    return null
+  }
+
+  // The charge's own time when it is expanded, otherwise the event's
+  const charge = typeof paymentIntent.latest_charge === 'object' ? paymentIntent.latest_charge : null
+  const paidDate = charge ? new Date(charge.created * 1000) : succeededAt
+  const reference = getId(paymentIntent.latest_charge) || paymentIntent.id
+
+  // Portal payments on a partly paid charge cover the remainder, so they go through the ledger
+  if (payment.status === PaymentStatus.PARTIALLY_PAID) {
+    const result = await recordPaymentAllocation(payment.id, {
+      amountCents: paymentIntent.amount_received,
+      paidDate,
+      paymentMethod: PaymentMethod.STRIPE,
+      reference,
+      notes: 'Payment processed via Stripe'
+    })
+    return result.payment
+  }
+
+  const paid = await updatePayment(payment.id, {
+    status: PaymentStatus.PAID,
+    paymentMethod: PaymentMethod.STRIPE,
+    paidDate,
+    reference,
+    notes: appendNote(payment, `Payment processed via Stripe. Amount: ${formatStripeAmount(paymentIntent.amount_received, paymentIntent.currency)}`)
+  })
+
+  if (paid) {
+    await waiveLateFeesIfPaidWithinGrace(paid)
+  }
+
+  return paid
+}
+
+/**
+ * Return the payment to Pending, or Overdue once past due, and tell the tenant
+ * why the charge failed. A failed autopay charge goes back on the retry schedule.
+ */
+export async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent): Promise<Payment | null> {
+  const payment = await getPaymentByStripePaymentIntentId(paymentIntent.id)
+  if (!payment) {
+    console.warn(`No payment found for failed Stripe payment intent: ${paymentIntent.id}`)
+    return null
+  }
+
+  const reason = paymentIntent.last_payment_error?.message || 'Unknown error'
+  const updated = await updatePayment(payment.id, {
+    status: await getUnpaidStatus(payment),
+    notes: appendNote(payment, `Payment failed via Stripe. Reason: ${reason}`)
+  })
+
+  if (updated) {
+    await sendPaymentFailureNotification(updated, reason)
+    await recordFailedAutopayCharge(updated, paymentIntent.id, reason)
+  }
+
+  return updated
+}
+
+export async function handlePaymentIntentCanceled(paymentIntent: Stripe.PaymentIntent): Promise<Payment | null> {
+  const payment = await getPaymentByStripePaymentIntentId(paymentIntent.id)
+  if (!payment) return null
+
+  return updatePayment(payment.id, {
+    status: await getUnpaidStatus(payment),
+    notes: appendNote(payment, `Payment canceled via Stripe. Cancellation reason: ${paymentIntent.cancellation_reason || 'Not specified'}`)
+  })
+}
+
+/**
+ * Track a dispute through its lifecycle. Opening one moves the payment to
+ * Disputed; a won dispute restores the previous status and a lost one leaves
+ * the rent unpaid again.
+ */
+export async function handleChargeDispute(eventType: string, dispute: Stripe.Dispute): Promise<Payment | null> {
+  const payment = await findPaymentForCharge(getId(dispute.payment_intent), getId(dispute.charge))
+  if (!payment) {
+    console.warn(`No payment found for Stripe dispute: ${dispute.id}`)
+    return null
+  }
+
+  const evidenceDueBy = dispute.evidence_details?.due_by
+    ? new Date(dispute.evidence_details.due_by * 1000)
+    : undefined
+  const existing = payment.dispute?.stripeDisputeId === dispute.id ? payment.dispute : undefined
+  const disputeDetails = {
+    stripeDisputeId: dispute.id,
+    reason: dispute.reason,
+    status: dispute.status,
+    amountCents: dispute.amount,
+    evidenceDueBy,
+    statusBeforeDispute: existing?.statusBeforeDispute || payment.status,
+    openedAt: existing?.openedAt || new Date(dispute.created * 1000),
+    closedAt: existing?.closedAt
+  }
+
+  if (eventType === 'charge.dispute.closed') {
+    const won = DISPUTE_WON_STATUSES.includes(dispute.status)
+
+    return updatePayment(payment.id, {
+      status: won ? disputeDetails.statusBeforeDispute : await getUnpaidStatus(payment),
+      paidDate: won ? payment.paidDate : undefined,
+      dispute: { ...disputeDetails, closedAt: new Date() },
+      notes: appendNote(payment, `Dispute ${dispute.id} closed: ${dispute.status}`)
+    })
+  }
+
+  // Fund movements reported after the dispute closed don't reopen it
+  if (existing?.closedAt) {
+    return updatePayment(payment.id, {
+      dispute: { ...disputeDetails, status: dispute.status }
+    })
+  }
+
+  return updatePayment(payment.id, {
+    status: PaymentStatus.DISPUTED,
+    dispute: disputeDetails,
+    notes: existing
+      ? payment.notes
+      : appendNote(payment, `Dispute ${dispute.id} opened. Reason: ${dispute.reason}. Amount: ${formatStripeAmount(dispute.amount, dispute.currency)}${evidenceDueBy ? `. Evidence due by ${evidenceDueBy.toISOString().split('T')[0]}` : ''}`)
+  })
+}
+
+/**
+ * Record a refund issued against a charge, in the app or the Stripe dashboard.
+ * Fully refunded payments move to Refunded.
+ */
+export async function handleChargeRefunded(charge: Stripe.Charge): Promise<Payment | null> {
+  const payment = await findPaymentForCharge(getId(charge.payment_intent), charge.id)
+  if (!payment) {
+    console.warn(`No payment found for refunded Stripe charge: ${charge.id}`)
+    return null
+  }
+
+  let refunds = payment.refunds || []
+  for (const refund of charge.refunds?.data || []) {
+    refunds = upsertRefund(refunds, refund)
+  }
+
+  return updatePayment(payment.id, {
+    status: charge.refunded ? PaymentStatus.REFUNDED : payment.status,
+    refundedCents: charge.amount_refunded,
+    refunds,
+    notes: appendNote(payment, `Refunded via Stripe: ${formatStripeAmount(charge.amount_refunded, charge.currency)} of ${formatStripeAmount(charge.amount, charge.currency)}`)
+  })
+}
+
+/**
+ * Apply a refund's asynchronous outcome. Failed or canceled refunds are taken
+ * back off the payment, restoring it to Paid if it was fully refunded.
+ */
+export async function handleRefundUpdated(refund: Stripe.Refund): Promise<Payment | null> {
+  const payment = await findPaymentForCharge(getId(refund.payment_intent), getId(refund.charge))
+  if (!payment) {
+    console.warn(`No payment found for Stripe refund: ${refund.id}`)
+    return null
+  }
+
+  const previous = payment.refunds?.find(r => r.stripeRefundId === refund.id)
+  const refunds = upsertRefund(payment.refunds || [], refund)
+  const reversed = REFUND_REVERSED_STATUSES.includes(refund.status || '') &&
+    !REFUND_REVERSED_STATUSES.includes(previous?.status || '')
+
+  if (!reversed) {
+    return updatePayment(payment.id, { refunds })
+  }
+
+  return updatePayment(payment.id, {
+    status: payment.status === PaymentStatus.REFUNDED ? PaymentStatus.PAID : payment.status,
+    refundedCents: Math.max(0, (payment.refundedCents || 0) - refund.amount),
+    refunds,
+    notes: appendNote(payment, `Refund ${refund.id} ${refund.status}${refund.failure_reason ? `: ${refund.failure_reason}` : ''}`)
+  })
+}
+
+export async function handleInvoicePaymentSucceeded(invoice: Stripe.Invoice): Promise<null> {
+  // Recurring rent is billed through the rent roll rather than Stripe invoices
+  console.log(`Invoice payment processed: ${formatStripeAmount(invoice.amount_paid, invoice.currency)}`)
+  return null
+}
+
+export async function handleInvoicePaymentFailed(invoice: Stripe.Invoice): Promise<null> {
+  console.log(`Invoice payment failed: ${formatStripeAmount(invoice.amount_due, invoice.currency)}`)
+  return null
+}
+
+// Charges are linked through their payment intent; older records stored the charge ID as the reference
+async function findPaymentForCharge(paymentIntentId?: string, chargeId?: string): Promise<Payment | null> {
+  if (paymentIntentId) {
+    const payment = await getPaymentByStripePaymentIntentId(paymentIntentId)
+    if (payment) return payment
+  }
+
+  if (chargeId) {
+    const payments = await getAllPayments()
+    return payments.find(p => p.reference === chargeId) || null
+  }
+
+  return null
+}
+
+function upsertRefund(refunds: PaymentRefund[], refund: Stripe.Refund): PaymentRefund[] {
+  const entry: PaymentRefund = {
+    stripeRefundId: refund.id,
+    amountCents: refund.amount,
+    status: (refund.status || 'pending') as PaymentRefund['status'],
+    failureReason: refund.failure_reason || undefined,
+    updatedAt: new Date()
+  }
+
+  return [...refunds.filter(r => r.stripeRefundId !== refund.id), entry]
+}
+
+async function getUnpaidStatus(payment: Payment): Promise<PaymentStatusType> {
+  return await getEffectiveDueDate(payment) < startOfDay(new Date()) ? PaymentStatus.OVERDUE : PaymentStatus.PENDING
+}
+
+function getId(value: string | { id: string } | null | undefined): string | undefined {
+  if (!value) return undefined
+  return typeof value === 'string' ? value : value.id
+}
+
+function appendNote(payment: Payment, note: string): string {
+  return payment.notes ? `${payment.notes}\n${note}` : note
+}
+
+// Stripe amounts are in the currency's minor unit, same as amountCents
+function formatStripeAmount(amount: number, currency: string): string {
+  return `${fromMinorUnits(amount, currency).toFixed(getCurrencyMinorUnits(currency))} ${currency.toUpperCase()}`
+}
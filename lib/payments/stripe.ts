@@ -1,4 +1,17 @@
 import Stripe from 'stripe'
+import { Payment } from '@/lib/db/models/payment'
+import { StripeEvent, StripeEventStatus } from '@/lib/db/models/stripe-event'
+import { createStripeEvent, getStripeEvent, updateStripeEvent } from '@/lib/db/operations/stripe-events'
+import {
+  handleChargeDispute,
+  handleChargeRefunded,
+  handleInvoicePaymentFailed,
+  handleInvoicePaymentSucceeded,
+  handlePaymentIntentCanceled,
+  handlePaymentIntentFailed,
+  handlePaymentIntentSucceeded,
+  handleRefundUpdated
+} from './stripe-webhooks'
 
 // Initialize Stripe with secret key
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
@@ -12,6 +25,9 @@ export interface CreatePaymentIntentRequest {
   paymentMethodId?: string
   description?: string
   metadata?: Record<string, string>
+  setupFutureUsage?: 'off_session' | 'on_session' // Save the card on the customer once the payment succeeds
+  confirm?: boolean
+  offSession?: boolean // Charge a saved payment method without the customer present
 }
 
 export interface CreateCustomerRequest {
@@ -39,8 +55,13 @@ export async function createPaymentIntent(request: CreatePaymentIntentRequest):
       payment_method: request.paymentMethodId,
       description: request.description,
       metadata: request.metadata || {},
+      setup_future_usage: request.setupFutureUsage,
+      confirm: request.confirm,
+      off_session: request.offSession,
       automatic_payment_methods: {
-        enabled: true
+        enabled: true,
+        // Nobody is there to follow a redirect on an off-session charge
+        ...(request.offSession ? { allow_redirects: 'never' as const } : {})
       }
     })
 
@@ -166,33 +187,109 @@ export function verifyWebhookSignature(payload: string, signature: string, secre
   }
 }
 
+export interface WebhookEventResult {
+  eventId: string
+  type: string
+  duplicate: boolean // Already processed, nothing was changed
+  paymentId?: string
+}
+
+// An attempt still processing after this long is assumed to have died (e.g. the function timed out)
+const STALE_PROCESSING_MS = 5 * 60 * 1000
+
 /**
- * Handle webhook events
+ * Handle webhook events. Each event is stored by its Stripe ID so redelivered
+ * events are applied once; failed or stale events are retried on redelivery.
  */
-export async function handleWebhookEvent(event: Stripe.Event): Promise<void> {
+export async function handleWebhookEvent(event: Stripe.Event): Promise<WebhookEventResult> {
   console.log(`Processing webhook event: ${event.type}`)
 
-  switch (event.type) {
+  const result: WebhookEventResult = { eventId: event.id, type: event.type, duplicate: false }
+  const existing = await getStripeEvent(event.id)
+
+  if (existing && existing.status !== StripeEventStatus.FAILED && !isStaleProcessing(existing)) {
+    console.log(`Skipping already received webhook event: ${event.id}`)
+    return { ...result, duplicate: true, paymentId: existing.paymentId }
+  }
+
+  if (existing) {
+    await updateStripeEvent(event.id, {
+      status: StripeEventStatus.PROCESSING,
+      attempts: existing.attempts + 1,
+      lastAttemptAt: new Date(),
+      error: undefined
+    })
+  } else {
+    await createStripeEvent({
+      id: event.id,
+      type: event.type,
+      payload: event as unknown as Record<string, unknown>
+    })
+  }
+
+  try {
+    const payment = await dispatchWebhookEvent(event)
+
+    await updateStripeEvent(event.id, {
+      status: StripeEventStatus.PROCESSED,
+      paymentId: payment?.id,
+      processedAt: new Date()
+    })
+
+    return { ...result, paymentId: payment?.id }
+  } catch (error) {
+    await updateStripeEvent(event.id, {
+      status: StripeEventStatus.FAILED,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    })
+    throw error
+  }
+}
+
+function isStaleProcessing(stripeEvent: StripeEvent): boolean {
+  const startedAt = stripeEvent.lastAttemptAt || stripeEvent.receivedAt
+  return stripeEvent.status === StripeEventStatus.PROCESSING &&
+    Date.now() - new Date(startedAt).getTime() > STALE_PROCESSING_MS
+}
+
+async function dispatchWebhookEvent(event: Stripe.Event): Promise<Payment | null> {
+  // Compared as a string: refund.updated is newer than this SDK's event type union
+  const type: string = event.type
+  const object = event.data.object
+
+  switch (type) {
     case 'payment_intent.succeeded':
-      const paymentIntent = event.data.object as Stripe.PaymentIntent
-      console.log(`Payment succeeded: ${paymentIntent.id}`)
-      // TODO: Update payment status in database
-      break
+      return handlePaymentIntentSucceeded(object as Stripe.PaymentIntent, new Date(event.created * 1000))
 
     case 'payment_intent.payment_failed':
-      const failedPayment = event.data.object as Stripe.PaymentIntent
-      console.log(`Payment failed: ${failedPayment.id}`)
-      // TODO: Update payment status in database
-      break
+      return handlePaymentIntentFailed(object as Stripe.PaymentIntent)
+
+    case 'payment_intent.canceled':
+      return handlePaymentIntentCanceled(object as Stripe.PaymentIntent)
 
     case 'charge.dispute.created':
-      const dispute = event.data.object as Stripe.Dispute
-      console.log(`Dispute created: ${dispute.id}`)
-      // TODO: Handle dispute notification
-      break
+    case 'charge.dispute.updated':
+    case 'charge.dispute.closed':
+    case 'charge.dispute.funds_withdrawn':
+    case 'charge.dispute.funds_reinstated':
+      return handleChargeDispute(type, object as Stripe.Dispute)
+
+    case 'charge.refunded':
+      return handleChargeRefunded(object as Stripe.Charge)
+
+    case 'refund.updated':
+    case 'charge.refund.updated':
+      return handleRefundUpdated(object as Stripe.Refund)
+
+    case 'invoice.payment_succeeded':
+      return handleInvoicePaymentSucceeded(object as Stripe.Invoice)
+
+    case 'invoice.payment_failed':
+      return handleInvoicePaymentFailed(object as Stripe.Invoice)
 
     default:
       console.log(`Unhandled event type: ${event.type}`)
+      return null
   }
 }
 
@@ -0,0 +1,263 @@
+import { AutopayEnrollment } from '@/lib/db/models/autopay'
+import { Payment, PaymentStatus } from '@/lib/db/models/payment'
+import { Tenant } from '@/lib/db/models/tenant'
+import { UserRole } from '@/lib/db/models/user'
+import { getAutopayEnrollmentByTenant } from '@/lib/db/operations/autopay'
+import { getPaymentById, getPaymentsByTenant, sortPayments, updatePayment } from '@/lib/db/operations/payment'
+import { getPropertyById } from '@/lib/db/operations/properties'
+import { getTenantByEmail, updateTenant } from '@/lib/db/operations/tenants'
+import {
+  createCustomer,
+  createPaymentIntent,
+  createSetupIntent,
+  getCustomerPaymentMethods,
+  getPaymentIntent
+} from './stripe'
+import { generatePaymentReceiptHTML } from './confirmations'
+import { TenantBalance, getOutstandingCents, getTenantBalance } from './ledger'
+
+export interface OutstandingPayment extends Payment {
+  outstandingCents: number
+}
+
+export interface TenantPortalOverview {
+  tenant: Pick<Tenant, 'id' | 'firstName' | 'lastName' | 'email'>
+  outstanding: OutstandingPayment[]
+  history: Payment[]
+  balances: TenantBalance[]
+  autopay: AutopayEnrollment | null
+}
+
+export interface SavedPaymentMethod {
+  id: string
+  brand: string
+  last4: string
+  expMonth: number
+  expYear: number
+  isAutopay: boolean
+}
+
+export interface PortalPaymentSession {
+  paymentId: string
+  paymentIntentId: string
+  clientSecret: string
+  amountCents: number
+  currency: string
+}
+
+// Statuses shown in the tenant's payment history
+const HISTORY_STATUSES: string[] = [
+  PaymentStatus.PAID,
+  PaymentStatus.REFUNDED,
+  PaymentStatus.WAIVED,
+  PaymentStatus.DISPUTED
+]
+
+// Payment intents still waiting on the tenant can be reused instead of creating another
+const REUSABLE_INTENT_STATUSES = ['requires_payment_method', 'requires_confirmation', 'requires_action']
+
+/**
+ * Resolve the tenant record behind a signed-in TENANT user.
+ * Tenant accounts are linked to their tenant record by email.
+ */
+export async function getTenantForUser(user: { role: string; email?: string | null }): Promise<Tenant | null> {
+  if (user.role !== UserRole.TENANT || !user.email) return null
+  return getTenantByEmail(user.email)
+}
+
+/**
+ * Outstanding charges, payment history and balance for the tenant portal.
+ */
+export async function getTenantPortalOverview(tenant: Tenant): Promise<TenantPortalOverview> {
+  const [payments, balances, autopay] = await Promise.all([
+    getPaymentsByTenant(tenant.id),
+    getTenantBalance(tenant.id),
+    getAutopayEnrollmentByTenant(tenant.id)
+  ])
+
+  const outstanding = (await sortPayments(payments, 'dueDate', 'asc'))
+    .map(payment => ({ ...payment, outstandingCents: getOutstandingCents(payment) }))
+    .filter(payment => payment.outstandingCents > 0)
+
+  const history = (await sortPayments(payments, 'dueDate', 'desc'))
+    .filter(payment => HISTORY_STATUSES.includes(payment.status) || (payment.allocations?.length ?? 0) > 0)
+
+  return {
+    tenant: {
+      id: tenant.id,
+      firstName: tenant.firstName,
+      lastName: tenant.lastName,
+      email: tenant.email
+    },
+    outstanding,
+    history,
+    balances,
+    autopay
+  }
+}
+
+/**
+ * Load one of the tenant's own payments. Other tenants' payments are reported
+ * as not found so their existence isn't revealed.
+ */
+export async function getTenantPayment(tenant: Tenant, paymentId: string): Promise<Payment> {
+  const payment = await getPaymentById(paymentId)
+  if (!payment || payment.tenantId !== tenant.id) {
+    throw new Error('Payment not found')
+  }
+  return payment
+}
+
+/**
+ * Start a card payment for the outstanding amount on a payment. The payment is
+ * settled by the payment_intent.succeeded webhook once the tenant confirms.
+ */
+export async function startTenantCardPayment(
+  tenant: Tenant,
+  paymentId: string,
+  options: { saveCard?: boolean } = {}
+): Promise<PortalPaymentSession> {
+  const payment = await getTenantPayment(tenant, paymentId)
+  const amountCents = getOutstandingCents(payment)
+  if (amountCents === 0) {
+    throw new Error('Payment has no outstanding balance')
+  }
+
+  const customerId = await ensureStripeCustomer(tenant)
+
+  if (payment.stripePaymentIntentId) {
+    const existing = await getPaymentIntent(payment.stripePaymentIntentId)
+    const sameUsage = (existing.setup_future_usage || undefined) === (options.saveCard ? 'off_session' : undefined)
+    if (
+      REUSABLE_INTENT_STATUSES.includes(existing.status) &&
+      existing.amount === amountCents &&
+      existing.customer === customerId &&
+      sameUsage &&
+      existing.client_secret
+    ) {
+      return toPaymentSession(payment, existing.id, existing.client_secret, amountCents)
+    }
+  }
+
+  const paymentIntent = await createPaymentIntent({
+    amount: amountCents,
+    currency: payment.currency.toLowerCase(),
+    customerId,
+    description: payment.description,
+    setupFutureUsage: options.saveCard ? 'off_session' : undefined,
+    metadata: {
+      paymentId: payment.id,
+      tenantId: tenant.id,
+      propertyId: payment.propertyId,
+      source: 'tenant_portal'
+    }
+  })
+
+  if (!paymentIntent.client_secret) {
+    throw new Error('Stripe did not return a client secret')
+  }
+
+  await updatePayment(payment.id, { stripePaymentIntentId: paymentIntent.id })
+
+  return toPaymentSession(payment, paymentIntent.id, paymentIntent.client_secret, amountCents)
+}
+
+/**
+ * Start saving a card on the tenant's Stripe customer, for autopay.
+ */
+export async function startTenantCardSetup(tenant: Tenant): Promise<{ clientSecret: string }> {
+  const customerId = await ensureStripeCustomer(tenant)
+  const setupIntent = await createSetupIntent(customerId)
+
+  if (!setupIntent.client_secret) {
+    throw new Error('Stripe did not return a client secret')
+  }
+
+  return { clientSecret: setupIntent.client_secret }
+}
+
+export async function listTenantPaymentMethods(tenant: Tenant): Promise<SavedPaymentMethod[]> {
+  if (!tenant.stripeCustomerId) return []
+
+  const paymentMethods = await getCustomerPaymentMethods(tenant.stripeCustomerId)
+  return paymentMethods
+    .filter(method => method.card)
+    .map(method => ({
+      id: method.id,
+      brand: method.card!.brand,
+      last4: method.card!.last4,
+      expMonth: method.card!.exp_month,
+      expYear: method.card!.exp_year,
+      isAutopay: method.id === tenant.autopayPaymentMethodId
+    }))
+}
+
+/**
+ * Choose which saved card autopay charges. The card must belong to the tenant's
+ * Stripe customer.
+ */
+export async function setTenantAutopayMethod(tenant: Tenant, paymentMethodId: string): Promise<Tenant> {
+  const methods = await listTenantPaymentMethods(tenant)
+  if (!methods.some(method => method.id === paymentMethodId)) {
+    throw new Error('Payment method not found')
+  }
+
+  const updated = await updateTenant({ id: tenant.id, autopayPaymentMethodId: paymentMethodId })
+  if (!updated) {
+    throw new Error('Tenant not found')
+  }
+  return updated
+}
+
+/**
+ * Printable receipt for one of the tenant's paid payments.
+ */
+export async function getTenantReceiptHTML(tenant: Tenant, paymentId: string): Promise<string> {
+  const payment = await getTenantPayment(tenant, paymentId)
+  if (payment.status !== PaymentStatus.PAID) {
+    throw new Error('Receipts are only available for paid payments')
+  }
+
+  const property = await getPropertyById(payment.propertyId)
+
+  return generatePaymentReceiptHTML(
+    payment,
+    { name: `${tenant.firstName} ${tenant.lastName}`, email: tenant.email },
+    {
+      name: property?.name || 'N/A',
+      address: property
+        ? `${property.address.street}, ${property.address.city}, ${property.address.country}`
+        : 'N/A'
+    }
+  )
+}
+
+async function ensureStripeCustomer(tenant: Tenant): Promise<string> {
+  if (tenant.stripeCustomerId) return tenant.stripeCustomerId
+
+  const customer = await createCustomer({
+    email: tenant.email,
+    name: `${tenant.firstName} ${tenant.lastName}`,
+    metadata: { tenantId: tenant.id }
+  })
+
+  await updateTenant({ id: tenant.id, stripeCustomerId: customer.id })
+  tenant.stripeCustomerId = customer.id
+
+  return customer.id
+}
+
+function toPaymentSession(
+  payment: Payment,
+  paymentIntentId: string,
+  clientSecret: string,
+  amountCents: number
+): PortalPaymentSession {
+  return {
+    paymentId: payment.id,
+    paymentIntentId,
+    clientSecret,
+    amountCents,
+    currency: payment.currency
+  }
+}
@@ -0,0 +1,272 @@
+import { addDays, differenceInCalendarDays, format, max, min, startOfDay } from 'date-fns'
+import {
+  allocateByUsage,
+  TenantAllocation,
+  TenantUsage
+} from '@/lib/allocation/multi-property-allocation'
+import { Expense } from '@/lib/db/models/expense'
+import { Payment, PaymentStatus } from '@/lib/db/models/payment'
+import { OccupancyRecord, Room } from '@/lib/db/models/room'
+import {
+  MeterReading,
+  UtilityBill,
+  UtilityBillShare,
+  UtilitySplitMethod,
+  UtilitySplitMethodType
+} from '@/lib/db/models/utility-bill'
+import { getExpense } from '@/lib/db/operations/expenses'
+import { createPayment, getPaymentsByTenant } from '@/lib/db/operations/payment'
+import { getPropertyRooms, getRoomOccupancyHistory } from '@/lib/db/operations/rooms'
+import {
+  createUtilityBill,
+  getUtilityBillByExpense,
+  updateUtilityBill
+} from '@/lib/db/operations/utility-bills'
+import { formatCents } from '@/lib/utils'
+import { applyTenantCredits } from './ledger'
+import { getPreferredPaymentMethod } from './rent-roll'
+
+export interface UtilityBillRequest {
+  propertyId: string
+  expenseId: string
+  periodStart: Date
+  periodEnd: Date
+  splitMethod: UtilitySplitMethodType
+  meterReadings?: MeterReading[]
+  meterUnit?: string
+  utilityType?: string
+  dueDate?: Date
+  createdBy?: string
+}
+
+export interface UtilityBillPreview {
+  expense: Expense
+  shares: UtilityBillShare[]
+  unallocatedCents: number
+}
+
+export interface UtilityBillResult {
+  bill: UtilityBill
+  payments: Payment[]
+}
+
+// Utility charges are due two weeks after they are issued unless a due date is given
+const DEFAULT_DUE_DAYS = 14
+
+// A tenant's stay in a room, clipped to the billing period
+interface RoomStay {
+  tenantId: string
+  room: Room
+  days: number
+}
+
+/**
+ * Work out each tenant's share of a utility expense without charging anyone.
+ * Meter splits charge each room's metered usage to whoever lived there, in
+ * proportion to their days in the room; the usage of vacant days stays with
+ * the property. Occupancy splits divide the whole bill by days in residence.
+ */
+export async function previewUtilityBill(request: UtilityBillRequest): Promise<UtilityBillPreview> {
+  const periodStart = startOfDay(request.periodStart)
+  const periodEnd = startOfDay(request.periodEnd)
+  if (periodEnd < periodStart) {
+    throw new Error('Billing period end must not be before its start')
+  }
+
+  const expense = await getExpense(request.expenseId)
+  if (!expense) {
+    throw new Error('Expense not found')
+  }
+  if (expense.propertyId !== request.propertyId) {
+    throw new Error('Expense does not belong to this property')
+  }
+
+  const rooms = await getPropertyRooms(request.propertyId)
+  const stays = await getRoomStays(rooms, periodStart, periodEnd)
+  const periodDays = differenceInCalendarDays(periodEnd, periodStart) + 1
+
+  const allocations = request.splitMethod === UtilitySplitMethod.METER
+    ? splitByMeter(expense, rooms, stays, request.meterReadings || [], request.meterUnit || 'kWh', periodDays)
+    : splitByOccupancyDays(expense, stays, periodDays)
+
+  const shares = allocations.map(allocation => ({
+    tenantId: allocation.tenantId,
+    roomId: allocation.roomId,
+    usage: allocation.usage,
+    percentage: allocation.percentage,
+    amountCents: allocation.amount,
+    justification: allocation.justification || ''
+  }))
+
+  return {
+    expense,
+    shares,
+    unallocatedCents: expense.amountCents - shares.reduce((sum, share) => sum + share.amountCents, 0)
+  }
+}
+
+/**
+ * Split a utility expense and create a charge for every tenant with a share.
+ * Each charge description carries the tenant's breakdown.
+ */
+export async function createUtilityBillCharges(request: UtilityBillRequest): Promise<UtilityBillResult> {
+  if (await getUtilityBillByExpense(request.expenseId)) {
+    throw new Error('Expense has already been billed to tenants')
+  }
+
+  const { expense, shares, unallocatedCents } = await previewUtilityBill(request)
+  const utilityType = request.utilityType || 'Electricity'
+  const dueDate = request.dueDate || addDays(startOfDay(new Date()), DEFAULT_DUE_DAYS)
+
+  const bill = await createUtilityBill({
+    propertyId: request.propertyId,
+    expenseId: expense.id,
+    utilityType,
+    periodStart: startOfDay(request.periodStart),
+    periodEnd: startOfDay(request.periodEnd),
+    splitMethod: request.splitMethod,
+    meterUnit: request.meterUnit,
+    meterReadings: request.splitMethod === UtilitySplitMethod.METER ? request.meterReadings : undefined,
+    amountCents: expense.amountCents,
+    currency: expense.currency,
+    shares,
+    unallocatedCents,
+    dueDate,
+    createdBy: request.createdBy
+  })
+
+  const payments: Payment[] = []
+  for (const tenantId of Array.from(new Set(shares.map(share => share.tenantId)))) {
+    const tenantShares = shares.filter(share => share.tenantId === tenantId && share.amountCents > 0)
+    const amountCents = tenantShares.reduce((sum, share) => sum + share.amountCents, 0)
+    if (amountCents === 0) continue
+
+    const existingPayments = await getPaymentsByTenant(tenantId)
+    const breakdown = tenantShares
+      .map(share => `${share.justification} = ${formatCents(share.amountCents, bill.currency)}`)
+      .join('; ')
+
+    payments.push(await createPayment({
+      tenantId,
+      propertyId: bill.propertyId,
+      amountCents,
+      currency: bill.currency,
+      paymentMethod: getPreferredPaymentMethod(existingPayments),
+      status: PaymentStatus.PENDING,
+      dueDate,
+      description: `${utilityType} ${formatPeriod(bill)} - ${breakdown} of ${formatCents(bill.amountCents, bill.currency)} bill`,
+      utilityBillId: bill.id,
+      notes: `Utility bill ${bill.id} for expense ${expense.id}`
+    }))
+
+    // Carry forward any overpayment credit onto the new charge
+    await applyTenantCredits(tenantId)
+  }
+
+  const updated = await updateUtilityBill(bill.id, { paymentIds: payments.map(payment => payment.id) })
+  return { bill: updated || bill, payments }
+}
+
+function splitByMeter(
+  expense: Expense,
+  rooms: Room[],
+  stays: RoomStay[],
+  readings: MeterReading[],
+  unit: string,
+  periodDays: number
+): TenantAllocation[] {
+  if (readings.length === 0) {
+    throw new Error('Meter readings are required for a meter split')
+  }
+
+  const usages: TenantUsage[] = []
+  let totalUsage = 0
+
+  for (const reading of readings) {
+    const room = rooms.find(r => r.id === reading.roomId)
+    if (!room) {
+      throw new Error(`Room ${reading.roomId} is not in this property`)
+    }
+
+    const roomUsage = reading.endReading - reading.startReading
+    totalUsage += roomUsage
+
+    // Shared rooms can have more occupant-days than the period has days
+    const roomStays = stays.filter(stay => stay.room.id === room.id)
+    const occupiedDays = Math.max(periodDays, roomStays.reduce((sum, stay) => sum + stay.days, 0))
+
+    for (const stay of roomStays) {
+      const usage = roomUsage * (stay.days / occupiedDays)
+      usages.push({
+        tenantId: stay.tenantId,
+        roomId: room.id,
+        usage,
+        justification: `Room ${room.number}: ${formatUsage(usage)} ${unit}` +
+          (stay.days < periodDays ? ` (${stay.days} of ${periodDays} days in room)` : '')
+      })
+    }
+  }
+
+  if (totalUsage === 0) {
+    throw new Error('Meter readings show no usage')
+  }
+
+  return allocateByUsage(expense.amountCents, usages, 'usage-based', totalUsage).map(allocation => ({
+    ...allocation,
+    justification: `${allocation.justification} of ${formatUsage(totalUsage)} ${unit} (${allocation.percentage.toFixed(1)}%)`
+  }))
+}
+
+function splitByOccupancyDays(expense: Expense, stays: RoomStay[], periodDays: number): TenantAllocation[] {
+  if (stays.length === 0) {
+    throw new Error('No tenants occupied the property during the billing period')
+  }
+
+  const usages = stays.map(stay => ({
+    tenantId: stay.tenantId,
+    roomId: stay.room.id,
+    usage: stay.days,
+    justification: `Room ${stay.room.number}: ${stay.days} of ${periodDays} days`
+  }))
+  const totalDays = usages.reduce((sum, usage) => sum + usage.usage, 0)
+
+  return allocateByUsage(expense.amountCents, usages, 'occupancy-days').map(allocation => ({
+    ...allocation,
+    justification: `${allocation.justification} (${allocation.percentage.toFixed(1)}% of ${totalDays} occupied days)`
+  }))
+}
+
+// Occupancy records overlapping the period, with the days each tenant spent in the room
+async function getRoomStays(rooms: Room[], periodStart: Date, periodEnd: Date): Promise<RoomStay[]> {
+  const stays: RoomStay[] = []
+
+  for (const room of rooms) {
+    const records = await getRoomOccupancyHistory(room.id)
+    for (const record of records) {
+      // Dates blocked by outside bookings have no tenant to bill
+      if (!record.tenantId) continue
+
+      const days = daysInPeriod(record, periodStart, periodEnd)
+      if (days > 0) {
+        stays.push({ tenantId: record.tenantId, room, days })
+      }
+    }
+  }
+
+  return stays
+}
+
+// Move-in and move-out days both count as days in the room
+function daysInPeriod(record: OccupancyRecord, periodStart: Date, periodEnd: Date): number {
+  const start = max([startOfDay(record.startDate), periodStart])
+  const end = record.endDate ? min([startOfDay(record.endDate), periodEnd]) : periodEnd
+  return end < start ? 0 : differenceInCalendarDays(end, start) + 1
+}
+
+function formatUsage(usage: number): string {
+  return Number(usage.toFixed(1)).toString()
+}
+
+function formatPeriod(bill: UtilityBill): string {
+  return `${format(bill.periodStart, 'MMM d')} - ${format(bill.periodEnd, 'MMM d, yyyy')}`
+}
@@ -4,6 +4,14 @@ import { getCategoriesForProperty, getCategoryAnalytics } from '../db/operations
 import { getCategory } from '../db/operations/expense-categories'
 import { Expense, ExpenseFilters } from '../db/models/expense'
 import { Category, CategoryAnalytics } from '../db/models/expense-category'
+import {
+  CurrencyConverter,
+  CurrencyTotal,
+  createCurrencyConverter,
+  getReportingCurrency,
+  summarizeByCurrency,
+  UnconvertedAmount
+} from '../currency/conversion'
 
 // Report types and interfaces
 export interface ReportPeriod {
@@ -26,9 +34,17 @@ export interface CategoryTotal {
   color?: string
 }
 
+// Expense with amountCents and currency converted into the report currency
+export type ConvertedExpense = Expense & {
+  originalAmountCents: number
+  originalCurrency: string
+  exchangeRate: number
+}
+
 export interface ExpenseReport {
   period: ReportPeriod
   propertyId: string
+  currency: string // Reporting currency every amount is converted into
   totalAmount: number
   totalExpenses: number
   averageExpense: number
@@ -36,7 +52,9 @@ export interface ExpenseReport {
   trends: TrendData[]
   comparisons: ComparisonData[]
   taxSummary: TaxSummary
-  topExpenses: Expense[]
+  topExpenses: ConvertedExpense[]
+  currencyBreakdown: CurrencyTotal[]
+  unconverted: UnconvertedAmount[] // Left out of the totals, no exchange rate was in effect on their date
   generatedAt: Date
 }
 
@@ -117,9 +135,13 @@ export function generateReportPeriods(type: 'monthly' | 'quarterly' | 'yearly',
 // Generate expense report for a specific period
 export async function generateExpenseReport(
   propertyId: string,
-  period: ReportPeriod
+  period: ReportPeriod,
+  reportingCurrency?: string
 ): Promise<ExpenseReport> {
   try {
+    const currency = reportingCurrency || await getReportingCurrency(propertyId)
+    const converter = createCurrencyConverter(currency)
+
     // Get expenses for the period
     const filters: ExpenseFilters = {
       propertyId,
@@ -127,7 +149,9 @@ export async function generateExpenseReport(
       expenseDateTo: period.end
     }
     
-    const expenses = await getExpenses(filters)
+    const expenses = await getConvertedExpenses(filters, converter)
+    // Trends and comparisons convert other periods with the same converter
+    const unconverted = [...converter.unconverted]
     
     // Calculate basic metrics
     const totalAmount = expenses.reduce((sum, expense) => sum + expense.amountCents, 0)
@@ -138,10 +162,10 @@ export async function generateExpenseReport(
     const categoryBreakdown = await generateCategoryBreakdown(expenses, propertyId)
     
     // Generate trend data
-    const trends = await generateTrendData(propertyId, period)
+    const trends = await generateTrendData(propertyId, period, converter)
     
     // Generate comparison data
-    const comparisons = [await generateComparisonData(propertyId, period)]
+    const comparisons = [await generateComparisonData(propertyId, period, converter)]
     
     // Generate tax summary
     const taxSummary = generateTaxSummary(expenses)
@@ -154,6 +178,7 @@ export async function generateExpenseReport(
     return {
       period,
       propertyId,
+      currency,
       totalAmount,
       totalExpenses,
       averageExpense,
@@ -162,6 +187,12 @@ export async function generateExpenseReport(
       comparisons,
       taxSummary,
       topExpenses,
+      currencyBreakdown: summarizeByCurrency(expenses.map(expense => ({
+        amount: expense.amountCents,
+        originalAmount: expense.originalAmountCents,
+        originalCurrency: expense.originalCurrency
+      }))),
+      unconverted,
       generatedAt: new Date()
     }
   } catch (error) {
@@ -249,7 +280,7 @@ async function generateCategoryBreakdown(expenses: Expense[], propertyId: string
 }
 
 // Generate trend data for multiple periods
-async function generateTrendData(propertyId: string, currentPeriod: ReportPeriod): Promise<TrendData[]> {
+async function generateTrendData(propertyId: string, currentPeriod: ReportPeriod, converter: CurrencyConverter): Promise<TrendData[]> {
   const trends: TrendData[] = []
   
   // Generate periods for trend analysis (last 12 months/quarters/years)
@@ -263,7 +294,7 @@ async function generateTrendData(propertyId: string, currentPeriod: ReportPeriod
       expenseDateTo: period.end
     }
     
-    const expenses = await getExpenses(filters)
+    const expenses = await getConvertedExpenses(filters, converter)
     const totalAmount = expenses.reduce((sum, expense) => sum + expense.amountCents, 0)
     
     // Category breakdown for this period
@@ -295,7 +326,7 @@ async function generateTrendData(propertyId: string, currentPeriod: ReportPeriod
 }
 
 // Generate comparison data with previous period
-async function generateComparisonData(propertyId: string, currentPeriod: ReportPeriod): Promise<ComparisonData> {
+async function generateComparisonData(propertyId: string, currentPeriod: ReportPeriod, converter: CurrencyConverter): Promise<ComparisonData> {
   // Calculate previous period
   let previousStart: Date
   let previousEnd: Date
@@ -324,17 +355,17 @@ async function generateComparisonData(propertyId: string, currentPeriod: ReportP
   }
   
   // Get expenses for both periods
-  const currentExpenses = await getExpenses({
+  const currentExpenses = await getConvertedExpenses({
     propertyId,
     expenseDateFrom: currentPeriod.start,
     expenseDateTo: currentPeriod.end
-  })
+  }, converter)
   
-  const previousExpenses = await getExpenses({
+  const previousExpenses = await getConvertedExpenses({
     propertyId,
     expenseDateFrom: previousStart,
     expenseDateTo: previousEnd
-  })
+  }, converter)
   
   const currentAmount = currentExpenses.reduce((sum, expense) => sum + expense.amountCents, 0)
   const previousAmount = previousExpenses.reduce((sum, expense) => sum + expense.amountCents, 0)
@@ -359,6 +390,28 @@ async function generateComparisonData(propertyId: string, currentPeriod: ReportP
   }
 }
 
+// Fetch expenses with amounts converted at the rate on each expense date
+async function getConvertedExpenses(filters: ExpenseFilters, converter: CurrencyConverter): Promise<ConvertedExpense[]> {
+  return convertExpenses(await getExpenses(filters), converter)
+}
+
+// Convert expense amounts into the converter's reporting currency, keeping the original alongside.
+// Expenses with no rate on their date are left out and listed in the converter's unconverted amounts.
+export async function convertExpenses(expenses: Expense[], converter: CurrencyConverter): Promise<ConvertedExpense[]> {
+  const converted = await Promise.all(expenses.map(async expense => {
+    const conversion = await converter.tryConvert(expense.amountCents, expense.currency, expense.expenseDate, { minorUnits: true })
+    return conversion && {
+      ...expense,
+      amountCents: conversion.amount,
+      currency: conversion.currency,
+      originalAmountCents: conversion.originalAmount,
+      originalCurrency: conversion.originalCurrency,
+      exchangeRate: conversion.rate
+    }
+  }))
+  return converted.filter((expense): expense is ConvertedExpense => expense !== null)
+}
+
 // Generate tax summary
 function generateTaxSummary(expenses: Expense[]): TaxSummary {
   let totalDeductible = 0
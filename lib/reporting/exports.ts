@@ -1,6 +1,7 @@
 import { generateFinancialReport, generateProfitLossStatement, generateCashFlowAnalysis } from './financial';
 import { generateTaxSummary } from './tax';
 import { format as formatDate } from 'date-fns';
+import { CurrencyTotal } from '@/lib/currency/conversion';
 
 export interface ExportResult {
   fileName: string;
@@ -167,6 +168,7 @@ function generateFinancialCSV(data: any): string {
   const rows = [
     ['Financial Report Summary'],
     ['Period', `${formatDate(new Date(data.period.start), 'yyyy-MM-dd')} to ${formatDate(new Date(data.period.end), 'yyyy-MM-dd')}`],
+    ['Reporting Currency', data.currency],
     [''],
     ['Income Summary'],
     ['Total Revenue', data.income.totalRevenue],
@@ -199,6 +201,12 @@ function generateFinancialCSV(data: any): string {
       category.percentage,
     ]),
     [''],
+    ['Income by Original Currency'],
+    ...generateCurrencyBreakdownRows(data.income.currencyBreakdown),
+    [''],
+    ['Expenses by Original Currency'],
+    ...generateCurrencyBreakdownRows(data.expenses.currencyBreakdown),
+    [''],
     ['Monthly Cash Flow'],
     ['Month', 'Income', 'Expenses', 'Net Flow', 'Cumulative'],
     ...data.cashFlow.map((flow: any) => [
@@ -219,6 +227,7 @@ function generateProfitLossCSV(data: any): string {
   const rows = [
     ['Profit & Loss Statement'],
     ['Period', `${formatDate(new Date(data.period.start), 'yyyy-MM-dd')} to ${formatDate(new Date(data.period.end), 'yyyy-MM-dd')}`],
+    ['Reporting Currency', data.currency],
     [''],
     ['Revenue'],
     ['Rent Income', data.revenue.rentIncome],
@@ -245,6 +254,12 @@ function generateProfitLossCSV(data: any): string {
     ['Gross Margin (%)', data.margins.gross],
     ['Operating Margin (%)', data.margins.operating],
     ['Net Margin (%)', data.margins.net],
+    [''],
+    ['Income by Original Currency'],
+    ...generateCurrencyBreakdownRows(data.currencyBreakdown.income),
+    [''],
+    ['Expenses by Original Currency'],
+    ...generateCurrencyBreakdownRows(data.currencyBreakdown.expenses),
   ];
   
   return rows
@@ -256,6 +271,7 @@ function generateCashFlowCSV(data: any): string {
   const rows = [
     ['Cash Flow Analysis'],
     ['Period', `${formatDate(new Date(data.period.start), 'yyyy-MM-dd')} to ${formatDate(new Date(data.period.end), 'yyyy-MM-dd')}`],
+    ['Reporting Currency', data.currency],
     [''],
     ['Summary'],
     ['Total Inflow', data.summary.totalInflow],
@@ -303,6 +319,7 @@ function generateTaxSummaryCSV(data: any): string {
   const rows = [
     ['Tax Summary'],
     ['Tax Year', data.taxYear],
+    ['Reporting Currency', data.currency],
     [''],
     ['Income Summary'],
     ['Total Rental Income', data.income.totalRentalIncome],
@@ -340,6 +357,18 @@ function generateTaxSummaryCSV(data: any): string {
     .join('\n');
 }
 
+function generateCurrencyBreakdownRows(breakdown: CurrencyTotal[] = []): (string | number)[][] {
+  return [
+    ['Original Currency', 'Original Amount', 'Converted Amount', 'Count'],
+    ...breakdown.map(total => [
+      total.currency,
+      total.originalAmount,
+      total.convertedAmount,
+      total.count,
+    ]),
+  ];
+}
+
 function generateReportHTML(data: any, reportType: string): string {
   // Basic HTML template for PDF generation
   return `
@@ -363,6 +392,7 @@ function generateReportHTML(data: any, reportType: string): string {
       <div class="summary">
         <p><strong>Generated:</strong> ${new Date().toLocaleDateString()}</p>
         <p><strong>Report Type:</strong> ${reportType}</p>
+        <p><strong>Reporting Currency:</strong> ${data.currency}</p>
       </div>
       <p>Detailed report data would be formatted here in a real implementation.</p>
       <p>This is a placeholder HTML export. In production, this would contain:</p>
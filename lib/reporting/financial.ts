@@ -1,5 +1,13 @@
 import { kv } from '@vercel/kv';
 import { startOfMonth, endOfMonth, startOfQuarter, endOfQuarter, startOfYear, endOfYear, format, parseISO, differenceInDays } from 'date-fns';
+import {
+  convertRecordAmounts,
+  createCurrencyConverter,
+  CurrencyTotal,
+  getReportingCurrency,
+  summarizeByCurrency,
+  UnconvertedAmount,
+} from '@/lib/currency/conversion';
 
 export interface FinancialReport {
   period: {
@@ -7,21 +15,25 @@ export interface FinancialReport {
     end: Date;
     type: 'monthly' | 'quarterly' | 'yearly';
   };
+  currency: string; // Reporting currency every amount is converted into
   income: {
     totalRevenue: number;
     rentRevenue: number;
     otherRevenue: number;
     paymentMethodBreakdown: PaymentMethodTotal[];
+    currencyBreakdown: CurrencyTotal[];
   };
   expenses: {
     totalExpenses: number;
     categoryBreakdown: ExpenseCategoryTotal[];
     reimbursements: number;
     operatingExpenses: number;
+    currencyBreakdown: CurrencyTotal[];
   };
   netIncome: number;
   profitMargin: number;
   cashFlow: CashFlowData[];
+  unconverted: UnconvertedAmount[]; // Left out of the totals, no exchange rate was in effect on their date
   comparison?: {
     previousPeriod: FinancialReport;
     growth: {
@@ -60,6 +72,11 @@ export interface ProfitLossStatement {
     start: Date;
     end: Date;
   };
+  currency: string;
+  currencyBreakdown: {
+    income: CurrencyTotal[];
+    expenses: CurrencyTotal[];
+  };
   revenue: {
     rentIncome: number;
     otherIncome: number;
@@ -85,6 +102,7 @@ export interface ProfitLossStatement {
     expenses: number;
     netIncome: number;
   }>;
+  unconverted: UnconvertedAmount[]; // Left out of the totals, no exchange rate was in effect on their date
 }
 
 export interface CashFlowAnalysis {
@@ -92,6 +110,7 @@ export interface CashFlowAnalysis {
     start: Date;
     end: Date;
   };
+  currency: string;
   summary: {
     totalInflow: number;
     totalOutflow: number;
@@ -99,6 +118,7 @@ export interface CashFlowAnalysis {
     averageMonthlyFlow: number;
   };
   monthlyData: CashFlowData[];
+  unconverted: UnconvertedAmount[]; // Left out of the totals, no exchange rate was in effect on their date
   trends: {
     inflowTrend: 'increasing' | 'decreasing' | 'stable';
     outflowTrend: 'increasing' | 'decreasing' | 'stable';
@@ -114,17 +134,16 @@ export async function generateFinancialReport(params: {
   endDate: string;
   reportType: 'monthly' | 'quarterly' | 'yearly';
   includeComparison: boolean;
+  reportingCurrency?: string;
 }): Promise<FinancialReport> {
   const { userId, propertyId, startDate, endDate, reportType, includeComparison } = params;
   
   const start = parseISO(startDate);
   const end = parseISO(endDate);
+  const currency = params.reportingCurrency || await getReportingCurrency(propertyId);
 
-  // Fetch payments and expenses data
-  const [payments, expenses] = await Promise.all([
-    fetchPaymentsData(userId, propertyId, start, end),
-    fetchExpensesData(userId, propertyId, start, end),
-  ]);
+  // Fetch payments and expenses data, converted into the reporting currency
+  const [payments, expenses, unconverted] = await fetchConvertedData(userId, propertyId, start, end, currency);
 
   // Calculate income metrics
   const income = calculateIncomeMetrics(payments);
@@ -144,6 +163,7 @@ export async function generateFinancialReport(params: {
     const previousPeriod = getPreviousPeriod(start, end, reportType);
     const previousReport = await generateFinancialReport({
       ...params,
+      reportingCurrency: currency,
       startDate: previousPeriod.start.toISOString(),
       endDate: previousPeriod.end.toISOString(),
       includeComparison: false,
@@ -165,11 +185,13 @@ export async function generateFinancialReport(params: {
       end,
       type: reportType,
     },
+    currency,
     income,
     expenses: expenseMetrics,
     netIncome,
     profitMargin,
     cashFlow,
+    unconverted,
     comparison,
   };
 }
@@ -181,16 +203,15 @@ export async function generateProfitLossStatement(params: {
   endDate: string;
   includeDetails: boolean;
   groupBy: 'month' | 'quarter' | 'year';
+  reportingCurrency?: string;
 }): Promise<ProfitLossStatement> {
   const { userId, propertyId, startDate, endDate, includeDetails, groupBy } = params;
   
   const start = parseISO(startDate);
   const end = parseISO(endDate);
+  const currency = params.reportingCurrency || await getReportingCurrency(propertyId);
 
-  const [payments, expenses] = await Promise.all([
-    fetchPaymentsData(userId, propertyId, start, end),
-    fetchExpensesData(userId, propertyId, start, end),
-  ]);
+  const [payments, expenses, unconverted] = await fetchConvertedData(userId, propertyId, start, end, currency);
 
   const revenue = {
     rentIncome: payments.filter(p => p.type === 'rent').reduce((sum, p) => sum + p.amount, 0),
@@ -217,6 +238,11 @@ export async function generateProfitLossStatement(params: {
 
   return {
     period: { start, end },
+    currency,
+    currencyBreakdown: {
+      income: summarizeByCurrency(payments),
+      expenses: summarizeByCurrency(expenses),
+    },
     revenue,
     expenses: {
       operatingExpenses,
@@ -229,6 +255,7 @@ export async function generateProfitLossStatement(params: {
     netIncome,
     margins,
     breakdown,
+    unconverted,
   };
 }
 
@@ -239,16 +266,15 @@ export async function generateCashFlowAnalysis(params: {
   endDate: string;
   granularity: 'daily' | 'weekly' | 'monthly';
   includeForecast: boolean;
+  reportingCurrency?: string;
 }): Promise<CashFlowAnalysis> {
   const { userId, propertyId, startDate, endDate, granularity, includeForecast } = params;
   
   const start = parseISO(startDate);
   const end = parseISO(endDate);
+  const currency = params.reportingCurrency || await getReportingCurrency(propertyId);
 
-  const [payments, expenses] = await Promise.all([
-    fetchPaymentsData(userId, propertyId, start, end),
-    fetchExpensesData(userId, propertyId, start, end),
-  ]);
+  const [payments, expenses, unconverted] = await fetchConvertedData(userId, propertyId, start, end, currency);
 
   const monthlyData = generateCashFlowData(payments, expenses, start, end);
   
@@ -268,8 +294,10 @@ export async function generateCashFlowAnalysis(params: {
 
   return {
     period: { start, end },
+    currency,
     summary,
     monthlyData,
+    unconverted,
     trends,
     forecast,
   };
@@ -296,6 +324,21 @@ async function fetchExpensesData(userId: string, propertyId: string | undefined,
   });
 }
 
+// Amounts are converted at the rate in effect on each record's date
+async function fetchConvertedData(userId: string, propertyId: string | undefined, start: Date, end: Date, currency: string) {
+  const [payments, expenses] = await Promise.all([
+    fetchPaymentsData(userId, propertyId, start, end),
+    fetchExpensesData(userId, propertyId, start, end),
+  ]);
+
+  const converter = createCurrencyConverter(currency);
+  const converted = await Promise.all([
+    convertRecordAmounts(payments, converter),
+    convertRecordAmounts(expenses, converter),
+  ]);
+  return [...converted, converter.unconverted] as const;
+}
+
 function calculateIncomeMetrics(payments: any[]): FinancialReport['income'] {
   const totalRevenue = payments.reduce((sum, p) => sum + p.amount, 0);
   const rentRevenue = payments.filter(p => p.type === 'rent').reduce((sum, p) => sum + p.amount, 0);
@@ -308,6 +351,7 @@ function calculateIncomeMetrics(payments: any[]): FinancialReport['income'] {
     rentRevenue,
     otherRevenue,
     paymentMethodBreakdown,
+    currencyBreakdown: summarizeByCurrency(payments),
   };
 }
 
@@ -323,6 +367,7 @@ function calculateExpenseMetrics(expenses: any[]): FinancialReport['expenses'] {
     categoryBreakdown,
     reimbursements,
     operatingExpenses,
+    currencyBreakdown: summarizeByCurrency(expenses),
   };
 }
 
@@ -1,5 +1,6 @@
 import { kv } from '@vercel/kv';
 import { startOfYear, endOfYear, format, parseISO } from 'date-fns';
+import { convertRecordAmounts, createCurrencyConverter, getReportingCurrency, UnconvertedAmount } from '@/lib/currency/conversion';
 
 export interface TaxSummary {
   taxYear: number;
@@ -7,6 +8,7 @@ export interface TaxSummary {
     start: Date;
     end: Date;
   };
+  currency: string; // Reporting currency every amount is converted into
   income: {
     totalRentalIncome: number;
     otherIncome: number;
@@ -19,6 +21,7 @@ export interface TaxSummary {
   };
   netRentalIncome: number;
   taxableIncome: number;
+  unconverted: UnconvertedAmount[]; // Left out of the totals, no exchange rate was in effect on their date
   receipts: ReceiptSummary[];
   recommendations: TaxRecommendation[];
   irsCategories: IRSCategoryMapping[];
@@ -38,6 +41,8 @@ export interface ReceiptSummary {
   expenseId: string;
   date: Date;
   amount: number;
+  originalAmount: number;
+  originalCurrency: string;
   category: string;
   description: string;
   receiptUrl?: string;
@@ -111,16 +116,19 @@ export async function generateTaxSummary(params: {
   taxYear: number;
   includeReceipts: boolean;
   format: 'summary' | 'detailed' | 'irs-ready';
+  reportingCurrency?: string;
 }): Promise<TaxSummary> {
   const { userId, propertyId, taxYear, includeReceipts, format } = params;
   
   const start = startOfYear(new Date(taxYear, 0, 1));
   const end = endOfYear(new Date(taxYear, 11, 31));
 
-  // Fetch financial data for the tax year
+  // Fetch financial data for the tax year, converted into the reporting currency
+  const currency = params.reportingCurrency || await getReportingCurrency(propertyId);
+  const converter = createCurrencyConverter(currency);
   const [payments, expenses] = await Promise.all([
-    fetchTaxYearPayments(userId, propertyId, start, end),
-    fetchTaxYearExpenses(userId, propertyId, start, end),
+    fetchTaxYearPayments(userId, propertyId, start, end).then(records => convertRecordAmounts(records, converter)),
+    fetchTaxYearExpenses(userId, propertyId, start, end).then(records => convertRecordAmounts(records, converter)),
   ]);
 
   // Calculate income
@@ -150,6 +158,7 @@ export async function generateTaxSummary(params: {
   return {
     taxYear,
     period: { start, end },
+    currency,
     income,
     deductions: {
       operatingExpenses,
@@ -158,6 +167,7 @@ export async function generateTaxSummary(params: {
     },
     netRentalIncome,
     taxableIncome,
+    unconverted: converter.unconverted,
     receipts,
     recommendations,
     irsCategories: IRS_CATEGORY_MAPPINGS,
@@ -280,6 +290,8 @@ async function generateReceiptsSummary(expenses: any[]): Promise<ReceiptSummary[
       expenseId: expense.id,
       date: new Date(expense.date),
       amount: expense.amount,
+      originalAmount: expense.originalAmount,
+      originalCurrency: expense.originalCurrency,
       category: expense.category,
       description: expense.description,
       receiptUrl: expense.receiptUrl,
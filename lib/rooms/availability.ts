@@ -0,0 +1,295 @@
+import { addDays, addMonths, format, startOfDay, subDays } from 'date-fns'
+import { Agreement, AgreementStatus } from '@/lib/db/models/agreement'
+import { Room, RoomType } from '@/lib/db/models/room'
+import { Tenant } from '@/lib/db/models/tenant'
+import { getPropertyAgreements } from '@/lib/db/operations/agreements'
+import { getActiveProperties } from '@/lib/db/operations/properties'
+import { getPropertyRooms, getRoomOccupancyHistory } from '@/lib/db/operations/rooms'
+import { getPropertyTenants } from '@/lib/db/operations/tenants'
+import { getReservations } from '@/lib/db/operations/reservations'
+import { getShortStays } from '@/lib/db/operations/short-stays'
+
+export interface AvailabilitySearch {
+  from: Date
+  to?: Date // Last night needed; defaults to `months` after `from`
+  months?: number
+  propertyIds?: string[]
+  roomTypes?: RoomType[]
+  minRent?: number
+  maxRent?: number
+  features?: string[] // Rooms must have every one of these
+}
+
+export interface AvailableRoom {
+  room: Room
+  propertyId: string
+  availableFrom?: Date // Day after the previous stay ends, unset if the room has never been let
+  availableUntil?: Date // Last free day before the next booked stay, unset if nothing is booked
+}
+
+// Why a room is, or will be, unoccupied
+export type VacancyReason = 'vacant' | 'lease-end' | 'move-out'
+
+export interface UpcomingVacancy {
+  room: Room
+  vacantFrom: Date
+  vacantUntil?: Date // Last free day before the next booked stay
+  daysUntilVacant: number
+  reason: VacancyReason
+}
+
+export interface VacancyForecast {
+  propertyId: string
+  from: Date
+  to: Date
+  totalRooms: number
+  days: { date: string; vacantRooms: number; occupancyRate: number }[]
+  averageOccupancyRate: number
+  upcomingVacancies: UpcomingVacancy[]
+}
+
+// A stay that takes a room over a span of days, both ends inclusive
+interface RoomStay {
+  roomId: string
+  start: Date
+  end?: Date // Open-ended when unset
+  endReason: Exclude<VacancyReason, 'vacant'>
+}
+
+// Months searched when only a start date is given
+const DEFAULT_SEARCH_MONTHS = 1
+
+export const VACANCY_FORECAST_DAYS = 90
+
+/**
+ * Rooms across properties that are free for every night of a date range,
+ * going by occupancy records, tenants' room assignments and leases,
+ * agreements that are signed but whose tenant hasn't moved in yet, short
+ * stays, and rooms held for prospects.
+ */
+export async function searchAvailableRooms(search: AvailabilitySearch): Promise<AvailableRoom[]> {
+  const from = startOfDay(search.from)
+  const to = startOfDay(search.to ?? subDays(addMonths(from, search.months ?? DEFAULT_SEARCH_MONTHS), 1))
+  if (to < from) {
+    throw new Error('Search end date must not be before the start date')
+  }
+
+  const propertyIds = search.propertyIds?.length
+    ? search.propertyIds
+    : (await getActiveProperties()).map(property => property.id)
+
+  const results: AvailableRoom[] = []
+  for (const propertyId of propertyIds) {
+    const rooms = (await getPropertyRooms(propertyId)).filter(room => matchesFilters(room, search))
+    if (rooms.length === 0) continue
+
+    const stays = await getRoomStays(propertyId, rooms)
+    for (const room of rooms) {
+      const roomStays = stays.filter(stay => stay.roomId === room.id)
+      if (roomStays.some(stay => overlaps(stay, from, to))) continue
+
+      const previous = roomStays.filter(stay => stay.end && stay.end < from)
+        .sort((a, b) => b.end!.getTime() - a.end!.getTime())[0]
+      const next = roomStays.filter(stay => stay.start > to)
+        .sort((a, b) => a.start.getTime() - b.start.getTime())[0]
+
+      results.push({
+        room,
+        propertyId,
+        availableFrom: previous ? addDays(previous.end!, 1) : undefined,
+        availableUntil: next ? subDays(next.start, 1) : undefined
+      })
+    }
+  }
+
+  return results.sort((a, b) => a.room.monthlyRent - b.room.monthlyRent)
+}
+
+// Whether nothing occupies, books or holds the room on any day of the range
+export async function isRoomAvailable(room: Room, from: Date, to: Date = from): Promise<boolean> {
+  const stays = await getRoomStays(room.propertyId, [room])
+  return !stays.some(stay => overlaps(stay, startOfDay(from), startOfDay(to)))
+}
+
+/**
+ * Day-by-day vacancy for a property over the coming 90 days, with the rooms
+ * that are empty or about to empty so they can be marketed ahead of time.
+ */
+export async function getVacancyForecast(
+  propertyId: string,
+  options: { from?: Date; days?: number } = {}
+): Promise<VacancyForecast> {
+  const from = startOfDay(options.from ?? new Date())
+  const dayCount = options.days ?? VACANCY_FORECAST_DAYS
+  const to = addDays(from, dayCount - 1)
+
+  const rooms = await getPropertyRooms(propertyId)
+  const stays = await getRoomStays(propertyId, rooms)
+  const isOccupied = (roomId: string, day: Date) =>
+    stays.some(stay => stay.roomId === roomId && overlaps(stay, day, day))
+
+  const days: VacancyForecast['days'] = []
+  for (let offset = 0; offset < dayCount; offset++) {
+    const day = addDays(from, offset)
+    const vacantRooms = rooms.filter(room => !isOccupied(room.id, day)).length
+    days.push({
+      date: format(day, 'yyyy-MM-dd'),
+      vacantRooms,
+      occupancyRate: rooms.length > 0 ? (rooms.length - vacantRooms) / rooms.length : 0
+    })
+  }
+
+  const upcomingVacancies: UpcomingVacancy[] = []
+  for (const room of rooms) {
+    const roomStays = stays.filter(stay => stay.roomId === room.id)
+      .sort((a, b) => a.start.getTime() - b.start.getTime())
+
+    // The first day in the window the room stands empty
+    const offset = days.findIndex((_, index) => !isOccupied(room.id, addDays(from, index)))
+    if (offset === -1) continue
+
+    const vacantFrom = addDays(from, offset)
+    const endingStay = offset > 0
+      ? roomStays.find(stay => stay.end && addDays(stay.end, 1).getTime() === vacantFrom.getTime())
+      : undefined
+    const nextStay = roomStays.find(stay => stay.start > vacantFrom)
+
+    upcomingVacancies.push({
+      room,
+      vacantFrom,
+      vacantUntil: nextStay ? subDays(nextStay.start, 1) : undefined,
+      daysUntilVacant: offset,
+      reason: endingStay?.endReason ?? 'vacant'
+    })
+  }
+
+  return {
+    propertyId,
+    from,
+    to,
+    totalRooms: rooms.length,
+    days,
+    averageOccupancyRate: days.length > 0
+      ? days.reduce((sum, day) => sum + day.occupancyRate, 0) / days.length
+      : 0,
+    upcomingVacancies: upcomingVacancies.sort((a, b) => a.vacantFrom.getTime() - b.vacantFrom.getTime())
+  }
+}
+
+function matchesFilters(room: Room, search: AvailabilitySearch): boolean {
+  if (search.roomTypes?.length && !search.roomTypes.includes(room.type)) return false
+  if (search.minRent !== undefined && room.monthlyRent < search.minRent) return false
+  if (search.maxRent !== undefined && room.monthlyRent > search.maxRent) return false
+
+  if (search.features?.length) {
+    const roomFeatures = (room.features || []).map(feature => feature.toLowerCase())
+    if (!search.features.every(feature => roomFeatures.includes(feature.toLowerCase()))) return false
+  }
+
+  return true
+}
+
+function overlaps(stay: RoomStay, from: Date, to: Date): boolean {
+  return stay.start <= to && (!stay.end || stay.end >= from)
+}
+
+// Every known stay in the property's rooms, past, current and booked
+async function getRoomStays(propertyId: string, rooms: Room[]): Promise<RoomStay[]> {
+  const stays: RoomStay[] = []
+  const occupancyEnds = new Map<string, Date>()
+
+  for (const room of rooms) {
+    for (const record of await getRoomOccupancyHistory(room.id)) {
+      if (record.tenantId && record.endDate) {
+        const latestEnd = occupancyEnds.get(record.tenantId)
+        if (!latestEnd || record.endDate > latestEnd) occupancyEnds.set(record.tenantId, record.endDate)
+      }
+      stays.push({
+        roomId: room.id,
+        start: startOfDay(record.startDate),
+        end: record.endDate ? startOfDay(record.endDate) : undefined,
+        endReason: 'lease-end'
+      })
+    }
+  }
+
+  const tenants = await getPropertyTenants(propertyId)
+  for (const tenant of tenants) {
+    const stay = getAssignmentStay(tenant)
+    if (stay) stays.push(stay)
+  }
+
+  // Signed agreements hold their room until the tenant moves in and gets an assignment
+  const agreements = await getPropertyAgreements(propertyId)
+  for (const agreement of agreements) {
+    const tenant = tenants.find(t => t.id === agreement.tenantId)
+    const stay = getAgreementStay(agreement, rooms, tenant, agreement.tenantId ? occupancyEnds.get(agreement.tenantId) : undefined)
+    if (stay) stays.push(stay)
+  }
+
+  // Holds keep the room for the prospect's intended stay until they lapse or are released
+  const reservations = await getReservations({ propertyId, holdingOnly: true })
+  for (const reservation of reservations) {
+    if (!rooms.some(room => room.id === reservation.roomId)) continue
+    stays.push({
+      roomId: reservation.roomId,
+      start: startOfDay(reservation.startDate),
+      end: reservation.endDate ? startOfDay(reservation.endDate) : undefined,
+      endReason: 'lease-end'
+    })
+  }
+
+  // Short stays take the room for their nights, the check-out day is free for the next arrival
+  for (const shortStay of await getShortStays({ propertyId })) {
+    if (!rooms.some(room => room.id === shortStay.roomId)) continue
+    stays.push({
+      roomId: shortStay.roomId,
+      start: startOfDay(shortStay.checkInAt),
+      end: subDays(startOfDay(shortStay.checkOutAt), 1),
+      endReason: 'move-out'
+    })
+  }
+
+  return stays
+}
+
+function getAssignmentStay(tenant: Tenant): RoomStay | null {
+  const assignment = tenant.roomAssignment
+  if (!assignment || tenant.status === 'Moved Out') return null
+  if (!assignment.isActive && !assignment.moveOutDate) return null
+
+  return {
+    roomId: assignment.roomId,
+    start: startOfDay(assignment.moveInDate),
+    // A tenant stays until they move out, or failing that until their lease ends
+    end: startOfDay(assignment.moveOutDate ?? assignment.leaseEndDate),
+    endReason: assignment.moveOutDate ? 'move-out' : 'lease-end'
+  }
+}
+
+function getAgreementStay(
+  agreement: Agreement,
+  rooms: Room[],
+  tenant: Tenant | undefined,
+  occupancyEnd: Date | undefined
+): RoomStay | null {
+  const signed = agreement.status === AgreementStatus.SIGNED || agreement.status === AgreementStatus.COMPLETED
+  if (!signed || !agreement.roomNumber) return null
+  if (tenant?.roomAssignment?.isActive) return null
+
+  // A tenant who has left frees the room then, even before the lease ends
+  const movedOut = tenant?.roomAssignment?.moveOutDate ?? occupancyEnd
+  if (!movedOut && tenant?.status === 'Moved Out') return null
+
+  const room = rooms.find(r => r.number === agreement.roomNumber)
+  const start = agreement.leaseStartDate ?? agreement.signedDate
+  if (!room || !start) return null
+
+  const end = movedOut ?? agreement.leaseEndDate
+  return {
+    roomId: room.id,
+    start: startOfDay(start),
+    end: end ? startOfDay(end) : undefined,
+    endReason: movedOut ? 'move-out' : 'lease-end'
+  }
+}
@@ -0,0 +1,356 @@
+import crypto from 'crypto'
+import { addDays, format, max, startOfDay, subDays } from 'date-fns'
+import { OccupancyRecord, OccupancyStatus } from '@/lib/db/models/room'
+import { getReservations } from '@/lib/db/operations/reservations'
+import { createOccupancyRecord, getRoom, getRoomOccupancyHistory, updateOccupancyRecord } from '@/lib/db/operations/rooms'
+import { getShortStays } from '@/lib/db/operations/short-stays'
+
+// A VEVENT read from an imported calendar, both ends inclusive as nights in the room
+export interface ICalEvent {
+  uid: string
+  summary?: string
+  start: Date
+  end: Date
+}
+
+export interface CalendarImportRequest {
+  calendar: string // Name the blocks are filed under, e.g. the booking site
+  ics: string
+}
+
+// An imported block overlapping a tenant's stay
+export interface CalendarConflict {
+  blockId: string
+  externalUid: string
+  summary?: string
+  start: Date
+  end: Date
+  tenantId: string
+  conflictStart: Date
+  conflictEnd: Date
+}
+
+export interface CalendarImportResult {
+  created: number
+  updated: number
+  removed: number
+  skipped: number
+  conflicts: CalendarConflict[]
+}
+
+// Open-ended stays are exported this far ahead, so booking sites see the room as taken
+export const FEED_HORIZON_DAYS = 365
+
+// Suffix of UIDs in our own feeds, events carrying it are never imported back
+const UID_DOMAIN = 'coliving-management'
+
+const PRODID = '-//Coliving Management//Room Calendar//EN'
+
+// Feeds signed with the development fallback could be read by anyone, so in
+// production there is no secret until one is configured
+function getCalendarFeedSecret(): string | null {
+  const secret = process.env.CALENDAR_FEED_SECRET
+  if (!secret) {
+    return process.env.NODE_ENV === 'production' ? null : 'default-secret-change-in-production'
+  }
+  return secret
+}
+
+export function getCalendarFeedToken(roomId: string): string {
+  const secret = getCalendarFeedSecret()
+  if (!secret) {
+    throw new Error('CALENDAR_FEED_SECRET must be set to share room calendars')
+  }
+  return crypto.createHmac('sha256', secret).update(`room-calendar:${roomId}`).digest('hex')
+}
+
+export function verifyCalendarFeedToken(roomId: string, token: string): boolean {
+  if (!getCalendarFeedSecret()) {
+    return false
+  }
+  const expected = Buffer.from(getCalendarFeedToken(roomId))
+  const given = Buffer.from(token)
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected)
+}
+
+// Address booking sites subscribe to, the token stands in for a login
+export function getCalendarFeedUrl(roomId: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+  return `${baseUrl}/api/rooms/${roomId}/calendar?token=${getCalendarFeedToken(roomId)}`
+}
+
+/**
+ * An RFC 5545 feed of the nights a room is taken: tenancies, short stays,
+ * holds and blocks imported from other calendars. Events are all-day and
+ * carry no tenant details, since the feed is shared with booking sites.
+ */
+export async function buildRoomCalendar(roomId: string, now: Date = new Date()): Promise<string> {
+  const room = await getRoom(roomId)
+  if (!room) {
+    throw new Error('Room not found')
+  }
+
+  const horizon = addDays(startOfDay(now), FEED_HORIZON_DAYS)
+  const events: { uid: string; summary: string; start: Date; end: Date }[] = []
+
+  for (const record of await getRoomOccupancyHistory(roomId)) {
+    events.push({
+      uid: `occupancy-${record.id}`,
+      summary: record.kind === 'Block' ? 'Blocked' : 'Occupied',
+      start: startOfDay(record.startDate),
+      end: record.endDate ? startOfDay(record.endDate) : horizon
+    })
+  }
+
+  for (const stay of await getShortStays({ roomId })) {
+    events.push({
+      uid: `stay-${stay.id}`,
+      summary: 'Occupied',
+      start: startOfDay(stay.checkInAt),
+      end: subDays(startOfDay(stay.checkOutAt), 1)
+    })
+  }
+
+  for (const reservation of await getReservations({ roomId, holdingOnly: true })) {
+    events.push({
+      uid: `hold-${reservation.id}`,
+      summary: 'On hold',
+      start: startOfDay(reservation.startDate),
+      end: reservation.endDate ? startOfDay(reservation.endDate) : horizon
+    })
+  }
+
+  const stamp = formatDateTime(now)
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`Room ${room.number}`)}`
+  ]
+
+  for (const event of events.sort((a, b) => a.start.getTime() - b.start.getTime())) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${format(event.start, 'yyyyMMdd')}`,
+      // DTEND is exclusive, the day after the last night
+      `DTEND;VALUE=DATE:${format(addDays(max([event.end, event.start]), 1), 'yyyyMMdd')}`,
+      `SUMMARY:${escapeText(`${event.summary}: room ${room.number}`)}`,
+      'TRANSP:OPAQUE',
+      'END:VEVENT'
+    )
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+// Events in an iCalendar file, leaving out cancelled ones
+export function parseICalendar(ics: string): ICalEvent[] {
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('Not an iCalendar file')
+  }
+
+  const events: ICalEvent[] = []
+  let properties: Map<string, { params: string; value: string }> | null = null
+
+  for (const line of lines) {
+    const upper = line.trim().toUpperCase()
+    if (upper === 'BEGIN:VEVENT') {
+      properties = new Map()
+      continue
+    }
+    if (upper === 'END:VEVENT') {
+      const event = properties && toEvent(properties)
+      if (event) events.push(event)
+      properties = null
+      continue
+    }
+    if (!properties) continue
+
+    const match = line.match(/^([A-Za-z-]+)((?:;[^:]*)?):(.*)$/)
+    if (match) {
+      properties.set(match[1].toUpperCase(), { params: match[2], value: match[3] })
+    }
+  }
+
+  return events
+}
+
+/**
+ * Turn an external calendar's bookings into blocked periods on the room.
+ * Each import replaces the blocks last taken from the same calendar, so
+ * bookings cancelled there disappear here, and blocks that overlap a
+ * tenant's stay are reported as conflicts for the manager to sort out.
+ */
+export async function importRoomCalendar(
+  roomId: string,
+  request: CalendarImportRequest,
+  now: Date = new Date()
+): Promise<CalendarImportResult> {
+  const room = await getRoom(roomId)
+  if (!room) {
+    throw new Error('Room not found')
+  }
+
+  const calendar = request.calendar.trim()
+  if (!calendar) {
+    throw new Error('Calendar name is required')
+  }
+
+  const today = startOfDay(now)
+  const events = parseICalendar(request.ics)
+  const history = await getRoomOccupancyHistory(roomId)
+  const existingBlocks = new Map(
+    history
+      .filter(record => record.kind === 'Block' && record.externalCalendar === calendar && record.externalUid)
+      .map(record => [record.externalUid!, record])
+  )
+
+  const result: CalendarImportResult = { created: 0, updated: 0, removed: 0, skipped: 0, conflicts: [] }
+  const blocks: OccupancyRecord[] = []
+  const seenUids = new Set<string>()
+
+  for (const event of events) {
+    // Our own feed echoed back by the other site, or bookings already over
+    if (event.uid.endsWith(`@${UID_DOMAIN}`) || event.end < today || seenUids.has(event.uid)) {
+      result.skipped++
+      continue
+    }
+    seenUids.add(event.uid)
+
+    const status = getBlockStatus(event, today)
+    const existing = existingBlocks.get(event.uid)
+    if (existing) {
+      const changed = existing.startDate.getTime() !== event.start.getTime() ||
+        existing.endDate?.getTime() !== event.end.getTime() ||
+        existing.summary !== event.summary ||
+        existing.status !== status
+      blocks.push(changed
+        ? (await updateOccupancyRecord({ id: existing.id, startDate: event.start, endDate: event.end, summary: event.summary, status }))!
+        : existing)
+      if (changed) result.updated++
+    } else {
+      blocks.push(await createOccupancyRecord({
+        roomId,
+        kind: 'Block',
+        startDate: event.start,
+        endDate: event.end,
+        status,
+        externalCalendar: calendar,
+        externalUid: event.uid,
+        summary: event.summary
+      }))
+      result.created++
+    }
+  }
+
+  // Bookings gone from the calendar were cancelled there, past ones are kept as history
+  for (const [uid, block] of Array.from(existingBlocks.entries())) {
+    if (seenUids.has(uid) || (block.endDate && block.endDate < today)) continue
+    await updateOccupancyRecord({ id: block.id, deletedAt: now })
+    result.removed++
+  }
+
+  result.conflicts = await findCalendarConflicts(roomId, blocks, history)
+  return result
+}
+
+// Overlaps between blocks and tenancies or short stays in the room
+async function findCalendarConflicts(
+  roomId: string,
+  blocks: OccupancyRecord[],
+  history: OccupancyRecord[]
+): Promise<CalendarConflict[]> {
+  const tenantStays = history
+    .filter(record => record.kind !== 'Block' && record.tenantId)
+    .map(record => ({ tenantId: record.tenantId!, start: startOfDay(record.startDate), end: record.endDate ? startOfDay(record.endDate) : undefined }))
+
+  for (const stay of await getShortStays({ roomId })) {
+    tenantStays.push({ tenantId: stay.tenantId, start: startOfDay(stay.checkInAt), end: subDays(startOfDay(stay.checkOutAt), 1) })
+  }
+
+  const conflicts: CalendarConflict[] = []
+  for (const block of blocks) {
+    const blockEnd = block.endDate ?? block.startDate
+    for (const stay of tenantStays) {
+      if (stay.start > blockEnd || (stay.end && stay.end < block.startDate)) continue
+
+      conflicts.push({
+        blockId: block.id,
+        externalUid: block.externalUid!,
+        summary: block.summary,
+        start: block.startDate,
+        end: blockEnd,
+        tenantId: stay.tenantId,
+        conflictStart: max([block.startDate, stay.start]),
+        conflictEnd: stay.end && stay.end < blockEnd ? stay.end : blockEnd
+      })
+    }
+  }
+
+  return conflicts
+}
+
+function toEvent(properties: Map<string, { params: string; value: string }>): ICalEvent | null {
+  const uid = properties.get('UID')?.value.trim()
+  const dtstart = properties.get('DTSTART')
+  if (!uid || !dtstart || properties.get('STATUS')?.value.trim().toUpperCase() === 'CANCELLED') {
+    return null
+  }
+
+  const start = startOfDay(parseICalDate(dtstart.value))
+  const dtend = properties.get('DTEND')
+  // The end day is check-out, so the last blocked night is the one before it
+  const end = dtend ? subDays(startOfDay(parseICalDate(dtend.value)), 1) : start
+  const summary = properties.get('SUMMARY')?.value
+
+  return {
+    uid,
+    summary: summary ? unescapeText(summary) : undefined,
+    start,
+    end: end < start ? start : end
+  }
+}
+
+// DATE (20250301) or DATE-TIME (20250301T140000, Z for UTC) values, floating times read as local
+function parseICalDate(value: string): Date {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/)
+  if (!match) {
+    throw new Error(`Invalid iCalendar date: ${value}`)
+  }
+
+  const [, year, month, day, hours = '0', minutes = '0', seconds = '0', utc] = match
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)] as const
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts)
+}
+
+function getBlockStatus(event: ICalEvent, today: Date): OccupancyStatus {
+  if (event.start > today) return 'Future'
+  return event.end < today ? 'Past' : 'Current'
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n')
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char))
+}
+
+// Lines longer than 75 characters continue on the next line after a space
+function foldLine(line: string): string {
+  const parts: string[] = []
+  for (let i = 0; i < line.length; i += 74) {
+    parts.push(line.slice(i, i + 74))
+  }
+  return parts.join('\r\n ')
+}
@@ -0,0 +1,226 @@
+import { addDays, differenceInCalendarDays, format, max, min, startOfDay, startOfMonth, subMonths } from 'date-fns'
+import { detectSeasonality } from '@/lib/analytics/trend-analysis'
+import { getRentCurrency } from '@/lib/currency/conversion'
+import { OccupancyRecord, Room } from '@/lib/db/models/room'
+import { getPropertyRooms, getRoom, getRoomOccupancyHistory } from '@/lib/db/operations/rooms'
+import { formatCents, toMinorUnits } from '@/lib/utils'
+import { getVacancyForecast } from './availability'
+
+export type PricingFactorType = 'room-type-size' | 'historic-occupancy' | 'current-vacancy' | 'seasonality' | 'stay-length'
+
+export interface PricingFactor {
+  factor: PricingFactorType
+  adjustment: number // Fraction of the current rent, e.g. 0.05 for +5%
+  reason: string
+}
+
+export interface RentSuggestion {
+  roomId: string
+  currentRent: number
+  suggestedRent: number
+  startDate: Date
+  stayMonths: number
+  factors: PricingFactor[]
+  confidence: 'low' | 'medium' | 'high' // How much occupancy history the suggestion rests on
+}
+
+export interface RentSuggestionOptions {
+  startDate?: Date
+  stayMonths?: number
+  asOf?: Date
+}
+
+// Stays a lease usually runs for when no length is given
+export const DEFAULT_STAY_MONTHS = 12
+
+// Premium on top of rent for short stays, by stay length in months
+const SHORT_STAY_PREMIUMS: { maxMonths: number; premium: number }[] = [
+  { maxMonths: 1, premium: 0.2 },
+  { maxMonths: 2, premium: 0.12 },
+  { maxMonths: 5, premium: 0.05 }
+]
+
+const OCCUPANCY_ADJUSTMENT = 0.05
+const SEASONAL_ADJUSTMENT = 0.08
+const MAX_SIZE_ADJUSTMENT = 0.1
+const MAX_TOTAL_ADJUSTMENT = 0.3
+
+// Months of property history considered when looking for a seasonal pattern
+const SEASONALITY_MONTHS = 24
+
+/**
+ * Suggest a monthly rent for a room for a stay starting on a given date. The
+ * current rent is adjusted for how the room compares with similar rooms, how
+ * well it has let over the last year, how full the property will be, the
+ * season the stay starts in, and a premium for short stays. Every adjustment
+ * comes with the reason behind it.
+ */
+export async function suggestRoomRent(roomId: string, options: RentSuggestionOptions = {}): Promise<RentSuggestion> {
+  const room = await getRoom(roomId)
+  if (!room) {
+    throw new Error('Room not found')
+  }
+
+  const asOf = startOfDay(options.asOf ?? new Date())
+  const startDate = startOfDay(options.startDate ?? asOf)
+  const stayMonths = options.stayMonths ?? DEFAULT_STAY_MONTHS
+  if (stayMonths < 1) {
+    throw new Error('Stay must be at least one month')
+  }
+
+  const propertyRooms = await getPropertyRooms(room.propertyId)
+  const currency = await getRentCurrency(room.propertyId)
+  const histories = new Map<string, OccupancyRecord[]>()
+  for (const propertyRoom of propertyRooms) {
+    histories.set(propertyRoom.id, await getRoomOccupancyHistory(propertyRoom.id))
+  }
+
+  const monthlyOccupancy = getMonthlyOccupancy(histories, asOf)
+  const factors: PricingFactor[] = [
+    getTypeAndSizeFactor(room, propertyRooms, currency),
+    getHistoricOccupancyFactor(room, histories.get(room.id) || [], asOf),
+    await getVacancyFactor(room.propertyId, startDate),
+    getSeasonalityFactor(startDate, monthlyOccupancy),
+    getStayLengthFactor(stayMonths)
+  ]
+
+  const totalAdjustment = clamp(
+    factors.reduce((sum, factor) => sum + factor.adjustment, 0),
+    -MAX_TOTAL_ADJUSTMENT,
+    MAX_TOTAL_ADJUSTMENT
+  )
+  const historyMonths = monthlyOccupancy.filter(month => month.amount > 0).length
+
+  return {
+    roomId: room.id,
+    currentRent: room.monthlyRent,
+    // Whole multiples of 5 read as a price rather than a calculation
+    suggestedRent: Math.round(room.monthlyRent * (1 + totalAdjustment) / 5) * 5,
+    startDate,
+    stayMonths,
+    factors,
+    confidence: historyMonths >= 12 ? 'high' : historyMonths >= 3 ? 'medium' : 'low'
+  }
+}
+
+// Compare rent per square foot with the property's other rooms of the same type
+function getTypeAndSizeFactor(room: Room, propertyRooms: Room[], currency: string): PricingFactor {
+  const peers = propertyRooms.filter(peer => peer.id !== room.id && peer.type === room.type && peer.size > 0)
+  if (peers.length === 0 || room.monthlyRent === 0) {
+    return { factor: 'room-type-size', adjustment: 0, reason: `No other ${room.type} rooms in the property to compare with` }
+  }
+
+  const rentPerSize = median(peers.map(peer => peer.monthlyRent / peer.size))
+  const comparableRent = rentPerSize * room.size
+  const gap = (comparableRent - room.monthlyRent) / room.monthlyRent
+  // Close half the gap, so one mispriced neighbour can't swing the suggestion far
+  const adjustment = clamp(gap / 2, -MAX_SIZE_ADJUSTMENT, MAX_SIZE_ADJUSTMENT)
+
+  return {
+    factor: 'room-type-size',
+    adjustment,
+    reason: `Similar ${room.type} rooms point to about ${formatCents(toMinorUnits(Math.round(comparableRent), currency), currency)} for ${room.size} sq ft `
+      + `(${formatPercent(gap)} on the current rent)`
+  }
+}
+
+function getHistoricOccupancyFactor(room: Room, history: OccupancyRecord[], asOf: Date): PricingFactor {
+  const windowStart = max([subMonths(asOf, 12), startOfDay(room.createdAt)])
+  const windowDays = differenceInCalendarDays(asOf, windowStart)
+  if (windowDays < 30) {
+    return { factor: 'historic-occupancy', adjustment: 0, reason: 'Room is too new to have an occupancy record' }
+  }
+
+  const occupancyRate = countOccupiedDays(history, windowStart, asOf) / windowDays
+  const adjustment = occupancyRate >= 0.9 ? OCCUPANCY_ADJUSTMENT : occupancyRate <= 0.6 ? -OCCUPANCY_ADJUSTMENT : 0
+
+  return {
+    factor: 'historic-occupancy',
+    adjustment,
+    reason: `Room was let ${Math.round(occupancyRate * 100)}% of the last year`
+      + (adjustment > 0 ? ', demand supports a higher rent' : adjustment < 0 ? ', a lower rent should fill it faster' : '')
+  }
+}
+
+// How full the property is forecast to be in the month the stay starts
+async function getVacancyFactor(propertyId: string, startDate: Date): Promise<PricingFactor> {
+  const forecast = await getVacancyForecast(propertyId, { from: startDate, days: 30 })
+  const occupancyRate = forecast.averageOccupancyRate
+  const adjustment = occupancyRate >= 0.9 ? OCCUPANCY_ADJUSTMENT : occupancyRate <= 0.7 ? -OCCUPANCY_ADJUSTMENT : 0
+
+  return {
+    factor: 'current-vacancy',
+    adjustment,
+    reason: `Property is forecast to be ${Math.round(occupancyRate * 100)}% occupied in the first month of the stay`
+  }
+}
+
+// Look for busy and quiet months in the property's occupancy the way expense trends are analysed
+function getSeasonalityFactor(startDate: Date, monthlyOccupancy: { month: string; amount: number }[]): PricingFactor {
+  // Months before the property's first let say nothing about its seasons
+  const firstLetMonth = monthlyOccupancy.findIndex(month => month.amount > 0)
+  const seasonality = detectSeasonality(firstLetMonth === -1 ? [] : monthlyOccupancy.slice(firstLetMonth))
+  const startMonth = format(startDate, 'MM')
+  const monthName = format(startDate, 'MMMM')
+
+  if (!seasonality.detected) {
+    return { factor: 'seasonality', adjustment: 0, reason: 'No clear seasonal pattern in past occupancy' }
+  }
+  if (seasonality.peaks.some(month => month.endsWith(`-${startMonth}`))) {
+    return { factor: 'seasonality', adjustment: SEASONAL_ADJUSTMENT, reason: `${monthName} is a busy month for this property` }
+  }
+  if (seasonality.valleys.some(month => month.endsWith(`-${startMonth}`))) {
+    return { factor: 'seasonality', adjustment: -SEASONAL_ADJUSTMENT, reason: `${monthName} is a quiet month for this property` }
+  }
+  return { factor: 'seasonality', adjustment: 0, reason: `${monthName} is neither a busy nor a quiet month` }
+}
+
+function getStayLengthFactor(stayMonths: number): PricingFactor {
+  const tier = SHORT_STAY_PREMIUMS.find(t => stayMonths <= t.maxMonths)
+  if (!tier) {
+    return { factor: 'stay-length', adjustment: 0, reason: `${stayMonths}-month stay is priced at the standard rent` }
+  }
+
+  return {
+    factor: 'stay-length',
+    adjustment: tier.premium,
+    reason: `Short-stay premium for a ${stayMonths}-month stay`
+  }
+}
+
+// Days in [from, to) covered by the occupancy records
+function countOccupiedDays(history: OccupancyRecord[], from: Date, to: Date): number {
+  return history.reduce((days, record) => {
+    const start = max([startOfDay(record.startDate), from])
+    // Records end on their last night, open records run up to now
+    const end = min([record.endDate ? addDays(startOfDay(record.endDate), 1) : to, to])
+    return days + Math.max(0, differenceInCalendarDays(end, start))
+  }, 0)
+}
+
+// Occupied room-days across the property for each of the past months, oldest first
+function getMonthlyOccupancy(histories: Map<string, OccupancyRecord[]>, asOf: Date): { month: string; amount: number }[] {
+  const monthlyOccupancy: { month: string; amount: number }[] = []
+  for (let offset = SEASONALITY_MONTHS; offset >= 1; offset--) {
+    const monthStart = startOfMonth(subMonths(asOf, offset))
+    const monthEnd = startOfMonth(subMonths(asOf, offset - 1))
+    let occupiedDays = 0
+    histories.forEach(history => { occupiedDays += countOccupiedDays(history, monthStart, monthEnd) })
+    monthlyOccupancy.push({ month: format(monthStart, 'yyyy-MM'), amount: occupiedDays })
+  }
+  return monthlyOccupancy
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+function clamp(value: number, lower: number, upper: number): number {
+  return Math.min(upper, Math.max(lower, value))
+}
+
+function formatPercent(fraction: number): string {
+  return `${fraction >= 0 ? '+' : ''}${Math.round(fraction * 100)}%`
+}
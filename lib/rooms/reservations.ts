@@ -0,0 +1,271 @@
+import { addDays, startOfDay } from 'date-fns'
+import { v4 as uuidv4 } from 'uuid'
+import { AgreementLanguageType, AgreementStatus, TemplateVariableValue } from '@/lib/db/models/agreement'
+import { PaymentMethod, PaymentMethodType, PaymentStatus, PaymentStatusType } from '@/lib/db/models/payment'
+import { ReservationStatus, RoomReservation } from '@/lib/db/models/reservation'
+import { getAgreement } from '@/lib/db/operations/agreements'
+import { createPayment, getPaymentById, updatePayment } from '@/lib/db/operations/payment'
+import { createReservation, getReservation, getReservations, updateReservation } from '@/lib/db/operations/reservations'
+import { getRoom } from '@/lib/db/operations/rooms'
+import { sendNewAgreement } from '@/lib/agreements/sending'
+import { getLateFeesForPayment } from '@/lib/payments/late-fees'
+import { isRoomAvailable } from './availability'
+
+export interface PlaceRoomHoldRequest {
+  roomId: string
+  prospectName: string
+  prospectEmail: string
+  prospectPhone?: string
+  tenantId?: string // When an existing tenant is moving rooms
+  startDate: Date
+  endDate?: Date
+  holdDays?: number
+  feeCents?: number
+  currency?: string
+  feePaymentMethod?: PaymentMethodType
+  notes?: string
+  createdBy?: string
+}
+
+export interface ConvertReservationRequest {
+  templateId: string
+  variableValues: TemplateVariableValue[]
+  notificationChannels?: ('whatsapp' | 'sms')[]
+  customMessage?: string
+  expirationDays?: number
+  ownerName?: string
+  ownerEmail?: string
+  confirmUnreviewedTemplate?: boolean
+  documentLanguages?: AgreementLanguageType[]
+  prospectLanguage?: AgreementLanguageType
+}
+
+export interface ReservationCheckOptions {
+  asOf?: Date
+}
+
+export interface ReservationCheckResult {
+  expired: number
+  released: number
+  converted: number
+  errors: string[]
+}
+
+// Days a room stays held when no hold length is given
+export const DEFAULT_HOLD_DAYS = 3
+
+/**
+ * Hold a room for a prospect so it can't be promised to anyone else. The
+ * reservation fee, if any, is charged as a payment due when the hold lapses.
+ */
+export async function placeRoomHold(request: PlaceRoomHoldRequest, now: Date = new Date()): Promise<RoomReservation> {
+  const room = await getRoom(request.roomId)
+  if (!room) {
+    throw new Error('Room not found')
+  }
+
+  const startDate = startOfDay(request.startDate)
+  const endDate = request.endDate ? startOfDay(request.endDate) : undefined
+  if (endDate && endDate < startDate) {
+    throw new Error('End date must not be before the start date')
+  }
+
+  if (!await isRoomAvailable(room, startDate, endDate ?? startDate)) {
+    throw new Error('Room is already occupied, booked or held for these dates')
+  }
+
+  const reservation = await createReservation({
+    roomId: room.id,
+    propertyId: room.propertyId,
+    prospectName: request.prospectName,
+    prospectEmail: request.prospectEmail,
+    prospectPhone: request.prospectPhone,
+    prospectId: request.tenantId ?? uuidv4(),
+    tenantId: request.tenantId,
+    startDate,
+    endDate,
+    holdExpiresAt: addDays(now, request.holdDays ?? DEFAULT_HOLD_DAYS),
+    status: ReservationStatus.HELD,
+    feeCents: request.feeCents,
+    currency: request.currency,
+    notes: request.notes,
+    createdBy: request.createdBy
+  })
+
+  if (!reservation.feeCents) {
+    return reservation
+  }
+
+  const fee = await createPayment({
+    tenantId: reservation.prospectId,
+    propertyId: reservation.propertyId,
+    amountCents: reservation.feeCents,
+    currency: reservation.currency,
+    paymentMethod: request.feePaymentMethod ?? PaymentMethod.STRIPE,
+    status: PaymentStatus.PENDING,
+    dueDate: reservation.holdExpiresAt,
+    description: `Reservation fee for room ${room.number}`,
+    reservationId: reservation.id,
+    // Prospects aren't tenants yet, so tenant reminders can't reach them
+    remindersPaused: !reservation.tenantId
+  })
+
+  return (await updateReservation(reservation.id, { feePaymentId: fee.id }))!
+}
+
+/**
+ * Send the prospect an agreement for the held room. The room stays held until
+ * the agreement is signed or expires, and the reservation fee falls due then.
+ */
+export async function convertReservationToAgreement(
+  reservationId: string,
+  request: ConvertReservationRequest,
+  createdBy: string,
+  now: Date = new Date()
+): Promise<RoomReservation> {
+  const reservation = await getReservation(reservationId)
+  if (!reservation) {
+    throw new Error('Reservation not found')
+  }
+  if (reservation.status !== ReservationStatus.HELD) {
+    throw new Error('Only held reservations can be converted into an agreement')
+  }
+  if (reservation.holdExpiresAt <= now) {
+    throw new Error('Reservation hold has expired')
+  }
+
+  const room = await getRoom(reservation.roomId)
+  if (!room) {
+    throw new Error('Room not found')
+  }
+
+  const sent = await sendNewAgreement({
+    templateId: request.templateId,
+    prospectName: reservation.prospectName,
+    prospectEmail: reservation.prospectEmail,
+    prospectPhone: reservation.prospectPhone,
+    notificationChannels: request.notificationChannels,
+    variableValues: request.variableValues,
+    customMessage: request.customMessage,
+    expirationDays: request.expirationDays,
+    ownerName: request.ownerName,
+    ownerEmail: request.ownerEmail,
+    roomNumber: room.number,
+    leaseStartDate: reservation.startDate,
+    leaseEndDate: reservation.endDate,
+    confirmUnreviewedTemplate: request.confirmUnreviewedTemplate,
+    documentLanguages: request.documentLanguages,
+    prospectLanguage: request.prospectLanguage
+  }, createdBy)
+
+  if (reservation.feePaymentId) {
+    const fee = await getPaymentById(reservation.feePaymentId)
+    if (fee && isUnpaid(fee.status)) {
+      await updatePayment(fee.id, { dueDate: sent.expirationDate, status: PaymentStatus.PENDING })
+    }
+  }
+
+  return (await updateReservation(reservation.id, {
+    status: ReservationStatus.AGREEMENT_SENT,
+    agreementId: sent.agreementId,
+    holdExpiresAt: sent.expirationDate
+  }))!
+}
+
+// Give the room back to the market, waiving the reservation fee if it hasn't been paid
+export async function releaseReservation(
+  reservationId: string,
+  reason: string,
+  now: Date = new Date()
+): Promise<RoomReservation> {
+  const reservation = await getReservation(reservationId)
+  if (!reservation) {
+    throw new Error('Reservation not found')
+  }
+  if (reservation.status !== ReservationStatus.HELD && reservation.status !== ReservationStatus.AGREEMENT_SENT) {
+    throw new Error('Reservation is no longer holding the room')
+  }
+
+  return endHold(reservation, ReservationStatus.RELEASED, reason, now)
+}
+
+/**
+ * Release holds that have lapsed and hand rooms over to signed agreements.
+ * Run daily by the reservations cron job.
+ */
+export async function checkRoomReservations(options: ReservationCheckOptions = {}): Promise<ReservationCheckResult> {
+  const asOf = options.asOf || new Date()
+  const result: ReservationCheckResult = { expired: 0, released: 0, converted: 0, errors: [] }
+
+  for (const reservation of await getReservations({ holdingOnly: true })) {
+    try {
+      if (reservation.status === ReservationStatus.HELD) {
+        if (reservation.holdExpiresAt <= asOf) {
+          await endHold(reservation, ReservationStatus.EXPIRED, 'Hold expired', asOf)
+          result.expired++
+        }
+        continue
+      }
+
+      const agreement = reservation.agreementId ? await getAgreement(reservation.agreementId) : null
+      if (agreement?.status === AgreementStatus.SIGNED || agreement?.status === AgreementStatus.COMPLETED) {
+        await completeConversion(reservation, agreement.tenantId)
+        result.converted++
+        continue
+      }
+
+      const lapsed = !agreement
+        || agreement.status === AgreementStatus.EXPIRED
+        || agreement.status === AgreementStatus.CANCELLED
+        || reservation.holdExpiresAt <= asOf
+      if (lapsed) {
+        await endHold(reservation, ReservationStatus.RELEASED, 'Agreement was not signed in time', asOf)
+        result.released++
+      }
+    } catch (error) {
+      result.errors.push(`Reservation ${reservation.id} check failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  return result
+}
+
+async function endHold(
+  reservation: RoomReservation,
+  status: typeof ReservationStatus.RELEASED | typeof ReservationStatus.EXPIRED,
+  reason: string,
+  now: Date
+): Promise<RoomReservation> {
+  if (reservation.feePaymentId) {
+    const fee = await getPaymentById(reservation.feePaymentId)
+    if (fee && isUnpaid(fee.status)) {
+      const notes = `Waived: ${reason.toLowerCase()}`
+      for (const lateFee of await getLateFeesForPayment(fee.id)) {
+        if (isUnpaid(lateFee.status)) {
+          await updatePayment(lateFee.id, { status: PaymentStatus.WAIVED, notes })
+        }
+      }
+      await updatePayment(fee.id, { status: PaymentStatus.WAIVED, notes })
+    }
+  }
+
+  console.log(`Reservation ${reservation.id} for room ${reservation.roomId} ended: ${reason}`)
+  return (await updateReservation(reservation.id, { status, releasedAt: now, releaseReason: reason }))!
+}
+
+// Fees still owed in full, which ending the hold waives
+function isUnpaid(status: PaymentStatusType): boolean {
+  return status === PaymentStatus.PENDING || status === PaymentStatus.OVERDUE
+}
+
+// The signed agreement now holds the room; move the fee onto the new tenant
+async function completeConversion(reservation: RoomReservation, tenantId?: string): Promise<void> {
+  if (tenantId && reservation.feePaymentId && !reservation.tenantId) {
+    await updatePayment(reservation.feePaymentId, { tenantId, remindersPaused: false })
+  }
+
+  await updateReservation(reservation.id, {
+    status: ReservationStatus.CONVERTED,
+    tenantId: tenantId ?? reservation.tenantId
+  })
+}
@@ -0,0 +1,226 @@
+import { differenceInCalendarDays, max, startOfDay, subDays } from 'date-fns'
+import { kv } from '@vercel/kv'
+import { PaymentMethod, PaymentMethodType, PaymentStatus } from '@/lib/db/models/payment'
+import { Room } from '@/lib/db/models/room'
+import { ShortStay, ShortStayPricing, ShortStayPricingType, ShortStayStatus } from '@/lib/db/models/short-stay'
+import { createPayment, getPaymentById, updatePayment } from '@/lib/db/operations/payment'
+import { getProperty } from '@/lib/db/operations/properties'
+import { getRoom } from '@/lib/db/operations/rooms'
+import { createShortStay, getShortStay, getShortStays, updateShortStay } from '@/lib/db/operations/short-stays'
+import { DEFAULT_RENT_CURRENCY } from '@/lib/currency/conversion'
+import { toMinorUnits } from '@/lib/utils'
+import { Task, TaskCategory, TaskPriority, TaskStatus } from '@/types'
+import { isRoomAvailable } from './availability'
+
+export interface ShortStayQuote {
+  nights: number
+  pricing: ShortStayPricingType
+  nightlyRateCents: number
+  weeklyRateCents: number
+  weeks: number // Whole weeks charged at the weekly rate
+  extraNights: number // Nights charged at the nightly rate
+  totalCents: number
+  currency: string
+}
+
+export interface BookShortStayRequest {
+  roomId: string
+  tenantId: string
+  checkIn: Date
+  checkOut: Date
+  pricing?: ShortStayPricingType // Weekly for stays of a week or more when unset
+  currency?: string
+  paymentMethod?: PaymentMethodType
+  notes?: string
+  createdBy?: string
+}
+
+// Rates are pro-rated from the monthly rent when a room has none of its own
+const NIGHTS_PER_MONTH = 30
+const WEEKS_PER_YEAR = 52
+
+// Minutes a turnover clean is expected to take
+const TURNOVER_CLEAN_MINUTES = 60
+
+// A room's short-stay rates in the minor unit of the property's rent currency
+export function getShortStayRates(room: Room, currency: string): { nightlyRateCents: number; weeklyRateCents: number } {
+  return {
+    nightlyRateCents: toMinorUnits(room.nightlyRate ?? room.monthlyRent / NIGHTS_PER_MONTH, currency),
+    weeklyRateCents: toMinorUnits(room.weeklyRate ?? room.monthlyRent * 12 / WEEKS_PER_YEAR, currency)
+  }
+}
+
+// Price a stay from check-in day to check-out day
+export function quoteShortStay(
+  room: Room,
+  checkIn: Date,
+  checkOut: Date,
+  pricing?: ShortStayPricingType,
+  currency: string = DEFAULT_RENT_CURRENCY
+): ShortStayQuote {
+  const nights = differenceInCalendarDays(startOfDay(checkOut), startOfDay(checkIn))
+  if (nights < 1) {
+    throw new Error('Check-out must be at least one day after check-in')
+  }
+
+  const { nightlyRateCents, weeklyRateCents } = getShortStayRates(room, currency)
+  const stayPricing = pricing ?? (nights >= 7 ? ShortStayPricing.WEEKLY : ShortStayPricing.NIGHTLY)
+  const weeks = stayPricing === ShortStayPricing.WEEKLY ? Math.floor(nights / 7) : 0
+  const extraNights = nights - weeks * 7
+
+  return {
+    nights,
+    pricing: stayPricing,
+    nightlyRateCents,
+    weeklyRateCents,
+    weeks,
+    extraNights,
+    totalCents: weeks * weeklyRateCents + extraNights * nightlyRateCents,
+    currency
+  }
+}
+
+/**
+ * Book a room for a stay of days or weeks. Check-in and check-out happen at
+ * the property's set times, so a room can turn over on the day a guest leaves
+ * when check-out comes before check-in. The stay is charged as a payment due
+ * at check-in, and a cleaning task is raised for the turnover after it.
+ */
+export async function bookShortStay(request: BookShortStayRequest): Promise<ShortStay> {
+  const room = await getRoom(request.roomId)
+  if (!room) {
+    throw new Error('Room not found')
+  }
+
+  const property = await getProperty(room.propertyId)
+  if (!property) {
+    throw new Error('Property not found')
+  }
+
+  const currency = request.currency ?? property.rentCurrency ?? DEFAULT_RENT_CURRENCY
+  const quote = quoteShortStay(room, request.checkIn, request.checkOut, request.pricing, currency)
+  const checkInAt = atTime(request.checkIn, property.settings.checkInTime)
+  const checkOutAt = atTime(request.checkOut, property.settings.checkOutTime)
+
+  const clashes = (await getShortStays({ roomId: room.id }))
+    .some(stay => stay.checkInAt < checkOutAt && checkInAt < stay.checkOutAt)
+  const lastNight = subDays(startOfDay(request.checkOut), 1)
+  if (clashes || !await isRoomAvailable(room, request.checkIn, lastNight)) {
+    throw new Error('Room is already occupied, booked or held for these dates')
+  }
+
+  const stay = await createShortStay({
+    roomId: room.id,
+    propertyId: room.propertyId,
+    tenantId: request.tenantId,
+    checkInAt,
+    checkOutAt,
+    nights: quote.nights,
+    pricing: quote.pricing,
+    nightlyRateCents: quote.nightlyRateCents,
+    weeklyRateCents: quote.weeks > 0 ? quote.weeklyRateCents : undefined,
+    totalCents: quote.totalCents,
+    currency,
+    status: ShortStayStatus.BOOKED,
+    notes: request.notes,
+    createdBy: request.createdBy
+  })
+
+  const payment = await createPayment({
+    tenantId: request.tenantId,
+    propertyId: room.propertyId,
+    amountCents: quote.totalCents,
+    currency,
+    paymentMethod: request.paymentMethod ?? PaymentMethod.STRIPE,
+    status: PaymentStatus.PENDING,
+    dueDate: checkInAt,
+    description: `Stay in room ${room.number}, ${quote.nights} night${quote.nights === 1 ? '' : 's'}`,
+    billingPeriodStart: startOfDay(request.checkIn),
+    billingPeriodEnd: lastNight,
+    shortStayId: stay.id
+  })
+
+  const turnoverTaskId = await createTurnoverTask(stay, room, property.settings.checkInTime)
+
+  return (await updateShortStay(stay.id, { paymentId: payment.id, turnoverTaskId }))!
+}
+
+export async function checkInShortStay(stayId: string, now: Date = new Date()): Promise<ShortStay> {
+  const stay = await getShortStayOrThrow(stayId)
+  if (stay.status !== ShortStayStatus.BOOKED) {
+    throw new Error('Only booked stays can be checked in')
+  }
+
+  return (await updateShortStay(stay.id, { status: ShortStayStatus.CHECKED_IN, checkedInAt: now }))!
+}
+
+export async function checkOutShortStay(stayId: string, now: Date = new Date()): Promise<ShortStay> {
+  const stay = await getShortStayOrThrow(stayId)
+  if (stay.status !== ShortStayStatus.CHECKED_IN) {
+    throw new Error('Only checked-in stays can be checked out')
+  }
+
+  return (await updateShortStay(stay.id, { status: ShortStayStatus.CHECKED_OUT, checkedOutAt: now }))!
+}
+
+// Cancel a stay before check-in, waiving its charge if unpaid and dropping the turnover clean
+export async function cancelShortStay(stayId: string, now: Date = new Date()): Promise<ShortStay> {
+  const stay = await getShortStayOrThrow(stayId)
+  if (stay.status !== ShortStayStatus.BOOKED) {
+    throw new Error('Only booked stays can be cancelled')
+  }
+
+  if (stay.paymentId) {
+    const payment = await getPaymentById(stay.paymentId)
+    if (payment?.status === PaymentStatus.PENDING) {
+      await updatePayment(payment.id, { status: PaymentStatus.WAIVED, notes: 'Waived: stay cancelled' })
+    }
+  }
+
+  if (stay.turnoverTaskId) {
+    await kv.del(`task:${stay.propertyId}:${stay.turnoverTaskId}`)
+  }
+
+  return (await updateShortStay(stay.id, { status: ShortStayStatus.CANCELLED, cancelledAt: now }))!
+}
+
+async function getShortStayOrThrow(stayId: string): Promise<ShortStay> {
+  const stay = await getShortStay(stayId)
+  if (!stay) {
+    throw new Error('Stay not found')
+  }
+  return stay
+}
+
+// The room has to be clean by the earliest the next guest can arrive, check-in time on the day this one leaves
+async function createTurnoverTask(stay: ShortStay, room: Room, checkInTime: string): Promise<string> {
+  const taskId = `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  const now = new Date()
+  const task: Task = {
+    id: taskId,
+    propertyId: stay.propertyId,
+    title: `Turnover clean: room ${room.number}`,
+    description: `Guest checks out ${stay.checkOutAt.toLocaleString()}. Clean and reset the room for the next stay.`,
+    category: TaskCategory.CLEANING,
+    priority: TaskPriority.MEDIUM,
+    assignedTo: [],
+    createdBy: 'system',
+    dueDate: max([stay.checkOutAt, atTime(stay.checkOutAt, checkInTime)]),
+    estimatedDuration: TURNOVER_CLEAN_MINUTES,
+    status: TaskStatus.PENDING,
+    completionPhotos: [],
+    createdAt: now,
+    updatedAt: now
+  }
+
+  await kv.set(`task:${stay.propertyId}:${taskId}`, task)
+  return taskId
+}
+
+// The day at a property's HH:mm check-in or check-out time
+function atTime(day: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number)
+  const result = startOfDay(day)
+  result.setHours(hours, minutes, 0, 0)
+  return result
+}
@@ -13,6 +13,33 @@ export function formatCurrency(amount: number, currency: string = 'USD'): string
   }).format(amount)
 }
 
+// Digits after the decimal point per ISO 4217. Amounts stored "in cents" use
+// the currency's minor unit, so VND amounts are whole dong.
+const CURRENCY_MINOR_UNITS: Record<string, number> = {
+  VND: 0,
+  JPY: 0,
+  KRW: 0
+}
+
+export function getCurrencyMinorUnits(currency: string): number {
+  return CURRENCY_MINOR_UNITS[currency.toUpperCase()] ?? 2
+}
+
+// Convert an amount in minor units (e.g. amountCents) to the major unit
+export function fromMinorUnits(amount: number, currency: string = 'USD'): number {
+  return amount / Math.pow(10, getCurrencyMinorUnits(currency))
+}
+
+// Convert a major unit amount to whole minor units
+export function toMinorUnits(amount: number, currency: string = 'USD'): number {
+  return Math.round(amount * Math.pow(10, getCurrencyMinorUnits(currency)))
+}
+
+// Format an amount stored in minor units, e.g. a Payment's amountCents
+export function formatCents(amountCents: number, currency: string = 'USD'): string {
+  return formatCurrency(fromMinorUnits(amountCents, currency), currency)
+}
+
 export function formatDate(date: Date | string): string {
   const dateObj = typeof date === 'string' ? new Date(date) : date
   return dateObj.toLocaleDateString('en-US', {
@@ -22,6 +49,16 @@ export function formatDate(date: Date | string): string {
   })
 }
 
+// Make text safe to insert into HTML
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
 export function generateId(): string {
   return Math.random().toString(36).substring(2) + Date.now().toString(36)
 }
@@ -3,6 +3,18 @@ import { NextResponse } from 'next/server'
 import { UserRole } from './lib/auth'
 import { canAccess, isPermifyEnabled } from './lib/permify/client'
 
+// API routes a TENANT user may call; everything else is staff-only
+const TENANT_API_ROUTES = ['/api/portal', '/api/auth']
+
+// API routes called without a session, which check a signed token themselves
+const PUBLIC_API_ROUTES = [
+  /^\/api\/rooms\/[^/]+\/calendar$/, // iCal feeds for booking sites
+  /^\/api\/agreements\/[^/]+\/(sign|docusign)$/, // Signing links emailed to signers
+  /^\/api\/cron\//, // Scheduled jobs, called with CRON_SECRET
+  /^\/api\/stripe\/webhooks$/, // Stripe events, verified by their signature
+  /^\/api\/webhooks\/messaging\/[^/]+$/ // Delivery callbacks from WhatsApp, SMS and Zalo providers
+]
+
 export default withAuth(
   function middleware(req) {
     const token = req.nextauth.token
@@ -11,6 +23,9 @@ export default withAuth(
     // Ensure API routes return JSON for unauthorized instead of HTML
     if (pathname.startsWith('/api')) {
       if (!token) {
+        if (PUBLIC_API_ROUTES.some(route => route.test(pathname))) {
+          return NextResponse.next()
+        }
         return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
       }
     }
@@ -18,6 +33,26 @@ export default withAuth(
     // Role-based access control
     if (token) {
       const userRole = token.role as UserRole
+
+      // Tenants only see their own data, through the tenant portal
+      if (userRole === UserRole.TENANT) {
+        if (pathname.startsWith('/api')) {
+          if (!TENANT_API_ROUTES.some(route => pathname.startsWith(route))) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+          }
+        } else if (!pathname.startsWith('/portal')) {
+          return NextResponse.redirect(new URL('/portal', req.url))
+        }
+        return NextResponse.next()
+      }
+
+      // The tenant portal is for tenants only
+      if (pathname.startsWith('/portal') || pathname.startsWith('/api/portal')) {
+        if (pathname.startsWith('/api')) {
+          return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+        }
+        return NextResponse.redirect(new URL('/dashboard', req.url))
+      }
       
       // Admin-only routes (Property Owner only)
       if (pathname.startsWith('/admin') || pathname.startsWith('/settings')) {
@@ -35,13 +70,6 @@ export default withAuth(
         }
       }
       
-      // Manager and Owner routes
-      if (pathname.startsWith('/expenses') || pathname.startsWith('/payments')) {
-        if (userRole === UserRole.TENANT) {
-          return NextResponse.redirect(new URL('/dashboard', req.url))
-        }
-      }
-      
       // API route protection with role checking
       if (pathname.startsWith('/api/admin')) {
         if (isPermifyEnabled()) {
@@ -82,6 +110,7 @@ export default withAuth(
             pathname.startsWith('/expenses') ||
             pathname.startsWith('/payments') ||
             pathname.startsWith('/tenants') ||
+            pathname.startsWith('/portal') ||
             pathname.startsWith('/api/')) {
           return !!token
         }
@@ -99,6 +128,7 @@ export const config = {
     '/api/:path*',
     '/payments/:path*',
     '/expenses/:path*',
-    '/tenants/:path*'
+    '/tenants/:path*',
+    '/portal/:path*'
   ]
 }
@@ -5,6 +5,10 @@ const nextConfig = {
     ignoreDuringBuilds: true,
   },
   experimental: {
+    // Agreement PDFs read their fonts from disk at runtime
+    outputFileTracingIncludes: {
+      '/api/agreements/**': ['./node_modules/dejavu-fonts-ttf/ttf/DejaVu{Sans,Sans-Bold,Serif-Italic}.ttf'],
+    },
     turbo: {
       rules: {
         '*.svg': {
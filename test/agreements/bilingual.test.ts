@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { PDFDocument, PDFRawStream, decodePDFRawStream } from 'pdf-lib'
+import { getTemplateContent, getTemplateLanguages, pairClauses, splitClauses } from '@/lib/agreements/bilingual'
+import { AgreementPdfService } from '@/lib/agreements/pdf'
+
+// The characters the PDF's fonts map back to Unicode, i.e. what a reader copies out of it
+const getPrintedCharacters = (pdf: PDFDocument): Set<string> => {
+  const characters = new Set<string>()
+  for (const [, object] of pdf.context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFRawStream)) continue
+    const stream = new TextDecoder().decode(decodePDFRawStream(object).decode())
+    if (!stream.includes('begincmap')) continue
+    for (const [, hex] of stream.matchAll(/<[0-9A-F]+> <([0-9A-F]{4})>/g)) {
+      characters.add(String.fromCharCode(parseInt(hex, 16)))
+    }
+  }
+  return characters
+}
+
+const ENGLISH = '# ROOM LEASE\n\nRent is due on the 1st of each month.\nLate fees apply after the 5th.\n\nNotice period: 30 days.'
+const VIETNAMESE = '# HỢP ĐỒNG THUÊ PHÒNG\n\nTiền thuê đến hạn vào ngày 1 hàng tháng.\nPhí trễ hạn áp dụng sau ngày 5.\n\nThời hạn báo trước: 30 ngày.'
+
+describe('Bilingual agreements', () => {
+  it('should split content into clauses on blank lines', () => {
+    expect(splitClauses('First\r\n\r\nSecond line\nstill second\n  \n\n\nThird\n')).toEqual([
+      'First',
+      'Second line\nstill second',
+      'Third'
+    ])
+  })
+
+  it('should pair each clause with its translation, leaving missing clauses empty', () => {
+    expect(pairClauses([ENGLISH, VIETNAMESE])).toEqual([
+      ['# ROOM LEASE', '# HỢP ĐỒNG THUÊ PHÒNG'],
+      ['Rent is due on the 1st of each month.\nLate fees apply after the 5th.', 'Tiền thuê đến hạn vào ngày 1 hàng tháng.\nPhí trễ hạn áp dụng sau ngày 5.'],
+      ['Notice period: 30 days.', 'Thời hạn báo trước: 30 ngày.']
+    ])
+    expect(pairClauses(['One\n\nTwo', 'Một'])).toEqual([['One', 'Một'], ['Two', '']])
+  })
+
+  it('should find the template wording in each of its languages', () => {
+    const template = { content: VIETNAMESE, language: 'vi' as const, translations: [{ language: 'en' as const, content: ENGLISH }] }
+
+    expect(getTemplateLanguages(template)).toEqual(['vi', 'en'])
+    expect(getTemplateContent(template, 'en')).toBe(ENGLISH)
+    expect(getTemplateContent(template, 'vi')).toBe(VIETNAMESE)
+    expect(getTemplateContent({ ...template, translations: [] }, 'en')).toBeUndefined()
+  })
+
+  it('should render both languages to one PDF with paired signature labels', async () => {
+    const rendered = await AgreementPdfService.renderAgreement(
+      'Lease Agreement / Hợp đồng thuê nhà - Saigon House',
+      [ENGLISH, VIETNAMESE],
+      new Date('2024-01-01T09:00:00Z'),
+      ['Tenant signature / Chữ ký bên thuê: Nguyen Van An']
+    )
+
+    const pdf = await PDFDocument.load(rendered.bytes)
+    expect(pdf.getPageCount()).toBe(rendered.pageCount)
+    expect(rendered.signatureBoxes).toHaveLength(1)
+  })
+
+  it('should print Vietnamese with its diacritics', async () => {
+    const rendered = await AgreementPdfService.renderAgreement('Hợp đồng thuê nhà', VIETNAMESE, new Date('2024-01-01T09:00:00Z'))
+    const printed = getPrintedCharacters(await PDFDocument.load(rendered.bytes))
+
+    for (const character of 'Tiền thuê đến hạn Hợp đồng'.replace(/ /g, '')) {
+      expect(printed).toContain(character)
+    }
+    // Rendering is repeatable, so the document hash can be checked again
+    const again = await AgreementPdfService.renderAgreement('Hợp đồng thuê nhà', VIETNAMESE, new Date('2024-01-01T09:00:00Z'))
+    expect(Buffer.from(again.bytes).equals(Buffer.from(rendered.bytes))).toBe(true)
+  })
+})
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import crypto from 'crypto'
+import { AutomatedReminderService } from '@/lib/agreements/reminders'
+import { AgreementSignerService } from '@/lib/agreements/signers'
+import { TenantProfileIntegrationService } from '@/lib/agreements/tenant-integration'
+import { AgreementNotificationService, sendAgreementTextNotifications } from '@/lib/agreements/notifications'
+import { Agreement } from '@/lib/db/models/agreement'
+import { updateAgreement } from '@/lib/db/operations/agreements'
+import { createTenant, getTenantByEmail } from '@/lib/db/operations/tenants'
+import { getProperty } from '@/lib/db/operations/properties'
+
+vi.mock('@/lib/db/operations/agreements', () => ({
+  getAllAgreements: vi.fn(),
+  updateAgreement: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/tenants', () => ({
+  createTenant: vi.fn(),
+  getTenantByEmail: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/properties', () => ({
+  getProperty: vi.fn()
+}))
+
+vi.mock('@/lib/agreements/notifications', () => ({
+  AgreementNotificationService: { sendReminderEmail: vi.fn() },
+  sendAgreementTextNotifications: vi.fn()
+}))
+
+const propertyId = '550e8400-e29b-41d4-a716-446655440000'
+
+const buildAgreement = (overrides: Partial<Agreement> = {}): Agreement => ({
+  id: crypto.randomUUID(),
+  templateId: crypto.randomUUID(),
+  propertyId,
+  prospectName: 'Nguyen Van An',
+  prospectEmail: 'an@example.com',
+  prospectPhone: '+84901234567',
+  notificationChannels: ['sms'],
+  status: 'Sent',
+  sentDate: new Date(2024, 0, 1, 9, 0),
+  expirationDate: new Date(2024, 0, 20, 9, 0),
+  remindersSent: 0,
+  agreementData: { monthlyRent: '$1,001', securityDeposit: '500', leaseStartDate: '2024-02-01' },
+  signers: AgreementSignerService.buildSigners(
+    { name: 'Nguyen Van An', email: 'an@example.com', phone: '+84901234567' },
+    [
+      { role: 'co-tenant', name: 'Tran Thi Binh', email: 'binh@example.com', phone: '+84907654321', order: 1 },
+      { role: 'guarantor', name: 'Nguyen Van Cuong', email: 'cuong@example.com' }
+    ]
+  ),
+  signingOrder: 'sequential',
+  tenantCreated: false,
+  tenantIds: [],
+  createdAt: new Date(2024, 0, 1, 9, 0),
+  updatedAt: new Date(2024, 0, 1, 9, 0),
+  createdBy: crypto.randomUUID(),
+  ...overrides
+})
+
+describe('Multi-party agreements', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(updateAgreement).mockImplementation(async (input) => input as Agreement)
+  })
+
+  describe('AgreementSignerService', () => {
+    it('should let the co-tenant sign alongside the tenant, and the guarantor after them', () => {
+      const agreement = buildAgreement()
+      const [tenant, coTenant, guarantor] = agreement.signers
+
+      expect(agreement.signers.map(signer => signer.role)).toEqual(['tenant', 'co-tenant', 'guarantor'])
+      expect(AgreementSignerService.getAwaitingSigners(agreement)).toEqual([tenant, coTenant])
+      expect(AgreementSignerService.getBlockingSigners(agreement, guarantor)).toEqual([tenant, coTenant])
+
+      const token = AgreementSignerService.getSigningToken(agreement.id, coTenant.id)
+      expect(AgreementSignerService.getSigningUrl(agreement.id, coTenant))
+        .toBe(`http://localhost:3000/agreements/sign/${agreement.id}?signer=${coTenant.id}&token=${token}`)
+      expect(AgreementSignerService.verifySigningToken(agreement.id, coTenant.id, token)).toBe(true)
+      expect(AgreementSignerService.verifySigningToken(agreement.id, guarantor.id, token)).toBe(false)
+    })
+
+    it('should refuse to sign or accept links in production until a signing secret is set', () => {
+      const [tenant] = buildAgreement().signers
+      const token = AgreementSignerService.getSigningToken('agreement-1', tenant.id)
+      vi.stubEnv('NODE_ENV', 'production')
+      vi.stubEnv('AGREEMENT_SIGNING_SECRET', '')
+
+      try {
+        expect(() => AgreementSignerService.getSigningToken('agreement-1', tenant.id)).toThrow('AGREEMENT_SIGNING_SECRET')
+        expect(AgreementSignerService.verifySigningToken('agreement-1', tenant.id, token)).toBe(false)
+      } finally {
+        vi.unstubAllEnvs()
+      }
+    })
+
+    it('should refuse the same email for two signers', () => {
+      expect(() => AgreementSignerService.buildSigners(
+        { name: 'Nguyen Van An', email: 'an@example.com' },
+        [{ role: 'guarantor', name: 'An again', email: 'AN@example.com' }]
+      )).toThrow('Each signer needs a different email address')
+    })
+  })
+
+  describe('AutomatedReminderService', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should remind each signer whose turn it is, and only text the prospect', async () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date(2024, 0, 5, 10, 0)) // A Friday morning, four days after sending
+
+      const agreement = buildAgreement()
+      const sent = await AutomatedReminderService.processAgreementReminders(agreement)
+
+      expect(sent).toBe(true)
+      expect(vi.mocked(AgreementNotificationService.sendReminderEmail).mock.calls.map(([data]) => data.prospectEmail))
+        .toEqual(['an@example.com', 'binh@example.com'])
+      expect(sendAgreementTextNotifications).toHaveBeenCalledTimes(1)
+
+      const update = vi.mocked(updateAgreement).mock.calls[0][0]
+      expect(update.remindersSent).toBe(2)
+      expect(update.signers!.map(signer => signer.remindersSent)).toEqual([1, 1, 0])
+    })
+
+    it('should count from when a later signer was asked to sign', async () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date(2024, 0, 5, 10, 0))
+
+      const agreement = buildAgreement()
+      agreement.signers = agreement.signers.map(signer => signer.role === 'guarantor'
+        ? { ...signer, notifiedDate: new Date(2024, 0, 4, 9, 0) }
+        : { ...signer, status: 'Signed' as const, signedDate: new Date(2024, 0, 4, 9, 0) })
+
+      expect(await AutomatedReminderService.processAgreementReminders(agreement)).toBe(false)
+      expect(AgreementNotificationService.sendReminderEmail).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('TenantProfileIntegrationService', () => {
+    it('should create one tenant per tenant and co-tenant, sharing the rent', async () => {
+      const agreement = buildAgreement({
+        status: 'Completed',
+        signedDocumentUrl: 'http://localhost:3000/api/agreements/signed/document'
+      })
+      vi.mocked(getProperty).mockResolvedValue({ id: propertyId, name: 'Saigon House' } as any)
+      vi.mocked(getTenantByEmail).mockResolvedValue(null)
+      vi.mocked(createTenant).mockImplementation(async (input) => input as any)
+
+      const tenants = await TenantProfileIntegrationService.createTenantsFromAgreement(agreement)
+
+      expect(tenants.map(tenant => tenant.email)).toEqual(['an@example.com', 'binh@example.com'])
+      expect(tenants.map(tenant => tenant.leaseHistory[0].monthlyRentCents)).toEqual([50050, 50050])
+      expect(tenants.map(tenant => tenant.leaseHistory[0].depositCents)).toEqual([25000, 25000])
+      expect(tenants.map(tenant => tenant.phone)).toEqual(['+84901234567', '+84907654321'])
+      expect(updateAgreement).toHaveBeenCalledWith({
+        id: agreement.id,
+        tenantId: tenants[0].id,
+        tenantIds: tenants.map(tenant => tenant.id),
+        tenantCreated: true
+      })
+    })
+  })
+})
@@ -0,0 +1,272 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import crypto from 'crypto'
+import { PDFDocument } from 'pdf-lib'
+import { AgreementSigningService, ELECTRONIC_SIGNATURE_CONSENT } from '@/lib/agreements/signing'
+import { AgreementPdfService } from '@/lib/agreements/pdf'
+import { AgreementSignerService } from '@/lib/agreements/signers'
+import { DocumentStorageService } from '@/lib/agreements/storage'
+import { Agreement, AgreementSigner } from '@/lib/db/models/agreement'
+import {
+  acquireAgreementSigningLock,
+  getAgreement,
+  getAgreementTemplate,
+  populateTemplateContent,
+  releaseAgreementSigningLock,
+  updateAgreement
+} from '@/lib/db/operations/agreements'
+
+// Signed PDFs are written to a scratch directory for this run
+vi.hoisted(() => {
+  process.env.DOCUMENT_STORAGE_PATH = `/tmp/agreement-signing-test-${Date.now()}`
+})
+
+vi.mock('@/lib/db/operations/agreements', () => ({
+  acquireAgreementSigningLock: vi.fn(),
+  releaseAgreementSigningLock: vi.fn(),
+  getAgreement: vi.fn(),
+  getAgreementTemplate: vi.fn(),
+  populateTemplateContent: vi.fn(),
+  updateAgreement: vi.fn()
+}))
+
+// A 1x1 PNG, as a drawn signature canvas would send it
+const SIGNATURE_PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='
+
+const content = '<h1>Room Lease</h1><p>Tenant: Nguyễn Văn An</p><p>Monthly rent: $600 &amp; utilities</p>'
+const now = new Date('2024-01-05T10:30:00Z')
+
+describe('Native agreement signing', () => {
+  let agreement: Agreement
+
+  // What the signer's emailed link carries
+  const signingLink = (signerId: string) => ({ signerId, token: AgreementSignerService.getSigningToken(agreement.id, signerId) })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    agreement = {
+      id: crypto.randomUUID(),
+      templateId: crypto.randomUUID(),
+      propertyId: crypto.randomUUID(),
+      prospectName: 'Nguyen Van An',
+      prospectEmail: 'an@example.com',
+      status: 'Viewed',
+      sentDate: new Date('2024-01-01T09:00:00Z'),
+      viewedDate: new Date('2024-01-02T09:00:00Z'),
+      expirationDate: new Date('2024-01-15T00:00:00Z'),
+      remindersSent: 0,
+      agreementData: { tenantName: 'Nguyen Van An' },
+      signers: [],
+      signingOrder: 'sequential',
+      tenantCreated: false,
+      tenantIds: [],
+      createdAt: new Date('2024-01-01T09:00:00Z'),
+      updatedAt: new Date('2024-01-01T09:00:00Z'),
+      createdBy: crypto.randomUUID()
+    }
+
+    // Signing locks, held by one owner at a time as Redis SET NX would
+    const locks = new Map<string, string>()
+    vi.mocked(acquireAgreementSigningLock).mockImplementation(async (id) => {
+      if (locks.has(id)) return null
+      const owner = crypto.randomUUID()
+      locks.set(id, owner)
+      return owner
+    })
+    vi.mocked(releaseAgreementSigningLock).mockImplementation(async (id, owner) => {
+      if (locks.get(id) === owner) locks.delete(id)
+    })
+
+    vi.mocked(getAgreement).mockImplementation(async () => agreement)
+    vi.mocked(getAgreementTemplate).mockResolvedValue({ id: agreement.templateId, language: 'en', translations: [], variables: [] } as any)
+    vi.mocked(populateTemplateContent).mockResolvedValue(content)
+    vi.mocked(updateAgreement).mockImplementation(async (input) => {
+      agreement = { ...agreement, ...input }
+      return agreement
+    })
+  })
+
+  it('should store a signed PDF with the signature and a certificate page', async () => {
+    const signed = await AgreementSigningService.signAgreement(
+      agreement.id,
+      { method: 'typed', typedName: 'Nguyen Van An', consent: true, ...signingLink(agreement.id) },
+      { ipAddress: '203.0.113.7', userAgent: 'Mozilla/5.0' },
+      now
+    )
+
+    expect(signed).toMatchObject({
+      status: 'Signed',
+      signedDate: now,
+      signedDocumentUrl: `http://localhost:3000/api/agreements/${agreement.id}/document`
+    })
+    expect(signed.signers).toHaveLength(1)
+    expect(signed.signers[0]).toMatchObject({
+      id: agreement.id,
+      role: 'tenant',
+      status: 'Signed',
+      signatureAudit: {
+        method: 'typed',
+        signerName: 'Nguyen Van An',
+        signerEmail: 'an@example.com',
+        signedAt: now,
+        ipAddress: '203.0.113.7',
+        userAgent: 'Mozilla/5.0',
+        consentText: ELECTRONIC_SIGNATURE_CONSENT
+      }
+    })
+
+    // The hash is of the agreement as presented, before signing
+    const unsigned = await AgreementPdfService.renderAgreement('Lease Agreement', content, agreement.sentDate, [
+      'Tenant signature: Nguyen Van An'
+    ])
+    const audit = signed.signers[0].signatureAudit!
+    expect(signed.signedDocumentId).toBe(audit.signedDocumentId)
+    expect(audit.documentHash).toBe(crypto.createHash('sha256').update(unsigned.bytes).digest('hex'))
+
+    const { document, buffer } = await DocumentStorageService.retrieveDocument(audit.signedDocumentId)
+    expect(document).toMatchObject({ source: 'generated', checksum: audit.signedDocumentHash })
+    expect(document.metadata).toMatchObject({ signedBy: 'an@example.com', documentHash: audit.documentHash })
+
+    const unsignedPages = (await PDFDocument.load(unsigned.bytes)).getPageCount()
+    expect((await PDFDocument.load(new Uint8Array(buffer))).getPageCount()).toBe(unsignedPages + 1)
+  })
+
+  it('should stamp a drawn signature image', async () => {
+    const signed = await AgreementSigningService.signAgreement(
+      agreement.id,
+      { method: 'drawn', signatureImage: SIGNATURE_PNG, consent: true, ...signingLink(agreement.id) },
+      {},
+      now
+    )
+
+    const audit = signed.signers[0].signatureAudit
+    expect(audit?.method).toBe('drawn')
+    expect(audit?.documentHash).not.toBe(audit?.signedDocumentHash)
+  })
+
+  it('should require consent and a usable signature', async () => {
+    await expect(AgreementSigningService.signAgreement(agreement.id, { method: 'typed', typedName: 'An', consent: false, ...signingLink(agreement.id) }, {}, now))
+      .rejects.toThrow('Consent to sign electronically is required')
+    await expect(AgreementSigningService.signAgreement(agreement.id, { method: 'drawn', signatureImage: 'data:image/jpeg;base64,AAAA', consent: true, ...signingLink(agreement.id) }, {}, now))
+      .rejects.toThrow('Drawn signature must be a PNG image')
+    await expect(AgreementSigningService.signAgreement(agreement.id, { method: 'typed', typedName: '  ', consent: true, ...signingLink(agreement.id) }, {}, now))
+      .rejects.toThrow('Typed signature name is required')
+    expect(updateAgreement).not.toHaveBeenCalled()
+  })
+
+  it('should refuse agreements that are expired or already signed', async () => {
+    await expect(AgreementSigningService.signAgreement(agreement.id, { method: 'typed', typedName: 'An', consent: true, ...signingLink(agreement.id) }, {}, new Date('2024-02-01')))
+      .rejects.toThrow('Agreement has expired')
+
+    agreement = { ...agreement, status: 'Signed' }
+    await expect(AgreementSigningService.signAgreement(agreement.id, { method: 'typed', typedName: 'An', consent: true, ...signingLink(agreement.id) }, {}, now))
+      .rejects.toThrow('Agreement is not available for signing')
+  })
+
+  it('should only sign as the signer the signing link was sent to', async () => {
+    const request = { method: 'typed' as const, typedName: 'An', consent: true, signerId: agreement.id }
+
+    await expect(AgreementSigningService.signAgreement(agreement.id, request, {}, now))
+      .rejects.toThrow('Invalid signing link')
+    await expect(AgreementSigningService.signAgreement(agreement.id, { ...request, token: 'forged' }, {}, now))
+      .rejects.toThrow('Invalid signing link')
+    await expect(AgreementSigningService.signAgreement(agreement.id, {
+      ...request,
+      token: AgreementSignerService.getSigningToken(crypto.randomUUID(), agreement.id)
+    }, {}, now)).rejects.toThrow('Invalid signing link')
+    expect(updateAgreement).not.toHaveBeenCalled()
+  })
+
+  describe('with several signers', () => {
+    const typed = (name: string, signerId: string) => ({ method: 'typed' as const, typedName: name, consent: true, ...signingLink(signerId) })
+    let tenant: AgreementSigner
+    let guarantor: AgreementSigner
+    let landlord: AgreementSigner
+
+    beforeEach(() => {
+      ;[tenant, guarantor, landlord] = AgreementSignerService.buildSigners(
+        { name: 'Nguyen Van An', email: 'an@example.com' },
+        [
+          { role: 'guarantor', name: 'Nguyen Van Binh', email: 'binh@example.com' },
+          { role: 'landlord', name: 'Le Thi Cuc', email: 'cuc@example.com' }
+        ]
+      )
+      agreement = { ...agreement, signers: [tenant, guarantor, landlord] }
+    })
+
+    it('should take signatures in turn and only mark the agreement signed after the last', async () => {
+      await expect(AgreementSigningService.signAgreement(agreement.id, typed('Binh', guarantor.id), {}, now))
+        .rejects.toThrow('Waiting for Nguyen Van An to sign first')
+
+      let signed = await AgreementSigningService.signAgreement(agreement.id, typed('An', tenant.id), {}, now)
+      expect(signed.status).toBe('Viewed')
+      expect(signed.signers.map(signer => signer.status)).toEqual(['Signed', 'Pending', 'Pending'])
+
+      await expect(AgreementSigningService.signAgreement(agreement.id, typed('An', tenant.id), {}, now))
+        .rejects.toThrow('Signer has already signed')
+
+      signed = await AgreementSigningService.signAgreement(agreement.id, typed('Binh', guarantor.id), {}, now)
+      expect(signed.status).toBe('Viewed')
+
+      const signedAt = new Date('2024-01-06T08:00:00Z')
+      signed = await AgreementSigningService.signAgreement(agreement.id, typed('Cuc', landlord.id), { ipAddress: '198.51.100.2' }, signedAt)
+      expect(signed).toMatchObject({ status: 'Signed', signedDate: signedAt })
+      expect(signed.signers[2].signatureAudit).toMatchObject({ signerEmail: 'cuc@example.com', ipAddress: '198.51.100.2' })
+
+      // Every signature shares the hash of the unsigned agreement and ends up in one PDF
+      const hashes = new Set(signed.signers.map(signer => signer.signatureAudit!.documentHash))
+      expect(hashes.size).toBe(1)
+
+      const unsigned = await AgreementPdfService.renderAgreement('Lease Agreement', content, agreement.sentDate, [
+        'Tenant signature: Nguyen Van An',
+        'Guarantor signature: Nguyen Van Binh',
+        'Landlord signature: Le Thi Cuc'
+      ])
+      const { buffer } = await DocumentStorageService.retrieveDocument(signed.signedDocumentId!)
+      expect((await PDFDocument.load(new Uint8Array(buffer))).getPageCount()).toBe(unsigned.pageCount + 1)
+    })
+
+    it('should let parties sign in any order in parallel, with the landlord countersigning last', async () => {
+      agreement = { ...agreement, signingOrder: 'parallel' }
+
+      await expect(AgreementSigningService.signAgreement(agreement.id, typed('Cuc', landlord.id), {}, now))
+        .rejects.toThrow('Waiting for Nguyen Van An, Nguyen Van Binh to sign first')
+
+      await AgreementSigningService.signAgreement(agreement.id, typed('Binh', guarantor.id), {}, now)
+      await AgreementSigningService.signAgreement(agreement.id, typed('An', tenant.id), {}, now)
+      const signed = await AgreementSigningService.signAgreement(agreement.id, typed('Cuc', landlord.id), {}, now)
+
+      expect(signed.status).toBe('Signed')
+    })
+
+    it('should keep both signatures when two parties sign at the same time', async () => {
+      agreement = { ...agreement, signingOrder: 'parallel' }
+      const retrieveDocument = vi.spyOn(DocumentStorageService, 'retrieveDocument')
+
+      const [byTenant, byGuarantor] = await Promise.all([
+        AgreementSigningService.signAgreement(agreement.id, typed('An', tenant.id), {}, now),
+        AgreementSigningService.signAgreement(agreement.id, typed('Binh', guarantor.id), {}, now)
+      ])
+
+      expect(agreement.signers.map(signer => signer.status)).toEqual(['Signed', 'Signed', 'Pending'])
+      // The second signature is stamped on the copy carrying the first
+      const first = [byTenant, byGuarantor].find(signed => signed.signedDocumentId !== agreement.signedDocumentId)!
+      expect(retrieveDocument).toHaveBeenCalledTimes(1)
+      expect(retrieveDocument).toHaveBeenCalledWith(first.signedDocumentId)
+    })
+
+    it('should not wait for optional signers', async () => {
+      agreement = { ...agreement, signers: [tenant, { ...guarantor, required: false }] }
+
+      const signed = await AgreementSigningService.signAgreement(agreement.id, typed('An', tenant.id), {}, now)
+
+      expect(signed.status).toBe('Signed')
+      expect(signed.signers[1].status).toBe('Pending')
+    })
+
+    it('should reject unknown signers', async () => {
+      await expect(AgreementSigningService.signAgreement(agreement.id, typed('Eve', crypto.randomUUID()), {}, now))
+        .rejects.toThrow('Signer not found')
+    })
+  })
+})
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest'
+import crypto from 'crypto'
+import { AgreementTemplateRenderer } from '@/lib/agreements/template-renderer'
+import { TemplateVariable } from '@/lib/db/models/agreement'
+
+const variable = (name: string, type: TemplateVariable['type'], formula?: string): TemplateVariable => ({
+  id: crypto.randomUUID(),
+  name,
+  label: name,
+  type,
+  required: true,
+  selectOptions: [],
+  formula
+})
+
+const values = (entries: Record<string, unknown>) =>
+  Object.entries(entries).map(([name, value]) => ({ variableId: crypto.randomUUID(), name, value }))
+
+const LEASE_VARIABLES = [
+  variable('tenant_name', 'text'),
+  variable('allow_pets', 'boolean'),
+  variable('monthly_rent', 'number'),
+  variable('security_deposit', 'number'),
+  variable('lease_start_date', 'date'),
+  variable('lease_end_date', 'date'),
+  variable('lease_months', 'computed', 'months_between(lease_start_date, lease_end_date)'),
+  variable('total_rent', 'computed', 'monthly_rent * lease_months'),
+  variable('deposit_months', 'computed', 'round(security_deposit / monthly_rent, 1)')
+]
+
+describe('AgreementTemplateRenderer', () => {
+  it('should include clauses only when their condition holds', () => {
+    const content = 'Lease for {{tenant_name}}.{{#if allow_pets}} Pets are welcome.{{else}} No pets.{{/if}}'
+
+    expect(AgreementTemplateRenderer.render(content, LEASE_VARIABLES, values({ tenant_name: 'An', allow_pets: true })))
+      .toBe('Lease for An. Pets are welcome.')
+    // Form values arrive as strings
+    expect(AgreementTemplateRenderer.render(content, LEASE_VARIABLES, values({ tenant_name: 'An', allow_pets: 'false' })))
+      .toBe('Lease for An. No pets.')
+    expect(AgreementTemplateRenderer.render('{{#unless allow_pets}}No pets.{{/unless}}', LEASE_VARIABLES, values({})))
+      .toBe('No pets.')
+  })
+
+  it('should list the property house rules', () => {
+    const content = 'House rules:\n{{#each house_rules}}{{@number}}. {{this}}\n{{/each}}'
+
+    const rendered = AgreementTemplateRenderer.render(content, [], [], {
+      house_rules: ['No smoking', 'Quiet hours 10PM-8AM']
+    })
+
+    expect(rendered).toBe('House rules:\n1. No smoking\n2. Quiet hours 10PM-8AM\n')
+  })
+
+  it('should work out computed fields and format them', () => {
+    const content = [
+      'Term: {{lease_months}} months from {{date(lease_start_date)}}',
+      'Total rent: {{currency(total_rent)}}',
+      'Deposit: {{deposit_months}} months of rent ({{currency(security_deposit, \'VND\')}})',
+      '{{#if deposit_months > 2}}The deposit exceeds two months of rent.{{/if}}'
+    ].join('\n')
+
+    const rendered = AgreementTemplateRenderer.render(content, LEASE_VARIABLES, values({
+      monthly_rent: '1200',
+      security_deposit: '3000',
+      lease_start_date: '2024-02-01',
+      lease_end_date: '2024-07-31'
+    }))
+
+    expect(rendered).toBe([
+      'Term: 6 months from February 1, 2024',
+      'Total rent: $7,200.00',
+      'Deposit: 2.5 months of rent (₫3,000)',
+      'The deposit exceeds two months of rent.'
+    ].join('\n'))
+  })
+
+  it('should format amounts in the given currency by default', () => {
+    const rendered = AgreementTemplateRenderer.render('Rent: {{currency(monthly_rent)}}', LEASE_VARIABLES,
+      values({ monthly_rent: '5000000' }), {}, { currency: 'VND' })
+
+    expect(rendered).toBe('Rent: ₫5,000,000')
+  })
+
+  it('should reject number values that are not plain numbers', () => {
+    expect(() => AgreementTemplateRenderer.render('Rent: {{monthly_rent}}', LEASE_VARIABLES, values({ monthly_rent: '5.000.000' })))
+      .toThrow('monthly_rent must be a plain number')
+  })
+
+  it('should escape values and insert markup only through raw()', () => {
+    const variables = [variable('tenant_name', 'text'), variable('clause_html', 'text')]
+    const rendered = AgreementTemplateRenderer.render('<p>{{tenant_name}}</p>{{raw(clause_html)}}', variables, values({
+      tenant_name: '<img src=x onerror="alert(1)">',
+      clause_html: '<p><strong>No subletting.</strong></p>'
+    }))
+
+    expect(rendered).toBe('<p>&lt;img src=x onerror=&quot;alert(1)&quot;&gt;</p><p><strong>No subletting.</strong></p>')
+  })
+
+  it('should leave variables without a value as placeholders', () => {
+    expect(AgreementTemplateRenderer.render('Rent: ${{monthly_rent}} for {{tenant_name}}', LEASE_VARIABLES, values({ monthly_rent: '1200' })))
+      .toBe('Rent: $1200 for {{tenant_name}}')
+  })
+
+  describe('validate', () => {
+    it('should accept a valid template', () => {
+      const content = '{{tenant_name}} {{#if allow_pets and total_rent > 0}}{{currency(total_rent)}}{{/if}}{{#each house_rules}}{{this}}{{/each}}'
+
+      expect(AgreementTemplateRenderer.validate(content, LEASE_VARIABLES)).toEqual([])
+    })
+
+    it('should report undefined variables, including loop variables used outside a loop', () => {
+      expect(AgreementTemplateRenderer.validate('{{tenant_name}} {{pet_deposit}} {{this}}', LEASE_VARIABLES))
+        .toEqual(['Template content references undefined variables: pet_deposit, this'])
+    })
+
+    it('should report blocks that are not closed or closed by the wrong tag', () => {
+      expect(AgreementTemplateRenderer.validate('{{#if allow_pets}}Pets', LEASE_VARIABLES))
+        .toEqual(['{{#if}} is never closed'])
+      expect(AgreementTemplateRenderer.validate('{{#if allow_pets}}Pets{{/each}}', LEASE_VARIABLES))
+        .toEqual(['{{#if}} is closed by {{/each}}'])
+      expect(AgreementTemplateRenderer.validate('{{else}}', LEASE_VARIABLES))
+        .toEqual(['{{else}} outside an {{#if}} or {{#unless}} block'])
+    })
+
+    it('should report unknown functions and broken computed fields', () => {
+      const variables = [
+        ...LEASE_VARIABLES,
+        variable('weekly_rent', 'computed', 'monthly_rent / weeks'),
+        variable('a', 'computed', 'b + 1'),
+        variable('b', 'computed', 'a + 1'),
+        variable('fee', 'computed')
+      ]
+
+      expect(AgreementTemplateRenderer.validate('{{money(monthly_rent)}} {{date(lease_start_date, lease_end_date)}}', variables)).toEqual([
+        'Unknown function money()',
+        'date() takes 1 argument',
+        'Computed field weekly_rent references undefined variables: weeks',
+        'Computed field fee needs a formula',
+        'Computed fields refer to each other in a loop: a → b → a'
+      ])
+    })
+  })
+})
@@ -0,0 +1,266 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import crypto from 'crypto'
+import { AgreementTemplateService, diffTemplateContent } from '@/lib/agreements/templates'
+import { AgreementSendingService } from '@/lib/agreements/sending'
+import { AgreementTemplate, AgreementTemplateVersion } from '@/lib/db/models/agreement'
+import { createAgreement, getAgreement } from '@/lib/db/operations/agreements'
+import { getProperty } from '@/lib/db/operations/properties'
+
+// Templates and their versions, as the operations would store them
+const templates = new Map<string, AgreementTemplate>()
+const versions = new Map<string, AgreementTemplateVersion>()
+
+vi.mock('@/lib/db/operations/agreements', () => ({
+  getAgreementTemplate: vi.fn(async (id: string) => templates.get(id) ?? null),
+  updateAgreementTemplate: vi.fn(async (input: Partial<AgreementTemplate> & { id: string }) => {
+    const updated = { ...templates.get(input.id)!, ...input, updatedAt: new Date() }
+    templates.set(input.id, updated)
+    return updated
+  }),
+  createAgreementTemplateVersion: vi.fn(async (input: AgreementTemplateVersion) => {
+    const key = `${input.templateId}:${input.version}`
+    if (versions.has(key)) {
+      throw new Error('Template version already exists')
+    }
+    versions.set(key, input)
+    return input
+  }),
+  getAgreementTemplateVersion: vi.fn(async (templateId: string, version: number) =>
+    versions.get(`${templateId}:${version}`) ?? null),
+  getAgreementTemplateVersions: vi.fn(async (templateId: string) =>
+    Array.from(versions.values())
+      .filter(version => version.templateId === templateId)
+      .sort((a, b) => a.version - b.version)),
+  updateAgreementTemplateVersionReview: vi.fn(async (templateId: string, version: number, legalReviewedBy: string, legalReviewDate: Date) => {
+    const key = `${templateId}:${version}`
+    const reviewed = { ...versions.get(key)!, legalReviewedBy, legalReviewDate }
+    versions.set(key, reviewed)
+    return reviewed
+  }),
+  createAgreement: vi.fn(),
+  getAgreement: vi.fn(),
+  updateAgreement: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/properties', () => ({
+  getProperty: vi.fn()
+}))
+
+vi.mock('@/lib/agreements/notifications', () => ({
+  validateEmailDelivery: vi.fn(async () => true)
+}))
+
+const CONTENT = [
+  '# ROOM LEASE',
+  'Tenant: {{tenant_name}}',
+  'Property: Saigon House',
+  'Rent is due on the 1st of each month.',
+  'Notice period: 30 days.'
+].join('\n')
+
+const createTemplate = (overrides: Partial<AgreementTemplate> = {}): AgreementTemplate => {
+  const template: AgreementTemplate = {
+    id: crypto.randomUUID(),
+    name: 'Room Lease',
+    propertyId: crypto.randomUUID(),
+    content: CONTENT,
+    language: 'en',
+    translations: [],
+    variables: [{ id: crypto.randomUUID(), name: 'tenant_name', label: 'Tenant Name', type: 'text', required: true, selectOptions: [] }],
+    version: 1,
+    isActive: true,
+    category: 'Standard Lease',
+    createdAt: new Date('2024-01-01T09:00:00Z'),
+    updatedAt: new Date('2024-01-01T09:00:00Z'),
+    createdBy: crypto.randomUUID(),
+    ...overrides
+  }
+  templates.set(template.id, template)
+  return template
+}
+
+describe('Agreement template versions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    templates.clear()
+    versions.clear()
+  })
+
+  it('should keep earlier wording as its own version when the content changes', async () => {
+    const template = createTemplate({ legalReviewDate: new Date('2024-01-02'), legalReviewedBy: 'Tran Law' })
+
+    const updated = await AgreementTemplateService.updateTemplate({
+      id: template.id,
+      content: CONTENT.replace('30 days', '60 days'),
+      version: 7 // Ignored; versions are numbered by the service
+    }, 'manager-1', 'Longer notice period')
+
+    expect(updated).toMatchObject({ version: 2, legalReviewDate: undefined, legalReviewedBy: undefined })
+
+    const history = await AgreementTemplateService.getTemplateVersions(template.id)
+    expect(history.map(version => version.version)).toEqual([1, 2])
+    expect(history[0]).toMatchObject({ content: CONTENT, legalReviewedBy: 'Tran Law' })
+    expect(history[1]).toMatchObject({ changeNote: 'Longer notice period', createdBy: 'manager-1' })
+    expect(history[1].legalReviewDate).toBeUndefined()
+  })
+
+  it('should record a legal review on the current version without a new version', async () => {
+    const template = createTemplate()
+    await AgreementTemplateService.updateTemplate({ id: template.id, content: CONTENT.replace('1st', '5th') })
+
+    const reviewedAt = new Date('2024-02-01')
+    const reviewed = await AgreementTemplateService.reviewTemplateVersion(template.id, 2, 'Tran Law', reviewedAt)
+
+    expect(reviewed).toMatchObject({ version: 2, legalReviewedBy: 'Tran Law', legalReviewDate: reviewedAt })
+    expect(templates.get(template.id)).toMatchObject({ version: 2, legalReviewedBy: 'Tran Law' })
+    expect(versions.get(`${template.id}:1`)?.legalReviewDate).toBeUndefined()
+  })
+
+  it('should roll back by adding the earlier wording as a new version', async () => {
+    const template = createTemplate({ legalReviewDate: new Date('2024-01-02'), legalReviewedBy: 'Tran Law' })
+    await AgreementTemplateService.updateTemplate({ id: template.id, content: CONTENT.replace('30 days', '60 days') })
+
+    const rolledBack = await AgreementTemplateService.rollbackTemplate(template.id, 1, 'manager-1')
+
+    expect(rolledBack).toMatchObject({ version: 3, content: CONTENT, legalReviewedBy: 'Tran Law' })
+    expect(versions.get(`${template.id}:3`)).toMatchObject({ restoredFromVersion: 1, changeNote: 'Rolled back to version 1' })
+    expect(versions.get(`${template.id}:2`)?.content).toContain('60 days')
+
+    await expect(AgreementTemplateService.rollbackTemplate(template.id, 3))
+      .rejects.toThrow('Template is already at this version')
+    await expect(AgreementTemplateService.rollbackTemplate(template.id, 9))
+      .rejects.toThrow('Template version not found')
+  })
+
+  it('should diff versions side by side, pairing replaced lines', () => {
+    const rows = diffTemplateContent(
+      'Title\nRent: $500\nDeposit: $500\nSigned',
+      'Title\nRent: $600\nSigned\nWitness'
+    )
+
+    expect(rows.map(row => row.type)).toEqual(['unchanged', 'changed', 'removed', 'unchanged', 'added'])
+    expect(rows[1]).toEqual({
+      type: 'changed',
+      before: { lineNumber: 2, text: 'Rent: $500' },
+      after: { lineNumber: 2, text: 'Rent: $600' }
+    })
+    expect(rows[4].after).toEqual({ lineNumber: 4, text: 'Witness' })
+  })
+
+  describe('translations', () => {
+    const TRANSLATION = [
+      '# HỢP ĐỒNG THUÊ PHÒNG',
+      'Bên thuê: {{tenant_name}}',
+      'Bất động sản: Saigon House',
+      'Tiền thuê đến hạn vào ngày 1 hàng tháng.',
+      'Thời hạn báo trước: 30 ngày.'
+    ].join('\n')
+
+    it('should keep a translation clause for clause with the template wording', async () => {
+      const template = createTemplate({ content: CONTENT.replace(/\n/g, '\n\n') })
+
+      await expect(AgreementTemplateService.updateTemplate({
+        id: template.id,
+        translations: [{ language: 'vi', content: TRANSLATION }]
+      })).rejects.toThrow('Vietnamese wording has 1 clauses but the English wording has 5; separate clauses with a blank line and translate each one')
+      await expect(AgreementTemplateService.updateTemplate({
+        id: template.id,
+        translations: [{ language: 'vi', content: TRANSLATION.replace(/\n/g, '\n\n').replace('tenant_name', 'ten_ben_thue') }]
+      })).rejects.toThrow('Vietnamese wording: Template content references undefined variables: ten_ben_thue')
+      await expect(AgreementTemplateService.updateTemplate({
+        id: template.id,
+        translations: [{ language: 'en', content: CONTENT }]
+      })).rejects.toThrow('Template has more than one English wording')
+
+      const updated = await AgreementTemplateService.updateTemplate({
+        id: template.id,
+        translations: [{ language: 'vi', content: TRANSLATION.replace(/\n/g, '\n\n') }]
+      })
+      expect(updated.version).toBe(2)
+      expect(versions.get(`${template.id}:2`)?.translations).toEqual([{ language: 'vi', content: TRANSLATION.replace(/\n/g, '\n\n') }])
+    })
+
+    it('should compare versions in the chosen language', async () => {
+      const template = createTemplate({ translations: [{ language: 'vi', content: TRANSLATION }] })
+      await AgreementTemplateService.updateTemplate({
+        id: template.id,
+        translations: [{ language: 'vi', content: TRANSLATION.replace('30 ngày', '60 ngày') }]
+      })
+
+      const comparison = await AgreementTemplateService.compareVersions(template.id, 1, 2, 'vi')
+
+      expect(comparison.language).toBe('vi')
+      expect(comparison.rows.filter(row => row.type !== 'unchanged')).toEqual([{
+        type: 'changed',
+        before: { lineNumber: 5, text: 'Thời hạn báo trước: 30 ngày.' },
+        after: { lineNumber: 5, text: 'Thời hạn báo trước: 60 ngày.' }
+      }])
+    })
+  })
+
+  describe('sending', () => {
+    const request = (templateId: string) => ({
+      templateId,
+      prospectName: 'Nguyen Van An',
+      prospectEmail: 'an@example.com',
+      variableValues: []
+    })
+
+    beforeEach(() => {
+      vi.mocked(getProperty).mockResolvedValue({ id: crypto.randomUUID(), name: 'Saigon House' } as any)
+      vi.mocked(createAgreement).mockImplementation(async (input) => ({ ...input, id: crypto.randomUUID() }) as any)
+      // Everyone has already been invited, so no invitations go out
+      vi.mocked(getAgreement).mockImplementation(async (id) => {
+        const created = await vi.mocked(createAgreement).mock.results[0].value
+        return { ...created, id, signers: created.signers.map((signer: any) => ({ ...signer, notifiedDate: new Date() })) }
+      })
+    })
+
+    it('should require confirmation to send a version without a legal review', async () => {
+      const template = createTemplate()
+
+      await expect(AgreementSendingService.sendAgreement(request(template.id), 'manager-1'))
+        .rejects.toThrow('Template version has not been legally reviewed')
+      expect(createAgreement).not.toHaveBeenCalled()
+
+      await AgreementSendingService.sendAgreement({ ...request(template.id), confirmUnreviewedTemplate: true }, 'manager-1')
+      expect(createAgreement).toHaveBeenCalledWith(expect.objectContaining({ templateVersion: 1 }))
+    })
+
+    it('should pin the agreement to the version it was sent with', async () => {
+      const template = createTemplate({ legalReviewDate: new Date('2024-01-02'), legalReviewedBy: 'Tran Law' })
+      await AgreementTemplateService.updateTemplate({
+        id: template.id,
+        content: CONTENT.replace('30 days', '60 days'),
+        legalReviewedBy: 'Tran Law'
+      })
+
+      await AgreementSendingService.sendAgreement(request(template.id), 'manager-1')
+
+      expect(createAgreement).toHaveBeenCalledWith(expect.objectContaining({ templateVersion: 2 }))
+    })
+
+    it('should send the agreement in the languages the template is written in', async () => {
+      const template = createTemplate({
+        content: 'Tenant: {{tenant_name}}',
+        translations: [{ language: 'vi', content: 'Bên thuê: {{tenant_name}}' }],
+        legalReviewDate: new Date('2024-01-02'),
+        legalReviewedBy: 'Tran Law'
+      })
+
+      await AgreementSendingService.sendAgreement({
+        ...request(template.id),
+        prospectLanguage: 'vi',
+        documentLanguages: ['vi', 'en']
+      }, 'manager-1')
+
+      const created = vi.mocked(createAgreement).mock.calls[0][0]
+      expect(created.documentLanguages).toEqual(['vi', 'en'])
+      expect(created.signers[0].language).toBe('vi')
+
+      const englishOnly = createTemplate({ legalReviewDate: new Date('2024-01-02'), legalReviewedBy: 'Tran Law' })
+      await expect(AgreementSendingService.sendAgreement({ ...request(englishOnly.id), documentLanguages: ['vi'] }, 'manager-1'))
+        .rejects.toThrow('Template has no Vietnamese wording')
+    })
+  })
+})
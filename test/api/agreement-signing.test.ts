@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import crypto from 'crypto'
+import { NextRequest } from 'next/server'
+import { GET, POST } from '@/app/api/agreements/[id]/sign/route'
+import { AgreementSignerService } from '@/lib/agreements/signers'
+import { Agreement } from '@/lib/db/models/agreement'
+import { getAgreement, updateAgreement } from '@/lib/db/operations/agreements'
+
+vi.mock('@/lib/db/operations/agreements', () => ({
+  acquireAgreementSigningLock: vi.fn(async () => 'owner'),
+  releaseAgreementSigningLock: vi.fn(),
+  getAgreement: vi.fn(),
+  getAgreementTemplate: vi.fn(),
+  updateAgreement: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/properties', () => ({
+  getProperty: vi.fn()
+}))
+
+vi.mock('@/lib/auth/session-security', () => ({
+  getClientIP: vi.fn(() => '203.0.113.7')
+}))
+
+vi.mock('@/lib/db/operations/tenants', () => ({}))
+vi.mock('@/lib/db/operations/communications', () => ({}))
+
+const agreement: Agreement = {
+  id: crypto.randomUUID(),
+  templateId: crypto.randomUUID(),
+  propertyId: crypto.randomUUID(),
+  prospectName: 'Nguyen Van An',
+  prospectEmail: 'an@example.com',
+  status: 'Sent',
+  sentDate: new Date(),
+  expirationDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+  remindersSent: 0,
+  agreementData: {},
+  signers: AgreementSignerService.buildSigners(
+    { name: 'Nguyen Van An', email: 'an@example.com' },
+    [{ role: 'guarantor', name: 'Tran Thi Binh', email: 'binh@example.com' }]
+  ),
+  signingOrder: 'parallel',
+  tenantCreated: false,
+  tenantIds: [],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  createdBy: crypto.randomUUID()
+}
+
+const [tenant, guarantor] = agreement.signers
+
+const signingRequest = (query: Record<string, string>, method = 'GET') => new NextRequest(
+  `http://localhost:3000/api/agreements/${agreement.id}/sign?${new URLSearchParams(query)}`,
+  method === 'POST'
+    ? { method, body: JSON.stringify({ method: 'typed', typedName: 'Binh', consent: true }) }
+    : { method }
+)
+
+describe('/api/agreements/[id]/sign', () => {
+  const params = { params: { id: agreement.id } }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getAgreement).mockResolvedValue(agreement)
+  })
+
+  it('should require the signer from the signing link', async () => {
+    const token = AgreementSignerService.getSigningToken(agreement.id, tenant.id)
+
+    expect((await GET(signingRequest({ token }), params)).status).toBe(400)
+    expect((await POST(signingRequest({ token }, 'POST'), params)).status).toBe(400)
+  })
+
+  it('should refuse a signing link used as another signer', async () => {
+    const guarantorToken = AgreementSignerService.getSigningToken(agreement.id, guarantor.id)
+
+    expect((await GET(signingRequest({ signer: tenant.id, token: guarantorToken }), params)).status).toBe(403)
+    expect((await GET(signingRequest({ signer: guarantor.id }), params)).status).toBe(403)
+    expect((await POST(signingRequest({ signer: tenant.id, token: guarantorToken }, 'POST'), params)).status).toBe(403)
+    expect(updateAgreement).not.toHaveBeenCalled()
+  })
+})
@@ -129,7 +129,35 @@ describe('/api/cron/payment-reminders', () => {
 
       expect(response.status).toBe(200)
       expect(data.message).toContain('Payment reminder cron job endpoint is active')
-      expect(data.nextScheduledRun).toBe('Daily at 9:00 AM UTC')
+      expect(data.nextScheduledRun).toBe('Hourly, on the hour')
+    })
+
+    it('should process reminders when Vercel Cron calls on schedule', async () => {
+      const { processAutomatedReminders } = await import('@/lib/email/reminder-scheduler')
+      const { cleanupOldReminderLogs } = await import('@/lib/db/operations/reminders')
+
+      vi.mocked(processAutomatedReminders).mockResolvedValue({
+        processed: 2,
+        sent: 1,
+        skipped: 1,
+        errors: []
+      })
+      vi.mocked(cleanupOldReminderLogs).mockResolvedValue(0)
+
+      const request = new NextRequest('http://localhost:3000/api/cron/payment-reminders', {
+        method: 'GET',
+        headers: {
+          'authorization': 'Bearer test-secret',
+          'user-agent': 'vercel-cron/1.0'
+        }
+      })
+
+      const response = await GET(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(processAutomatedReminders).toHaveBeenCalled()
+      expect(data.results.sent).toBe(1)
     })
 
     it('should reject unauthorized GET requests', async () => {
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { GET } from '@/app/api/cron/reminders/route'
+import { NextRequest } from 'next/server'
+import { AutomatedReminderService } from '@/lib/agreements/reminders'
+
+vi.mock('@/lib/agreements/reminders', () => ({
+  AutomatedReminderService: {
+    processReminders: vi.fn(),
+    getConfig: vi.fn(),
+    getReminderStats: vi.fn()
+  }
+}))
+
+const request = (headers: Record<string, string>) =>
+  new NextRequest('http://localhost:3000/api/cron/reminders', { method: 'GET', headers })
+
+describe('/api/cron/reminders', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    process.env.CRON_SECRET = 'test-secret'
+  })
+
+  afterEach(() => {
+    delete process.env.CRON_SECRET
+  })
+
+  it('should process agreement reminders when Vercel Cron calls GET', async () => {
+    vi.mocked(AutomatedReminderService.processReminders).mockResolvedValue({ processed: 2, sent: 1 } as any)
+
+    const response = await GET(request({ authorization: 'Bearer test-secret', 'user-agent': 'vercel-cron/1.0' }))
+
+    expect(response.status).toBe(200)
+    expect(AutomatedReminderService.processReminders).toHaveBeenCalled()
+    expect((await response.json()).stats).toEqual({ processed: 2, sent: 1 })
+  })
+
+  it('should only report status for other GET requests', async () => {
+    vi.mocked(AutomatedReminderService.getConfig).mockReturnValue({ enabled: true } as any)
+    vi.mocked(AutomatedReminderService.getReminderStats).mockResolvedValue({} as any)
+
+    const response = await GET(request({ authorization: 'Bearer test-secret' }))
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).status).toBe('enabled')
+    expect(AutomatedReminderService.processReminders).not.toHaveBeenCalled()
+  })
+})
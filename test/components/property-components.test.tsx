@@ -290,6 +290,66 @@ describe('Property Management Components', () => {
 
       expect(screen.getByText('Available for new tenant')).toBeInTheDocument()
     })
+
+    it('should show a prospect hold apart from occupancy', () => {
+      const today = new Date()
+      render(
+        <OccupancyCalendar
+          occupancyHistory={mockOccupancyData.filter(o => o.status === 'Past')}
+          reservations={[{
+            id: 'reservation-1',
+            roomId: 'room-1',
+            propertyId: 'prop-1',
+            prospectName: 'Linh Tran',
+            prospectEmail: 'linh@example.com',
+            prospectId: 'prospect-1',
+            startDate: new Date(today.getFullYear(), today.getMonth(), 1),
+            endDate: new Date(today.getFullYear(), today.getMonth(), 2),
+            holdExpiresAt: new Date(today.getFullYear(), today.getMonth() + 1, 1),
+            status: 'Held' as const,
+            currency: 'USD',
+            createdAt: today,
+            updatedAt: today,
+          }]}
+          roomId="room-1"
+          onUpdate={() => {}}
+        />
+      )
+
+      expect(screen.getByTestId('occupancy-hold')).toHaveTextContent('On hold for Linh Tran')
+      expect(screen.getAllByTestId('occupancy-hold-day')).toHaveLength(2)
+      expect(screen.getByText('On hold', { selector: 'span' })).toBeInTheDocument()
+    })
+
+    it('should flag imported bookings that clash with a tenant', () => {
+      const today = new Date()
+      render(
+        <OccupancyCalendar
+          occupancyHistory={[
+            ...mockOccupancyData,
+            {
+              id: 'block-1',
+              roomId: 'room-1',
+              kind: 'Block' as const,
+              startDate: new Date(today.getFullYear(), today.getMonth(), 3),
+              endDate: new Date(today.getFullYear(), today.getMonth(), 5),
+              status: 'Future' as const,
+              externalCalendar: 'Airbnb',
+              externalUid: 'booking-1@airbnb.com',
+              summary: 'Reserved',
+              createdAt: today,
+              updatedAt: today,
+            },
+          ]}
+          roomId="room-1"
+          onUpdate={() => {}}
+        />
+      )
+
+      expect(screen.getByTestId('occupancy-conflicts')).toHaveTextContent('Airbnb booking "Reserved" overlaps Tenant tenant-2')
+      expect(screen.getAllByTestId('occupancy-conflict-day')).toHaveLength(3)
+      expect(screen.queryByTestId('occupancy-block-day')).not.toBeInTheDocument()
+    })
   })
 
   describe('MaintenanceTracker', () => {
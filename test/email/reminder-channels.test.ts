@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { processAutomatedReminders } from '@/lib/email/reminder-scheduler'
+import { getPaymentById, getPaymentsByStatus } from '@/lib/db/operations/payments'
+import { getTenantById } from '@/lib/db/operations/tenants'
+import { getPropertyById } from '@/lib/db/operations/properties'
+import { createReminderLog, getReminderHistory, getTenantReminderPreferences } from '@/lib/db/operations/reminders'
+import { CommunicationOperations } from '@/lib/db/operations/communications'
+import { FakeMessagingProvider } from '@/lib/messaging/providers/fake'
+import { setMessagingProvider } from '@/lib/messaging/channels'
+
+vi.mock('@/lib/db/operations/payments', () => ({
+  getPaymentsByStatus: vi.fn(),
+  getPaymentById: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/tenants', () => ({
+  getTenantById: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/properties', () => ({
+  getPropertyById: vi.fn()
+}))
+
+vi.mock('@/lib/payments/late-fees', () => ({
+  getAccruedLateFeeCents: vi.fn().mockResolvedValue(0)
+}))
+
+vi.mock('@/lib/db/operations/reminders', () => ({
+  createReminderLog: vi.fn(),
+  getReminderHistory: vi.fn(),
+  getReminderSettings: vi.fn(),
+  getTenantReminderPreferences: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/communications', () => ({
+  CommunicationOperations: { create: vi.fn() }
+}))
+
+const tenantId = '550e8400-e29b-41d4-a716-446655440031'
+const payment = {
+  id: '550e8400-e29b-41d4-a716-446655440032',
+  tenantId,
+  propertyId: '550e8400-e29b-41d4-a716-446655440033',
+  amountCents: 150000,
+  // Due Tue 10 Jun 2025, so the 7 day reminder is for Tue 3 Jun
+  dueDate: new Date(2025, 5, 10).toISOString(),
+  status: 'pending',
+  description: 'Monthly Rent'
+}
+
+describe('multi-channel reminders', () => {
+  let email: FakeMessagingProvider
+  let whatsApp: FakeMessagingProvider
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers({ toFake: ['Date'] })
+    email = new FakeMessagingProvider('email')
+    whatsApp = new FakeMessagingProvider('whatsapp')
+    setMessagingProvider('email', email)
+    setMessagingProvider('whatsapp', whatsApp)
+
+    vi.mocked(getPaymentsByStatus).mockResolvedValue([payment] as any)
+    vi.mocked(getPaymentById).mockResolvedValue(payment as any)
+    vi.mocked(getTenantById).mockResolvedValue({
+      id: tenantId,
+      firstName: 'Linh',
+      lastName: 'Tran',
+      email: 'linh@example.com',
+      phone: '+84900000000'
+    } as any)
+    vi.mocked(getPropertyById).mockResolvedValue({ id: payment.propertyId, name: 'An Thuong House' } as any)
+    vi.mocked(getReminderHistory).mockResolvedValue([])
+    vi.mocked(createReminderLog).mockResolvedValue({} as any)
+  })
+
+  afterEach(() => {
+    setMessagingProvider('email', null)
+    setMessagingProvider('whatsapp', null)
+    vi.useRealTimers()
+  })
+
+  it('sends the reminder on every channel the tenant chose and logs each one', async () => {
+    vi.mocked(getTenantReminderPreferences).mockResolvedValue({
+      tenantId,
+      emailEnabled: true,
+      optOut: false,
+      channels: ['email', 'whatsapp'],
+      phoneNumber: '+84901234567'
+    } as any)
+
+    // 9am Vietnam time on 3 Jun
+    vi.setSystemTime(new Date('2025-06-03T02:00:00Z'))
+    expect(await processAutomatedReminders()).toMatchObject({ queued: 1, sent: 1 })
+
+    expect(email.sent).toEqual([expect.objectContaining({ to: 'linh@example.com' })])
+    expect(whatsApp.sent).toEqual([expect.objectContaining({ to: '+84901234567' })])
+    expect(whatsApp.sent[0].text).toContain('An Thuong House')
+
+    expect(createReminderLog).toHaveBeenCalledWith(expect.objectContaining({
+      channel: 'email', status: 'sent', messageId: email.sent[0].messageId
+    }))
+    expect(createReminderLog).toHaveBeenCalledWith(expect.objectContaining({
+      channel: 'whatsapp', recipient: '+84901234567', status: 'sent', messageId: whatsApp.sent[0].messageId
+    }))
+    expect(CommunicationOperations.create).toHaveBeenCalledWith(expect.objectContaining({ type: 'WhatsApp', tenantId }))
+  })
+
+  it('logs a failure for each channel it could not reach', async () => {
+    vi.mocked(getTenantReminderPreferences).mockResolvedValue({
+      tenantId,
+      emailEnabled: false,
+      optOut: false,
+      channels: ['email', 'whatsapp', 'zalo']
+    } as any)
+    whatsApp.failNext('Recipient not on WhatsApp')
+    // A different payment, as the first test already queued and sent this one's reminder
+    const unpaid = { ...payment, id: '550e8400-e29b-41d4-a716-446655440034' }
+    vi.mocked(getPaymentsByStatus).mockResolvedValue([unpaid] as any)
+    vi.mocked(getPaymentById).mockResolvedValue(unpaid as any)
+
+    vi.setSystemTime(new Date('2025-06-03T02:00:00Z'))
+    expect(await processAutomatedReminders()).toMatchObject({ queued: 1, sent: 0 })
+
+    // Email is switched off, WhatsApp failed and there is no Zalo ID to send to
+    expect(email.sent).toHaveLength(0)
+    expect(createReminderLog).toHaveBeenCalledTimes(2)
+    expect(createReminderLog).toHaveBeenCalledWith(expect.objectContaining({
+      channel: 'whatsapp', recipient: '+84900000000', status: 'failed', error: 'Recipient not on WhatsApp'
+    }))
+    expect(createReminderLog).toHaveBeenCalledWith(expect.objectContaining({
+      channel: 'zalo', status: 'failed', error: 'No zalo contact for tenant'
+    }))
+  })
+})
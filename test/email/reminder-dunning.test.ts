@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { kv } from '@vercel/kv'
+import { processAutomatedReminders } from '@/lib/email/reminder-scheduler'
+import { getPaymentById, getPaymentsByStatus } from '@/lib/db/operations/payments'
+import { getTenantById } from '@/lib/db/operations/tenants'
+import { getPropertyById } from '@/lib/db/operations/properties'
+import { createReminderLog, getReminderHistory, getTenantReminderPreferences } from '@/lib/db/operations/reminders'
+import { CommunicationOperations } from '@/lib/db/operations/communications'
+import { checkRateLimit, sendPaymentReminder } from '@/lib/email/reminder-sender'
+import { getActiveDunningProgress, getDunningProgressRecords, saveDunningWorkflow } from '@/lib/db/operations/dunning'
+import { DEFAULT_DUNNING_STAGES } from '@/lib/db/models/dunning'
+
+vi.mock('@vercel/kv', () => ({
+  kv: { set: vi.fn() }
+}))
+
+vi.mock('@/lib/db/operations/payments', () => ({
+  getPaymentsByStatus: vi.fn(),
+  getPaymentById: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/tenants', () => ({
+  getTenantById: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/properties', () => ({
+  getPropertyById: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/reminders', () => ({
+  createReminderLog: vi.fn(),
+  getReminderHistory: vi.fn(),
+  getReminderSettings: vi.fn(),
+  getTenantReminderPreferences: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/communications', () => ({
+  CommunicationOperations: { create: vi.fn() }
+}))
+
+vi.mock('@/lib/email/reminder-sender', () => ({
+  sendPaymentReminder: vi.fn(),
+  checkRateLimit: vi.fn()
+}))
+
+const propertyId = '550e8400-e29b-41d4-a716-446655440041'
+const ownerId = '550e8400-e29b-41d4-a716-446655440042'
+const managerId = 'manager-1'
+
+function overduePayment(id: string) {
+  return {
+    id,
+    tenantId: '550e8400-e29b-41d4-a716-446655440043',
+    propertyId,
+    amountCents: 150000,
+    // Due Mon 2 Jun 2025
+    dueDate: new Date(2025, 5, 2).toISOString(),
+    status: 'overdue',
+    description: 'Monthly Rent'
+  }
+}
+
+// 9am Vietnam time, the default send time, on the given June day
+async function runOn(day: number) {
+  vi.setSystemTime(new Date(Date.UTC(2025, 5, day, 2)))
+  return processAutomatedReminders()
+}
+
+describe('dunning workflow', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    vi.useFakeTimers({ toFake: ['Date'] })
+    await saveDunningWorkflow({ propertyId, managerId, stages: DEFAULT_DUNNING_STAGES })
+
+    vi.mocked(getTenantById).mockImplementation(async id => ({ id, firstName: 'Minh', lastName: 'Pham', email: 'minh@example.com' }) as any)
+    vi.mocked(getPropertyById).mockResolvedValue({ id: propertyId, name: 'My Khe House', ownerId } as any)
+    vi.mocked(getTenantReminderPreferences).mockResolvedValue(null)
+    vi.mocked(getReminderHistory).mockResolvedValue([])
+    vi.mocked(checkRateLimit).mockReturnValue(true)
+    vi.mocked(sendPaymentReminder).mockResolvedValue({ success: true, messageId: 'message-1' })
+    vi.mocked(createReminderLog).mockResolvedValue({} as any)
+    vi.mocked(CommunicationOperations.create).mockImplementation(async input => ({ ...input, id: 'comm-1' }) as any)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('moves an overdue payment through the stages with their notices and actions', async () => {
+    const payment = overduePayment('550e8400-e29b-41d4-a716-446655440044')
+    vi.mocked(getPaymentsByStatus).mockResolvedValue([payment] as any)
+    vi.mocked(getPaymentById).mockResolvedValue(payment as any)
+
+    // A day overdue: the friendly reminder replaces the usual overdue reminder
+    expect(await runOn(3)).toMatchObject({ sent: 1, escalated: 1 })
+    expect(sendPaymentReminder).toHaveBeenLastCalledWith(payment, expect.anything(), expect.objectContaining({ notice: 'friendly' }))
+    expect(await getActiveDunningProgress(payment.id)).toMatchObject({ stageKey: 'friendly-reminder', stageIndex: 0 })
+
+    // Nothing more until the firm notice, which is due on a Saturday and goes out on Monday
+    expect(await runOn(4)).toMatchObject({ queued: 0, sent: 0 })
+    expect(await runOn(7)).toMatchObject({ queued: 0, sent: 0 })
+    expect(await runOn(9)).toMatchObject({ sent: 1, escalated: 1 })
+    expect(sendPaymentReminder).toHaveBeenLastCalledWith(payment, expect.anything(), expect.objectContaining({ notice: 'firm' }))
+
+    // The manager call stage only creates a task
+    vi.mocked(sendPaymentReminder).mockClear()
+    expect(await runOn(12)).toMatchObject({ sent: 0, escalated: 1 })
+    expect(sendPaymentReminder).not.toHaveBeenCalled()
+    expect(kv.set).toHaveBeenCalledWith(
+      expect.stringMatching(new RegExp(`^task:${propertyId}:task_`)),
+      expect.objectContaining({
+        priority: 'High',
+        assignedTo: [managerId],
+        title: 'Call Minh Pham about overdue rent',
+        description: expect.stringContaining('Monthly Rent of $1,500.00 (ref')
+      })
+    )
+
+    // The formal notice also escalates to the manager
+    expect(await runOn(17)).toMatchObject({ sent: 1, escalated: 1 })
+    expect(sendPaymentReminder).toHaveBeenLastCalledWith(payment, expect.anything(), expect.objectContaining({ notice: 'formal' }))
+    expect(CommunicationOperations.create).toHaveBeenCalledWith(expect.objectContaining({
+      priority: 'High', assignedTo: managerId, status: 'Open', paymentId: payment.id
+    }))
+
+    const progress = await getActiveDunningProgress(payment.id)
+    expect(progress?.history.map(entry => entry.stageKey)).toEqual(['friendly-reminder', 'firm-notice', 'manager-call', 'formal-notice'])
+    expect(progress?.history[2].taskId).toMatch(/^task_/)
+    expect(progress?.history[3].communicationIds).toEqual(['comm-1'])
+  })
+
+  it('jumps to the latest stage due, hands off to the owner and resolves once paid', async () => {
+    const payment = overduePayment('550e8400-e29b-41d4-a716-446655440045')
+    vi.mocked(getPaymentsByStatus).mockResolvedValue([payment] as any)
+    vi.mocked(getPaymentById).mockResolvedValue(payment as any)
+
+    // First seen 30 days overdue, on Wed 2 Jul
+    vi.setSystemTime(new Date('2025-07-02T02:00:00Z'))
+    expect(await processAutomatedReminders()).toMatchObject({ sent: 0, escalated: 1 })
+    expect(CommunicationOperations.create).toHaveBeenCalledTimes(1)
+    expect(CommunicationOperations.create).toHaveBeenCalledWith(expect.objectContaining({ priority: 'Urgent', assignedTo: ownerId }))
+    expect(await getActiveDunningProgress(payment.id)).toMatchObject({ stageKey: 'owner-hand-off', history: [expect.anything()] })
+
+    vi.mocked(getPaymentsByStatus).mockResolvedValue([])
+    vi.mocked(getPaymentById).mockResolvedValue({ ...payment, status: 'paid' } as any)
+    vi.setSystemTime(new Date('2025-07-03T02:00:00Z'))
+    await processAutomatedReminders()
+
+    expect(await getActiveDunningProgress(payment.id)).toBeNull()
+    const [resolved] = await getDunningProgressRecords({ propertyId }).then(records => records.filter(r => r.paymentId === payment.id))
+    expect(resolved.resolvedAt).toEqual(new Date('2025-07-03T02:00:00Z'))
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { processAutomatedReminders } from '@/lib/email/reminder-scheduler'
+import { getPaymentById, getPaymentsByStatus } from '@/lib/db/operations/payments'
+import { getTenantById } from '@/lib/db/operations/tenants'
+import { createReminderLog, getReminderHistory, getReminderSettings } from '@/lib/db/operations/reminders'
+import { checkRateLimit, sendPaymentReminder } from '@/lib/email/reminder-sender'
+import type { ReminderSettings } from '@/lib/db/models/reminder'
+
+vi.mock('@/lib/db/operations/payments', () => ({
+  getPaymentsByStatus: vi.fn(),
+  getPaymentById: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/tenants', () => ({
+  getTenantById: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/properties', () => ({
+  getPropertyById: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/reminders', () => ({
+  createReminderLog: vi.fn(),
+  getReminderHistory: vi.fn(),
+  getReminderSettings: vi.fn(),
+  getTenantReminderPreferences: vi.fn()
+}))
+
+vi.mock('@/lib/email/reminder-sender', () => ({
+  sendPaymentReminder: vi.fn(),
+  checkRateLimit: vi.fn()
+}))
+
+const payment = {
+  id: '550e8400-e29b-41d4-a716-446655440001',
+  tenantId: '550e8400-e29b-41d4-a716-446655440002',
+  propertyId: '550e8400-e29b-41d4-a716-446655440003',
+  amountCents: 150000,
+  // Due Wed 7 May 2025, so the 7 day reminder falls on Reunification Day
+  dueDate: new Date(2025, 4, 7).toISOString(),
+  status: 'pending',
+  description: 'Monthly Rent'
+}
+
+async function runOn(date: Date) {
+  vi.setSystemTime(date)
+  return processAutomatedReminders()
+}
+
+describe('holiday-aware reminder scheduling', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.mocked(getPaymentsByStatus).mockResolvedValue([payment] as any)
+    vi.mocked(getPaymentById).mockResolvedValue(payment as any)
+    vi.mocked(getTenantById).mockResolvedValue({ id: payment.tenantId, email: 'an@example.com' } as any)
+    vi.mocked(getReminderHistory).mockResolvedValue([])
+    vi.mocked(checkRateLimit).mockReturnValue(true)
+    vi.mocked(sendPaymentReminder).mockResolvedValue({ success: true, messageId: 'message-1' })
+    vi.mocked(createReminderLog).mockResolvedValue({} as any)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('defers a reminder that falls on a holiday to the next business day', async () => {
+    // Wed 30 Apr and Thu 1 May are public holidays; sends go out at 9am Vietnam time
+    expect((await runOn(new Date('2025-04-30T03:00:00Z'))).sent).toBe(0)
+    expect((await runOn(new Date('2025-05-01T03:00:00Z'))).sent).toBe(0)
+
+    expect((await runOn(new Date('2025-05-02T03:00:00Z'))).sent).toBe(1)
+    expect(createReminderLog).toHaveBeenCalledWith(expect.objectContaining({ reminderType: 'upcoming' }))
+  })
+
+  it('sends on holidays when the property settings allow it', async () => {
+    vi.mocked(getReminderSettings).mockResolvedValue({ sendOnHolidays: true } as ReminderSettings)
+
+    expect((await runOn(new Date('2025-04-30T03:00:00Z'))).sent).toBe(1)
+    expect(getReminderSettings).toHaveBeenCalledWith(payment.propertyId)
+  })
+})
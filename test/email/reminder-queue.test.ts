@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { processAutomatedReminders } from '@/lib/email/reminder-scheduler'
+import { getPaymentById, getPaymentsByStatus } from '@/lib/db/operations/payments'
+import { getTenantById } from '@/lib/db/operations/tenants'
+import { createReminderLog, getReminderHistory, getTenantReminderPreferences } from '@/lib/db/operations/reminders'
+import { checkRateLimit, sendPaymentReminder } from '@/lib/email/reminder-sender'
+import { getQueuedRemindersByTenant } from '@/lib/db/operations/scheduled-reminders'
+
+vi.mock('@/lib/db/operations/payments', () => ({
+  getPaymentsByStatus: vi.fn(),
+  getPaymentById: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/tenants', () => ({
+  getTenantById: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/properties', () => ({
+  getPropertyById: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/reminders', () => ({
+  createReminderLog: vi.fn(),
+  getReminderHistory: vi.fn(),
+  getReminderSettings: vi.fn(),
+  getTenantReminderPreferences: vi.fn()
+}))
+
+vi.mock('@/lib/email/reminder-sender', () => ({
+  sendPaymentReminder: vi.fn(),
+  checkRateLimit: vi.fn()
+}))
+
+const propertyId = '550e8400-e29b-41d4-a716-446655440000'
+
+function rentPayment(id: string, tenantId: string, status = 'pending') {
+  return {
+    id,
+    tenantId,
+    propertyId,
+    amountCents: 150000,
+    // Due Tue 10 Jun 2025, so the 7 day reminder is for Tue 3 Jun
+    dueDate: new Date(2025, 5, 10).toISOString(),
+    status,
+    description: 'Monthly Rent'
+  }
+}
+
+async function runAt(instant: string) {
+  vi.setSystemTime(new Date(instant))
+  return processAutomatedReminders()
+}
+
+describe('reminder queue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.mocked(getTenantById).mockImplementation(async id => ({ id, email: 'tenant@example.com' }) as any)
+    vi.mocked(getReminderHistory).mockResolvedValue([])
+    vi.mocked(checkRateLimit).mockReturnValue(true)
+    vi.mocked(sendPaymentReminder).mockResolvedValue({ success: true, messageId: 'message-1' })
+    vi.mocked(createReminderLog).mockResolvedValue({} as any)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('sends at the preferred hour in the tenant\'s own time zone', async () => {
+    const tenantId = '550e8400-e29b-41d4-a716-446655440011'
+    const payment = rentPayment('550e8400-e29b-41d4-a716-446655440012', tenantId)
+    vi.mocked(getPaymentsByStatus).mockResolvedValue([payment] as any)
+    vi.mocked(getPaymentById).mockResolvedValue(payment as any)
+    vi.mocked(getTenantReminderPreferences).mockResolvedValue({
+      tenantId,
+      emailEnabled: true,
+      optOut: false,
+      preferredTime: '08:30',
+      timezone: 'Europe/Lisbon'
+    } as any)
+
+    // 9am in Vietnam is 3am in Lisbon on 3 Jun: queue it, don't send it
+    const early = await runAt('2025-06-03T02:00:00Z')
+    expect(early).toMatchObject({ queued: 1, sent: 0 })
+    const [queued] = await getQueuedRemindersByTenant(tenantId)
+    expect(queued).toMatchObject({ localDate: '2025-06-03', timeZone: 'Europe/Lisbon', sendAt: new Date('2025-06-03T07:30:00Z') })
+
+    // Later runs that day neither queue it again nor send before 08:30 Lisbon
+    expect(await runAt('2025-06-03T07:00:00Z')).toMatchObject({ queued: 0, sent: 0 })
+    expect(await runAt('2025-06-03T08:00:00Z')).toMatchObject({ queued: 0, sent: 1 })
+    expect(createReminderLog).toHaveBeenCalledWith(expect.objectContaining({ paymentId: payment.id, reminderType: 'upcoming' }))
+    expect(await getQueuedRemindersByTenant(tenantId)).toHaveLength(0)
+  })
+
+  it('drops a queued reminder if the payment is settled before its send time', async () => {
+    const tenantId = '550e8400-e29b-41d4-a716-446655440021'
+    const payment = rentPayment('550e8400-e29b-41d4-a716-446655440022', tenantId)
+    vi.mocked(getPaymentsByStatus).mockResolvedValue([payment] as any)
+    vi.mocked(getTenantReminderPreferences).mockResolvedValue(null)
+
+    // No preferences: 9am Vietnam time
+    expect(await runAt('2025-06-03T01:00:00Z')).toMatchObject({ queued: 1, sent: 0 })
+
+    vi.mocked(getPaymentsByStatus).mockResolvedValue([])
+    vi.mocked(getPaymentById).mockResolvedValue({ ...payment, status: 'Paid' } as any)
+    expect(await runAt('2025-06-03T02:00:00Z')).toMatchObject({ sent: 0, skipped: 1 })
+    expect(sendPaymentReminder).not.toHaveBeenCalled()
+  })
+
+  it('drops a queued reminder if the payment is waived before its send time', async () => {
+    const tenantId = '550e8400-e29b-41d4-a716-446655440023'
+    const payment = rentPayment('550e8400-e29b-41d4-a716-446655440024', tenantId)
+    vi.mocked(getPaymentsByStatus).mockResolvedValue([payment] as any)
+    vi.mocked(getTenantReminderPreferences).mockResolvedValue(null)
+
+    expect(await runAt('2025-06-03T01:00:00Z')).toMatchObject({ queued: 1, sent: 0 })
+
+    vi.mocked(getPaymentsByStatus).mockResolvedValue([])
+    vi.mocked(getPaymentById).mockResolvedValue({ ...payment, status: 'Waived' } as any)
+    expect(await runAt('2025-06-03T02:00:00Z')).toMatchObject({ sent: 0, skipped: 1 })
+    expect(sendPaymentReminder).not.toHaveBeenCalled()
+  })
+})
@@ -17,7 +17,9 @@ vi.mock('@/lib/db/operations/properties', () => ({
 
 vi.mock('@/lib/db/operations/reminders', () => ({
   createReminderLog: vi.fn(),
-  getReminderHistory: vi.fn()
+  getReminderHistory: vi.fn(),
+  getReminderSettings: vi.fn(),
+  getTenantReminderPreferences: vi.fn()
 }))
 
 vi.mock('@/lib/email/reminder-sender', () => ({
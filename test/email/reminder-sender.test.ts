@@ -2,6 +2,9 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { sendPaymentReminder, checkRateLimit } from '@/lib/email/reminder-sender'
 import { Payment, PaymentStatus } from '@/lib/db/models/payment'
 import { Tenant } from '@/lib/db/models/tenant'
+import { getPropertyById } from '@/lib/db/operations/properties'
+import { setMessagingProvider } from '@/lib/messaging/channels'
+import { FakeMessagingProvider } from '@/lib/messaging/providers/fake'
 
 // Mock Resend
 vi.mock('@/lib/db/operations/properties', () => ({
@@ -195,4 +198,25 @@ describe('Reminder Sender', () => {
       // Further assertions can inspect the mocked `resend.emails.send` call to verify content
     })
   })
+
+  describe('Amounts', () => {
+    let email: FakeMessagingProvider
+
+    beforeEach(() => {
+      vi.mocked(getPropertyById).mockResolvedValue(mockProperty as any)
+      email = new FakeMessagingProvider('email')
+      setMessagingProvider('email', email)
+    })
+
+    afterEach(() => {
+      setMessagingProvider('email', null)
+    })
+
+    it('should show the amount in the payment currency', async () => {
+      await sendPaymentReminder({ ...mockPayment, amountCents: 5000000, currency: 'VND' }, mockTenant)
+
+      expect(email.sent[0].text).toContain('₫5,000,000')
+      expect(email.sent[0].html).toContain('₫5,000,000')
+    })
+  })
 })
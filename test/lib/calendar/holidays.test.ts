@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { v4 as uuidv4 } from 'uuid'
+import { getVietnameseHolidays, loadHolidayCalendar } from '@/lib/calendar/holidays'
+import { lunarToSolar } from '@/lib/calendar/lunar'
+import { createClosureDay } from '@/lib/db/operations/closure-days'
+
+describe('lunarToSolar', () => {
+  it('finds Tết and Hùng Kings day in the solar calendar', () => {
+    expect(lunarToSolar(1, 1, 2024)).toEqual(new Date(2024, 1, 10))
+    expect(lunarToSolar(1, 1, 2025)).toEqual(new Date(2025, 0, 29))
+    expect(lunarToSolar(1, 1, 2026)).toEqual(new Date(2026, 1, 17))
+    expect(lunarToSolar(10, 3, 2024)).toEqual(new Date(2024, 3, 18))
+    expect(lunarToSolar(10, 3, 2025)).toEqual(new Date(2025, 3, 7))
+  })
+
+  it('handles leap months', () => {
+    // 2023 had a leap second month
+    expect(lunarToSolar(1, 2, 2023, true)).toEqual(new Date(2023, 2, 22))
+    expect(lunarToSolar(1, 2, 2024, true)).toBeNull()
+  })
+})
+
+describe('getVietnameseHolidays', () => {
+  it('gives five days of Tết starting on lunar New Year\'s Eve', () => {
+    const tet = getVietnameseHolidays(2026).filter(h => h.name.startsWith('Tết') || h.name.startsWith('Lunar'))
+    expect(tet.map(h => h.date)).toEqual([
+      new Date(2026, 1, 16),
+      new Date(2026, 1, 17),
+      new Date(2026, 1, 18),
+      new Date(2026, 1, 19),
+      new Date(2026, 1, 20)
+    ])
+  })
+
+  it('gives the next working day off for holidays on a weekend', () => {
+    // Hùng Kings day 2026 is a Sunday
+    const observed = getVietnameseHolidays(2026).filter(h => h.observedFor)
+    expect(observed).toEqual([
+      { date: new Date(2026, 3, 27), name: "Hùng Kings' Commemoration Day (observed)", observedFor: "Hùng Kings' Commemoration Day" }
+    ])
+
+    // Tết 2024 started on a Saturday; the days in lieu follow the holiday
+    const observed2024 = getVietnameseHolidays(2024).filter(h => h.observedFor?.startsWith('Tết'))
+    expect(observed2024.map(h => h.date)).toEqual([new Date(2024, 1, 14), new Date(2024, 1, 15)])
+  })
+})
+
+describe('loadHolidayCalendar', () => {
+  it('moves to the next business day past weekends, holidays and closures', async () => {
+    const propertyId = uuidv4()
+    await createClosureDay({ propertyId, date: new Date(2025, 3, 29), name: 'Staff training' })
+    const calendar = await loadHolidayCalendar(propertyId)
+
+    // Sat 26 Apr 2025 -> closure on Tue 29th, holidays Wed 30th and Thu 1 May
+    expect(calendar.nextBusinessDay(new Date(2025, 3, 26))).toEqual(new Date(2025, 3, 28))
+    expect(calendar.nextBusinessDay(new Date(2025, 3, 29))).toEqual(new Date(2025, 4, 2))
+    expect(calendar.nextBusinessDay(new Date(2025, 3, 29), { skipHolidays: false })).toEqual(new Date(2025, 3, 29))
+    expect(calendar.getHoliday(new Date(2025, 3, 29))).toMatchObject({ name: 'Staff training', propertyId })
+
+    // Other properties only see the public holidays
+    const other = await loadHolidayCalendar(uuidv4())
+    expect(other.isBusinessDay(new Date(2025, 3, 29))).toBe(true)
+    expect(other.isBusinessDay(new Date(2025, 3, 30))).toBe(false)
+  })
+})
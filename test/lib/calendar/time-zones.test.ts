@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest'
+import { getDateInTimeZone, isValidTimeZone, zonedTimeToUtc } from '@/lib/calendar/time-zones'
+
+describe('time zones', () => {
+  it('finds the local calendar day of an instant', () => {
+    const instant = new Date('2025-05-01T20:00:00Z')
+    expect(getDateInTimeZone(instant, 'Asia/Ho_Chi_Minh')).toEqual(new Date(2025, 4, 2))
+    expect(getDateInTimeZone(instant, 'America/Los_Angeles')).toEqual(new Date(2025, 4, 1))
+  })
+
+  it('converts a local time to the instant it occurs, across DST', () => {
+    expect(zonedTimeToUtc(new Date(2025, 4, 2), '09:00', 'Asia/Ho_Chi_Minh')).toEqual(new Date('2025-05-02T02:00:00Z'))
+    expect(zonedTimeToUtc(new Date(2025, 0, 15), '09:00', 'Europe/Lisbon')).toEqual(new Date('2025-01-15T09:00:00Z'))
+    expect(zonedTimeToUtc(new Date(2025, 6, 15), '09:00', 'Europe/Lisbon')).toEqual(new Date('2025-07-15T08:00:00Z'))
+    // 02:30 doesn't exist on the morning clocks go forward
+    expect(zonedTimeToUtc(new Date(2025, 2, 9), '02:30', 'America/New_York')).toEqual(new Date('2025-03-09T07:30:00Z'))
+  })
+
+  it('rejects unknown time zones', () => {
+    expect(isValidTimeZone('Europe/Lisbon')).toBe(true)
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false)
+  })
+})
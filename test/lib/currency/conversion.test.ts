@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  createCurrencyConverter,
+  convertRecordAmounts,
+  selectRateForDate,
+  summarizeByCurrency
+} from '@/lib/currency/conversion'
+import { importExchangeRatesFromCSV } from '@/lib/currency/rates-import'
+import { createExchangeRate, getExchangeRatesForPair } from '@/lib/db/operations/exchange-rates'
+import { ExchangeRate } from '@/lib/db/models/exchange-rate'
+
+vi.mock('@/lib/db/operations/exchange-rates', () => ({
+  createExchangeRate: vi.fn(),
+  getExchangeRatesForPair: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/properties', () => ({
+  getPropertyById: vi.fn()
+}))
+
+function rate(fromCurrency: ExchangeRate['fromCurrency'], toCurrency: ExchangeRate['toCurrency'], value: number, effectiveDate: string): ExchangeRate {
+  return {
+    id: `${fromCurrency}-${toCurrency}-${effectiveDate}`,
+    fromCurrency,
+    toCurrency,
+    rate: value,
+    effectiveDate: new Date(effectiveDate),
+    source: 'manual',
+    createdAt: new Date(effectiveDate),
+    updatedAt: new Date(effectiveDate)
+  }
+}
+
+describe('currency conversion', () => {
+  const rates: ExchangeRate[] = [
+    rate('USD', 'VND', 25000, '2025-01-01'),
+    rate('USD', 'VND', 25500, '2025-02-01')
+  ]
+
+  beforeEach(() => {
+    vi.mocked(getExchangeRatesForPair).mockReset()
+    vi.mocked(getExchangeRatesForPair).mockImplementation(async (from, to) =>
+      rates.filter(r => r.fromCurrency === from && r.toCurrency === to)
+    )
+  })
+
+  it('selects the latest rate effective on or before the date', () => {
+    expect(selectRateForDate(rates, new Date('2025-01-20'))?.rate).toBe(25000)
+    expect(selectRateForDate(rates, new Date('2025-02-01'))?.rate).toBe(25500)
+    expect(selectRateForDate(rates, new Date('2024-12-31'))).toBeNull()
+  })
+
+  it('leaves amounts already in the reporting currency untouched', async () => {
+    const converter = createCurrencyConverter('USD')
+    const converted = await converter.convert(600, undefined, '2025-01-15')
+
+    expect(converted).toMatchObject({ amount: 600, currency: 'USD', originalCurrency: 'USD', rate: 1 })
+    expect(getExchangeRatesForPair).not.toHaveBeenCalled()
+  })
+
+  it('converts using the direct pair at the transaction date', async () => {
+    const converter = createCurrencyConverter('VND')
+    const converted = await converter.convert(100, 'USD', '2025-02-10')
+
+    expect(converted.amount).toBe(2550000)
+    expect(converted.rate).toBe(25500)
+    expect(converted.originalAmount).toBe(100)
+  })
+
+  it('falls back to the inverse pair', async () => {
+    const converter = createCurrencyConverter('USD')
+    const converted = await converter.convert(2500000, 'VND', '2025-01-15')
+
+    expect(converted.amount).toBe(100)
+    expect(converted.originalCurrency).toBe('VND')
+  })
+
+  it('converts minor units between currencies with different decimals', async () => {
+    const converter = createCurrencyConverter('USD')
+    // 255,000 VND has no minor unit; the result is in US cents
+    const converted = await converter.convert(255000, 'VND', '2025-02-15', { minorUnits: true })
+
+    expect(converted.amount).toBe(1000)
+  })
+
+  it('throws when no rate is in effect', async () => {
+    const converter = createCurrencyConverter('USD')
+
+    await expect(converter.convert(1000, 'VND', '2024-06-01'))
+      .rejects.toThrow('No VND/USD exchange rate on or before 2024-06-01')
+    await expect(converter.convert(10, 'EUR', '2025-02-01'))
+      .rejects.toThrow('No EUR/USD exchange rate')
+  })
+
+  it('sets aside amounts with no rate in effect when converting report records', async () => {
+    const converter = createCurrencyConverter('USD')
+    const records = await convertRecordAmounts([
+      { amount: 500, currency: 'USD', date: '2024-06-01' },
+      { amount: 2500000, currency: 'VND', date: '2024-06-01' }
+    ], converter)
+
+    expect(records.map(r => r.amount)).toEqual([500])
+    expect(converter.unconverted).toEqual([{ amount: 2500000, currency: 'VND', date: new Date('2024-06-01') }])
+  })
+
+  it('loads each pair only once per converter', async () => {
+    const converter = createCurrencyConverter('VND')
+    await converter.convert(1, 'USD', '2025-01-10')
+    await converter.convert(2, 'USD', '2025-02-10')
+
+    expect(getExchangeRatesForPair).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps original amounts alongside converted report records', async () => {
+    const converter = createCurrencyConverter('USD')
+    const records = await convertRecordAmounts([
+      { amount: 500, currency: 'USD', date: '2025-01-05' },
+      { amount: 2500000, currency: 'VND', date: '2025-01-05' }
+    ], converter)
+
+    expect(records.map(r => r.amount)).toEqual([500, 100])
+    expect(records[1]).toMatchObject({ originalAmount: 2500000, originalCurrency: 'VND', exchangeRate: 1 / 25000 })
+
+    expect(summarizeByCurrency(records.map(r => ({
+      amount: r.amount,
+      originalAmount: r.originalAmount,
+      originalCurrency: r.originalCurrency
+    })))).toEqual([
+      { currency: 'USD', originalAmount: 500, convertedAmount: 500, count: 1 },
+      { currency: 'VND', originalAmount: 2500000, convertedAmount: 100, count: 1 }
+    ])
+  })
+})
+
+describe('importExchangeRatesFromCSV', () => {
+  beforeEach(() => {
+    vi.mocked(createExchangeRate).mockReset()
+    vi.mocked(createExchangeRate).mockImplementation(async input => ({
+      id: 'rate-id',
+      source: 'manual',
+      ...input,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }) as ExchangeRate)
+  })
+
+  it('imports valid rows and reports failed ones', async () => {
+    const csv = [
+      'Date,From,To,Rate',
+      '2025-03-01,usd,vnd,25450',
+      'not-a-date,USD,VND,25000',
+      '2025-03-01,EUR,VND,27600'
+    ].join('\n')
+
+    const result = await importExchangeRatesFromCSV(csv, 'user-1')
+
+    expect(result.imported).toHaveLength(2)
+    expect(result.failed).toBe(1)
+    expect(result.errors).toEqual([{ row: 3, error: 'Invalid date: not-a-date' }])
+    expect(createExchangeRate).toHaveBeenCalledWith(expect.objectContaining({
+      fromCurrency: 'USD',
+      toCurrency: 'VND',
+      rate: 25450,
+      source: 'csv',
+      createdBy: 'user-1'
+    }))
+  })
+
+  it('rejects files without the required columns', async () => {
+    await expect(importExchangeRatesFromCSV('date,from,rate\n2025-03-01,USD,25000'))
+      .rejects.toThrow('Missing required columns: to')
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { FakeMessagingProvider } from '@/lib/messaging/providers/fake'
+import { whatsAppProvider } from '@/lib/messaging/providers/whatsapp'
+import { zaloOaProvider } from '@/lib/messaging/providers/zalo'
+import { getMessagingProvider, sendMessage, setMessagingProvider } from '@/lib/messaging/channels'
+
+describe('messaging channels', () => {
+  afterEach(() => {
+    setMessagingProvider('sms', null)
+  })
+
+  it('sends through a swapped-in provider and reports its failures', async () => {
+    const sms = new FakeMessagingProvider('sms')
+    setMessagingProvider('sms', sms)
+
+    const result = await sendMessage('sms', { to: '+84901234567', text: 'Rent is due' })
+    expect(result.success).toBe(true)
+    expect(sms.sent).toEqual([expect.objectContaining({ to: '+84901234567', messageId: result.messageId })])
+
+    sms.failNext('Gateway unavailable')
+    expect(await sendMessage('sms', { to: '+84901234567', text: 'Rent is due' }))
+      .toEqual({ success: false, error: 'Gateway unavailable' })
+
+    expect(await sendMessage('sms', { to: '', text: 'Rent is due' })).toEqual({ success: false, error: 'No sms recipient' })
+    expect(sms.sent).toHaveLength(1)
+
+    setMessagingProvider('sms', null)
+    expect(getMessagingProvider('sms')).not.toBe(sms)
+  })
+
+  it('maps WhatsApp and Zalo status callbacks to delivery updates', () => {
+    const whatsApp = whatsAppProvider.parseStatusCallback!({
+      entry: [{
+        changes: [{
+          value: {
+            statuses: [
+              { id: 'wamid.1', status: 'delivered', timestamp: '1748937600' },
+              { id: 'wamid.1', status: 'read', timestamp: '1748937660' },
+              { id: 'wamid.2', status: 'sent', timestamp: '1748937600' },
+              { id: 'wamid.3', status: 'failed', timestamp: '1748937600', errors: [{ title: 'Recipient not on WhatsApp' }] }
+            ]
+          }
+        }]
+      }]
+    })
+    expect(whatsApp).toEqual([
+      { messageId: 'wamid.1', status: 'delivered', occurredAt: new Date('2025-06-03T08:00:00Z'), error: undefined },
+      { messageId: 'wamid.1', status: 'opened', occurredAt: new Date('2025-06-03T08:01:00Z'), error: undefined },
+      { messageId: 'wamid.3', status: 'failed', occurredAt: new Date('2025-06-03T08:00:00Z'), error: 'Recipient not on WhatsApp' }
+    ])
+
+    const zalo = zaloOaProvider.parseStatusCallback!({
+      event_name: 'user_seen_message',
+      timestamp: '1748937600000',
+      message: { msg_ids: ['zalo-1', 'zalo-2'] }
+    })
+    expect(zalo.map(update => [update.messageId, update.status])).toEqual([['zalo-1', 'opened'], ['zalo-2', 'opened']])
+    expect(zaloOaProvider.parseStatusCallback!({ event_name: 'follow' })).toEqual([])
+  })
+})
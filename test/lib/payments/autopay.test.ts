@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { v4 as uuidv4 } from 'uuid'
+import type Stripe from 'stripe'
+import {
+  cancelAutopay,
+  enrollInAutopay,
+  isOnActiveAutopay,
+  recordFailedAutopayCharge,
+  runAutopay
+} from '@/lib/payments/autopay'
+import { recordPaymentAllocation } from '@/lib/payments/ledger'
+import { createPaymentIntent } from '@/lib/payments/stripe'
+import {
+  sendAutopayChargeNotice,
+  sendAutopayPausedNotification,
+  sendPaymentFailureNotification
+} from '@/lib/payments/confirmations'
+import { createAuditLog } from '@/lib/admin/audit'
+import { getAutopayAttemptsByPayment } from '@/lib/db/operations/autopay'
+import { createPayment, getPaymentById } from '@/lib/db/operations/payment'
+import { getTenantById } from '@/lib/db/operations/tenants'
+import { Tenant } from '@/lib/db/models/tenant'
+
+vi.mock('@/lib/payments/stripe', () => ({
+  createPaymentIntent: vi.fn(),
+  processRefund: vi.fn()
+}))
+
+vi.mock('@/lib/payments/confirmations', () => ({
+  sendAutopayChargeNotice: vi.fn().mockResolvedValue(true),
+  sendAutopayPausedNotification: vi.fn().mockResolvedValue(true),
+  sendPaymentConfirmation: vi.fn().mockResolvedValue(true),
+  sendPaymentFailureNotification: vi.fn().mockResolvedValue(true)
+}))
+
+vi.mock('@/lib/admin/audit', () => ({
+  createAuditLog: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/tenants', () => ({
+  getTenantById: vi.fn()
+}))
+
+vi.mock('@/lib/payments/late-fees', () => ({
+  waiveLateFeesIfPaidWithinGrace: vi.fn()
+}))
+
+const propertyId = '550e8400-e29b-41d4-a716-446655440000'
+
+function tenant(overrides: Partial<Tenant> = {}): Tenant {
+  return {
+    id: uuidv4(),
+    email: 'quang@example.com',
+    firstName: 'Quang',
+    lastName: 'Vo',
+    stripeCustomerId: 'cus_quang',
+    autopayPaymentMethodId: 'pm_quang',
+    ...overrides
+  } as Tenant
+}
+
+// Each test enrolls its own tenant, so earlier tests' payments and attempts don't interfere
+async function enrolledTenantWithRent(dueDate = new Date(2025, 3, 1)) {
+  vi.setSystemTime(new Date(2025, 2, 20))
+  const quang = tenant()
+  vi.mocked(getTenantById).mockImplementation(async id => (id === quang.id ? quang : null))
+  await enrollInAutopay(quang)
+  const rent = await createPayment({
+    tenantId: quang.id,
+    propertyId,
+    amountCents: 50000,
+    currency: 'USD',
+    paymentMethod: 'Wire',
+    status: 'Pending',
+    dueDate,
+    description: 'Monthly Rent - April 2025'
+  })
+  return { quang, rent }
+}
+
+describe('autopay', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.mocked(createPaymentIntent).mockReset()
+    vi.mocked(sendAutopayChargeNotice).mockClear()
+    vi.mocked(sendAutopayPausedNotification).mockClear()
+    vi.mocked(sendPaymentFailureNotification).mockClear()
+    vi.mocked(createAuditLog).mockClear()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('requires a saved autopay card to enroll', async () => {
+    await expect(enrollInAutopay(tenant({ autopayPaymentMethodId: undefined })))
+      .rejects.toThrow('A saved card is required for autopay')
+  })
+
+  it('notifies the tenant before the due date and charges off-session on it', async () => {
+    const { quang, rent } = await enrolledTenantWithRent()
+    vi.mocked(createPaymentIntent).mockResolvedValue({ id: 'pi_autopay', status: 'succeeded' } as Stripe.PaymentIntent)
+
+    const early = await runAutopay({ asOf: new Date(2025, 2, 27, 9) })
+    expect(early.noticesSent).toBe(0)
+
+    const notice = await runAutopay({ asOf: new Date(2025, 2, 29, 9) })
+    expect(notice.noticesSent).toBe(1)
+    expect(sendAutopayChargeNotice).toHaveBeenCalledWith(
+      expect.objectContaining({ id: rent.id }),
+      quang,
+      { amountCents: 50000, scheduledFor: new Date(2025, 3, 1), attemptNumber: 1 }
+    )
+    expect(createPaymentIntent).not.toHaveBeenCalled()
+
+    const dueDay = await runAutopay({ asOf: new Date(2025, 3, 1, 9) })
+
+    expect(dueDay.charged).toBe(1)
+    expect(createPaymentIntent).toHaveBeenCalledWith(expect.objectContaining({
+      amount: 50000,
+      customerId: 'cus_quang',
+      paymentMethodId: 'pm_quang',
+      confirm: true,
+      offSession: true
+    }))
+    expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'AUTOPAY_CHARGE',
+      resourceId: rent.id,
+      changes: expect.objectContaining({ status: 'Succeeded', stripePaymentIntentId: 'pi_autopay' })
+    }))
+
+    // Nothing more to charge while the webhook settles the payment
+    await runAutopay({ asOf: new Date(2025, 3, 2, 9) })
+    expect(createPaymentIntent).toHaveBeenCalledTimes(1)
+  })
+
+  it('retries on the retry schedule and pauses after repeated failures', async () => {
+    const { quang, rent } = await enrolledTenantWithRent()
+    vi.mocked(createPaymentIntent).mockRejectedValue(new Error('Failed to create payment intent: Your card was declined.'))
+
+    await runAutopay({ asOf: new Date(2025, 2, 29, 9) })
+    const first = await runAutopay({ asOf: new Date(2025, 3, 1, 9) })
+
+    expect(first).toMatchObject({ failed: 1, noticesSent: 1, paused: 0 })
+    expect(sendPaymentFailureNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ id: rent.id }),
+      'Failed to create payment intent: Your card was declined.'
+    )
+
+    // Retries 2 and then 4 days after each failure
+    expect((await runAutopay({ asOf: new Date(2025, 3, 2, 9) })).failed).toBe(0)
+    expect((await runAutopay({ asOf: new Date(2025, 3, 3, 9) })).failed).toBe(1)
+    expect((await runAutopay({ asOf: new Date(2025, 3, 4, 9) })).noticesSent).toBe(1)
+    const third = await runAutopay({ asOf: new Date(2025, 3, 7, 9) })
+
+    expect(third).toMatchObject({ failed: 1, paused: 1, noticesSent: 0 })
+    expect(await isOnActiveAutopay(quang.id)).toBe(false)
+    expect(sendAutopayPausedNotification).toHaveBeenCalledWith(quang, '3 autopay charges failed in a row')
+
+    const attempts = await getAutopayAttemptsByPayment(rent.id)
+    expect(attempts.map(a => [a.attemptNumber, a.status, a.scheduledFor])).toEqual([
+      [1, 'Failed', new Date(2025, 3, 1)],
+      [2, 'Failed', new Date(2025, 3, 3)],
+      [3, 'Failed', new Date(2025, 3, 7)]
+    ])
+    expect(vi.mocked(createAuditLog).mock.calls.filter(([entry]) => entry.action === 'AUTOPAY_CHARGE')).toHaveLength(3)
+  })
+
+  it('retries a charge that fails after Stripe accepted it', async () => {
+    const { rent } = await enrolledTenantWithRent()
+    vi.mocked(createPaymentIntent).mockResolvedValue({ id: 'pi_bounced', status: 'processing' } as Stripe.PaymentIntent)
+
+    await runAutopay({ asOf: new Date(2025, 2, 29, 9) })
+    expect((await runAutopay({ asOf: new Date(2025, 3, 1, 9) })).charged).toBe(1)
+
+    // The bank debit bounces a day later
+    await recordFailedAutopayCharge((await getPaymentById(rent.id))!, 'pi_bounced', 'Insufficient funds')
+    const retry = await runAutopay({ asOf: new Date(2025, 3, 2, 9) })
+
+    expect(retry.noticesSent).toBe(1)
+    const attempts = await getAutopayAttemptsByPayment(rent.id)
+    expect(attempts.map(a => [a.attemptNumber, a.status, a.failureReason])).toEqual([
+      [1, 'Failed', 'Insufficient funds'],
+      [2, 'Scheduled', undefined]
+    ])
+    expect(attempts[1].scheduledFor).toEqual(new Date(2025, 3, 3))
+  })
+
+  it('resuming autopay starts the retries over', async () => {
+    const { quang, rent } = await enrolledTenantWithRent()
+    vi.mocked(createPaymentIntent).mockRejectedValue(new Error('Your card was declined.'))
+    for (const day of [29, 32, 34, 35, 38]) {
+      await runAutopay({ asOf: new Date(2025, 2, day, 9) })
+    }
+    expect(await isOnActiveAutopay(quang.id)).toBe(false)
+
+    vi.setSystemTime(new Date(2025, 3, 10, 8))
+    await enrollInAutopay(quang)
+    const resumed = await runAutopay({ asOf: new Date(2025, 3, 10, 9) })
+
+    expect(resumed.noticesSent).toBe(1)
+    const attempts = await getAutopayAttemptsByPayment(rent.id)
+    expect(attempts[attempts.length - 1]).toMatchObject({ status: 'Scheduled', scheduledFor: new Date(2025, 3, 11) })
+  })
+
+  it('skips the charge when the payment was settled after the notice', async () => {
+    const { rent } = await enrolledTenantWithRent()
+    await runAutopay({ asOf: new Date(2025, 2, 29, 9) })
+    await recordPaymentAllocation(rent.id, { amountCents: 50000 })
+
+    const result = await runAutopay({ asOf: new Date(2025, 3, 1, 9) })
+
+    expect(result.charged).toBe(0)
+    expect(createPaymentIntent).not.toHaveBeenCalled()
+    expect((await getAutopayAttemptsByPayment(rent.id))[0].status).toBe('Cancelled')
+  })
+
+  it('cancels announced charges when autopay is turned off', async () => {
+    const { quang, rent } = await enrolledTenantWithRent()
+    await runAutopay({ asOf: new Date(2025, 2, 29, 9) })
+
+    await cancelAutopay(quang.id)
+    await runAutopay({ asOf: new Date(2025, 3, 1, 9) })
+
+    expect(createPaymentIntent).not.toHaveBeenCalled()
+    expect((await getAutopayAttemptsByPayment(rent.id)).map(a => a.status)).toEqual(['Cancelled'])
+  })
+})
@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  addDepositDeduction,
+  addUnpaidPaymentDeductions,
+  collectDeposit,
+  generateDepositSettlementHTML,
+  getDepositSummary,
+  getMoveOutBlocker,
+  getTenantDeposit,
+  removeDepositDeduction,
+  settleDeposit
+} from '@/lib/payments/deposits'
+import { createPayment, getPaymentById } from '@/lib/db/operations/payment'
+import { getLateFeePolicy } from '@/lib/db/operations/reminders'
+import { Tenant } from '@/lib/db/models/tenant'
+
+vi.mock('@/lib/db/operations/reminders', () => ({
+  getLateFeePolicy: vi.fn(),
+  getReminderSettings: vi.fn().mockResolvedValue(null)
+}))
+
+const propertyId = '550e8400-e29b-41d4-a716-446655440000'
+
+async function createRent(tenantId: string, dueDate: Date, amountCents = 60000) {
+  return createPayment({
+    tenantId,
+    propertyId,
+    amountCents,
+    currency: 'USD',
+    paymentMethod: 'Wise',
+    status: 'Pending',
+    dueDate,
+    description: `Monthly Rent - ${dueDate.toLocaleString('en-US', { month: 'long' })}`
+  })
+}
+
+describe('Security deposits', () => {
+  let tenantId: string
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getLateFeePolicy).mockResolvedValue(null)
+    tenantId = uuidv4()
+  })
+
+  async function collect(amountCents = 100000) {
+    return collectDeposit({
+      tenantId,
+      propertyId,
+      amountCents,
+      paymentMethod: 'Wise',
+      collectedDate: new Date(2025, 0, 1)
+    })
+  }
+
+  it('should hold a collected deposit', async () => {
+    const deposit = await collect()
+
+    expect(deposit.status).toBe('Held')
+    expect(deposit.deductions).toEqual([])
+    expect(await getTenantDeposit(tenantId)).toEqual(deposit)
+    expect(getDepositSummary(deposit)).toEqual({
+      heldCents: 100000,
+      deductionsCents: 0,
+      refundCents: 100000
+    })
+  })
+
+  describe('deductions', () => {
+    it('should itemize maintenance and cleaning deductions', async () => {
+      const deposit = await collect()
+      const maintenanceRecordId = uuidv4()
+
+      await addDepositDeduction(deposit.id, {
+        type: 'Maintenance',
+        description: 'Broken window',
+        amountCents: 15000,
+        maintenanceRecordId
+      })
+      const updated = await addDepositDeduction(deposit.id, {
+        type: 'Cleaning',
+        description: 'Move-out deep clean',
+        amountCents: 5000,
+        taskId: 'task_1700000000000_abc123def'
+      })
+
+      expect(updated.deductions).toHaveLength(2)
+      expect(updated.deductions[0].maintenanceRecordId).toBe(maintenanceRecordId)
+      expect(getDepositSummary(updated).refundCents).toBe(80000)
+    })
+
+    it('should default unpaid payment deductions to the outstanding amount', async () => {
+      const deposit = await collect()
+      const rent = await createRent(tenantId, new Date(2025, 5, 1), 40000)
+
+      const updated = await addDepositDeduction(deposit.id, {
+        type: 'Unpaid Payment',
+        description: rent.description,
+        paymentId: rent.id
+      })
+
+      expect(updated.deductions[0].amountCents).toBe(40000)
+    })
+
+    it('should reject deductions above the deposit held', async () => {
+      const deposit = await collect(10000)
+
+      await expect(addDepositDeduction(deposit.id, {
+        type: 'Other',
+        description: 'Lost keys',
+        amountCents: 20000
+      })).rejects.toThrow('Deductions exceed the deposit held')
+    })
+
+    it('should remove a deduction', async () => {
+      const deposit = await collect()
+      const withDeduction = await addDepositDeduction(deposit.id, {
+        type: 'Other',
+        description: 'Lost keys',
+        amountCents: 2000
+      })
+
+      const updated = await removeDepositDeduction(deposit.id, withDeduction.deductions[0].id)
+
+      expect(updated.deductions).toHaveLength(0)
+    })
+
+    it('should deduct outstanding payments oldest first until the deposit runs out', async () => {
+      const deposit = await collect(100000)
+      const may = await createRent(tenantId, new Date(2025, 4, 1))
+      const june = await createRent(tenantId, new Date(2025, 5, 1))
+
+      const added = await addUnpaidPaymentDeductions(deposit.id)
+
+      const updated = await getTenantDeposit(tenantId)
+      expect(added).toBe(2)
+      expect(updated?.deductions.map(d => [d.paymentId, d.amountCents])).toEqual([
+        [may.id, 60000],
+        [june.id, 40000]
+      ])
+    })
+  })
+
+  describe('settleDeposit', () => {
+    it('should pay deducted payments from the deposit and refund the rest', async () => {
+      const deposit = await collect()
+      const rent = await createRent(tenantId, new Date(2025, 5, 1), 30000)
+      await addUnpaidPaymentDeductions(deposit.id)
+
+      const settled = await settleDeposit(deposit.id, { refundMethod: 'Wise', refundReference: 'WISE-99' })
+
+      expect(settled.status).toBe('Settled')
+      expect(settled.refundCents).toBe(70000)
+      expect(settled.refundMethod).toBe('Wise')
+      expect(settled.settledAt).toBeInstanceOf(Date)
+
+      const paidRent = await getPaymentById(rent.id)
+      expect(paidRent?.status).toBe('Paid')
+      expect(paidRent?.allocations?.[0].notes).toBe('Deducted from security deposit')
+    })
+
+    it('should require a refund method when money is returned', async () => {
+      const deposit = await collect()
+
+      await expect(settleDeposit(deposit.id)).rejects.toThrow('Refund method is required')
+    })
+
+    it('should not allow changes after settlement', async () => {
+      const deposit = await collect(5000)
+      await addDepositDeduction(deposit.id, { type: 'Cleaning', description: 'Cleaning', amountCents: 5000 })
+      await settleDeposit(deposit.id)
+
+      await expect(addDepositDeduction(deposit.id, { type: 'Other', description: 'Late', amountCents: 100 }))
+        .rejects.toThrow('Deposit is already settled')
+    })
+  })
+
+  describe('getMoveOutBlocker', () => {
+    it('should block move-out while a deposit is held', async () => {
+      const deposit = await collect()
+
+      expect(await getMoveOutBlocker(tenantId)).toMatch(/must be settled/)
+
+      await settleDeposit(deposit.id, { refundMethod: 'Cash' })
+      expect(await getMoveOutBlocker(tenantId)).toBeNull()
+    })
+
+    it('should not block tenants without a deposit on record', async () => {
+      expect(await getMoveOutBlocker(tenantId)).toBeNull()
+    })
+  })
+
+  it('should render the settlement statement', async () => {
+    const deposit = await collect()
+    await addDepositDeduction(deposit.id, { type: 'Cleaning', description: 'Move-out deep clean', amountCents: 5000 })
+    const settled = await settleDeposit(deposit.id, { refundMethod: 'Wise' })
+
+    const html = generateDepositSettlementHTML(
+      settled,
+      { firstName: 'Jane', lastName: 'Doe' } as Tenant,
+      null
+    )
+
+    expect(html).toContain('Move-out Settlement Statement')
+    expect(html).toContain('Jane Doe')
+    expect(html).toContain('Move-out deep clean')
+    expect(html).toContain('$950.00')
+    expect(html).not.toContain('DRAFT')
+  })
+
+  it('should escape tenant and deduction text in the statement', async () => {
+    const deposit = await collect()
+    const withDeduction = await addDepositDeduction(deposit.id, {
+      type: 'Maintenance',
+      description: '<script>alert(1)</script> & wall',
+      amountCents: 5000
+    })
+
+    const html = generateDepositSettlementHTML(
+      withDeduction,
+      { firstName: '<b>Jane</b>', lastName: 'Doe' } as Tenant,
+      null
+    )
+
+    expect(html).toContain('&lt;b&gt;Jane&lt;/b&gt; Doe')
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt; &amp; wall')
+    expect(html).not.toContain('<script>')
+  })
+})
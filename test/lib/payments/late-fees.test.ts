@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  applyLateFees,
+  calculateLateFee,
+  getAccruedLateFeeCents,
+  getLateFeesForPayment
+} from '@/lib/payments/late-fees'
+import { createPayment, getPaymentById, markPaymentAsPaid } from '@/lib/db/operations/payment'
+import { getLateFeePolicy, getReminderSettings } from '@/lib/db/operations/reminders'
+import { recordPaymentAllocation } from '@/lib/payments/ledger'
+import type { LateFeePolicy, ReminderSettings } from '@/lib/db/models/reminder'
+import type { Payment } from '@/lib/db/models/payment'
+
+vi.mock('@/lib/db/operations/reminders', () => ({
+  getLateFeePolicy: vi.fn(),
+  getReminderSettings: vi.fn().mockResolvedValue(null)
+}))
+
+function buildPolicy(overrides: Partial<LateFeePolicy> = {}): LateFeePolicy {
+  return {
+    id: uuidv4(),
+    enabled: true,
+    feeType: 'flat',
+    flatAmountCents: 2500,
+    gracePeriodDays: 3,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  }
+}
+
+async function createRentPayment(dueDate: Date, propertyId = uuidv4()): Promise<Payment> {
+  return createPayment({
+    tenantId: uuidv4(),
+    propertyId,
+    amountCents: 60000,
+    currency: 'USD',
+    paymentMethod: 'Wise',
+    status: 'Pending',
+    dueDate,
+    description: 'Monthly Rent - March 2025'
+  })
+}
+
+describe('Late fees', () => {
+  const dueDate = new Date(2025, 2, 1)
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getReminderSettings).mockResolvedValue(null)
+  })
+
+  describe('calculateLateFee', () => {
+    const payment = { amountCents: 60000, dueDate } as Payment
+
+    it('should charge nothing within the grace period', () => {
+      expect(calculateLateFee(buildPolicy(), payment, new Date(2025, 2, 4))).toBe(0)
+    })
+
+    it('should charge a flat fee once grace has passed', () => {
+      expect(calculateLateFee(buildPolicy(), payment, new Date(2025, 2, 5))).toBe(2500)
+    })
+
+    it('should charge a percentage of the payment amount', () => {
+      const policy = buildPolicy({ feeType: 'percentage', percentage: 5 })
+      expect(calculateLateFee(policy, payment, new Date(2025, 2, 10))).toBe(3000)
+    })
+
+    it('should accrue daily fees after grace up to the cap', () => {
+      const policy = buildPolicy({ feeType: 'daily', dailyAmountCents: 500, maxFeeCents: 4000 })
+
+      expect(calculateLateFee(policy, payment, new Date(2025, 2, 6))).toBe(1000)
+      expect(calculateLateFee(policy, payment, new Date(2025, 2, 30))).toBe(4000)
+    })
+
+    it('should charge nothing when the policy is disabled', () => {
+      expect(calculateLateFee(buildPolicy({ enabled: false }), payment, new Date(2025, 2, 20))).toBe(0)
+    })
+  })
+
+  describe('applyLateFees', () => {
+    it('should create a linked late fee and mark the payment overdue', async () => {
+      const payment = await createRentPayment(dueDate)
+      vi.mocked(getLateFeePolicy).mockResolvedValue(buildPolicy())
+
+      const result = await applyLateFees({ asOf: new Date(2025, 2, 10), propertyId: payment.propertyId })
+
+      expect(result.charged).toBe(1)
+      expect(result.totalChargedCents).toBe(2500)
+      expect((await getPaymentById(payment.id))?.status).toBe('Overdue')
+
+      const fees = await getLateFeesForPayment(payment.id)
+      expect(fees).toHaveLength(1)
+      expect(fees[0].description).toBe('Late fee - Monthly Rent - March 2025')
+      expect(await getAccruedLateFeeCents(payment.id)).toBe(2500)
+    })
+
+    it('should not charge the same flat fee twice', async () => {
+      const payment = await createRentPayment(dueDate)
+      vi.mocked(getLateFeePolicy).mockResolvedValue(buildPolicy())
+
+      await applyLateFees({ asOf: new Date(2025, 2, 10), propertyId: payment.propertyId })
+      const secondRun = await applyLateFees({ asOf: new Date(2025, 2, 11), propertyId: payment.propertyId })
+
+      expect(secondRun.charged).toBe(0)
+      expect(await getLateFeesForPayment(payment.id)).toHaveLength(1)
+    })
+
+    it('should grow an accruing daily fee on later runs', async () => {
+      const payment = await createRentPayment(dueDate)
+      vi.mocked(getLateFeePolicy).mockResolvedValue(buildPolicy({ feeType: 'daily', dailyAmountCents: 500 }))
+
+      await applyLateFees({ asOf: new Date(2025, 2, 6), propertyId: payment.propertyId })
+      const secondRun = await applyLateFees({ asOf: new Date(2025, 2, 8), propertyId: payment.propertyId })
+
+      expect(secondRun.updated).toBe(1)
+      expect(await getAccruedLateFeeCents(payment.id)).toBe(2000)
+    })
+
+    it('should waive fees when the payment was paid within grace', async () => {
+      const payment = await createRentPayment(dueDate)
+      vi.mocked(getLateFeePolicy).mockResolvedValue(buildPolicy({ gracePeriodDays: 0 }))
+
+      await applyLateFees({ asOf: new Date(2025, 2, 3), propertyId: payment.propertyId })
+      expect(await getAccruedLateFeeCents(payment.id)).toBe(2500)
+
+      // The transfer is only reconciled later, but arrived on the due date
+      await markPaymentAsPaid(payment.id, dueDate, 'WISE-123')
+      const result = await applyLateFees({ asOf: new Date(2025, 2, 5), propertyId: payment.propertyId })
+
+      expect(result.waived).toBe(1)
+      expect(await getLateFeesForPayment(payment.id)).toHaveLength(0)
+    })
+
+    it('should waive fees as soon as a payment made within grace is recorded', async () => {
+      const payment = await createRentPayment(dueDate)
+      vi.mocked(getLateFeePolicy).mockResolvedValue(buildPolicy({ gracePeriodDays: 0 }))
+
+      await applyLateFees({ asOf: new Date(2025, 2, 3), propertyId: payment.propertyId })
+      await recordPaymentAllocation(payment.id, { amountCents: 60000, paidDate: dueDate, reference: 'WISE-456' })
+
+      expect(await getLateFeesForPayment(payment.id)).toHaveLength(0)
+    })
+
+    it('should count lateness from the next business day when due dates shift off holidays', async () => {
+      // Due on National Day, so due on Wednesday 3 September instead
+      const payment = await createRentPayment(new Date(2025, 8, 2))
+      vi.mocked(getLateFeePolicy).mockResolvedValue(buildPolicy({ gracePeriodDays: 0 }))
+      vi.mocked(getReminderSettings).mockResolvedValue({ shiftDueDatesOnHolidays: true } as ReminderSettings)
+
+      const onShiftedDueDate = await applyLateFees({ asOf: new Date(2025, 8, 3), propertyId: payment.propertyId })
+      expect(onShiftedDueDate.processed).toBe(0)
+      expect((await getPaymentById(payment.id))?.status).toBe('Pending')
+
+      await applyLateFees({ asOf: new Date(2025, 8, 4), propertyId: payment.propertyId })
+      expect((await getPaymentById(payment.id))?.status).toBe('Overdue')
+      expect(await getAccruedLateFeeCents(payment.id)).toBe(2500)
+
+      // Paying on the shifted due date is on time
+      await markPaymentAsPaid(payment.id, new Date(2025, 8, 3, 15))
+      await applyLateFees({ asOf: new Date(2025, 8, 5), propertyId: payment.propertyId })
+      expect(await getLateFeesForPayment(payment.id)).toHaveLength(0)
+    })
+
+    it('should leave reservation fees to their hold', async () => {
+      vi.mocked(getLateFeePolicy).mockResolvedValue(buildPolicy())
+      const fee = await createPayment({
+        tenantId: uuidv4(),
+        propertyId: uuidv4(),
+        amountCents: 5000,
+        currency: 'USD',
+        paymentMethod: 'Stripe',
+        status: 'Pending',
+        dueDate,
+        description: 'Reservation fee for room 201',
+        reservationId: uuidv4()
+      })
+
+      await applyLateFees({ asOf: new Date(2025, 2, 10), propertyId: fee.propertyId })
+
+      expect((await getPaymentById(fee.id))?.status).toBe('Pending')
+      expect(await getLateFeesForPayment(fee.id)).toEqual([])
+    })
+
+    it('should skip payments when no policy is configured', async () => {
+      const payment = await createRentPayment(dueDate)
+      vi.mocked(getLateFeePolicy).mockResolvedValue(null)
+
+      const result = await applyLateFees({ asOf: new Date(2025, 2, 20), propertyId: payment.propertyId })
+
+      expect(result.skipped).toBe(1)
+      expect(result.charged).toBe(0)
+    })
+  })
+
+  describe('createLateFeePolicy', () => {
+    it('should reject a policy without the amount for its fee type', async () => {
+      const { createLateFeePolicy } = await vi.importActual<typeof import('@/lib/db/operations/reminders')>('@/lib/db/operations/reminders')
+
+      await expect(createLateFeePolicy({ enabled: true, feeType: 'daily', gracePeriodDays: 3 }))
+        .rejects.toThrow('The amount for the fee type is required')
+      await expect(createLateFeePolicy({ enabled: true, feeType: 'percentage', percentage: 150, gracePeriodDays: 3 }))
+        .rejects.toThrow('Percentage cannot exceed 100')
+    })
+  })
+})
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  applyTenantCredits,
+  getOutstandingCents,
+  getTenantBalance,
+  getTenantLedger,
+  recordPaymentAllocation
+} from '@/lib/payments/ledger'
+import { createPayment, getPaymentById, markPaymentAsPaid } from '@/lib/db/operations/payment'
+import { getAvailableCredits } from '@/lib/db/operations/tenant-credits'
+import { getLateFeePolicy } from '@/lib/db/operations/reminders'
+
+vi.mock('@/lib/db/operations/reminders', () => ({
+  getLateFeePolicy: vi.fn(),
+  getReminderSettings: vi.fn().mockResolvedValue(null)
+}))
+
+const propertyId = '550e8400-e29b-41d4-a716-446655440000'
+
+async function createRent(tenantId: string, dueDate: Date, amountCents = 60000, currency = 'USD') {
+  return createPayment({
+    tenantId,
+    propertyId,
+    amountCents,
+    currency,
+    paymentMethod: 'Wise',
+    status: 'Pending',
+    dueDate,
+    description: `Monthly Rent - ${dueDate.toLocaleString('en-US', { month: 'long' })}`
+  })
+}
+
+describe('Tenant ledger', () => {
+  let tenantId: string
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getLateFeePolicy).mockResolvedValue(null)
+    tenantId = uuidv4()
+  })
+
+  describe('recordPaymentAllocation', () => {
+    it('should leave a payment partially paid after a partial amount', async () => {
+      const rent = await createRent(tenantId, new Date(2025, 2, 1))
+
+      const result = await recordPaymentAllocation(rent.id, { amountCents: 30000, paymentMethod: 'Wise' })
+
+      expect(result.appliedCents).toBe(30000)
+      expect(result.payment.status).toBe('PartiallyPaid')
+      expect(result.payment.allocations).toHaveLength(1)
+      expect(getOutstandingCents(result.payment)).toBe(30000)
+    })
+
+    it('should mark the payment paid once allocations cover it', async () => {
+      const rent = await createRent(tenantId, new Date(2025, 2, 1))
+      const paidDate = new Date(2025, 2, 5)
+
+      await recordPaymentAllocation(rent.id, { amountCents: 30000 })
+      const result = await recordPaymentAllocation(rent.id, { amountCents: 30000, paidDate, reference: 'WISE-42' })
+
+      expect(result.payment.status).toBe('Paid')
+      expect(result.payment.paidDate).toEqual(paidDate)
+      expect(result.payment.reference).toBe('WISE-42')
+    })
+
+    it('should carry an overpayment forward as credit', async () => {
+      const rent = await createRent(tenantId, new Date(2025, 2, 1))
+
+      const result = await recordPaymentAllocation(rent.id, { amountCents: 70000 })
+
+      expect(result.payment.status).toBe('Paid')
+      expect(result.credit?.amountCents).toBe(10000)
+      expect(result.credit?.remainingCents).toBe(10000)
+    })
+
+    it('should reject payments with nothing outstanding', async () => {
+      const rent = await createRent(tenantId, new Date(2025, 2, 1))
+      await markPaymentAsPaid(rent.id)
+
+      await expect(recordPaymentAllocation(rent.id, { amountCents: 100 }))
+        .rejects.toThrow('Payment has no outstanding balance')
+    })
+  })
+
+  describe('applyTenantCredits', () => {
+    it('should apply credit to the oldest outstanding payment first', async () => {
+      const march = await createRent(tenantId, new Date(2025, 2, 1))
+      await recordPaymentAllocation(march.id, { amountCents: 70000 })
+      const april = await createRent(tenantId, new Date(2025, 3, 1))
+
+      const applied = await applyTenantCredits(tenantId)
+
+      expect(applied).toBe(10000)
+      const updatedApril = await getPaymentById(april.id)
+      expect(updatedApril?.status).toBe('PartiallyPaid')
+      expect(updatedApril?.allocations?.[0].source).toBe('credit')
+      expect(await getAvailableCredits(tenantId)).toHaveLength(0)
+    })
+
+    it('should only apply credit to payments in its currency', async () => {
+      const march = await createRent(tenantId, new Date(2025, 2, 1))
+      await recordPaymentAllocation(march.id, { amountCents: 70000 })
+      const stay = await createRent(tenantId, new Date(2025, 3, 1), 3500000, 'VND')
+
+      expect(await applyTenantCredits(tenantId)).toBe(0)
+      expect((await getPaymentById(stay.id))?.status).toBe('Pending')
+      expect(await getAvailableCredits(tenantId)).toEqual([expect.objectContaining({ currency: 'USD', remainingCents: 10000 })])
+    })
+  })
+
+  describe('getTenantLedger', () => {
+    it('should compute a running balance across charges, payments and credits', async () => {
+      const march = await createRent(tenantId, new Date(2025, 2, 1))
+      await recordPaymentAllocation(march.id, { amountCents: 70000, paidDate: new Date(2025, 2, 2) })
+      await createRent(tenantId, new Date(2025, 3, 1))
+      await applyTenantCredits(tenantId)
+
+      const ledger = await getTenantLedger(tenantId)
+
+      expect(ledger.map(entry => entry.type)).toEqual(['charge', 'payment', 'charge', 'credit'])
+      expect(ledger[ledger.length - 1].balanceCents).toBe(50000)
+
+      const balance = await getTenantBalance(tenantId)
+      expect(balance).toEqual([{
+        currency: 'USD',
+        balanceCents: 50000,
+        outstandingCents: 50000,
+        availableCreditCents: 0
+      }])
+    })
+
+    it('should keep a separate balance for each currency', async () => {
+      const march = await createRent(tenantId, new Date(2025, 2, 1))
+      await recordPaymentAllocation(march.id, { amountCents: 70000, paidDate: new Date(2025, 2, 2) })
+      await createRent(tenantId, new Date(2025, 3, 1), 3500000, 'VND')
+
+      const ledger = await getTenantLedger(tenantId)
+
+      expect(ledger.map(entry => [entry.currency, entry.balanceCents])).toEqual([
+        ['USD', 60000],
+        ['USD', 0],
+        ['VND', 3500000],
+        ['USD', -10000]
+      ])
+      expect(await getTenantBalance(tenantId)).toEqual([
+        { currency: 'USD', balanceCents: -10000, outstandingCents: 0, availableCreditCents: 10000 },
+        { currency: 'VND', balanceCents: 3500000, outstandingCents: 3500000, availableCreditCents: 0 }
+      ])
+    })
+
+    it('should settle payments marked paid without allocations', async () => {
+      const rent = await createRent(tenantId, new Date(2025, 2, 1))
+      await markPaymentAsPaid(rent.id, new Date(2025, 2, 3), 'CASH-1')
+
+      const ledger = await getTenantLedger(tenantId)
+
+      expect(ledger).toHaveLength(2)
+      expect(ledger[1].creditCents).toBe(60000)
+      expect(ledger[1].balanceCents).toBe(0)
+    })
+  })
+})
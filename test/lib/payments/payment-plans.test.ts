@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest'
+import { v4 as uuidv4 } from 'uuid'
+import { checkPaymentPlans, createPaymentPlanForArrears, getPaymentPlanSummary } from '@/lib/payments/payment-plans'
+import { getTenantBalance, getTenantLedger, recordPaymentAllocation } from '@/lib/payments/ledger'
+import { createPayment, getPaymentById } from '@/lib/db/operations/payment'
+
+vi.mock('@/lib/payments/late-fees', () => ({
+  waiveLateFeesIfPaidWithinGrace: vi.fn()
+}))
+
+const propertyId = '550e8400-e29b-41d4-a716-446655440000'
+
+async function overdueRent(tenantId: string, month: number, amountCents = 30000) {
+  return createPayment({
+    tenantId,
+    propertyId,
+    amountCents,
+    currency: 'USD',
+    paymentMethod: 'Wire',
+    status: 'Overdue',
+    dueDate: new Date(2025, month, 1),
+    description: `Monthly Rent - ${month + 1}/2025`
+  })
+}
+
+describe('payment plans', () => {
+  it('replaces overdue payments with installments covering what is still owed', async () => {
+    const tenantId = uuidv4()
+    const january = await overdueRent(tenantId, 0)
+    const february = await overdueRent(tenantId, 1)
+    await recordPaymentAllocation(january.id, { amountCents: 10001 })
+    const balancesBefore = await getTenantBalance(tenantId)
+
+    const { plan, installments } = await createPaymentPlanForArrears({
+      tenantId,
+      paymentIds: [january.id, february.id],
+      installmentCount: 3,
+      firstDueDate: new Date(2025, 3, 1)
+    })
+
+    expect(plan).toMatchObject({ status: 'Active', totalCents: 49999, installmentCount: 3 })
+    expect(installments.map(i => [i.amountCents, i.dueDate, i.status])).toEqual([
+      [16667, new Date(2025, 3, 1), 'Pending'],
+      [16666, new Date(2025, 4, 1), 'Pending'],
+      [16666, new Date(2025, 5, 1), 'Pending']
+    ])
+    expect(installments[0].description).toBe('Payment plan installment 1 of 3 ($499.99 arrears)')
+    expect(await getPaymentById(february.id)).toMatchObject({ status: 'Rescheduled', paymentPlanId: plan.id })
+
+    // The tenant owes the same amount, now spread over the installments
+    expect(await getTenantBalance(tenantId)).toEqual(balancesBefore)
+    const rescheduled = (await getTenantLedger(tenantId)).filter(entry => entry.type === 'rescheduled')
+    expect(rescheduled.map(entry => entry.creditCents)).toEqual([19999, 30000])
+  })
+
+  it('only takes payments that are overdue and still owed', async () => {
+    const tenantId = uuidv4()
+    const upcoming = await createPayment({
+      tenantId,
+      propertyId,
+      amountCents: 30000,
+      currency: 'USD',
+      paymentMethod: 'Wire',
+      status: 'Pending',
+      dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      description: 'Monthly Rent - next month'
+    })
+    const settled = await overdueRent(tenantId, 0)
+    await recordPaymentAllocation(settled.id, { amountCents: 30000 })
+
+    const request = { tenantId, installmentCount: 2, firstDueDate: new Date(2025, 3, 1) }
+    await expect(createPaymentPlanForArrears({ ...request, paymentIds: [upcoming.id] }))
+      .rejects.toThrow('Only overdue payments can be added to a payment plan')
+    await expect(createPaymentPlanForArrears({ ...request, paymentIds: [settled.id] }))
+      .rejects.toThrow('Payment has no outstanding balance')
+    await expect(createPaymentPlanForArrears({ ...request, tenantId: uuidv4(), paymentIds: [upcoming.id] }))
+      .rejects.toThrow('Payment not found')
+  })
+
+  it('stays on track while installments are paid within the grace period', async () => {
+    const tenantId = uuidv4()
+    const arrears = await overdueRent(tenantId, 0, 60000)
+    const { plan, installments } = await createPaymentPlanForArrears({
+      tenantId,
+      paymentIds: [arrears.id],
+      installmentCount: 3,
+      firstDueDate: new Date(2025, 3, 1)
+    })
+
+    // Paid two days late, inside the default three day grace period
+    await recordPaymentAllocation(installments[0].id, { amountCents: 20000, paidDate: new Date(2025, 3, 3) })
+    await checkPaymentPlans({ asOf: new Date(2025, 3, 10) })
+
+    const summary = await getPaymentPlanSummary(plan.id)
+    expect(summary).toMatchObject({ paidCents: 20000, remainingCents: 40000 })
+    expect(summary!.plan.status).toBe('Active')
+    expect(summary!.nextInstallment!.id).toBe(installments[1].id)
+
+    for (const installment of installments.slice(1)) {
+      await recordPaymentAllocation(installment.id, { amountCents: 20000 })
+    }
+    await checkPaymentPlans({ asOf: new Date(2025, 5, 2) })
+    expect((await getPaymentPlanSummary(plan.id))!.plan.status).toBe('Completed')
+  })
+
+  it('defaults when an installment is missed and makes the remaining balance overdue', async () => {
+    const tenantId = uuidv4()
+    const arrears = await overdueRent(tenantId, 0, 60000)
+    const { plan, installments } = await createPaymentPlanForArrears({
+      tenantId,
+      paymentIds: [arrears.id],
+      installmentCount: 3,
+      firstDueDate: new Date(2025, 3, 1)
+    })
+    await recordPaymentAllocation(installments[0].id, { amountCents: 20000 })
+
+    await checkPaymentPlans({ asOf: new Date(2025, 4, 4) })
+    expect((await getPaymentPlanSummary(plan.id))!.plan.status).toBe('Active')
+
+    const asOf = new Date(2025, 4, 5)
+    await checkPaymentPlans({ asOf })
+
+    const summary = await getPaymentPlanSummary(plan.id)
+    expect(summary!.plan).toMatchObject({ status: 'Defaulted', missedInstallmentId: installments[1].id, defaultedAt: asOf })
+    expect(summary!.installments.map(i => [i.status, i.dueDate])).toEqual([
+      ['Paid', new Date(2025, 3, 1)],
+      ['Overdue', new Date(2025, 4, 1)],
+      ['Overdue', asOf]
+    ])
+  })
+})
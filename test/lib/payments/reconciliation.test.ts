@@ -0,0 +1,294 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  detectStatementFormat,
+  parseCAMT053Statement,
+  parseCSVStatement,
+  parseOFXStatement
+} from '@/lib/payments/bank-statements'
+import {
+  confirmMatches,
+  getReconciliationQueue,
+  ignoreBankTransaction,
+  importBankStatement
+} from '@/lib/payments/reconciliation'
+import { createPayment, getPaymentById } from '@/lib/db/operations/payment'
+import { getTenantById } from '@/lib/db/operations/tenants'
+import { Tenant } from '@/lib/db/models/tenant'
+
+vi.mock('@/lib/db/operations/tenants', () => ({
+  getTenantById: vi.fn()
+}))
+
+// No late fee policy, so settling a payment has no late fees to waive
+vi.mock('@/lib/db/operations/reminders', () => ({
+  getLateFeePolicy: vi.fn().mockResolvedValue(null),
+  getReminderSettings: vi.fn().mockResolvedValue(null)
+}))
+
+const propertyId = '550e8400-e29b-41d4-a716-446655440000'
+
+const OFX_STATEMENT = `OFXHEADER:100
+DATA:OFXSGML
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>EUR
+<BANKACCTFROM><ACCTID>LT123456<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20250303120000.000
+<TRNAMT>450.00
+<FITID>REV-0001
+<NAME>Anna Schmidt
+<MEMO>Rent March
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20250304
+<TRNAMT>-12.50
+<FITID>REV-0002
+<NAME>Card fee
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`
+
+const CAMT_STATEMENT = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Acct><Id><IBAN>DE89370400440532013000</IBAN></Id></Acct>
+      <Ntry>
+        <Amt Ccy="EUR">600.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <BookgDt><Dt>2025-03-02</Dt></BookgDt>
+        <AcctSvcrRef>CAMT-REF-1</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+          <RltdPties><Dbtr><Nm>Tom &amp; Jerry Ltd</Nm></Dbtr></RltdPties>
+          <RmtInf><Ustrd>RENT-MAR-2025-007</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">80.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <BookgDt><Dt>2025-03-03</Dt></BookgDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`
+
+function tenant(id: string, firstName: string, lastName: string): Tenant {
+  return { id, firstName, lastName } as Tenant
+}
+
+async function createRent(tenantId: string, amountCents: number, reference?: string, currency = 'USD') {
+  return createPayment({
+    tenantId,
+    propertyId,
+    amountCents,
+    currency,
+    paymentMethod: 'Wire',
+    status: 'Pending',
+    dueDate: new Date(2025, 2, 1),
+    description: 'Monthly Rent - March 2025',
+    reference
+  })
+}
+
+describe('bank statement parsing', () => {
+  it('parses a mapped CSV with Vietnamese dates and dong amounts', () => {
+    const csv = [
+      'Ngay;So tien;Noi dung;Ma GD',
+      '05/03/2025;+5.000.000;NGUYEN VAN AN chuyen tien phong 203;FT2506412345',
+      '06/03/2025;-200.000;Phi dich vu;FT2506412346',
+      '31/02/2025;1.000.000;Bad date;FT2506412347'
+    ].join('\n')
+
+    const result = parseCSVStatement(csv, {
+      date: 'Ngay',
+      amount: 'So tien',
+      description: 'Noi dung',
+      reference: 'Ma GD',
+      defaultCurrency: 'VND',
+      dateFormat: 'DD/MM/YYYY',
+      decimalSeparator: ',',
+      delimiter: ';'
+    })
+
+    expect(result.lines).toHaveLength(1)
+    expect(result.lines[0]).toMatchObject({
+      amountCents: 5000000,
+      currency: 'VND',
+      bankReference: 'FT2506412345'
+    })
+    expect(result.lines[0].transactionDate).toEqual(new Date(2025, 2, 5))
+    expect(result.skipped).toBe(1)
+    expect(result.errors).toEqual([{ row: 4, error: 'Invalid date: 31/02/2025' }])
+  })
+
+  it('derives a stable reference when the CSV has none', () => {
+    const csv = 'Date,Amount,Description\n2025-03-01,"1,200.00","Rent, room 4"'
+    const mapping = { date: 'Date', amount: 'Amount', description: 'Description' }
+
+    const first = parseCSVStatement(csv, mapping)
+    const second = parseCSVStatement(csv, mapping)
+
+    expect(first.lines[0].amountCents).toBe(120000)
+    expect(first.lines[0].description).toBe('Rent, room 4')
+    expect(first.lines[0].bankReference).toBe(second.lines[0].bankReference)
+  })
+
+  it('rejects a mapping that names missing columns', () => {
+    expect(() => parseCSVStatement('Date,Amount\n2025-03-01,10', {
+      date: 'Date',
+      amount: 'Amount',
+      description: 'Memo'
+    })).toThrow('Missing mapped columns: Memo')
+  })
+
+  it('parses OFX credits and skips debits', () => {
+    const result = parseOFXStatement(OFX_STATEMENT)
+
+    expect(result.skipped).toBe(1)
+    expect(result.lines).toEqual([{
+      transactionDate: new Date(2025, 2, 3),
+      amountCents: 45000,
+      currency: 'EUR',
+      description: 'Rent March Anna Schmidt',
+      counterpartyName: 'Anna Schmidt',
+      bankReference: 'REV-0001',
+      bankAccount: 'LT123456'
+    }])
+  })
+
+  it('parses CAMT.053 credit entries', () => {
+    const result = parseCAMT053Statement(CAMT_STATEMENT)
+
+    expect(result.skipped).toBe(1)
+    expect(result.lines).toEqual([{
+      transactionDate: new Date(2025, 2, 2),
+      amountCents: 60000,
+      currency: 'EUR',
+      description: 'RENT-MAR-2025-007',
+      counterpartyName: 'Tom & Jerry Ltd',
+      bankReference: 'CAMT-REF-1',
+      bankAccount: 'DE89370400440532013000'
+    }])
+  })
+
+  it('detects the statement format', () => {
+    expect(detectStatementFormat('march.ofx', '')).toBe('ofx')
+    expect(detectStatementFormat('export', CAMT_STATEMENT)).toBe('camt053')
+    expect(detectStatementFormat('wise.csv', 'Date,Amount')).toBe('csv')
+  })
+})
+
+describe('payment reconciliation', () => {
+  const mapping = { date: 'Date', amount: 'Amount', description: 'Description', reference: 'Reference', counterparty: 'Payer' }
+
+  beforeEach(() => {
+    vi.mocked(getTenantById).mockReset()
+  })
+
+  it('proposes the payment matching amount, reference and tenant name', async () => {
+    const annaId = uuidv4()
+    const otherId = uuidv4()
+    vi.mocked(getTenantById).mockImplementation(async id =>
+      id === annaId ? tenant(annaId, 'Anna', 'Nguyễn') : tenant(otherId, 'Ben', 'Tran')
+    )
+    const rent = await createRent(annaId, 61000, 'RENT-MAR-A17')
+    await createRent(otherId, 61000)
+
+    const csv = `Date,Amount,Description,Reference,Payer\n2025-03-02,610.00,Rent RENT MAR A17,BANK-A17-${annaId},ANNA NGUYEN`
+    const result = await importBankStatement(csv, { format: 'csv', mapping })
+
+    expect(result.imported).toBe(1)
+    const [best, second] = result.items[0].proposals
+    expect(best.paymentId).toBe(rent.id)
+    expect(best.confidence).toBe(100)
+    expect(best.reasons).toEqual(['Exact amount', 'Payment reference', 'Tenant name'])
+    expect(second.confidence).toBe(50)
+  })
+
+  it('skips lines imported from an overlapping statement', async () => {
+    vi.mocked(getTenantById).mockResolvedValue(null)
+    const csv = `Date,Amount,Description,Reference,Payer\n2025-03-02,123.45,Transfer,DUP-${uuidv4()},Someone`
+
+    await importBankStatement(csv, { format: 'csv', mapping })
+    const again = await importBankStatement(csv, { format: 'csv', mapping })
+
+    expect(again.imported).toBe(0)
+    expect(again.duplicates).toBe(1)
+  })
+
+  it('confirms matches in bulk and keeps the rest queued', async () => {
+    const tenantId = uuidv4()
+    vi.mocked(getTenantById).mockResolvedValue(tenant(tenantId, 'Minh', 'Le'))
+    const rent = await createRent(tenantId, 70000)
+    const bankReference = `WISE-${uuidv4()}`
+
+    const csv = [
+      'Date,Amount,Description,Reference,Payer',
+      `2025-03-04,700.00,Rent,${bankReference},Minh Le`,
+      `2025-03-04,9.99,Unknown,OTHER-${uuidv4()},Nobody`
+    ].join('\n')
+    const { items } = await importBankStatement(csv, { format: 'csv', mapping })
+    const [rentLine, strayLine] = items
+
+    const result = await confirmMatches([
+      { transactionId: rentLine.transaction.id, paymentId: rent.id },
+      { transactionId: strayLine.transaction.id, paymentId: rent.id }
+    ], 'manager-1')
+
+    expect(result.confirmed).toHaveLength(1)
+    expect(result.failed).toEqual([{ transactionId: strayLine.transaction.id, error: 'Payment is not awaiting payment' }])
+
+    const paid = await getPaymentById(rent.id)
+    expect(paid?.status).toBe('Paid')
+    expect(paid?.reference).toBe(bankReference)
+    expect(paid?.paidDate).toEqual(new Date(2025, 2, 4))
+
+    const queueIds = (await getReconciliationQueue()).map(item => item.transaction.id)
+    expect(queueIds).toContain(strayLine.transaction.id)
+    expect(queueIds).not.toContain(rentLine.transaction.id)
+  })
+
+  it('records a short transfer as a part payment and matches the rest later', async () => {
+    const tenantId = uuidv4()
+    vi.mocked(getTenantById).mockResolvedValue(tenant(tenantId, 'Lan', 'Vo'))
+    const rent = await createRent(tenantId, 80000)
+
+    const firstCsv = `Date,Amount,Description,Reference,Payer\n2025-03-03,500.00,Rent part 1,PART-${uuidv4()},Lan Vo`
+    const first = await importBankStatement(firstCsv, { format: 'csv', mapping })
+    const firstResult = await confirmMatches([{ transactionId: first.items[0].transaction.id, paymentId: rent.id }])
+
+    expect(firstResult.confirmed[0].payment.status).toBe('PartiallyPaid')
+    expect(firstResult.confirmed[0].payment.allocations?.map(a => a.amountCents)).toEqual([50000])
+
+    const secondCsv = `Date,Amount,Description,Reference,Payer\n2025-03-10,300.00,Rent part 2,PART-${uuidv4()},Lan Vo`
+    const second = await importBankStatement(secondCsv, { format: 'csv', mapping })
+    const [proposal] = second.items[0].proposals
+    expect(proposal.paymentId).toBe(rent.id)
+    expect(proposal.reasons).toContain('Exact amount')
+
+    await confirmMatches([{ transactionId: second.items[0].transaction.id, paymentId: rent.id }])
+
+    const paid = await getPaymentById(rent.id)
+    expect(paid?.status).toBe('Paid')
+    expect(paid?.paidDate).toEqual(new Date(2025, 2, 10))
+  })
+
+  it('removes ignored credits from the queue', async () => {
+    vi.mocked(getTenantById).mockResolvedValue(null)
+    const csv = `Date,Amount,Description,Reference,Payer\n2025-03-05,50.00,Owner top-up,IGN-${uuidv4()},Owner`
+    const { items } = await importBankStatement(csv, { format: 'csv', mapping })
+
+    await ignoreBankTransaction(items[0].transaction.id)
+
+    const queueIds = (await getReconciliationQueue()).map(item => item.transaction.id)
+    expect(queueIds).not.toContain(items[0].transaction.id)
+    await expect(ignoreBankTransaction(items[0].transaction.id)).rejects.toThrow('Bank transaction is already reconciled')
+  })
+})
@@ -0,0 +1,251 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  calculateProratedRent,
+  generateRentRoll,
+  getRentPeriod,
+  resolveRentTerms
+} from '@/lib/payments/rent-roll'
+import { createPayment, getPaymentsByTenant } from '@/lib/db/operations/payment'
+import { getPropertyById } from '@/lib/db/operations/properties'
+import { getPropertyTenants } from '@/lib/db/operations/tenants'
+import type { Tenant } from '@/lib/db/models/tenant'
+
+vi.mock('@/lib/db/operations/tenants', () => ({
+  getPropertyTenants: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/properties', () => ({
+  getActiveProperties: vi.fn(),
+  getPropertyById: vi.fn()
+}))
+
+const propertyId = '550e8400-e29b-41d4-a716-446655440000'
+const march2025 = getRentPeriod(new Date(2025, 2, 15))
+
+function buildTenant(overrides: Partial<Tenant> = {}): Tenant {
+  return {
+    id: uuidv4(),
+    email: 'tenant@example.com',
+    firstName: 'Linh',
+    lastName: 'Nguyen',
+    phone: '+84 90 000 0000',
+    status: 'Active',
+    propertyId,
+    emergencyContacts: [],
+    documents: [],
+    communicationHistory: [],
+    leaseHistory: [],
+    monthlyRentCents: 62000,
+    leaseStart: new Date(2024, 0, 1),
+    leaseEnd: new Date(2025, 11, 31),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  }
+}
+
+describe('Rent roll', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('getRentPeriod', () => {
+    it('should cover the whole calendar month of the reference date', () => {
+      expect(march2025.start).toEqual(new Date(2025, 2, 1))
+      expect(march2025.end.getDate()).toBe(31)
+      expect(march2025.end.getMonth()).toBe(2)
+    })
+  })
+
+  describe('resolveRentTerms', () => {
+    it('should prefer the active lease record over legacy fields', () => {
+      const leaseId = uuidv4()
+      const tenant = buildTenant({
+        currentLeaseId: leaseId,
+        leaseHistory: [{
+          id: leaseId,
+          startDate: new Date(2025, 0, 1),
+          endDate: new Date(2025, 5, 30),
+          monthlyRentCents: 70000,
+          depositCents: 70000,
+          isActive: true,
+          renewalNotificationSent: false,
+          expirationAlertSent: false
+        }]
+      })
+
+      const terms = resolveRentTerms(tenant, march2025)
+
+      expect(terms?.monthlyRentCents).toBe(70000)
+      expect(terms?.leaseId).toBe(leaseId)
+    })
+
+    it('should return null when no lease covers the period', () => {
+      const tenant = buildTenant({ leaseEnd: new Date(2025, 1, 28) })
+
+      expect(resolveRentTerms(tenant, march2025)).toBeNull()
+    })
+  })
+
+  describe('calculateProratedRent', () => {
+    it('should bill the full rent for a full month', () => {
+      const rent = calculateProratedRent(
+        { monthlyRentCents: 62000, leaseStart: new Date(2025, 0, 1) },
+        march2025
+      )
+
+      expect(rent.prorated).toBe(false)
+      expect(rent.amountCents).toBe(62000)
+    })
+
+    it('should pro-rate a partial first month by day', () => {
+      const rent = calculateProratedRent(
+        { monthlyRentCents: 62000, leaseStart: new Date(2025, 2, 22) },
+        march2025
+      )
+
+      expect(rent.prorated).toBe(true)
+      expect(rent.daysBilled).toBe(10)
+      expect(rent.daysInPeriod).toBe(31)
+      expect(rent.amountCents).toBe(20000)
+      expect(rent.billedFrom).toEqual(new Date(2025, 2, 22))
+    })
+
+    it('should pro-rate a partial last month by day', () => {
+      const rent = calculateProratedRent(
+        { monthlyRentCents: 62000, leaseStart: new Date(2024, 0, 1), leaseEnd: new Date(2025, 2, 15) },
+        march2025
+      )
+
+      expect(rent.daysBilled).toBe(15)
+      expect(rent.amountCents).toBe(30000)
+    })
+  })
+
+  describe('generateRentRoll', () => {
+    it('should create pending payments for active tenants', async () => {
+      const tenant = buildTenant()
+      vi.mocked(getPropertyTenants).mockResolvedValue([tenant])
+
+      const result = await generateRentRoll({ periodStart: march2025.start, propertyId })
+
+      expect(result.generated).toHaveLength(1)
+      expect(result.totalsByCurrency).toEqual({ USD: 62000 })
+
+      const payments = await getPaymentsByTenant(tenant.id)
+      expect(payments).toHaveLength(1)
+      expect(payments[0].status).toBe('Pending')
+      expect(payments[0].description).toBe('Monthly Rent - March 2025')
+      expect(payments[0].billingPeriodStart).toEqual(march2025.start)
+    })
+
+    it('should skip tenants already billed for the period', async () => {
+      const tenant = buildTenant()
+      vi.mocked(getPropertyTenants).mockResolvedValue([tenant])
+
+      await createPayment({
+        tenantId: tenant.id,
+        propertyId,
+        amountCents: 62000,
+        currency: 'USD',
+        paymentMethod: 'Wise',
+        status: 'Paid',
+        dueDate: new Date(2025, 2, 1),
+        description: 'Monthly Rent - March 2025'
+      })
+
+      const result = await generateRentRoll({ periodStart: march2025.start, propertyId })
+
+      expect(result.generated).toHaveLength(0)
+      expect(result.skipped).toEqual([{ tenantId: tenant.id, reason: 'Rent already billed for period' }])
+    })
+
+    it('should not count a short-stay charge as the period rent', async () => {
+      const tenant = buildTenant()
+      vi.mocked(getPropertyTenants).mockResolvedValue([tenant])
+
+      await createPayment({
+        tenantId: tenant.id,
+        propertyId,
+        amountCents: 18000,
+        currency: 'USD',
+        paymentMethod: 'Stripe',
+        status: 'Paid',
+        dueDate: new Date(2025, 2, 10),
+        description: 'Stay in room 4, 3 nights',
+        billingPeriodStart: new Date(2025, 2, 10),
+        billingPeriodEnd: new Date(2025, 2, 12),
+        shortStayId: uuidv4()
+      })
+
+      const result = await generateRentRoll({ periodStart: march2025.start, propertyId })
+
+      expect(result.generated).toHaveLength(1)
+    })
+
+    it('should bill in the property rent currency, not its reporting currency', async () => {
+      const tenant = buildTenant({ monthlyRentCents: 5000000 })
+      vi.mocked(getPropertyTenants).mockResolvedValue([tenant])
+      vi.mocked(getPropertyById).mockResolvedValue(
+        { id: propertyId, reportingCurrency: 'USD', rentCurrency: 'VND' } as Awaited<ReturnType<typeof getPropertyById>>
+      )
+
+      const result = await generateRentRoll({ periodStart: march2025.start, propertyId })
+
+      const [payment] = await getPaymentsByTenant(tenant.id)
+      expect(payment.currency).toBe('VND')
+      expect(payment.amountCents).toBe(5000000)
+      expect(result.totalsByCurrency).toEqual({ VND: 5000000 })
+    })
+
+    it('should bill in the currency recorded on the lease', async () => {
+      const tenant = buildTenant({
+        leaseHistory: [{
+          id: uuidv4(),
+          startDate: new Date(2025, 0, 1),
+          endDate: new Date(2025, 11, 31),
+          monthlyRentCents: 55000,
+          currency: 'EUR',
+          depositCents: 55000,
+          isActive: true,
+          renewalNotificationSent: false,
+          expirationAlertSent: false
+        }]
+      })
+      vi.mocked(getPropertyTenants).mockResolvedValue([tenant])
+      vi.mocked(getPropertyById).mockResolvedValue(
+        { id: propertyId, rentCurrency: 'VND' } as Awaited<ReturnType<typeof getPropertyById>>
+      )
+
+      await generateRentRoll({ periodStart: march2025.start, propertyId })
+
+      const [payment] = await getPaymentsByTenant(tenant.id)
+      expect(payment).toMatchObject({ amountCents: 55000, currency: 'EUR' })
+    })
+
+    it('should be idempotent across runs', async () => {
+      const tenant = buildTenant()
+      vi.mocked(getPropertyTenants).mockResolvedValue([tenant])
+
+      await generateRentRoll({ periodStart: march2025.start, propertyId })
+      const secondRun = await generateRentRoll({ periodStart: march2025.start, propertyId })
+
+      expect(secondRun.generated).toHaveLength(0)
+      expect(await getPaymentsByTenant(tenant.id)).toHaveLength(1)
+    })
+
+    it('should skip moved out tenants and not write payments on a dry run', async () => {
+      const movedOut = buildTenant({ status: 'Moved Out' })
+      const active = buildTenant()
+      vi.mocked(getPropertyTenants).mockResolvedValue([movedOut, active])
+
+      const result = await generateRentRoll({ periodStart: march2025.start, propertyId, dryRun: true })
+
+      expect(result.generated).toHaveLength(1)
+      expect(result.generated[0].paymentId).toBeUndefined()
+      expect(result.skipped[0]).toEqual({ tenantId: movedOut.id, reason: 'Tenant has moved out' })
+      expect(await getPaymentsByTenant(active.id)).toHaveLength(0)
+    })
+  })
+})
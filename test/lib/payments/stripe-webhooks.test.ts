@@ -0,0 +1,254 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type Stripe from 'stripe'
+import { handleWebhookEvent } from '@/lib/payments/stripe'
+import { sendPaymentFailureNotification } from '@/lib/payments/confirmations'
+import { createPayment, getPaymentById } from '@/lib/db/operations/payment'
+import { createStripeEvent, getStripeEvent, updateStripeEvent } from '@/lib/db/operations/stripe-events'
+import { recordPaymentAllocation } from '@/lib/payments/ledger'
+import { waiveLateFeesIfPaidWithinGrace } from '@/lib/payments/late-fees'
+import { recordFailedAutopayCharge } from '@/lib/payments/autopay'
+import { CreatePayment } from '@/lib/db/models/payment'
+import paymentFailedFixture from '../../fixtures/stripe/payment_intent.payment_failed.json'
+import disputeCreatedFixture from '../../fixtures/stripe/charge.dispute.created.json'
+import disputeClosedFixture from '../../fixtures/stripe/charge.dispute.closed.json'
+import chargeRefundedFixture from '../../fixtures/stripe/charge.refunded.json'
+import refundUpdatedFixture from '../../fixtures/stripe/refund.updated.json'
+
+vi.mock('stripe', () => ({
+  default: class MockStripe {}
+}))
+
+vi.mock('@/lib/payments/confirmations', () => ({
+  sendPaymentFailureNotification: vi.fn().mockResolvedValue(true)
+}))
+
+vi.mock('@/lib/payments/autopay', () => ({
+  recordFailedAutopayCharge: vi.fn()
+}))
+
+vi.mock('@/lib/payments/late-fees', () => ({
+  getEffectiveDueDate: vi.fn(async (payment: { dueDate: Date }) => new Date(payment.dueDate)),
+  waiveLateFeesIfPaidWithinGrace: vi.fn()
+}))
+
+// Fresh copy of a recorded payload, optionally under a new event ID
+function fixture(payload: unknown, eventId?: string): Stripe.Event {
+  const event = JSON.parse(JSON.stringify(payload)) as Stripe.Event
+  if (eventId) event.id = eventId
+  return event
+}
+
+async function createStripePayment(stripePaymentIntentId: string, overrides: Partial<CreatePayment> = {}) {
+  return createPayment({
+    tenantId: '550e8400-e29b-41d4-a716-446655440001',
+    propertyId: '550e8400-e29b-41d4-a716-446655440000',
+    amountCents: 60000,
+    currency: 'USD',
+    paymentMethod: 'Stripe',
+    status: 'Pending',
+    dueDate: new Date('2024-03-01'),
+    description: 'Monthly Rent - March 2024',
+    stripePaymentIntentId,
+    ...overrides
+  })
+}
+
+describe('Stripe webhook handling', () => {
+  beforeEach(() => {
+    vi.mocked(sendPaymentFailureNotification).mockClear()
+  })
+
+  it('marks failed charges overdue and notifies the tenant', async () => {
+    const payment = await createStripePayment('pi_3OsKf2LkdIwHu7ix1qWfa1Ed')
+
+    const result = await handleWebhookEvent(fixture(paymentFailedFixture))
+
+    expect(result).toMatchObject({ duplicate: false, paymentId: payment.id })
+    const updated = await getPaymentById(payment.id)
+    expect(updated?.status).toBe('Overdue')
+    expect(updated?.notes).toContain('Your card has insufficient funds.')
+    expect(sendPaymentFailureNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ id: payment.id }),
+      'Your card has insufficient funds.'
+    )
+    expect(recordFailedAutopayCharge).toHaveBeenCalledWith(
+      expect.objectContaining({ id: payment.id }),
+      'pi_3OsKf2LkdIwHu7ix1qWfa1Ed',
+      'Your card has insufficient funds.'
+    )
+  })
+
+  it('settles the remainder of a partly paid payment through the ledger', async () => {
+    const payment = await createStripePayment('pi_remainder', { paymentMethod: 'Wire' })
+    await recordPaymentAllocation(payment.id, { amountCents: 20000 })
+    const event = fixture(paymentFailedFixture, 'evt_remainder_succeeded')
+    event.type = 'payment_intent.succeeded'
+    event.data.object = {
+      ...event.data.object,
+      id: 'pi_remainder',
+      status: 'succeeded',
+      amount: 40000,
+      amount_received: 40000,
+      latest_charge: 'ch_remainder',
+      last_payment_error: null
+    } as Stripe.PaymentIntent
+
+    await handleWebhookEvent(event)
+
+    const updated = await getPaymentById(payment.id)
+    expect(updated?.status).toBe('Paid')
+    expect(updated?.reference).toBe('ch_remainder')
+    expect(updated?.allocations?.map(a => [a.amountCents, a.paymentMethod])).toEqual([
+      [20000, 'Wire'],
+      [40000, 'Stripe']
+    ])
+  })
+
+  it('dates the payment when the charge succeeded, not when the intent was created', async () => {
+    const payment = await createStripePayment('pi_paid_later')
+    const event = fixture(paymentFailedFixture, 'evt_paid_later')
+    event.type = 'payment_intent.succeeded'
+    event.created = Date.UTC(2024, 2, 5, 9) / 1000
+    event.data.object = {
+      ...event.data.object,
+      id: 'pi_paid_later',
+      status: 'succeeded',
+      created: Date.UTC(2024, 1, 20) / 1000,
+      amount_received: 60000,
+      latest_charge: 'ch_paid_later',
+      last_payment_error: null
+    } as Stripe.PaymentIntent
+
+    await handleWebhookEvent(event)
+
+    expect((await getPaymentById(payment.id))?.paidDate).toEqual(new Date(Date.UTC(2024, 2, 5, 9)))
+    // Late fees charged before the webhook arrived are waived if the charge was within grace
+    expect(waiveLateFeesIfPaidWithinGrace).toHaveBeenCalledWith(expect.objectContaining({ id: payment.id, status: 'Paid' }))
+  })
+
+  it('processes a redelivered event only once', async () => {
+    const event = fixture(paymentFailedFixture, 'evt_redelivered_failure')
+    event.data.object = { ...event.data.object, id: 'pi_redelivered' } as Stripe.PaymentIntent
+    await createStripePayment('pi_redelivered')
+
+    await handleWebhookEvent(event)
+    const again = await handleWebhookEvent(fixture(event))
+
+    expect(again.duplicate).toBe(true)
+    expect(sendPaymentFailureNotification).toHaveBeenCalledTimes(1)
+    expect(await getStripeEvent('evt_redelivered_failure')).toMatchObject({
+      type: 'payment_intent.payment_failed',
+      status: 'processed',
+      attempts: 1
+    })
+  })
+
+  it('moves disputed payments to Disputed with the evidence deadline and restores them when won', async () => {
+    const payment = await createStripePayment('pi_3OsLnPLkdIwHu7ix0Dsp1Ab2', {
+      amountCents: 45000,
+      status: 'Paid',
+      paidDate: new Date('2024-03-01')
+    })
+
+    await handleWebhookEvent(fixture(disputeCreatedFixture))
+
+    const disputed = await getPaymentById(payment.id)
+    expect(disputed?.status).toBe('Disputed')
+    expect(disputed?.dispute).toMatchObject({
+      stripeDisputeId: 'dp_1OsLq3LkdIwHu7ixQm4Tz8Vb',
+      reason: 'fraudulent',
+      status: 'needs_response',
+      amountCents: 45000,
+      statusBeforeDispute: 'Paid',
+      evidenceDueBy: new Date(1710460799 * 1000)
+    })
+
+    await handleWebhookEvent(fixture(disputeClosedFixture))
+
+    const closed = await getPaymentById(payment.id)
+    expect(closed?.status).toBe('Paid')
+    expect(closed?.paidDate).toEqual(new Date('2024-03-01'))
+    expect(closed?.dispute?.status).toBe('won')
+    expect(closed?.dispute?.closedAt).toBeInstanceOf(Date)
+  })
+
+  it('leaves the rent unpaid when a dispute is lost', async () => {
+    const event = fixture(disputeClosedFixture, 'evt_dispute_lost')
+    const dispute = event.data.object as Stripe.Dispute
+    event.data.object = { ...dispute, id: 'dp_lost', payment_intent: 'pi_dispute_lost', status: 'lost' } as Stripe.Dispute
+    const payment = await createStripePayment('pi_dispute_lost', { status: 'Paid', paidDate: new Date('2024-03-01') })
+
+    await handleWebhookEvent(event)
+
+    const updated = await getPaymentById(payment.id)
+    expect(updated?.status).toBe('Overdue')
+    expect(updated?.paidDate).toBeUndefined()
+  })
+
+  it('records full refunds and reverts them when the refund fails', async () => {
+    const payment = await createStripePayment('pi_3OtQwELkdIwHu7ix0Rfd9Zx1', {
+      amountCents: 52000,
+      status: 'Paid',
+      paidDate: new Date('2024-03-07')
+    })
+
+    await handleWebhookEvent(fixture(chargeRefundedFixture))
+
+    const refunded = await getPaymentById(payment.id)
+    expect(refunded?.status).toBe('Refunded')
+    expect(refunded?.refundedCents).toBe(52000)
+    expect(refunded?.refunds).toEqual([
+      expect.objectContaining({ stripeRefundId: 're_3OtQwELkdIwHu7ix0Rfd2Pq8', status: 'pending' })
+    ])
+
+    await handleWebhookEvent(fixture(refundUpdatedFixture))
+
+    const reverted = await getPaymentById(payment.id)
+    expect(reverted?.status).toBe('Paid')
+    expect(reverted?.refundedCents).toBe(0)
+    expect(reverted?.refunds).toEqual([
+      expect.objectContaining({ status: 'failed', failureReason: 'expired_or_canceled_card' })
+    ])
+  })
+
+  it('records failed processing so the event is retried on redelivery', async () => {
+    vi.mocked(sendPaymentFailureNotification).mockRejectedValueOnce(new Error('Email service down'))
+    const event = fixture(paymentFailedFixture, 'evt_retry_failure')
+    event.data.object = { ...event.data.object, id: 'pi_retry' } as Stripe.PaymentIntent
+    await createStripePayment('pi_retry')
+
+    await expect(handleWebhookEvent(event)).rejects.toThrow('Email service down')
+    expect(await getStripeEvent('evt_retry_failure')).toMatchObject({ status: 'failed', error: 'Email service down' })
+
+    const retried = await handleWebhookEvent(fixture(event))
+
+    expect(retried.duplicate).toBe(false)
+    expect(await getStripeEvent('evt_retry_failure')).toMatchObject({ status: 'processed', attempts: 2 })
+  })
+
+  it('retries an event whose processing never finished', async () => {
+    const event = fixture(paymentFailedFixture, 'evt_stuck_processing')
+    event.data.object = { ...event.data.object, id: 'pi_stuck' } as Stripe.PaymentIntent
+    const payment = await createStripePayment('pi_stuck')
+    await createStripeEvent({ id: event.id, type: event.type, payload: {} })
+
+    // Still within the timeout, another delivery may be processing it
+    expect((await handleWebhookEvent(fixture(event))).duplicate).toBe(true)
+
+    await updateStripeEvent(event.id, { lastAttemptAt: new Date(Date.now() - 10 * 60 * 1000) })
+    const retried = await handleWebhookEvent(fixture(event))
+
+    expect(retried).toMatchObject({ duplicate: false, paymentId: payment.id })
+    expect(await getStripeEvent(event.id)).toMatchObject({ status: 'processed', attempts: 2 })
+  })
+
+  it('ignores events for payments it does not know', async () => {
+    const event = fixture(paymentFailedFixture, 'evt_unknown_intent')
+    event.data.object = { ...event.data.object, id: 'pi_unknown' } as Stripe.PaymentIntent
+
+    const result = await handleWebhookEvent(event)
+
+    expect(result.paymentId).toBeUndefined()
+    expect(sendPaymentFailureNotification).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { v4 as uuidv4 } from 'uuid'
+import type Stripe from 'stripe'
+import {
+  getTenantForUser,
+  getTenantPortalOverview,
+  getTenantReceiptHTML,
+  setTenantAutopayMethod,
+  startTenantCardPayment
+} from '@/lib/payments/tenant-portal'
+import { recordPaymentAllocation } from '@/lib/payments/ledger'
+import {
+  createCustomer,
+  createPaymentIntent,
+  getCustomerPaymentMethods,
+  getPaymentIntent
+} from '@/lib/payments/stripe'
+import { createPayment, getPaymentById, updatePayment } from '@/lib/db/operations/payment'
+import { getTenantByEmail, updateTenant } from '@/lib/db/operations/tenants'
+import { Tenant } from '@/lib/db/models/tenant'
+
+vi.mock('@/lib/payments/stripe', () => ({
+  createCustomer: vi.fn(),
+  createPaymentIntent: vi.fn(),
+  createSetupIntent: vi.fn(),
+  getCustomerPaymentMethods: vi.fn(),
+  getPaymentIntent: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/tenants', () => ({
+  getTenantByEmail: vi.fn(),
+  updateTenant: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/properties', () => ({
+  getPropertyById: vi.fn().mockResolvedValue({
+    name: 'Sunset Coliving',
+    address: { street: '12 Bach Dang', city: 'Da Nang', country: 'Vietnam' }
+  })
+}))
+
+vi.mock('@/lib/payments/late-fees', () => ({
+  waiveLateFeesIfPaidWithinGrace: vi.fn()
+}))
+
+const propertyId = '550e8400-e29b-41d4-a716-446655440000'
+
+function tenant(overrides: Partial<Tenant> = {}): Tenant {
+  return {
+    id: uuidv4(),
+    email: 'linh@example.com',
+    firstName: 'Linh',
+    lastName: 'Pham',
+    ...overrides
+  } as Tenant
+}
+
+async function createRent(tenantId: string, overrides: Record<string, unknown> = {}) {
+  return createPayment({
+    tenantId,
+    propertyId,
+    amountCents: 50000,
+    currency: 'USD',
+    paymentMethod: 'Wire',
+    status: 'Pending',
+    dueDate: new Date(2025, 3, 1),
+    description: 'Monthly Rent - April 2025',
+    ...overrides
+  })
+}
+
+describe('tenant portal', () => {
+  beforeEach(() => {
+    vi.mocked(createCustomer).mockReset()
+    vi.mocked(createPaymentIntent).mockReset()
+    vi.mocked(getPaymentIntent).mockReset()
+    vi.mocked(getCustomerPaymentMethods).mockReset()
+    vi.mocked(updateTenant).mockReset()
+  })
+
+  it('only resolves tenant records for TENANT users', async () => {
+    const linh = tenant()
+    vi.mocked(getTenantByEmail).mockResolvedValue(linh)
+
+    expect(await getTenantForUser({ role: 'TENANT', email: linh.email })).toBe(linh)
+    expect(await getTenantForUser({ role: 'COMMUNITY_MANAGER', email: linh.email })).toBeNull()
+  })
+
+  it('lists outstanding amounts and paid history for the tenant only', async () => {
+    const linh = tenant()
+    const rent = await createRent(linh.id)
+    const partlyPaid = await createRent(linh.id, { dueDate: new Date(2025, 2, 1) })
+    await recordPaymentAllocation(partlyPaid.id, { amountCents: 20000 })
+    const paid = await createRent(linh.id, { status: 'Paid', paidDate: new Date(2025, 1, 2), dueDate: new Date(2025, 1, 1) })
+    await createRent(uuidv4())
+
+    const overview = await getTenantPortalOverview(linh)
+
+    expect(overview.outstanding.map(p => [p.id, p.outstandingCents])).toEqual([
+      [partlyPaid.id, 30000],
+      [rent.id, 50000]
+    ])
+    expect(overview.history.map(p => p.id)).toEqual([partlyPaid.id, paid.id])
+    expect(overview.balances).toEqual([expect.objectContaining({ currency: 'USD', outstandingCents: 80000 })])
+  })
+
+  it('starts a card payment for the outstanding amount on the tenant customer', async () => {
+    const linh = tenant()
+    const rent = await createRent(linh.id)
+    vi.mocked(createCustomer).mockResolvedValue({ id: 'cus_linh' } as Stripe.Customer)
+    vi.mocked(createPaymentIntent).mockResolvedValue({ id: 'pi_portal', client_secret: 'pi_portal_secret' } as Stripe.PaymentIntent)
+
+    const session = await startTenantCardPayment(linh, rent.id, { saveCard: true })
+
+    expect(session).toEqual({
+      paymentId: rent.id,
+      paymentIntentId: 'pi_portal',
+      clientSecret: 'pi_portal_secret',
+      amountCents: 50000,
+      currency: 'USD'
+    })
+    expect(updateTenant).toHaveBeenCalledWith({ id: linh.id, stripeCustomerId: 'cus_linh' })
+    expect(createPaymentIntent).toHaveBeenCalledWith(expect.objectContaining({
+      amount: 50000,
+      currency: 'usd',
+      customerId: 'cus_linh',
+      setupFutureUsage: 'off_session'
+    }))
+    expect((await getPaymentById(rent.id))?.stripePaymentIntentId).toBe('pi_portal')
+  })
+
+  it('reuses an unconfirmed payment intent for the same amount', async () => {
+    const linh = tenant({ stripeCustomerId: 'cus_linh' })
+    const rent = await createRent(linh.id, { stripePaymentIntentId: 'pi_open' })
+    vi.mocked(getPaymentIntent).mockResolvedValue({
+      id: 'pi_open',
+      status: 'requires_payment_method',
+      amount: 50000,
+      customer: 'cus_linh',
+      setup_future_usage: null,
+      client_secret: 'pi_open_secret'
+    } as Stripe.PaymentIntent)
+
+    const session = await startTenantCardPayment(linh, rent.id)
+
+    expect(session.clientSecret).toBe('pi_open_secret')
+    expect(createPaymentIntent).not.toHaveBeenCalled()
+    expect(createCustomer).not.toHaveBeenCalled()
+  })
+
+  it("refuses another tenant's payment", async () => {
+    const rent = await createRent(uuidv4())
+
+    await expect(startTenantCardPayment(tenant(), rent.id)).rejects.toThrow('Payment not found')
+    await expect(getTenantReceiptHTML(tenant(), rent.id)).rejects.toThrow('Payment not found')
+  })
+
+  it('only sets autopay to a card saved on the tenant customer', async () => {
+    const linh = tenant({ stripeCustomerId: 'cus_linh' })
+    vi.mocked(getCustomerPaymentMethods).mockResolvedValue([
+      { id: 'pm_visa', card: { brand: 'visa', last4: '4242', exp_month: 8, exp_year: 2027 } }
+    ] as Stripe.PaymentMethod[])
+    vi.mocked(updateTenant).mockImplementation(async input => ({ ...linh, ...input }) as Tenant)
+
+    const updated = await setTenantAutopayMethod(linh, 'pm_visa')
+
+    expect(updated.autopayPaymentMethodId).toBe('pm_visa')
+    await expect(setTenantAutopayMethod(linh, 'pm_someone_else')).rejects.toThrow('Payment method not found')
+  })
+
+  it('renders receipts for paid payments only', async () => {
+    const linh = tenant()
+    const pending = await createRent(linh.id)
+    const paid = await createRent(linh.id)
+    await updatePayment(paid.id, { status: 'Paid', paidDate: new Date(2025, 3, 2) })
+
+    const html = await getTenantReceiptHTML(linh, paid.id)
+
+    expect(html).toContain('Linh Pham')
+    expect(html).toContain('Sunset Coliving')
+    expect(html).toContain('$500.00')
+    await expect(getTenantReceiptHTML(linh, pending.id)).rejects.toThrow('Receipts are only available for paid payments')
+  })
+})
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { v4 as uuidv4 } from 'uuid'
+import { allocateByUsage } from '@/lib/allocation/multi-property-allocation'
+import { createUtilityBillCharges, previewUtilityBill } from '@/lib/payments/utility-billing'
+import { getExpense } from '@/lib/db/operations/expenses'
+import { getPropertyRooms, getRoomOccupancyHistory } from '@/lib/db/operations/rooms'
+import { Expense } from '@/lib/db/models/expense'
+import { OccupancyRecord, Room } from '@/lib/db/models/room'
+
+vi.mock('@/lib/db/operations/expenses', () => ({
+  getExpense: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/rooms', () => ({
+  getPropertyRooms: vi.fn(),
+  getRoomOccupancyHistory: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/tenants', () => ({
+  getPropertyTenants: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/properties', () => ({
+  getActiveProperties: vi.fn()
+}))
+
+vi.mock('@/lib/payments/late-fees', () => ({
+  waiveLateFeesIfPaidWithinGrace: vi.fn()
+}))
+
+const propertyId = '550e8400-e29b-41d4-a716-446655440000'
+const tenantA = uuidv4()
+const tenantB = uuidv4()
+const tenantC = uuidv4()
+
+function room(number: string): Room {
+  return { id: uuidv4(), propertyId, number, type: 'Single', size: 15, monthlyRent: 500, deposit: 500, createdAt: new Date(), updatedAt: new Date() }
+}
+
+function stay(roomId: string, tenantId: string, startDate: Date, endDate?: Date): OccupancyRecord {
+  return { id: uuidv4(), roomId, tenantId, startDate, endDate, monthlyRent: 500, status: 'Current', createdAt: new Date(), updatedAt: new Date() }
+}
+
+describe('allocateByUsage', () => {
+  it('hands out leftover cents by largest remainder so the split adds up', () => {
+    const allocations = allocateByUsage(10000, [
+      { tenantId: tenantA, roomId: 'r1', usage: 1 },
+      { tenantId: tenantB, roomId: 'r2', usage: 1 },
+      { tenantId: tenantC, roomId: 'r3', usage: 1 }
+    ], 'occupancy-days')
+
+    expect(allocations.map(a => a.amount)).toEqual([3334, 3333, 3333])
+  })
+
+  it('leaves the share of usage not listed unallocated', () => {
+    const allocations = allocateByUsage(10000, [{ tenantId: tenantA, roomId: 'r1', usage: 30 }], 'usage-based', 40)
+
+    expect(allocations[0]).toMatchObject({ amount: 7500, percentage: 75 })
+  })
+})
+
+describe('utility billing', () => {
+  const room101 = room('101')
+  const room102 = room('102')
+  const room103 = room('103')
+  let expense: Expense
+
+  beforeEach(() => {
+    expense = {
+      id: uuidv4(),
+      propertyId,
+      amountCents: 40000,
+      currency: 'USD',
+      description: 'EVN electricity March',
+      expenseDate: new Date(2025, 3, 2)
+    } as Expense
+    vi.mocked(getExpense).mockResolvedValue(expense)
+    vi.mocked(getPropertyRooms).mockResolvedValue([room101, room102, room103])
+
+    // A lives in 101 all month; B moves out of 102 on the 10th and C moves in on the 21st; 103 is vacant
+    vi.mocked(getRoomOccupancyHistory).mockImplementation(async roomId => {
+      if (roomId === room101.id) return [stay(room101.id, tenantA, new Date(2024, 8, 1))]
+      if (roomId === room102.id) {
+        return [
+          stay(room102.id, tenantC, new Date(2025, 2, 21)),
+          stay(room102.id, tenantB, new Date(2024, 5, 1), new Date(2025, 2, 10))
+        ]
+      }
+      return []
+    })
+  })
+
+  const cycle = {
+    propertyId,
+    periodStart: new Date(2025, 2, 1),
+    periodEnd: new Date(2025, 2, 31)
+  }
+
+  it('splits metered usage by days in the room and leaves vacant usage with the property', async () => {
+    const preview = await previewUtilityBill({
+      ...cycle,
+      expenseId: expense.id,
+      splitMethod: 'Meter',
+      meterReadings: [
+        { roomId: room101.id, startReading: 1000, endReading: 1200 },
+        { roomId: room102.id, startReading: 500, endReading: 655 },
+        { roomId: room103.id, startReading: 300, endReading: 345 }
+      ]
+    })
+
+    // 400 kWh metered: A 200, B 10/31 of 155 = 50, C 11/31 of 155 = 55, vacant 103 = 45
+    expect(preview.shares.map(s => [s.tenantId, s.usage, s.amountCents])).toEqual([
+      [tenantA, 200, 20000],
+      [tenantC, 55, 5500],
+      [tenantB, 50, 5000]
+    ])
+    expect(preview.unallocatedCents).toBe(9500)
+    expect(preview.shares[1].justification).toBe('Room 102: 55 kWh (11 of 31 days in room) of 400 kWh (13.8%)')
+  })
+
+  it('splits by occupancy days and charges each tenant with a breakdown', async () => {
+    const { bill, payments } = await createUtilityBillCharges({
+      ...cycle,
+      expenseId: expense.id,
+      splitMethod: 'OccupancyDays',
+      utilityType: 'Water',
+      dueDate: new Date(2025, 3, 15)
+    })
+
+    // 31 + 11 + 10 = 52 occupied days
+    expect(bill.shares.map(s => s.amountCents)).toEqual([23846, 8462, 7692])
+    expect(bill.unallocatedCents).toBe(0)
+    expect(bill.paymentIds).toEqual(payments.map(p => p.id))
+
+    const charge = payments.find(p => p.tenantId === tenantB)!
+    expect(charge).toMatchObject({
+      amountCents: 7692,
+      status: 'Pending',
+      utilityBillId: bill.id,
+      dueDate: new Date(2025, 3, 15)
+    })
+    expect(charge.description).toBe(
+      'Water Mar 1 - Mar 31, 2025 - Room 102: 10 of 31 days (19.2% of 52 occupied days) = $76.92 of $400.00 bill'
+    )
+  })
+
+  it('bills an expense only once', async () => {
+    await createUtilityBillCharges({ ...cycle, expenseId: expense.id, splitMethod: 'OccupancyDays' })
+
+    await expect(createUtilityBillCharges({ ...cycle, expenseId: expense.id, splitMethod: 'OccupancyDays' }))
+      .rejects.toThrow('Expense has already been billed to tenants')
+  })
+
+  it('rejects meter readings for rooms outside the property', async () => {
+    await expect(previewUtilityBill({
+      ...cycle,
+      expenseId: expense.id,
+      splitMethod: 'Meter',
+      meterReadings: [{ roomId: uuidv4(), startReading: 0, endReading: 10 }]
+    })).rejects.toThrow('is not in this property')
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import middleware from '@/middleware'
+import { GET as getRoomCalendar } from '@/app/api/rooms/[id]/calendar/route'
+import { POST as postMessagingCallback } from '@/app/api/webhooks/messaging/[channel]/route'
+import { recordDeliveryStatus } from '@/lib/db/operations/reminders'
+import { buildRoomCalendar, getCalendarFeedToken } from '@/lib/rooms/ical'
+
+vi.mock('@/lib/db/operations/rooms', () => ({}))
+vi.mock('@/lib/db/operations/reservations', () => ({}))
+vi.mock('@/lib/db/operations/short-stays', () => ({}))
+vi.mock('@/lib/db/operations/reminders', () => ({
+  recordDeliveryStatus: vi.fn(async () => true)
+}))
+
+vi.mock('@/lib/rooms/ical', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/lib/rooms/ical')>(),
+  buildRoomCalendar: vi.fn(async () => 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n')
+}))
+
+// A request with no session cookie, as booking sites and email recipients make
+const withoutSession = (path: string) => middleware(new NextRequest(`http://localhost:3000${path}`), {} as any)
+
+describe('middleware', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should reject API requests without a session', async () => {
+    const response = await withoutSession('/api/rooms/room-1')
+
+    expect(response?.status).toBe(401)
+  })
+
+  it('should let booking sites read a room calendar feed without a session', async () => {
+    const token = getCalendarFeedToken('room-1')
+    const path = `/api/rooms/room-1/calendar?token=${token}`
+
+    const response = await withoutSession(path)
+    expect(response?.headers.get('x-middleware-next')).toBe('1')
+
+    const feed = await getRoomCalendar(new NextRequest(`http://localhost:3000${path}`), { params: { id: 'room-1' } })
+    expect(feed.status).toBe(200)
+    expect(feed.headers.get('Content-Type')).toContain('text/calendar')
+    expect(buildRoomCalendar).toHaveBeenCalledWith('room-1')
+
+    // The token is what authenticates the feed
+    const forged = await getRoomCalendar(
+      new NextRequest(`http://localhost:3000/api/rooms/room-2/calendar?token=${token}`),
+      { params: { id: 'room-2' } }
+    )
+    expect(forged.status).toBe(401)
+    expect((await withoutSession('/api/rooms/room-1/calendar/import'))?.status).toBe(401)
+  })
+
+  it('should let signers open and sign an agreement from their signing link', async () => {
+    for (const path of ['/api/agreements/agreement-1/sign', '/api/agreements/agreement-1/docusign']) {
+      expect((await withoutSession(`${path}?signer=signer-1&token=abc`))?.headers.get('x-middleware-next')).toBe('1')
+    }
+    expect((await withoutSession('/api/agreements/agreement-1/remind'))?.status).toBe(401)
+  })
+
+  it('should let Vercel Cron call cron routes, which check CRON_SECRET themselves', async () => {
+    expect((await withoutSession('/api/cron/payment-reminders'))?.headers.get('x-middleware-next')).toBe('1')
+  })
+
+  it('should let Stripe post webhook events, which are verified by their signature', async () => {
+    const event = new NextRequest('http://localhost:3000/api/stripe/webhooks', {
+      method: 'POST',
+      headers: { 'stripe-signature': 't=1,v1=abc' },
+      body: '{}'
+    })
+
+    expect((await middleware(event, {} as any))?.headers.get('x-middleware-next')).toBe('1')
+  })
+
+  it('should let messaging providers post delivery callbacks, which must carry the shared token', async () => {
+    expect((await withoutSession('/api/webhooks/messaging/sms'))?.headers.get('x-middleware-next')).toBe('1')
+
+    const callback = (token: string) => postMessagingCallback(
+      new NextRequest(`http://localhost:3000/api/webhooks/messaging/sms?token=${token}`, {
+        method: 'POST',
+        body: JSON.stringify({ messageId: 'sms-1', status: 'delivered' })
+      }),
+      { params: { channel: 'sms' } }
+    )
+
+    // Nothing is accepted until a token is configured
+    vi.stubEnv('MESSAGING_WEBHOOK_TOKEN', '')
+    expect((await callback('')).status).toBe(401)
+
+    vi.stubEnv('MESSAGING_WEBHOOK_TOKEN', 'gateway-token')
+    expect((await callback('wrong-token')).status).toBe(401)
+    expect(recordDeliveryStatus).not.toHaveBeenCalled()
+
+    const accepted = await callback('gateway-token')
+    expect(accepted.status).toBe(200)
+    expect(recordDeliveryStatus).toHaveBeenCalledWith(expect.objectContaining({ messageId: 'sms-1', status: 'delivered' }))
+  })
+
+  it('should reject WhatsApp callbacks until the app secret is configured', async () => {
+    vi.stubEnv('WHATSAPP_APP_SECRET', '')
+
+    const response = await postMessagingCallback(
+      new NextRequest('http://localhost:3000/api/webhooks/messaging/whatsapp', { method: 'POST', body: '{}' }),
+      { params: { channel: 'whatsapp' } }
+    )
+
+    expect(response.status).toBe(401)
+  })
+})
@@ -14,6 +14,11 @@ vi.mock('@vercel/kv', () => ({
   },
 }));
 
+// No exchange rates are stored, so only amounts already in USD convert
+vi.mock('@/lib/db/operations/exchange-rates', () => ({
+  getExchangeRatesForPair: vi.fn().mockResolvedValue([]),
+}));
+
 const mockPayments = [
   {
     id: '1',
@@ -356,6 +361,26 @@ describe('Financial Reporting', () => {
   });
 
   describe('Edge Cases and Error Handling', () => {
+    it('should report amounts without an exchange rate separately instead of failing', async () => {
+      vi.mocked(kv.lrange)
+        .mockResolvedValueOnce([...mockPayments, { ...mockPayments[0], id: '4', amount: 5000000, currency: 'VND' }])
+        .mockResolvedValueOnce(mockExpenses);
+
+      const report = await generateFinancialReport({
+        userId: 'user1',
+        startDate: '2024-01-01T00:00:00.000Z',
+        endDate: '2024-02-28T23:59:59.999Z',
+        reportType: 'monthly',
+        includeComparison: false,
+        reportingCurrency: 'USD',
+      });
+
+      expect(report.income.totalRevenue).toBe(4000);
+      expect(report.unconverted).toEqual([
+        { amount: 5000000, currency: 'VND', date: new Date('2024-01-15') },
+      ]);
+    });
+
     it('should handle negative cash flow correctly', async () => {
       const highExpenses = [
         { ...mockExpenses[0], amount: 5000 }, // Very high expense
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { searchAvailableRooms, getVacancyForecast } from '../../lib/rooms/availability'
+import { getPropertyRooms, getRoomOccupancyHistory } from '../../lib/db/operations/rooms'
+import { getPropertyTenants } from '../../lib/db/operations/tenants'
+import { getPropertyAgreements } from '../../lib/db/operations/agreements'
+
+vi.mock('@/lib/db/operations/rooms', () => ({
+  getPropertyRooms: vi.fn(),
+  getRoomOccupancyHistory: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/tenants', () => ({
+  getPropertyTenants: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/agreements', () => ({
+  getPropertyAgreements: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/properties', () => ({
+  getActiveProperties: vi.fn().mockResolvedValue([])
+}))
+
+const propertyId = '550e8400-e29b-41d4-a716-446655440000'
+
+const room = (id: string, number: string, type: string, monthlyRent: number, features: string[] = []) => ({
+  id,
+  propertyId,
+  number,
+  type,
+  size: 20,
+  features,
+  monthlyRent,
+  deposit: monthlyRent,
+  isAvailable: true
+})
+
+const rooms = [
+  room('room-101', '101', 'Single', 400, ['Balcony']),
+  room('room-102', '102', 'Double', 600),
+  room('room-103', '103', 'Single', 450, ['balcony', 'Aircon']),
+  room('room-104', '104', 'Studio', 800)
+]
+
+describe('Room availability', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    vi.mocked(getPropertyRooms).mockResolvedValue(rooms as any)
+    vi.mocked(getRoomOccupancyHistory).mockImplementation(async (roomId: string) =>
+      roomId === 'room-101'
+        ? [{ roomId, startDate: new Date(2025, 0, 1), endDate: new Date(2025, 1, 28) }] as any
+        : []
+    )
+    vi.mocked(getPropertyTenants).mockResolvedValue([
+      {
+        id: 'tenant-1',
+        status: 'Active',
+        roomAssignment: {
+          roomId: 'room-102',
+          moveInDate: new Date(2024, 5, 1),
+          leaseEndDate: new Date(2025, 3, 30),
+          isActive: true
+        }
+      }
+    ] as any)
+    // Signed but not yet moved in
+    vi.mocked(getPropertyAgreements).mockResolvedValue([
+      {
+        id: 'agreement-1',
+        tenantId: 'tenant-2',
+        status: 'Signed',
+        roomNumber: '103',
+        leaseStartDate: new Date(2025, 3, 15),
+        leaseEndDate: new Date(2025, 9, 14)
+      }
+    ] as any)
+  })
+
+  describe('searchAvailableRooms', () => {
+    it('should return rooms free for the whole range, cheapest first', async () => {
+      const results = await searchAvailableRooms({ from: new Date(2025, 2, 1), months: 3, propertyIds: [propertyId] })
+
+      expect(results.map(result => result.room.id)).toEqual(['room-101', 'room-104'])
+      expect(results[0].availableFrom).toEqual(new Date(2025, 2, 1))
+      expect(results[1].availableFrom).toBeUndefined()
+    })
+
+    it('should include rooms booked after the range with the last free day', async () => {
+      const results = await searchAvailableRooms({
+        from: new Date(2025, 2, 1),
+        to: new Date(2025, 3, 10),
+        propertyIds: [propertyId]
+      })
+
+      const booked = results.find(result => result.room.id === 'room-103')
+      expect(booked?.availableUntil).toEqual(new Date(2025, 3, 14))
+      expect(results.some(result => result.room.id === 'room-102')).toBe(false)
+    })
+
+    it('should filter by room type, rent and features', async () => {
+      const results = await searchAvailableRooms({
+        from: new Date(2025, 2, 1),
+        to: new Date(2025, 3, 10),
+        propertyIds: [propertyId],
+        roomTypes: ['Single'],
+        maxRent: 500,
+        features: ['BALCONY']
+      })
+
+      expect(results.map(result => result.room.id)).toEqual(['room-101', 'room-103'])
+
+      const aircon = await searchAvailableRooms({
+        from: new Date(2025, 2, 1),
+        to: new Date(2025, 3, 10),
+        propertyIds: [propertyId],
+        features: ['balcony', 'aircon']
+      })
+      expect(aircon.map(result => result.room.id)).toEqual(['room-103'])
+    })
+
+    it('should reject an end date before the start date', async () => {
+      await expect(searchAvailableRooms({
+        from: new Date(2025, 2, 1),
+        to: new Date(2025, 1, 1),
+        propertyIds: [propertyId]
+      })).rejects.toThrow('Search end date must not be before the start date')
+    })
+  })
+
+  describe('getVacancyForecast', () => {
+    it('should forecast daily vacancy and upcoming vacancies', async () => {
+      const forecast = await getVacancyForecast(propertyId, { from: new Date(2025, 2, 1) })
+
+      expect(forecast.days).toHaveLength(90)
+      expect(forecast.totalRooms).toBe(4)
+      expect(forecast.days[0]).toEqual({ date: '2025-03-01', vacantRooms: 3, occupancyRate: 0.25 })
+      // Room 103 is let from 15 April, room 102 frees up on 1 May
+      expect(forecast.days.find(day => day.date === '2025-04-20')?.vacantRooms).toBe(2)
+      expect(forecast.days.find(day => day.date === '2025-05-01')?.vacantRooms).toBe(3)
+
+      const leaseEnd = forecast.upcomingVacancies.find(vacancy => vacancy.room.id === 'room-102')
+      expect(leaseEnd).toMatchObject({ reason: 'lease-end', daysUntilVacant: 61 })
+      expect(leaseEnd?.vacantFrom).toEqual(new Date(2025, 4, 1))
+
+      const vacant = forecast.upcomingVacancies.find(vacancy => vacancy.room.id === 'room-103')
+      expect(vacant).toMatchObject({ reason: 'vacant', daysUntilVacant: 0 })
+      expect(vacant?.vacantUntil).toEqual(new Date(2025, 3, 14))
+    })
+
+    it('should free an agreement room once the tenant moves out early', async () => {
+      vi.mocked(getPropertyAgreements).mockResolvedValue([
+        {
+          id: 'agreement-2',
+          tenantId: 'tenant-3',
+          status: 'Completed',
+          roomNumber: '104',
+          leaseStartDate: new Date(2024, 9, 1),
+          leaseEndDate: new Date(2025, 8, 30)
+        },
+        {
+          id: 'agreement-3',
+          tenantId: 'tenant-4',
+          status: 'Signed',
+          roomNumber: '103',
+          leaseStartDate: new Date(2024, 9, 1)
+        }
+      ] as any)
+      vi.mocked(getPropertyTenants).mockResolvedValue([
+        {
+          id: 'tenant-3',
+          status: 'Active',
+          roomAssignment: {
+            roomId: 'room-104',
+            moveInDate: new Date(2024, 9, 1),
+            moveOutDate: new Date(2025, 2, 15),
+            leaseEndDate: new Date(2025, 8, 30),
+            isActive: false
+          }
+        },
+        { id: 'tenant-4', status: 'Moved Out' }
+      ] as any)
+
+      const forecast = await getVacancyForecast(propertyId, { from: new Date(2025, 2, 1) })
+
+      const movedOut = forecast.upcomingVacancies.find(vacancy => vacancy.room.id === 'room-104')
+      expect(movedOut).toMatchObject({ reason: 'move-out' })
+      expect(movedOut?.vacantFrom).toEqual(new Date(2025, 2, 16))
+      expect(forecast.days.find(day => day.date === '2025-04-01')?.vacantRooms).toBe(4)
+    })
+  })
+})
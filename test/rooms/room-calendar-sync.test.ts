@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  buildRoomCalendar,
+  importRoomCalendar,
+  parseICalendar,
+  getCalendarFeedToken,
+  verifyCalendarFeedToken
+} from '../../lib/rooms/ical'
+import { OccupancyRecord } from '../../lib/db/models/room'
+import { getRoom, getRoomOccupancyHistory, createOccupancyRecord, updateOccupancyRecord } from '../../lib/db/operations/rooms'
+
+vi.mock('@/lib/db/operations/rooms', () => ({
+  getRoom: vi.fn(),
+  getRoomOccupancyHistory: vi.fn(),
+  createOccupancyRecord: vi.fn(),
+  updateOccupancyRecord: vi.fn()
+}))
+
+const propertyId = '550e8400-e29b-41d4-a716-446655440000'
+const tenantId = '650e8400-e29b-41d4-a716-446655440000'
+const now = new Date(2025, 2, 1, 9, 0)
+
+const calendarFile = (...events: string[]) => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Airbnb Inc//Hosting Calendar//EN',
+  ...events,
+  'END:VCALENDAR'
+].join('\r\n')
+
+const event = (uid: string, start: string, end: string, extra: string[] = []) => [
+  'BEGIN:VEVENT',
+  `DTSTART;VALUE=DATE:${start}`,
+  `DTEND;VALUE=DATE:${end}`,
+  `UID:${uid}`,
+  'SUMMARY:Reserved',
+  ...extra,
+  'END:VEVENT'
+].join('\r\n')
+
+describe('Room calendar sync', () => {
+  let roomId: string
+  let records: OccupancyRecord[]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    roomId = crypto.randomUUID()
+    records = [{
+      id: crypto.randomUUID(),
+      roomId,
+      kind: 'Tenancy',
+      tenantId,
+      startDate: new Date(2025, 2, 20),
+      endDate: new Date(2025, 5, 30),
+      monthlyRent: 600,
+      status: 'Future',
+      createdAt: now,
+      updatedAt: now
+    }]
+
+    vi.mocked(getRoom).mockResolvedValue({ id: roomId, propertyId, number: '301', monthlyRent: 600 } as any)
+    vi.mocked(getRoomOccupancyHistory).mockImplementation(async () => records.filter(record => !record.deletedAt))
+    vi.mocked(createOccupancyRecord).mockImplementation(async (input) => {
+      const record = { ...input, id: crypto.randomUUID(), createdAt: now, updatedAt: now } as OccupancyRecord
+      records.push(record)
+      return record
+    })
+    vi.mocked(updateOccupancyRecord).mockImplementation(async ({ id, ...updates }) => {
+      const index = records.findIndex(record => record.id === id)
+      records[index] = { ...records[index], ...updates }
+      return records[index]
+    })
+  })
+
+  describe('buildRoomCalendar', () => {
+    it('should export stays as all-day events without tenant details', async () => {
+      const ics = await buildRoomCalendar(roomId, now)
+      const events = parseICalendar(ics)
+
+      expect(ics).toContain('DTSTART;VALUE=DATE:20250320\r\nDTEND;VALUE=DATE:20250701')
+      expect(ics).toContain('SUMMARY:Occupied: room 301')
+      expect(ics).not.toContain(tenantId)
+      expect(events).toEqual([{
+        uid: `occupancy-${records[0].id}@coliving-management`,
+        summary: 'Occupied: room 301',
+        start: new Date(2025, 2, 20),
+        end: new Date(2025, 5, 30)
+      }])
+    })
+
+    it('should only accept the token signed for the room', () => {
+      const token = getCalendarFeedToken(roomId)
+
+      expect(verifyCalendarFeedToken(roomId, token)).toBe(true)
+      expect(verifyCalendarFeedToken(crypto.randomUUID(), token)).toBe(false)
+      expect(verifyCalendarFeedToken(roomId, 'not-a-token')).toBe(false)
+    })
+
+    it('should refuse to share or serve feeds in production until a feed secret is set', () => {
+      const token = getCalendarFeedToken(roomId)
+      vi.stubEnv('NODE_ENV', 'production')
+      vi.stubEnv('CALENDAR_FEED_SECRET', '')
+
+      try {
+        expect(() => getCalendarFeedToken(roomId)).toThrow('CALENDAR_FEED_SECRET')
+        expect(verifyCalendarFeedToken(roomId, token)).toBe(false)
+      } finally {
+        vi.unstubAllEnvs()
+      }
+    })
+  })
+
+  describe('importRoomCalendar', () => {
+    it('should block the nights of each booking and flag clashes with tenants', async () => {
+      const result = await importRoomCalendar(roomId, {
+        calendar: 'Airbnb',
+        ics: calendarFile(
+          event('a1@airbnb.com', '20250305', '20250308'),
+          event('a2@airbnb.com', '20250318', '20250322'),
+          event('a3@airbnb.com', '20250325', '20250327', ['STATUS:CANCELLED']),
+          event(`occupancy-${records[0].id}@coliving-management`, '20250320', '20250701')
+        )
+      }, now)
+
+      expect(result).toMatchObject({ created: 2, updated: 0, removed: 0, skipped: 1 })
+      expect(createOccupancyRecord).toHaveBeenCalledWith(expect.objectContaining({
+        roomId,
+        kind: 'Block',
+        startDate: new Date(2025, 2, 5),
+        endDate: new Date(2025, 2, 7), // Check-out day is free
+        status: 'Future',
+        externalCalendar: 'Airbnb',
+        externalUid: 'a1@airbnb.com',
+        summary: 'Reserved'
+      }))
+      expect(result.conflicts).toEqual([expect.objectContaining({
+        externalUid: 'a2@airbnb.com',
+        tenantId,
+        conflictStart: new Date(2025, 2, 20),
+        conflictEnd: new Date(2025, 2, 21)
+      })])
+    })
+
+    it('should update moved bookings and drop cancelled ones on re-import', async () => {
+      await importRoomCalendar(roomId, {
+        calendar: 'Airbnb',
+        ics: calendarFile(event('a1@airbnb.com', '20250305', '20250308'), event('a2@airbnb.com', '20250310', '20250312'))
+      }, now)
+
+      const result = await importRoomCalendar(roomId, {
+        calendar: 'Airbnb',
+        ics: calendarFile(event('a1@airbnb.com', '20250306', '20250309'))
+      }, now)
+
+      expect(result).toMatchObject({ created: 0, updated: 1, removed: 1, conflicts: [] })
+      const blocks = (await getRoomOccupancyHistory(roomId)).filter(record => record.kind === 'Block')
+      expect(blocks).toHaveLength(1)
+      expect(blocks[0]).toMatchObject({ externalUid: 'a1@airbnb.com', startDate: new Date(2025, 2, 6), endDate: new Date(2025, 2, 8) })
+    })
+
+    it('should reject files that are not calendars', async () => {
+      await expect(importRoomCalendar(roomId, { calendar: 'Airbnb', ics: 'hello' }, now))
+        .rejects.toThrow('Not an iCalendar file')
+    })
+  })
+})
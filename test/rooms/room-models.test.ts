@@ -272,6 +272,10 @@ describe('Room Models and Schemas', () => {
       occupiedRooms: 8,
       availableRooms: 2,
       occupancyRate: 0.8,
+      occupiedNights: 240,
+      totalNights: 300,
+      periodStart: new Date('2024-01-01'),
+      periodEnd: new Date('2024-01-30'),
       averageMonthlyRent: 750,
       totalMonthlyRevenue: 6000,
       averageOccupancyDuration: 180,
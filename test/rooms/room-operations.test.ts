@@ -531,7 +531,9 @@ describe('Room Operations', () => {
         totalRooms: 3,
         occupiedRooms: 2,
         availableRooms: 1,
-        occupancyRate: 2/3,
+        occupancyRate: 0, // No occupancy records or stays in the last 30 nights
+        occupiedNights: 0,
+        totalNights: 90,
         averageMonthlyRent: (800 + 1000 + 900) / 3,
         totalMonthlyRevenue: 800 + 900, // only occupied rooms
         maintenanceRequestsCount: 2
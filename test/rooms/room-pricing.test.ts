@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { suggestRoomRent } from '../../lib/rooms/pricing'
+import { getRoom, getPropertyRooms, getRoomOccupancyHistory } from '../../lib/db/operations/rooms'
+
+vi.mock('@/lib/db', () => ({
+  db: {}
+}))
+
+vi.mock('@/lib/db/operations/rooms', () => ({
+  getRoom: vi.fn(),
+  getPropertyRooms: vi.fn(),
+  getRoomOccupancyHistory: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/tenants', () => ({
+  getPropertyTenants: vi.fn().mockResolvedValue([])
+}))
+
+vi.mock('@/lib/db/operations/agreements', () => ({
+  getPropertyAgreements: vi.fn().mockResolvedValue([])
+}))
+
+vi.mock('@/lib/db/operations/properties', () => ({
+  getActiveProperties: vi.fn().mockResolvedValue([]),
+  getPropertyById: vi.fn().mockResolvedValue({ reportingCurrency: 'USD', rentCurrency: 'VND' })
+}))
+
+const propertyId = '550e8400-e29b-41d4-a716-446655440000'
+
+const room = (id: string, type: string, size: number, monthlyRent: number) => ({
+  id,
+  propertyId,
+  number: id,
+  type,
+  size,
+  features: [],
+  monthlyRent,
+  deposit: monthlyRent,
+  isAvailable: true,
+  createdAt: new Date(2023, 0, 1),
+  updatedAt: new Date(2023, 0, 1)
+})
+
+const stay = (roomId: string, startDate: Date, endDate: Date) => ({
+  id: `${roomId}-${startDate.getTime()}`,
+  roomId,
+  tenantId: 'tenant-1',
+  startDate,
+  endDate,
+  monthlyRent: 400,
+  status: 'Past'
+})
+
+const rooms = [
+  room('room-1', 'Single', 20, 400),
+  room('room-2', 'Single', 20, 480),
+  room('room-3', 'Double', 30, 600)
+]
+
+const asOf = new Date(2025, 5, 15)
+
+describe('Room pricing suggestions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    vi.mocked(getRoom).mockImplementation(async (id: string) => rooms.find(r => r.id === id) as any || null)
+    vi.mocked(getPropertyRooms).mockResolvedValue(rooms as any)
+  })
+
+  it('should explain each adjustment and add a short-stay premium', async () => {
+    vi.mocked(getRoomOccupancyHistory).mockImplementation(async (roomId: string) =>
+      roomId === 'room-1' ? [stay(roomId, new Date(2023, 5, 1), new Date(2025, 5, 30))] as any : []
+    )
+
+    const suggestion = await suggestRoomRent('room-1', { startDate: new Date(2025, 6, 1), stayMonths: 1, asOf })
+
+    const adjustments = Object.fromEntries(suggestion.factors.map(factor => [factor.factor, factor.adjustment]))
+    expect(adjustments).toEqual({
+      'room-type-size': 0.1, // Same-size Single rents for 20% more, half the gap is closed
+      'historic-occupancy': 0.05,
+      'current-vacancy': -0.05,
+      'seasonality': 0,
+      'stay-length': 0.2
+    })
+    expect(suggestion.suggestedRent).toBe(520)
+    expect(suggestion.confidence).toBe('high')
+    expect(suggestion.factors.find(factor => factor.factor === 'stay-length')?.reason)
+      .toBe('Short-stay premium for a 1-month stay')
+    // Amounts are in the property's currency
+    expect(suggestion.factors.find(factor => factor.factor === 'room-type-size')?.reason)
+      .toMatch(/^Similar Single rooms point to about ₫480 for /)
+  })
+
+  it('should raise rent for stays starting in a busy month', async () => {
+    vi.mocked(getRoomOccupancyHistory).mockImplementation(async (roomId: string) => {
+      if (roomId === 'room-1') {
+        return [stay(roomId, new Date(2023, 5, 1), new Date(2025, 5, 30))] as any
+      }
+      if (roomId === 'room-3') {
+        // Summer and year-end lets on top of the steady room
+        return [
+          stay(roomId, new Date(2023, 6, 1), new Date(2023, 6, 31)),
+          stay(roomId, new Date(2024, 6, 1), new Date(2024, 6, 31)),
+          stay(roomId, new Date(2024, 11, 1), new Date(2024, 11, 31))
+        ] as any
+      }
+      return []
+    })
+
+    const suggestion = await suggestRoomRent('room-1', { startDate: new Date(2025, 6, 1), asOf })
+
+    expect(suggestion.factors.find(factor => factor.factor === 'seasonality')).toEqual({
+      factor: 'seasonality',
+      adjustment: 0.08,
+      reason: 'July is a busy month for this property'
+    })
+    expect(suggestion.factors.find(factor => factor.factor === 'stay-length')?.adjustment).toBe(0)
+    expect(suggestion.suggestedRent).toBe(470)
+  })
+
+  it('should reject unknown rooms', async () => {
+    await expect(suggestRoomRent('missing-room', { asOf })).rejects.toThrow('Room not found')
+  })
+})
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  placeRoomHold,
+  convertReservationToAgreement,
+  releaseReservation,
+  checkRoomReservations
+} from '../../lib/rooms/reservations'
+import { searchAvailableRooms } from '../../lib/rooms/availability'
+import { getReservation } from '../../lib/db/operations/reservations'
+import { createPayment, getPaymentById, updatePayment } from '../../lib/db/operations/payment'
+import { getRoom, getPropertyRooms, getRoomOccupancyHistory } from '../../lib/db/operations/rooms'
+import { getAgreement, getPropertyAgreements } from '../../lib/db/operations/agreements'
+import { getPropertyTenants } from '../../lib/db/operations/tenants'
+import { sendNewAgreement } from '../../lib/agreements/sending'
+
+vi.mock('@/lib/db/operations/rooms', () => ({
+  getRoom: vi.fn(),
+  getPropertyRooms: vi.fn(),
+  getRoomOccupancyHistory: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/tenants', () => ({
+  getPropertyTenants: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/agreements', () => ({
+  getAgreement: vi.fn(),
+  getPropertyAgreements: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/properties', () => ({
+  getActiveProperties: vi.fn().mockResolvedValue([])
+}))
+
+vi.mock('@/lib/agreements/sending', () => ({
+  sendNewAgreement: vi.fn()
+}))
+
+const propertyId = '550e8400-e29b-41d4-a716-446655440000'
+const agreementId = '650e8400-e29b-41d4-a716-446655440000'
+const tenantId = '750e8400-e29b-41d4-a716-446655440000'
+
+const room = (id: string, number: string) => ({
+  id,
+  propertyId,
+  number,
+  type: 'Single',
+  size: 18,
+  features: [],
+  monthlyRent: 400,
+  deposit: 400,
+  isAvailable: true
+})
+
+const prospect = {
+  prospectName: 'Linh Tran',
+  prospectEmail: 'linh@example.com',
+  startDate: new Date(2025, 3, 1),
+  endDate: new Date(2025, 8, 30)
+}
+
+const now = new Date(2025, 2, 10, 12)
+
+describe('Room reservations', () => {
+  let roomId: string
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    // Fresh room per test, the reservation store outlives each test
+    roomId = crypto.randomUUID()
+    const rooms = [room(roomId, '201')]
+    vi.mocked(getRoom).mockImplementation(async (id: string) => rooms.find(r => r.id === id) as any || null)
+    vi.mocked(getPropertyRooms).mockResolvedValue(rooms as any)
+    vi.mocked(getRoomOccupancyHistory).mockResolvedValue([])
+    vi.mocked(getPropertyTenants).mockResolvedValue([])
+    vi.mocked(getPropertyAgreements).mockResolvedValue([])
+  })
+
+  it('should hold a room, charge the fee and keep the room out of availability', async () => {
+    const reservation = await placeRoomHold({ roomId, ...prospect, feeCents: 5000 }, now)
+
+    expect(reservation.status).toBe('Held')
+    expect(reservation.holdExpiresAt).toEqual(new Date(2025, 2, 13, 12))
+
+    const fee = await getPaymentById(reservation.feePaymentId!)
+    expect(fee).toMatchObject({
+      amountCents: 5000,
+      status: 'Pending',
+      reservationId: reservation.id,
+      tenantId: reservation.prospectId,
+      remindersPaused: true
+    })
+
+    const available = await searchAvailableRooms({ from: new Date(2025, 4, 1), propertyIds: [propertyId] })
+    expect(available.some(result => result.room.id === roomId)).toBe(false)
+
+    await expect(placeRoomHold({ roomId, ...prospect, prospectEmail: 'other@example.com' }, now))
+      .rejects.toThrow('Room is already occupied, booked or held for these dates')
+  })
+
+  it('should expire a lapsed hold, waive the fee and free the room', async () => {
+    const reservation = await placeRoomHold({ roomId, ...prospect, feeCents: 5000, holdDays: 2 }, now)
+
+    const result = await checkRoomReservations({ asOf: new Date(2025, 2, 12, 13) })
+
+    expect(result.expired).toBeGreaterThanOrEqual(1)
+    expect((await getReservation(reservation.id))?.status).toBe('Expired')
+    expect((await getPaymentById(reservation.feePaymentId!))?.status).toBe('Waived')
+
+    const available = await searchAvailableRooms({ from: new Date(2025, 4, 1), propertyIds: [propertyId] })
+    expect(available.some(result => result.room.id === roomId)).toBe(true)
+  })
+
+  it('should waive an overdue fee together with its late fees when the hold ends', async () => {
+    const reservation = await placeRoomHold({ roomId, ...prospect, feeCents: 5000 }, now)
+    await updatePayment(reservation.feePaymentId!, { status: 'Overdue' })
+    const lateFee = await createPayment({
+      tenantId: reservation.prospectId,
+      propertyId,
+      amountCents: 500,
+      currency: 'USD',
+      paymentMethod: 'Stripe',
+      status: 'Pending',
+      dueDate: now,
+      description: 'Late fee - Reservation fee for room 201',
+      lateFeeForPaymentId: reservation.feePaymentId
+    })
+
+    await releaseReservation(reservation.id, 'Prospect chose another room', now)
+
+    expect((await getPaymentById(reservation.feePaymentId!))?.status).toBe('Waived')
+    expect((await getPaymentById(lateFee.id))?.status).toBe('Waived')
+  })
+
+  it('should convert a hold into an agreement and hand over once signed', async () => {
+    vi.mocked(sendNewAgreement).mockResolvedValue({
+      agreementId,
+      agreementUrl: 'https://example.com/agreements/sign',
+      expirationDate: new Date(2025, 2, 17),
+      emailSent: true
+    })
+    const reservation = await placeRoomHold({ roomId, ...prospect, feeCents: 5000 }, now)
+
+    const converted = await convertReservationToAgreement(reservation.id, {
+      templateId: '850e8400-e29b-41d4-a716-446655440000',
+      variableValues: []
+    }, 'manager-1', now)
+
+    expect(converted).toMatchObject({ status: 'AgreementSent', agreementId, holdExpiresAt: new Date(2025, 2, 17) })
+    // The fee is due with the agreement rather than with the original hold
+    expect((await getPaymentById(reservation.feePaymentId!))?.dueDate).toEqual(new Date(2025, 2, 17))
+    expect(sendNewAgreement).toHaveBeenCalledWith(expect.objectContaining({
+      prospectEmail: 'linh@example.com',
+      roomNumber: '201',
+      leaseStartDate: prospect.startDate
+    }), 'manager-1')
+
+    vi.mocked(getAgreement).mockResolvedValue({ id: agreementId, status: 'Signed', tenantId } as any)
+    await checkRoomReservations({ asOf: new Date(2025, 2, 15) })
+
+    expect(await getReservation(reservation.id)).toMatchObject({ status: 'Converted', tenantId })
+    expect((await getPaymentById(reservation.feePaymentId!))?.tenantId).toBe(tenantId)
+  })
+
+  it('should release a hold early and refuse to convert it afterwards', async () => {
+    const reservation = await placeRoomHold({ roomId, ...prospect }, now)
+
+    const released = await releaseReservation(reservation.id, 'Prospect chose another room', now)
+    expect(released).toMatchObject({ status: 'Released', releaseReason: 'Prospect chose another room' })
+
+    await expect(convertReservationToAgreement(reservation.id, {
+      templateId: '850e8400-e29b-41d4-a716-446655440000',
+      variableValues: []
+    }, 'manager-1', now)).rejects.toThrow('Only held reservations can be converted into an agreement')
+  })
+})
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { kv } from '@vercel/kv'
+import { quoteShortStay, bookShortStay, cancelShortStay, checkInShortStay } from '../../lib/rooms/short-stays'
+import { getPaymentById } from '../../lib/db/operations/payment'
+import { getRoom, getPropertyRooms, getRoomOccupancyHistory } from '../../lib/db/operations/rooms'
+import { getProperty } from '../../lib/db/operations/properties'
+
+vi.mock('@vercel/kv', () => ({
+  kv: {
+    set: vi.fn(),
+    del: vi.fn()
+  }
+}))
+
+vi.mock('@/lib/db/operations/rooms', () => ({
+  getRoom: vi.fn(),
+  getPropertyRooms: vi.fn(),
+  getRoomOccupancyHistory: vi.fn()
+}))
+
+vi.mock('@/lib/db/operations/properties', () => ({
+  getProperty: vi.fn(),
+  getActiveProperties: vi.fn().mockResolvedValue([])
+}))
+
+vi.mock('@/lib/db/operations/tenants', () => ({
+  getPropertyTenants: vi.fn().mockResolvedValue([])
+}))
+
+vi.mock('@/lib/db/operations/agreements', () => ({
+  getPropertyAgreements: vi.fn().mockResolvedValue([])
+}))
+
+const propertyId = '550e8400-e29b-41d4-a716-446655440000'
+const tenantId = '650e8400-e29b-41d4-a716-446655440000'
+
+const room = (id: string, rates: { nightlyRate?: number; weeklyRate?: number } = {}) => ({
+  id,
+  propertyId,
+  number: '301',
+  type: 'Single',
+  size: 18,
+  features: [],
+  monthlyRent: 600,
+  deposit: 600,
+  isAvailable: true,
+  ...rates
+})
+
+describe('Short stays', () => {
+  let roomId: string
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    // Fresh room per test, the stay store outlives each test
+    roomId = crypto.randomUUID()
+    const rooms = [room(roomId, { nightlyRate: 30, weeklyRate: 180 })]
+    vi.mocked(getRoom).mockImplementation(async (id: string) => rooms.find(r => r.id === id) as any || null)
+    vi.mocked(getPropertyRooms).mockResolvedValue(rooms as any)
+    vi.mocked(getRoomOccupancyHistory).mockResolvedValue([])
+    vi.mocked(getProperty).mockResolvedValue({
+      id: propertyId,
+      settings: { checkInTime: '14:00', checkOutTime: '11:00' }
+    } as any)
+  })
+
+  describe('quoteShortStay', () => {
+    it('should charge whole weeks at the weekly rate and the rest per night', () => {
+      const quote = quoteShortStay(room(roomId, { nightlyRate: 30, weeklyRate: 180 }) as any, new Date(2025, 2, 1), new Date(2025, 2, 18))
+
+      expect(quote).toMatchObject({ nights: 17, pricing: 'weekly', weeks: 2, extraNights: 3, totalCents: 2 * 18000 + 3 * 3000 })
+    })
+
+    it('should pro-rate rates from the monthly rent when the room has none', () => {
+      const quote = quoteShortStay(room(roomId) as any, new Date(2025, 2, 1), new Date(2025, 2, 4))
+
+      expect(quote).toMatchObject({ nights: 3, pricing: 'nightly', nightlyRateCents: 2000, totalCents: 6000 })
+    })
+
+    it('should reject a check-out on or before check-in', () => {
+      expect(() => quoteShortStay(room(roomId) as any, new Date(2025, 2, 4), new Date(2025, 2, 4)))
+        .toThrow('Check-out must be at least one day after check-in')
+    })
+
+    it('should price in whole dong for a VND property', () => {
+      const quote = quoteShortStay(room(roomId, { nightlyRate: 350000 }) as any, new Date(2025, 2, 1), new Date(2025, 2, 3), undefined, 'VND')
+
+      expect(quote).toMatchObject({ nightlyRateCents: 350000, totalCents: 700000, currency: 'VND' })
+    })
+  })
+
+  describe('bookShortStay', () => {
+    it('should book at the property times, charge the stay and schedule a turnover clean', async () => {
+      const stay = await bookShortStay({ roomId, tenantId, checkIn: new Date(2025, 3, 1), checkOut: new Date(2025, 3, 15) })
+
+      expect(stay.checkInAt).toEqual(new Date(2025, 3, 1, 14, 0))
+      expect(stay.checkOutAt).toEqual(new Date(2025, 3, 15, 11, 0))
+      expect(stay).toMatchObject({ nights: 14, totalCents: 36000, status: 'Booked' })
+
+      const payment = await getPaymentById(stay.paymentId!)
+      expect(payment).toMatchObject({ amountCents: 36000, status: 'Pending', tenantId, shortStayId: stay.id })
+
+      expect(kv.set).toHaveBeenCalledWith(
+        `task:${propertyId}:${stay.turnoverTaskId}`,
+        expect.objectContaining({
+          category: 'Cleaning',
+          title: 'Turnover clean: room 301',
+          dueDate: new Date(2025, 3, 15, 14, 0)
+        })
+      )
+    })
+
+    it('should let the next guest arrive on the day the last one leaves', async () => {
+      await bookShortStay({ roomId, tenantId, checkIn: new Date(2025, 4, 1), checkOut: new Date(2025, 4, 10) })
+
+      const next = await bookShortStay({ roomId, tenantId, checkIn: new Date(2025, 4, 10), checkOut: new Date(2025, 4, 20) })
+      expect(next.nights).toBe(10)
+
+      await expect(bookShortStay({ roomId, tenantId, checkIn: new Date(2025, 4, 15), checkOut: new Date(2025, 4, 17) }))
+        .rejects.toThrow('Room is already occupied, booked or held for these dates')
+    })
+
+    it('should not turn a room over on the same day when check-out is after check-in', async () => {
+      vi.mocked(getProperty).mockResolvedValue({
+        id: propertyId,
+        settings: { checkInTime: '12:00', checkOutTime: '15:00' }
+      } as any)
+      await bookShortStay({ roomId, tenantId, checkIn: new Date(2025, 5, 1), checkOut: new Date(2025, 5, 10) })
+
+      await expect(bookShortStay({ roomId, tenantId, checkIn: new Date(2025, 5, 10), checkOut: new Date(2025, 5, 12) }))
+        .rejects.toThrow('Room is already occupied, booked or held for these dates')
+    })
+
+    it('should charge the stay in the property rent currency', async () => {
+      vi.mocked(getProperty).mockResolvedValue({
+        id: propertyId,
+        reportingCurrency: 'USD',
+        rentCurrency: 'VND',
+        settings: { checkInTime: '14:00', checkOutTime: '11:00' }
+      } as any)
+      vi.mocked(getRoom).mockResolvedValue(room(roomId, { nightlyRate: 350000 }) as any)
+
+      const stay = await bookShortStay({ roomId, tenantId, checkIn: new Date(2025, 7, 1), checkOut: new Date(2025, 7, 3) })
+
+      expect(stay).toMatchObject({ nightlyRateCents: 350000, totalCents: 700000, currency: 'VND' })
+      expect(await getPaymentById(stay.paymentId!)).toMatchObject({ amountCents: 700000, currency: 'VND' })
+    })
+  })
+
+  describe('cancelShortStay', () => {
+    it('should waive the charge, drop the turnover clean and free the room', async () => {
+      const stay = await bookShortStay({ roomId, tenantId, checkIn: new Date(2025, 6, 1), checkOut: new Date(2025, 6, 5) })
+
+      const cancelled = await cancelShortStay(stay.id)
+
+      expect(cancelled.status).toBe('Cancelled')
+      expect((await getPaymentById(stay.paymentId!))?.status).toBe('Waived')
+      expect(kv.del).toHaveBeenCalledWith(`task:${propertyId}:${stay.turnoverTaskId}`)
+      await expect(checkInShortStay(stay.id)).rejects.toThrow('Only booked stays can be checked in')
+
+      const rebooked = await bookShortStay({ roomId, tenantId, checkIn: new Date(2025, 6, 1), checkOut: new Date(2025, 6, 5) })
+      expect(rebooked.status).toBe('Booked')
+    })
+  })
+})